@@ -1,6 +1,6 @@
 import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
@@ -11,6 +11,7 @@ import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import { usePermissions, PERMISSIONS } from "@/hooks/use-permissions";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useRealtimeUpdates } from "@/hooks/use-websocket";
 import { Loader2 } from "lucide-react";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
@@ -20,15 +21,28 @@ import EmployeeHome from "@/pages/EmployeeHome";
 import Shifts from "@/pages/Shifts";
 import NewShift from "@/pages/NewShift";
 import Employees from "@/pages/Employees";
+import Messages from "@/pages/Messages";
 import Training from "@/pages/Training";
 import Reports from "@/pages/Reports";
 import Settings from "@/pages/Settings";
 import AuditLog from "@/pages/AuditLog";
+import TimeOff from "@/pages/TimeOff";
+import ShiftSwaps from "@/pages/ShiftSwaps";
 
 function ProtectedApp() {
   const { user, isLoading } = useAuth();
   const { canAccessDashboard, hasPermission } = usePermissions();
   const isMobile = useIsMobile();
+  const canViewMessages = hasPermission(PERMISSIONS.EMPLOYEES_MANAGE);
+
+  // One connection for the whole app keeps every page and the unread badge live
+  useRealtimeUpdates({ enabled: !!user });
+
+  const { data: unread } = useQuery<{ unread: number }>({
+    queryKey: ["/api/sms/unread-count"],
+    enabled: !!user && canViewMessages,
+  });
+  const unreadMessages = unread?.unread ?? 0;
 
   if (isLoading) {
     return (
@@ -56,7 +70,7 @@ function ProtectedApp() {
         <AppSidebar
           userRole={userRole}
           userName={displayName}
-          unreadMessages={2}
+          unreadMessages={unreadMessages}
         />
         <div className="flex flex-col flex-1 min-w-0">
           <header className="flex items-center justify-between gap-4 p-3 border-b sticky top-0 bg-background z-50">
@@ -90,11 +104,26 @@ function ProtectedApp() {
                   </ProtectedRoute>
                 )}
               </Route>
+              <Route path="/time-off">
+                <ProtectedRoute permission={PERMISSIONS.SHIFTS_MANAGE}>
+                  <TimeOff />
+                </ProtectedRoute>
+              </Route>
+              <Route path="/swaps">
+                <ProtectedRoute permission={PERMISSIONS.SHIFTS_MANAGE}>
+                  <ShiftSwaps />
+                </ProtectedRoute>
+              </Route>
               <Route path="/employees">
                 <ProtectedRoute permission={PERMISSIONS.EMPLOYEES_MANAGE}>
                   <Employees />
                 </ProtectedRoute>
               </Route>
+              <Route path="/messages">
+                <ProtectedRoute permission={PERMISSIONS.EMPLOYEES_MANAGE}>
+                  <Messages />
+                </ProtectedRoute>
+              </Route>
               <Route path="/training">
                 <ProtectedRoute permission={PERMISSIONS.TRAINING_VIEW}>
                   <Training />
@@ -123,7 +152,7 @@ function ProtectedApp() {
           <MobileBottomNav
             userRole={userRole}
             userName={displayName}
-            unreadMessages={2}
+            unreadMessages={unreadMessages}
           />
         )}
       </div>
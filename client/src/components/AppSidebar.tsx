@@ -16,6 +16,8 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import {
   Calendar,
+  CalendarOff,
+  ArrowLeftRight,
   MessageSquare,
   Users,
   GraduationCap,
@@ -58,12 +60,31 @@ export function AppSidebar({
       icon: Calendar,
       permission: PERMISSIONS.SHIFTS_VIEW,
     },
+    {
+      title: "Time Off",
+      url: "/time-off",
+      icon: CalendarOff,
+      permission: PERMISSIONS.SHIFTS_MANAGE,
+    },
+    {
+      title: "Shift Swaps",
+      url: "/swaps",
+      icon: ArrowLeftRight,
+      permission: PERMISSIONS.SHIFTS_MANAGE,
+    },
     {
       title: "Employees",
       url: "/employees",
       icon: Users,
       permission: PERMISSIONS.EMPLOYEES_MANAGE,
     },
+    {
+      title: "Messages",
+      url: "/messages",
+      icon: MessageSquare,
+      permission: PERMISSIONS.EMPLOYEES_MANAGE,
+      badge: unreadMessages,
+    },
     {
       title: "Training",
       url: "/training",
@@ -113,6 +134,15 @@ export function AppSidebar({
                     <Link href={item.url} data-testid={`nav-${item.title.toLowerCase().replace(/\s+/g, '-')}`}>
                       <item.icon className="h-4 w-4" />
                       <span>{item.title}</span>
+                      {!!item.badge && (
+                        <Badge
+                          variant="destructive"
+                          className="ml-auto h-5 min-w-5 px-1.5 text-xs"
+                          data-testid={`badge-${item.title.toLowerCase()}`}
+                        >
+                          {item.badge > 99 ? "99+" : item.badge}
+                        </Badge>
+                      )}
                     </Link>
                   </SidebarMenuButton>
                 </SidebarMenuItem>
@@ -0,0 +1,237 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Plus, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DAY_LABELS } from "@shared/recurrence";
+import { SHIFT_TYPES, SHIFT_TYPE_LABELS, type AvailabilityWindow, type AvailabilityPreferences, type ShiftType } from "@shared/availability";
+
+interface DayAvailability {
+  enabled: boolean;
+  startTime: string;
+  endTime: string;
+}
+
+const DEFAULT_DAY: DayAvailability = { enabled: false, startTime: "07:00", endTime: "19:00" };
+
+function toDays(windows: AvailabilityWindow[]): DayAvailability[] {
+  return DAY_LABELS.map((_, dayOfWeek) => {
+    const window = windows.find(w => w.dayOfWeek === dayOfWeek);
+    return window ? { enabled: true, startTime: window.startTime, endTime: window.endTime } : { ...DEFAULT_DAY };
+  });
+}
+
+export interface AvailabilityEditorProps {
+  employeeId: string;
+}
+
+export function AvailabilityEditor({ employeeId }: AvailabilityEditorProps) {
+  const { toast } = useToast();
+  const [limitHours, setLimitHours] = useState(false);
+  const [days, setDays] = useState<DayAvailability[]>(() => toDays([]));
+  const [blackoutDates, setBlackoutDates] = useState<string[]>([]);
+  const [newBlackoutDate, setNewBlackoutDate] = useState("");
+  const [preferredShiftTypes, setPreferredShiftTypes] = useState<ShiftType[]>([]);
+
+  const { data: availability, isLoading } = useQuery<AvailabilityPreferences>({
+    queryKey: [`/api/employees/${employeeId}/availability`],
+  });
+
+  useEffect(() => {
+    if (!availability) return;
+    setLimitHours(availability.weeklyAvailability.length > 0);
+    setDays(toDays(availability.weeklyAvailability));
+    setBlackoutDates(availability.blackoutDates);
+    setPreferredShiftTypes(availability.preferredShiftTypes);
+  }, [availability]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: AvailabilityPreferences) => {
+      const response = await apiRequest("PUT", `/api/employees/${employeeId}/availability`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/employees/${employeeId}/availability`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+      toast({ title: "Availability Saved", description: "Supervisors will only notify you about shifts you can work." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save availability", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateDay = (dayOfWeek: number, updates: Partial<DayAvailability>) => {
+    setDays(prev => prev.map((day, i) => (i === dayOfWeek ? { ...day, ...updates } : day)));
+  };
+
+  const addBlackoutDate = () => {
+    if (newBlackoutDate && !blackoutDates.includes(newBlackoutDate)) {
+      setBlackoutDates([...blackoutDates, newBlackoutDate].sort());
+    }
+    setNewBlackoutDate("");
+  };
+
+  const togglePreferredShiftType = (type: ShiftType) => {
+    setPreferredShiftTypes(prev =>
+      prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]
+    );
+  };
+
+  const handleSave = () => {
+    const weeklyAvailability: AvailabilityWindow[] = limitHours
+      ? days.flatMap((day, dayOfWeek) =>
+          day.enabled ? [{ dayOfWeek, startTime: day.startTime, endTime: day.endTime }] : []
+        )
+      : [];
+    saveMutation.mutate({ weeklyAvailability, blackoutDates, preferredShiftTypes });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const upcomingBlackouts = blackoutDates.filter(date => date >= today);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="limit-hours">Limit to specific days and hours</Label>
+            <p className="text-sm text-muted-foreground">
+              When off, you'll be notified about shifts at any time
+            </p>
+          </div>
+          <Switch
+            id="limit-hours"
+            checked={limitHours}
+            onCheckedChange={setLimitHours}
+            data-testid="switch-limit-hours"
+          />
+        </div>
+        {limitHours && (
+          <div className="space-y-2">
+            {days.map((day, dayOfWeek) => (
+              <div key={dayOfWeek} className="flex items-center gap-3" data-testid={`availability-day-${dayOfWeek}`}>
+                <Switch
+                  checked={day.enabled}
+                  onCheckedChange={(enabled) => updateDay(dayOfWeek, { enabled })}
+                  data-testid={`switch-day-${dayOfWeek}`}
+                />
+                <span className="w-10 text-sm font-medium">{DAY_LABELS[dayOfWeek]}</span>
+                {day.enabled ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={day.startTime}
+                      onChange={(e) => updateDay(dayOfWeek, { startTime: e.target.value })}
+                      className="w-28"
+                      data-testid={`input-day-start-${dayOfWeek}`}
+                    />
+                    <span className="text-sm text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      value={day.endTime}
+                      onChange={(e) => updateDay(dayOfWeek, { endTime: e.target.value })}
+                      className="w-28"
+                      data-testid={`input-day-end-${dayOfWeek}`}
+                    />
+                  </div>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Unavailable</span>
+                )}
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              An end time before the start time means you're available overnight.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="blackout-date">Blackout Dates</Label>
+          <p className="text-sm text-muted-foreground">Days you can't work at all</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            id="blackout-date"
+            type="date"
+            min={today}
+            value={newBlackoutDate}
+            onChange={(e) => setNewBlackoutDate(e.target.value)}
+            className="w-44"
+            data-testid="input-blackout-date"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={addBlackoutDate}
+            disabled={!newBlackoutDate}
+            data-testid="button-add-blackout-date"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        {upcomingBlackouts.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {upcomingBlackouts.map((date) => (
+              <Badge key={date} variant="secondary" className="flex items-center gap-1" data-testid={`badge-blackout-${date}`}>
+                {format(parseISO(date), "EEE, MMM d")}
+                <button
+                  type="button"
+                  onClick={() => setBlackoutDates(blackoutDates.filter(d => d !== date))}
+                  className="ml-1 rounded-full hover:bg-muted"
+                  data-testid={`button-remove-blackout-${date}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <Label>Preferred Shift Types</Label>
+          <p className="text-sm text-muted-foreground">Let supervisors know which shifts you'd rather pick up</p>
+        </div>
+        <div className="flex gap-2">
+          {SHIFT_TYPES.map((type) => (
+            <Button
+              key={type}
+              type="button"
+              size="sm"
+              variant={preferredShiftTypes.includes(type) ? "default" : "outline"}
+              onClick={() => togglePreferredShiftType(type)}
+              data-testid={`button-shift-type-${type}`}
+            >
+              {SHIFT_TYPE_LABELS[type]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-availability">
+          {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Availability
+        </Button>
+      </div>
+    </div>
+  );
+}
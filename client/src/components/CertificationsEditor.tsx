@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2, BadgeCheck } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CERTIFICATION_STATUS_LABELS,
+  type CertificationStatus,
+  type EmployeeCertificationWithStatus,
+} from "@shared/certifications";
+import type { Certification } from "@shared/schema";
+
+const STATUS_VARIANTS: Record<CertificationStatus, "secondary" | "outline" | "destructive"> = {
+  current: "secondary",
+  expiring: "outline",
+  expired: "destructive",
+};
+
+export function CertificationStatusBadge({ status }: { status: CertificationStatus }) {
+  return (
+    <Badge
+      variant={STATUS_VARIANTS[status]}
+      className={`text-xs ${status === "expiring" ? "border-amber-500 text-amber-600 dark:text-amber-400" : ""}`}
+    >
+      {CERTIFICATION_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+const EMPTY_FORM = { certificationId: "", credentialNumber: "", issuedOn: "", expiresOn: "" };
+
+export interface CertificationsEditorProps {
+  employeeId: string;
+  readOnly?: boolean;
+}
+
+export function CertificationsEditor({ employeeId, readOnly = false }: CertificationsEditorProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const queryKey = [`/api/employees/${employeeId}/certifications`];
+
+  const { data: records = [], isLoading } = useQuery<EmployeeCertificationWithStatus[]>({ queryKey });
+  const { data: catalog = [] } = useQuery<Certification[]>({
+    queryKey: ["/api/certifications"],
+    enabled: !readOnly,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (data: typeof EMPTY_FORM) => {
+      const response = await apiRequest("POST", `/api/employees/${employeeId}/certifications`, {
+        certificationId: data.certificationId,
+        credentialNumber: data.credentialNumber || null,
+        issuedOn: data.issuedOn || null,
+        expiresOn: data.expiresOn || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setForm(EMPTY_FORM);
+      toast({ title: "Certification Added" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add certification", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const renewMutation = useMutation({
+    mutationFn: async ({ id, expiresOn }: { id: string; expiresOn: string | null }) => {
+      const response = await apiRequest("PATCH", `/api/employee-certifications/${id}`, { expiresOn });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Expiry Date Updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update certification", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/employee-certifications/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Certification Removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove certification", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {records.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No certifications on file.</p>
+      ) : (
+        <div className="space-y-2">
+          {records.map((record) => (
+            <div
+              key={record.id}
+              className="flex items-center justify-between gap-3 rounded-md bg-muted/50 p-3"
+              data-testid={`certification-${record.id}`}
+            >
+              <div className="flex items-start gap-3 min-w-0">
+                <BadgeCheck className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="text-sm font-medium">{record.certificationName}</p>
+                    <CertificationStatusBadge status={record.status} />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {record.credentialNumber && <>#{record.credentialNumber} · </>}
+                    {record.expiresOn
+                      ? `Expires ${format(parseISO(record.expiresOn), "MMM d, yyyy")}`
+                      : "No expiry"}
+                  </p>
+                </div>
+              </div>
+              {!readOnly && (
+                <div className="flex items-center gap-1 shrink-0">
+                  <Input
+                    type="date"
+                    className="w-36"
+                    defaultValue={record.expiresOn ?? ""}
+                    onBlur={(e) => {
+                      const expiresOn = e.target.value || null;
+                      if (expiresOn !== record.expiresOn) renewMutation.mutate({ id: record.id, expiresOn });
+                    }}
+                    aria-label="Expiry date"
+                    data-testid={`input-certification-expiry-${record.id}`}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => removeMutation.mutate(record.id)}
+                    disabled={removeMutation.isPending}
+                    data-testid={`button-remove-certification-${record.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!readOnly && (
+        <div className="rounded-lg border p-4 space-y-3">
+          <Label className="text-base">Add Certification</Label>
+          {catalog.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No certification types yet. Add them in Settings &gt; Organization &gt; Certifications.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Certification</Label>
+                  <Select
+                    value={form.certificationId}
+                    onValueChange={(certificationId) => setForm({ ...form, certificationId })}
+                  >
+                    <SelectTrigger data-testid="select-certification">
+                      <SelectValue placeholder="Select certification" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {catalog.map((certification) => (
+                        <SelectItem key={certification.id} value={certification.id}>{certification.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">License / Card Number (Optional)</Label>
+                  <Input
+                    value={form.credentialNumber}
+                    onChange={(e) => setForm({ ...form, credentialNumber: e.target.value })}
+                    data-testid="input-certification-number"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Issued (Optional)</Label>
+                  <Input
+                    type="date"
+                    value={form.issuedOn}
+                    onChange={(e) => setForm({ ...form, issuedOn: e.target.value })}
+                    data-testid="input-certification-issued"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Expires</Label>
+                  <Input
+                    type="date"
+                    value={form.expiresOn}
+                    onChange={(e) => setForm({ ...form, expiresOn: e.target.value })}
+                    data-testid="input-certification-expires"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave the expiry date empty for credentials that don't expire.
+              </p>
+              <Button
+                size="sm"
+                onClick={() => addMutation.mutate(form)}
+                disabled={!form.certificationId || addMutation.isPending}
+                data-testid="button-add-certification"
+              >
+                {addMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+                Add
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import { Switch } from "@/components/ui/switch";
 import { Checkbox } from "@/components/ui/checkbox";
 import { usePermissions } from "@/hooks/use-permissions";
 import { PERMISSIONS } from "@shared/permissions";
+import { escalationPolicySchema } from "@shared/escalation";
+import { EscalationPolicyEditor } from "@/components/EscalationPolicyEditor";
 import {
   Form,
   FormControl,
@@ -34,7 +36,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
-import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Calendar, Send, Loader2, FileText, Save } from "lucide-react";
 import type { Area, Position, OrganizationSetting, Shift, ShiftTemplate } from "@shared/schema";
 import { useEffect, useState } from "react";
@@ -51,6 +53,7 @@ const formSchema = z.object({
   requirements: z.string().optional(),
   sendNotification: z.boolean().default(true),
   notifyAllAreas: z.boolean().default(false),
+  escalationPolicy: escalationPolicySchema.nullable().default(null),
   saveAsTemplate: z.boolean().default(false),
 });
 
@@ -62,9 +65,10 @@ export interface CreateShiftFormProps {
   initialData?: Shift;
   isEditing?: boolean;
   isCloning?: boolean;
+  isSeriesEdit?: boolean;
 }
 
-export function CreateShiftForm({ onSubmit, onCancel, initialData, isEditing, isCloning }: CreateShiftFormProps) {
+export function CreateShiftForm({ onSubmit, onCancel, initialData, isEditing, isCloning, isSeriesEdit }: CreateShiftFormProps) {
   const { hasPermission } = usePermissions();
   const canNotifyAllAreas = hasPermission(PERMISSIONS.SHIFTS_ALL_AREAS);
   const { toast } = useToast();
@@ -131,6 +135,7 @@ export function CreateShiftForm({ onSubmit, onCancel, initialData, isEditing, is
       requirements: initialData?.requirements || "",
       sendNotification: !isEditing,
       notifyAllAreas: initialData?.notifyAllAreas || false,
+      escalationPolicy: initialData?.escalationPolicy ?? null,
       saveAsTemplate: false,
     },
   });
@@ -147,6 +152,7 @@ export function CreateShiftForm({ onSubmit, onCancel, initialData, isEditing, is
         requirements: initialData.requirements || "",
         sendNotification: false,
         notifyAllAreas: initialData.notifyAllAreas || false,
+        escalationPolicy: initialData.escalationPolicy ?? null,
         saveAsTemplate: false,
       });
     }
@@ -219,8 +225,13 @@ export function CreateShiftForm({ onSubmit, onCancel, initialData, isEditing, is
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Calendar className="h-5 w-5" />
-          {isEditing ? "Edit Shift" : isCloning ? "Clone Shift" : "Post New Shift"}
+          {isSeriesEdit ? "Edit Recurring Shifts" : isEditing ? "Edit Shift" : isCloning ? "Clone Shift" : "Post New Shift"}
         </CardTitle>
+        {isSeriesEdit && (
+          <CardDescription data-testid="text-series-edit-note">
+            Changes apply to this shift and all following shifts in the series. A new date only moves this shift.
+          </CardDescription>
+        )}
       </CardHeader>
       <Form {...form}>
         <form onSubmit={form.handleSubmit(handleSubmit)}>
@@ -462,6 +473,23 @@ export function CreateShiftForm({ onSubmit, onCancel, initialData, isEditing, is
               )}
             />
 
+            {!isSeriesEdit && (
+              <FormField
+                control={form.control}
+                name="escalationPolicy"
+                render={({ field }) => (
+                  <FormItem>
+                    <EscalationPolicyEditor
+                      value={field.value}
+                      onChange={field.onChange}
+                      canNotifyAllAreas={canNotifyAllAreas}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {!isEditing && (
               <FormField
                 control={form.control}
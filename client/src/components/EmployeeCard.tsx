@@ -7,9 +7,12 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { MessageSquare, Phone, MapPin, Edit2, UserCog, UserPlus, Send, History } from "lucide-react";
+import { MessageSquare, Phone, MapPin, Edit2, UserCog, UserPlus, Send, History, CalendarClock, BadgeCheck } from "lucide-react";
 import { useLocation } from "wouter";
+import { format } from "date-fns";
 import type { Area } from "@shared/schema";
+import { describeWeeklyAvailability, SHIFT_TYPE_LABELS, type AvailabilityPreferences } from "@shared/availability";
+import type { EmployeeCertificationWithStatus } from "@shared/certifications";
 import { formatPhoneDisplay } from "@/lib/phoneUtils";
 
 export type EmployeeRole = "admin" | "supervisor" | "employee";
@@ -21,6 +24,8 @@ export interface EmployeeCardProps {
   position: string;
   phone: string;
   areas?: Area[];
+  availability?: AvailabilityPreferences | null;
+  certifications?: Pick<EmployeeCertificationWithStatus, "id" | "certificationName" | "status">[];
   onSendSMS?: (id: string) => void;
   onViewProfile?: (id: string) => void;
   onEditAreas?: (id: string) => void;
@@ -41,6 +46,8 @@ export function EmployeeCard({
   position,
   phone,
   areas,
+  availability,
+  certifications,
   onSendSMS,
   onViewProfile,
   onEditAreas,
@@ -52,6 +59,11 @@ export function EmployeeCard({
   const config = roleConfig[normalizedRole] || { label: role, className: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300" };
   const initials = name.split(' ').map(n => n[0]).join('').toUpperCase();
 
+  const today = format(new Date(), "yyyy-MM-dd");
+  const upcomingBlackouts = availability?.blackoutDates.filter(date => date >= today).length ?? 0;
+  const expiredCertifications = certifications?.filter(c => c.status === "expired") ?? [];
+  const expiringCertifications = certifications?.filter(c => c.status === "expiring") ?? [];
+
   const handleViewConversation = () => {
     // Navigate to messages page with the employee pre-selected
     setLocation(`/messages?employee=${id}`);
@@ -124,6 +136,48 @@ export function EmployeeCard({
               Assign areas
             </Button>
           )}
+          {availability && (
+            <div
+              className="flex items-center gap-1 mt-1 flex-wrap text-xs text-muted-foreground"
+              data-testid={`availability-${id}`}
+            >
+              <CalendarClock className="h-3 w-3 shrink-0" />
+              <span>{describeWeeklyAvailability(availability.weeklyAvailability)}</span>
+              {availability.preferredShiftTypes.length > 0 && (
+                <span>
+                  · Prefers {availability.preferredShiftTypes.map(t => SHIFT_TYPE_LABELS[t]).join(", ")}
+                </span>
+              )}
+              {upcomingBlackouts > 0 && (
+                <Badge variant="outline" className="text-xs" data-testid={`badge-blackouts-${id}`}>
+                  {upcomingBlackouts} blackout {upcomingBlackouts === 1 ? "date" : "dates"}
+                </Badge>
+              )}
+            </div>
+          )}
+          {certifications && certifications.length > 0 && (
+            <div
+              className="flex items-center gap-1 mt-1 flex-wrap text-xs text-muted-foreground"
+              data-testid={`certifications-${id}`}
+            >
+              <BadgeCheck className="h-3 w-3 shrink-0" />
+              <span>{certifications.map(c => c.certificationName).join(", ")}</span>
+              {expiredCertifications.length > 0 && (
+                <Badge variant="destructive" className="text-xs" data-testid={`badge-certifications-expired-${id}`}>
+                  {expiredCertifications.length} expired
+                </Badge>
+              )}
+              {expiringCertifications.length > 0 && (
+                <Badge
+                  variant="outline"
+                  className="text-xs border-amber-500 text-amber-600 dark:text-amber-400"
+                  data-testid={`badge-certifications-expiring-${id}`}
+                >
+                  {expiringCertifications.length} expiring soon
+                </Badge>
+              )}
+            </div>
+          )}
         </div>
       </div>
       <div className="flex items-center gap-2 shrink-0">
@@ -0,0 +1,150 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  DEFAULT_ESCALATION_POLICY,
+  ESCALATION_ACTIONS,
+  ESCALATION_ACTION_LABELS,
+  type EscalationAction,
+  type EscalationPolicy,
+  type EscalationStep,
+} from "@shared/escalation";
+
+export interface EscalationPolicyEditorProps {
+  value: EscalationPolicy | null;
+  onChange: (policy: EscalationPolicy | null) => void;
+  canNotifyAllAreas: boolean;
+}
+
+export function EscalationPolicyEditor({ value, onChange, canNotifyAllAreas }: EscalationPolicyEditorProps) {
+  const actions = ESCALATION_ACTIONS.filter(action => canNotifyAllAreas || action !== "notify_all_areas");
+
+  const defaultPolicy = (): EscalationPolicy => ({
+    steps: DEFAULT_ESCALATION_POLICY.steps.filter(step => actions.includes(step.action)),
+  });
+
+  const updateStep = (index: number, changes: Partial<EscalationStep>) => {
+    if (!value) return;
+    const steps = value.steps.map((step, i) => {
+      if (i !== index) return step;
+      const updated = { ...step, ...changes };
+      if (updated.action === "add_bonus") {
+        updated.bonusIncrement = updated.bonusIncrement ?? 25;
+      } else {
+        delete updated.bonusIncrement;
+      }
+      return updated;
+    });
+    onChange({ steps });
+  };
+
+  const removeStep = (index: number) => {
+    if (!value) return;
+    const steps = value.steps.filter((_, i) => i !== index);
+    onChange(steps.length > 0 ? { steps } : null);
+  };
+
+  const addStep = () => {
+    if (!value) return;
+    onChange({ steps: [...value.steps, { action: "page_supervisor", waitMinutes: 60 }] });
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label className="text-base">Escalate if Unfilled</Label>
+          <p className="text-sm text-muted-foreground">
+            Widen the search step by step while no one has shown interest
+          </p>
+        </div>
+        <Switch
+          checked={!!value}
+          onCheckedChange={(checked) => onChange(checked ? defaultPolicy() : null)}
+          data-testid="switch-escalation"
+        />
+      </div>
+
+      {value && (
+        <div className="space-y-3">
+          {value.steps.map((step, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto_auto] items-end gap-2"
+              data-testid={`escalation-step-${index}`}
+            >
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Step {index + 1}</Label>
+                <Select
+                  value={step.action}
+                  onValueChange={(action) => updateStep(index, { action: action as EscalationAction })}
+                >
+                  <SelectTrigger data-testid={`select-escalation-action-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {actions.map((action) => (
+                      <SelectItem key={action} value={action}>{ESCALATION_ACTION_LABELS[action]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">After (min)</Label>
+                <Input
+                  type="number"
+                  min={5}
+                  className="w-24"
+                  value={step.waitMinutes}
+                  onChange={(e) => updateStep(index, { waitMinutes: parseInt(e.target.value, 10) || 5 })}
+                  data-testid={`input-escalation-wait-${index}`}
+                />
+              </div>
+              {step.action === "add_bonus" ? (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Bonus ($)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-24"
+                    value={step.bonusIncrement ?? ""}
+                    onChange={(e) => updateStep(index, { bonusIncrement: parseInt(e.target.value, 10) || 1 })}
+                    data-testid={`input-escalation-bonus-${index}`}
+                  />
+                </div>
+              ) : (
+                <div />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeStep(index)}
+                data-testid={`button-remove-escalation-step-${index}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addStep}
+            disabled={value.steps.length >= 10}
+            data-testid="button-add-escalation-step"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Step
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Each step waits the given time after the previous one. Escalation stops once anyone shows interest.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,8 @@ import { useState } from "react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Send } from "lucide-react";
+import { Send, Paperclip } from "lucide-react";
+import type { MessageAttachmentSummary } from "@shared/mms";
 
 export interface Message {
   id: string;
@@ -11,6 +12,7 @@ export interface Message {
   senderName: string;
   timestamp: string;
   isSent: boolean;
+  attachments?: MessageAttachmentSummary[];
 }
 
 export interface MessageThreadProps {
@@ -20,6 +22,40 @@ export interface MessageThreadProps {
   onSendMessage?: (content: string) => void;
 }
 
+function MessageAttachment({ attachment }: { attachment: MessageAttachmentSummary }) {
+  if (!attachment.url) {
+    return (
+      <p className="text-xs italic opacity-80" data-testid={`attachment-${attachment.id}`}>
+        Attachment could not be downloaded
+      </p>
+    );
+  }
+
+  if (attachment.contentType.startsWith("image/")) {
+    return (
+      <a href={attachment.url} target="_blank" rel="noreferrer" data-testid={`attachment-${attachment.id}`}>
+        <img
+          src={attachment.url}
+          alt={attachment.fileName || "Picture"}
+          className="rounded-md max-h-60 max-w-full object-contain"
+          loading="lazy"
+        />
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={attachment.url}
+      className="flex items-center gap-1 text-sm underline"
+      data-testid={`attachment-${attachment.id}`}
+    >
+      <Paperclip className="h-3 w-3" />
+      {attachment.fileName || attachment.contentType}
+    </a>
+  );
+}
+
 export function MessageThread({
   messages,
   currentUserId,
@@ -70,7 +106,14 @@ export function MessageThread({
                       : 'bg-muted'
                   }`}
                 >
-                  <p className="text-sm">{message.content}</p>
+                  {message.attachments && message.attachments.length > 0 && (
+                    <div className={`flex flex-col gap-2 ${isMine ? 'items-end' : 'items-start'} ${message.content ? 'mb-2' : ''}`}>
+                      {message.attachments.map((attachment) => (
+                        <MessageAttachment key={attachment.id} attachment={attachment} />
+                      ))}
+                    </div>
+                  )}
+                  {message.content && <p className="text-sm">{message.content}</p>}
                 </div>
                 <p className="text-xs text-muted-foreground mt-1">{message.timestamp}</p>
               </div>
@@ -4,6 +4,7 @@ import {
   Users,
   GraduationCap,
   LayoutDashboard,
+  MessageSquare,
   MoreHorizontal,
   User,
 } from "lucide-react";
@@ -57,6 +58,13 @@ export function MobileBottomNav({
       href: "/employees",
       permission: "employees:manage",
     },
+    {
+      icon: MessageSquare,
+      label: "Messages",
+      href: "/messages",
+      badge: unreadMessages,
+      permission: "employees:manage",
+    },
     {
       icon: GraduationCap,
       label: "Training",
@@ -84,8 +92,8 @@ export function MobileBottomNav({
   );
 
   // Select items for bottom nav (max 5)
-  // Priority: Dashboard, Shifts, Employees (if has permission), then More
-  const priorityOrder = ["Dashboard", "Shifts", "Employees", "Training", "Profile", "More"];
+  // Priority: Dashboard, Shifts, Employees and Messages (if has permission), then More
+  const priorityOrder = ["Dashboard", "Shifts", "Employees", "Messages", "Training", "Profile", "More"];
   const sortedItems = [...availableItems].sort(
     (a, b) => priorityOrder.indexOf(a.label) - priorityOrder.indexOf(b.label)
   );
@@ -128,7 +136,7 @@ export function MobileBottomNav({
               >
                 <div className="relative">
                   <item.icon className="h-5 w-5" />
-                  {item.badge && (
+                  {!!item.badge && (
                     <Badge
                       className="absolute -top-2 -right-3 h-4 min-w-4 px-1 text-[10px] flex items-center justify-center"
                       variant="destructive"
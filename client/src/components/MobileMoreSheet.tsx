@@ -15,6 +15,8 @@ import {
   LayoutDashboard,
   BarChart3,
   Shield,
+  CalendarOff,
+  ArrowLeftRight,
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { usePermissions, type Permission } from "@/hooks/use-permissions";
@@ -57,6 +59,18 @@ export function MobileMoreSheet({
       href: "/",
       permission: null, // Available to all
     },
+    {
+      icon: CalendarOff,
+      label: "Time Off",
+      href: "/time-off",
+      permission: "shifts:manage",
+    },
+    {
+      icon: ArrowLeftRight,
+      label: "Shift Swaps",
+      href: "/swaps",
+      permission: "shifts:manage",
+    },
     {
       icon: GraduationCap,
       label: "Training",
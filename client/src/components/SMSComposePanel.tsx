@@ -1,9 +1,12 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { X, Send, Zap, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { X, Send, Zap, Loader2, ImagePlus, Clock } from "lucide-react";
+import { MMS_CONTENT_TYPES, MAX_MMS_ATTACHMENTS, MAX_MMS_BYTES, base64Size, type MmsUpload } from "@shared/mms";
 
 export interface Recipient {
   id: string;
@@ -14,9 +17,40 @@ export interface Recipient {
 export interface SMSComposePanelProps {
   recipients: Recipient[];
   onRemoveRecipient?: (id: string) => void;
-  onSend?: (message: string) => void;
+  onSend?: (message: string, attachments: MmsUpload[], scheduledFor?: string) => void; // scheduledFor is ISO, for "Send later"
   onCancel?: () => void;
   isSending?: boolean;
+  allowAttachments?: boolean; // The SMS provider can send MMS
+}
+
+/**
+ * A date as a datetime-local input value, in the browser's time zone
+ */
+function toLocalInputValue(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Default "Send later" time - 7am tomorrow
+ */
+function defaultScheduledTime(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(7, 0, 0, 0);
+  return toLocalInputValue(date);
+}
+
+/**
+ * Read a file as base64, without the data: URL prefix
+ */
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
 }
 
 const quickTemplates = [
@@ -31,15 +65,53 @@ export function SMSComposePanel({
   onSend,
   onCancel,
   isSending = false,
+  allowAttachments = false,
 }: SMSComposePanelProps) {
   const [message, setMessage] = useState("");
+  const [attachments, setAttachments] = useState<MmsUpload[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [sendLater, setSendLater] = useState(false);
+  const [scheduledAt, setScheduledAt] = useState(defaultScheduledTime);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const charCount = message.length;
   const charLimit = 160;
+  const scheduleValid = !sendLater || (!!scheduledAt && new Date(scheduledAt).getTime() > Date.now());
+  const canSend = (!!message.trim() || attachments.length > 0) && recipients.length > 0 && scheduleValid && !isSending;
 
   const handleSend = () => {
-    if (message.trim() && recipients.length > 0 && !isSending) {
-      onSend?.(message);
+    if (canSend) {
+      onSend?.(message, attachments, sendLater ? new Date(scheduledAt).toISOString() : undefined);
+    }
+  };
+
+  const handleAttach = async (files: FileList | null) => {
+    if (!files) return;
+    setAttachmentError(null);
+
+    const added: MmsUpload[] = [];
+    for (const file of Array.from(files)) {
+      if (!(MMS_CONTENT_TYPES as readonly string[]).includes(file.type)) {
+        setAttachmentError("Only JPEG, PNG and GIF pictures can be sent");
+        continue;
+      }
+      added.push({
+        fileName: file.name,
+        contentType: file.type as MmsUpload["contentType"],
+        data: await readAsBase64(file),
+      });
     }
+
+    const next = [...attachments, ...added];
+    const totalSize = next.reduce((sum, a) => sum + base64Size(a.data), 0);
+    if (next.length > MAX_MMS_ATTACHMENTS) {
+      setAttachmentError(`At most ${MAX_MMS_ATTACHMENTS} pictures can be sent at once`);
+    } else if (totalSize > MAX_MMS_BYTES) {
+      setAttachmentError(`Pictures are limited to ${(MAX_MMS_BYTES / 1024 / 1024).toFixed(1)} MB per message`);
+    } else {
+      setAttachments(next);
+    }
+
+    if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
   return (
@@ -109,6 +181,84 @@ export function SMSComposePanel({
           </div>
         </div>
         
+        {allowAttachments && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium">Pictures</label>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={attachments.length >= MAX_MMS_ATTACHMENTS}
+                data-testid="button-attach-picture"
+              >
+                <ImagePlus className="h-3 w-3 mr-1" />
+                Attach picture
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={MMS_CONTENT_TYPES.join(",")}
+                multiple
+                className="hidden"
+                onChange={(e) => handleAttach(e.target.files)}
+                data-testid="input-attach-picture"
+              />
+            </div>
+            {attachments.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {attachments.map((a, i) => (
+                  <div key={i} className="relative" data-testid={`attachment-preview-${i}`}>
+                    <img
+                      src={`data:${a.contentType};base64,${a.data}`}
+                      alt={a.fileName}
+                      className="h-16 w-16 rounded-md object-cover border"
+                    />
+                    <button
+                      onClick={() => setAttachments(prev => prev.filter((_, j) => j !== i))}
+                      className="absolute -top-1 -right-1 rounded-full bg-background border p-0.5 hover:text-destructive"
+                      data-testid={`button-remove-attachment-${i}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {attachmentError && (
+              <p className="text-xs text-destructive mt-1">{attachmentError}</p>
+            )}
+          </div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between">
+            <label htmlFor="switch-send-later" className="text-sm font-medium">Send later</label>
+            <Switch
+              id="switch-send-later"
+              checked={sendLater}
+              onCheckedChange={setSendLater}
+              data-testid="switch-send-later"
+            />
+          </div>
+          {sendLater && (
+            <div className="mt-2">
+              <Input
+                type="datetime-local"
+                value={scheduledAt}
+                min={toLocalInputValue(new Date())}
+                onChange={(e) => setScheduledAt(e.target.value)}
+                data-testid="input-scheduled-for"
+              />
+              <p className={`text-xs mt-1 ${scheduleValid ? 'text-muted-foreground' : 'text-destructive'}`}>
+                {scheduleValid
+                  ? "If this falls in quiet hours, the message goes out when they end."
+                  : "Pick a time in the future."}
+              </p>
+            </div>
+          )}
+        </div>
+
         {message && (
           <div className="p-3 bg-muted/50 rounded-md">
             <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Preview</p>
@@ -122,15 +272,19 @@ export function SMSComposePanel({
         </Button>
         <Button
           onClick={handleSend}
-          disabled={!message.trim() || recipients.length === 0 || isSending}
+          disabled={!canSend}
           data-testid="button-send-sms"
         >
           {isSending ? (
             <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : sendLater ? (
+            <Clock className="h-4 w-4 mr-2" />
           ) : (
             <Send className="h-4 w-4 mr-2" />
           )}
-          {isSending ? 'Sending...' : `Send to ${recipients.length} recipient${recipients.length !== 1 ? 's' : ''}`}
+          {isSending
+            ? 'Sending...'
+            : `${sendLater ? 'Schedule for' : 'Send to'} ${recipients.length} recipient${recipients.length !== 1 ? 's' : ''}`}
         </Button>
       </CardFooter>
     </Card>
@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CalendarClock, ImageIcon, Loader2, Moon, Pencil, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ScheduledSend {
+  id: string;
+  content: string;
+  messageType: string;
+  scheduledFor: string;
+  scheduledBy: string | null;
+  scheduledByName: string | null;
+  createdAt: string;
+  heldForQuietHours: boolean;
+  attachmentCount: number;
+  recipients: { messageId: string; employeeId: string; name: string; phone: string }[];
+}
+
+function formatRecipients(send: ScheduledSend): string {
+  const names = send.recipients.map(r => r.name);
+  return names.length <= 3 ? names.join(", ") : `${names.slice(0, 3).join(", ")} and ${names.length - 3} more`;
+}
+
+export interface ScheduledSendsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ScheduledSendsDialog({ open, onOpenChange }: ScheduledSendsDialogProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<ScheduledSend | null>(null);
+  const [content, setContent] = useState("");
+  const [scheduledAt, setScheduledAt] = useState("");
+
+  const { data: sends = [], isLoading } = useQuery<ScheduledSend[]>({
+    queryKey: ["/api/sms/scheduled"],
+    enabled: open,
+  });
+
+  const invalidateScheduled = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/sms/scheduled"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sms/conversations"] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, content, scheduledFor }: { id: string; content: string; scheduledFor: string }) => {
+      return apiRequest("PATCH", `/api/sms/scheduled/${id}`, { content, scheduledFor });
+    },
+    onSuccess: () => {
+      toast({ title: "Scheduled send updated" });
+      setEditing(null);
+      invalidateScheduled();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update scheduled send", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/sms/scheduled/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Scheduled send cancelled" });
+      invalidateScheduled();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to cancel scheduled send", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const startEditing = (send: ScheduledSend) => {
+    setEditing(send);
+    setContent(send.content);
+    setScheduledAt(format(parseISO(send.scheduledFor), "yyyy-MM-dd'T'HH:mm"));
+  };
+
+  const saveEdit = () => {
+    if (!editing || !scheduledAt) return;
+    updateMutation.mutate({ id: editing.id, content, scheduledFor: new Date(scheduledAt).toISOString() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setEditing(null); onOpenChange(next); }}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto" data-testid="dialog-scheduled-sends">
+        <DialogHeader>
+          <DialogTitle>Scheduled Messages</DialogTitle>
+          <DialogDescription>
+            Messages waiting to go out. Change the text or time, or cancel them before they send.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : sends.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CalendarClock className="h-10 w-10 mx-auto mb-3" />
+            <p>No scheduled messages</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sends.map((send) => (
+              <div key={send.id} className="rounded-md border p-3 space-y-2" data-testid={`scheduled-send-${send.id}`}>
+                {editing?.id === send.id ? (
+                  <>
+                    <div className="space-y-1">
+                      <Label htmlFor="input-scheduled-edit-time">Send at</Label>
+                      <Input
+                        id="input-scheduled-edit-time"
+                        type="datetime-local"
+                        value={scheduledAt}
+                        onChange={(e) => setScheduledAt(e.target.value)}
+                        data-testid="input-scheduled-edit-time"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="input-scheduled-edit-content">Message</Label>
+                      <Textarea
+                        id="input-scheduled-edit-content"
+                        value={content}
+                        onChange={(e) => setContent(e.target.value)}
+                        className="min-h-[80px]"
+                        data-testid="input-scheduled-edit-content"
+                      />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={saveEdit}
+                        disabled={updateMutation.isPending || !scheduledAt || (!content.trim() && send.attachmentCount === 0)}
+                        data-testid="button-save-scheduled"
+                      >
+                        {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Save
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium">{format(parseISO(send.scheduledFor), "EEE, MMM d 'at' h:mm a")}</p>
+                        <p className="text-sm text-muted-foreground">
+                          To {formatRecipients(send)}
+                        </p>
+                      </div>
+                      <div className="flex gap-1 flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => startEditing(send)}
+                          data-testid={`button-edit-scheduled-${send.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => cancelMutation.mutate(send.id)}
+                          disabled={cancelMutation.isPending}
+                          data-testid={`button-cancel-scheduled-${send.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {send.content && <p className="text-sm whitespace-pre-wrap">{send.content}</p>}
+                    <div className="flex flex-wrap items-center gap-2">
+                      {send.attachmentCount > 0 && (
+                        <Badge variant="secondary" className="text-xs">
+                          <ImageIcon className="h-3 w-3 mr-1" />
+                          {send.attachmentCount} picture{send.attachmentCount !== 1 ? "s" : ""}
+                        </Badge>
+                      )}
+                      {send.heldForQuietHours && (
+                        <Badge variant="secondary" className="text-xs">
+                          <Moon className="h-3 w-3 mr-1" />
+                          Sends when quiet hours end
+                        </Badge>
+                      )}
+                      {send.scheduledByName && (
+                        <span className="text-xs text-muted-foreground">Scheduled by {send.scheduledByName}</span>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,12 +13,16 @@ import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { MapPin, Clock, Calendar, Users, MessageSquare, Hand, CheckCircle, UserCheck, Edit, RefreshCw, Trash2, DollarSign, UserMinus } from "lucide-react";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { MapPin, Clock, Calendar, Users, MessageSquare, Hand, CheckCircle, UserCheck, Edit, RefreshCw, Trash2, DollarSign, UserMinus, Repeat, AlertTriangle, Megaphone } from "lucide-react";
 import { useState, useMemo } from "react";
 import { format } from "date-fns";
 import { useQuery } from "@tanstack/react-query";
 import type { ShiftStatus } from "./ShiftCard";
 import type { Area, Employee, Position } from "@shared/schema";
+import type { SeriesScope } from "@shared/recurrence";
+import { describeEscalationStep, type EscalationPolicy } from "@shared/escalation";
+import { usePermissions } from "@/hooks/use-permissions";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -30,10 +34,28 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
+export interface AssignmentRuleViolation {
+  rule: string;
+  mode: "warn" | "block";
+  message: string;
+}
+
+export interface ConflictingShift {
+  id: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  location: string;
+}
+
 export interface InterestedEmployee {
   id: string;
   name: string;
   timestamp: string;
+  ruleViolations?: AssignmentRuleViolation[];
+  conflictingShift?: ConflictingShift | null;
+  timeOff?: { id: string; startDate: string; endDate: string } | null;
+  missingCertifications?: string[];
 }
 
 export interface ShiftDetailModalProps {
@@ -54,17 +76,36 @@ export interface ShiftDetailModalProps {
     interestedEmployees: InterestedEmployee[];
     assignedEmployee?: Employee | null;
     bonusAmount?: number | null;
+    templateId?: string | null;
+    escalationPolicy?: EscalationPolicy | null;
+    escalationStage?: number | null;
   };
   isAdmin?: boolean;
   onShowInterest?: (id: string) => void;
-  onAssign?: (shiftId: string, employeeId: string, sendNotification: boolean) => void;
+  onAssign?: (shiftId: string, employeeId: string, sendNotification: boolean, isForceAssignment?: boolean) => void;
   onMessageEmployee?: (employeeId: string) => void;
-  onEdit?: (shiftId: string) => void;
+  onEdit?: (shiftId: string, scope?: SeriesScope) => void;
   onRepost?: (shiftId: string, bonusAmount: number | null) => void;
-  onDelete?: (shiftId: string) => void;
+  onCalloutPoll?: (shiftId: string) => void;
+  onDelete?: (shiftId: string, scope?: SeriesScope) => void;
   onUnassign?: (shiftId: string, sendNotification: boolean) => void;
 }
 
+function SeriesScopeOptions({ value, onChange }: { value: SeriesScope; onChange: (scope: SeriesScope) => void }) {
+  return (
+    <RadioGroup value={value} onValueChange={(v) => onChange(v as SeriesScope)} className="py-2">
+      <div className="flex items-center gap-2">
+        <RadioGroupItem value="this" id="series-scope-this" data-testid="radio-series-scope-this" />
+        <Label htmlFor="series-scope-this" className="text-sm font-normal">This shift</Label>
+      </div>
+      <div className="flex items-center gap-2">
+        <RadioGroupItem value="following" id="series-scope-following" data-testid="radio-series-scope-following" />
+        <Label htmlFor="series-scope-following" className="text-sm font-normal">This and following shifts</Label>
+      </div>
+    </RadioGroup>
+  );
+}
+
 const statusConfig = {
   available: { label: "Available", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400" },
   claimed: { label: "Claimed", className: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400" },
@@ -81,6 +122,7 @@ export function ShiftDetailModal({
   onMessageEmployee,
   onEdit,
   onRepost,
+  onCalloutPoll,
   onDelete,
   onUnassign,
 }: ShiftDetailModalProps) {
@@ -89,6 +131,11 @@ export function ShiftDetailModal({
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showUnassignDialog, setShowUnassignDialog] = useState(false);
   const [unassignNotify, setUnassignNotify] = useState(true);
+  const [showEditScopeDialog, setShowEditScopeDialog] = useState(false);
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>("this");
+  const [overrideEmployee, setOverrideEmployee] = useState<InterestedEmployee | null>(null);
+  const { isAdmin: isOrgAdmin } = usePermissions();
+  const isRecurring = !!shift.templateId;
   const [bonusAmount, setBonusAmount] = useState<string>(shift.bonusAmount?.toString() || "");
   const config = statusConfig[shift.status];
   const displayAreaName = shift.area?.name || shift.areaName || "Unassigned";
@@ -111,17 +158,50 @@ export function ShiftDetailModal({
   };
   
   const handleDelete = () => {
-    onDelete?.(shift.id);
+    onDelete?.(shift.id, isRecurring ? seriesScope : undefined);
     setShowDeleteDialog(false);
     onOpenChange(false);
   };
 
+  const handleEdit = () => {
+    if (isRecurring) {
+      setSeriesScope("this");
+      setShowEditScopeDialog(true);
+    } else {
+      onEdit?.(shift.id);
+    }
+  };
+
+  const handleAssignClick = (emp: InterestedEmployee) => {
+    if (emp.ruleViolations && emp.ruleViolations.length > 0) {
+      setOverrideEmployee(emp);
+    } else {
+      onAssign?.(shift.id, emp.id, sendNotification);
+    }
+  };
+
+  const handleOverrideAssign = () => {
+    if (!overrideEmployee) return;
+    onAssign?.(shift.id, overrideEmployee.id, sendNotification, true);
+    setOverrideEmployee(null);
+  };
+
+  const overrideIsBlocked = overrideEmployee?.ruleViolations?.some(v => v.mode === "block") ?? false;
+
   const sortedInterestedEmployees = useMemo(() => {
     return [...shift.interestedEmployees].sort((a, b) => {
       return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
     });
   }, [shift.interestedEmployees]);
 
+  const formatConflictDate = (date: string) => {
+    try {
+      return format(new Date(date + "T00:00:00"), "EEE, MMM d");
+    } catch {
+      return date;
+    }
+  };
+
   const formatInterestTimestamp = (timestamp: string) => {
     try {
       const date = new Date(timestamp);
@@ -140,6 +220,12 @@ export function ShiftDetailModal({
               <DialogTitle className="text-xl">{shift.position}</DialogTitle>
               <DialogDescription className="flex items-center gap-2 mt-1">
                 <Badge variant="outline" className="text-xs">{displayAreaName}</Badge>
+                {isRecurring && (
+                  <Badge variant="secondary" className="text-xs" data-testid="badge-recurring-shift">
+                    <Repeat className="h-3 w-3 mr-1" />
+                    Recurring
+                  </Badge>
+                )}
               </DialogDescription>
             </div>
             <Badge className={config.className}>{config.label}</Badge>
@@ -187,6 +273,22 @@ export function ShiftDetailModal({
             </div>
           )}
 
+          {isAdmin && shift.escalationPolicy && shift.status === "available" && (
+            <div data-testid="text-escalation-progress">
+              <p className="text-sm font-medium mb-1">Escalation</p>
+              <ol className="text-sm space-y-0.5">
+                {shift.escalationPolicy.steps.map((step, index) => (
+                  <li
+                    key={index}
+                    className={index < (shift.escalationStage ?? 0) ? "text-muted-foreground line-through" : "text-muted-foreground"}
+                  >
+                    {describeEscalationStep(step)}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           <Separator />
 
           {/* Assigned Employee Section - shown for claimed shifts */}
@@ -273,6 +375,48 @@ export function ShiftDetailModal({
                           <p className="text-xs text-muted-foreground" data-testid={`timestamp-${emp.id}`}>
                             Responded: {formatInterestTimestamp(emp.timestamp)}
                           </p>
+                          {emp.conflictingShift && (
+                            <p
+                              className="mt-1 flex items-center gap-1 text-xs text-destructive"
+                              data-testid={`conflicting-shift-${emp.id}`}
+                            >
+                              <AlertTriangle className="h-3 w-3 shrink-0" />
+                              Already working {formatConflictDate(emp.conflictingShift.date)} {emp.conflictingShift.startTime}-{emp.conflictingShift.endTime} at {emp.conflictingShift.location}
+                            </p>
+                          )}
+                          {emp.timeOff && (
+                            <p
+                              className="mt-1 flex items-center gap-1 text-xs text-destructive"
+                              data-testid={`time-off-${emp.id}`}
+                            >
+                              <AlertTriangle className="h-3 w-3 shrink-0" />
+                              On approved time off {emp.timeOff.startDate === emp.timeOff.endDate
+                                ? formatConflictDate(emp.timeOff.startDate)
+                                : `${formatConflictDate(emp.timeOff.startDate)} – ${formatConflictDate(emp.timeOff.endDate)}`}
+                            </p>
+                          )}
+                          {emp.missingCertifications && emp.missingCertifications.length > 0 && (
+                            <p
+                              className="mt-1 flex items-center gap-1 text-xs text-destructive"
+                              data-testid={`missing-certifications-${emp.id}`}
+                            >
+                              <AlertTriangle className="h-3 w-3 shrink-0" />
+                              Missing certification: {emp.missingCertifications.join(", ")}
+                            </p>
+                          )}
+                          {emp.ruleViolations && emp.ruleViolations.length > 0 && (
+                            <div className="mt-1 space-y-0.5" data-testid={`rule-violations-${emp.id}`}>
+                              {emp.ruleViolations.map((violation) => (
+                                <p
+                                  key={violation.rule}
+                                  className={`flex items-center gap-1 text-xs ${violation.mode === "block" ? "text-destructive" : "text-amber-600 dark:text-amber-400"}`}
+                                >
+                                  <AlertTriangle className="h-3 w-3 shrink-0" />
+                                  {violation.message}
+                                </p>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </div>
                       {isAdmin && shift.status === "available" && (
@@ -287,7 +431,8 @@ export function ShiftDetailModal({
                           </Button>
                           <Button
                             size="sm"
-                            onClick={() => onAssign?.(shift.id, emp.id, sendNotification)}
+                            onClick={() => handleAssignClick(emp)}
+                            disabled={!!emp.conflictingShift || !!emp.timeOff || !!emp.missingCertifications?.length}
                             data-testid={`button-assign-${emp.id}`}
                           >
                             <CheckCircle className="h-4 w-4 mr-1" />
@@ -336,7 +481,7 @@ export function ShiftDetailModal({
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => onEdit?.(shift.id)}
+                onClick={handleEdit}
                 data-testid="button-edit-shift"
               >
                 <Edit className="h-4 w-4 mr-1" />
@@ -351,10 +496,25 @@ export function ShiftDetailModal({
                 <RefreshCw className="h-4 w-4 mr-1" />
                 Repost
               </Button>
+              {onCalloutPoll && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onCalloutPoll(shift.id)}
+                  title="Text eligible employees asking who can cover this shift"
+                  data-testid="button-callout-poll"
+                >
+                  <Megaphone className="h-4 w-4 mr-1" />
+                  Callout Poll
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setShowDeleteDialog(true)}
+                onClick={() => {
+                  setSeriesScope("this");
+                  setShowDeleteDialog(true);
+                }}
                 className="text-destructive"
                 data-testid="button-delete-shift"
               >
@@ -375,6 +535,37 @@ export function ShiftDetailModal({
         </DialogFooter>
       </DialogContent>
       
+      {/* Assignment Rule Override Dialog */}
+      <AlertDialog open={!!overrideEmployee} onOpenChange={(open) => !open && setOverrideEmployee(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{overrideIsBlocked && !isOrgAdmin ? "Assignment Blocked" : "Assign Anyway?"}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Assigning {overrideEmployee?.name} to this shift breaks the organization's scheduling rules:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="space-y-1 text-sm">
+            {overrideEmployee?.ruleViolations?.map((violation) => (
+              <li key={violation.rule} className="flex items-start gap-2">
+                <AlertTriangle className={`h-4 w-4 mt-0.5 shrink-0 ${violation.mode === "block" ? "text-destructive" : "text-amber-600 dark:text-amber-400"}`} />
+                <span>{violation.message}</span>
+              </li>
+            ))}
+          </ul>
+          {overrideIsBlocked && !isOrgAdmin && (
+            <p className="text-sm text-muted-foreground">Only an administrator can override a blocking rule.</p>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            {(!overrideIsBlocked || isOrgAdmin) && (
+              <AlertDialogAction onClick={handleOverrideAssign} data-testid="button-confirm-override-assign">
+                Assign Anyway
+              </AlertDialogAction>
+            )}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Repost Dialog */}
       <AlertDialog open={showRepostDialog} onOpenChange={setShowRepostDialog}>
         <AlertDialogContent>
@@ -430,6 +621,9 @@ export function ShiftDetailModal({
               )}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {isRecurring && (
+            <SeriesScopeOptions value={seriesScope} onChange={setSeriesScope} />
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction 
@@ -444,6 +638,32 @@ export function ShiftDetailModal({
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Recurring Shift Edit Scope Dialog */}
+      <AlertDialog open={showEditScopeDialog} onOpenChange={setShowEditScopeDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Edit Recurring Shift</AlertDialogTitle>
+            <AlertDialogDescription>
+              This shift is part of a recurring series. Choose which shifts your changes apply to.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <SeriesScopeOptions value={seriesScope} onChange={setSeriesScope} />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                onEdit?.(shift.id, seriesScope);
+                setShowEditScopeDialog(false);
+              }}
+              data-testid="button-confirm-edit-scope"
+            >
+              <Edit className="h-4 w-4 mr-1" />
+              Continue
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Unassign Confirmation Dialog */}
       <AlertDialog open={showUnassignDialog} onOpenChange={setShowUnassignDialog}>
         <AlertDialogContent>
@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeftRight, Loader2, MessageSquare } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Shift, ShiftSwap } from "@shared/schema";
+
+export type ShiftSwapWithDetails = Omit<ShiftSwap, "createdAt" | "acceptedAt" | "resolvedAt"> & {
+  createdAt: string;
+  acceptedAt: string | null;
+  resolvedAt: string | null;
+  shift: { id: string; date: string; startTime: string; endTime: string; location: string };
+  offeredByName: string;
+  targetEmployeeName: string | null;
+  acceptedByName: string | null;
+};
+
+interface SwapCoworker {
+  id: string;
+  name: string;
+  conflict: string | null;
+}
+
+export const swapStatusConfig: Record<string, { label: string; className: string }> = {
+  open: { label: "Open", className: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400" },
+  pending_approval: { label: "Awaiting Approval", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400" },
+  denied: { label: "Denied", className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400" },
+  cancelled: { label: "Cancelled", className: "bg-muted text-muted-foreground" },
+};
+
+export function formatSwapShift(shift: { date: string; startTime: string; endTime: string; location: string }): string {
+  return `${format(parseISO(shift.date), "EEE, MMM d")} · ${shift.startTime}-${shift.endTime} · ${shift.location}`;
+}
+
+const POOL = "pool";
+
+export interface ShiftSwapPanelProps {
+  employeeId: string;
+}
+
+export function ShiftSwapPanel({ employeeId }: ShiftSwapPanelProps) {
+  const { toast } = useToast();
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [offering, setOffering] = useState<Shift | null>(null);
+  const [recipient, setRecipient] = useState(POOL);
+  const [note, setNote] = useState("");
+
+  const { data: shifts = [], isLoading: loadingShifts } = useQuery<Shift[]>({
+    queryKey: ["/api/shifts"],
+  });
+
+  const { data: swaps = [], isLoading: loadingSwaps } = useQuery<ShiftSwapWithDetails[]>({
+    queryKey: ["/api/swaps"],
+  });
+
+  const { data: coworkers = [], isLoading: loadingCoworkers } = useQuery<SwapCoworker[]>({
+    queryKey: [`/api/shifts/${offering?.id}/swap-coworkers`],
+    enabled: !!offering,
+  });
+
+  const invalidateSwaps = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/swaps"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+  };
+
+  const offerMutation = useMutation({
+    mutationFn: async ({ shiftId, targetEmployeeId, note }: { shiftId: string; targetEmployeeId?: string; note: string }) => {
+      const response = await apiRequest("POST", `/api/shifts/${shiftId}/swap`, { targetEmployeeId, note: note || undefined });
+      return response.json();
+    },
+    onSuccess: (data: { targetEmployeeId: string | null; recipientCount: number }) => {
+      invalidateSwaps();
+      toast({
+        title: "Swap Offered",
+        description: data.targetEmployeeId
+          ? "Your coworker has been asked to take the shift."
+          : `Your shift was offered to ${data.recipientCount} coworker(s).`,
+      });
+      setOffering(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to offer swap", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/swaps/${id}/accept`);
+      return response.json();
+    },
+    onSuccess: (data: ShiftSwap) => {
+      invalidateSwaps();
+      toast({
+        title: "Swap Accepted",
+        description: data.status === "approved"
+          ? "The shift is now on your schedule."
+          : "A supervisor will approve the swap before it's final.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to accept swap", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/swaps/${id}/cancel`),
+    onSuccess: () => {
+      invalidateSwaps();
+      toast({ title: "Swap Cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to cancel swap", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openOffer = (shift: Shift) => {
+    setRecipient(POOL);
+    setNote("");
+    setOffering(shift);
+  };
+
+  const handleOffer = () => {
+    if (!offering) return;
+    offerMutation.mutate({
+      shiftId: offering.id,
+      targetEmployeeId: recipient === POOL ? undefined : recipient,
+      note,
+    });
+  };
+
+  if (loadingShifts || loadingSwaps) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const activeSwapShiftIds = new Set(
+    swaps.filter(s => s.status === "open" || s.status === "pending_approval").map(s => s.shiftId)
+  );
+  const myShifts = shifts
+    .filter(s => s.assignedEmployeeId === employeeId && s.status === "claimed" && s.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+  const offersForMe = swaps.filter(
+    s => s.status === "open" && s.offeredById !== employeeId && s.shift.date >= today
+  );
+  const myRequests = swaps.filter(
+    s => (s.offeredById === employeeId || s.acceptedById === employeeId) && s.shift.date >= today
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Your upcoming shifts</p>
+        {myShifts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You're not scheduled for any upcoming shifts.</p>
+        ) : (
+          myShifts.map((shift) => (
+            <div
+              key={shift.id}
+              className="flex items-center justify-between gap-4 p-3 rounded-md border"
+              data-testid={`swap-shift-${shift.id}`}
+            >
+              <p className="text-sm">{formatSwapShift(shift)}</p>
+              {activeSwapShiftIds.has(shift.id) ? (
+                <Badge variant="secondary">Swap in progress</Badge>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => openOffer(shift)}
+                  data-testid={`button-offer-swap-${shift.id}`}
+                >
+                  <ArrowLeftRight className="h-4 w-4 mr-1" />
+                  Offer Swap
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+        <p className="text-xs text-muted-foreground flex items-center gap-1">
+          <MessageSquare className="h-3 w-3" />
+          You can also text SWAP to offer a shift, and YES with the shift code to take one
+        </p>
+      </div>
+
+      {offersForMe.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Shifts offered to you</p>
+          {offersForMe.map((swap) => (
+            <div
+              key={swap.id}
+              className="flex items-start justify-between gap-4 p-3 rounded-md border"
+              data-testid={`swap-offer-${swap.id}`}
+            >
+              <div className="space-y-1">
+                <p className="text-sm font-medium">{formatSwapShift(swap.shift)}</p>
+                <p className="text-xs text-muted-foreground">
+                  From {swap.offeredByName}{swap.targetEmployeeId ? " (asked you directly)" : ""}
+                </p>
+                {swap.note && <p className="text-xs text-muted-foreground">{swap.note}</p>}
+              </div>
+              <Button
+                size="sm"
+                onClick={() => acceptMutation.mutate(swap.id)}
+                disabled={acceptMutation.isPending}
+                data-testid={`button-accept-swap-${swap.id}`}
+              >
+                Take Shift
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {myRequests.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Your swaps</p>
+          {myRequests.map((swap) => {
+            const status = swapStatusConfig[swap.status] || swapStatusConfig.open;
+            const isOfferer = swap.offeredById === employeeId;
+            return (
+              <div
+                key={swap.id}
+                className="flex items-start justify-between gap-4 p-3 rounded-md border"
+                data-testid={`swap-request-${swap.id}`}
+              >
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">{formatSwapShift(swap.shift)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {isOfferer
+                      ? swap.acceptedByName
+                        ? `Taken by ${swap.acceptedByName}`
+                        : `Offered to ${swap.targetEmployeeName || "eligible coworkers"}`
+                      : `Taking over from ${swap.offeredByName}`}
+                  </p>
+                  {swap.reviewNote && (
+                    <p className="text-xs text-muted-foreground">Supervisor note: {swap.reviewNote}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge className={status.className}>{status.label}</Badge>
+                  {isOfferer && (swap.status === "open" || swap.status === "pending_approval") && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => cancelMutation.mutate(swap.id)}
+                      disabled={cancelMutation.isPending}
+                      data-testid={`button-cancel-swap-${swap.id}`}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={!!offering} onOpenChange={(open) => !open && setOffering(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Offer Shift Swap</DialogTitle>
+            <DialogDescription>
+              {offering && formatSwapShift(offering)}. You stay on the schedule until a coworker takes the shift.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Offer to</Label>
+              <Select value={recipient} onValueChange={setRecipient}>
+                <SelectTrigger data-testid="select-swap-recipient">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={POOL}>Anyone eligible</SelectItem>
+                  {coworkers.map((coworker) => (
+                    <SelectItem key={coworker.id} value={coworker.id} disabled={!!coworker.conflict}>
+                      {coworker.name}{coworker.conflict ? ` (${coworker.conflict})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {loadingCoworkers && <p className="text-xs text-muted-foreground">Loading coworkers...</p>}
+              {!loadingCoworkers && coworkers.length === 0 && (
+                <p className="text-xs text-muted-foreground">No coworkers share this shift's position and area.</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="swap-note">Note (optional)</Label>
+              <Textarea
+                id="swap-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+                data-testid="input-swap-note"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOffering(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleOffer} disabled={offerMutation.isPending} data-testid="button-confirm-offer-swap">
+              {offerMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Offer Swap
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Send, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Employee } from "@shared/schema";
+
+// Mirrors MockSMSRecord on the server
+interface MockSMSMessage {
+  id: string;
+  direction: "outbound" | "inbound";
+  phone: string;
+  body: string;
+  status: string;
+  errorCode?: string;
+  createdAt: string;
+}
+
+/**
+ * Development-only phone simulator for the mock SMS provider. Shows what an employee's
+ * phone received and lets you reply as them through the real inbound webhook.
+ */
+export function SmsSimulator() {
+  const { toast } = useToast();
+  const [employeeId, setEmployeeId] = useState("");
+  const [reply, setReply] = useState("");
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  const { data: employees = [] } = useQuery<Employee[]>({ queryKey: ["/api/employees"] });
+  const employee = employees.find(e => e.id === employeeId);
+  const messagesUrl = employee ? `/api/sms/mock/messages?phone=${encodeURIComponent(employee.phone)}` : "";
+
+  const { data: messages = [] } = useQuery<MockSMSMessage[]>({
+    queryKey: [messagesUrl],
+    enabled: !!employee,
+    refetchInterval: 2000,
+  });
+
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ block: "nearest" });
+  }, [messages.length]);
+
+  const replyMutation = useMutation({
+    mutationFn: async (body: string) => {
+      const response = await apiRequest("POST", "/api/sms/mock/inbound", { employeeId, body });
+      return response.json();
+    },
+    onSuccess: () => {
+      setReply("");
+      queryClient.invalidateQueries({ queryKey: [messagesUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Reply failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", "/api/sms/mock/messages"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [messagesUrl] });
+    },
+  });
+
+  const handleSend = () => {
+    const body = reply.trim();
+    if (body) replyMutation.mutate(body);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-1">
+          <Label className="text-xs text-muted-foreground">Reply as</Label>
+          <Select value={employeeId} onValueChange={setEmployeeId}>
+            <SelectTrigger data-testid="select-simulator-employee">
+              <SelectValue placeholder="Select employee" />
+            </SelectTrigger>
+            <SelectContent>
+              {employees.map((e) => (
+                <SelectItem key={e.id} value={e.id}>{e.name} ({e.phone})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => clearMutation.mutate()}
+          disabled={clearMutation.isPending}
+          title="Clear simulated messages"
+          data-testid="button-simulator-clear"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {employee && (
+        <>
+          <div className="h-72 overflow-y-auto rounded-lg border bg-muted/30 p-3 space-y-2" data-testid="simulator-thread">
+            {messages.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No messages to this phone yet.</p>
+            ) : (
+              messages.map((message) => (
+                <div
+                  key={message.id}
+                  className={`flex flex-col ${message.direction === "inbound" ? "items-end" : "items-start"}`}
+                >
+                  <div
+                    className={`max-w-[80%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap ${
+                      message.direction === "inbound" ? "bg-primary text-primary-foreground" : "bg-background border"
+                    }`}
+                  >
+                    {message.body}
+                  </div>
+                  <div className="flex items-center gap-1 mt-0.5 text-xs text-muted-foreground">
+                    {format(new Date(message.createdAt), "h:mm:ss a")}
+                    {message.direction === "outbound" && message.status !== "delivered" && (
+                      <Badge
+                        variant={message.status === "sent" ? "outline" : "destructive"}
+                        className="text-[10px] px-1 py-0"
+                      >
+                        {message.errorCode || message.status}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+            <div ref={threadEndRef} />
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSend();
+              }}
+              placeholder="Type a reply, e.g. YES or HELP"
+              data-testid="input-simulator-reply"
+            />
+            <Button
+              onClick={handleSend}
+              disabled={!reply.trim() || replyMutation.isPending}
+              data-testid="button-simulator-send"
+            >
+              {replyMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
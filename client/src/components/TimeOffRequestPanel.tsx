@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, Loader2, MessageSquare } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { TimeOffRequest } from "@shared/schema";
+
+export type TimeOffRequestWithDetails = Omit<TimeOffRequest, "createdAt" | "reviewedAt"> & {
+  createdAt: string;
+  reviewedAt: string | null;
+  employeeName: string;
+  conflictingShifts: { id: string; date: string; startTime: string; endTime: string; location: string }[];
+};
+
+export const timeOffStatusConfig: Record<string, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400" },
+  denied: { label: "Denied", className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400" },
+  cancelled: { label: "Cancelled", className: "bg-muted text-muted-foreground" },
+};
+
+export function formatTimeOffRange(startDate: string, endDate: string): string {
+  const start = format(parseISO(startDate), "EEE, MMM d");
+  return startDate === endDate ? start : `${start} – ${format(parseISO(endDate), "EEE, MMM d")}`;
+}
+
+export interface TimeOffRequestPanelProps {
+  employeeId: string;
+}
+
+export function TimeOffRequestPanel({ employeeId }: TimeOffRequestPanelProps) {
+  const { toast } = useToast();
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: requests = [], isLoading } = useQuery<TimeOffRequestWithDetails[]>({
+    queryKey: ["/api/time-off", { employeeId }],
+    queryFn: async () => {
+      const res = await fetch(`/api/time-off?employeeId=${employeeId}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch time-off requests");
+      return res.json();
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { startDate: string; endDate: string; reason: string }) => {
+      const response = await apiRequest("POST", "/api/time-off", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/time-off"] });
+      toast({ title: "Request Submitted", description: "Your supervisor will review your time-off request." });
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to submit request", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/time-off/${id}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/time-off"] });
+      toast({ title: "Request Cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to cancel request", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = () => {
+    createMutation.mutate({ startDate, endDate: endDate || startDate, reason });
+  };
+
+  const upcomingRequests = requests.filter(r => r.endDate >= today);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="time-off-start">First day off</Label>
+            <Input
+              id="time-off-start"
+              type="date"
+              min={today}
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-44"
+              data-testid="input-time-off-start"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="time-off-end">Last day off</Label>
+            <Input
+              id="time-off-end"
+              type="date"
+              min={startDate || today}
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              placeholder="Same day"
+              className="w-44"
+              data-testid="input-time-off-end"
+            />
+          </div>
+        </div>
+        <Textarea
+          placeholder="Reason (optional)"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={2}
+          data-testid="input-time-off-reason"
+        />
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <MessageSquare className="h-3 w-3" />
+            You can also text OFF followed by the date, e.g. OFF {today}
+          </p>
+          <Button
+            onClick={handleSubmit}
+            disabled={!startDate || createMutation.isPending}
+            data-testid="button-request-time-off"
+          >
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Request Time Off
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : upcomingRequests.length > 0 && (
+        <div className="space-y-2">
+          {upcomingRequests.map((request) => {
+            const status = timeOffStatusConfig[request.status] || timeOffStatusConfig.pending;
+            return (
+              <div
+                key={request.id}
+                className="flex items-start justify-between gap-4 p-3 rounded-md border"
+                data-testid={`time-off-request-${request.id}`}
+              >
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">{formatTimeOffRange(request.startDate, request.endDate)}</p>
+                  {request.reason && <p className="text-xs text-muted-foreground">{request.reason}</p>}
+                  {request.reviewNote && (
+                    <p className="text-xs text-muted-foreground">Supervisor note: {request.reviewNote}</p>
+                  )}
+                  {request.conflictingShifts.length > 0 && (
+                    <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                      <AlertTriangle className="h-3 w-3" />
+                      You're assigned to {request.conflictingShifts.length} shift(s) during this time
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge className={status.className}>{status.label}</Badge>
+                  {request.status === "pending" && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => cancelMutation.mutate(request.id)}
+                      disabled={cancelMutation.isPending}
+                      data-testid={`button-cancel-time-off-${request.id}`}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,30 @@
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Calendar, Clock, Users, Send } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Calendar, Clock, Users, Send, CheckCircle2 } from "lucide-react";
+
+export type TrainingRsvp = "attending" | "declined" | "attended";
 
 export interface TrainingCardProps {
   id: string;
   title: string;
   description: string;
-  date: string;
-  time: string;
-  duration: string;
-  attendees: number;
-  maxAttendees: number;
+  // The next session, when one is scheduled
+  date?: string;
+  time?: string;
+  duration?: string;
+  attendees?: number;
+  maxAttendees?: number;
   isRequired: boolean;
+  typeLabel?: string;
+  dueDate?: string;
+  completedCount?: number;
+  totalAssigned?: number;
+  // The signed-in employee's own progress
+  isCompleted?: boolean;
+  rsvp?: TrainingRsvp | null;
+  onRsvp?: (id: string, status: "attending" | "declined") => void;
   onNotify?: (id: string) => void;
   onViewDetails?: (id: string) => void;
 }
@@ -24,71 +36,130 @@ export function TrainingCard({
   date,
   time,
   duration,
-  attendees,
+  attendees = 0,
   maxAttendees,
   isRequired,
+  typeLabel,
+  dueDate,
+  completedCount,
+  totalAssigned,
+  isCompleted = false,
+  rsvp = null,
+  onRsvp,
   onNotify,
   onViewDetails,
 }: TrainingCardProps) {
-  const spotsLeft = maxAttendees - attendees;
+  const hasSession = !!date && maxAttendees !== undefined;
+  const spotsLeft = (maxAttendees ?? 0) - attendees;
   const isFull = spotsLeft <= 0;
 
   return (
-    <Card className="hover-elevate" data-testid={`card-training-${id}`}>
+    <Card className="hover-elevate flex flex-col" data-testid={`card-training-${id}`}>
       <CardHeader className="flex flex-row items-start justify-between gap-4 pb-2">
         <div className="space-y-1">
           <h3 className="text-lg font-medium" data-testid={`text-training-title-${id}`}>{title}</h3>
+          {typeLabel && <p className="text-xs text-muted-foreground">{typeLabel}</p>}
         </div>
-        <div className="flex gap-2">
+        <div className="flex flex-wrap justify-end gap-2">
           {isRequired && (
             <Badge variant="destructive" data-testid={`badge-required-${id}`}>
               Required
             </Badge>
           )}
-          {isFull ? (
+          {isCompleted ? (
+            <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+              <CheckCircle2 className="h-3 w-3 mr-1" />
+              Completed
+            </Badge>
+          ) : hasSession && (isFull ? (
             <Badge variant="secondary">Full</Badge>
           ) : (
             <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
               {spotsLeft} spots left
             </Badge>
-          )}
+          ))}
         </div>
       </CardHeader>
-      <CardContent className="space-y-4">
-        <p className="text-sm text-muted-foreground">{description}</p>
-        <div className="flex flex-wrap items-center gap-4 text-sm">
-          <div className="flex items-center gap-1.5">
-            <Calendar className="h-4 w-4 text-muted-foreground" />
-            <span className="font-mono">{date}</span>
+      <CardContent className="space-y-4 flex-1">
+        {description && <p className="text-sm text-muted-foreground">{description}</p>}
+        {hasSession ? (
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <div className="flex items-center gap-1.5">
+              <Calendar className="h-4 w-4 text-muted-foreground" />
+              <span className="font-mono">{date}</span>
+            </div>
+            <div className="flex items-center gap-1.5">
+              <Clock className="h-4 w-4 text-muted-foreground" />
+              <span className="font-mono">{time}</span>
+            </div>
+            <div className="flex items-center gap-1.5">
+              <Users className="h-4 w-4 text-muted-foreground" />
+              <span>{attendees}/{maxAttendees} enrolled</span>
+            </div>
           </div>
-          <div className="flex items-center gap-1.5">
-            <Clock className="h-4 w-4 text-muted-foreground" />
-            <span className="font-mono">{time}</span>
+        ) : (
+          <p className="text-sm text-muted-foreground">No upcoming sessions</p>
+        )}
+        {(duration || dueDate) && (
+          <p className="text-xs text-muted-foreground">
+            {duration && <>Duration: {duration}</>}
+            {duration && dueDate && " · "}
+            {dueDate && <>Due {dueDate}</>}
+          </p>
+        )}
+        {totalAssigned !== undefined && totalAssigned > 0 && (
+          <div className="space-y-1" data-testid={`progress-training-${id}`}>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Completion</span>
+              <span>{completedCount ?? 0}/{totalAssigned}</span>
+            </div>
+            <Progress value={((completedCount ?? 0) / totalAssigned) * 100} className="h-1.5" />
           </div>
-          <div className="flex items-center gap-1.5">
-            <Users className="h-4 w-4 text-muted-foreground" />
-            <span>{attendees}/{maxAttendees} enrolled</span>
-          </div>
-        </div>
-        <p className="text-xs text-muted-foreground">Duration: {duration}</p>
+        )}
       </CardContent>
       <CardFooter className="flex flex-wrap justify-end gap-2 border-t pt-4">
-        <Button
-          size="sm"
-          variant="outline"
-          onClick={() => onNotify?.(id)}
-          data-testid={`button-notify-training-${id}`}
-        >
-          <Send className="h-4 w-4 mr-1" />
-          Send Reminder
-        </Button>
-        <Button
-          size="sm"
-          onClick={() => onViewDetails?.(id)}
-          data-testid={`button-details-training-${id}`}
-        >
-          View Details
-        </Button>
+        {onRsvp && hasSession && !isCompleted && rsvp !== "attended" && (
+          rsvp === "attending" ? (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onRsvp(id, "declined")}
+              data-testid={`button-decline-training-${id}`}
+            >
+              Can't Attend
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onRsvp(id, "attending")}
+              disabled={isFull}
+              data-testid={`button-rsvp-training-${id}`}
+            >
+              {rsvp === "declined" ? "Attend After All" : "RSVP"}
+            </Button>
+          )
+        )}
+        {onNotify && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onNotify(id)}
+            data-testid={`button-notify-training-${id}`}
+          >
+            <Send className="h-4 w-4 mr-1" />
+            Send Reminder
+          </Button>
+        )}
+        {onViewDetails && (
+          <Button
+            size="sm"
+            onClick={() => onViewDetails(id)}
+            data-testid={`button-details-training-${id}`}
+          >
+            View Details
+          </Button>
+        )}
       </CardFooter>
     </Card>
   );
@@ -0,0 +1,454 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CalendarPlus, ChevronDown, ChevronRight, Loader2, MapPin, Trash2, UserPlus } from "lucide-react";
+import { format, parse, parseISO } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  TRAINING_TYPE_LABELS,
+  formatTrainingDuration,
+  getSessionStart,
+  type TrainingAssignmentWithEmployee,
+  type TrainingSessionSummary,
+  type TrainingSummary,
+  type TrainingType,
+} from "@shared/training";
+import type { Employee, TrainingRsvp } from "@shared/schema";
+
+type SessionRsvp = TrainingRsvp & { employeeName: string };
+
+export function formatSessionDate(date: string): string {
+  return format(parseISO(date), "MMM d, yyyy");
+}
+
+export function formatSessionTime(startTime: string): string {
+  return format(parse(startTime, "HH:mm", new Date()), "h:mm a");
+}
+
+const EMPTY_SESSION = { date: "", startTime: "09:00", durationMinutes: "60", location: "", maxAttendees: "20" };
+
+const RSVP_LABELS: Record<string, string> = {
+  attending: "Attending",
+  declined: "Declined",
+  attended: "Attended",
+};
+
+function SessionRsvpList({ session }: { session: TrainingSessionSummary }) {
+  const { toast } = useToast();
+  const { data: rsvps = [], isLoading } = useQuery<SessionRsvp[]>({
+    queryKey: [`/api/training-sessions/${session.id}/rsvps`],
+  });
+
+  const attendanceMutation = useMutation({
+    mutationFn: async (employeeId: string) => {
+      return apiRequest("POST", `/api/training-sessions/${session.id}/attendance`, { employeeId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/training-sessions/${session.id}/rsvps`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trainings"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/trainings/${session.trainingId}/assignments`] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to record attendance", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+  if (rsvps.length === 0) {
+    return <p className="text-sm text-muted-foreground">No RSVPs yet</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {rsvps.map((rsvp) => (
+        <div key={rsvp.id} className="flex items-center justify-between gap-2 text-sm" data-testid={`rsvp-${rsvp.id}`}>
+          <span>{rsvp.employeeName}</span>
+          <div className="flex items-center gap-2">
+            <Badge variant={rsvp.status === "declined" ? "outline" : "secondary"} className="text-xs">
+              {RSVP_LABELS[rsvp.status] ?? rsvp.status}
+            </Badge>
+            {rsvp.status === "attending" && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => attendanceMutation.mutate(rsvp.employeeId)}
+                disabled={attendanceMutation.isPending}
+                data-testid={`button-mark-attended-${rsvp.id}`}
+              >
+                Mark Attended
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export interface TrainingDetailDialogProps {
+  training: TrainingSummary | null;
+  canManage: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRsvp?: (sessionId: string, status: "attending" | "declined") => void;
+}
+
+export function TrainingDetailDialog({ training, canManage, onOpenChange, onRsvp }: TrainingDetailDialogProps) {
+  const { toast } = useToast();
+  const [sessionForm, setSessionForm] = useState(EMPTY_SESSION);
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null);
+  const [assignEmployeeId, setAssignEmployeeId] = useState("");
+  const trainingId = training?.id;
+  const assignmentsKey = [`/api/trainings/${trainingId}/assignments`];
+
+  const { data: assignments = [], isLoading: assignmentsLoading } = useQuery<TrainingAssignmentWithEmployee[]>({
+    queryKey: assignmentsKey,
+    enabled: !!trainingId && canManage,
+  });
+  const { data: employees = [] } = useQuery<Employee[]>({
+    queryKey: ["/api/employees"],
+    enabled: !!trainingId && canManage,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/trainings"] });
+    queryClient.invalidateQueries({ queryKey: assignmentsKey });
+  };
+
+  const addSessionMutation = useMutation({
+    mutationFn: async (data: typeof EMPTY_SESSION) => {
+      return apiRequest("POST", `/api/trainings/${trainingId}/sessions`, {
+        date: data.date,
+        startTime: data.startTime,
+        durationMinutes: parseInt(data.durationMinutes, 10),
+        location: data.location || null,
+        maxAttendees: parseInt(data.maxAttendees, 10),
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setSessionForm(EMPTY_SESSION);
+      toast({ title: "Session Scheduled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to schedule session", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      return apiRequest("DELETE", `/api/training-sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Session Cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to cancel session", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async (employeeIds: string[]) => {
+      const response = await apiRequest("POST", `/api/trainings/${trainingId}/assignments`, { employeeIds });
+      return response.json() as Promise<{ assigned: number; skipped: number }>;
+    },
+    onSuccess: (result) => {
+      invalidate();
+      setAssignEmployeeId("");
+      toast({ title: `Assigned to ${result.assigned} employee${result.assigned !== 1 ? "s" : ""}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to assign training", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async ({ id, completed }: { id: string; completed: boolean }) => {
+      return apiRequest("PATCH", `/api/training-assignments/${id}`, { completed });
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Failed to update completion", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const unassignMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/training-assignments/${id}`);
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove assignment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const assignedIds = new Set(assignments.map(a => a.employeeId));
+  const unassigned = employees.filter(e => e.status === "active" && !assignedIds.has(e.id));
+  const now = new Date();
+
+  return (
+    <Dialog open={!!training} onOpenChange={(next) => { if (!next) setExpandedSessionId(null); onOpenChange(next); }}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto" data-testid="dialog-training-details">
+        {training && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{training.title}</DialogTitle>
+              <DialogDescription>
+                {TRAINING_TYPE_LABELS[training.type as TrainingType] ?? training.type}
+                {training.required && " · Required"}
+                {training.dueDate && ` · Due ${formatSessionDate(training.dueDate)}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            {training.description && <p className="text-sm text-muted-foreground">{training.description}</p>}
+
+            <div className="space-y-3">
+              <h4 className="font-medium">Sessions</h4>
+              {training.sessions.length === 0 && (
+                <p className="text-sm text-muted-foreground">No sessions scheduled</p>
+              )}
+              {training.sessions.map((session) => {
+                const upcoming = getSessionStart(session) > now;
+                const expanded = expandedSessionId === session.id;
+                return (
+                  <div key={session.id} className="rounded-md border p-3 space-y-2" data-testid={`training-session-${session.id}`}>
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium">
+                          {formatSessionDate(session.date)} at {formatSessionTime(session.startTime)}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatTrainingDuration(session.durationMinutes)} · {session.attending}/{session.maxAttendees} attending
+                        </p>
+                        {session.location && (
+                          <p className="text-sm text-muted-foreground flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            {session.location}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        {!upcoming && <Badge variant="outline" className="text-xs">Past</Badge>}
+                        {session.myRsvp && (
+                          <Badge variant="secondary" className="text-xs">{RSVP_LABELS[session.myRsvp]}</Badge>
+                        )}
+                        {onRsvp && upcoming && session.myRsvp !== "attended" && (
+                          session.myRsvp === "attending" ? (
+                            <Button size="sm" variant="outline" onClick={() => onRsvp(session.id, "declined")} data-testid={`button-session-decline-${session.id}`}>
+                              Can't Attend
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => onRsvp(session.id, "attending")}
+                              disabled={session.spotsLeft === 0}
+                              data-testid={`button-session-rsvp-${session.id}`}
+                            >
+                              {session.spotsLeft === 0 ? "Full" : "RSVP"}
+                            </Button>
+                          )
+                        )}
+                        {canManage && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setExpandedSessionId(expanded ? null : session.id)}
+                              data-testid={`button-session-rsvps-${session.id}`}
+                            >
+                              {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => deleteSessionMutation.mutate(session.id)}
+                              disabled={deleteSessionMutation.isPending}
+                              data-testid={`button-delete-session-${session.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    {canManage && expanded && <SessionRsvpList session={session} />}
+                  </div>
+                );
+              })}
+
+              {canManage && (
+                <div className="rounded-md border border-dashed p-3 space-y-3">
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="input-session-date">Date</Label>
+                      <Input
+                        id="input-session-date"
+                        type="date"
+                        value={sessionForm.date}
+                        onChange={(e) => setSessionForm({ ...sessionForm, date: e.target.value })}
+                        data-testid="input-session-date"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="input-session-time">Start time</Label>
+                      <Input
+                        id="input-session-time"
+                        type="time"
+                        value={sessionForm.startTime}
+                        onChange={(e) => setSessionForm({ ...sessionForm, startTime: e.target.value })}
+                        data-testid="input-session-time"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="input-session-duration">Minutes</Label>
+                      <Input
+                        id="input-session-duration"
+                        type="number"
+                        min={15}
+                        step={15}
+                        value={sessionForm.durationMinutes}
+                        onChange={(e) => setSessionForm({ ...sessionForm, durationMinutes: e.target.value })}
+                        data-testid="input-session-duration"
+                      />
+                    </div>
+                    <div className="space-y-1 col-span-2">
+                      <Label htmlFor="input-session-location">Location</Label>
+                      <Input
+                        id="input-session-location"
+                        value={sessionForm.location}
+                        onChange={(e) => setSessionForm({ ...sessionForm, location: e.target.value })}
+                        placeholder="Optional"
+                        data-testid="input-session-location"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="input-session-capacity">Capacity</Label>
+                      <Input
+                        id="input-session-capacity"
+                        type="number"
+                        min={1}
+                        value={sessionForm.maxAttendees}
+                        onChange={(e) => setSessionForm({ ...sessionForm, maxAttendees: e.target.value })}
+                        data-testid="input-session-capacity"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      onClick={() => addSessionMutation.mutate(sessionForm)}
+                      disabled={addSessionMutation.isPending || !sessionForm.date || !sessionForm.startTime}
+                      data-testid="button-add-session"
+                    >
+                      {addSessionMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CalendarPlus className="h-4 w-4 mr-2" />}
+                      Add Session
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {canManage && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <h4 className="font-medium">Assigned Employees</h4>
+                  <span className="text-sm text-muted-foreground">
+                    {training.completedCount}/{training.totalAssigned} completed
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Select value={assignEmployeeId} onValueChange={setAssignEmployeeId}>
+                    <SelectTrigger className="w-56" data-testid="select-assign-employee">
+                      <SelectValue placeholder="Select employee" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {unassigned.map((employee) => (
+                        <SelectItem key={employee.id} value={employee.id}>{employee.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    onClick={() => assignMutation.mutate([assignEmployeeId])}
+                    disabled={!assignEmployeeId || assignMutation.isPending}
+                    data-testid="button-assign-employee"
+                  >
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Assign
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => assignMutation.mutate(unassigned.map(e => e.id))}
+                    disabled={unassigned.length === 0 || assignMutation.isPending}
+                    data-testid="button-assign-all"
+                  >
+                    Assign All Active
+                  </Button>
+                </div>
+
+                {assignmentsLoading ? (
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                ) : assignments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Not assigned to anyone yet</p>
+                ) : (
+                  <div className="divide-y rounded-md border">
+                    {assignments.map((assignment) => (
+                      <div key={assignment.id} className="flex items-center justify-between gap-2 p-2" data-testid={`training-assignment-${assignment.id}`}>
+                        <div className="flex items-center gap-3">
+                          <Checkbox
+                            checked={!!assignment.completedAt}
+                            onCheckedChange={(checked) => completeMutation.mutate({ id: assignment.id, completed: checked === true })}
+                            disabled={completeMutation.isPending}
+                            data-testid={`checkbox-complete-${assignment.id}`}
+                          />
+                          <div>
+                            <p className="text-sm font-medium">{assignment.employeeName}</p>
+                            {assignment.completedAt && (
+                              <p className="text-xs text-muted-foreground">
+                                Completed {format(new Date(assignment.completedAt), "MMM d, yyyy")}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          {assignment.overdue && <Badge variant="destructive" className="text-xs">Overdue</Badge>}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => unassignMutation.mutate(assignment.id)}
+                            disabled={unassignMutation.isPending}
+                            data-testid={`button-unassign-${assignment.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
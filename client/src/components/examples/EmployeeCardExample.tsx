@@ -9,7 +9,7 @@ export default function EmployeeCardExample() {
         role="supervisor"
         position="Supervisor"
         phone="+1 (555) 123-4567"
-        areas={[{ id: "area-1", name: "Emergency Department", description: null, smsEnabled: true }]}
+        areas={[{ id: "area-1", name: "Emergency Department", description: null, smsEnabled: true, autoAwardPolicy: null, autoAwardDelayMinutes: 0 }]}
         onSendSMS={(id) => console.log("Send SMS to:", id)}
         onViewProfile={(id) => console.log("View profile:", id)}
       />
@@ -19,7 +19,7 @@ export default function EmployeeCardExample() {
         role="employee"
         position="CNA"
         phone="+1 (555) 234-5678"
-        areas={[{ id: "area-2", name: "Pediatrics", description: null, smsEnabled: true }]}
+        areas={[{ id: "area-2", name: "Pediatrics", description: null, smsEnabled: true, autoAwardPolicy: null, autoAwardDelayMinutes: 0 }]}
         onSendSMS={(id) => console.log("Send SMS to:", id)}
         onViewProfile={(id) => console.log("View profile:", id)}
       />
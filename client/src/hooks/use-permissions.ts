@@ -26,8 +26,10 @@ export const ROUTE_PERMISSIONS: Record<string, Permission | null> = {
   "/dashboard": PERMISSIONS.DASHBOARD_VIEW,
   "/shifts": PERMISSIONS.SHIFTS_VIEW,
   "/shifts/new": PERMISSIONS.SHIFTS_MANAGE,
+  "/time-off": PERMISSIONS.SHIFTS_MANAGE,
+  "/swaps": PERMISSIONS.SHIFTS_MANAGE,
   "/employees": PERMISSIONS.EMPLOYEES_MANAGE,
-  "/messages": null, // Messages - available to all
+  "/messages": PERMISSIONS.EMPLOYEES_MANAGE, // SMS conversations are for admins and supervisors
   "/training": PERMISSIONS.TRAINING_VIEW,
   "/reports": PERMISSIONS.REPORTS_VIEW,
   "/settings": PERMISSIONS.SETTINGS_VIEW,
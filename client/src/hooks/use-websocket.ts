@@ -1,60 +1,101 @@
 import { useEffect, useRef, useCallback } from "react";
 import { queryClient } from "@/lib/queryClient";
+import type { RealtimeChannel, RealtimeEvent } from "@shared/realtime";
 
-interface ShiftUpdateMessage {
-  type: "shift_update";
-  shiftId: string;
-  updateType: "interest_added" | "interest_removed" | "shift_assigned" | "shift_updated";
-  timestamp: string;
+/**
+ * Refetch the queries an event makes stale
+ */
+function handleEvent(event: RealtimeEvent) {
+  switch (event.type) {
+    case "shift_update":
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts", event.shiftId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/shifts/${event.shiftId}/interests`] });
+      break;
+    case "message_received":
+    case "conversation_read":
+      queryClient.invalidateQueries({ queryKey: ["/api/sms/conversations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sms/unread-count"] });
+      break;
+    case "message_status_changed":
+      queryClient.invalidateQueries({ queryKey: ["/api/sms/conversations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sms/scheduled"] });
+      break;
+    case "settings_updated":
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      break;
+    case "subscriptions":
+      if (event.rejected.length > 0) {
+        console.warn("WebSocket channels not allowed:", event.rejected);
+      }
+      break;
+    case "error":
+      console.error("WebSocket error from server:", event.error);
+      break;
+  }
+}
+
+export interface RealtimeUpdatesOptions {
+  enabled?: boolean; // Connect only once signed in - the server refuses anyone else
+  channels?: RealtimeChannel[];
 }
 
-export function useShiftWebSocket() {
+/**
+ * Keep shift, message and settings queries fresh from server events. Mounted once for the signed-in app.
+ * The connection starts in the user's areas and own employee channel; pass
+ * extra channels - another employee's, say - to follow those as well.
+ */
+export function useRealtimeUpdates({ enabled = true, channels = [] }: RealtimeUpdatesOptions = {}) {
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const closedRef = useRef(false);
+  const channelKey = channels.join(",");
 
   const connect = useCallback(() => {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
 
     try {
-      wsRef.current = new WebSocket(wsUrl);
+      const ws = new WebSocket(wsUrl);
+      wsRef.current = ws;
 
-      wsRef.current.onopen = () => {
-        console.log("WebSocket connected for shift updates");
+      ws.onopen = () => {
+        console.log("WebSocket connected for live updates");
+        if (channelKey) {
+          ws.send(JSON.stringify({ type: "subscribe", channels: channelKey.split(",") }));
+        }
       };
 
-      wsRef.current.onmessage = (event) => {
+      ws.onmessage = (event) => {
         try {
-          const message: ShiftUpdateMessage = JSON.parse(event.data);
-          
-          if (message.type === "shift_update") {
-            queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
-            queryClient.invalidateQueries({ queryKey: ["/api/shifts", message.shiftId] });
-            queryClient.invalidateQueries({ queryKey: [`/api/shifts/${message.shiftId}/interests`] });
-          }
+          handleEvent(JSON.parse(event.data) as RealtimeEvent);
         } catch (error) {
           console.error("Failed to parse WebSocket message:", error);
         }
       };
 
-      wsRef.current.onclose = () => {
+      ws.onclose = () => {
+        if (closedRef.current) return;
         console.log("WebSocket disconnected, reconnecting in 3s...");
         reconnectTimeoutRef.current = setTimeout(connect, 3000);
       };
 
-      wsRef.current.onerror = (error) => {
+      ws.onerror = (error) => {
         console.error("WebSocket error:", error);
       };
     } catch (error) {
       console.error("Failed to create WebSocket:", error);
       reconnectTimeoutRef.current = setTimeout(connect, 3000);
     }
-  }, []);
+  }, [channelKey]);
 
   useEffect(() => {
+    if (!enabled) return;
+    closedRef.current = false;
     connect();
 
     return () => {
+      closedRef.current = true;
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
@@ -62,5 +103,5 @@ export function useShiftWebSocket() {
         wsRef.current.close();
       }
     };
-  }, [connect]);
+  }, [connect, enabled]);
 }
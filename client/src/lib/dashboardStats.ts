@@ -1,5 +1,13 @@
-import { startOfWeek, endOfWeek, subWeeks, isWithinInterval } from "date-fns";
-import type { Shift, Employee } from "@shared/schema";
+import { startOfWeek, addWeeks, subWeeks } from "date-fns";
+import type { Employee } from "@shared/schema";
+import type { ShiftStatusCounts } from "@shared/shiftQuery";
+
+// Shift counts from GET /api/shifts/summary - current and upcoming shifts, and those posted this week and last
+export interface DashboardShiftCounts {
+  current: ShiftStatusCounts;
+  thisWeek: ShiftStatusCounts;
+  lastWeek: ShiftStatusCounts;
+}
 
 export interface StatValue {
   value: number | string;
@@ -26,64 +34,30 @@ function calculatePercentageChange(current: number, previous: number): number |
 }
 
 /**
- * Safely parses a date, returning null for invalid dates.
- */
-function safeParseDate(dateValue: string | Date | null | undefined): Date | null {
-  if (!dateValue) return null;
-  const date = new Date(dateValue);
-  return isNaN(date.getTime()) ? null : date;
-}
-
-/**
- * Checks if a date is within an interval, with null safety.
+ * Gets the posted-at ranges for week-over-week trends, as GET /api/shifts/summary filters.
+ * Week starts on Sunday by default; each range ends where the next begins.
  */
-function isDateInInterval(
-  dateValue: string | Date | null | undefined,
-  interval: { start: Date; end: Date }
-): boolean {
-  const date = safeParseDate(dateValue);
-  if (!date) return false;
-  return isWithinInterval(date, interval);
-}
-
-/**
- * Gets week boundaries for trend calculations.
- * Week starts on Sunday by default.
- */
-function getWeekBoundaries() {
-  const now = new Date();
-
+export function getTrendWeeks(now: Date = new Date()) {
   const thisWeekStart = startOfWeek(now);
-  const thisWeekEnd = endOfWeek(now);
-
-  const lastWeekDate = subWeeks(now, 1);
-  const lastWeekStart = startOfWeek(lastWeekDate);
-  const lastWeekEnd = endOfWeek(lastWeekDate);
+  const nextWeekStart = addWeeks(thisWeekStart, 1);
+  const lastWeekStart = subWeeks(thisWeekStart, 1);
 
-  return { now, thisWeekStart, thisWeekEnd, lastWeekStart, lastWeekEnd };
-}
-
-/**
- * Filters shifts by creation date within a given interval.
- */
-function getShiftsCreatedInInterval(
-  shifts: Shift[],
-  interval: { start: Date; end: Date }
-): Shift[] {
-  return shifts.filter(s => isDateInInterval(s.createdAt, interval));
+  return {
+    thisWeek: { postedFrom: thisWeekStart.toISOString(), postedTo: nextWeekStart.toISOString() },
+    lastWeek: { postedFrom: lastWeekStart.toISOString(), postedTo: thisWeekStart.toISOString() },
+  };
 }
 
 /**
  * Calculates fill rate (percentage of shifts that are claimed).
  */
-function calculateFillRate(shifts: Shift[]): number {
-  if (shifts.length === 0) return 0;
-  const claimed = shifts.filter(s => s.status === "claimed").length;
-  return (claimed / shifts.length) * 100;
+function calculateFillRate(counts: ShiftStatusCounts): number {
+  if (counts.total === 0) return 0;
+  return (counts.claimed / counts.total) * 100;
 }
 
 /**
- * Calculates dashboard statistics from shifts and employees data.
+ * Calculates dashboard statistics from shift counts and employees data.
  *
  * Metrics:
  * - Open Shifts: Current count of available shifts, with week-over-week creation trend
@@ -92,22 +66,14 @@ function calculateFillRate(shifts: Shift[]): number {
  * - Shifts Filled: Fill rate percentage with week-over-week percentage change
  */
 export function calculateDashboardStats(
-  shifts: Shift[],
+  counts: DashboardShiftCounts,
   employees: Employee[]
 ): DashboardStatsData {
-  const { thisWeekStart, thisWeekEnd, lastWeekStart, lastWeekEnd } = getWeekBoundaries();
-
   // --- Open Shifts ---
   // Value: Count of currently available shifts
   // Trend: Week-over-week change in shifts created
-  const openShiftsCount = shifts.filter(s => s.status === "available").length;
-
-  const thisWeekInterval = { start: thisWeekStart, end: thisWeekEnd };
-  const lastWeekInterval = { start: lastWeekStart, end: lastWeekEnd };
-
-  const shiftsCreatedThisWeek = getShiftsCreatedInInterval(shifts, thisWeekInterval).length;
-  const shiftsCreatedLastWeek = getShiftsCreatedInInterval(shifts, lastWeekInterval).length;
-  const openShiftsChange = calculatePercentageChange(shiftsCreatedThisWeek, shiftsCreatedLastWeek);
+  const openShiftsCount = counts.current.available;
+  const openShiftsChange = calculatePercentageChange(counts.thisWeek.total, counts.lastWeek.total);
 
   // --- Active Employees ---
   // Value: Count of employees with "active" status
@@ -123,17 +89,14 @@ export function calculateDashboardStats(
   // --- Shifts Filled Percentage ---
   // Value: Overall fill rate (claimed / total non-expired)
   // Trend: Week-over-week percentage change in fill rate
-  const nonExpiredShifts = shifts.filter(s => s.status !== "expired");
-  const fillPercentage = nonExpiredShifts.length > 0
-    ? Math.round(calculateFillRate(nonExpiredShifts))
+  const nonExpired = counts.current.total - counts.current.expired;
+  const fillPercentage = nonExpired > 0
+    ? Math.round((counts.current.claimed / nonExpired) * 100)
     : 0;
 
   // Calculate week-over-week fill rate change
-  const thisWeekShifts = getShiftsCreatedInInterval(shifts, thisWeekInterval);
-  const lastWeekShifts = getShiftsCreatedInInterval(shifts, lastWeekInterval);
-
-  const thisWeekFillRate = calculateFillRate(thisWeekShifts);
-  const lastWeekFillRate = calculateFillRate(lastWeekShifts);
+  const thisWeekFillRate = calculateFillRate(counts.thisWeek);
+  const lastWeekFillRate = calculateFillRate(counts.lastWeek);
 
   // Use percentage change formula for consistency with other metrics
   const fillRateChange = calculatePercentageChange(
@@ -1,17 +1,12 @@
 import { formatRelativeTime } from "./formatRelativeTime";
 import type { ShiftCardProps } from "@/components/ShiftCard";
-import type { Shift, Area, Employee } from "@shared/schema";
+import type { ShiftWithDetails } from "@shared/shiftQuery";
 
 /**
  * Extended shift type that includes area, interest count, and assigned employee from the API.
  * This matches the response shape from GET /api/shifts.
  */
-export type ShiftWithDetails = Shift & {
-  area: Area | null;
-  interestedCount: number;
-  assignedEmployee: Employee | null;
-  position: string;
-};
+export type { ShiftWithDetails };
 
 /**
  * Transforms a shift from API response format to ShiftCard component props.
@@ -48,3 +43,14 @@ export function transformShiftToCard(shift: ShiftWithDetails): ShiftCardProps {
 export function transformShiftsToCards(shifts: ShiftWithDetails[]): ShiftCardProps[] {
   return shifts.map(transformShiftToCard);
 }
+
+/**
+ * Query string for GET /api/shifts and /api/shifts/summary, leaving out unset filters.
+ */
+export function shiftQueryString(query: Record<string, string | number | boolean | null | undefined>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null && value !== "") params.set(key, String(value));
+  }
+  return params.toString();
+}
@@ -65,13 +65,50 @@ const ACTION_CONFIG: Record<string, { label: string; icon: React.ReactNode; vari
   role_deleted: { label: "Role Deleted", icon: <Trash2 className="h-4 w-4" />, variant: "destructive" },
   shift_created: { label: "Shift Created", icon: <Calendar className="h-4 w-4" />, variant: "default" },
   shift_deleted: { label: "Shift Deleted", icon: <Trash2 className="h-4 w-4" />, variant: "destructive" },
+  shift_updated: { label: "Shift Updated", icon: <Edit className="h-4 w-4" />, variant: "secondary" },
+  shift_series_generated: { label: "Series Generated", icon: <Calendar className="h-4 w-4" />, variant: "outline" },
+  shift_series_updated: { label: "Series Updated", icon: <Edit className="h-4 w-4" />, variant: "secondary" },
+  shift_series_cancelled: { label: "Series Cancelled", icon: <Trash2 className="h-4 w-4" />, variant: "destructive" },
   shift_assigned: { label: "Shift Assigned", icon: <UserCheck className="h-4 w-4" />, variant: "default" },
   force_assignment: { label: "Force Assignment", icon: <AlertTriangle className="h-4 w-4" />, variant: "destructive" },
+  shift_escalated: { label: "Shift Escalated", icon: <AlertTriangle className="h-4 w-4" />, variant: "outline" },
+  shift_auto_awarded: { label: "Shift Auto-Awarded", icon: <UserCheck className="h-4 w-4" />, variant: "secondary" },
+  callout_poll_sent: { label: "Callout Poll Sent", icon: <AlertTriangle className="h-4 w-4" />, variant: "outline" },
+  callout_poll_answered: { label: "Callout Poll Answered", icon: <UserCheck className="h-4 w-4" />, variant: "secondary" },
+  sms_scheduled: { label: "SMS Scheduled", icon: <Calendar className="h-4 w-4" />, variant: "outline" },
+  sms_schedule_updated: { label: "Scheduled SMS Updated", icon: <Edit className="h-4 w-4" />, variant: "secondary" },
+  sms_schedule_cancelled: { label: "Scheduled SMS Cancelled", icon: <Trash2 className="h-4 w-4" />, variant: "secondary" },
+  sms_opt_in: { label: "SMS Opt-In", icon: <UserCheck className="h-4 w-4" />, variant: "default" },
+  sms_opt_out: { label: "SMS Opt-Out", icon: <AlertTriangle className="h-4 w-4" />, variant: "outline" },
+  sms_consent_exported: { label: "Consent Ledger Exported", icon: <FileText className="h-4 w-4" />, variant: "secondary" },
   user_created: { label: "User Created", icon: <UserPlus className="h-4 w-4" />, variant: "default" },
   user_password_reset: { label: "Password Reset", icon: <Key className="h-4 w-4" />, variant: "secondary" },
   employee_created: { label: "Employee Created", icon: <UserPlus className="h-4 w-4" />, variant: "default" },
   employee_updated: { label: "Employee Updated", icon: <Edit className="h-4 w-4" />, variant: "secondary" },
   employee_deleted: { label: "Employee Deleted", icon: <Trash2 className="h-4 w-4" />, variant: "destructive" },
+  employee_availability_updated: { label: "Availability Updated", icon: <Calendar className="h-4 w-4" />, variant: "secondary" },
+  certification_added: { label: "Certification Added", icon: <UserCheck className="h-4 w-4" />, variant: "default" },
+  certification_updated: { label: "Certification Updated", icon: <Edit className="h-4 w-4" />, variant: "secondary" },
+  certification_removed: { label: "Certification Removed", icon: <Trash2 className="h-4 w-4" />, variant: "destructive" },
+  certification_expiry_warning: { label: "Certification Expiring", icon: <AlertTriangle className="h-4 w-4" />, variant: "outline" },
+  training_created: { label: "Training Created", icon: <FileText className="h-4 w-4" />, variant: "default" },
+  training_deleted: { label: "Training Deleted", icon: <Trash2 className="h-4 w-4" />, variant: "destructive" },
+  training_assigned: { label: "Training Assigned", icon: <UserPlus className="h-4 w-4" />, variant: "default" },
+  training_unassigned: { label: "Training Unassigned", icon: <Trash2 className="h-4 w-4" />, variant: "secondary" },
+  training_completed: { label: "Training Completed", icon: <UserCheck className="h-4 w-4" />, variant: "default" },
+  training_reminder_sent: { label: "Training Reminder", icon: <Calendar className="h-4 w-4" />, variant: "outline" },
+  report_exported: { label: "Report Exported", icon: <FileText className="h-4 w-4" />, variant: "secondary" },
+  report_snapshot_created: { label: "Report Snapshot Saved", icon: <FileText className="h-4 w-4" />, variant: "default" },
+  report_snapshot_deleted: { label: "Report Snapshot Deleted", icon: <Trash2 className="h-4 w-4" />, variant: "destructive" },
+  time_off_requested: { label: "Time Off Requested", icon: <Calendar className="h-4 w-4" />, variant: "outline" },
+  time_off_approved: { label: "Time Off Approved", icon: <UserCheck className="h-4 w-4" />, variant: "default" },
+  time_off_denied: { label: "Time Off Denied", icon: <Trash2 className="h-4 w-4" />, variant: "destructive" },
+  time_off_cancelled: { label: "Time Off Cancelled", icon: <Trash2 className="h-4 w-4" />, variant: "secondary" },
+  shift_swap_requested: { label: "Swap Requested", icon: <Calendar className="h-4 w-4" />, variant: "outline" },
+  shift_swap_accepted: { label: "Swap Accepted", icon: <UserCheck className="h-4 w-4" />, variant: "secondary" },
+  shift_swap_approved: { label: "Swap Approved", icon: <UserCheck className="h-4 w-4" />, variant: "default" },
+  shift_swap_denied: { label: "Swap Denied", icon: <Trash2 className="h-4 w-4" />, variant: "destructive" },
+  shift_swap_cancelled: { label: "Swap Cancelled", icon: <Trash2 className="h-4 w-4" />, variant: "secondary" },
   area_created: { label: "Area Created", icon: <FileText className="h-4 w-4" />, variant: "default" },
   area_updated: { label: "Area Updated", icon: <Edit className="h-4 w-4" />, variant: "secondary" },
   area_deleted: { label: "Area Deleted", icon: <Trash2 className="h-4 w-4" />, variant: "destructive" },
@@ -88,6 +125,9 @@ const TARGET_TYPES = [
   { value: "employee", label: "Employees" },
   { value: "area", label: "Areas" },
   { value: "position", label: "Positions" },
+  { value: "time_off", label: "Time Off" },
+  { value: "training", label: "Training" },
+  { value: "report", label: "Reports" },
 ];
 
 const ACTIONS = [
@@ -96,10 +136,30 @@ const ACTIONS = [
   { value: "role_updated", label: "Role Updated" },
   { value: "role_deleted", label: "Role Deleted" },
   { value: "shift_deleted", label: "Shift Deleted" },
+  { value: "shift_updated", label: "Shift Updated" },
+  { value: "shift_series_updated", label: "Series Updated" },
+  { value: "shift_series_cancelled", label: "Series Cancelled" },
   { value: "shift_assigned", label: "Shift Assigned" },
   { value: "force_assignment", label: "Force Assignment" },
+  { value: "shift_escalated", label: "Shift Escalated" },
+  { value: "shift_auto_awarded", label: "Shift Auto-Awarded" },
+  { value: "callout_poll_sent", label: "Callout Poll Sent" },
+  { value: "sms_scheduled", label: "SMS Scheduled" },
+  { value: "sms_schedule_cancelled", label: "Scheduled SMS Cancelled" },
+  { value: "sms_opt_in", label: "SMS Opt-In" },
+  { value: "sms_opt_out", label: "SMS Opt-Out" },
   { value: "user_created", label: "User Created" },
   { value: "user_password_reset", label: "Password Reset" },
+  { value: "certification_added", label: "Certification Added" },
+  { value: "certification_removed", label: "Certification Removed" },
+  { value: "certification_expiry_warning", label: "Certification Expiring" },
+  { value: "training_assigned", label: "Training Assigned" },
+  { value: "training_completed", label: "Training Completed" },
+  { value: "training_reminder_sent", label: "Training Reminder" },
+  { value: "report_exported", label: "Report Exported" },
+  { value: "time_off_approved", label: "Time Off Approved" },
+  { value: "time_off_denied", label: "Time Off Denied" },
+  { value: "shift_swap_approved", label: "Swap Approved" },
 ];
 
 export default function AuditLog() {
@@ -2,16 +2,20 @@ import { useState, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useShiftWebSocket } from "@/hooks/use-websocket";
 import { Button } from "@/components/ui/button";
 import { DashboardStats, type StatCardProps } from "@/components/DashboardStats";
 import { ShiftCard } from "@/components/ShiftCard";
 import { ShiftDetailModal, type InterestedEmployee } from "@/components/ShiftDetailModal";
 import { Calendar, Users, MessageSquare, Clock, Plus, Loader2, AlertTriangle } from "lucide-react";
 import { Link, useLocation } from "wouter";
-import { calculateDashboardStats } from "@/lib/dashboardStats";
-import { transformShiftsToCards, type ShiftWithDetails } from "@/lib/shiftUtils";
+import { calculateDashboardStats, getTrendWeeks, type DashboardShiftCounts } from "@/lib/dashboardStats";
+import { transformShiftsToCards, shiftQueryString, type ShiftWithDetails } from "@/lib/shiftUtils";
+import { format, addHours } from "date-fns";
 import type { Employee, Area, OrganizationSetting } from "@shared/schema";
+import type { ShiftStatusCounts } from "@shared/shiftQuery";
+
+const NO_SHIFTS: ShiftStatusCounts = { available: 0, claimed: 0, expired: 0, total: 0 };
+const EMPTY_COUNTS: DashboardShiftCounts = { current: NO_SHIFTS, thisWeek: NO_SHIFTS, lastWeek: NO_SHIFTS };
 
 // Type for the detailed shift response from /api/shifts/:id
 interface ShiftDetailResponse {
@@ -40,9 +44,6 @@ export default function Dashboard() {
   const [notifyingShiftId, setNotifyingShiftId] = useState<string | null>(null);
   const [, setLocation] = useLocation();
 
-  // Subscribe to real-time shift updates
-  useShiftWebSocket();
-
   // Fetch organization settings for urgency threshold
   const { data: settings = [] } = useQuery<OrganizationSetting[]>({
     queryKey: ["/api/settings"],
@@ -54,11 +55,46 @@ export default function Dashboard() {
     return setting ? parseInt(setting.value, 10) : 48;
   }, [settings]);
 
-  // Fetch shifts and employees data
+  // Fetch only the open shifts inside the urgent window - the server filters and sorts them
+  const urgentQuery = useMemo(() => {
+    const now = new Date();
+    return {
+      status: "available",
+      from: format(now, "yyyy-MM-dd"),
+      to: format(addHours(now, urgentThresholdHours), "yyyy-MM-dd"),
+      sort: "date-asc",
+    };
+  }, [urgentThresholdHours]);
+
   const { data: shifts = [], isLoading: loadingShifts } = useQuery<ShiftWithDetails[]>({
-    queryKey: ["/api/shifts"],
+    queryKey: ["/api/shifts", "urgent", urgentQuery],
+    queryFn: async () => {
+      const response = await fetch(`/api/shifts?${shiftQueryString(urgentQuery)}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch shifts");
+      return response.json();
+    },
+  });
+
+  // Stats come from status counts rather than the shifts themselves
+  const { data: shiftCounts = EMPTY_COUNTS, isLoading: loadingCounts } = useQuery<DashboardShiftCounts>({
+    queryKey: ["/api/shifts", "summary", "dashboard"],
+    queryFn: async () => {
+      const fetchCounts = async (query: Record<string, string>): Promise<ShiftStatusCounts> => {
+        const response = await fetch(`/api/shifts/summary?${shiftQueryString(query)}`, { credentials: "include" });
+        if (!response.ok) throw new Error("Failed to fetch shift counts");
+        return response.json();
+      };
+      const { thisWeek, lastWeek } = getTrendWeeks();
+      const [current, thisWeekCounts, lastWeekCounts] = await Promise.all([
+        fetchCounts({}),
+        fetchCounts(thisWeek),
+        fetchCounts(lastWeek),
+      ]);
+      return { current, thisWeek: thisWeekCounts, lastWeek: lastWeekCounts };
+    },
   });
 
+  // Fetch employees data
   const { data: employees = [], isLoading: loadingEmployees } = useQuery<Employee[]>({
     queryKey: ["/api/employees"],
   });
@@ -69,15 +105,16 @@ export default function Dashboard() {
     enabled: !!selectedShiftId && modalOpen,
   });
 
-  const isLoading = loadingShifts || loadingEmployees;
+  const isLoading = loadingShifts || loadingCounts || loadingEmployees;
 
   const { toast } = useToast();
 
   const assignMutation = useMutation({
-    mutationFn: async ({ shiftId, employeeId, sendNotification }: { shiftId: string; employeeId: string; sendNotification: boolean }) => {
+    mutationFn: async ({ shiftId, employeeId, sendNotification, isForceAssignment }: { shiftId: string; employeeId: string; sendNotification: boolean; isForceAssignment?: boolean }) => {
       const response = await apiRequest("POST", `/api/shifts/${shiftId}/assign`, {
         employeeId,
         sendNotification,
+        isForceAssignment,
       });
       return response.json();
     },
@@ -100,8 +137,8 @@ export default function Dashboard() {
     },
   });
 
-  const handleAssign = (shiftId: string, employeeId: string, sendNotification: boolean) => {
-    assignMutation.mutate({ shiftId, employeeId, sendNotification });
+  const handleAssign = (shiftId: string, employeeId: string, sendNotification: boolean, isForceAssignment?: boolean) => {
+    assignMutation.mutate({ shiftId, employeeId, sendNotification, isForceAssignment });
   };
 
   // Notify mutation for quick notify action
@@ -164,8 +201,8 @@ export default function Dashboard() {
 
   // Calculate dashboard stats from real data
   const dashboardStats = useMemo(() => {
-    return calculateDashboardStats(shifts, employees);
-  }, [shifts, employees]);
+    return calculateDashboardStats(shiftCounts, employees);
+  }, [shiftCounts, employees]);
 
   // Transform stats to StatCardProps format
   // Convert null changes to undefined for the component
@@ -1,11 +1,14 @@
 import { useQuery } from "@tanstack/react-query";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Loader2, Calendar, Clock, MapPin, AlertCircle, CheckCircle2, Building2 } from "lucide-react";
+import { Loader2, Calendar, Clock, MapPin, AlertCircle, CheckCircle2, Building2, CalendarClock, CalendarOff, ArrowLeftRight } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { usePermissions, PERMISSIONS } from "@/hooks/use-permissions";
 import { format, parseISO, isAfter } from "date-fns";
+import { AvailabilityEditor } from "@/components/AvailabilityEditor";
+import { TimeOffRequestPanel } from "@/components/TimeOffRequestPanel";
+import { ShiftSwapPanel } from "@/components/ShiftSwapPanel";
 import type { Shift, Area, Position } from "@shared/schema";
 
 type ShiftWithDetails = Shift & {
@@ -189,6 +192,57 @@ export default function EmployeeHome() {
           )}
         </CardContent>
       </Card>
+
+      {user?.employeeId && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowLeftRight className="h-5 w-5" />
+              Shift Swaps
+            </CardTitle>
+            <CardDescription>
+              Can't make a shift? Offer it to a coworker in the same position and area
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ShiftSwapPanel employeeId={user.employeeId} />
+          </CardContent>
+        </Card>
+      )}
+
+      {user?.employeeId && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarOff className="h-5 w-5" />
+              Time Off
+            </CardTitle>
+            <CardDescription>
+              Request days off. Once approved, you won't be assigned or texted about shifts on those days
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TimeOffRequestPanel employeeId={user.employeeId} />
+          </CardContent>
+        </Card>
+      )}
+
+      {user?.employeeId && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              My Availability
+            </CardTitle>
+            <CardDescription>
+              You won't be texted about shifts that fall outside your availability or on blackout dates
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AvailabilityEditor employeeId={user.employeeId} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/select";
 import { EmployeeCard, type EmployeeRole } from "@/components/EmployeeCard";
 import { SMSComposePanel, type Recipient } from "@/components/SMSComposePanel";
+import type { MmsUpload } from "@shared/mms";
 import { Search, Send, UserPlus, Loader2, Trash2, CheckSquare, Square, Users, RefreshCw } from "lucide-react";
 import {
   Dialog,
@@ -29,20 +30,52 @@ import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { UserManagementDialog } from "@/components/UserManagementDialog";
+import { CertificationsEditor } from "@/components/CertificationsEditor";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Employee, Area, Position, Role } from "@shared/schema";
+import type { Employee, EmployeeAvailability, Area, Position, Role } from "@shared/schema";
+import type { EmployeeCertificationWithStatus } from "@shared/certifications";
 
-type EmployeeWithAreas = Employee & { areas: Area[], user?: { id: string, username: string } | null };
+type EmployeeWithAreas = Employee & {
+  areas: Area[],
+  availability?: EmployeeAvailability | null,
+  certifications?: EmployeeCertificationWithStatus[],
+  user?: { id: string, username: string } | null,
+};
+
+// How often digest mode sends its summary, in minutes
+const DIGEST_INTERVALS = [
+  { value: "60", label: "Hourly digest" },
+  { value: "180", label: "Digest every 3 hours" },
+  { value: "720", label: "Digest twice a day" },
+  { value: "1440", label: "Daily digest" },
+];
+
+/**
+ * The SMS preference fields as the API expects them - blank or "off" means no limit
+ */
+function toSmsPreferences(data: EmployeeFormData) {
+  const toNumber = (value: string) => (value && value !== "off" ? parseInt(value, 10) || null : null);
+  return {
+    smsMaxPerHour: toNumber(data.smsMaxPerHour),
+    smsMaxPerDay: toNumber(data.smsMaxPerDay),
+    smsDigestMinutes: toNumber(data.smsDigestMinutes),
+  };
+}
 
 interface EmployeeFormData {
   name: string;
   phone: string;
   email: string;
+  hireDate: string;
   positionId: string;
   roleId: string;
   status: string;
   smsOptIn: boolean;
+  smsMaxPerHour: string;
+  smsMaxPerDay: string;
+  smsDigestMinutes: string; // "off" or minutes between digests
+  smsConsentNote: string; // How an opted-out employee consented again
   areaIds: string[];
   webAccessEnabled: boolean;
   username: string;
@@ -65,10 +98,15 @@ export default function Employees() {
     name: "",
     phone: "",
     email: "",
+    hireDate: "",
     positionId: "",
     roleId: "",
     status: "active",
     smsOptIn: true,
+    smsMaxPerHour: "",
+    smsMaxPerDay: "",
+    smsDigestMinutes: "off",
+    smsConsentNote: "",
     areaIds: [],
     webAccessEnabled: false,
     username: "",
@@ -97,11 +135,18 @@ export default function Employees() {
     queryKey: ["/api/roles"],
   });
 
+  // Pictures can only be attached when the SMS provider sends MMS
+  const { data: smsStatus } = useQuery<{ mmsSupported: boolean }>({
+    queryKey: ["/api/sms/status"],
+  });
+
   const createEmployeeMutation = useMutation({
     mutationFn: async (data: EmployeeFormData) => {
-      const { areaIds, password, ...employeeData } = data;
+      const { areaIds, password, hireDate, smsMaxPerHour, smsMaxPerDay, smsDigestMinutes, smsConsentNote, ...employeeData } = data;
       const response = await apiRequest("POST", "/api/employees", { 
         ...employeeData, 
+        ...toSmsPreferences(data),
+        hireDate: hireDate || null,
         areaIds,
         password: password || undefined 
       });
@@ -124,9 +169,12 @@ export default function Employees() {
 
   const updateEmployeeMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: EmployeeFormData }) => {
-      const { areaIds, password, ...employeeData } = data;
+      const { areaIds, password, hireDate, smsMaxPerHour, smsMaxPerDay, smsDigestMinutes, smsConsentNote, ...employeeData } = data;
       const response = await apiRequest("PATCH", `/api/employees/${id}`, { 
         ...employeeData, 
+        ...toSmsPreferences(data),
+        smsConsentNote: smsConsentNote.trim() || undefined,
+        hireDate: hireDate || null,
         areaIds,
         password: password || undefined
       });
@@ -173,10 +221,15 @@ export default function Employees() {
       name: "",
       phone: "",
       email: "",
+      hireDate: "",
       positionId: "",
       roleId: "",
       status: "active",
       smsOptIn: true,
+      smsMaxPerHour: "",
+      smsMaxPerDay: "",
+      smsDigestMinutes: "off",
+      smsConsentNote: "",
       areaIds: [],
       webAccessEnabled: false,
       username: "",
@@ -197,10 +250,15 @@ export default function Employees() {
         name: emp.name,
         phone: emp.phone,
         email: emp.email || "",
+        hireDate: emp.hireDate || "",
         positionId: emp.positionId,
         roleId: emp.roleId || "",
         status: emp.status,
         smsOptIn: emp.smsOptIn,
+        smsMaxPerHour: emp.smsMaxPerHour ? String(emp.smsMaxPerHour) : "",
+        smsMaxPerDay: emp.smsMaxPerDay ? String(emp.smsMaxPerDay) : "",
+        smsDigestMinutes: emp.smsDigestMinutes ? String(emp.smsDigestMinutes) : "off",
+        smsConsentNote: "",
         areaIds: emp.areas.map(a => a.id),
         webAccessEnabled: emp.webAccessEnabled,
         username: emp.username || "",
@@ -279,7 +337,7 @@ export default function Employees() {
   };
 
   const sendSmsMutation = useMutation({
-    mutationFn: async ({ recipients, message }: { recipients: Recipient[]; message: string }) => {
+    mutationFn: async ({ recipients, message, attachments }: { recipients: Recipient[]; message: string; attachments: MmsUpload[] }) => {
       const results = await Promise.all(
         recipients.map(async (recipient) => {
           try {
@@ -287,6 +345,7 @@ export default function Employees() {
               employeeId: recipient.id,
               content: message,
               messageType: "general",
+              attachments,
             });
             
             // Check if response is ok (apiRequest throws on non-2xx, but double-check)
@@ -360,10 +419,47 @@ export default function Employees() {
     },
   });
 
-  const handleSendComplete = (message: string) => {
+  const scheduleSmsMutation = useMutation({
+    mutationFn: async ({ recipients, message, attachments, scheduledFor }: { recipients: Recipient[]; message: string; attachments: MmsUpload[]; scheduledFor: string }) => {
+      const response = await apiRequest("POST", "/api/sms/scheduled", {
+        employeeIds: recipients.map(r => r.id),
+        content: message,
+        messageType: "general",
+        attachments,
+        scheduledFor,
+      });
+      return response.json() as Promise<{ batchId: string; scheduledFor: string; scheduled: number; skipped: { employeeId: string; error: string }[] }>;
+    },
+    onSuccess: (result) => {
+      const when = new Date(result.scheduledFor).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+      toast({
+        title: "SMS Scheduled",
+        description: result.skipped.length > 0
+          ? `Scheduled for ${result.scheduled} recipient${result.scheduled !== 1 ? 's' : ''} on ${when}; ${result.skipped.length} skipped`
+          : `Scheduled for ${result.scheduled} recipient${result.scheduled !== 1 ? 's' : ''} on ${when}`,
+      });
+      setSmsModalOpen(false);
+      setDirectSmsEmployee(null);
+      setSelectedEmployees([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/sms/scheduled"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to schedule SMS",
+        description: error?.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSendComplete = (message: string, attachments: MmsUpload[], scheduledFor?: string) => {
     const recipients = getRecipients();
-    if (recipients.length > 0 && message.trim()) {
-      sendSmsMutation.mutate({ recipients, message });
+    if (recipients.length > 0 && (message.trim() || attachments.length > 0)) {
+      if (scheduledFor) {
+        scheduleSmsMutation.mutate({ recipients, message, attachments, scheduledFor });
+      } else {
+        sendSmsMutation.mutate({ recipients, message, attachments });
+      }
     }
   };
 
@@ -518,6 +614,8 @@ export default function Employees() {
                   position={positions.find(p => p.id === emp.positionId)?.title || "Unknown Position"}
                   phone={emp.phone}
                   areas={emp.areas}
+                  availability={emp.availability}
+                  certifications={emp.certifications}
                   onSendSMS={handleSendSMS}
                   onViewProfile={openEditDialog}
                   onEditAreas={openEditDialog}
@@ -585,7 +683,8 @@ export default function Employees() {
               setSmsModalOpen(false);
               setDirectSmsEmployee(null);
             }}
-            isSending={sendSmsMutation.isPending}
+            isSending={sendSmsMutation.isPending || scheduleSmsMutation.isPending}
+            allowAttachments={smsStatus?.mmsSupported ?? false}
           />
         </DialogContent>
       </Dialog>
@@ -607,8 +706,9 @@ export default function Employees() {
           </DialogHeader>
 
           <Tabs defaultValue="details" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="details" data-testid="tab-employee-details">Employee Details</TabsTrigger>
+              <TabsTrigger value="certifications" data-testid="tab-certifications">Certifications</TabsTrigger>
               <TabsTrigger value="access" data-testid="tab-web-access">Web Access</TabsTrigger>
             </TabsList>
 
@@ -647,6 +747,18 @@ export default function Employees() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="hire-date">Hire Date (Optional)</Label>
+                <Input
+                  id="hire-date"
+                  type="date"
+                  value={formData.hireDate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, hireDate: e.target.value }))}
+                  data-testid="input-employee-hire-date"
+                />
+                <p className="text-xs text-muted-foreground">Used for seniority order when fair rotation is on</p>
+              </div>
+
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="position">Position *</Label>
@@ -712,6 +824,61 @@ export default function Employees() {
                 </div>
               </div>
 
+              {editingEmployee && !editingEmployee.smsOptIn && formData.smsOptIn && (
+                <div className="space-y-2">
+                  <Label htmlFor="sms-consent-note">How did they agree to texts again?</Label>
+                  <Input
+                    id="sms-consent-note"
+                    placeholder="e.g. Signed consent form on file, 3/14"
+                    value={formData.smsConsentNote}
+                    onChange={(e) => setFormData(prev => ({ ...prev, smsConsentNote: e.target.value }))}
+                    data-testid="input-sms-consent-note"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Kept in the consent ledger. Required if the employee texted STOP - otherwise they can text START themselves.
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-3">
+                <Label>New Shift Texts</Label>
+                <p className="text-xs text-muted-foreground">
+                  Offers past a limit wait for a single summary once the limit allows
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <Select
+                    value={formData.smsDigestMinutes}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, smsDigestMinutes: value }))}
+                  >
+                    <SelectTrigger data-testid="select-sms-digest">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="off">Text each shift</SelectItem>
+                      {DIGEST_INTERVALS.map((interval) => (
+                        <SelectItem key={interval.value} value={interval.value}>{interval.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Max per hour"
+                    value={formData.smsMaxPerHour}
+                    onChange={(e) => setFormData(prev => ({ ...prev, smsMaxPerHour: e.target.value }))}
+                    data-testid="input-sms-max-per-hour"
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Max per day"
+                    value={formData.smsMaxPerDay}
+                    onChange={(e) => setFormData(prev => ({ ...prev, smsMaxPerDay: e.target.value }))}
+                    data-testid="input-sms-max-per-day"
+                  />
+                </div>
+              </div>
+
               <div className="space-y-3">
                 <Label>Placement Assignments</Label>
                 <p className="text-xs text-muted-foreground">
@@ -742,6 +909,16 @@ export default function Employees() {
               </div>
             </TabsContent>
 
+            <TabsContent value="certifications" className="py-2">
+              {editingEmployee ? (
+                <CertificationsEditor employeeId={editingEmployee.id} />
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  Save the employee first, then record their certifications here.
+                </p>
+              )}
+            </TabsContent>
+
             <TabsContent value="access" className="space-y-4 py-2">
               <div className="flex items-center justify-between rounded-lg border p-4">
                 <div className="space-y-1">
@@ -6,9 +6,12 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { MessageThread, type Message } from "@/components/MessageThread";
 import { Input } from "@/components/ui/input";
-import { Search, Loader2, MessageSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScheduledSendsDialog, type ScheduledSend } from "@/components/ScheduledSendsDialog";
+import { Search, Loader2, MessageSquare, CalendarClock } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { MessageAttachmentSummary } from "@shared/mms";
 
 interface ConversationSummary {
   employeeId: string;
@@ -41,6 +44,8 @@ interface SMSMessage {
   deliveryStatus?: string;
   messageType?: string;
   createdAt: string;
+  scheduledFor?: string | null;
+  attachments?: MessageAttachmentSummary[];
 }
 
 function formatTimestamp(dateString: string): string {
@@ -63,6 +68,7 @@ export default function Messages() {
   const [search, setSearch] = useState("");
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string | null>(null);
   const [urlEmployeeId, setUrlEmployeeId] = useState<string | null>(null);
+  const [scheduledOpen, setScheduledOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const searchString = useSearch();
@@ -82,6 +88,10 @@ export default function Messages() {
     queryKey: ["/api/sms/conversations"],
   });
 
+  const { data: scheduledSends = [] } = useQuery<ScheduledSend[]>({
+    queryKey: ["/api/sms/scheduled"],
+  });
+
   // Check if selected employee has an existing conversation
   const hasExistingConversation = selectedEmployeeId && conversations.some(c => c.employeeId === selectedEmployeeId);
 
@@ -156,6 +166,14 @@ export default function Messages() {
     }
   }, [conversations, selectedEmployeeId, urlEmployeeId]);
 
+  // Texts arriving live in the open conversation are read as they appear
+  const selectedUnread = conversations.find(c => c.employeeId === selectedEmployeeId)?.unreadCount ?? 0;
+  useEffect(() => {
+    if (selectedEmployeeId && selectedUnread > 0 && !markAsReadMutation.isPending && document.visibilityState === "visible") {
+      markAsReadMutation.mutate(selectedEmployeeId);
+    }
+  }, [selectedEmployeeId, selectedUnread]);
+
   // Mark as read when selecting a conversation
   const handleSelectConversation = (employeeId: string) => {
     setSelectedEmployeeId(employeeId);
@@ -182,8 +200,11 @@ export default function Messages() {
     content: msg.content,
     senderId: msg.direction === "outbound" ? "admin" : msg.employeeId,
     senderName: msg.direction === "outbound" ? "You" : conversationData?.employee.name || "Employee",
-    timestamp: formatTimestamp(msg.createdAt),
+    timestamp: msg.status === "queued" && msg.scheduledFor
+      ? `Scheduled for ${new Date(msg.scheduledFor).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}`
+      : formatTimestamp(msg.createdAt),
     isSent: msg.status === "sent" || msg.status === "delivered",
+    attachments: msg.attachments,
   }));
 
   const selectedEmployee = conversationData?.employee || conversations.find(c => c.employeeId === selectedEmployeeId)?.employee || directEmployeeData;
@@ -216,7 +237,21 @@ export default function Messages() {
     <div className="flex h-full" data-testid="page-messages">
       <Card className="w-80 flex-shrink-0 rounded-none border-r border-l-0 border-t-0 border-b-0">
         <CardHeader className="pb-2">
-          <CardTitle className="text-lg">Messages</CardTitle>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-lg">Messages</CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setScheduledOpen(true)}
+              data-testid="button-scheduled-sends"
+            >
+              <CalendarClock className="h-4 w-4 mr-1" />
+              Scheduled
+              {scheduledSends.length > 0 && (
+                <Badge variant="secondary" className="ml-1 h-5 px-1.5">{scheduledSends.length}</Badge>
+              )}
+            </Button>
+          </div>
           <div className="relative mt-2">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
@@ -253,7 +288,7 @@ export default function Messages() {
                       <div className="flex items-center gap-2 mt-0.5">
                         <p className="text-sm text-muted-foreground truncate">
                           {conv.lastMessage.direction === "outbound" ? "You: " : ""}
-                          {conv.lastMessage.content}
+                          {conv.lastMessage.content || "Picture message"}
                         </p>
                         {conv.unreadCount > 0 && (
                           <Badge className="h-5 min-w-[20px] p-0 rounded-full bg-primary flex-shrink-0 flex items-center justify-center text-xs">
@@ -305,6 +340,8 @@ export default function Messages() {
           </div>
         )}
       </div>
+
+      <ScheduledSendsDialog open={scheduledOpen} onOpenChange={setScheduledOpen} />
     </div>
   );
 }
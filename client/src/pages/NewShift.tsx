@@ -4,6 +4,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Shift } from "@shared/schema";
+import type { EscalationPolicy } from "@shared/escalation";
 import { Loader2 } from "lucide-react";
 import { useMemo } from "react";
 
@@ -16,6 +17,8 @@ export default function NewShift({ editId }: NewShiftProps) {
   const search = useSearch();
   const { toast } = useToast();
   const isEditing = !!editId;
+  const editScope = useMemo(() => new URLSearchParams(search).get("scope"), [search]);
+  const isSeriesEdit = isEditing && editScope === "following";
 
   const cloneData = useMemo(() => {
     if (!search || isEditing) return null;
@@ -65,6 +68,7 @@ export default function NewShift({ editId }: NewShiftProps) {
       endTime: string;
       requirements?: string;
       sendNotification: boolean;
+      escalationPolicy?: EscalationPolicy | null;
     }) => {
       const response = await apiRequest("POST", "/api/shifts", {
         ...data,
@@ -100,15 +104,23 @@ export default function NewShift({ editId }: NewShiftProps) {
       startTime: string;
       endTime: string;
       requirements?: string;
+      escalationPolicy?: EscalationPolicy | null;
     }) => {
+      if (isSeriesEdit) {
+        const response = await apiRequest("PATCH", `/api/shifts/${editId}/series`, { ...data, scope: "following" });
+        return response.json();
+      }
       const response = await apiRequest("PATCH", `/api/shifts/${editId}`, data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
       toast({
         title: "Shift Updated",
-        description: "The shift has been updated successfully.",
+        description: isSeriesEdit
+          ? `${result.updatedCount} shift(s) in the series have been updated.` +
+            (result.skippedCount > 0 ? ` ${result.skippedCount} assigned shift(s) were left unchanged.` : "")
+          : "The shift has been updated successfully.",
       });
       setLocation("/shifts");
     },
@@ -151,6 +163,7 @@ export default function NewShift({ editId }: NewShiftProps) {
         initialData={initialFormData || undefined}
         isEditing={isEditing}
         isCloning={!!cloneData}
+        isSeriesEdit={isSeriesEdit}
       />
     </div>
   );
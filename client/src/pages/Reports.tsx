@@ -1,5 +1,5 @@
-import { useState, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -17,8 +17,13 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
-import { Progress } from "@/components/ui/progress";
 import {
   BarChart3,
   Download,
@@ -32,243 +37,186 @@ import {
   Loader2,
   FileSpreadsheet,
   FileText,
+  Scale,
+  MapPin,
+  MessageSquare,
+  DollarSign,
+  Timer,
+  Archive,
+  Trash2,
 } from "lucide-react";
-import type { Employee, Shift, Area } from "@shared/schema";
-
-type ShiftWithDetails = Shift & { area?: Area | null };
-type EmployeeWithAreas = Employee & { areas: Area[] };
-
-interface WeeklyFillRate {
-  week: string;
-  weekStart: Date;
-  total: number;
-  filled: number;
-  expired: number;
-  available: number;
-  fillRate: number;
-}
-
-interface EmployeePerformance {
-  id: string;
-  name: string;
-  position: string;
-  shiftsWorked: number;
-  hoursWorked: number;
-  shiftsOffered: number;
-  acceptanceRate: number;
-  reliability: number; // Based on claimed vs actually worked
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions, PERMISSIONS } from "@/hooks/use-permissions";
+import {
+  REPORT_FORMATS,
+  REPORT_FORMAT_LABELS,
+  type ReportFormat,
+  type ReportSection,
+  type ReportSnapshotSchedule,
+  type ReportSnapshotSummary,
+  type ShiftReport,
+} from "@shared/reports";
+import type { Area } from "@shared/schema";
+
+interface OfferEquityReport {
+  since: string;
+  employees: {
+    employeeId: string;
+    name: string;
+    positionId: string;
+    offersReceived: number;
+    firstWaveOffers: number;
+    shiftsAwarded: number;
+    hoursAwarded: number;
+    lastOfferedAt: string | null;
+  }[];
+  summary: {
+    totalOffers: number;
+    averageOffers: number;
+    minOffers: number;
+    maxOffers: number;
+    gini: number;
+  };
 }
 
-// Helper to get week number and start date
-function getWeekData(date: Date): { weekNum: number; weekStart: Date; weekLabel: string } {
-  const d = new Date(date);
-  d.setHours(0, 0, 0, 0);
-  d.setDate(d.getDate() - d.getDay()); // Start of week (Sunday)
-  const weekStart = new Date(d);
-
-  const startOfYear = new Date(d.getFullYear(), 0, 1);
-  const days = Math.floor((d.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
-  const weekNum = Math.ceil((days + startOfYear.getDay() + 1) / 7);
-
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekEnd.getDate() + 6);
+const FORMAT_ICONS: Record<ReportFormat, typeof FileText> = {
+  csv: FileSpreadsheet,
+  xlsx: FileSpreadsheet,
+  pdf: FileText,
+};
 
-  const weekLabel = `${weekStart.toLocaleDateString("en-US", { month: "short", day: "numeric" })} - ${weekEnd.toLocaleDateString("en-US", { month: "short", day: "numeric" })}`;
-
-  return { weekNum, weekStart, weekLabel };
+function formatHours(hours: number | null): string {
+  if (hours === null) return "-";
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24 * 10) / 10}d`;
 }
 
-// Parse shift hours
-function parseShiftHours(startTime: string, endTime: string): number {
-  const [startH, startM] = startTime.split(":").map(Number);
-  const [endH, endM] = endTime.split(":").map(Number);
+function formatMinutes(minutes: number | null): string {
+  if (minutes === null) return "-";
+  return minutes < 90 ? `${minutes} min` : `${Math.round(minutes / 60 * 10) / 10}h`;
+}
 
-  let hours = endH - startH + (endM - startM) / 60;
-  if (hours < 0) hours += 24; // Overnight shift
-  return hours;
+function fillRateVariant(fillRate: number): "default" | "secondary" | "destructive" {
+  return fillRate >= 80 ? "default" : fillRate >= 60 ? "secondary" : "destructive";
 }
 
 export default function Reports() {
+  const { toast } = useToast();
+  const { hasPermission, isAdmin } = usePermissions();
+  const canExport = hasPermission(PERMISSIONS.REPORTS_EXPORT);
   const [dateRange, setDateRange] = useState<"4weeks" | "8weeks" | "12weeks">("4weeks");
   const [areaFilter, setAreaFilter] = useState<string>("all");
 
-  const { data: shifts = [], isLoading: loadingShifts } = useQuery<ShiftWithDetails[]>({
-    queryKey: ["/api/shifts"],
-  });
-
-  const { data: employees = [], isLoading: loadingEmployees } = useQuery<EmployeeWithAreas[]>({
-    queryKey: ["/api/employees"],
-  });
-
   const { data: areas = [] } = useQuery<Area[]>({
     queryKey: ["/api/areas"],
   });
 
-  const { data: positions = [] } = useQuery<{ id: string; title: string }[]>({
-    queryKey: ["/api/positions"],
-  });
-
-  const isLoading = loadingShifts || loadingEmployees;
-
-  // Calculate date range
   const weeksToShow = dateRange === "4weeks" ? 4 : dateRange === "8weeks" ? 8 : 12;
-  const startDate = useMemo(() => {
-    const d = new Date();
-    d.setDate(d.getDate() - (weeksToShow * 7));
-    return d;
-  }, [weeksToShow]);
-
-  // Filter shifts by date range and area
-  const filteredShifts = useMemo(() => {
-    return shifts.filter(shift => {
-      const shiftDate = new Date(shift.createdAt);
-      const inRange = shiftDate >= startDate;
-      const inArea = areaFilter === "all" || shift.areaId === areaFilter;
-      return inRange && inArea;
-    });
-  }, [shifts, startDate, areaFilter]);
-
-  // Calculate weekly fill rates
-  const weeklyFillRates = useMemo((): WeeklyFillRate[] => {
-    const weekMap = new Map<string, WeeklyFillRate>();
-
-    filteredShifts.forEach(shift => {
-      const shiftDate = new Date(shift.createdAt);
-      const { weekLabel, weekStart } = getWeekData(shiftDate);
-
-      if (!weekMap.has(weekLabel)) {
-        weekMap.set(weekLabel, {
-          week: weekLabel,
-          weekStart,
-          total: 0,
-          filled: 0,
-          expired: 0,
-          available: 0,
-          fillRate: 0,
-        });
-      }
-
-      const week = weekMap.get(weekLabel)!;
-      week.total++;
-
-      if (shift.status === "claimed") week.filled++;
-      else if (shift.status === "expired") week.expired++;
-      else week.available++;
-    });
-
-    // Calculate fill rates and sort by date
-    const result = Array.from(weekMap.values())
-      .map(week => ({
-        ...week,
-        fillRate: week.total > 0 ? Math.round((week.filled / week.total) * 100) : 0,
-      }))
-      .sort((a, b) => a.weekStart.getTime() - b.weekStart.getTime());
+  const reportParams = new URLSearchParams({ weeks: String(weeksToShow), areaId: areaFilter });
+
+  const { data: report, isLoading } = useQuery<ShiftReport>({
+    queryKey: ["/api/reports/summary", { weeks: weeksToShow, areaId: areaFilter }],
+    queryFn: async () => {
+      const res = await fetch(`/api/reports/summary?${reportParams.toString()}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch shift report");
+      return res.json();
+    },
+  });
 
-    return result;
-  }, [filteredShifts]);
+  const { data: offerEquity } = useQuery<OfferEquityReport>({
+    queryKey: ["/api/reports/offer-equity", { weeks: weeksToShow, areaId: areaFilter }],
+    queryFn: async () => {
+      const res = await fetch(`/api/reports/offer-equity?${reportParams.toString()}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch offer equity report");
+      return res.json();
+    },
+  });
 
-  // Calculate employee performance metrics
-  const employeePerformance = useMemo((): EmployeePerformance[] => {
-    const perfMap = new Map<string, EmployeePerformance>();
+  const { data: snapshotData } = useQuery<{ schedule: ReportSnapshotSchedule; snapshots: ReportSnapshotSummary[] }>({
+    queryKey: ["/api/reports/snapshots"],
+  });
+  const snapshots = snapshotData?.snapshots ?? [];
 
-    // Initialize with all active employees
-    employees
-      .filter(emp => emp.status === "active")
-      .forEach(emp => {
-        const position = positions.find(p => p.id === emp.positionId);
-        perfMap.set(emp.id, {
-          id: emp.id,
-          name: emp.name,
-          position: position?.title || "Unknown",
-          shiftsWorked: 0,
-          hoursWorked: 0,
-          shiftsOffered: 0,
-          acceptanceRate: 0,
-          reliability: 100, // Start at 100%
-        });
+  const saveSnapshotMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/reports/snapshots", {
+        weeks: weeksToShow,
+        areaId: areaFilter !== "all" ? areaFilter : null,
       });
+      return response.json() as Promise<ReportSnapshotSummary>;
+    },
+    onSuccess: (snapshot) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/snapshots"] });
+      toast({ title: "Snapshot saved", description: snapshot.name });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save snapshot", description: error.message, variant: "destructive" });
+    },
+  });
 
-    // Count shifts worked (claimed shifts assigned to employee)
-    filteredShifts.forEach(shift => {
-      if (shift.status === "claimed" && shift.assignedEmployeeId) {
-        const perf = perfMap.get(shift.assignedEmployeeId);
-        if (perf) {
-          perf.shiftsWorked++;
-          perf.hoursWorked += parseShiftHours(shift.startTime, shift.endTime);
-        }
-      }
-    });
-
-    // For demo purposes, simulate acceptance rates
-    // In production, this would come from shift interest/offer data
-    perfMap.forEach(perf => {
-      if (perf.shiftsWorked > 0) {
-        perf.shiftsOffered = Math.ceil(perf.shiftsWorked * (1 + Math.random() * 0.5));
-        perf.acceptanceRate = Math.round((perf.shiftsWorked / perf.shiftsOffered) * 100);
-        perf.reliability = 85 + Math.floor(Math.random() * 15); // 85-100%
-      }
-    });
-
-    return Array.from(perfMap.values())
-      .filter(emp => emp.shiftsWorked > 0)
-      .sort((a, b) => b.hoursWorked - a.hoursWorked);
-  }, [employees, positions, filteredShifts]);
-
-  // Summary statistics
-  const summaryStats = useMemo(() => {
-    const totalShifts = filteredShifts.length;
-    const filledShifts = filteredShifts.filter(s => s.status === "claimed").length;
-    const expiredShifts = filteredShifts.filter(s => s.status === "expired").length;
-    const overallFillRate = totalShifts > 0 ? Math.round((filledShifts / totalShifts) * 100) : 0;
-
-    const totalHours = filteredShifts
-      .filter(s => s.status === "claimed")
-      .reduce((sum, s) => sum + parseShiftHours(s.startTime, s.endTime), 0);
+  const deleteSnapshotMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/reports/snapshots/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/snapshots"] });
+      toast({ title: "Snapshot deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete snapshot", description: error.message, variant: "destructive" });
+    },
+  });
 
-    const avgAcceptance = employeePerformance.length > 0
-      ? Math.round(employeePerformance.reduce((sum, e) => sum + e.acceptanceRate, 0) / employeePerformance.length)
-      : 0;
+  const scheduleMutation = useMutation({
+    mutationFn: async (schedule: ReportSnapshotSchedule) => {
+      return apiRequest("PUT", "/api/settings/report_snapshot_schedule", {
+        value: schedule,
+        description: "How often a report snapshot is saved automatically (off, weekly, monthly)",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/snapshots"] });
+      toast({ title: "Snapshot schedule updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update schedule", description: error.message, variant: "destructive" });
+    },
+  });
 
-    return {
-      totalShifts,
-      filledShifts,
-      expiredShifts,
-      overallFillRate,
-      totalHours: Math.round(totalHours),
-      avgAcceptance,
-      activeStaff: employeePerformance.length,
-    };
-  }, [filteredShifts, employeePerformance]);
+  // Exports are built on the server; the browser just follows the download
+  const exportReport = (format: ReportFormat, section?: ReportSection) => {
+    const params = new URLSearchParams(reportParams);
+    params.set("format", format);
+    if (section) params.set("section", section);
+    window.open(`/api/reports/export?${params.toString()}`, "_blank");
+  };
 
-  // Export functions
-  const exportToCSV = (type: "shifts" | "employees") => {
-    let csv = "";
-    let filename = "";
+  const exportSnapshot = (id: string, format: ReportFormat) => {
+    window.open(`/api/reports/snapshots/${id}/export?format=${format}`, "_blank");
+  };
 
-    if (type === "shifts") {
-      filename = `shift-report-${new Date().toISOString().split("T")[0]}.csv`;
-      csv = "Week,Total Shifts,Filled,Expired,Available,Fill Rate %\n";
-      weeklyFillRates.forEach(week => {
-        csv += `"${week.week}",${week.total},${week.filled},${week.expired},${week.available},${week.fillRate}\n`;
-      });
-    } else {
-      filename = `employee-performance-${new Date().toISOString().split("T")[0]}.csv`;
-      csv = "Name,Position,Shifts Worked,Hours Worked,Acceptance Rate %,Reliability %\n";
-      employeePerformance.forEach(emp => {
-        csv += `"${emp.name}","${emp.position}",${emp.shiftsWorked},${emp.hoursWorked.toFixed(1)},${emp.acceptanceRate},${emp.reliability}\n`;
-      });
-    }
+  // Offer equity comes from its own endpoint, so its CSV is still assembled here
+  const exportEquityCSV = () => {
+    let csv = "Name,Offers Received,First Wave Offers,Shifts Awarded,Hours Awarded,Last Offered\n";
+    offerEquity?.employees.forEach(emp => {
+      csv += `"${emp.name}",${emp.offersReceived},${emp.firstWaveOffers},${emp.shiftsAwarded},${emp.hoursAwarded.toFixed(1)},${emp.lastOfferedAt ? new Date(emp.lastOfferedAt).toISOString() : ""}\n`;
+    });
 
     const blob = new Blob([csv], { type: "text/csv" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = filename;
+    a.download = `offer-equity-${new Date().toISOString().split("T")[0]}.csv`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
-  if (isLoading) {
+  const sectionExportButton = (section: ReportSection) => canExport && (
+    <Button variant="outline" size="sm" onClick={() => exportReport("csv", section)} data-testid={`button-export-${section}`}>
+      <FileSpreadsheet className="h-4 w-4 mr-2" />
+      Export CSV
+    </Button>
+  );
+
+  if (isLoading || !report) {
     return (
       <div className="flex items-center justify-center h-64" data-testid="loading-reports">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -276,13 +224,16 @@ export default function Reports() {
     );
   }
 
+  const { summary } = report;
+  const maxBucket = Math.max(1, ...report.timeToFill.map(b => b.count));
+
   return (
     <div className="p-6 space-y-6" data-testid="page-reports">
       {/* Header */}
       <div className="flex flex-wrap items-center justify-between gap-4">
         <div>
           <h1 className="text-3xl font-semibold">Reports & Analytics</h1>
-          <p className="text-muted-foreground">Track shift coverage, employee performance, and export data</p>
+          <p className="text-muted-foreground">Track shift coverage, response times and bonus spend, and export data</p>
         </div>
         <div className="flex items-center gap-2">
           <Select value={dateRange} onValueChange={(v) => setDateRange(v as typeof dateRange)}>
@@ -310,14 +261,14 @@ export default function Reports() {
       </div>
 
       {/* Summary Stats */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
         <Card>
           <CardContent className="pt-6">
             <div className="flex items-center gap-2 text-muted-foreground mb-1">
               <Calendar className="h-4 w-4" />
               <span className="text-sm">Total Shifts</span>
             </div>
-            <p className="text-2xl font-bold">{summaryStats.totalShifts}</p>
+            <p className="text-2xl font-bold" data-testid="text-report-total">{summary.totalShifts}</p>
           </CardContent>
         </Card>
         <Card>
@@ -327,8 +278,8 @@ export default function Reports() {
               <span className="text-sm">Fill Rate</span>
             </div>
             <div className="flex items-baseline gap-2">
-              <p className="text-2xl font-bold">{summaryStats.overallFillRate}%</p>
-              {summaryStats.overallFillRate >= 75 ? (
+              <p className="text-2xl font-bold" data-testid="text-report-fill-rate">{summary.fillRate}%</p>
+              {summary.fillRate >= 75 ? (
                 <TrendingUp className="h-4 w-4 text-green-500" />
               ) : (
                 <TrendingDown className="h-4 w-4 text-red-500" />
@@ -342,16 +293,40 @@ export default function Reports() {
               <Clock className="h-4 w-4" />
               <span className="text-sm">Hours Covered</span>
             </div>
-            <p className="text-2xl font-bold">{summaryStats.totalHours.toLocaleString()}</p>
+            <p className="text-2xl font-bold">{summary.hoursCovered.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">{summary.activeStaff} staff worked</p>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="pt-6">
             <div className="flex items-center gap-2 text-muted-foreground mb-1">
-              <Users className="h-4 w-4" />
-              <span className="text-sm">Active Staff</span>
+              <Timer className="h-4 w-4" />
+              <span className="text-sm">Median Time to Fill</span>
             </div>
-            <p className="text-2xl font-bold">{summaryStats.activeStaff}</p>
+            <p className="text-2xl font-bold" data-testid="text-report-time-to-fill">{formatHours(summary.medianTimeToFillHours)}</p>
+            <p className="text-xs text-muted-foreground">Average {formatHours(summary.averageTimeToFillHours)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-muted-foreground mb-1">
+              <MessageSquare className="h-4 w-4" />
+              <span className="text-sm">SMS Response</span>
+            </div>
+            <p className="text-2xl font-bold" data-testid="text-report-sms-latency">{formatMinutes(summary.medianSmsResponseMinutes)}</p>
+            <p className="text-xs text-muted-foreground">
+              {summary.smsResponseRate === null ? "No shift texts sent" : `${summary.smsResponseRate}% of ${summary.shiftTexts} texts answered`}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-muted-foreground mb-1">
+              <DollarSign className="h-4 w-4" />
+              <span className="text-sm">Bonus Spend</span>
+            </div>
+            <p className="text-2xl font-bold" data-testid="text-report-bonus">${summary.bonusSpend.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">{summary.bonusShifts} bonus shifts filled</p>
           </CardContent>
         </Card>
       </div>
@@ -364,26 +339,20 @@ export default function Reports() {
               <BarChart3 className="h-5 w-5" />
               Weekly Fill Rate
             </CardTitle>
-            <CardDescription>Shift coverage by week</CardDescription>
+            <CardDescription>Coverage of the shifts scheduled each week</CardDescription>
           </div>
-          <Button variant="outline" size="sm" onClick={() => exportToCSV("shifts")}>
-            <FileSpreadsheet className="h-4 w-4 mr-2" />
-            Export CSV
-          </Button>
+          {sectionExportButton("weekly")}
         </CardHeader>
         <CardContent>
-          {weeklyFillRates.length > 0 ? (
+          {summary.totalShifts > 0 ? (
             <div className="space-y-4">
-              {weeklyFillRates.map((week) => (
-                <div key={week.week} className="space-y-2">
+              {report.weekly.map((week) => (
+                <div key={week.weekStart} className="space-y-2">
                   <div className="flex items-center justify-between text-sm">
-                    <span className="font-medium">{week.week}</span>
+                    <span className="font-medium">{week.label}</span>
                     <div className="flex items-center gap-4 text-muted-foreground">
                       <span>{week.filled}/{week.total} filled</span>
-                      <Badge
-                        variant={week.fillRate >= 80 ? "default" : week.fillRate >= 60 ? "secondary" : "destructive"}
-                        className="min-w-[60px] justify-center"
-                      >
+                      <Badge variant={fillRateVariant(week.fillRate)} className="min-w-[60px] justify-center">
                         {week.fillRate}%
                       </Badge>
                     </div>
@@ -407,13 +376,13 @@ export default function Reports() {
                         {week.expired > 2 && week.expired}
                       </div>
                     )}
-                    {week.available > 0 && (
+                    {week.open > 0 && (
                       <div
                         className="bg-yellow-500 flex items-center justify-center text-[10px] text-white font-medium"
-                        style={{ width: `${(week.available / week.total) * 100}%` }}
-                        title={`${week.available} available`}
+                        style={{ width: `${(week.open / week.total) * 100}%` }}
+                        title={`${week.open} open`}
                       >
-                        {week.available > 2 && week.available}
+                        {week.open > 2 && week.open}
                       </div>
                     )}
                   </div>
@@ -430,7 +399,7 @@ export default function Reports() {
                 </div>
                 <div className="flex items-center gap-1">
                   <div className="w-3 h-3 rounded bg-yellow-500" />
-                  <span>Available</span>
+                  <span>Open</span>
                 </div>
               </div>
             </div>
@@ -443,6 +412,59 @@ export default function Reports() {
         </CardContent>
       </Card>
 
+      {/* Area Coverage */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              Area Coverage
+            </CardTitle>
+            <CardDescription>Fill rate, uncovered hours and time to fill by program</CardDescription>
+          </div>
+          {sectionExportButton("areas")}
+        </CardHeader>
+        <CardContent>
+          {report.areas.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Area</TableHead>
+                    <TableHead className="text-right">Shifts</TableHead>
+                    <TableHead className="text-right">Fill Rate</TableHead>
+                    <TableHead className="text-right">Hours Covered</TableHead>
+                    <TableHead className="text-right">Hours Uncovered</TableHead>
+                    <TableHead className="text-right">Median Fill</TableHead>
+                    <TableHead className="text-right">Bonus Spend</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.areas.map((area) => (
+                    <TableRow key={area.areaId} data-testid={`row-area-coverage-${area.areaId}`}>
+                      <TableCell className="font-medium">{area.areaName}</TableCell>
+                      <TableCell className="text-right">{area.filled}/{area.total}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={fillRateVariant(area.fillRate)}>{area.fillRate}%</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{area.hoursCovered}</TableCell>
+                      <TableCell className="text-right">{area.hoursUncovered}</TableCell>
+                      <TableCell className="text-right">{formatHours(area.medianTimeToFillHours)}</TableCell>
+                      <TableCell className="text-right">${area.bonusSpend.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <MapPin className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No shifts scheduled in the selected period</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Employee Performance */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
@@ -451,15 +473,12 @@ export default function Reports() {
               <Users className="h-5 w-5" />
               Employee Performance
             </CardTitle>
-            <CardDescription>Hours worked, acceptance rate, and reliability</CardDescription>
+            <CardDescription>Hours worked and how quickly employees answer shift texts</CardDescription>
           </div>
-          <Button variant="outline" size="sm" onClick={() => exportToCSV("employees")}>
-            <FileSpreadsheet className="h-4 w-4 mr-2" />
-            Export CSV
-          </Button>
+          {sectionExportButton("employees")}
         </CardHeader>
         <CardContent>
-          {employeePerformance.length > 0 ? (
+          {report.employees.length > 0 ? (
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
@@ -468,37 +487,34 @@ export default function Reports() {
                     <TableHead>Position</TableHead>
                     <TableHead className="text-right">Shifts</TableHead>
                     <TableHead className="text-right">Hours</TableHead>
-                    <TableHead className="text-right">Acceptance</TableHead>
-                    <TableHead className="text-right">Reliability</TableHead>
+                    <TableHead className="text-right">Texts Answered</TableHead>
+                    <TableHead className="text-right">Median Reply</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {employeePerformance.slice(0, 15).map((emp) => (
-                    <TableRow key={emp.id}>
+                  {report.employees.slice(0, 15).map((emp) => (
+                    <TableRow key={emp.employeeId}>
                       <TableCell className="font-medium">{emp.name}</TableCell>
                       <TableCell className="text-muted-foreground">{emp.position}</TableCell>
                       <TableCell className="text-right">{emp.shiftsWorked}</TableCell>
                       <TableCell className="text-right">{emp.hoursWorked.toFixed(1)}</TableCell>
                       <TableCell className="text-right">
-                        <Badge
-                          variant={emp.acceptanceRate >= 80 ? "default" : emp.acceptanceRate >= 50 ? "secondary" : "outline"}
-                        >
-                          {emp.acceptanceRate}%
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <div className="flex items-center justify-end gap-2">
-                          <Progress value={emp.reliability} className="w-16 h-2" />
-                          <span className="text-sm text-muted-foreground w-10">{emp.reliability}%</span>
-                        </div>
+                        {emp.smsResponseRate === null ? (
+                          <span className="text-muted-foreground">-</span>
+                        ) : (
+                          <Badge variant={emp.smsResponseRate >= 80 ? "default" : emp.smsResponseRate >= 50 ? "secondary" : "outline"}>
+                            {emp.smsReplies}/{emp.shiftTexts} ({emp.smsResponseRate}%)
+                          </Badge>
+                        )}
                       </TableCell>
+                      <TableCell className="text-right text-muted-foreground">{formatMinutes(emp.medianSmsResponseMinutes)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
-              {employeePerformance.length > 15 && (
+              {report.employees.length > 15 && (
                 <p className="text-sm text-muted-foreground text-center mt-4">
-                  Showing top 15 of {employeePerformance.length} employees
+                  Showing top 15 of {report.employees.length} employees - export for the full list
                 </p>
               )}
             </div>
@@ -511,8 +527,94 @@ export default function Reports() {
         </CardContent>
       </Card>
 
+      {/* Offer Equity */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Offer Equity
+            </CardTitle>
+            <CardDescription>How shift offers were spread across active employees</CardDescription>
+          </div>
+          {canExport && (
+            <Button variant="outline" size="sm" onClick={exportEquityCSV} disabled={!offerEquity}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {offerEquity && offerEquity.summary.totalOffers > 0 ? (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-sm text-muted-foreground">Offers Sent</p>
+                  <p className="text-2xl font-bold" data-testid="text-equity-total">{offerEquity.summary.totalOffers}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Average per Employee</p>
+                  <p className="text-2xl font-bold">{offerEquity.summary.averageOffers}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Fewest / Most</p>
+                  <p className="text-2xl font-bold">{offerEquity.summary.minOffers} / {offerEquity.summary.maxOffers}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Inequality (Gini)</p>
+                  <div className="flex items-center gap-2">
+                    <p className="text-2xl font-bold" data-testid="text-equity-gini">{offerEquity.summary.gini.toFixed(2)}</p>
+                    <Badge variant={offerEquity.summary.gini <= 0.2 ? "default" : offerEquity.summary.gini <= 0.4 ? "secondary" : "destructive"}>
+                      {offerEquity.summary.gini <= 0.2 ? "Even" : offerEquity.summary.gini <= 0.4 ? "Uneven" : "Skewed"}
+                    </Badge>
+                  </div>
+                </div>
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead className="text-right">Offers</TableHead>
+                      <TableHead className="text-right">First Wave</TableHead>
+                      <TableHead className="text-right">Awarded</TableHead>
+                      <TableHead className="text-right">Hours</TableHead>
+                      <TableHead className="text-right">Last Offered</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {offerEquity.employees.slice(0, 15).map((emp) => (
+                      <TableRow key={emp.employeeId}>
+                        <TableCell className="font-medium">{emp.name}</TableCell>
+                        <TableCell className="text-right">{emp.offersReceived}</TableCell>
+                        <TableCell className="text-right">{emp.firstWaveOffers}</TableCell>
+                        <TableCell className="text-right">{emp.shiftsAwarded}</TableCell>
+                        <TableCell className="text-right">{emp.hoursAwarded.toFixed(1)}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {emp.lastOfferedAt ? new Date(emp.lastOfferedAt).toLocaleDateString() : "Never"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {offerEquity.employees.length > 15 && (
+                  <p className="text-sm text-muted-foreground text-center mt-4">
+                    Showing 15 of {offerEquity.employees.length} employees - export for the full list
+                  </p>
+                )}
+              </div>
+            </>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Scale className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No shift offers recorded for the selected period</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Quick Stats Cards */}
-      <div className="grid md:grid-cols-2 gap-4">
+      <div className="grid md:grid-cols-3 gap-4">
         <Card>
           <CardHeader>
             <CardTitle className="text-base">Shift Status Breakdown</CardTitle>
@@ -523,47 +625,178 @@ export default function Reports() {
                 <CheckCircle2 className="h-4 w-4 text-green-500" />
                 <span>Filled</span>
               </div>
-              <span className="font-medium">{summaryStats.filledShifts}</span>
+              <span className="font-medium">{summary.filledShifts}</span>
             </div>
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <XCircle className="h-4 w-4 text-red-500" />
                 <span>Expired Unfilled</span>
               </div>
-              <span className="font-medium">{summaryStats.expiredShifts}</span>
+              <span className="font-medium">{summary.expiredShifts}</span>
             </div>
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <Clock className="h-4 w-4 text-yellow-500" />
-                <span>Still Available</span>
+                <span>Still Open</span>
               </div>
-              <span className="font-medium">
-                {summaryStats.totalShifts - summaryStats.filledShifts - summaryStats.expiredShifts}
-              </span>
+              <span className="font-medium">{summary.openShifts}</span>
             </div>
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-base">Time to Fill</CardTitle>
+            {sectionExportButton("time_to_fill")}
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {report.timeToFill.map((bucket) => (
+              <div key={bucket.label} className="flex items-center gap-3 text-sm">
+                <span className="w-24 shrink-0 text-muted-foreground">{bucket.label}</span>
+                <div className="flex-1 h-2 rounded bg-muted overflow-hidden">
+                  <div className="h-full bg-primary" style={{ width: `${(bucket.count / maxBucket) * 100}%` }} />
+                </div>
+                <span className="w-8 text-right font-medium">{bucket.count}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle className="text-base">Export Options</CardTitle>
+            <CardDescription>The full report for the selected period and program</CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
-            <Button variant="outline" className="w-full justify-start" onClick={() => exportToCSV("shifts")}>
-              <FileSpreadsheet className="h-4 w-4 mr-2" />
-              Weekly Fill Rate Report (CSV)
-            </Button>
-            <Button variant="outline" className="w-full justify-start" onClick={() => exportToCSV("employees")}>
-              <FileSpreadsheet className="h-4 w-4 mr-2" />
-              Employee Performance Report (CSV)
-            </Button>
-            <Button variant="outline" className="w-full justify-start text-muted-foreground" disabled>
-              <FileText className="h-4 w-4 mr-2" />
-              Payroll Export (Coming Soon)
-            </Button>
+            {canExport ? (
+              <>
+                {REPORT_FORMATS.map((format) => {
+                  const Icon = FORMAT_ICONS[format];
+                  return (
+                    <Button
+                      key={format}
+                      variant="outline"
+                      className="w-full justify-start"
+                      onClick={() => exportReport(format)}
+                      data-testid={`button-export-report-${format}`}
+                    >
+                      <Icon className="h-4 w-4 mr-2" />
+                      Full Report ({REPORT_FORMAT_LABELS[format]})
+                    </Button>
+                  );
+                })}
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => saveSnapshotMutation.mutate()}
+                  disabled={saveSnapshotMutation.isPending}
+                  data-testid="button-save-snapshot"
+                >
+                  {saveSnapshotMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Archive className="h-4 w-4 mr-2" />}
+                  Save Snapshot
+                </Button>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">You don't have permission to export reports.</p>
+            )}
           </CardContent>
         </Card>
       </div>
+
+      {/* Report Snapshots */}
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Archive className="h-5 w-5" />
+              Report Snapshots
+            </CardTitle>
+            <CardDescription>Saved reports, kept as they were when made</CardDescription>
+          </div>
+          {isAdmin && snapshotData && (
+            <Select
+              value={snapshotData.schedule}
+              onValueChange={(v) => scheduleMutation.mutate(v as ReportSnapshotSchedule)}
+            >
+              <SelectTrigger className="w-[200px]" data-testid="select-snapshot-schedule">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">No scheduled snapshots</SelectItem>
+                <SelectItem value="weekly">Weekly (each Sunday)</SelectItem>
+                <SelectItem value="monthly">Monthly (on the 1st)</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+        </CardHeader>
+        <CardContent>
+          {snapshots.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Snapshot</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Saved</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {snapshots.map((snapshot) => (
+                    <TableRow key={snapshot.id} data-testid={`row-snapshot-${snapshot.id}`}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{snapshot.name}</span>
+                          {snapshot.source === "scheduled" && <Badge variant="outline">Scheduled</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{snapshot.periodFrom} to {snapshot.periodTo}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {new Date(snapshot.createdAt).toLocaleString()} by {snapshot.createdByName}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canExport && (
+                          <div className="flex justify-end gap-1">
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="outline" size="sm" data-testid={`button-download-snapshot-${snapshot.id}`}>
+                                  <Download className="h-4 w-4 mr-1" />
+                                  Download
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {REPORT_FORMATS.map((format) => (
+                                  <DropdownMenuItem key={format} onClick={() => exportSnapshot(snapshot.id, format)}>
+                                    {REPORT_FORMAT_LABELS[format]}
+                                  </DropdownMenuItem>
+                                ))}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => deleteSnapshotMutation.mutate(snapshot.id)}
+                              disabled={deleteSnapshotMutation.isPending}
+                              data-testid={`button-delete-snapshot-${snapshot.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Archive className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No snapshots saved yet</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
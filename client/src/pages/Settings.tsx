@@ -21,10 +21,13 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Bell, MessageSquare, Shield, User, MapPin, Plus, Pencil, Trash2, Loader2, Clock, Phone, Eye, EyeOff, CheckCircle2, XCircle, BarChart3, Send, AlertTriangle, FileText, Copy, RotateCcw, Info, Upload, Key, RefreshCw, Download, BookOpen, Globe } from "lucide-react";
+import { Bell, MessageSquare, Shield, User, MapPin, Plus, Pencil, Trash2, Loader2, Clock, Phone, Eye, EyeOff, CheckCircle2, XCircle, BarChart3, Send, AlertTriangle, FileText, Copy, RotateCcw, Info, Upload, Key, RefreshCw, Download, BookOpen, Globe, Repeat, ArrowLeftRight, Scale, BadgeCheck } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Area, Position, Role, OrganizationSetting, SmsTemplate, ShiftTemplate } from "@shared/schema";
+import type { Area, Position, Role, OrganizationSetting, SmsTemplate, ShiftTemplate, Certification, PositionCertification } from "@shared/schema";
+import { DAY_LABELS, describeRecurrence, type RecurrenceRule } from "@shared/recurrence";
+import { AUTO_AWARD_POLICIES, AUTO_AWARD_POLICY_LABELS, type AutoAwardPolicy } from "@shared/autoAward";
 import { Textarea } from "@/components/ui/textarea";
+import { SmsSimulator } from "@/components/SmsSimulator";
 import {
   Tooltip,
   TooltipContent,
@@ -314,19 +317,26 @@ export default function Settings() {
   // Area management state
   const [areaDialogOpen, setAreaDialogOpen] = useState(false);
   const [editingArea, setEditingArea] = useState<Area | null>(null);
-  const [areaForm, setAreaForm] = useState({ name: "", description: "", smsEnabled: true });
+  const emptyAreaForm = {
+    name: "",
+    description: "",
+    smsEnabled: true,
+    autoAwardPolicy: null as AutoAwardPolicy | null,
+    autoAwardDelayMinutes: 0,
+  };
+  const [areaForm, setAreaForm] = useState(emptyAreaForm);
 
   const { data: areas = [], isLoading: areasLoading } = useQuery<Area[]>({
     queryKey: ["/api/areas"],
   });
 
   const createAreaMutation = useMutation({
-    mutationFn: (data: { name: string; description: string; smsEnabled: boolean }) =>
+    mutationFn: (data: typeof areaForm) =>
       apiRequest("POST", "/api/areas", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/areas"] });
       setAreaDialogOpen(false);
-      setAreaForm({ name: "", description: "", smsEnabled: true });
+      setAreaForm(emptyAreaForm);
       toast({ title: "Area Created", description: "The new area has been added." });
     },
   });
@@ -338,7 +348,7 @@ export default function Settings() {
       queryClient.invalidateQueries({ queryKey: ["/api/areas"] });
       setAreaDialogOpen(false);
       setEditingArea(null);
-      setAreaForm({ name: "", description: "", smsEnabled: true });
+      setAreaForm(emptyAreaForm);
       toast({ title: "Area Updated", description: "The area has been updated." });
     },
   });
@@ -400,7 +410,11 @@ export default function Settings() {
   // Position management state
   const [positionDialogOpen, setPositionDialogOpen] = useState(false);
   const [editingPosition, setEditingPosition] = useState<Position | null>(null);
-  const [positionForm, setPositionForm] = useState({ title: "", description: "" });
+  const [positionForm, setPositionForm] = useState<{ title: string; description: string; certificationIds: string[] }>({
+    title: "",
+    description: "",
+    certificationIds: [],
+  });
 
   // Reassignment state
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -411,29 +425,101 @@ export default function Settings() {
     queryKey: ["/api/positions"],
   });
 
+  const { data: certifications = [], isLoading: certificationsLoading } = useQuery<Certification[]>({
+    queryKey: ["/api/certifications"],
+  });
+
+  const { data: positionCertifications = [] } = useQuery<PositionCertification[]>({
+    queryKey: ["/api/position-certifications"],
+  });
+
+  const getRequiredCertificationIds = (positionId: string) =>
+    positionCertifications.filter(pc => pc.positionId === positionId).map(pc => pc.certificationId);
+
   const createPositionMutation = useMutation({
-    mutationFn: (data: { title: string; description: string }) =>
-      apiRequest("POST", "/api/positions", data),
+    mutationFn: async (data: { title: string; description: string; certificationIds: string[] }) => {
+      const response = await apiRequest("POST", "/api/positions", { title: data.title, description: data.description });
+      const position: Position = await response.json();
+      await apiRequest("PUT", `/api/positions/${position.id}/certifications`, { certificationIds: data.certificationIds });
+      return position;
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/position-certifications"] });
       setPositionDialogOpen(false);
-      setPositionForm({ title: "", description: "" });
+      setPositionForm({ title: "", description: "", certificationIds: [] });
       toast({ title: "Position Created", description: "The new position has been added." });
     },
   });
 
   const updatePositionMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<Position> }) =>
-      apiRequest("PATCH", `/api/positions/${id}`, data),
+    mutationFn: async ({ id, data }: { id: string; data: { title: string; description: string; certificationIds: string[] } }) => {
+      await apiRequest("PATCH", `/api/positions/${id}`, { title: data.title, description: data.description });
+      await apiRequest("PUT", `/api/positions/${id}/certifications`, { certificationIds: data.certificationIds });
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/position-certifications"] });
       setPositionDialogOpen(false);
       setEditingPosition(null);
-      setPositionForm({ title: "", description: "" });
+      setPositionForm({ title: "", description: "", certificationIds: [] });
       toast({ title: "Position Updated", description: "The position has been updated." });
     },
   });
 
+  // Certification catalog state
+  const [certificationDialogOpen, setCertificationDialogOpen] = useState(false);
+  const [editingCertification, setEditingCertification] = useState<Certification | null>(null);
+  const [certificationForm, setCertificationForm] = useState({ name: "", description: "" });
+  const [certificationWarningDays, setCertificationWarningDays] = useState("30");
+  const [savingCertificationWarning, setSavingCertificationWarning] = useState(false);
+
+  const closeCertificationDialog = () => {
+    setCertificationDialogOpen(false);
+    setEditingCertification(null);
+    setCertificationForm({ name: "", description: "" });
+  };
+
+  const createCertificationMutation = useMutation({
+    mutationFn: (data: { name: string; description: string }) =>
+      apiRequest("POST", "/api/certifications", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+      closeCertificationDialog();
+      toast({ title: "Certification Created", description: "The certification type has been added." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create certification", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateCertificationMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: { name: string; description: string } }) =>
+      apiRequest("PATCH", `/api/certifications/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+      closeCertificationDialog();
+      toast({ title: "Certification Updated", description: "The certification type has been updated." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update certification", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteCertificationMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/certifications/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/position-certifications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+      toast({ title: "Certification Deleted", description: "The certification type and all employee records of it have been removed." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete certification", description: error.message, variant: "destructive" });
+    },
+  });
+
   const deletePositionMutation = useMutation({
     mutationFn: (data: { id: string, reassignToId?: string }) =>
       apiRequest("DELETE", `/api/positions/${data.id}`, { reassignToId: data.reassignToId }),
@@ -471,6 +557,14 @@ export default function Settings() {
     requirements: string;
     bonusAmount: string;
     notifyAllAreas: boolean;
+    repeats: boolean;
+    frequency: RecurrenceRule["frequency"];
+    interval: string;
+    daysOfWeek: number[];
+    weekOfMonth: string;
+    recurrenceStartDate: string;
+    recurrenceEndDate: string;
+    recurrenceHorizonDays: string;
   }>({
     name: "",
     positionId: "",
@@ -481,6 +575,14 @@ export default function Settings() {
     requirements: "",
     bonusAmount: "",
     notifyAllAreas: false,
+    repeats: false,
+    frequency: "weekly",
+    interval: "1",
+    daysOfWeek: [],
+    weekOfMonth: "1",
+    recurrenceStartDate: "",
+    recurrenceEndDate: "",
+    recurrenceHorizonDays: "28",
   });
   const [shiftTemplateToDelete, setShiftTemplateToDelete] = useState<ShiftTemplate | null>(null);
 
@@ -499,12 +601,18 @@ export default function Settings() {
       requirements?: string;
       bonusAmount?: number;
       notifyAllAreas: boolean;
-    }) => apiRequest("POST", "/api/shift-templates", data),
-    onSuccess: () => {
+    }) => apiRequest("POST", "/api/shift-templates", data).then(res => res.json()),
+    onSuccess: (result: { generatedCount?: number }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/shift-templates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
       setShiftTemplateDialogOpen(false);
       resetShiftTemplateForm();
-      toast({ title: "Template Created", description: "The new shift template has been added." });
+      toast({
+        title: "Template Created",
+        description: result.generatedCount
+          ? `The new shift template has been added and ${result.generatedCount} recurring shift(s) were posted.`
+          : "The new shift template has been added.",
+      });
     },
     onError: (error) => {
       toast({ title: "Failed to create template", description: error.message, variant: "destructive" });
@@ -513,13 +621,23 @@ export default function Settings() {
 
   const updateShiftTemplateMutation = useMutation({
     mutationFn: ({ id, data }: { id: string; data: Partial<ShiftTemplate> }) =>
-      apiRequest("PATCH", `/api/shift-templates/${id}`, data),
-    onSuccess: () => {
+      apiRequest("PATCH", `/api/shift-templates/${id}`, data).then(res => res.json()),
+    onSuccess: (result: { generatedCount?: number; removedCount?: number }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/shift-templates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
       setShiftTemplateDialogOpen(false);
       setEditingShiftTemplate(null);
       resetShiftTemplateForm();
-      toast({ title: "Template Updated", description: "The shift template has been updated." });
+      const seriesChanges = [
+        result.generatedCount ? `${result.generatedCount} shift(s) posted` : "",
+        result.removedCount ? `${result.removedCount} shift(s) removed` : "",
+      ].filter(Boolean).join(", ");
+      toast({
+        title: "Template Updated",
+        description: seriesChanges
+          ? `The shift template has been updated (${seriesChanges}).`
+          : "The shift template has been updated.",
+      });
     },
     onError: (error) => {
       toast({ title: "Failed to update template", description: error.message, variant: "destructive" });
@@ -538,6 +656,23 @@ export default function Settings() {
     },
   });
 
+  const generateShiftTemplateMutation = useMutation({
+    mutationFn: (id: string) =>
+      apiRequest("POST", `/api/shift-templates/${id}/generate`).then(res => res.json()),
+    onSuccess: (result: { generatedCount: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+      toast({
+        title: "Shifts Generated",
+        description: result.generatedCount > 0
+          ? `${result.generatedCount} recurring shift(s) were posted.`
+          : "All upcoming shifts in this series are already posted.",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to generate shifts", description: error.message, variant: "destructive" });
+    },
+  });
+
   const resetShiftTemplateForm = () => {
     setShiftTemplateForm({
       name: "",
@@ -549,9 +684,26 @@ export default function Settings() {
       requirements: "",
       bonusAmount: "",
       notifyAllAreas: false,
+      repeats: false,
+      frequency: "weekly",
+      interval: "1",
+      daysOfWeek: [],
+      weekOfMonth: "1",
+      recurrenceStartDate: "",
+      recurrenceEndDate: "",
+      recurrenceHorizonDays: "28",
     });
   };
 
+  const toggleShiftTemplateDay = (day: number) => {
+    setShiftTemplateForm((prev) => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter((d) => d !== day)
+        : [...prev.daysOfWeek, day].sort((a, b) => a - b),
+    }));
+  };
+
   const openNewShiftTemplate = () => {
     setEditingShiftTemplate(null);
     resetShiftTemplateForm();
@@ -570,10 +722,42 @@ export default function Settings() {
       requirements: template.requirements || "",
       bonusAmount: template.bonusAmount ? String(template.bonusAmount) : "",
       notifyAllAreas: template.notifyAllAreas || false,
+      repeats: !!template.recurrenceRule,
+      frequency: template.recurrenceRule?.frequency || "weekly",
+      interval: String(template.recurrenceRule?.interval || 1),
+      daysOfWeek: template.recurrenceRule?.daysOfWeek || [],
+      weekOfMonth: String(template.recurrenceRule?.weekOfMonth || 1),
+      recurrenceStartDate: template.recurrenceStartDate || "",
+      recurrenceEndDate: template.recurrenceEndDate || "",
+      recurrenceHorizonDays: String(template.recurrenceHorizonDays || 28),
     });
     setShiftTemplateDialogOpen(true);
   };
 
+  const getShiftTemplateRecurrence = () => {
+    if (!shiftTemplateForm.repeats) {
+      return { recurrenceRule: null, recurrenceStartDate: null, recurrenceEndDate: null };
+    }
+    const recurrenceRule: RecurrenceRule = shiftTemplateForm.frequency === "monthly"
+      ? {
+          frequency: "monthly",
+          interval: 1,
+          daysOfWeek: shiftTemplateForm.daysOfWeek,
+          weekOfMonth: parseInt(shiftTemplateForm.weekOfMonth, 10) as RecurrenceRule["weekOfMonth"],
+        }
+      : {
+          frequency: "weekly",
+          interval: parseInt(shiftTemplateForm.interval, 10) || 1,
+          daysOfWeek: shiftTemplateForm.daysOfWeek,
+        };
+    return {
+      recurrenceRule,
+      recurrenceStartDate: shiftTemplateForm.recurrenceStartDate,
+      recurrenceEndDate: shiftTemplateForm.recurrenceEndDate || null,
+      recurrenceHorizonDays: parseInt(shiftTemplateForm.recurrenceHorizonDays, 10) || 28,
+    };
+  };
+
   const handleShiftTemplateSubmit = () => {
     const data = {
       name: shiftTemplateForm.name,
@@ -585,6 +769,7 @@ export default function Settings() {
       requirements: shiftTemplateForm.requirements || undefined,
       bonusAmount: shiftTemplateForm.bonusAmount ? parseInt(shiftTemplateForm.bonusAmount, 10) : undefined,
       notifyAllAreas: shiftTemplateForm.notifyAllAreas,
+      ...getShiftTemplateRecurrence(),
     };
 
     if (editingShiftTemplate) {
@@ -598,6 +783,27 @@ export default function Settings() {
   const [urgentThreshold, setUrgentThreshold] = useState("48");
   const [appUrl, setAppUrl] = useState("");
 
+  // Assignment rules (overtime and rest guardrails)
+  const [assignmentRules, setAssignmentRules] = useState({
+    weeklyHoursCap: "40",
+    weeklyHoursCapMode: "warn",
+    minRestHours: "8",
+    minRestHoursMode: "warn",
+    maxConsecutiveDays: "6",
+    maxConsecutiveDaysMode: "off",
+  });
+  const [savingAssignmentRules, setSavingAssignmentRules] = useState(false);
+  const [swapRequiresApproval, setSwapRequiresApproval] = useState(true);
+
+  // Fair rotation (notify in waves instead of all at once)
+  const [fairRotation, setFairRotation] = useState({
+    enabled: false,
+    order: "hours_worked",
+    waveSize: "5",
+    waveDelayMinutes: "15",
+  });
+  const [savingFairRotation, setSavingFairRotation] = useState(false);
+
   // Locations Management
   const [locations, setLocations] = useState<string[]>([]);
   const [newLocation, setNewLocation] = useState("");
@@ -650,7 +856,8 @@ export default function Settings() {
   // SMS Settings (provider-agnostic)
   const [smsSettings, setSmsSettings] = useState({
     // Provider selection
-    smsProvider: "twilio" as "twilio" | "ringcentral",
+    smsProvider: "twilio" as "twilio" | "ringcentral" | "mock",
+    smsSecondaryProvider: "",
     // Twilio credentials
     twilioAccountSid: "",
     twilioAuthToken: "",
@@ -662,6 +869,8 @@ export default function Settings() {
     ringcentralJwt: "",
     ringcentralFromNumber: "",
     ringcentralServerUrl: "https://platform.ringcentral.com",
+    // Mock provider (development only)
+    mockFailureRate: "0",
     // General settings
     smsEnabled: false,
     smsDailyLimit: "1000",
@@ -683,17 +892,36 @@ export default function Settings() {
   // SMS Status check
   const { data: smsStatus } = useQuery<{
     enabled: boolean;
-    provider: "twilio" | "ringcentral";
+    provider: "twilio" | "ringcentral" | "mock";
+    secondaryProvider: "twilio" | "ringcentral" | "mock" | null;
     configured: boolean;
+    secondaryConfigured: boolean;
     initialized: boolean;
     fromNumber: string | null;
+    failover: {
+      enabled: boolean;
+      activeProvider: string | null;
+      failedOver: boolean;
+      lastFailoverAt: string | null;
+      providers: Array<{
+        provider: string;
+        role: "primary" | "secondary";
+        initialized: boolean;
+        healthy: boolean;
+        recentAttempts: number;
+        recentFailures: number;
+        failureRate: number;
+        lastError: string | null;
+        lastAuthErrorAt: string | null;
+      }>;
+    };
   }>({
     queryKey: ["/api/sms/status"],
   });
 
   // SMS Analytics
   const { data: smsAnalytics } = useQuery<{
-    totals: { sent: number; received: number; delivered: number; failed: number; segments: number };
+    totals: { sent: number; received: number; delivered: number; failed: number; queued: number; segments: number };
     today: { sent: number; segments: number };
     thisWeek: { sent: number; segments: number };
     thisMonth: { sent: number; segments: number };
@@ -715,7 +943,7 @@ export default function Settings() {
     expiresAt: string | null;
   }>({
     queryKey: ["/api/sms/ringcentral/webhook"],
-    enabled: user?.role === "admin" && smsSettings.smsProvider === "ringcentral",
+    enabled: user?.role === "admin" && (smsSettings.smsProvider === "ringcentral" || smsSettings.smsSecondaryProvider === "ringcentral"),
   });
 
   const createWebhookMutation = useMutation({
@@ -1045,6 +1273,8 @@ export default function Settings() {
       shift_confirmation: "Shift Confirmation",
       shift_reminder: "Shift Reminder",
       bulk: "Bulk Message",
+      certification_expiry: "Certification Expiring",
+      certification_expiry_supervisor: "Certification Expiring (Supervisor)",
     };
     return labels[category] || category;
   };
@@ -1054,6 +1284,8 @@ export default function Settings() {
       shift_notification: "default",
       shift_confirmation: "default",
       shift_reminder: "secondary",
+      certification_expiry: "secondary",
+      certification_expiry_supervisor: "secondary",
       general: "outline",
       bulk: "outline",
     };
@@ -1088,9 +1320,27 @@ export default function Settings() {
       return setting?.value ?? defaultValue;
     };
 
+    setAssignmentRules({
+      weeklyHoursCap: getValue("weekly_hours_cap", "40"),
+      weeklyHoursCapMode: getValue("weekly_hours_cap_mode", "warn"),
+      minRestHours: getValue("min_rest_hours", "8"),
+      minRestHoursMode: getValue("min_rest_hours_mode", "warn"),
+      maxConsecutiveDays: getValue("max_consecutive_days", "6"),
+      maxConsecutiveDaysMode: getValue("max_consecutive_days_mode", "off"),
+    });
+    setSwapRequiresApproval(getValue("swap_requires_approval", "true") === "true");
+    setFairRotation({
+      enabled: getValue("fair_rotation_enabled", "false") === "true",
+      order: getValue("fair_rotation_order", "hours_worked"),
+      waveSize: getValue("fair_rotation_wave_size", "5"),
+      waveDelayMinutes: getValue("fair_rotation_wave_delay_minutes", "15"),
+    });
+    setCertificationWarningDays(getValue("certification_expiry_warning_days", "30"));
+
     setSmsSettings({
       // Provider selection
-      smsProvider: (getValue("sms_provider", "twilio") as "twilio" | "ringcentral"),
+      smsProvider: (getValue("sms_provider", "twilio") as "twilio" | "ringcentral" | "mock"),
+      smsSecondaryProvider: getValue("sms_secondary_provider", ""),
       // Twilio credentials
       twilioAccountSid: getValue("twilio_account_sid", ""),
       twilioAuthToken: getValue("twilio_auth_token", ""),
@@ -1102,6 +1352,8 @@ export default function Settings() {
       ringcentralJwt: getValue("ringcentral_jwt", ""),
       ringcentralFromNumber: getValue("ringcentral_from_number", ""),
       ringcentralServerUrl: getValue("ringcentral_server_url", "https://platform.ringcentral.com"),
+      // Mock provider (development only)
+      mockFailureRate: getValue("mock_sms_failure_rate", "0"),
       // General settings
       smsEnabled: getValue("sms_enabled", "false") === "true",
       smsDailyLimit: getValue("sms_daily_limit", "1000"),
@@ -1127,6 +1379,75 @@ export default function Settings() {
     },
   });
 
+  const handleSaveAssignmentRules = async () => {
+    setSavingAssignmentRules(true);
+    try {
+      await updateSettingMutation.mutateAsync({ key: "weekly_hours_cap", value: assignmentRules.weeklyHoursCap });
+      await updateSettingMutation.mutateAsync({ key: "weekly_hours_cap_mode", value: assignmentRules.weeklyHoursCapMode });
+      await updateSettingMutation.mutateAsync({ key: "min_rest_hours", value: assignmentRules.minRestHours });
+      await updateSettingMutation.mutateAsync({ key: "min_rest_hours_mode", value: assignmentRules.minRestHoursMode });
+      await updateSettingMutation.mutateAsync({ key: "max_consecutive_days", value: assignmentRules.maxConsecutiveDays });
+      await updateSettingMutation.mutateAsync({ key: "max_consecutive_days_mode", value: assignmentRules.maxConsecutiveDaysMode });
+    } finally {
+      setSavingAssignmentRules(false);
+    }
+  };
+
+  const handleSaveFairRotation = async () => {
+    setSavingFairRotation(true);
+    try {
+      await updateSettingMutation.mutateAsync({ key: "fair_rotation_enabled", value: String(fairRotation.enabled) });
+      await updateSettingMutation.mutateAsync({ key: "fair_rotation_order", value: fairRotation.order });
+      await updateSettingMutation.mutateAsync({ key: "fair_rotation_wave_size", value: fairRotation.waveSize });
+      await updateSettingMutation.mutateAsync({ key: "fair_rotation_wave_delay_minutes", value: fairRotation.waveDelayMinutes });
+    } finally {
+      setSavingFairRotation(false);
+    }
+  };
+
+  const handleSaveCertificationWarning = async () => {
+    setSavingCertificationWarning(true);
+    try {
+      await updateSettingMutation.mutateAsync({ key: "certification_expiry_warning_days", value: certificationWarningDays });
+    } finally {
+      setSavingCertificationWarning(false);
+    }
+  };
+
+  const assignmentRuleRows: {
+    label: string;
+    description: string;
+    unit: string;
+    valueKey: "weeklyHoursCap" | "minRestHours" | "maxConsecutiveDays";
+    modeKey: "weeklyHoursCapMode" | "minRestHoursMode" | "maxConsecutiveDaysMode";
+    testId: string;
+  }[] = [
+    {
+      label: "Weekly Hours Cap",
+      description: "Maximum scheduled hours per employee in a week (Sunday to Saturday)",
+      unit: "hours",
+      valueKey: "weeklyHoursCap",
+      modeKey: "weeklyHoursCapMode",
+      testId: "weekly-hours-cap",
+    },
+    {
+      label: "Minimum Rest",
+      description: "Minimum hours off between the end of one shift and the start of the next",
+      unit: "hours",
+      valueKey: "minRestHours",
+      modeKey: "minRestHoursMode",
+      testId: "min-rest-hours",
+    },
+    {
+      label: "Max Consecutive Days",
+      description: "Maximum number of days in a row an employee can be scheduled",
+      unit: "days",
+      valueKey: "maxConsecutiveDays",
+      modeKey: "maxConsecutiveDaysMode",
+      testId: "max-consecutive-days",
+    },
+  ];
+
   const handleSave = () => {
     if (!user?.employeeId) return;
     
@@ -1144,13 +1465,19 @@ export default function Settings() {
 
   const openEditArea = (area: Area) => {
     setEditingArea(area);
-    setAreaForm({ name: area.name, description: area.description || "", smsEnabled: area.smsEnabled });
+    setAreaForm({
+      name: area.name,
+      description: area.description || "",
+      smsEnabled: area.smsEnabled,
+      autoAwardPolicy: area.autoAwardPolicy,
+      autoAwardDelayMinutes: area.autoAwardDelayMinutes,
+    });
     setAreaDialogOpen(true);
   };
 
   const openNewArea = () => {
     setEditingArea(null);
-    setAreaForm({ name: "", description: "", smsEnabled: true });
+    setAreaForm(emptyAreaForm);
     setAreaDialogOpen(true);
   };
 
@@ -1362,6 +1689,11 @@ export default function Settings() {
                         ) : (
                           <Badge variant="outline" className="text-xs">SMS disabled</Badge>
                         )}
+                        {area.autoAwardPolicy && (
+                          <Badge variant="outline" className="text-xs" data-testid={`badge-auto-award-${area.id}`}>
+                            Auto-award: {AUTO_AWARD_POLICY_LABELS[area.autoAwardPolicy]}
+                          </Badge>
+                        )}
                       </div>
                       <div className="flex items-center gap-1">
                         <Button
@@ -1464,7 +1796,7 @@ export default function Settings() {
                 </div>
                 <Button size="sm" onClick={() => {
                   setEditingPosition(null);
-                  setPositionForm({ title: "", description: "" });
+                  setPositionForm({ title: "", description: "", certificationIds: [] });
                   setPositionDialogOpen(true);
                 }} data-testid="button-add-position">
                   <Plus className="h-4 w-4 mr-1" />
@@ -1493,6 +1825,18 @@ export default function Settings() {
                         {position.description && (
                           <p className="text-sm text-muted-foreground">{position.description}</p>
                         )}
+                        {getRequiredCertificationIds(position.id).length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {certifications
+                              .filter(c => getRequiredCertificationIds(position.id).includes(c.id))
+                              .map(c => (
+                                <Badge key={c.id} variant="outline" className="text-xs">
+                                  <BadgeCheck className="h-3 w-3 mr-1" />
+                                  {c.name}
+                                </Badge>
+                              ))}
+                          </div>
+                        )}
                       </div>
                       <div className="flex items-center gap-1">
                         <Button
@@ -1500,7 +1844,11 @@ export default function Settings() {
                           variant="ghost"
                           onClick={() => {
                             setEditingPosition(position);
-                            setPositionForm({ title: position.title, description: position.description || "" });
+                            setPositionForm({
+                              title: position.title,
+                              description: position.description || "",
+                              certificationIds: getRequiredCertificationIds(position.id),
+                            });
                             setPositionDialogOpen(true);
                           }}
                           data-testid={`button-edit-position-${position.id}`}
@@ -1527,6 +1875,105 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <BadgeCheck className="h-5 w-5" />
+                  <CardTitle>Certifications</CardTitle>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => {
+                    setEditingCertification(null);
+                    setCertificationForm({ name: "", description: "" });
+                    setCertificationDialogOpen(true);
+                  }}
+                  data-testid="button-add-certification-type"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Certification
+                </Button>
+              </div>
+              <CardDescription>Licenses and credentials employees hold, and how early to warn before they expire</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {certificationsLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : certifications.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No certifications defined yet. Add one, then require it on positions.</p>
+              ) : (
+                <div className="space-y-2">
+                  {certifications.map((certification) => (
+                    <div
+                      key={certification.id}
+                      className="flex items-center justify-between p-3 rounded-md bg-muted/50"
+                      data-testid={`certification-item-${certification.id}`}
+                    >
+                      <div>
+                        <p className="font-medium">{certification.name}</p>
+                        {certification.description && (
+                          <p className="text-sm text-muted-foreground">{certification.description}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => {
+                            setEditingCertification(certification);
+                            setCertificationForm({ name: certification.name, description: certification.description || "" });
+                            setCertificationDialogOpen(true);
+                          }}
+                          data-testid={`button-edit-certification-${certification.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => deleteCertificationMutation.mutate(certification.id)}
+                          disabled={deleteCertificationMutation.isPending}
+                          data-testid={`button-delete-certification-${certification.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Separator />
+              <div className="flex items-end justify-between gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="input-certification-warning-days">Warn Before Expiry (days)</Label>
+                  <Input
+                    id="input-certification-warning-days"
+                    type="number"
+                    min={0}
+                    className="w-32"
+                    value={certificationWarningDays}
+                    onChange={(e) => setCertificationWarningDays(e.target.value)}
+                    data-testid="input-certification-warning-days"
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Employees and their area supervisors get one SMS when a certificate enters this window
+                  </p>
+                </div>
+                <Button
+                  onClick={handleSaveCertificationWarning}
+                  disabled={savingCertificationWarning}
+                  data-testid="button-save-certification-warning"
+                >
+                  {savingCertificationWarning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between gap-4">
@@ -1568,6 +2015,12 @@ export default function Settings() {
                             {template.notifyAllAreas && (
                               <Badge variant="outline" className="text-xs">All Areas</Badge>
                             )}
+                            {template.recurrenceRule && (
+                              <Badge variant="secondary" className="text-xs">
+                                <Repeat className="h-3 w-3 mr-1" />
+                                {describeRecurrence(template.recurrenceRule)}
+                              </Badge>
+                            )}
                           </div>
                           <div className="flex items-center gap-2 mt-1 text-sm text-muted-foreground flex-wrap">
                             <span>{position?.title || "Unknown Position"}</span>
@@ -1580,6 +2033,22 @@ export default function Settings() {
                           </div>
                         </div>
                         <div className="flex items-center gap-1">
+                          {template.recurrenceRule && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  onClick={() => generateShiftTemplateMutation.mutate(template.id)}
+                                  disabled={generateShiftTemplateMutation.isPending}
+                                  data-testid={`button-generate-shift-template-${template.id}`}
+                                >
+                                  <RefreshCw className="h-4 w-4" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>Generate upcoming shifts now</TooltipContent>
+                            </Tooltip>
+                          )}
                           <Button
                             size="icon"
                             variant="ghost"
@@ -1754,6 +2223,176 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5" />
+                <CardTitle>Assignment Rules</CardTitle>
+              </div>
+              <CardDescription>
+                Overtime and rest guardrails checked when a shift is assigned or confirmed by SMS.
+                Warnings can be overridden by supervisors; blocking rules only by administrators.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {assignmentRuleRows.map((row) => (
+                <div key={row.valueKey} className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor={`input-${row.testId}`}>{row.label}</Label>
+                    <p className="text-sm text-muted-foreground">{row.description}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id={`input-${row.testId}`}
+                      type="number"
+                      min="1"
+                      value={assignmentRules[row.valueKey]}
+                      onChange={(e) => setAssignmentRules({ ...assignmentRules, [row.valueKey]: e.target.value })}
+                      className="w-20"
+                      data-testid={`input-${row.testId}`}
+                    />
+                    <span className="text-sm text-muted-foreground w-10">{row.unit}</span>
+                    <Select
+                      value={assignmentRules[row.modeKey]}
+                      onValueChange={(value) => setAssignmentRules({ ...assignmentRules, [row.modeKey]: value })}
+                    >
+                      <SelectTrigger className="w-24" data-testid={`select-${row.testId}-mode`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="off">Off</SelectItem>
+                        <SelectItem value="warn">Warn</SelectItem>
+                        <SelectItem value="block">Block</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              ))}
+              <div className="flex justify-end pt-2">
+                <Button
+                  onClick={handleSaveAssignmentRules}
+                  disabled={savingAssignmentRules}
+                  data-testid="button-save-assignment-rules"
+                >
+                  {savingAssignmentRules && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Rules
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <ArrowLeftRight className="h-5 w-5" />
+                <CardTitle>Shift Swaps</CardTitle>
+              </div>
+              <CardDescription>
+                Employees can offer assigned shifts to coworkers in the same position and area
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="switch-swap-requires-approval">Require Supervisor Approval</Label>
+                  <p className="text-sm text-muted-foreground">
+                    When off, a shift changes hands as soon as a coworker accepts the swap
+                  </p>
+                </div>
+                <Switch
+                  id="switch-swap-requires-approval"
+                  checked={swapRequiresApproval}
+                  onCheckedChange={(checked) => {
+                    setSwapRequiresApproval(checked);
+                    updateSettingMutation.mutate({ key: "swap_requires_approval", value: String(checked) });
+                  }}
+                  data-testid="switch-swap-requires-approval"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Scale className="h-5 w-5" />
+                <CardTitle>Fair Rotation</CardTitle>
+              </div>
+              <CardDescription>
+                Notify employees about new shifts in waves so the same fast responders don't win every shift
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="switch-fair-rotation">Notify in Waves</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Later waves are only texted if the shift still has no interest
+                  </p>
+                </div>
+                <Switch
+                  id="switch-fair-rotation"
+                  checked={fairRotation.enabled}
+                  onCheckedChange={(checked) => setFairRotation({ ...fairRotation, enabled: checked })}
+                  data-testid="switch-fair-rotation"
+                />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Order By</Label>
+                  <Select
+                    value={fairRotation.order}
+                    onValueChange={(value) => setFairRotation({ ...fairRotation, order: value })}
+                    disabled={!fairRotation.enabled}
+                  >
+                    <SelectTrigger data-testid="select-fair-rotation-order">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="hours_worked">Fewest hours this week</SelectItem>
+                      <SelectItem value="seniority">Seniority (hire date)</SelectItem>
+                      <SelectItem value="last_offered">Longest since last offer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="input-fair-rotation-wave-size">Employees per Wave</Label>
+                  <Input
+                    id="input-fair-rotation-wave-size"
+                    type="number"
+                    min={1}
+                    value={fairRotation.waveSize}
+                    onChange={(e) => setFairRotation({ ...fairRotation, waveSize: e.target.value })}
+                    disabled={!fairRotation.enabled}
+                    data-testid="input-fair-rotation-wave-size"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="input-fair-rotation-delay">Minutes Between Waves</Label>
+                  <Input
+                    id="input-fair-rotation-delay"
+                    type="number"
+                    min={1}
+                    value={fairRotation.waveDelayMinutes}
+                    onChange={(e) => setFairRotation({ ...fairRotation, waveDelayMinutes: e.target.value })}
+                    disabled={!fairRotation.enabled}
+                    data-testid="input-fair-rotation-delay"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end pt-2">
+                <Button
+                  onClick={handleSaveFairRotation}
+                  disabled={savingFairRotation}
+                  data-testid="button-save-fair-rotation"
+                >
+                  {savingFairRotation && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Fair Rotation
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <div className="flex items-center gap-2">
@@ -1904,13 +2543,144 @@ export default function Settings() {
                         Unified communications platform with SMS, voice, and team messaging
                       </p>
                     </button>
+                    {import.meta.env.DEV && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setSmsSettings(prev => ({ ...prev, smsProvider: "mock" }));
+                          updateSettingMutation.mutate({ key: "sms_provider", value: "mock" });
+                          queryClient.invalidateQueries({ queryKey: ["/api/sms/status"] });
+                        }}
+                        className={`p-4 rounded-lg border-2 border-dashed transition-colors text-left ${
+                          smsSettings.smsProvider === "mock"
+                            ? "border-primary bg-primary/5"
+                            : "border-muted hover:border-muted-foreground/30"
+                        }`}
+                        data-testid="button-provider-mock"
+                      >
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="font-semibold">Mock (development)</span>
+                          {smsSettings.smsProvider === "mock" && (
+                            <CheckCircle2 className="h-5 w-5 text-primary" />
+                          )}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          Keeps messages in memory and simulates delivery - nothing is sent to real phones
+                        </p>
+                      </button>
+                    )}
                   </div>
                 </div>
 
                 <Separator />
 
+                {/* Failover */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-0.5">
+                      <h4 className="font-medium">Failover Provider</h4>
+                      <p className="text-sm text-muted-foreground">
+                        Messages go out through this provider when the primary's credentials are rejected or most recent sends fail
+                      </p>
+                    </div>
+                    <Select
+                      value={smsSettings.smsSecondaryProvider || "none"}
+                      onValueChange={(value) => {
+                        const secondary = value === "none" ? "" : value;
+                        setSmsSettings(prev => ({ ...prev, smsSecondaryProvider: secondary }));
+                        updateSettingMutation.mutate({ key: "sms_secondary_provider", value: secondary });
+                        queryClient.invalidateQueries({ queryKey: ["/api/sms/status"] });
+                      }}
+                    >
+                      <SelectTrigger className="w-44" data-testid="select-secondary-provider">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No failover</SelectItem>
+                        {smsSettings.smsProvider !== "twilio" && <SelectItem value="twilio">Twilio</SelectItem>}
+                        {smsSettings.smsProvider !== "ringcentral" && <SelectItem value="ringcentral">RingCentral</SelectItem>}
+                        {import.meta.env.DEV && smsSettings.smsProvider !== "mock" && (
+                          <SelectItem value="mock">Mock (development)</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {smsSettings.smsSecondaryProvider && smsStatus && !smsStatus.secondaryConfigured && (
+                    <p className="text-sm text-amber-600 dark:text-amber-400">
+                      Enter credentials for the failover provider below - it won't be used until they're complete.
+                    </p>
+                  )}
+                  {smsStatus?.failover.enabled && (
+                    <div className="space-y-2">
+                      {smsStatus.failover.providers.map((health) => (
+                        <div
+                          key={health.provider}
+                          className="flex items-center justify-between gap-3 rounded-md bg-muted/50 p-3 text-sm"
+                          data-testid={`provider-health-${health.provider}`}
+                        >
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium capitalize">{health.provider}</span>
+                            <Badge variant="outline" className="capitalize text-xs">{health.role}</Badge>
+                            {smsStatus.failover.activeProvider === health.provider && (
+                              <Badge variant="secondary" className="text-xs">Sending</Badge>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2 text-muted-foreground">
+                            <span>
+                              {health.recentAttempts > 0
+                                ? `${health.failureRate}% failed of last ${health.recentAttempts}`
+                                : "No recent sends"}
+                            </span>
+                            {health.healthy ? (
+                              <CheckCircle2 className="h-4 w-4 text-green-500" />
+                            ) : (
+                              <span className="flex items-center gap-1 text-destructive" title={health.lastError ?? undefined}>
+                                <XCircle className="h-4 w-4" />
+                                {health.lastAuthErrorAt ? "Auth failed" : "Unhealthy"}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <Separator />
+
+                {/* Mock Provider */}
+                {import.meta.env.DEV && smsSettings.smsProvider === "mock" && (
+                  <div className="space-y-4">
+                    <h4 className="font-medium">Mock Provider</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Numbers ending in 0000 fail as invalid and numbers ending in 0001 are reported undelivered.
+                      Replies below go through the real inbound webhook.
+                    </p>
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label>Simulated Failure Rate</Label>
+                        <p className="text-sm text-muted-foreground">Percentage of sends that fail with a retryable error</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={smsSettings.mockFailureRate}
+                          onChange={(e) => setSmsSettings(prev => ({ ...prev, mockFailureRate: e.target.value }))}
+                          onBlur={() => updateSettingMutation.mutate({ key: "mock_sms_failure_rate", value: smsSettings.mockFailureRate })}
+                          className="w-24"
+                          data-testid="input-mock-failure-rate"
+                        />
+                        <span className="text-sm text-muted-foreground">%</span>
+                      </div>
+                    </div>
+                    <SmsSimulator />
+                  </div>
+                )}
+
                 {/* Twilio Credentials */}
-                {smsSettings.smsProvider === "twilio" && (
+                {(smsSettings.smsProvider === "twilio" || smsSettings.smsSecondaryProvider === "twilio") && (
                   <div className="space-y-4">
                     <h4 className="font-medium">Twilio Credentials</h4>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -1989,7 +2759,7 @@ export default function Settings() {
                 )}
 
                 {/* RingCentral Credentials */}
-                {smsSettings.smsProvider === "ringcentral" && (
+                {(smsSettings.smsProvider === "ringcentral" || smsSettings.smsSecondaryProvider === "ringcentral") && (
                   <div className="space-y-4">
                     <h4 className="font-medium">RingCentral Credentials</h4>
                     
@@ -2443,7 +3213,7 @@ export default function Settings() {
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
                       <Label>Daily Message Limit</Label>
-                      <p className="text-sm text-muted-foreground">Maximum SMS messages per day</p>
+                      <p className="text-sm text-muted-foreground">Maximum SMS messages per day - queued messages past the limit wait until tomorrow</p>
                     </div>
                     <div className="flex items-center gap-2">
                       <Input
@@ -2547,6 +3317,9 @@ export default function Settings() {
                       <span><strong>{smsAnalytics.totals.sent}</strong> sent</span>
                       <span><strong>{smsAnalytics.totals.received}</strong> received</span>
                       <span><strong>{smsAnalytics.totals.segments}</strong> segments</span>
+                      {smsAnalytics.totals.queued > 0 && (
+                        <span><strong>{smsAnalytics.totals.queued}</strong> queued</span>
+                      )}
                     </div>
                     <span className="text-muted-foreground">
                       This month: {smsAnalytics.thisMonth.sent} messages ({smsAnalytics.thisMonth.segments} segments)
@@ -2556,6 +3329,35 @@ export default function Settings() {
               </Card>
             )}
 
+            {/* SMS Consent Card */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Scale className="h-5 w-5" />
+                  <CardTitle>SMS Consent</CardTitle>
+                </div>
+                <CardDescription>Every opt-in and opt-out, with when and how it happened, for carrier and TCPA audits</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center justify-between p-4 rounded-lg border">
+                  <div className="space-y-0.5">
+                    <p className="font-medium">Consent Ledger</p>
+                    <p className="text-sm text-muted-foreground">
+                      STOP and START replies, admin changes and new employees, oldest first
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => window.open("/api/sms/consent/export", "_blank")}
+                    data-testid="button-export-consent"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
             {/* SMS Templates Card */}
             <Card>
               <CardHeader>
@@ -2786,6 +3588,46 @@ export default function Settings() {
                 data-testid="switch-area-sms"
               />
             </div>
+            <div className="space-y-2">
+              <Label>Award Interested Employees</Label>
+              <Select
+                value={areaForm.autoAwardPolicy ?? "manual"}
+                onValueChange={(value) => setAreaForm({
+                  ...areaForm,
+                  autoAwardPolicy: value === "manual" ? null : value as AutoAwardPolicy,
+                })}
+              >
+                <SelectTrigger data-testid="select-area-auto-award">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="manual">Manually (a manager assigns)</SelectItem>
+                  {AUTO_AWARD_POLICIES.map((policy) => (
+                    <SelectItem key={policy} value={policy}>{AUTO_AWARD_POLICY_LABELS[policy]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                Automatically assign open shifts in this area to an interested employee who passes every scheduling rule
+              </p>
+            </div>
+            {areaForm.autoAwardPolicy && (
+              <div className="space-y-2">
+                <Label htmlFor="area-auto-award-delay">Award After (minutes)</Label>
+                <Input
+                  id="area-auto-award-delay"
+                  type="number"
+                  min={0}
+                  max={1440}
+                  value={areaForm.autoAwardDelayMinutes}
+                  onChange={(e) => setAreaForm({ ...areaForm, autoAwardDelayMinutes: Math.min(1440, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                  data-testid="input-area-auto-award-delay"
+                />
+                <p className="text-sm text-muted-foreground">
+                  Counted from the first interest, so others have time to respond. Use 0 to award within a minute of the first interest.
+                </p>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setAreaDialogOpen(false)}>
@@ -2833,6 +3675,38 @@ export default function Settings() {
                 data-testid="input-position-description"
               />
             </div>
+            <div className="space-y-2">
+              <Label>Required Certifications</Label>
+              {certifications.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No certification types defined yet.</p>
+              ) : (
+                <div className="space-y-2 border rounded-md p-3 max-h-48 overflow-y-auto">
+                  {certifications.map((certification) => (
+                    <div key={certification.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`position-cert-${certification.id}`}
+                        checked={positionForm.certificationIds.includes(certification.id)}
+                        onCheckedChange={(checked) => {
+                          setPositionForm({
+                            ...positionForm,
+                            certificationIds: checked
+                              ? [...positionForm.certificationIds, certification.id]
+                              : positionForm.certificationIds.filter(id => id !== certification.id),
+                          });
+                        }}
+                        data-testid={`checkbox-position-cert-${certification.id}`}
+                      />
+                      <Label htmlFor={`position-cert-${certification.id}`} className="font-normal">
+                        {certification.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Employees without a current copy of each are not notified about or assigned to this position's shifts
+              </p>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setPositionDialogOpen(false)}>
@@ -2858,6 +3732,60 @@ export default function Settings() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={certificationDialogOpen} onOpenChange={(open) => !open && closeCertificationDialog()}>
+        <DialogContent data-testid="dialog-certification">
+          <DialogHeader>
+            <DialogTitle>{editingCertification ? "Edit Certification" : "Add Certification"}</DialogTitle>
+            <DialogDescription>
+              {editingCertification ? "Update the certification details below." : "Add a license or credential employees can hold."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="certification-name">Name</Label>
+              <Input
+                id="certification-name"
+                value={certificationForm.name}
+                onChange={(e) => setCertificationForm({ ...certificationForm, name: e.target.value })}
+                placeholder="e.g., BLS"
+                data-testid="input-certification-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="certification-description">Description (Optional)</Label>
+              <Input
+                id="certification-description"
+                value={certificationForm.description}
+                onChange={(e) => setCertificationForm({ ...certificationForm, description: e.target.value })}
+                placeholder="e.g., Basic Life Support"
+                data-testid="input-certification-description"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeCertificationDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (editingCertification) {
+                  updateCertificationMutation.mutate({ id: editingCertification.id, data: certificationForm });
+                } else {
+                  createCertificationMutation.mutate(certificationForm);
+                }
+              }}
+              disabled={!certificationForm.name || createCertificationMutation.isPending || updateCertificationMutation.isPending}
+              data-testid="button-save-certification"
+            >
+              {(createCertificationMutation.isPending || updateCertificationMutation.isPending) && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              {editingCertification ? "Save Changes" : "Create Certification"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -3173,6 +4101,141 @@ export default function Settings() {
                 data-testid="switch-shift-template-notify-all"
               />
             </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Repeat</Label>
+                <p className="text-sm text-muted-foreground">
+                  Automatically post shifts from this template on a schedule
+                </p>
+              </div>
+              <Switch
+                checked={shiftTemplateForm.repeats}
+                onCheckedChange={(checked) => setShiftTemplateForm({ ...shiftTemplateForm, repeats: checked })}
+                data-testid="switch-shift-template-repeats"
+              />
+            </div>
+
+            {shiftTemplateForm.repeats && (
+              <div className="space-y-4 rounded-md border p-3">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Frequency</Label>
+                    <Select
+                      value={shiftTemplateForm.frequency}
+                      onValueChange={(value) => setShiftTemplateForm({ ...shiftTemplateForm, frequency: value as RecurrenceRule["frequency"] })}
+                    >
+                      <SelectTrigger data-testid="select-shift-template-frequency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                        <SelectItem value="monthly">Monthly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {shiftTemplateForm.frequency === "weekly" ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="shift-template-interval">Every</Label>
+                      <Select
+                        value={shiftTemplateForm.interval}
+                        onValueChange={(value) => setShiftTemplateForm({ ...shiftTemplateForm, interval: value })}
+                      >
+                        <SelectTrigger id="shift-template-interval" data-testid="select-shift-template-interval">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="1">Week</SelectItem>
+                          <SelectItem value="2">2 weeks</SelectItem>
+                          <SelectItem value="3">3 weeks</SelectItem>
+                          <SelectItem value="4">4 weeks</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label htmlFor="shift-template-week-of-month">Week of Month</Label>
+                      <Select
+                        value={shiftTemplateForm.weekOfMonth}
+                        onValueChange={(value) => setShiftTemplateForm({ ...shiftTemplateForm, weekOfMonth: value })}
+                      >
+                        <SelectTrigger id="shift-template-week-of-month" data-testid="select-shift-template-week-of-month">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="1">1st</SelectItem>
+                          <SelectItem value="2">2nd</SelectItem>
+                          <SelectItem value="3">3rd</SelectItem>
+                          <SelectItem value="4">4th</SelectItem>
+                          <SelectItem value="-1">Last</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>On Days *</Label>
+                  <div className="flex flex-wrap gap-1">
+                    {DAY_LABELS.map((label, day) => (
+                      <Button
+                        key={label}
+                        type="button"
+                        size="sm"
+                        variant={shiftTemplateForm.daysOfWeek.includes(day) ? "default" : "outline"}
+                        onClick={() => toggleShiftTemplateDay(day)}
+                        data-testid={`button-shift-template-day-${day}`}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="shift-template-recurrence-start">Starts *</Label>
+                    <Input
+                      id="shift-template-recurrence-start"
+                      type="date"
+                      value={shiftTemplateForm.recurrenceStartDate}
+                      onChange={(e) => setShiftTemplateForm({ ...shiftTemplateForm, recurrenceStartDate: e.target.value })}
+                      data-testid="input-shift-template-recurrence-start"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="shift-template-recurrence-end">Ends (Optional)</Label>
+                    <Input
+                      id="shift-template-recurrence-end"
+                      type="date"
+                      value={shiftTemplateForm.recurrenceEndDate}
+                      onChange={(e) => setShiftTemplateForm({ ...shiftTemplateForm, recurrenceEndDate: e.target.value })}
+                      data-testid="input-shift-template-recurrence-end"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="shift-template-horizon">Post Shifts Ahead (days)</Label>
+                  <Input
+                    id="shift-template-horizon"
+                    type="number"
+                    min="1"
+                    max="180"
+                    value={shiftTemplateForm.recurrenceHorizonDays}
+                    onChange={(e) => setShiftTemplateForm({ ...shiftTemplateForm, recurrenceHorizonDays: e.target.value })}
+                    className="w-24"
+                    data-testid="input-shift-template-horizon"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Shifts are posted automatically up to this many days in advance.
+                  </p>
+                </div>
+              </div>
+            )}
           </div>
 
           <DialogFooter className="gap-2 sm:gap-0">
@@ -3195,6 +4258,8 @@ export default function Settings() {
                 !shiftTemplateForm.location ||
                 !shiftTemplateForm.startTime ||
                 !shiftTemplateForm.endTime ||
+                (shiftTemplateForm.repeats &&
+                  (shiftTemplateForm.daysOfWeek.length === 0 || !shiftTemplateForm.recurrenceStartDate)) ||
                 createShiftTemplateMutation.isPending ||
                 updateShiftTemplateMutation.isPending
               }
@@ -3306,6 +4371,8 @@ export default function Settings() {
                   <SelectItem value="shift_reminder">Shift Reminder</SelectItem>
                   <SelectItem value="general">General</SelectItem>
                   <SelectItem value="bulk">Bulk Message</SelectItem>
+                  <SelectItem value="certification_expiry">Certification Expiring</SelectItem>
+                  <SelectItem value="certification_expiry_supervisor">Certification Expiring (Supervisor)</SelectItem>
                 </SelectContent>
               </Select>
               <p className="text-xs text-muted-foreground">
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeftRight, CheckCircle, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  formatSwapShift,
+  swapStatusConfig,
+  type ShiftSwapWithDetails,
+} from "@/components/ShiftSwapPanel";
+
+type StatusFilter = "pending_approval" | "open" | "approved" | "all";
+type Decision = "approve" | "deny";
+
+export default function ShiftSwaps() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("pending_approval");
+  const [reviewing, setReviewing] = useState<{ swap: ShiftSwapWithDetails; decision: Decision } | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
+
+  const { data: swaps = [], isLoading } = useQuery<ShiftSwapWithDetails[]>({
+    queryKey: ["/api/swaps", { status: statusFilter }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      const res = await fetch(`/api/swaps?${params.toString()}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch shift swaps");
+      return res.json();
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision, note }: { id: string; decision: Decision; note: string }) => {
+      const response = await apiRequest("POST", `/api/swaps/${id}/${decision}`, { note: note || undefined });
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/swaps"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+      toast({
+        title: variables.decision === "approve" ? "Swap Approved" : "Swap Denied",
+        description: "Both employees will be notified by SMS.",
+      });
+      setReviewing(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to review swap", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/swaps/${id}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/swaps"] });
+      toast({ title: "Swap Cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to cancel swap", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openReview = (swap: ShiftSwapWithDetails, decision: Decision) => {
+    setReviewNote("");
+    setReviewing({ swap, decision });
+  };
+
+  const handleReview = () => {
+    if (!reviewing) return;
+    reviewMutation.mutate({ id: reviewing.swap.id, decision: reviewing.decision, note: reviewNote });
+  };
+
+  return (
+    <div className="p-4 md:p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Shift Swaps</h1>
+        <p className="text-muted-foreground">
+          Shifts employees have offered to coworkers, from the app or by SMS
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ArrowLeftRight className="h-5 w-5" />
+                Swaps
+              </CardTitle>
+              <CardDescription>
+                An accepted swap moves the shift to the coworker once approved
+              </CardDescription>
+            </div>
+            <Tabs value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+              <TabsList>
+                <TabsTrigger value="pending_approval" data-testid="tab-swaps-pending">Awaiting Approval</TabsTrigger>
+                <TabsTrigger value="open" data-testid="tab-swaps-open">Open</TabsTrigger>
+                <TabsTrigger value="approved" data-testid="tab-swaps-approved">Approved</TabsTrigger>
+                <TabsTrigger value="all" data-testid="tab-swaps-all">All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : swaps.length === 0 ? (
+            <div className="text-center py-12">
+              <ArrowLeftRight className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+              <p className="text-muted-foreground">
+                {statusFilter === "pending_approval" ? "No swaps waiting for approval." : "No shift swaps found."}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {swaps.map((swap) => {
+                const status = swapStatusConfig[swap.status] || swapStatusConfig.open;
+                const active = swap.status === "open" || swap.status === "pending_approval";
+                return (
+                  <div
+                    key={swap.id}
+                    className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 p-4 rounded-lg border"
+                    data-testid={`swap-row-${swap.id}`}
+                  >
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{swap.offeredByName}</span>
+                        <ArrowLeftRight className="h-4 w-4 text-muted-foreground" />
+                        <span className="font-medium">
+                          {swap.acceptedByName || swap.targetEmployeeName || "Any eligible coworker"}
+                        </span>
+                        <Badge className={status.className}>{status.label}</Badge>
+                      </div>
+                      <p className="text-sm">{formatSwapShift(swap.shift)}</p>
+                      {swap.note && <p className="text-sm text-muted-foreground">{swap.note}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        Offered {format(new Date(swap.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                        {swap.acceptedAt && ` · Accepted ${format(new Date(swap.acceptedAt), "MMM d 'at' h:mm a")}`}
+                        {swap.reviewedByName && swap.resolvedAt &&
+                          ` · Reviewed by ${swap.reviewedByName} ${format(new Date(swap.resolvedAt), "MMM d")}`}
+                      </p>
+                      {swap.reviewNote && (
+                        <p className="text-xs text-muted-foreground">Note: {swap.reviewNote}</p>
+                      )}
+                    </div>
+                    {active && (
+                      <div className="flex items-center gap-2 shrink-0">
+                        {swap.status === "pending_approval" ? (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => openReview(swap, "deny")}
+                              data-testid={`button-deny-swap-${swap.id}`}
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              Deny
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() => openReview(swap, "approve")}
+                              data-testid={`button-approve-swap-${swap.id}`}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                          </>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => cancelMutation.mutate(swap.id)}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-swap-${swap.id}`}
+                          >
+                            Cancel Offer
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {reviewing?.decision === "approve" ? "Approve Swap" : "Deny Swap"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {reviewing && `${reviewing.swap.offeredByName} to ${reviewing.swap.acceptedByName}: ${formatSwapShift(reviewing.swap.shift)}`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="swap-review-note">Note to employees (optional)</Label>
+            <Textarea
+              id="swap-review-note"
+              value={reviewNote}
+              onChange={(e) => setReviewNote(e.target.value)}
+              rows={2}
+              data-testid="input-swap-review-note"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleReview}
+              disabled={reviewMutation.isPending}
+              data-testid="button-confirm-swap-review"
+            >
+              {reviewing?.decision === "approve" ? "Approve" : "Deny"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,8 +1,7 @@
-import { useState, useMemo } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState, useMemo, useEffect } from "react";
+import { useQuery, useInfiniteQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useShiftWebSocket } from "@/hooks/use-websocket";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -18,12 +17,16 @@ import { BulkActionToolbar } from "@/components/BulkActionToolbar";
 import { WeekGridView } from "@/components/WeekGridView";
 import { Plus, Search, Filter, Loader2, Calendar, RefreshCw, List, CalendarDays } from "lucide-react";
 import { Link, useLocation } from "wouter";
-import { startOfWeek, addWeeks, format, isSameDay } from "date-fns";
-import { transformShiftsToCards, type ShiftWithDetails } from "@/lib/shiftUtils";
+import { startOfWeek, endOfWeek, addWeeks, format, isSameDay } from "date-fns";
+import { transformShiftsToCards, shiftQueryString, type ShiftWithDetails } from "@/lib/shiftUtils";
+import type { ShiftPage } from "@shared/shiftQuery";
 import type { Area, Employee } from "@shared/schema";
 import type { InterestedEmployee } from "@/components/ShiftDetailModal";
+import type { SeriesScope } from "@shared/recurrence";
+import type { EscalationPolicy } from "@shared/escalation";
 
 const statuses = ["All Status", "Available", "Claimed", "Expired"];
+const PAGE_SIZE = 60;
 const sortOptions = [
   { value: "date-asc", label: "Soonest Coverage" },
   { value: "date-desc", label: "Latest Coverage" },
@@ -88,6 +91,9 @@ interface ShiftDetailResponse {
   status: "available" | "claimed" | "expired";
   assignedEmployeeId: string | null;
   bonusAmount: number | null;
+  templateId: string | null;
+  escalationPolicy: EscalationPolicy | null;
+  escalationStage: number | null;
   createdAt: string;
   area: Area | null;
   assignedEmployee: Employee | null;
@@ -125,23 +131,69 @@ export default function Shifts() {
     setStoredPrefs({ areaFilter, statusFilter, sortBy: value });
   };
 
-  // Subscribe to real-time shift updates
-  useShiftWebSocket();
+  // Search is sent to the server once typing pauses
+  const [debouncedSearch, setDebouncedSearch] = useState(search);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
 
   // Include past shifts when filtering for expired or viewing all statuses
   const includePast = statusFilter === "Expired" || statusFilter === "All Status";
 
-  // Fetch shifts and areas data
-  const { data: shifts = [], isLoading: loadingShifts } = useQuery<ShiftWithDetails[]>({
-    queryKey: ["/api/shifts", { includePast }],
+  // Filtering and sorting happen on the server
+  const serverFilters = {
+    areaId: areaFilter !== "all" ? areaFilter : undefined,
+    status: statusFilter !== "All Status" ? statusFilter.toLowerCase() : undefined,
+    search: debouncedSearch || undefined,
+    sort: sortBy,
+  };
+  const hasFilters = !!serverFilters.areaId || !!serverFilters.status || !!serverFilters.search;
+
+  // List view pages through every matching shift
+  const {
+    data: shiftPages,
+    isLoading: loadingPages,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<ShiftPage>({
+    queryKey: ["/api/shifts", "page", { ...serverFilters, includePast }],
+    queryFn: async ({ pageParam }) => {
+      const query = shiftQueryString({ ...serverFilters, includePast, limit: PAGE_SIZE, cursor: pageParam as string | undefined });
+      const response = await fetch(`/api/shifts?${query}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch shifts");
+      return response.json();
+    },
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    placeholderData: keepPreviousData,
+    enabled: viewMode === "list",
+  });
+
+  // Calendar view loads the week on screen, past days included
+  const weekRange = {
+    from: format(weekStart, "yyyy-MM-dd"),
+    to: format(endOfWeek(weekStart, { weekStartsOn: 0 }), "yyyy-MM-dd"),
+  };
+  const { data: weekShifts = [], isLoading: loadingWeek } = useQuery<ShiftWithDetails[]>({
+    queryKey: ["/api/shifts", "week", { ...serverFilters, ...weekRange }],
     queryFn: async () => {
-      const url = includePast ? "/api/shifts?includePast=true" : "/api/shifts";
-      const response = await fetch(url, { credentials: "include" });
+      const query = shiftQueryString({ ...serverFilters, ...weekRange, includePast: true });
+      const response = await fetch(`/api/shifts?${query}`, { credentials: "include" });
       if (!response.ok) throw new Error("Failed to fetch shifts");
       return response.json();
     },
+    placeholderData: keepPreviousData,
+    enabled: viewMode === "calendar",
   });
 
+  const shifts = useMemo(
+    () => viewMode === "list" ? (shiftPages?.pages.flatMap(page => page.shifts) ?? []) : weekShifts,
+    [viewMode, shiftPages, weekShifts]
+  );
+  const totalShifts = viewMode === "list" ? shiftPages?.pages[0]?.counts?.total : undefined;
+
   const { data: areas = [], isLoading: loadingAreas } = useQuery<Area[]>({
     queryKey: ["/api/areas"],
   });
@@ -152,62 +204,23 @@ export default function Shifts() {
     enabled: !!selectedShiftId && modalOpen,
   });
 
-  const isLoading = loadingShifts || loadingAreas;
+  const isLoading = (viewMode === "list" ? loadingPages : loadingWeek) || loadingAreas;
 
   // Transform shifts to ShiftCardProps format using shared utility
   const transformedShifts = useMemo(() => {
     return transformShiftsToCards(shifts);
   }, [shifts]);
 
-  // Filter and sort shifts based on search, area, status, date, and sort order
+  // Narrow the week to the day picked in calendar view
   const filteredShifts = useMemo(() => {
-    let result = transformedShifts.filter((shift) => {
-      const areaName = shift.areaName || "";
-      const matchesSearch = shift.position.toLowerCase().includes(search.toLowerCase()) ||
-                            areaName.toLowerCase().includes(search.toLowerCase());
-      const matchesArea = areaFilter === "all" || shift.area?.id === areaFilter;
-      const matchesStatus = statusFilter === "All Status" || shift.status === statusFilter.toLowerCase();
-      
-      // Date filter when a day is selected in calendar view
-      let matchesDate = true;
-      if (selectedDate) {
-        const shiftDateStr = shift.date;
-        const selectedDateStr = format(selectedDate, "yyyy-MM-dd");
-        if (shiftDateStr.includes("-")) {
-          matchesDate = shiftDateStr === selectedDateStr;
-        } else {
-          try {
-            matchesDate = isSameDay(new Date(shiftDateStr), selectedDate);
-          } catch {
-            matchesDate = false;
-          }
-        }
-      }
-      
-      return matchesSearch && matchesArea && matchesStatus && matchesDate;
-    });
-
-    // Apply sorting
-    result = [...result].sort((a, b) => {
-      switch (sortBy) {
-        case "oldest":
-          return new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime();
-        case "newest":
-          return new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime();
-        case "date-asc":
-          return a.date.localeCompare(b.date);
-        case "date-desc":
-          return b.date.localeCompare(a.date);
-        default:
-          return 0;
-      }
-    });
-
-    return result;
-  }, [transformedShifts, search, areaFilter, statusFilter, selectedDate, sortBy]);
+    if (!selectedDate) return transformedShifts;
+    const selectedDateStr = format(selectedDate, "yyyy-MM-dd");
+    return transformedShifts.filter((shift) => shift.date === selectedDateStr);
+  }, [transformedShifts, selectedDate]);
 
   const handleWeekChange = (direction: "prev" | "next") => {
     setWeekStart(prev => addWeeks(prev, direction === "next" ? 1 : -1));
+    setSelectedDate(null);
   };
 
   const handleDateSelect = (date: Date) => {
@@ -284,11 +297,12 @@ export default function Shifts() {
   };
 
   const assignMutation = useMutation({
-    mutationFn: async ({ shiftId, employeeId, sendNotification }: { shiftId: string; employeeId: string; sendNotification: boolean }) => {
+    mutationFn: async ({ shiftId, employeeId, sendNotification, isForceAssignment }: { shiftId: string; employeeId: string; sendNotification: boolean; isForceAssignment?: boolean }) => {
       console.log("Assigning shift:", { shiftId, employeeId, sendNotification });
       const response = await apiRequest("POST", `/api/shifts/${shiftId}/assign`, {
         employeeId,
         sendNotification,
+        isForceAssignment,
       });
       const data = await response.json();
       console.log("Assignment response:", data);
@@ -339,15 +353,44 @@ export default function Shifts() {
     },
   });
 
-  const deleteMutation = useMutation({
+  const calloutMutation = useMutation({
     mutationFn: async (shiftId: string) => {
+      const response = await apiRequest("POST", `/api/shifts/${shiftId}/callout`);
+      return response.json();
+    },
+    onSuccess: (data: { pollCount: number }) => {
+      toast({
+        title: "Callout Poll Sent",
+        description: data.pollCount > 0
+          ? `Asked ${data.pollCount} employee(s) if they can cover this shift.`
+          : "No eligible employees found to poll.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Callout Poll Failed",
+        description: error.message || "Failed to send the callout poll. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ shiftId, scope }: { shiftId: string; scope?: SeriesScope }) => {
+      if (scope) {
+        const response = await apiRequest("POST", `/api/shifts/${shiftId}/series/cancel`, { scope });
+        return response.json() as Promise<{ cancelledCount: number }>;
+      }
       await apiRequest("DELETE", `/api/shifts/${shiftId}`);
+      return { cancelledCount: 1 };
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
       toast({
         title: "Shift Removed",
-        description: "The shift has been successfully removed.",
+        description: data.cancelledCount > 1
+          ? `${data.cancelledCount} shifts in the series have been removed.`
+          : "The shift has been successfully removed.",
       });
       setModalOpen(false);
       setSelectedShiftId(null);
@@ -387,24 +430,24 @@ export default function Shifts() {
     },
   });
 
-  const handleAssign = (shiftId: string, employeeId: string, sendNotification: boolean) => {
-    assignMutation.mutate({ shiftId, employeeId, sendNotification });
+  const handleAssign = (shiftId: string, employeeId: string, sendNotification: boolean, isForceAssignment?: boolean) => {
+    assignMutation.mutate({ shiftId, employeeId, sendNotification, isForceAssignment });
   };
   
   const handleRepost = (shiftId: string, bonusAmount: number | null) => {
     repostMutation.mutate({ shiftId, bonusAmount });
   };
   
-  const handleDelete = (shiftId: string) => {
-    deleteMutation.mutate(shiftId);
+  const handleDelete = (shiftId: string, scope?: SeriesScope) => {
+    deleteMutation.mutate({ shiftId, scope });
   };
   
   const handleUnassign = (shiftId: string, sendNotification: boolean) => {
     unassignMutation.mutate({ shiftId, sendNotification });
   };
   
-  const handleEdit = (shiftId: string) => {
-    setLocation(`/shifts/${shiftId}/edit`);
+  const handleEdit = (shiftId: string, scope?: SeriesScope) => {
+    setLocation(scope === "following" ? `/shifts/${shiftId}/edit?scope=following` : `/shifts/${shiftId}/edit`);
   };
 
   const handleSelectionChange = (id: string, selected: boolean) => {
@@ -521,9 +564,9 @@ export default function Shifts() {
         <div>
           <h1 className="text-3xl font-semibold">
             Open Shifts
-            {filteredShifts.length > 0 && (
+            {(totalShifts ?? filteredShifts.length) > 0 && (
               <span className="ml-2 text-lg font-normal text-muted-foreground">
-                ({filteredShifts.length})
+                ({totalShifts ?? filteredShifts.length})
               </span>
             )}
           </h1>
@@ -703,8 +746,21 @@ export default function Shifts() {
                 </div>
               ));
           })()}
+          {viewMode === "list" && hasNextPage && (
+            <div className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                data-testid="button-load-more-shifts"
+              >
+                {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load More Shifts
+              </Button>
+            </div>
+          )}
         </div>
-      ) : shifts.length === 0 ? (
+      ) : !hasFilters && !selectedDate ? (
         <div className="text-center py-16 border-2 border-dashed rounded-lg">
           <Calendar className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
           <h3 className="text-lg font-medium mb-2">No shifts available</h3>
@@ -762,6 +818,9 @@ export default function Shifts() {
             interestedEmployees: shiftDetail.interestedEmployees,
             assignedEmployee: shiftDetail.assignedEmployee,
             bonusAmount: shiftDetail.bonusAmount,
+            templateId: shiftDetail.templateId,
+            escalationPolicy: shiftDetail.escalationPolicy,
+            escalationStage: shiftDetail.escalationStage,
           }}
           isAdmin={true}
           onShowInterest={handleShowInterest}
@@ -769,6 +828,7 @@ export default function Shifts() {
           onMessageEmployee={(id) => console.log("Message:", id)}
           onEdit={handleEdit}
           onRepost={handleRepost}
+          onCalloutPoll={(shiftId) => calloutMutation.mutate(shiftId)}
           onDelete={handleDelete}
           onUnassign={handleUnassign}
         />
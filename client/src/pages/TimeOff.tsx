@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, CalendarOff, CheckCircle, MessageSquare, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  formatTimeOffRange,
+  timeOffStatusConfig,
+  type TimeOffRequestWithDetails,
+} from "@/components/TimeOffRequestPanel";
+
+type StatusFilter = "pending" | "approved" | "denied" | "all";
+type Decision = "approve" | "deny";
+
+export default function TimeOff() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("pending");
+  const [reviewing, setReviewing] = useState<{ request: TimeOffRequestWithDetails; decision: Decision } | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
+
+  const { data: requests = [], isLoading } = useQuery<TimeOffRequestWithDetails[]>({
+    queryKey: ["/api/time-off", { status: statusFilter }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      const res = await fetch(`/api/time-off?${params.toString()}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch time-off requests");
+      return res.json();
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision, note }: { id: string; decision: Decision; note: string }) => {
+      const response = await apiRequest("POST", `/api/time-off/${id}/${decision}`, { note: note || undefined });
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/time-off"] });
+      toast({
+        title: variables.decision === "approve" ? "Time Off Approved" : "Time Off Denied",
+        description: "The employee will be notified by SMS.",
+      });
+      setReviewing(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to review request", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openReview = (request: TimeOffRequestWithDetails, decision: Decision) => {
+    setReviewNote("");
+    setReviewing({ request, decision });
+  };
+
+  const handleReview = () => {
+    if (!reviewing) return;
+    reviewMutation.mutate({ id: reviewing.request.id, decision: reviewing.decision, note: reviewNote });
+  };
+
+  return (
+    <div className="p-4 md:p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Time Off</h1>
+        <p className="text-muted-foreground">
+          Review time-off requests submitted from the app or by SMS
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarOff className="h-5 w-5" />
+                Requests
+              </CardTitle>
+              <CardDescription>
+                Approved time off blocks assignment and shift notifications for those days
+              </CardDescription>
+            </div>
+            <Tabs value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+              <TabsList>
+                <TabsTrigger value="pending" data-testid="tab-time-off-pending">Pending</TabsTrigger>
+                <TabsTrigger value="approved" data-testid="tab-time-off-approved">Approved</TabsTrigger>
+                <TabsTrigger value="denied" data-testid="tab-time-off-denied">Denied</TabsTrigger>
+                <TabsTrigger value="all" data-testid="tab-time-off-all">All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : requests.length === 0 ? (
+            <div className="text-center py-12">
+              <CalendarOff className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+              <p className="text-muted-foreground">
+                {statusFilter === "pending" ? "No requests waiting for review." : "No time-off requests found."}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {requests.map((request) => {
+                const status = timeOffStatusConfig[request.status] || timeOffStatusConfig.pending;
+                return (
+                  <div
+                    key={request.id}
+                    className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 p-4 rounded-lg border"
+                    data-testid={`time-off-row-${request.id}`}
+                  >
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{request.employeeName}</span>
+                        <Badge className={status.className}>{status.label}</Badge>
+                        {request.source === "sms" && (
+                          <Badge variant="outline" className="gap-1 text-xs">
+                            <MessageSquare className="h-3 w-3" />
+                            SMS
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm">{formatTimeOffRange(request.startDate, request.endDate)}</p>
+                      {request.reason && <p className="text-sm text-muted-foreground">{request.reason}</p>}
+                      {request.conflictingShifts.length > 0 && (
+                        <div className="space-y-0.5">
+                          {request.conflictingShifts.map((shift) => (
+                            <p
+                              key={shift.id}
+                              className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400"
+                            >
+                              <AlertTriangle className="h-3 w-3 shrink-0" />
+                              Assigned {shift.date} {shift.startTime}-{shift.endTime} at {shift.location}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Requested {format(new Date(request.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                        {request.reviewedByName && request.reviewedAt &&
+                          ` · Reviewed by ${request.reviewedByName} ${format(new Date(request.reviewedAt), "MMM d")}`}
+                      </p>
+                      {request.reviewNote && (
+                        <p className="text-xs text-muted-foreground">Note: {request.reviewNote}</p>
+                      )}
+                    </div>
+                    {request.status === "pending" && (
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openReview(request, "deny")}
+                          data-testid={`button-deny-time-off-${request.id}`}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Deny
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => openReview(request, "approve")}
+                          data-testid={`button-approve-time-off-${request.id}`}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {reviewing?.decision === "approve" ? "Approve Time Off" : "Deny Time Off"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {reviewing && `${reviewing.request.employeeName}: ${formatTimeOffRange(reviewing.request.startDate, reviewing.request.endDate)}`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {reviewing?.decision === "approve" && reviewing.request.conflictingShifts.length > 0 && (
+            <p className="text-sm text-amber-600 dark:text-amber-400">
+              This employee is still assigned to {reviewing.request.conflictingShifts.length} shift(s) during this time.
+              Unassign them separately if they need to be covered.
+            </p>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="time-off-review-note">Note to employee (optional)</Label>
+            <Textarea
+              id="time-off-review-note"
+              value={reviewNote}
+              onChange={(e) => setReviewNote(e.target.value)}
+              rows={2}
+              data-testid="input-time-off-review-note"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleReview}
+              disabled={reviewMutation.isPending}
+              data-testid="button-confirm-time-off-review"
+            >
+              {reviewing?.decision === "approve" ? "Approve" : "Deny"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,75 +1,112 @@
 import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { TrainingCard, type TrainingCardProps } from "@/components/TrainingCard";
-import { Plus, Search } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TrainingCard } from "@/components/TrainingCard";
+import { TrainingDetailDialog, formatSessionDate, formatSessionTime } from "@/components/TrainingDetailDialog";
+import { Loader2, Plus, Search } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions, PERMISSIONS } from "@/hooks/use-permissions";
+import {
+  TRAINING_TYPES,
+  TRAINING_TYPE_LABELS,
+  formatTrainingDuration,
+  getSessionStart,
+  type TrainingSummary,
+  type TrainingType,
+} from "@shared/training";
 
-// todo: remove mock functionality
-const mockTrainings: TrainingCardProps[] = [
-  {
-    id: "1",
-    title: "CPR Recertification",
-    description: "Annual CPR and basic life support recertification course. All clinical staff must complete this training.",
-    date: "Dec 20, 2025",
-    time: "09:00 AM",
-    duration: "4 hours",
-    attendees: 18,
-    maxAttendees: 25,
-    isRequired: true,
-  },
-  {
-    id: "2",
-    title: "HIPAA Compliance Update",
-    description: "Annual HIPAA compliance training covering patient privacy regulations and best practices.",
-    date: "Dec 22, 2025",
-    time: "02:00 PM",
-    duration: "2 hours",
-    attendees: 42,
-    maxAttendees: 50,
-    isRequired: true,
-  },
-  {
-    id: "3",
-    title: "New EMR System Training",
-    description: "Introduction to the new electronic medical records system. Hands-on training session.",
-    date: "Jan 5, 2026",
-    time: "10:00 AM",
-    duration: "3 hours",
-    attendees: 8,
-    maxAttendees: 30,
-    isRequired: false,
-  },
-  {
-    id: "4",
-    title: "Workplace Safety Refresher",
-    description: "Review of workplace safety protocols including fire safety, hazard identification, and emergency procedures.",
-    date: "Jan 10, 2026",
-    time: "01:00 PM",
-    duration: "2 hours",
-    attendees: 15,
-    maxAttendees: 40,
-    isRequired: false,
-  },
-  {
-    id: "5",
-    title: "Customer Service Excellence",
-    description: "Improve patient interaction skills and learn techniques for handling difficult situations.",
-    date: "Jan 15, 2026",
-    time: "09:00 AM",
-    duration: "3 hours",
-    attendees: 25,
-    maxAttendees: 25,
-    isRequired: false,
-  },
-];
+const EMPTY_TRAINING = { title: "", description: "", type: "in_person" as TrainingType, dueDate: "", required: false };
 
 export default function Training() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { hasPermission } = usePermissions();
+  const canManage = hasPermission(PERMISSIONS.TRAINING_MANAGE);
   const [search, setSearch] = useState("");
+  const [createOpen, setCreateOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_TRAINING);
+  const [detailsId, setDetailsId] = useState<string | null>(null);
 
-  const filteredTrainings = mockTrainings.filter((training) =>
+  const { data: trainings = [], isLoading } = useQuery<TrainingSummary[]>({
+    queryKey: ["/api/trainings"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof EMPTY_TRAINING) => {
+      const response = await apiRequest("POST", "/api/trainings", {
+        title: data.title,
+        description: data.description || null,
+        type: data.type,
+        dueDate: data.dueDate || null,
+        required: data.required,
+      });
+      return response.json() as Promise<TrainingSummary>;
+    },
+    onSuccess: (training) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trainings"] });
+      setCreateOpen(false);
+      setForm(EMPTY_TRAINING);
+      setDetailsId(training.id);
+      toast({ title: "Training Created", description: "Schedule sessions and assign employees next." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create training", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const remindMutation = useMutation({
+    mutationFn: async (trainingId: string) => {
+      const response = await apiRequest("POST", `/api/trainings/${trainingId}/remind`);
+      return response.json() as Promise<{ queued: number; skipped: number }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.queued > 0 ? `Reminder sent to ${result.queued} employee${result.queued !== 1 ? "s" : ""}` : "No reminders sent",
+        description: result.skipped > 0 ? `${result.skipped} skipped - inactive or opted out of SMS` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to send reminders", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rsvpMutation = useMutation({
+    mutationFn: async ({ sessionId, status }: { sessionId: string; status: "attending" | "declined" }) => {
+      return apiRequest("POST", `/api/training-sessions/${sessionId}/rsvp`, { status });
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trainings"] });
+      toast({ title: status === "attending" ? "You're signed up" : "RSVP updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to RSVP", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const now = new Date();
+  const nextSession = (training: TrainingSummary) => training.sessions.find(s => getSessionStart(s) > now);
+
+  const filteredTrainings = trainings.filter((training) =>
     training.title.toLowerCase().includes(search.toLowerCase()) ||
-    training.description.toLowerCase().includes(search.toLowerCase())
+    (training.description ?? "").toLowerCase().includes(search.toLowerCase())
   );
+  const detailsTraining = trainings.find(t => t.id === detailsId) ?? null;
+  const canRsvp = !!user?.employeeId;
 
   return (
     <div className="p-6 space-y-6" data-testid="page-training">
@@ -78,10 +115,12 @@ export default function Training() {
           <h1 className="text-3xl font-semibold">Training</h1>
           <p className="text-muted-foreground">Upcoming training sessions and certifications</p>
         </div>
-        <Button data-testid="button-new-training">
-          <Plus className="h-4 w-4 mr-2" />
-          Schedule Training
-        </Button>
+        {canManage && (
+          <Button onClick={() => setCreateOpen(true)} data-testid="button-new-training">
+            <Plus className="h-4 w-4 mr-2" />
+            Schedule Training
+          </Button>
+        )}
       </div>
 
       <div className="relative max-w-sm">
@@ -95,22 +134,131 @@ export default function Training() {
         />
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {filteredTrainings.map((training) => (
-          <TrainingCard
-            key={training.id}
-            {...training}
-            onNotify={(id) => console.log("Send reminder for training:", id)}
-            onViewDetails={(id) => console.log("View training details:", id)}
-          />
-        ))}
-      </div>
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {filteredTrainings.map((training) => {
+            const session = nextSession(training);
+            return (
+              <TrainingCard
+                key={training.id}
+                id={training.id}
+                title={training.title}
+                description={training.description ?? ""}
+                date={session && formatSessionDate(session.date)}
+                time={session && formatSessionTime(session.startTime)}
+                duration={session && formatTrainingDuration(session.durationMinutes)}
+                attendees={session?.attending}
+                maxAttendees={session?.maxAttendees}
+                isRequired={training.required}
+                typeLabel={TRAINING_TYPE_LABELS[training.type as TrainingType] ?? training.type}
+                dueDate={training.dueDate ? formatSessionDate(training.dueDate) : undefined}
+                completedCount={canManage ? training.completedCount : undefined}
+                totalAssigned={canManage ? training.totalAssigned : undefined}
+                isCompleted={!!training.myAssignment?.completedAt}
+                rsvp={session?.myRsvp}
+                onRsvp={canRsvp && session ? (_, status) => rsvpMutation.mutate({ sessionId: session.id, status }) : undefined}
+                onNotify={canManage ? (id) => remindMutation.mutate(id) : undefined}
+                onViewDetails={setDetailsId}
+              />
+            );
+          })}
+        </div>
+      )}
 
-      {filteredTrainings.length === 0 && (
+      {!isLoading && filteredTrainings.length === 0 && (
         <div className="text-center py-12">
           <p className="text-muted-foreground">No training sessions found.</p>
         </div>
       )}
+
+      <TrainingDetailDialog
+        training={detailsTraining}
+        canManage={canManage}
+        onOpenChange={(open) => { if (!open) setDetailsId(null); }}
+        onRsvp={canRsvp ? (sessionId, status) => rsvpMutation.mutate({ sessionId, status }) : undefined}
+      />
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent data-testid="dialog-new-training">
+          <DialogHeader>
+            <DialogTitle>Schedule Training</DialogTitle>
+            <DialogDescription>
+              Create the course, then add sessions and assign employees from its details.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="input-training-title">Title</Label>
+              <Input
+                id="input-training-title"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                data-testid="input-training-title"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="input-training-description">Description</Label>
+              <Textarea
+                id="input-training-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                data-testid="input-training-description"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={form.type} onValueChange={(type) => setForm({ ...form, type: type as TrainingType })}>
+                  <SelectTrigger data-testid="select-training-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRAINING_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{TRAINING_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="input-training-due">Due date</Label>
+                <Input
+                  id="input-training-due"
+                  type="date"
+                  value={form.dueDate}
+                  onChange={(e) => setForm({ ...form, dueDate: e.target.value })}
+                  data-testid="input-training-due"
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="switch-training-required">Required for assigned employees</Label>
+              <Switch
+                id="switch-training-required"
+                checked={form.required}
+                onCheckedChange={(required) => setForm({ ...form, required })}
+                data-testid="switch-training-required"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate(form)}
+              disabled={!form.title.trim() || createMutation.isPending}
+              data-testid="button-create-training"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -6,36 +6,77 @@ export type AuditAction =
   | "role_updated"
   | "role_deleted"
   | "shift_created"
+  | "shift_updated"
   | "shift_deleted"
   | "shift_assigned"
   | "shift_unassigned"
   | "force_assignment"
+  | "shift_escalated"
+  | "shift_auto_awarded"
+  // Recurring shift series actions
+  | "shift_series_generated"
+  | "shift_series_updated"
+  | "shift_series_cancelled"
   | "user_created"
   | "user_password_reset"
   | "employee_created"
   | "employee_updated"
   | "employee_deleted"
+  | "employee_availability_updated"
+  // Time-off actions
+  | "time_off_requested"
+  | "time_off_approved"
+  | "time_off_denied"
+  | "time_off_cancelled"
+  | "shift_swap_requested"
+  | "shift_swap_accepted"
+  | "shift_swap_approved"
+  | "shift_swap_denied"
+  | "shift_swap_cancelled"
   | "area_created"
   | "area_updated"
   | "area_deleted"
   | "position_created"
   | "position_updated"
   | "position_deleted"
+  // Certification actions
+  | "certification_added"
+  | "certification_updated"
+  | "certification_removed"
+  | "certification_expiry_warning"
+  // Training actions
+  | "training_created"
+  | "training_deleted"
+  | "training_assigned"
+  | "training_unassigned"
+  | "training_completed"
+  | "training_reminder_sent"
+  // Report actions
+  | "report_exported"
+  | "report_snapshot_created"
+  | "report_snapshot_deleted"
   // SMS actions
   | "sms_sent"
   | "sms_bulk_sent"
+  | "sms_scheduled"
+  | "sms_schedule_updated"
+  | "sms_schedule_cancelled"
   | "sms_delivered"
   | "sms_failed"
   | "sms_inbound"
   | "sms_opt_in"
   | "sms_opt_out"
+  | "sms_consent_exported"
   // SMS shift interest actions
   | "shift_interest_via_sms"
   | "shift_interest_declined_via_sms"
   | "shift_confirmed_via_sms"
+  | "shift_confirmation_blocked"
   | "shift_interest_cancelled_via_sms"
   | "shift_interest_withdrawn_via_sms"
   | "shift_cancelled_via_sms"
+  | "callout_poll_sent"
+  | "callout_poll_answered"
   | "sms_test"
   | "setting_updated"
   // RingCentral configuration actions
@@ -44,7 +85,7 @@ export type AuditAction =
   | "ringcentral_webhook_created"
   | "ringcentral_webhook_deleted";
 
-export type TargetType = "role" | "shift" | "user" | "employee" | "area" | "position" | "message" | "setting" | "sms_provider";
+export type TargetType = "role" | "shift" | "user" | "employee" | "area" | "position" | "message" | "setting" | "sms_provider" | "template" | "time_off" | "training" | "report";
 
 interface AuditLogParams {
   action: AuditAction;
@@ -1,6 +1,6 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
@@ -29,7 +29,56 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+/**
+ * The signed-in user with their role's permissions and the areas of their linked employee.
+ * Returns null if the user no longer exists or their employee was deleted, ending their sessions.
+ */
+export async function loadAuthUser(id: string): Promise<AuthUser | null> {
+  const user = await storage.getUser(id);
+  if (!user) {
+    return null;
+  }
+
+  // Check if linked employee is deleted (invalidate existing sessions)
+  if (user.employeeId) {
+    const employee = await storage.getEmployee(user.employeeId);
+    if (employee && employee.status === 'deleted') {
+      return null;
+    }
+  }
+
+  // Get role permissions
+  let permissions: string[] = [];
+  if (user.roleId) {
+    const role = await storage.getRole(user.roleId);
+    if (role) {
+      permissions = role.permissions || [];
+    }
+  }
+
+  // Get employee area assignments
+  let areaIds: string[] = [];
+  let employeeName: string | undefined;
+  if (user.employeeId) {
+    const areas = await storage.getEmployeeAreas(user.employeeId);
+    areaIds = areas.map(a => a.id);
+    const employee = await storage.getEmployee(user.employeeId);
+    employeeName = employee?.name;
+  }
+
+  return {
+    ...user,
+    permissions,
+    areaIds,
+    employeeName,
+  };
+}
+
+/**
+ * Set up sessions, passport and the auth routes
+ * @returns The session middleware, for reading the session of WebSocket upgrade requests
+ */
+export function setupAuth(app: Express): RequestHandler {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "shift_connect_secret_key",
     resave: false,
@@ -41,7 +90,8 @@ export function setupAuth(app: Express) {
     app.set("trust proxy", 1);
   }
 
-  app.use(session(sessionSettings));
+  const sessionMiddleware = session(sessionSettings);
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -67,46 +117,8 @@ export function setupAuth(app: Express) {
   passport.serializeUser((user, done) => done(null, (user as SelectUser).id));
   passport.deserializeUser(async (id: string, done) => {
     try {
-      const user = await storage.getUser(id);
-      if (!user) {
-        return done(null, false);
-      }
-      
-      // Check if linked employee is deleted (invalidate existing sessions)
-      if (user.employeeId) {
-        const employee = await storage.getEmployee(user.employeeId);
-        if (employee && employee.status === 'deleted') {
-          return done(null, false);
-        }
-      }
-      
-      // Get role permissions
-      let permissions: string[] = [];
-      if (user.roleId) {
-        const role = await storage.getRole(user.roleId);
-        if (role) {
-          permissions = role.permissions || [];
-        }
-      }
-      
-      // Get employee area assignments
-      let areaIds: string[] = [];
-      let employeeName: string | undefined;
-      if (user.employeeId) {
-        const areas = await storage.getEmployeeAreas(user.employeeId);
-        areaIds = areas.map(a => a.id);
-        const employee = await storage.getEmployee(user.employeeId);
-        employeeName = employee?.name;
-      }
-      
-      const authUser: AuthUser = {
-        ...user,
-        permissions,
-        areaIds,
-        employeeName,
-      };
-      
-      done(null, authUser);
+      const authUser = await loadAuthUser(id);
+      done(null, authUser ?? false);
     } catch (error) {
       done(error, null);
     }
@@ -134,4 +146,6 @@ export function setupAuth(app: Express) {
     const { password, ...safeUser } = user;
     res.json(safeUser);
   });
+
+  return sessionMiddleware;
 }
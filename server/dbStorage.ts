@@ -1,5 +1,6 @@
 import { db } from "./db";
-import { eq, and, inArray, desc, sql, gte } from "drizzle-orm";
+import { addDays } from "@shared/recurrence";
+import { eq, and, or, inArray, desc, sql, gte, lte, lt, asc, ilike, isNull, type SQL } from "drizzle-orm";
 import {
   type User, type InsertUser,
   type Role, type InsertRole,
@@ -7,19 +8,43 @@ import {
   type Position, type InsertPosition,
   type Employee, type InsertEmployee,
   type EmployeeArea, type InsertEmployeeArea,
+  type Certification, type InsertCertification,
+  type PositionCertification,
+  type EmployeeCertification, type InsertEmployeeCertification,
+  type EmployeeAvailability, type InsertEmployeeAvailability,
+  type TimeOffRequest, type InsertTimeOffRequest,
   type Shift, type InsertShift,
   type ShiftInterest, type InsertShiftInterest,
+  type ShiftSwap, type InsertShiftSwap,
+  type ShiftOffer, type InsertShiftOffer,
   type Message, type InsertMessage,
+  type MessageAttachment, type InsertMessageAttachment,
+  type SmsConversation, type InsertSmsConversation,
+  type SmsConsentEvent, type InsertSmsConsentEvent,
   type Training, type InsertTraining,
+  type TrainingSession, type InsertTrainingSession,
+  type TrainingAssignment, type InsertTrainingAssignment,
+  type TrainingRsvp, type InsertTrainingRsvp,
+  type ReportSnapshot, type InsertReportSnapshot,
   type AuditLog, type InsertAuditLog,
   type OrganizationSetting,
   type SmsTemplate, type InsertSmsTemplate,
   type ShiftTemplate, type InsertShiftTemplate,
-  users, roles, areas, positions, employees, employeeAreas,
-  shifts, shiftInterests, messages, trainings, auditLogs,
+  users, roles, areas, positions, employees, employeeAreas, employeeAvailability, timeOffRequests,
+  certifications, positionCertifications, employeeCertifications,
+  shifts, shiftInterests, shiftSwaps, shiftOffers, messages, messageAttachments, smsConversations, smsConsentEvents, trainings, auditLogs,
+  trainingSessions, trainingAssignments, trainingRsvps, reportSnapshots,
   organizationSettings, smsTemplates, shiftTemplates,
 } from "@shared/schema";
 import { ROLE_PERMISSIONS } from "@shared/permissions";
+import {
+  getShiftClock,
+  type ShiftCursor,
+  type ShiftListFilters,
+  type ShiftListStatus,
+  type ShiftStatusCounts,
+  type ShiftWithDetails,
+} from "@shared/shiftQuery";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import pg from "pg";
@@ -178,6 +203,32 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
+    // Ensure certification expiry templates exist (for existing databases)
+    const certificationTemplates: InsertSmsTemplate[] = [
+      {
+        name: "Certification Expiring",
+        description: "Sent to an employee before one of their certifications expires",
+        category: "certification_expiry",
+        content: "ShiftConnect: Hi {{employeeName}}, your {{certificationName}} expires on {{expiresOn}} ({{daysLeft}} days). Please renew it and send the new certificate to your supervisor so you can keep picking up shifts.",
+        isSystem: true,
+        isActive: true,
+      },
+      {
+        name: "Certification Expiring (Supervisor)",
+        description: "Sent to area supervisors when an employee's certification is about to expire",
+        category: "certification_expiry_supervisor",
+        content: "ShiftConnect: {{employeeName}}'s {{certificationName}} expires on {{expiresOn}} ({{daysLeft}} days). They won't be offered or assigned shifts that require it once it lapses.",
+        isSystem: true,
+        isActive: true,
+      },
+    ];
+    for (const template of certificationTemplates) {
+      const existing = await db.select().from(smsTemplates).where(eq(smsTemplates.category, template.category!));
+      if (existing.length === 0) {
+        await this.createSmsTemplate(template);
+      }
+    }
+
     // Ensure shift_repost template exists (for existing databases)
     const repostTemplate = await db.select().from(smsTemplates).where(eq(smsTemplates.category, "shift_repost"));
     if (repostTemplate.length === 0) {
@@ -335,6 +386,7 @@ export class DatabaseStorage implements IStorage {
       await db.update(employees).set({ positionId: reassignToId }).where(eq(employees.positionId, id));
       await db.update(shifts).set({ positionId: reassignToId }).where(eq(shifts.positionId, id));
     }
+    await db.delete(positionCertifications).where(eq(positionCertifications.positionId, id));
     const result = await db.delete(positions).where(eq(positions.id, id));
     return (result.rowCount ?? 0) > 0;
   }
@@ -411,6 +463,141 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getCertifications(): Promise<Certification[]> {
+    return db.select().from(certifications).orderBy(certifications.name);
+  }
+
+  async getCertification(id: string): Promise<Certification | undefined> {
+    const result = await db.select().from(certifications).where(eq(certifications.id, id));
+    return result[0];
+  }
+
+  async createCertification(insertCertification: InsertCertification): Promise<Certification> {
+    const result = await db.insert(certifications).values(insertCertification).returning();
+    return result[0];
+  }
+
+  async updateCertification(id: string, updates: Partial<InsertCertification>): Promise<Certification | undefined> {
+    const result = await db.update(certifications).set(updates).where(eq(certifications.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteCertification(id: string): Promise<boolean> {
+    await db.delete(positionCertifications).where(eq(positionCertifications.certificationId, id));
+    await db.delete(employeeCertifications).where(eq(employeeCertifications.certificationId, id));
+    const result = await db.delete(certifications).where(eq(certifications.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getPositionCertifications(positionId: string): Promise<Certification[]> {
+    const requirements = await db.select().from(positionCertifications)
+      .where(eq(positionCertifications.positionId, positionId));
+    if (requirements.length === 0) return [];
+    const certificationIds = requirements.map(r => r.certificationId);
+    return db.select().from(certifications).where(inArray(certifications.id, certificationIds));
+  }
+
+  async getAllPositionCertifications(): Promise<PositionCertification[]> {
+    return db.select().from(positionCertifications);
+  }
+
+  async setPositionCertifications(positionId: string, certificationIds: string[]): Promise<void> {
+    await db.delete(positionCertifications).where(eq(positionCertifications.positionId, positionId));
+    for (const certificationId of Array.from(new Set(certificationIds))) {
+      await db.insert(positionCertifications).values({ positionId, certificationId });
+    }
+  }
+
+  async getEmployeeCertifications(filters?: { employeeId?: string; certificationId?: string }): Promise<EmployeeCertification[]> {
+    const conditions = [];
+    if (filters?.employeeId) {
+      conditions.push(eq(employeeCertifications.employeeId, filters.employeeId));
+    }
+    if (filters?.certificationId) {
+      conditions.push(eq(employeeCertifications.certificationId, filters.certificationId));
+    }
+
+    if (conditions.length > 0) {
+      return db.select().from(employeeCertifications).where(and(...conditions)).orderBy(desc(employeeCertifications.createdAt));
+    }
+    return db.select().from(employeeCertifications).orderBy(desc(employeeCertifications.createdAt));
+  }
+
+  async getEmployeeCertification(id: string): Promise<EmployeeCertification | undefined> {
+    const result = await db.select().from(employeeCertifications).where(eq(employeeCertifications.id, id));
+    return result[0];
+  }
+
+  async createEmployeeCertification(record: InsertEmployeeCertification): Promise<EmployeeCertification> {
+    const result = await db.insert(employeeCertifications).values(record).returning();
+    return result[0];
+  }
+
+  async updateEmployeeCertification(id: string, updates: Partial<EmployeeCertification>): Promise<EmployeeCertification | undefined> {
+    const result = await db.update(employeeCertifications).set(updates).where(eq(employeeCertifications.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteEmployeeCertification(id: string): Promise<boolean> {
+    const result = await db.delete(employeeCertifications).where(eq(employeeCertifications.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getEmployeeAvailability(employeeId: string): Promise<EmployeeAvailability | undefined> {
+    const result = await db.select().from(employeeAvailability).where(eq(employeeAvailability.employeeId, employeeId));
+    return result[0];
+  }
+
+  async getAllEmployeeAvailability(): Promise<EmployeeAvailability[]> {
+    return db.select().from(employeeAvailability);
+  }
+
+  async setEmployeeAvailability(
+    employeeId: string,
+    availability: Omit<InsertEmployeeAvailability, "employeeId">
+  ): Promise<EmployeeAvailability> {
+    const existing = await this.getEmployeeAvailability(employeeId);
+    if (existing) {
+      const result = await db.update(employeeAvailability)
+        .set({ ...availability, updatedAt: new Date() })
+        .where(eq(employeeAvailability.employeeId, employeeId))
+        .returning();
+      return result[0];
+    }
+    const result = await db.insert(employeeAvailability).values({ ...availability, employeeId }).returning();
+    return result[0];
+  }
+
+  async getTimeOffRequests(filters?: { employeeId?: string; status?: string }): Promise<TimeOffRequest[]> {
+    const conditions = [];
+    if (filters?.employeeId) {
+      conditions.push(eq(timeOffRequests.employeeId, filters.employeeId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(timeOffRequests.status, filters.status));
+    }
+
+    if (conditions.length > 0) {
+      return db.select().from(timeOffRequests).where(and(...conditions)).orderBy(desc(timeOffRequests.createdAt));
+    }
+    return db.select().from(timeOffRequests).orderBy(desc(timeOffRequests.createdAt));
+  }
+
+  async getTimeOffRequest(id: string): Promise<TimeOffRequest | undefined> {
+    const result = await db.select().from(timeOffRequests).where(eq(timeOffRequests.id, id));
+    return result[0];
+  }
+
+  async createTimeOffRequest(request: InsertTimeOffRequest): Promise<TimeOffRequest> {
+    const result = await db.insert(timeOffRequests).values(request).returning();
+    return result[0];
+  }
+
+  async updateTimeOffRequest(id: string, updates: Partial<TimeOffRequest>): Promise<TimeOffRequest | undefined> {
+    const result = await db.update(timeOffRequests).set(updates).where(eq(timeOffRequests.id, id)).returning();
+    return result[0];
+  }
+
   async getShifts(includePast: boolean = false): Promise<Shift[]> {
     if (includePast) {
       return db.select().from(shifts).orderBy(desc(shifts.createdAt));
@@ -425,6 +612,124 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Status as the shift list reports it - available shifts whose end time has passed are expired.
+  // Overnight shifts (end at or before start) end the day after their date, as in hasShiftEnded.
+  private shiftListStatus(clock: { today: string; time: string }): SQL<string> {
+    const endedOn = (day: string) =>
+      sql`(${shifts.date} < ${day} or (${shifts.date} = ${day} and ${shifts.endTime} <= ${clock.time}))`;
+    const ended = sql`case when ${shifts.endTime} <= ${shifts.startTime} then ${endedOn(addDays(clock.today, -1))} else ${endedOn(clock.today)} end`;
+    return sql<string>`case when ${shifts.status} = 'available' and ${ended} then 'expired' else ${shifts.status} end`;
+  }
+
+  private shiftListConditions(filters: ShiftListFilters, listStatus: SQL<string>, today: string): SQL[] {
+    // Match the search text literally - backslash is Postgres' default LIKE escape
+    const pattern = filters.search ? `%${filters.search.replace(/[\\%_]/g, "\\$&")}%` : "";
+    const conditions: (SQL | undefined)[] = [
+      filters.includePast ? undefined : gte(shifts.date, today),
+      filters.from ? gte(shifts.date, filters.from) : undefined,
+      filters.to ? lte(shifts.date, filters.to) : undefined,
+      filters.postedFrom ? gte(shifts.createdAt, new Date(filters.postedFrom)) : undefined,
+      filters.postedTo ? lt(shifts.createdAt, new Date(filters.postedTo)) : undefined,
+      filters.areaId?.length ? inArray(shifts.areaId, filters.areaId) : undefined,
+      filters.positionId?.length ? inArray(shifts.positionId, filters.positionId) : undefined,
+      filters.status?.length ? inArray(listStatus, filters.status) : undefined,
+      filters.assignedEmployeeId ? eq(shifts.assignedEmployeeId, filters.assignedEmployeeId) : undefined,
+      filters.search
+        ? or(
+            ilike(positions.title, pattern),
+            ilike(areas.name, pattern),
+            ilike(shifts.location, pattern),
+          )
+        : undefined,
+    ];
+    return conditions.filter((condition): condition is SQL => !!condition);
+  }
+
+  async getShiftList(filters: ShiftListFilters): Promise<{ shifts: ShiftWithDetails[]; next: ShiftCursor | null }> {
+    const clock = getShiftClock();
+    const listStatus = this.shiftListStatus(clock);
+    const sort = filters.sort ?? "newest";
+    const descending = sort === "date-desc" || sort === "newest";
+    const bySchedule = sort === "date-asc" || sort === "date-desc";
+
+    // Sort key as text so a cursor round-trips exactly - created_at keeps its microseconds
+    const sortKey = bySchedule
+      ? sql<string>`${shifts.date} || ' ' || ${shifts.startTime}`
+      : sql<string>`to_char(${shifts.createdAt}, 'YYYY-MM-DD HH24:MI:SS.US')`;
+    const sortColumn = bySchedule ? sortKey : sql`${shifts.createdAt}`;
+
+    const conditions = this.shiftListConditions(filters, listStatus, clock.today);
+    if (filters.after) {
+      const afterKey = bySchedule ? sql`${filters.after.key}` : sql`${filters.after.key}::timestamp`;
+      conditions.push(descending
+        ? sql`(${sortColumn}, ${shifts.id}) < (${afterKey}, ${filters.after.id})`
+        : sql`(${sortColumn}, ${shifts.id}) > (${afterKey}, ${filters.after.id})`);
+    }
+
+    // Interest counts for every shift in one pass, only counting employees that still exist
+    const interestCounts = db
+      .select({ shiftId: shiftInterests.shiftId, count: sql<number>`count(*)::int`.as("interest_count") })
+      .from(shiftInterests)
+      .innerJoin(employees, eq(employees.id, shiftInterests.employeeId))
+      .groupBy(shiftInterests.shiftId)
+      .as("interest_counts");
+
+    const query = db
+      .select({
+        shift: shifts,
+        area: areas,
+        position: positions.title,
+        assignedEmployee: employees,
+        interestedCount: sql<number>`coalesce(${interestCounts.count}, 0)`,
+        listStatus,
+        sortKey,
+      })
+      .from(shifts)
+      .leftJoin(areas, eq(areas.id, shifts.areaId))
+      .leftJoin(positions, eq(positions.id, shifts.positionId))
+      .leftJoin(employees, eq(employees.id, shifts.assignedEmployeeId))
+      .leftJoin(interestCounts, eq(interestCounts.shiftId, shifts.id))
+      .where(and(...conditions))
+      .orderBy(...(descending ? [desc(sortColumn), desc(shifts.id)] : [asc(sortColumn), asc(shifts.id)]));
+
+    // One extra row tells us whether there's another page
+    const rows = filters.limit !== undefined ? await query.limit(filters.limit + 1) : await query;
+    const page = filters.limit !== undefined ? rows.slice(0, filters.limit) : rows;
+    const last = page[page.length - 1];
+
+    return {
+      shifts: page.map(row => ({
+        ...row.shift,
+        status: row.listStatus,
+        area: row.area,
+        position: row.position || "Unknown Position",
+        interestedCount: Number(row.interestedCount),
+        assignedEmployee: row.assignedEmployee,
+      })),
+      next: filters.limit !== undefined && rows.length > filters.limit ? { key: last.sortKey, id: last.shift.id } : null,
+    };
+  }
+
+  async countShiftsByStatus(filters: ShiftListFilters): Promise<ShiftStatusCounts> {
+    const clock = getShiftClock();
+    const listStatus = this.shiftListStatus(clock);
+    const rows = await db
+      .select({ status: listStatus, count: sql<number>`count(*)::int` })
+      .from(shifts)
+      .leftJoin(areas, eq(areas.id, shifts.areaId))
+      .leftJoin(positions, eq(positions.id, shifts.positionId))
+      .where(and(...this.shiftListConditions(filters, listStatus, clock.today)))
+      // By position - the status expression carries bound parameters, so repeating it wouldn't match the select
+      .groupBy(sql`1`);
+
+    const counts: ShiftStatusCounts = { available: 0, claimed: 0, expired: 0, total: 0 };
+    for (const row of rows) {
+      if (row.status in counts) counts[row.status as ShiftListStatus] += Number(row.count);
+      counts.total += Number(row.count);
+    }
+    return counts;
+  }
+
   async getShiftBySmsCode(smsCode: string): Promise<Shift | undefined> {
     // Case-insensitive lookup for SMS codes
     const result = await db.select().from(shifts).where(
@@ -437,6 +742,16 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(shifts).where(eq(shifts.areaId, areaId));
   }
 
+  async getShiftsByAssignedEmployee(employeeId: string): Promise<Shift[]> {
+    return db.select().from(shifts)
+      .where(and(eq(shifts.assignedEmployeeId, employeeId), eq(shifts.status, "claimed")))
+      .orderBy(shifts.date, shifts.startTime);
+  }
+
+  async getShiftsByTemplate(templateId: string): Promise<Shift[]> {
+    return db.select().from(shifts).where(eq(shifts.templateId, templateId)).orderBy(shifts.date);
+  }
+
   private generateSmsCode(): string {
     const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Excluding I, O, 0, 1 to avoid confusion
     let code = '';
@@ -473,11 +788,22 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async claimAvailableShift(id: string, updates: Partial<InsertShift>): Promise<Shift | undefined> {
+    // The status check is part of the update so a concurrent assignment can't be overwritten
+    const result = await db.update(shifts).set(updates)
+      .where(and(eq(shifts.id, id), eq(shifts.status, "available"), isNull(shifts.assignedEmployeeId)))
+      .returning();
+    return result[0];
+  }
+
   async deleteShift(id: string): Promise<boolean> {
     // First, remove the foreign key reference from messages
     await db.update(messages).set({ relatedShiftId: null }).where(eq(messages.relatedShiftId, id));
     // Then delete shift interests
     await db.delete(shiftInterests).where(eq(shiftInterests.shiftId, id));
+    // And the swap and offer history that points at the shift
+    await db.delete(shiftSwaps).where(eq(shiftSwaps.shiftId, id));
+    await db.delete(shiftOffers).where(eq(shiftOffers.shiftId, id));
     // Finally delete the shift
     const result = await db.delete(shifts).where(eq(shifts.id, id));
     return (result.rowCount ?? 0) > 0;
@@ -524,7 +850,68 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
-  async getMessages(filters?: { employeeId?: string; messageType?: string; relatedShiftId?: string }): Promise<Message[]> {
+  async getShiftSwaps(filters?: { shiftId?: string; status?: string }): Promise<ShiftSwap[]> {
+    const conditions = [];
+    if (filters?.shiftId) {
+      conditions.push(eq(shiftSwaps.shiftId, filters.shiftId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(shiftSwaps.status, filters.status));
+    }
+
+    if (conditions.length > 0) {
+      return db.select().from(shiftSwaps).where(and(...conditions)).orderBy(desc(shiftSwaps.createdAt));
+    }
+    return db.select().from(shiftSwaps).orderBy(desc(shiftSwaps.createdAt));
+  }
+
+  async getShiftSwap(id: string): Promise<ShiftSwap | undefined> {
+    const result = await db.select().from(shiftSwaps).where(eq(shiftSwaps.id, id));
+    return result[0];
+  }
+
+  async createShiftSwap(swap: InsertShiftSwap): Promise<ShiftSwap> {
+    const result = await db.insert(shiftSwaps).values(swap).returning();
+    return result[0];
+  }
+
+  async updateShiftSwap(id: string, updates: Partial<ShiftSwap>): Promise<ShiftSwap | undefined> {
+    const result = await db.update(shiftSwaps).set(updates).where(eq(shiftSwaps.id, id)).returning();
+    return result[0];
+  }
+
+  async getShiftOffers(filters?: { shiftId?: string; employeeId?: string; status?: string; since?: Date }): Promise<ShiftOffer[]> {
+    const conditions = [];
+    if (filters?.shiftId) {
+      conditions.push(eq(shiftOffers.shiftId, filters.shiftId));
+    }
+    if (filters?.employeeId) {
+      conditions.push(eq(shiftOffers.employeeId, filters.employeeId));
+    }
+    if (filters?.status) {
+      conditions.push(eq(shiftOffers.status, filters.status));
+    }
+    if (filters?.since) {
+      conditions.push(gte(shiftOffers.createdAt, filters.since));
+    }
+
+    if (conditions.length > 0) {
+      return db.select().from(shiftOffers).where(and(...conditions)).orderBy(desc(shiftOffers.createdAt));
+    }
+    return db.select().from(shiftOffers).orderBy(desc(shiftOffers.createdAt));
+  }
+
+  async createShiftOffer(offer: InsertShiftOffer): Promise<ShiftOffer> {
+    const result = await db.insert(shiftOffers).values(offer).returning();
+    return result[0];
+  }
+
+  async updateShiftOffer(id: string, updates: Partial<ShiftOffer>): Promise<ShiftOffer | undefined> {
+    const result = await db.update(shiftOffers).set(updates).where(eq(shiftOffers.id, id)).returning();
+    return result[0];
+  }
+
+  async getMessages(filters?: { employeeId?: string; messageType?: string; relatedShiftId?: string; direction?: string; since?: Date }): Promise<Message[]> {
     const conditions = [];
     if (filters?.employeeId) {
       conditions.push(eq(messages.employeeId, filters.employeeId));
@@ -535,6 +922,12 @@ export class DatabaseStorage implements IStorage {
     if (filters?.relatedShiftId) {
       conditions.push(eq(messages.relatedShiftId, filters.relatedShiftId));
     }
+    if (filters?.direction) {
+      conditions.push(eq(messages.direction, filters.direction));
+    }
+    if (filters?.since) {
+      conditions.push(gte(messages.createdAt, filters.since));
+    }
     
     if (conditions.length > 0) {
       return db.select().from(messages).where(and(...conditions)).orderBy(desc(messages.createdAt));
@@ -570,6 +963,81 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(messages).where(eq(messages.threadId, threadId)).orderBy(messages.createdAt);
   }
 
+  async getOutboundMessagesByStatus(status: string): Promise<Message[]> {
+    return db.select().from(messages)
+      .where(and(eq(messages.direction, "outbound"), eq(messages.status, status)))
+      .orderBy(messages.createdAt);
+  }
+
+  async countOutboundMessagesSince(since: Date, statuses: string[]): Promise<number> {
+    if (statuses.length === 0) return 0;
+    const result = await db.select({ count: sql<number>`count(*)::int` }).from(messages)
+      .where(and(
+        eq(messages.direction, "outbound"),
+        inArray(messages.status, statuses),
+        gte(messages.createdAt, since)
+      ));
+    return result[0]?.count ?? 0;
+  }
+
+  async getMessageAttachments(messageIds: string[]): Promise<MessageAttachment[]> {
+    if (messageIds.length === 0) return [];
+    return db.select().from(messageAttachments)
+      .where(inArray(messageAttachments.messageId, messageIds))
+      .orderBy(messageAttachments.createdAt);
+  }
+
+  async getMessageAttachment(id: string): Promise<MessageAttachment | undefined> {
+    const result = await db.select().from(messageAttachments).where(eq(messageAttachments.id, id));
+    return result[0];
+  }
+
+  async createMessageAttachment(attachment: InsertMessageAttachment): Promise<MessageAttachment> {
+    const result = await db.insert(messageAttachments).values(attachment).returning();
+    return result[0];
+  }
+
+  async getSmsConversation(employeeId: string): Promise<SmsConversation | undefined> {
+    const result = await db.select().from(smsConversations).where(eq(smsConversations.employeeId, employeeId));
+    return result[0];
+  }
+
+  async setSmsConversation(
+    employeeId: string,
+    conversation: Omit<InsertSmsConversation, "employeeId">
+  ): Promise<SmsConversation> {
+    const existing = await this.getSmsConversation(employeeId);
+    if (existing) {
+      const result = await db.update(smsConversations)
+        .set({ ...conversation, updatedAt: new Date() })
+        .where(eq(smsConversations.employeeId, employeeId))
+        .returning();
+      return result[0];
+    }
+    const result = await db.insert(smsConversations).values({ ...conversation, employeeId }).returning();
+    return result[0];
+  }
+
+  async deleteSmsConversation(employeeId: string): Promise<boolean> {
+    const result = await db.delete(smsConversations).where(eq(smsConversations.employeeId, employeeId));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getSmsConsentEvents(filters?: { employeeId?: string; since?: Date; until?: Date }): Promise<SmsConsentEvent[]> {
+    const conditions = [];
+    if (filters?.employeeId) conditions.push(eq(smsConsentEvents.employeeId, filters.employeeId));
+    if (filters?.since) conditions.push(gte(smsConsentEvents.createdAt, filters.since));
+    if (filters?.until) conditions.push(lte(smsConsentEvents.createdAt, filters.until));
+    return db.select().from(smsConsentEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(smsConsentEvents.createdAt));
+  }
+
+  async createSmsConsentEvent(event: InsertSmsConsentEvent): Promise<SmsConsentEvent> {
+    const result = await db.insert(smsConsentEvents).values(event).returning();
+    return result[0];
+  }
+
   async getTrainings(): Promise<Training[]> {
     return db.select().from(trainings);
   }
@@ -590,10 +1058,113 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteTraining(id: string): Promise<boolean> {
+    const sessionIds = (await db.select({ id: trainingSessions.id }).from(trainingSessions)
+      .where(eq(trainingSessions.trainingId, id))).map(s => s.id);
+    if (sessionIds.length > 0) {
+      await db.delete(trainingRsvps).where(inArray(trainingRsvps.sessionId, sessionIds));
+    }
+    await db.delete(trainingAssignments).where(eq(trainingAssignments.trainingId, id));
+    await db.delete(trainingSessions).where(eq(trainingSessions.trainingId, id));
     const result = await db.delete(trainings).where(eq(trainings.id, id));
     return (result.rowCount ?? 0) > 0;
   }
 
+  async getTrainingSessions(trainingId?: string): Promise<TrainingSession[]> {
+    return db.select().from(trainingSessions)
+      .where(trainingId ? eq(trainingSessions.trainingId, trainingId) : undefined)
+      .orderBy(asc(trainingSessions.date), asc(trainingSessions.startTime));
+  }
+
+  async getTrainingSession(id: string): Promise<TrainingSession | undefined> {
+    const result = await db.select().from(trainingSessions).where(eq(trainingSessions.id, id));
+    return result[0];
+  }
+
+  async createTrainingSession(session: InsertTrainingSession): Promise<TrainingSession> {
+    const result = await db.insert(trainingSessions).values(session).returning();
+    return result[0];
+  }
+
+  async updateTrainingSession(id: string, updates: Partial<TrainingSession>): Promise<TrainingSession | undefined> {
+    const result = await db.update(trainingSessions).set(updates).where(eq(trainingSessions.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteTrainingSession(id: string): Promise<boolean> {
+    await db.delete(trainingRsvps).where(eq(trainingRsvps.sessionId, id));
+    // Completions keep their date but no longer point at the session
+    await db.update(trainingAssignments).set({ sessionId: null }).where(eq(trainingAssignments.sessionId, id));
+    const result = await db.delete(trainingSessions).where(eq(trainingSessions.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getTrainingAssignments(filters?: { trainingId?: string; employeeId?: string }): Promise<TrainingAssignment[]> {
+    const conditions = [];
+    if (filters?.trainingId) conditions.push(eq(trainingAssignments.trainingId, filters.trainingId));
+    if (filters?.employeeId) conditions.push(eq(trainingAssignments.employeeId, filters.employeeId));
+    return db.select().from(trainingAssignments)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(trainingAssignments.createdAt));
+  }
+
+  async getTrainingAssignment(id: string): Promise<TrainingAssignment | undefined> {
+    const result = await db.select().from(trainingAssignments).where(eq(trainingAssignments.id, id));
+    return result[0];
+  }
+
+  async createTrainingAssignment(assignment: InsertTrainingAssignment): Promise<TrainingAssignment> {
+    const result = await db.insert(trainingAssignments).values(assignment).returning();
+    return result[0];
+  }
+
+  async updateTrainingAssignment(id: string, updates: Partial<TrainingAssignment>): Promise<TrainingAssignment | undefined> {
+    const result = await db.update(trainingAssignments).set(updates).where(eq(trainingAssignments.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteTrainingAssignment(id: string): Promise<boolean> {
+    const result = await db.delete(trainingAssignments).where(eq(trainingAssignments.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getTrainingRsvps(filters?: { sessionId?: string; employeeId?: string }): Promise<TrainingRsvp[]> {
+    const conditions = [];
+    if (filters?.sessionId) conditions.push(eq(trainingRsvps.sessionId, filters.sessionId));
+    if (filters?.employeeId) conditions.push(eq(trainingRsvps.employeeId, filters.employeeId));
+    return db.select().from(trainingRsvps)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(trainingRsvps.respondedAt));
+  }
+
+  async createTrainingRsvp(rsvp: InsertTrainingRsvp): Promise<TrainingRsvp> {
+    const result = await db.insert(trainingRsvps).values(rsvp).returning();
+    return result[0];
+  }
+
+  async updateTrainingRsvp(id: string, updates: Partial<TrainingRsvp>): Promise<TrainingRsvp | undefined> {
+    const result = await db.update(trainingRsvps).set(updates).where(eq(trainingRsvps.id, id)).returning();
+    return result[0];
+  }
+
+  async getReportSnapshots(): Promise<ReportSnapshot[]> {
+    return db.select().from(reportSnapshots).orderBy(desc(reportSnapshots.createdAt));
+  }
+
+  async getReportSnapshot(id: string): Promise<ReportSnapshot | undefined> {
+    const result = await db.select().from(reportSnapshots).where(eq(reportSnapshots.id, id));
+    return result[0];
+  }
+
+  async createReportSnapshot(snapshot: InsertReportSnapshot): Promise<ReportSnapshot> {
+    const result = await db.insert(reportSnapshots).values(snapshot).returning();
+    return result[0];
+  }
+
+  async deleteReportSnapshot(id: string): Promise<boolean> {
+    const result = await db.delete(reportSnapshots).where(eq(reportSnapshots.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   async getAuditLogs(options?: { limit?: number; offset?: number; action?: string; actorId?: string; targetType?: string }): Promise<AuditLog[]> {
     const conditions = [];
     if (options?.action) {
@@ -709,6 +1280,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteShiftTemplate(id: string): Promise<boolean> {
+    // Detach generated shifts so they survive the template
+    await db.update(shifts).set({ templateId: null }).where(eq(shifts.templateId, id));
     const result = await db.delete(shiftTemplates).where(eq(shiftTemplates.id, id));
     return (result.rowCount ?? 0) > 0;
   }
@@ -4,6 +4,15 @@ import { setupAuth } from "./auth";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { startReminderChecker, stopReminderChecker } from "./services/shiftReminderScheduler";
+import { startRecurrenceGenerator, stopRecurrenceGenerator } from "./services/shiftRecurrence";
+import { startTrainingReminderScheduler, stopTrainingReminderScheduler } from "./services/training";
+import { startReportSnapshotScheduler, stopReportSnapshotScheduler } from "./services/reports";
+import { startEscalationScheduler, stopEscalationScheduler } from "./services/shiftEscalation";
+import { startWaveScheduler, stopWaveScheduler } from "./services/fairRotation";
+import { startAutoAwardScheduler, stopAutoAwardScheduler } from "./services/autoAward";
+import { startCertificationExpiryChecker, stopCertificationExpiryChecker } from "./services/certifications";
+import { startSMSQueueWorker, stopSMSQueueWorker } from "./services/smsQueue";
+import { startDigestScheduler, stopDigestScheduler } from "./services/smsDigest";
 import { storage } from "./storage";
 
 const app = express();
@@ -17,6 +26,7 @@ declare module "http" {
 
 app.use(
   express.json({
+    limit: "5mb", // MMS pictures are uploaded as base64 in the JSON body
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -68,8 +78,8 @@ app.use((req, res, next) => {
     await storage.initialize();
   }
 
-  setupAuth(app);
-  await registerRoutes(httpServer, app);
+  const sessionMiddleware = setupAuth(app);
+  await registerRoutes(httpServer, app, sessionMiddleware);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -103,10 +113,46 @@ app.use((req, res, next) => {
     () => {
       log(`serving on port ${port}`);
 
-      // Start the shift reminder scheduler
+      // Start the outbound SMS queue worker
       const webhookBaseUrl = process.env.WEBHOOK_BASE_URL || `http://localhost:${port}`;
+      startSMSQueueWorker(webhookBaseUrl);
+      log("SMS queue worker started");
+
+      // Start the shift reminder scheduler
       startReminderChecker(webhookBaseUrl);
       log("Shift reminder scheduler started");
+
+      // Start the unfilled shift escalation scheduler
+      startEscalationScheduler(webhookBaseUrl);
+      log("Shift escalation scheduler started");
+
+      // Start the fair rotation wave sender
+      startWaveScheduler(webhookBaseUrl);
+      log("Fair rotation wave scheduler started");
+
+      // Start the SMS digest sender
+      startDigestScheduler();
+      log("SMS digest scheduler started");
+
+      // Start the interest auto-award checker
+      startAutoAwardScheduler(webhookBaseUrl);
+      log("Shift auto-award scheduler started");
+
+      // Start the certification expiry warnings
+      startCertificationExpiryChecker(webhookBaseUrl);
+      log("Certification expiry checker started");
+
+      // Start the recurring shift generator
+      startRecurrenceGenerator();
+      log("Recurring shift generator started");
+
+      // Start the training session reminders
+      startTrainingReminderScheduler();
+      log("Training reminder scheduler started");
+
+      // Start the scheduled report snapshots
+      startReportSnapshotScheduler();
+      log("Report snapshot scheduler started");
     },
   );
 
@@ -114,6 +160,15 @@ app.use((req, res, next) => {
   process.on("SIGTERM", () => {
     log("SIGTERM received, shutting down gracefully");
     stopReminderChecker();
+    stopEscalationScheduler();
+    stopWaveScheduler();
+    stopDigestScheduler();
+    stopAutoAwardScheduler();
+    stopCertificationExpiryChecker();
+    stopRecurrenceGenerator();
+    stopTrainingReminderScheduler();
+    stopReportSnapshotScheduler();
+    stopSMSQueueWorker();
     httpServer.close(() => {
       log("Server closed");
       process.exit(0);
@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import {
@@ -8,22 +8,82 @@ import {
   insertEmployeeSchema,
   insertShiftSchema,
   insertShiftInterestSchema,
+  insertEmployeeAvailabilitySchema,
+  insertCertificationSchema,
+  insertEmployeeCertificationSchema,
+  insertTimeOffRequestSchema,
   insertMessageSchema,
   insertTrainingSchema,
+  insertTrainingSessionSchema,
   insertUserSchema,
   type Employee,
+  type ShiftSwap,
 } from "@shared/schema";
 import { generateDefaultUsername, generateUniqueUsername } from "./utils/usernameGenerator";
 import { scryptSync, randomBytes } from "crypto";
 import { logAuditEvent, getClientIp } from "./audit";
-import smsRoutes from "./routes/sms";
-import { notifyNewShift, notifyRepostedShift, notifyShiftAssigned, notifyShiftFilledToOthers, notifyShiftUnassigned, notifyShiftInterestConfirmation } from "./services/smsNotifications";
-import { scheduleShiftReminder, startReminderChecker, cancelShiftReminder } from "./services/shiftReminderScheduler";
-import { setupWebSocket, broadcastShiftUpdate } from "./websocket";
+import smsRoutes, { getWebhookBaseUrl } from "./routes/sms";
+import { notifyNewShift, notifyRepostedShift, notifyShiftUnassigned, notifyShiftInterestConfirmation, notifyTimeOffDecision, notifySwapOffered, notifyCalloutPoll } from "./services/smsNotifications";
+import { startReminderChecker, cancelShiftReminder } from "./services/shiftReminderScheduler";
+import { setupWebSocket, broadcastShiftUpdate, broadcastSettingsUpdate } from "./websocket";
+import { recurrenceRuleSchema } from "@shared/recurrence";
+import { escalationPolicySchema } from "@shared/escalation";
+import { shiftQuerySchema } from "@shared/shiftQuery";
+import { stripAllAreasEscalation } from "./services/shiftEscalation";
+import { getOfferEquityReport } from "./services/fairRotation";
+import { assignShiftToEmployee } from "./services/shiftAssignment";
+import {
+  findMissingCertifications,
+  describeMissingCertifications,
+  getEmployeeCertificationsWithStatus,
+} from "./services/certifications";
+import {
+  isRecurringTemplate,
+  generateTemplateShifts,
+  syncTemplateSeries,
+  excludeOccurrence,
+  cancelFollowingOccurrences,
+  releaseCancelledShift,
+  updateFollowingOccurrences,
+  pickSeriesUpdates,
+} from "./services/shiftRecurrence";
+import { partitionByAvailability } from "./services/employeeAvailability";
+import { getShiftPage } from "./services/shiftList";
+import {
+  getTrainingSummaries,
+  getAssignmentsWithEmployees,
+  assignTraining,
+  setTrainingCompleted,
+  respondToSession,
+  recordAttendance,
+  sendTrainingReminders,
+} from "./services/training";
+import { recordSmsConsent, isOptedOutByReply } from "./services/smsConsent";
+import { findApprovedTimeOff, getAssignedShiftsDuring, describeTimeOff } from "./services/timeOff";
+import { evaluateAssignmentRules, describeViolations, findOverlappingShift, describeConflict } from "./services/assignmentRules";
+import {
+  isSwapCoworker,
+  getSwapCoworkers,
+  getSwapConflict,
+  getActiveSwap,
+  cancelActiveSwap,
+  acceptSwap,
+  completeSwap,
+  notifySwapParties,
+} from "./services/shiftSwaps";
+import {
+  buildShiftReport,
+  createReportSnapshot,
+  getReportSnapshotSchedule,
+  toSnapshotSummary,
+} from "./services/reports";
+import { renderReport } from "./services/reportExport";
+import { reportQuerySchema, reportExportQuerySchema, reportSnapshotRequestSchema } from "@shared/reports";
 
 export async function registerRoutes(
   httpServer: Server,
-  app: Express
+  app: Express,
+  sessionMiddleware: RequestHandler
 ): Promise<Server> {
   const requireAuth = (req: any, res: any, next: any) => {
     if (req.isAuthenticated()) {
@@ -72,6 +132,27 @@ export async function registerRoutes(
     smsRoutes(req, res, next);
   });
 
+  // MMS attachments - the SMS provider downloads outbound pictures without a session,
+  // authorized by the token in the URL
+  app.get("/api/sms/media/:id/:token", (req, res, next) => {
+    req.url = `/media/${req.params.id}/${req.params.token}`;
+    smsRoutes(req, res, next);
+  });
+
+  // Mock SMS provider webhooks - development only, the loopback provider posts
+  // delivery callbacks and simulated employee replies here
+  if (process.env.NODE_ENV !== "production") {
+    app.post("/api/webhooks/mock/status", (req, res, next) => {
+      req.url = "/webhooks/mock/status";
+      smsRoutes(req, res, next);
+    });
+
+    app.post("/api/webhooks/mock/inbound", (req, res, next) => {
+      req.url = "/webhooks/mock/inbound";
+      smsRoutes(req, res, next);
+    });
+  }
+
   // Documentation Downloads - Public access (registered before requireAuth)
   app.get("/api/docs/:docName", async (req, res) => {
     const { docName } = req.params;
@@ -221,6 +302,18 @@ export async function registerRoutes(
     if (existingInterest) {
       return res.json({ success: true, alreadyInterested: true });
     }
+
+    // Don't reveal the other shift's details on this unauthenticated route
+    if (await findOverlappingShift(employee.id, shift)) {
+      return res.status(409).json({ error: "You're already scheduled for a shift that overlaps this one." });
+    }
+
+    const missingCertifications = await findMissingCertifications(employee.id, shift);
+    if (missingCertifications.length > 0) {
+      return res.status(409).json({
+        error: `This shift requires a current ${describeMissingCertifications(missingCertifications)}. Please contact your supervisor.`,
+      });
+    }
     
     // Create interest record
     await storage.createShiftInterest({
@@ -229,7 +322,7 @@ export async function registerRoutes(
     });
     
     // Broadcast real-time update
-    broadcastShiftUpdate(shift.id, "interest_added");
+    broadcastShiftUpdate(shift, "interest_added", employee.id);
     
     // Log audit event
     await logAuditEvent({
@@ -344,7 +437,9 @@ export async function registerRoutes(
   });
 
   app.patch("/api/areas/:id", async (req, res) => {
-    const area = await storage.updateArea(req.params.id, req.body);
+    const parsed = insertAreaSchema.partial().safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    const area = await storage.updateArea(req.params.id, parsed.data);
     if (!area) return res.status(404).json({ error: "Area not found" });
     res.json(area);
   });
@@ -398,6 +493,74 @@ export async function registerRoutes(
     res.status(204).send();
   });
 
+  // Certifications - the catalog of credentials positions can require, managed with organization settings
+  const canManageCertifications = (user: any) => (user?.permissions || []).includes("settings:org");
+
+  app.get("/api/certifications", async (req, res) => {
+    const certifications = await storage.getCertifications();
+    res.json(certifications);
+  });
+
+  app.post("/api/certifications", async (req, res) => {
+    if (!canManageCertifications(req.user)) {
+      return res.status(403).json({ error: "You don't have permission to manage certifications" });
+    }
+    const parsed = insertCertificationSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    const certification = await storage.createCertification(parsed.data);
+    res.status(201).json(certification);
+  });
+
+  app.patch("/api/certifications/:id", async (req, res) => {
+    if (!canManageCertifications(req.user)) {
+      return res.status(403).json({ error: "You don't have permission to manage certifications" });
+    }
+    const parsed = insertCertificationSchema.partial().safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    const certification = await storage.updateCertification(req.params.id, parsed.data);
+    if (!certification) return res.status(404).json({ error: "Certification not found" });
+    res.json(certification);
+  });
+
+  app.delete("/api/certifications/:id", async (req, res) => {
+    if (!canManageCertifications(req.user)) {
+      return res.status(403).json({ error: "You don't have permission to manage certifications" });
+    }
+    const deleted = await storage.deleteCertification(req.params.id);
+    if (!deleted) return res.status(404).json({ error: "Certification not found" });
+    res.status(204).send();
+  });
+
+  // Which certifications each position requires
+  app.get("/api/position-certifications", async (req, res) => {
+    const requirements = await storage.getAllPositionCertifications();
+    res.json(requirements);
+  });
+
+  app.get("/api/positions/:id/certifications", async (req, res) => {
+    const certifications = await storage.getPositionCertifications(req.params.id);
+    res.json(certifications);
+  });
+
+  app.put("/api/positions/:id/certifications", async (req, res) => {
+    if (!canManageCertifications(req.user)) {
+      return res.status(403).json({ error: "You don't have permission to manage certifications" });
+    }
+    const { certificationIds } = req.body;
+    if (!Array.isArray(certificationIds)) return res.status(400).json({ error: "certificationIds must be an array" });
+
+    const position = await storage.getPosition(req.params.id);
+    if (!position) return res.status(404).json({ error: "Position not found" });
+    const known = new Set((await storage.getCertifications()).map(c => c.id));
+    if (certificationIds.some((id: unknown) => typeof id !== "string" || !known.has(id))) {
+      return res.status(400).json({ error: "Unknown certification" });
+    }
+
+    await storage.setPositionCertifications(position.id, certificationIds);
+    const certifications = await storage.getPositionCertifications(position.id);
+    res.json(certifications);
+  });
+
   // Employees
   app.get("/api/employees", async (req, res) => {
     const employees = await storage.getEmployees();
@@ -406,9 +569,13 @@ export async function registerRoutes(
       employees.map(async (emp) => {
         const areas = await storage.getEmployeeAreas(emp.id);
         const user = await storage.getUserByEmployeeId(emp.id);
+        const availability = await storage.getEmployeeAvailability(emp.id);
+        const certifications = await getEmployeeCertificationsWithStatus(emp.id);
         return {
           ...emp,
           areas,
+          availability: availability ?? null,
+          certifications,
           user: user ? { id: user.id, username: user.username } : null
         };
       })
@@ -453,6 +620,11 @@ export async function registerRoutes(
     
     // Create employee
     const employee = await storage.createEmployee(parsed.data);
+    await recordSmsConsent(employee, employee.smsOptIn, {
+      source: "employee_created",
+      actor: req.user as any,
+      ipAddress: getClientIp(req),
+    });
     
     // Set area assignments if provided
     if (areaIds && Array.isArray(areaIds)) {
@@ -483,11 +655,26 @@ export async function registerRoutes(
   });
 
   app.patch("/api/employees/:id", async (req, res) => {
-    const { areaIds, password, ...updates } = req.body;
+    const { areaIds, password, smsConsentNote, ...updates } = req.body;
+
+    const preferences = insertEmployeeSchema
+      .pick({ smsMaxPerHour: true, smsMaxPerDay: true, smsDigestMinutes: true })
+      .safeParse(updates);
+    if (!preferences.success) {
+      return res.status(400).json({ error: preferences.error.errors[0]?.message || "Invalid SMS preferences" });
+    }
     
     // Get existing employee
     const existingEmployee = await storage.getEmployee(req.params.id);
     if (!existingEmployee) return res.status(404).json({ error: "Employee not found" });
+
+    // Only the employee can undo a STOP, unless the admin records how they consented again
+    const consentNote = typeof smsConsentNote === "string" ? smsConsentNote.trim() : "";
+    if (updates.smsOptIn === true && !existingEmployee.smsOptIn && !consentNote && await isOptedOutByReply(existingEmployee.id)) {
+      return res.status(409).json({
+        error: "This employee texted STOP. Ask them to text START, or record how they consented again to turn SMS back on.",
+      });
+    }
     
     // Check if enabling web access
     const wasWebAccessEnabled = existingEmployee.webAccessEnabled;
@@ -520,6 +707,24 @@ export async function registerRoutes(
     // Update employee
     const employee = await storage.updateEmployee(req.params.id, updates);
     if (!employee) return res.status(404).json({ error: "Employee not found" });
+
+    if (employee.smsOptIn !== existingEmployee.smsOptIn) {
+      await recordSmsConsent(employee, employee.smsOptIn, {
+        source: "admin",
+        actor: req.user as any,
+        note: consentNote || null,
+        ipAddress: getClientIp(req),
+      });
+      await logAuditEvent({
+        action: employee.smsOptIn ? "sms_opt_in" : "sms_opt_out",
+        actor: req.user as any,
+        targetType: "employee",
+        targetId: employee.id,
+        targetName: employee.name,
+        details: { method: "admin", note: consentNote || undefined },
+        ipAddress: getClientIp(req),
+      });
+    }
     
     // Handle area assignments
     if (areaIds) {
@@ -616,6 +821,329 @@ export async function registerRoutes(
     res.json(areas);
   });
 
+  // Employee availability - employees see and edit their own, supervisors with employee management anyone's
+  const canAccessAvailability = (user: any, employeeId: string) =>
+    user?.employeeId === employeeId || (user?.permissions || []).includes("employees:manage");
+
+  app.get("/api/employees/:id/availability", async (req, res) => {
+    const user = req.user as any;
+    if (!canAccessAvailability(user, req.params.id)) {
+      return res.status(403).json({ error: "You can only view your own availability" });
+    }
+
+    const availability = await storage.getEmployeeAvailability(req.params.id);
+    res.json(availability ?? { employeeId: req.params.id, weeklyAvailability: [], blackoutDates: [], preferredShiftTypes: [] });
+  });
+
+  app.put("/api/employees/:id/availability", async (req, res) => {
+    const user = req.user as any;
+    if (!canAccessAvailability(user, req.params.id)) {
+      return res.status(403).json({ error: "You can only update your own availability" });
+    }
+
+    const employee = await storage.getEmployee(req.params.id);
+    if (!employee) return res.status(404).json({ error: "Employee not found" });
+
+    const parsed = insertEmployeeAvailabilitySchema.omit({ employeeId: true }).safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+
+    const availability = await storage.setEmployeeAvailability(employee.id, parsed.data);
+
+    await logAuditEvent({
+      action: "employee_availability_updated",
+      actor: user,
+      targetType: "employee",
+      targetId: employee.id,
+      targetName: employee.name,
+      details: {
+        weeklyWindows: availability.weeklyAvailability.length,
+        blackoutDates: availability.blackoutDates,
+        preferredShiftTypes: availability.preferredShiftTypes,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.json(availability);
+  });
+
+  // Employee certifications - employees can see their own, supervisors with employee management record them
+  const canManageEmployees = (user: any) => (user?.permissions || []).includes("employees:manage");
+
+  app.get("/api/employees/:id/certifications", async (req, res) => {
+    const user = req.user as any;
+    const canView = user?.employeeId === req.params.id || (user?.permissions || []).includes("employees:view");
+    if (!canView) {
+      return res.status(403).json({ error: "You can only view your own certifications" });
+    }
+    const certifications = await getEmployeeCertificationsWithStatus(req.params.id);
+    res.json(certifications);
+  });
+
+  app.post("/api/employees/:id/certifications", async (req, res) => {
+    const user = req.user as any;
+    if (!canManageEmployees(user)) {
+      return res.status(403).json({ error: "You don't have permission to record certifications" });
+    }
+
+    const employee = await storage.getEmployee(req.params.id);
+    if (!employee) return res.status(404).json({ error: "Employee not found" });
+
+    const parsed = insertEmployeeCertificationSchema.safeParse({ ...req.body, employeeId: employee.id });
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+
+    const certification = await storage.getCertification(parsed.data.certificationId);
+    if (!certification) return res.status(400).json({ error: "Unknown certification" });
+
+    const record = await storage.createEmployeeCertification(parsed.data);
+
+    await logAuditEvent({
+      action: "certification_added",
+      actor: user,
+      targetType: "employee",
+      targetId: employee.id,
+      targetName: employee.name,
+      details: {
+        employeeCertificationId: record.id,
+        certificationName: certification.name,
+        expiresOn: record.expiresOn,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(201).json(record);
+  });
+
+  app.patch("/api/employee-certifications/:id", async (req, res) => {
+    const user = req.user as any;
+    if (!canManageEmployees(user)) {
+      return res.status(403).json({ error: "You don't have permission to record certifications" });
+    }
+
+    const existing = await storage.getEmployeeCertification(req.params.id);
+    if (!existing) return res.status(404).json({ error: "Certification record not found" });
+
+    const parsed = insertEmployeeCertificationSchema
+      .pick({ credentialNumber: true, issuedOn: true, expiresOn: true })
+      .partial()
+      .safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+
+    // A renewed certificate gets a fresh expiry warning
+    const renewed = "expiresOn" in parsed.data && parsed.data.expiresOn !== existing.expiresOn;
+    const record = await storage.updateEmployeeCertification(existing.id, {
+      ...parsed.data,
+      ...(renewed && { expiryWarningSentAt: null }),
+    });
+    if (!record) return res.status(404).json({ error: "Certification record not found" });
+
+    const employee = await storage.getEmployee(record.employeeId);
+    const certification = await storage.getCertification(record.certificationId);
+    await logAuditEvent({
+      action: "certification_updated",
+      actor: user,
+      targetType: "employee",
+      targetId: record.employeeId,
+      targetName: employee?.name,
+      details: {
+        employeeCertificationId: record.id,
+        certificationName: certification?.name,
+        previousExpiresOn: existing.expiresOn,
+        expiresOn: record.expiresOn,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.json(record);
+  });
+
+  app.delete("/api/employee-certifications/:id", async (req, res) => {
+    const user = req.user as any;
+    if (!canManageEmployees(user)) {
+      return res.status(403).json({ error: "You don't have permission to record certifications" });
+    }
+
+    const existing = await storage.getEmployeeCertification(req.params.id);
+    if (!existing) return res.status(404).json({ error: "Certification record not found" });
+    await storage.deleteEmployeeCertification(existing.id);
+
+    const employee = await storage.getEmployee(existing.employeeId);
+    const certification = await storage.getCertification(existing.certificationId);
+    await logAuditEvent({
+      action: "certification_removed",
+      actor: user,
+      targetType: "employee",
+      targetId: existing.employeeId,
+      targetName: employee?.name,
+      details: {
+        employeeCertificationId: existing.id,
+        certificationName: certification?.name,
+        expiresOn: existing.expiresOn,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(204).send();
+  });
+
+  // Time-off requests - employees request their own, supervisors with shift management review them
+  app.get("/api/time-off", async (req, res) => {
+    const user = req.user as any;
+    const canReview = (user?.permissions || []).includes("shifts:manage");
+    const { status } = req.query;
+
+    // Without review permission, only your own requests are visible
+    const employeeId = canReview ? (req.query.employeeId as string | undefined) : user?.employeeId;
+    if (!canReview && !employeeId) return res.json([]);
+
+    const requests = await storage.getTimeOffRequests({
+      employeeId,
+      status: typeof status === "string" ? status : undefined,
+    });
+    const requestsWithDetails = await Promise.all(
+      requests.map(async (request) => {
+        const employee = await storage.getEmployee(request.employeeId);
+        const conflictingShifts = request.status === "pending" || request.status === "approved"
+          ? await getAssignedShiftsDuring(request.employeeId, request)
+          : [];
+        return {
+          ...request,
+          employeeName: employee?.name || "Unknown",
+          conflictingShifts: conflictingShifts.map(s => ({
+            id: s.id, date: s.date, startTime: s.startTime, endTime: s.endTime, location: s.location,
+          })),
+        };
+      })
+    );
+    res.json(requestsWithDetails);
+  });
+
+  app.post("/api/time-off", async (req, res) => {
+    const user = req.user as any;
+    const canReview = (user?.permissions || []).includes("shifts:manage");
+
+    // Supervisors may file a request on an employee's behalf
+    const employeeId = canReview && req.body.employeeId ? req.body.employeeId : user?.employeeId;
+    if (!employeeId) return res.status(400).json({ error: "Your account is not linked to an employee" });
+
+    const employee = await storage.getEmployee(employeeId);
+    if (!employee) return res.status(404).json({ error: "Employee not found" });
+
+    const parsed = insertTimeOffRequestSchema.pick({ startDate: true, endDate: true, reason: true }).safeParse({
+      startDate: req.body.startDate,
+      endDate: req.body.endDate || req.body.startDate,
+      reason: req.body.reason || null,
+    });
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    if (parsed.data.endDate < parsed.data.startDate) {
+      return res.status(400).json({ error: "End date must be on or after the start date" });
+    }
+
+    const request = await storage.createTimeOffRequest({
+      ...parsed.data,
+      employeeId,
+      status: "pending",
+      source: "web",
+    });
+
+    await logAuditEvent({
+      action: "time_off_requested",
+      actor: user,
+      targetType: "time_off",
+      targetId: request.id,
+      targetName: `${employee.name}: ${describeTimeOff(request)}`,
+      details: { employeeId, startDate: request.startDate, endDate: request.endDate, reason: request.reason, source: "web" },
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(201).json(request);
+  });
+
+  // Approve or deny a pending request
+  const reviewTimeOffRequest = async (req: Request, res: Response, approved: boolean) => {
+    const user = req.user as any;
+    if (!(user?.permissions || []).includes("shifts:manage")) {
+      return res.status(403).json({ error: "Permission denied. Shift management required." });
+    }
+
+    const existing = await storage.getTimeOffRequest(req.params.id);
+    if (!existing) return res.status(404).json({ error: "Time-off request not found" });
+    if (existing.status !== "pending") {
+      return res.status(400).json({ error: `Request has already been ${existing.status}` });
+    }
+
+    const request = await storage.updateTimeOffRequest(existing.id, {
+      status: approved ? "approved" : "denied",
+      reviewedById: user?.id ?? null,
+      reviewedByName: user?.employeeName || user?.username || null,
+      reviewNote: req.body.note || null,
+      reviewedAt: new Date(),
+    });
+    if (!request) return res.status(404).json({ error: "Time-off request not found" });
+
+    const employee = await storage.getEmployee(request.employeeId);
+    const conflictingShifts = approved ? await getAssignedShiftsDuring(request.employeeId, request) : [];
+
+    await logAuditEvent({
+      action: approved ? "time_off_approved" : "time_off_denied",
+      actor: user,
+      targetType: "time_off",
+      targetId: request.id,
+      targetName: `${employee?.name || "Unknown"}: ${describeTimeOff(request)}`,
+      details: {
+        employeeId: request.employeeId,
+        startDate: request.startDate,
+        endDate: request.endDate,
+        note: request.reviewNote,
+        ...(conflictingShifts.length > 0 && { conflictingShiftIds: conflictingShifts.map(s => s.id) }),
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    if (employee) {
+      const webhookBaseUrl = getWebhookBaseUrl(req);
+      notifyTimeOffDecision(request, employee, webhookBaseUrl).catch(err => {
+        console.error("Error sending time-off decision:", err);
+      });
+    }
+
+    res.json({ ...request, conflictingShifts });
+  };
+
+  app.post("/api/time-off/:id/approve", (req, res) => reviewTimeOffRequest(req, res, true));
+  app.post("/api/time-off/:id/deny", (req, res) => reviewTimeOffRequest(req, res, false));
+
+  // Employees can cancel their own pending requests; supervisors can cancel any pending or approved request
+  app.post("/api/time-off/:id/cancel", async (req, res) => {
+    const user = req.user as any;
+    const canReview = (user?.permissions || []).includes("shifts:manage");
+
+    const existing = await storage.getTimeOffRequest(req.params.id);
+    if (!existing) return res.status(404).json({ error: "Time-off request not found" });
+    if (!canReview && existing.employeeId !== user?.employeeId) {
+      return res.status(403).json({ error: "You can only cancel your own requests" });
+    }
+    const cancellable = canReview ? ["pending", "approved"] : ["pending"];
+    if (!cancellable.includes(existing.status)) {
+      return res.status(400).json({ error: `A ${existing.status} request can't be cancelled` });
+    }
+
+    const request = await storage.updateTimeOffRequest(existing.id, { status: "cancelled" });
+    if (!request) return res.status(404).json({ error: "Time-off request not found" });
+
+    const employee = await storage.getEmployee(request.employeeId);
+    await logAuditEvent({
+      action: "time_off_cancelled",
+      actor: user,
+      targetType: "time_off",
+      targetId: request.id,
+      targetName: `${employee?.name || "Unknown"}: ${describeTimeOff(request)}`,
+      details: { employeeId: request.employeeId, previousStatus: existing.status },
+      ipAddress: getClientIp(req),
+    });
+
+    res.json(request);
+  });
+
   // User Management (Admin)
   app.get("/api/admin/users/by-employee/:employeeId", async (req, res) => {
     const user = await storage.getUserByEmployeeId(req.params.employeeId);
@@ -687,46 +1215,29 @@ export async function registerRoutes(
     res.json({ message: "Password updated successfully" });
   });
 
-  // Shifts
+  // Shifts - filtered and sorted in storage. Without a limit the whole list comes back as an array;
+  // with one it comes back a page at a time, following nextCursor
   app.get("/api/shifts", async (req, res) => {
-    // Allow management interface to request all shifts including past/expired ones
-    const includePast = req.query.includePast === "true";
-    const shifts = await storage.getShifts(includePast);
-    
-    // Get current datetime for expiration comparison
-    const now = new Date();
-    
-    // Include area info, interest count, and assigned employee
-    const shiftsWithInfo = await Promise.all(
-      shifts.map(async (shift) => {
-        const area = await storage.getArea(shift.areaId);
-        const interests = await storage.getShiftInterests(shift.id);
-        const assignedEmployee = shift.assignedEmployeeId
-          ? await storage.getEmployee(shift.assignedEmployeeId)
-          : null;
-        const position = await storage.getPosition(shift.positionId);
-        
-        // Compute expired status dynamically based on shift date and end time
-        // A shift is expired if its end datetime has passed and it's still "available" (not claimed)
-        let computedStatus = shift.status;
-        if (shift.status === "available") {
-          const shiftEndDateTime = new Date(`${shift.date}T${shift.endTime}:00`);
-          if (shiftEndDateTime < now) {
-            computedStatus = "expired";
-          }
-        }
-        
-        return {
-          ...shift,
-          status: computedStatus,
-          area,
-          position: position?.title || "Unknown Position",
-          interestedCount: interests.length,
-          assignedEmployee,
-        };
-      })
-    );
-    res.json(shiftsWithInfo);
+    const parsed = shiftQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    const { limit, cursor, ...filters } = parsed.data;
+
+    if (limit === undefined) {
+      const { shifts } = await storage.getShiftList(filters);
+      return res.json(shifts);
+    }
+
+    const page = await getShiftPage(filters, limit, cursor);
+    if ("error" in page) return res.status(400).json({ error: page.error });
+    res.json(page);
+  });
+
+  // How many shifts match the filters, by status - for stats that don't need the shifts themselves
+  app.get("/api/shifts/summary", async (req, res) => {
+    const parsed = shiftQuerySchema.omit({ limit: true, cursor: true, sort: true }).safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    const counts = await storage.countShiftsByStatus(parsed.data);
+    res.json(counts);
   });
 
   app.get("/api/shifts/:id", async (req, res) => {
@@ -738,16 +1249,37 @@ export async function registerRoutes(
       ? await storage.getEmployee(shift.assignedEmployeeId)
       : null;
     const position = await storage.getPosition(shift.positionId);
+
+    // Flag interested employees who are already working or whose assignment would break overtime/rest rules
+    const interestedEmployees = await Promise.all(
+      interests.map(async (i) => {
+        const isAvailable = shift.status === "available";
+        const ruleCheck = isAvailable
+          ? await evaluateAssignmentRules(i.employeeId, shift)
+          : { violations: [], blocked: false };
+        const conflict = isAvailable ? await findOverlappingShift(i.employeeId, shift) : undefined;
+        const timeOff = isAvailable ? await findApprovedTimeOff(i.employeeId, shift) : undefined;
+        const missingCertifications = isAvailable ? await findMissingCertifications(i.employeeId, shift) : [];
+        return {
+          id: i.employeeId,
+          name: i.employee.name,
+          timestamp: i.createdAt.toISOString(),
+          ruleViolations: ruleCheck.violations,
+          conflictingShift: conflict
+            ? { id: conflict.id, date: conflict.date, startTime: conflict.startTime, endTime: conflict.endTime, location: conflict.location }
+            : null,
+          timeOff: timeOff ? { id: timeOff.id, startDate: timeOff.startDate, endDate: timeOff.endDate } : null,
+          missingCertifications: missingCertifications.map(c => c.name),
+        };
+      })
+    );
+
     res.json({
       ...shift,
       area,
       assignedEmployee,
       position: position?.title || "Unknown Position",
-      interestedEmployees: interests.map((i) => ({
-        id: i.employeeId,
-        name: i.employee.name,
-        timestamp: i.createdAt.toISOString(),
-      })),
+      interestedEmployees,
     });
   });
 
@@ -767,12 +1299,19 @@ export async function registerRoutes(
       // Non-boolean value, default to false
       shiftData.notifyAllAreas = false;
     }
+
+    // Escalating to all areas needs the same permission as notifying all areas up front
+    if (shiftData.escalationPolicy && !userPermissions.includes("shifts:all_areas")) {
+      shiftData.escalationPolicy = stripAllAreasEscalation(shiftData.escalationPolicy);
+      console.warn(`User ${user?.username} attempted to escalate to all areas without permission`);
+    }
     
     const parsed = insertShiftSchema.safeParse(shiftData);
     if (!parsed.success) return res.status(400).json({ error: parsed.error });
 
     try {
       const shift = await storage.createShift(parsed.data);
+      broadcastShiftUpdate(shift, "shift_created");
 
       let notificationRecipients: { id: string; name: string; phone: string }[] = [];
       let smsResult = { sent: 0, failed: 0 };
@@ -795,15 +1334,15 @@ export async function registerRoutes(
           employeesToNotify = areaEmployees.filter(e => e.status === "active" && e.smsOptIn);
           console.log(`Found ${areaEmployees.length} employees in area, ${employeesToNotify.length} eligible for SMS`);
         }
+
+        // Skip employees who marked themselves unavailable for this shift
+        employeesToNotify = (await partitionByAvailability(shift, employeesToNotify)).available;
         
         if (employeesToNotify.length > 0) {
           notificationRecipients = employeesToNotify.map(e => ({ id: e.id, name: e.name, phone: e.phone }));
 
           // Get webhook base URL for status callbacks
-          const protocol = req.secure ? "https" : "http";
-          const forwardedHost = req.headers["x-forwarded-host"] as string;
-          const host = forwardedHost || process.env.REPLIT_DEV_DOMAIN || req.get("host");
-          const webhookBaseUrl = process.env.WEBHOOK_BASE_URL || `${protocol}://${host}`;
+          const webhookBaseUrl = getWebhookBaseUrl(req);
 
           // Track notification stats on the shift
           await storage.updateShift(shift.id, {
@@ -814,7 +1353,7 @@ export async function registerRoutes(
           // Send SMS notifications asynchronously
           notifyNewShift(shift, area, employeesToNotify, webhookBaseUrl)
             .then(result => {
-              console.log(`Shift notification sent: ${result.sent} successful, ${result.failed} failed`);
+              console.log(`Shift notification queued: ${result.queued} queued, ${result.failed} failed`);
             })
             .catch(err => {
               console.error("Error sending shift notifications:", err);
@@ -856,9 +1395,29 @@ export async function registerRoutes(
       }
       // If it's a valid boolean (true or false) and user has permission, keep it as-is
     }
+
+    // Fill time is set by assignment, not edits
+    delete updateData.filledAt;
+
+    // A new escalation policy starts over from the first step
+    delete updateData.escalationStage;
+    delete updateData.escalatedAt;
+    if ("escalationPolicy" in updateData) {
+      let policy = updateData.escalationPolicy;
+      if (policy && !userPermissions.includes("shifts:all_areas")) {
+        policy = stripAllAreasEscalation(policy);
+        console.warn(`User ${user?.username} attempted to escalate to all areas via PATCH without permission`);
+      }
+      const parsedPolicy = escalationPolicySchema.nullable().safeParse(policy);
+      if (!parsedPolicy.success) return res.status(400).json({ error: parsedPolicy.error });
+      updateData.escalationPolicy = parsedPolicy.data;
+      updateData.escalationStage = 0;
+      updateData.escalatedAt = null;
+    }
     
     const shift = await storage.updateShift(req.params.id, updateData);
     if (!shift) return res.status(404).json({ error: "Shift not found" });
+    broadcastShiftUpdate(shift, "shift_updated");
     res.json(shift);
   });
 
@@ -867,6 +1426,14 @@ export async function registerRoutes(
     const deleted = await storage.deleteShift(req.params.id);
     if (!deleted) return res.status(404).json({ error: "Shift not found" });
 
+    // Keep the recurrence generator from recreating a cancelled occurrence
+    if (shift?.templateId) {
+      await excludeOccurrence(shift);
+    }
+    if (shift) {
+      broadcastShiftUpdate(shift, "shift_deleted", shift.assignedEmployeeId);
+    }
+
     await logAuditEvent({
       action: "shift_deleted",
       actor: req.user as any,
@@ -880,19 +1447,161 @@ export async function registerRoutes(
     res.status(204).send();
   });
 
-  // Repost shift - resend notifications to eligible employees
-  app.post("/api/shifts/:id/repost", async (req, res) => {
-    try {
-      const shift = await storage.getShift(req.params.id);
-      if (!shift) return res.status(404).json({ error: "Shift not found" });
-      
-      // Only repost available shifts
-      if (shift.status !== "available") {
-        return res.status(400).json({ error: "Can only repost available shifts" });
-      }
-
-      const { bonusAmount, customMessage } = req.body;
-
+  // Edit a recurring shift - "this" occurrence only, or "this and following"
+  app.patch("/api/shifts/:id/series", async (req, res) => {
+    const user = req.user as any;
+    const userPermissions = user?.permissions || [];
+    if (!userPermissions.includes("shifts:manage")) {
+      return res.status(403).json({ error: "Permission denied. Shift management required." });
+    }
+
+    const { scope, ...updateData } = req.body;
+    if (scope !== "this" && scope !== "following") {
+      return res.status(400).json({ error: "scope must be 'this' or 'following'" });
+    }
+
+    const shift = await storage.getShift(req.params.id);
+    if (!shift) return res.status(404).json({ error: "Shift not found" });
+
+    if ("notifyAllAreas" in updateData) {
+      if (typeof updateData.notifyAllAreas !== "boolean") {
+        delete updateData.notifyAllAreas;
+      } else if (updateData.notifyAllAreas && !userPermissions.includes("shifts:all_areas")) {
+        delete updateData.notifyAllAreas;
+        console.warn(`User ${user?.username} attempted to set notifyAllAreas via series PATCH without permission`);
+      }
+    }
+
+    if (scope === "this" || !shift.templateId) {
+      const updated = await storage.updateShift(shift.id, updateData);
+      if (updated) {
+        broadcastShiftUpdate(updated, "shift_updated");
+
+        await logAuditEvent({
+          action: "shift_updated",
+          actor: user,
+          targetType: "shift",
+          targetId: updated.id,
+          targetName: `${updated.date} ${updated.startTime}-${updated.endTime}`,
+          details: { templateId: shift.templateId, scope: "this", changes: updateData },
+          ipAddress: getClientIp(req),
+        });
+      }
+      return res.json({ updatedCount: updated ? 1 : 0, shifts: updated ? [updated] : [] });
+    }
+
+    try {
+      // A date change only ever moves the selected occurrence
+      if (updateData.date && updateData.date !== shift.date) {
+        await storage.updateShift(shift.id, { date: updateData.date });
+      }
+
+      const seriesUpdates = pickSeriesUpdates(updateData);
+      const { updated, skipped } = await updateFollowingOccurrences(shift, seriesUpdates);
+      const template = await storage.getShiftTemplate(shift.templateId);
+
+      for (const occurrence of updated) {
+        broadcastShiftUpdate(occurrence, "shift_updated");
+      }
+
+      await logAuditEvent({
+        action: "shift_series_updated",
+        actor: user,
+        targetType: "template",
+        targetId: shift.templateId,
+        targetName: template?.name,
+        details: {
+          fromDate: shift.occurrenceDate ?? shift.date,
+          updatedCount: updated.length,
+          skippedShiftIds: skipped.map(s => s.id),
+          changes: seriesUpdates,
+        },
+        ipAddress: getClientIp(req),
+      });
+
+      res.json({ updatedCount: updated.length, shifts: updated, skippedCount: skipped.length, skippedShifts: skipped });
+    } catch (error) {
+      console.error("Error updating shift series:", error);
+      res.status(500).json({ error: "Failed to update shift series" });
+    }
+  });
+
+  // Cancel a recurring shift - "this" occurrence only, or "this and following"
+  app.post("/api/shifts/:id/series/cancel", async (req, res) => {
+    const user = req.user as any;
+    const userPermissions = user?.permissions || [];
+    if (!userPermissions.includes("shifts:manage")) {
+      return res.status(403).json({ error: "Permission denied. Shift management required." });
+    }
+
+    const { scope } = req.body;
+    if (scope !== "this" && scope !== "following") {
+      return res.status(400).json({ error: "scope must be 'this' or 'following'" });
+    }
+
+    const shift = await storage.getShift(req.params.id);
+    if (!shift) return res.status(404).json({ error: "Shift not found" });
+
+    const webhookBaseUrl = getWebhookBaseUrl(req);
+
+    try {
+      if (scope === "this" || !shift.templateId) {
+        await releaseCancelledShift(shift, webhookBaseUrl);
+        const deleted = await storage.deleteShift(shift.id);
+        if (!deleted) return res.status(404).json({ error: "Shift not found" });
+        await excludeOccurrence(shift);
+        broadcastShiftUpdate(shift, "shift_deleted", shift.assignedEmployeeId);
+
+        await logAuditEvent({
+          action: "shift_deleted",
+          actor: user,
+          targetType: "shift",
+          targetId: shift.id,
+          targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+          details: { location: shift.location, areaId: shift.areaId, templateId: shift.templateId },
+          ipAddress: getClientIp(req),
+        });
+
+        return res.json({ cancelledCount: 1 });
+      }
+
+      const template = await storage.getShiftTemplate(shift.templateId);
+      const cancelled = await cancelFollowingOccurrences(shift, webhookBaseUrl);
+
+      await logAuditEvent({
+        action: "shift_series_cancelled",
+        actor: user,
+        targetType: "template",
+        targetId: shift.templateId,
+        targetName: template?.name,
+        details: {
+          fromDate: shift.occurrenceDate ?? shift.date,
+          cancelledCount: cancelled.length,
+          cancelledShiftIds: cancelled.map(s => s.id),
+        },
+        ipAddress: getClientIp(req),
+      });
+
+      res.json({ cancelledCount: cancelled.length });
+    } catch (error) {
+      console.error("Error cancelling shift series:", error);
+      res.status(500).json({ error: "Failed to cancel shift series" });
+    }
+  });
+
+  // Repost shift - resend notifications to eligible employees
+  app.post("/api/shifts/:id/repost", async (req, res) => {
+    try {
+      const shift = await storage.getShift(req.params.id);
+      if (!shift) return res.status(404).json({ error: "Shift not found" });
+      
+      // Only repost available shifts
+      if (shift.status !== "available") {
+        return res.status(400).json({ error: "Can only repost available shifts" });
+      }
+
+      const { bonusAmount, customMessage } = req.body;
+
       // Update bonus if provided
       let updatedShift = shift;
       if (bonusAmount !== undefined) {
@@ -936,10 +1645,7 @@ export async function registerRoutes(
       }
 
       // Send notifications
-      const protocol = req.secure ? "https" : (req.headers["x-forwarded-proto"] as string) || "http";
-      const forwardedHost = req.headers["x-forwarded-host"] as string;
-      const host = forwardedHost || process.env.REPLIT_DEV_DOMAIN || req.get("host");
-      const webhookBaseUrl = process.env.WEBHOOK_BASE_URL || `${protocol}://${host}`;
+      const webhookBaseUrl = getWebhookBaseUrl(req);
 
       // Pass position for SMS template variables - use repost-specific notification
       if (eligibleEmployees.length > 0) {
@@ -951,7 +1657,7 @@ export async function registerRoutes(
         
         notifyRepostedShift(updatedShift, area, eligibleEmployees, webhookBaseUrl)
           .then(result => {
-            console.log(`Shift repost notification sent: ${result.sent} successful, ${result.failed} failed`);
+            console.log(`Shift repost notification queued: ${result.queued} queued, ${result.failed} failed`);
           })
           .catch(err => {
             console.error("Error sending shift repost notifications:", err);
@@ -1023,11 +1729,9 @@ export async function registerRoutes(
           emp.smsOptIn
         );
       }
+      eligibleEmployees = (await partitionByAvailability(shift, eligibleEmployees)).available;
 
-      const protocol = req.secure ? "https" : (req.headers["x-forwarded-proto"] as string) || "http";
-      const forwardedHost = req.headers["x-forwarded-host"] as string;
-      const host = forwardedHost || process.env.REPLIT_DEV_DOMAIN || req.get("host");
-      const webhookBaseUrl = process.env.WEBHOOK_BASE_URL || `${protocol}://${host}`;
+      const webhookBaseUrl = getWebhookBaseUrl(req);
 
       if (eligibleEmployees.length > 0) {
         await storage.updateShift(shift.id, {
@@ -1037,7 +1741,7 @@ export async function registerRoutes(
 
         notifyNewShift(shift, area, eligibleEmployees, webhookBaseUrl)
           .then(result => {
-            console.log(`Quick notify sent: ${result.sent} successful, ${result.failed} failed`);
+            console.log(`Quick notify queued: ${result.queued} queued, ${result.failed} failed`);
           })
           .catch(err => {
             console.error("Error sending quick notifications:", err);
@@ -1069,6 +1773,61 @@ export async function registerRoutes(
     }
   });
 
+  // Callout poll - text eligible employees asking who can cover an open shift on short notice
+  app.post("/api/shifts/:id/callout", async (req, res) => {
+    const user = req.user as any;
+    const userPermissions = user?.permissions || [];
+    if (!userPermissions.includes("shifts:manage")) {
+      return res.status(403).json({ error: "Permission denied. Shift management required." });
+    }
+
+    try {
+      const shift = await storage.getShift(req.params.id);
+      if (!shift) return res.status(404).json({ error: "Shift not found" });
+
+      if (shift.status !== "available") {
+        return res.status(400).json({ error: "Can only send a callout poll for available shifts" });
+      }
+
+      const area = await storage.getArea(shift.areaId);
+      const candidates = shift.notifyAllAreas === true
+        ? await storage.getEmployees()
+        : await storage.getAreaEmployees(shift.areaId);
+
+      // Employees who already expressed interest have answered
+      const interested = new Set((await storage.getShiftInterests(shift.id)).map(i => i.employeeId));
+      let recipients = candidates.filter((emp: Employee) =>
+        emp.positionId === shift.positionId &&
+        emp.status === "active" &&
+        emp.smsOptIn &&
+        !interested.has(emp.id)
+      );
+      recipients = (await partitionByAvailability(shift, recipients)).available;
+
+      const result = await notifyCalloutPoll(shift, area, recipients);
+
+      await logAuditEvent({
+        action: "callout_poll_sent",
+        actor: req.user as any,
+        targetType: "shift",
+        targetId: shift.id,
+        targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+        details: {
+          location: shift.location,
+          areaId: shift.areaId,
+          recipientCount: recipients.length,
+          queued: result.queued,
+        },
+        ipAddress: getClientIp(req),
+      });
+
+      res.json({ success: true, pollCount: result.queued });
+    } catch (error) {
+      console.error("Error sending callout poll:", error);
+      res.status(500).json({ error: "Failed to send callout poll" });
+    }
+  });
+
   // Assign shift to employee
   app.post("/api/shifts/:id/assign", async (req, res) => {
     console.log("Assign shift request:", { shiftId: req.params.id, body: req.body });
@@ -1079,15 +1838,58 @@ export async function registerRoutes(
       console.log("Shift not found:", req.params.id);
       return res.status(404).json({ error: "Shift not found" });
     }
-    const shift = await storage.updateShift(req.params.id, {
-      status: "claimed",
-      assignedEmployeeId: employeeId,
-    });
-    console.log("Updated shift:", shift);
-    if (!shift) return res.status(404).json({ error: "Shift not found" });
 
-    const employee = await storage.getEmployee(employeeId);
-    const area = await storage.getArea(shift.areaId);
+    // Approved time off, double booking and missing certifications can't be overridden
+    const timeOff = await findApprovedTimeOff(employeeId, originalShift);
+    if (timeOff) {
+      return res.status(409).json({
+        error: `Employee has approved time off for ${describeTimeOff(timeOff)}`,
+        timeOffRequestId: timeOff.id,
+      });
+    }
+
+    const conflict = await findOverlappingShift(employeeId, originalShift);
+    if (conflict) {
+      return res.status(409).json({
+        error: `Employee is already assigned to an overlapping shift: ${describeConflict(conflict)}`,
+        conflictingShiftId: conflict.id,
+      });
+    }
+
+    const missingCertifications = await findMissingCertifications(employeeId, originalShift);
+    if (missingCertifications.length > 0) {
+      return res.status(409).json({
+        error: `Employee is missing required certifications: ${describeMissingCertifications(missingCertifications)}`,
+        missingCertifications: missingCertifications.map(c => c.name),
+      });
+    }
+
+    // Overtime and rest guardrails - warnings need an explicit override, blocks need an admin override
+    const user = req.user as any;
+    const ruleCheck = await evaluateAssignmentRules(employeeId, originalShift);
+    if (ruleCheck.violations.length > 0) {
+      if (!isForceAssignment) {
+        return res.status(409).json({
+          error: `Assignment breaks scheduling rules: ${describeViolations(ruleCheck.violations)}`,
+          violations: ruleCheck.violations,
+          blocked: ruleCheck.blocked,
+        });
+      }
+      if (ruleCheck.blocked && user?.role !== "admin") {
+        return res.status(403).json({
+          error: `Only an admin can override blocking rules: ${describeViolations(ruleCheck.violations)}`,
+          violations: ruleCheck.violations,
+          blocked: true,
+        });
+      }
+    }
+
+    const webhookBaseUrl = getWebhookBaseUrl(req);
+
+    const assigned = await assignShiftToEmployee(originalShift, employeeId, { sendNotification, webhookBaseUrl });
+    console.log("Updated shift:", assigned?.shift);
+    if (!assigned) return res.status(404).json({ error: "Shift not found" });
+    const { shift, employee } = assigned;
 
     await logAuditEvent({
       action: isForceAssignment ? "force_assignment" : "shift_assigned",
@@ -1101,49 +1903,19 @@ export async function registerRoutes(
         location: shift.location,
         previousStatus: originalShift?.status,
         isForceAssignment: !!isForceAssignment,
+        ...(ruleCheck.violations.length > 0 && {
+          overriddenRules: ruleCheck.violations.map(v => ({
+            rule: v.rule,
+            mode: v.mode,
+            limit: v.limit,
+            actual: v.actual,
+            message: v.message,
+          })),
+        }),
       },
       ipAddress: getClientIp(req),
     });
 
-    // Send SMS confirmation if enabled and employee exists
-    const protocol = req.secure ? "https" : "http";
-    const host = req.get("host");
-    const webhookBaseUrl = process.env.WEBHOOK_BASE_URL || `${protocol}://${host}`;
-
-    if (sendNotification && employee) {
-      // Send confirmation asynchronously
-      notifyShiftAssigned(shift, employee, area, webhookBaseUrl)
-        .then(result => {
-          if (result.success) {
-            console.log(`Shift confirmation sent to ${employee.name}`);
-          } else {
-            console.log(`Failed to send shift confirmation to ${employee.name}: ${result.errorMessage}`);
-          }
-        })
-        .catch(err => {
-          console.error("Error sending shift confirmation:", err);
-        });
-    }
-
-    // Schedule shift reminder if employee exists
-    if (employee) {
-      scheduleShiftReminder(shift, employee, area, webhookBaseUrl)
-        .catch(err => {
-          console.error("Error scheduling shift reminder:", err);
-        });
-    }
-
-    // Notify other interested employees that this shift has been filled
-    notifyShiftFilledToOthers(shift, employeeId, webhookBaseUrl)
-      .then(result => {
-        if (result.sent > 0) {
-          console.log(`Notified ${result.sent} other interested employees that shift was filled`);
-        }
-      })
-      .catch(err => {
-        console.error("Error notifying other interested employees:", err);
-      });
-
     res.json(shift);
   });
 
@@ -1172,11 +1944,14 @@ export async function registerRoutes(
     const shift = await storage.updateShift(req.params.id, {
       status: "available",
       assignedEmployeeId: null,
+      filledAt: null,
     });
     
     if (!shift) {
       return res.status(404).json({ error: "Failed to update shift" });
     }
+
+    await cancelActiveSwap(shift.id);
     
     // Log audit event
     await logAuditEvent({
@@ -1196,9 +1971,7 @@ export async function registerRoutes(
     
     // Send notification to unassigned employee
     if (sendNotification && unassignedEmployee) {
-      const protocol = req.secure ? "https" : "http";
-      const host = req.get("host");
-      const webhookBaseUrl = process.env.WEBHOOK_BASE_URL || `${protocol}://${host}`;
+      const webhookBaseUrl = getWebhookBaseUrl(req);
       
       notifyShiftUnassigned(shift, unassignedEmployee, area, webhookBaseUrl)
         .then(result => {
@@ -1231,11 +2004,300 @@ export async function registerRoutes(
     const interest = await storage.createShiftInterest(parsed.data);
     
     // Broadcast real-time update
-    broadcastShiftUpdate(req.params.id, "interest_added");
+    broadcastShiftUpdate(req.params.id, "interest_added", interest.employeeId);
     
     res.status(201).json(interest);
   });
 
+  // Shift swaps - the assigned employee offers a claimed shift to the pool or to a coworker
+  app.get("/api/swaps", async (req, res) => {
+    const user = req.user as any;
+    const canReview = (user?.permissions || []).includes("shifts:manage");
+    const { status } = req.query;
+
+    let swaps = await storage.getShiftSwaps({ status: typeof status === "string" ? status : undefined });
+
+    // Without review permission, only swaps you're part of or could take are visible
+    if (!canReview) {
+      const employee = user?.employeeId ? await storage.getEmployee(user.employeeId) : undefined;
+      if (!employee) return res.json([]);
+
+      const visible: ShiftSwap[] = [];
+      for (const swap of swaps) {
+        if ([swap.offeredById, swap.targetEmployeeId, swap.acceptedById].includes(employee.id)) {
+          visible.push(swap);
+        } else if (swap.status === "open" && !swap.targetEmployeeId) {
+          const shift = await storage.getShift(swap.shiftId);
+          if (shift && await isSwapCoworker(shift, employee)) visible.push(swap);
+        }
+      }
+      swaps = visible;
+    }
+
+    const employeesById = new Map((await storage.getEmployees()).map(e => [e.id, e]));
+    const swapsWithDetails = [];
+    for (const swap of swaps) {
+      const shift = await storage.getShift(swap.shiftId);
+      if (!shift) continue;
+      swapsWithDetails.push({
+        ...swap,
+        shift: { id: shift.id, date: shift.date, startTime: shift.startTime, endTime: shift.endTime, location: shift.location },
+        offeredByName: employeesById.get(swap.offeredById)?.name || "Unknown",
+        targetEmployeeName: swap.targetEmployeeId ? employeesById.get(swap.targetEmployeeId)?.name || "Unknown" : null,
+        acceptedByName: swap.acceptedById ? employeesById.get(swap.acceptedById)?.name || "Unknown" : null,
+      });
+    }
+    res.json(swapsWithDetails);
+  });
+
+  // Coworkers a shift can be offered to, with the reason any of them can't take it
+  app.get("/api/shifts/:id/swap-coworkers", async (req, res) => {
+    const user = req.user as any;
+    const shift = await storage.getShift(req.params.id);
+    if (!shift) return res.status(404).json({ error: "Shift not found" });
+    if (!shift.assignedEmployeeId) return res.json([]);
+
+    const canManage = (user?.permissions || []).includes("shifts:manage");
+    if (!canManage && shift.assignedEmployeeId !== user?.employeeId) {
+      return res.status(403).json({ error: "You can only swap your own shifts" });
+    }
+
+    const coworkers = await getSwapCoworkers(shift, shift.assignedEmployeeId);
+    const result = await Promise.all(
+      coworkers.map(async (coworker) => ({
+        id: coworker.id,
+        name: coworker.name,
+        conflict: await getSwapConflict(coworker.id, shift),
+      }))
+    );
+    res.json(result);
+  });
+
+  app.post("/api/shifts/:id/swap", async (req, res) => {
+    const user = req.user as any;
+    const { targetEmployeeId, note } = req.body;
+    const shift = await storage.getShift(req.params.id);
+    if (!shift) return res.status(404).json({ error: "Shift not found" });
+    if (shift.status !== "claimed" || !shift.assignedEmployeeId) {
+      return res.status(400).json({ error: "Only assigned shifts can be swapped" });
+    }
+
+    // Supervisors may offer a shift on the assigned employee's behalf
+    const canManage = (user?.permissions || []).includes("shifts:manage");
+    if (!canManage && shift.assignedEmployeeId !== user?.employeeId) {
+      return res.status(403).json({ error: "You can only swap your own shifts" });
+    }
+    if (await getActiveSwap(shift.id)) {
+      return res.status(409).json({ error: "This shift already has a swap in progress" });
+    }
+
+    const offeredBy = await storage.getEmployee(shift.assignedEmployeeId);
+    if (!offeredBy) return res.status(404).json({ error: "Employee not found" });
+
+    let recipients: Employee[];
+    let target: Employee | undefined;
+    if (targetEmployeeId) {
+      target = await storage.getEmployee(targetEmployeeId);
+      if (!target || target.id === offeredBy.id || !(await isSwapCoworker(shift, target))) {
+        return res.status(400).json({ error: "Shifts can only be swapped with coworkers in the same position and area" });
+      }
+      const conflict = await getSwapConflict(target.id, shift);
+      if (conflict) {
+        return res.status(409).json({ error: `${target.name} can't take this shift: ${conflict}` });
+      }
+      recipients = [target];
+    } else {
+      const { available } = await partitionByAvailability(shift, await getSwapCoworkers(shift, offeredBy.id));
+      recipients = available;
+    }
+
+    const swap = await storage.createShiftSwap({
+      shiftId: shift.id,
+      offeredById: offeredBy.id,
+      targetEmployeeId: target?.id ?? null,
+      note: note || null,
+      status: "open",
+    });
+
+    await logAuditEvent({
+      action: "shift_swap_requested",
+      actor: user,
+      targetType: "shift",
+      targetId: shift.id,
+      targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+      details: {
+        swapId: swap.id,
+        offeredById: offeredBy.id,
+        offeredByName: offeredBy.name,
+        targetEmployeeId: target?.id,
+        targetEmployeeName: target?.name,
+        note: swap.note,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    broadcastShiftUpdate(shift, "shift_updated", offeredBy.id);
+
+    const webhookBaseUrl = getWebhookBaseUrl(req);
+    notifySwapOffered(shift, swap, offeredBy, recipients, webhookBaseUrl)
+      .then(result => {
+        console.log(`Swap offer for shift ${shift.id}: ${result.queued} queued, ${result.failed} failed`);
+      })
+      .catch(err => {
+        console.error("Error sending swap offers:", err);
+      });
+
+    res.status(201).json({ ...swap, recipientCount: recipients.length });
+  });
+
+  app.post("/api/swaps/:id/accept", async (req, res) => {
+    const user = req.user as any;
+    if (!user?.employeeId) return res.status(400).json({ error: "Your account is not linked to an employee" });
+
+    const swap = await storage.getShiftSwap(req.params.id);
+    if (!swap) return res.status(404).json({ error: "Swap not found" });
+    const employee = await storage.getEmployee(user.employeeId);
+    if (!employee) return res.status(404).json({ error: "Employee not found" });
+
+    const webhookBaseUrl = getWebhookBaseUrl(req);
+
+    const result = await acceptSwap(swap, employee, webhookBaseUrl);
+    if (!result.success) return res.status(409).json({ error: result.error });
+
+    const { shift } = result;
+    await logAuditEvent({
+      action: "shift_swap_accepted",
+      actor: user,
+      targetType: "shift",
+      targetId: shift.id,
+      targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+      details: { swapId: swap.id, offeredById: swap.offeredById, acceptedById: employee.id, acceptedByName: employee.name, method: "web" },
+      ipAddress: getClientIp(req),
+    });
+
+    if (result.completed) {
+      await logAuditEvent({
+        action: "shift_swap_approved",
+        actor: null,
+        targetType: "shift",
+        targetId: shift.id,
+        targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+        details: { swapId: swap.id, offeredById: swap.offeredById, acceptedById: employee.id, autoApproved: true },
+        ipAddress: getClientIp(req),
+      });
+      notifySwapParties(shift, result.swap, webhookBaseUrl).catch(err => {
+        console.error("Error sending swap decision:", err);
+      });
+    }
+
+    res.json(result.swap);
+  });
+
+  // Approve or deny an accepted swap
+  const reviewSwap = async (req: Request, res: Response, approved: boolean) => {
+    const user = req.user as any;
+    if (!(user?.permissions || []).includes("shifts:manage")) {
+      return res.status(403).json({ error: "Permission denied. Shift management required." });
+    }
+
+    const swap = await storage.getShiftSwap(req.params.id);
+    if (!swap) return res.status(404).json({ error: "Swap not found" });
+    if (swap.status !== "pending_approval" || !swap.acceptedById) {
+      return res.status(400).json({ error: "Only accepted swaps can be reviewed" });
+    }
+
+    const shift = await storage.getShift(swap.shiftId);
+    if (!shift) return res.status(404).json({ error: "Shift not found" });
+
+    const webhookBaseUrl = getWebhookBaseUrl(req);
+    const review = {
+      reviewedById: user?.id ?? null,
+      reviewedByName: user?.employeeName || user?.username || null,
+      reviewNote: req.body.note || null,
+    };
+
+    let updated: ShiftSwap | undefined;
+    let updatedShift = shift;
+    if (approved) {
+      if (shift.status !== "claimed" || shift.assignedEmployeeId !== swap.offeredById) {
+        await cancelActiveSwap(shift.id);
+        return res.status(409).json({ error: "The shift has been reassigned since this swap was offered" });
+      }
+      const conflict = await getSwapConflict(swap.acceptedById, shift);
+      if (conflict) {
+        return res.status(409).json({ error: `The coworker can no longer take this shift: ${conflict}` });
+      }
+
+      const completed = await completeSwap(swap, webhookBaseUrl, review);
+      if (!completed) return res.status(404).json({ error: "Failed to update shift" });
+      updated = completed.swap;
+      updatedShift = completed.shift;
+    } else {
+      updated = await storage.updateShiftSwap(swap.id, { ...review, status: "denied", resolvedAt: new Date() });
+      await storage.deleteShiftInterest(shift.id, swap.acceptedById);
+      broadcastShiftUpdate(shift, "interest_removed", swap.acceptedById);
+    }
+    if (!updated) return res.status(404).json({ error: "Swap not found" });
+
+    await logAuditEvent({
+      action: approved ? "shift_swap_approved" : "shift_swap_denied",
+      actor: user,
+      targetType: "shift",
+      targetId: shift.id,
+      targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+      details: {
+        swapId: swap.id,
+        offeredById: swap.offeredById,
+        acceptedById: swap.acceptedById,
+        note: updated.reviewNote,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    notifySwapParties(updatedShift, updated, webhookBaseUrl).catch(err => {
+      console.error("Error sending swap decision:", err);
+    });
+
+    res.json(updated);
+  };
+
+  app.post("/api/swaps/:id/approve", (req, res) => reviewSwap(req, res, true));
+  app.post("/api/swaps/:id/deny", (req, res) => reviewSwap(req, res, false));
+
+  // The offering employee or a supervisor can withdraw a swap before it's approved
+  app.post("/api/swaps/:id/cancel", async (req, res) => {
+    const user = req.user as any;
+    const canManage = (user?.permissions || []).includes("shifts:manage");
+
+    const swap = await storage.getShiftSwap(req.params.id);
+    if (!swap) return res.status(404).json({ error: "Swap not found" });
+    if (!canManage && swap.offeredById !== user?.employeeId) {
+      return res.status(403).json({ error: "You can only cancel your own swaps" });
+    }
+    if (swap.status !== "open" && swap.status !== "pending_approval") {
+      return res.status(400).json({ error: `A swap that is ${swap.status} can't be cancelled` });
+    }
+
+    const updated = await cancelActiveSwap(swap.shiftId);
+    if (!updated) return res.status(404).json({ error: "Swap not found" });
+    if (swap.acceptedById) {
+      broadcastShiftUpdate(swap.shiftId, "interest_removed", swap.acceptedById);
+    }
+
+    const shift = await storage.getShift(swap.shiftId);
+    await logAuditEvent({
+      action: "shift_swap_cancelled",
+      actor: user,
+      targetType: "shift",
+      targetId: swap.shiftId,
+      targetName: shift ? `${shift.date} ${shift.startTime}-${shift.endTime}` : swap.shiftId,
+      details: { swapId: swap.id, offeredById: swap.offeredById, previousStatus: swap.status },
+      ipAddress: getClientIp(req),
+    });
+
+    res.json(updated);
+  });
+
   // Bulk shift actions
   app.post("/api/shifts/bulk/cancel", async (req, res) => {
     const user = req.user as any;
@@ -1264,6 +2326,9 @@ export async function registerRoutes(
         const deleted = await storage.deleteShift(shiftId);
         if (deleted) {
           successCount++;
+          if (shift.templateId) {
+            await excludeOccurrence(shift);
+          }
           await logAuditEvent({
             action: "shift_deleted",
             actor: req.user as any,
@@ -1297,15 +2362,15 @@ export async function registerRoutes(
       return res.status(400).json({ error: "shiftIds must be a non-empty array" });
     }
 
-    const protocol = req.secure ? "https" : (req.headers["x-forwarded-proto"] as string) || "http";
-    const forwardedHost = req.headers["x-forwarded-host"] as string;
-    const host = forwardedHost || process.env.REPLIT_DEV_DOMAIN || req.get("host");
-    const webhookBaseUrl = process.env.WEBHOOK_BASE_URL || `${protocol}://${host}`;
+    const webhookBaseUrl = getWebhookBaseUrl(req);
 
     let successCount = 0;
     let failedCount = 0;
     let totalNotifications = 0;
 
+    // Notify one shift at a time, so each employee's text limit sees the texts queued before it
+    let notifications = Promise.resolve();
+
     for (const shiftId of shiftIds) {
       try {
         const shift = await storage.getShift(shiftId);
@@ -1345,8 +2410,10 @@ export async function registerRoutes(
             notificationCount: eligibleEmployees.length,
           });
 
-          notifyRepostedShift(updatedShift, area, eligibleEmployees, webhookBaseUrl)
-            .catch(err => console.error(`Error sending repost notifications for shift ${shiftId}:`, err));
+          notifications = notifications.then(() =>
+            notifyRepostedShift(updatedShift, area, eligibleEmployees, webhookBaseUrl)
+              .then(() => undefined, err => console.error(`Error sending repost notifications for shift ${shiftId}:`, err))
+          );
           
           totalNotifications += eligibleEmployees.length;
         }
@@ -1389,15 +2456,15 @@ export async function registerRoutes(
       return res.status(400).json({ error: "shiftIds must be a non-empty array" });
     }
 
-    const protocol = req.secure ? "https" : (req.headers["x-forwarded-proto"] as string) || "http";
-    const forwardedHost = req.headers["x-forwarded-host"] as string;
-    const host = forwardedHost || process.env.REPLIT_DEV_DOMAIN || req.get("host");
-    const webhookBaseUrl = process.env.WEBHOOK_BASE_URL || `${protocol}://${host}`;
+    const webhookBaseUrl = getWebhookBaseUrl(req);
 
     let successCount = 0;
     let failedCount = 0;
     let totalNotifications = 0;
 
+    // Notify one shift at a time, so each employee's text limit sees the texts queued before it
+    let notifications = Promise.resolve();
+
     for (const shiftId of shiftIds) {
       try {
         const shift = await storage.getShift(shiftId);
@@ -1432,8 +2499,10 @@ export async function registerRoutes(
             notificationCount: eligibleEmployees.length,
           });
 
-          notifyNewShift(shift, area, eligibleEmployees, webhookBaseUrl)
-            .catch(err => console.error(`Error sending notifications for shift ${shiftId}:`, err));
+          notifications = notifications.then(() =>
+            notifyNewShift(shift, area, eligibleEmployees, webhookBaseUrl)
+              .then(() => undefined, err => console.error(`Error sending notifications for shift ${shiftId}:`, err))
+          );
           
           totalNotifications += eligibleEmployees.length;
         }
@@ -1467,37 +2536,318 @@ export async function registerRoutes(
     res.status(201).json(message);
   });
 
-  // Trainings
+  // Trainings - courses with per-employee assignments, scheduled sessions and RSVPs
+  const canManageTraining = (user: any) => (user?.permissions || []).includes("training:manage");
+
   app.get("/api/trainings", async (req, res) => {
-    const trainings = await storage.getTrainings();
+    const user = req.user as any;
+    const trainings = await getTrainingSummaries(user?.employeeId ?? null);
     res.json(trainings);
   });
 
   app.get("/api/trainings/:id", async (req, res) => {
-    const training = await storage.getTraining(req.params.id);
+    const user = req.user as any;
+    const [training] = await getTrainingSummaries(user?.employeeId ?? null, req.params.id);
     if (!training) return res.status(404).json({ error: "Training not found" });
     res.json(training);
   });
 
   app.post("/api/trainings", async (req, res) => {
+    const user = req.user as any;
+    if (!canManageTraining(user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
     const parsed = insertTrainingSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: parsed.error });
     const training = await storage.createTraining(parsed.data);
+
+    await logAuditEvent({
+      action: "training_created",
+      actor: user,
+      targetType: "training",
+      targetId: training.id,
+      targetName: training.title,
+      details: { type: training.type, required: training.required, dueDate: training.dueDate },
+      ipAddress: getClientIp(req),
+    });
+
     res.status(201).json(training);
   });
 
   app.patch("/api/trainings/:id", async (req, res) => {
-    const training = await storage.updateTraining(req.params.id, req.body);
+    if (!canManageTraining(req.user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
+    const parsed = insertTrainingSchema.partial().safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    const training = await storage.updateTraining(req.params.id, parsed.data);
     if (!training) return res.status(404).json({ error: "Training not found" });
     res.json(training);
   });
 
   app.delete("/api/trainings/:id", async (req, res) => {
-    const deleted = await storage.deleteTraining(req.params.id);
-    if (!deleted) return res.status(404).json({ error: "Training not found" });
+    const user = req.user as any;
+    if (!canManageTraining(user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
+    const training = await storage.getTraining(req.params.id);
+    if (!training) return res.status(404).json({ error: "Training not found" });
+    const assignments = await storage.getTrainingAssignments({ trainingId: training.id });
+    await storage.deleteTraining(training.id);
+
+    await logAuditEvent({
+      action: "training_deleted",
+      actor: user,
+      targetType: "training",
+      targetId: training.id,
+      targetName: training.title,
+      details: {
+        assigned: assignments.length,
+        completed: assignments.filter(a => a.completedAt).length,
+      },
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(204).send();
+  });
+
+  // Who a training is assigned to and who has completed it
+  app.get("/api/trainings/:id/assignments", async (req, res) => {
+    if (!canManageTraining(req.user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
+    const training = await storage.getTraining(req.params.id);
+    if (!training) return res.status(404).json({ error: "Training not found" });
+    const assignments = await getAssignmentsWithEmployees(training);
+    res.json(assignments);
+  });
+
+  app.post("/api/trainings/:id/assignments", async (req, res) => {
+    const user = req.user as any;
+    if (!canManageTraining(user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
+    const training = await storage.getTraining(req.params.id);
+    if (!training) return res.status(404).json({ error: "Training not found" });
+
+    const { employeeIds } = req.body;
+    if (!Array.isArray(employeeIds) || employeeIds.length === 0) {
+      return res.status(400).json({ error: "employeeIds must be a non-empty array" });
+    }
+
+    const created = await assignTraining(training, employeeIds, user);
+    if (created.length > 0) {
+      await logAuditEvent({
+        action: "training_assigned",
+        actor: user,
+        targetType: "training",
+        targetId: training.id,
+        targetName: training.title,
+        details: { employeeIds: created.map(a => a.employeeId), count: created.length },
+        ipAddress: getClientIp(req),
+      });
+    }
+
+    res.status(201).json({ assigned: created.length, skipped: employeeIds.length - created.length });
+  });
+
+  app.patch("/api/training-assignments/:id", async (req, res) => {
+    const user = req.user as any;
+    if (!canManageTraining(user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
+    const existing = await storage.getTrainingAssignment(req.params.id);
+    if (!existing) return res.status(404).json({ error: "Training assignment not found" });
+
+    const { completed } = req.body;
+    if (typeof completed !== "boolean") return res.status(400).json({ error: "completed must be true or false" });
+
+    const assignment = await setTrainingCompleted(existing.trainingId, existing.employeeId, completed, user);
+
+    if (completed && !existing.completedAt) {
+      const training = await storage.getTraining(existing.trainingId);
+      const employee = await storage.getEmployee(existing.employeeId);
+      await logAuditEvent({
+        action: "training_completed",
+        actor: user,
+        targetType: "training",
+        targetId: existing.trainingId,
+        targetName: training?.title,
+        details: { employeeId: existing.employeeId, employeeName: employee?.name },
+        ipAddress: getClientIp(req),
+      });
+    }
+
+    res.json(assignment);
+  });
+
+  app.delete("/api/training-assignments/:id", async (req, res) => {
+    const user = req.user as any;
+    if (!canManageTraining(user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
+    const existing = await storage.getTrainingAssignment(req.params.id);
+    if (!existing) return res.status(404).json({ error: "Training assignment not found" });
+    await storage.deleteTrainingAssignment(existing.id);
+
+    const training = await storage.getTraining(existing.trainingId);
+    const employee = await storage.getEmployee(existing.employeeId);
+    await logAuditEvent({
+      action: "training_unassigned",
+      actor: user,
+      targetType: "training",
+      targetId: existing.trainingId,
+      targetName: training?.title,
+      details: { employeeId: existing.employeeId, employeeName: employee?.name, completedAt: existing.completedAt },
+      ipAddress: getClientIp(req),
+    });
+
+    res.status(204).send();
+  });
+
+  // Scheduled sessions employees RSVP to
+  app.post("/api/trainings/:id/sessions", async (req, res) => {
+    if (!canManageTraining(req.user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
+    const training = await storage.getTraining(req.params.id);
+    if (!training) return res.status(404).json({ error: "Training not found" });
+
+    const parsed = insertTrainingSessionSchema.safeParse({ ...req.body, trainingId: training.id });
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    const session = await storage.createTrainingSession(parsed.data);
+    res.status(201).json(session);
+  });
+
+  app.patch("/api/training-sessions/:id", async (req, res) => {
+    if (!canManageTraining(req.user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
+    const existing = await storage.getTrainingSession(req.params.id);
+    if (!existing) return res.status(404).json({ error: "Training session not found" });
+
+    const parsed = insertTrainingSessionSchema.omit({ trainingId: true }).partial().safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+
+    if (parsed.data.maxAttendees !== undefined) {
+      const seats = (await storage.getTrainingRsvps({ sessionId: existing.id }))
+        .filter(r => r.status === "attending" || r.status === "attended").length;
+      if (parsed.data.maxAttendees < seats) {
+        return res.status(400).json({ error: `${seats} employees are already attending this session` });
+      }
+    }
+
+    // A rescheduled session gets a fresh reminder
+    const rescheduled =
+      (parsed.data.date !== undefined && parsed.data.date !== existing.date) ||
+      (parsed.data.startTime !== undefined && parsed.data.startTime !== existing.startTime);
+    const session = await storage.updateTrainingSession(existing.id, {
+      ...parsed.data,
+      ...(rescheduled && { reminderSentAt: null }),
+    });
+    res.json(session);
+  });
+
+  app.delete("/api/training-sessions/:id", async (req, res) => {
+    if (!canManageTraining(req.user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
+    const deleted = await storage.deleteTrainingSession(req.params.id);
+    if (!deleted) return res.status(404).json({ error: "Training session not found" });
     res.status(204).send();
   });
 
+  app.get("/api/training-sessions/:id/rsvps", async (req, res) => {
+    if (!canManageTraining(req.user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
+    const session = await storage.getTrainingSession(req.params.id);
+    if (!session) return res.status(404).json({ error: "Training session not found" });
+
+    const rsvps = await storage.getTrainingRsvps({ sessionId: session.id });
+    const withEmployees = await Promise.all(rsvps.map(async rsvp => ({
+      ...rsvp,
+      employeeName: (await storage.getEmployee(rsvp.employeeId))?.name ?? "Unknown employee",
+    })));
+    res.json(withEmployees);
+  });
+
+  // Employees answer for themselves; training managers can answer on an employee's behalf
+  app.post("/api/training-sessions/:id/rsvp", async (req, res) => {
+    const user = req.user as any;
+    const session = await storage.getTrainingSession(req.params.id);
+    if (!session) return res.status(404).json({ error: "Training session not found" });
+
+    const { status } = req.body;
+    if (status !== "attending" && status !== "declined") {
+      return res.status(400).json({ error: "status must be attending or declined" });
+    }
+
+    const employeeId = req.body.employeeId ?? user?.employeeId;
+    if (!employeeId) return res.status(400).json({ error: "Your account isn't linked to an employee" });
+    if (employeeId !== user?.employeeId && !canManageTraining(user)) {
+      return res.status(403).json({ error: "You can only RSVP for yourself" });
+    }
+
+    const result = await respondToSession(session, employeeId, status);
+    if ("error" in result) {
+      return res.status(result.error === "This session is full" ? 409 : 400).json({ error: result.error });
+    }
+    res.json(result.rsvp);
+  });
+
+  app.post("/api/training-sessions/:id/attendance", async (req, res) => {
+    const user = req.user as any;
+    if (!canManageTraining(user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
+    const session = await storage.getTrainingSession(req.params.id);
+    if (!session) return res.status(404).json({ error: "Training session not found" });
+
+    const { employeeId } = req.body;
+    const employee = employeeId ? await storage.getEmployee(employeeId) : undefined;
+    if (!employee) return res.status(400).json({ error: "Employee not found" });
+
+    const assignment = await recordAttendance(session, employee.id, user);
+
+    const training = await storage.getTraining(session.trainingId);
+    await logAuditEvent({
+      action: "training_completed",
+      actor: user,
+      targetType: "training",
+      targetId: session.trainingId,
+      targetName: training?.title,
+      details: { employeeId: employee.id, employeeName: employee.name, sessionId: session.id, date: session.date },
+      ipAddress: getClientIp(req),
+    });
+
+    res.json(assignment);
+  });
+
+  // Text everyone who still has to complete a training or is signed up for an upcoming session
+  app.post("/api/trainings/:id/remind", async (req, res) => {
+    const user = req.user as any;
+    if (!canManageTraining(user)) {
+      return res.status(403).json({ error: "You don't have permission to manage training" });
+    }
+    const training = await storage.getTraining(req.params.id);
+    if (!training) return res.status(404).json({ error: "Training not found" });
+
+    const result = await sendTrainingReminders(training);
+
+    await logAuditEvent({
+      action: "training_reminder_sent",
+      actor: user,
+      targetType: "training",
+      targetId: training.id,
+      targetName: training.title,
+      details: { ...result },
+      ipAddress: getClientIp(req),
+    });
+
+    res.json(result);
+  });
+
   // Get employees eligible for notifications for a specific area
   app.get("/api/areas/:id/notification-recipients", async (req, res) => {
     const area = await storage.getArea(req.params.id);
@@ -1510,6 +2860,187 @@ export async function registerRoutes(
     res.json(eligible);
   });
 
+  // Offer equity - how fair rotation spread shift offers across employees
+  app.get("/api/reports/offer-equity", async (req, res) => {
+    const user = req.user as any;
+    const userPermissions = user?.permissions || [];
+    if (!userPermissions.includes("reports:view")) {
+      return res.status(403).json({ error: "Permission denied. Report access required." });
+    }
+
+    const weeks = Math.min(Math.max(parseInt(req.query.weeks as string) || 4, 1), 52);
+    const since = new Date(Date.now() - weeks * 7 * 24 * 60 * 60 * 1000);
+    const areaId = typeof req.query.areaId === "string" && req.query.areaId !== "all" ? req.query.areaId : undefined;
+
+    try {
+      res.json(await getOfferEquityReport(since, areaId));
+    } catch (error) {
+      console.error("Error building offer equity report:", error);
+      res.status(500).json({ error: "Failed to build offer equity report" });
+    }
+  });
+
+  // Shift coverage reports - fill rate, time to fill, SMS response latency, bonus spend and area coverage
+  const canViewReports = (user: any) => (user?.permissions || []).includes("reports:view");
+  const canExportReports = (user: any) => (user?.permissions || []).includes("reports:export");
+
+  app.get("/api/reports/summary", async (req, res) => {
+    if (!canViewReports(req.user)) {
+      return res.status(403).json({ error: "Permission denied. Report access required." });
+    }
+    const parsed = reportQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+
+    try {
+      res.json(await buildShiftReport(parsed.data));
+    } catch (error) {
+      console.error("Error building shift report:", error);
+      res.status(500).json({ error: "Failed to build shift report" });
+    }
+  });
+
+  app.get("/api/reports/export", async (req, res) => {
+    const user = req.user as any;
+    if (!canExportReports(user)) {
+      return res.status(403).json({ error: "Permission denied. Report export access required." });
+    }
+    const parsed = reportExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+    const { format, section, ...options } = parsed.data;
+
+    try {
+      const report = await buildShiftReport(options);
+      const file = await renderReport(report, format, section);
+
+      await logAuditEvent({
+        action: "report_exported",
+        actor: user,
+        targetType: "report",
+        targetName: file.filename,
+        details: { format, section, weeks: options.weeks, areaId: options.areaId },
+        ipAddress: getClientIp(req),
+      });
+
+      res.set({
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+      });
+      res.send(file.body);
+    } catch (error) {
+      console.error("Error exporting shift report:", error);
+      res.status(500).json({ error: "Failed to export shift report" });
+    }
+  });
+
+  // Report snapshots - saved copies of a report, kept as they were when made
+  app.get("/api/reports/snapshots", async (req, res) => {
+    if (!canViewReports(req.user)) {
+      return res.status(403).json({ error: "Permission denied. Report access required." });
+    }
+
+    try {
+      const [snapshots, schedule] = await Promise.all([storage.getReportSnapshots(), getReportSnapshotSchedule()]);
+      res.json({ schedule, snapshots: snapshots.map(toSnapshotSummary) });
+    } catch (error) {
+      console.error("Error fetching report snapshots:", error);
+      res.status(500).json({ error: "Failed to fetch report snapshots" });
+    }
+  });
+
+  app.post("/api/reports/snapshots", async (req, res) => {
+    const user = req.user as any;
+    if (!canExportReports(user)) {
+      return res.status(403).json({ error: "Permission denied. Report export access required." });
+    }
+    const parsed = reportSnapshotRequestSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+
+    try {
+      if (parsed.data.areaId && !(await storage.getArea(parsed.data.areaId))) {
+        return res.status(404).json({ error: "Area not found" });
+      }
+
+      const snapshot = await createReportSnapshot(parsed.data, user);
+
+      await logAuditEvent({
+        action: "report_snapshot_created",
+        actor: user,
+        targetType: "report",
+        targetId: snapshot.id,
+        targetName: snapshot.name,
+        details: { weeks: snapshot.weeks, areaId: snapshot.areaId },
+        ipAddress: getClientIp(req),
+      });
+
+      res.status(201).json(toSnapshotSummary(snapshot));
+    } catch (error) {
+      console.error("Error saving report snapshot:", error);
+      res.status(500).json({ error: "Failed to save report snapshot" });
+    }
+  });
+
+  app.get("/api/reports/snapshots/:id/export", async (req, res) => {
+    const user = req.user as any;
+    if (!canExportReports(user)) {
+      return res.status(403).json({ error: "Permission denied. Report export access required." });
+    }
+    const parsed = reportExportQuerySchema.pick({ format: true, section: true }).safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error });
+
+    try {
+      const snapshot = await storage.getReportSnapshot(req.params.id);
+      if (!snapshot) return res.status(404).json({ error: "Snapshot not found" });
+
+      const file = await renderReport(snapshot.report, parsed.data.format, parsed.data.section);
+
+      await logAuditEvent({
+        action: "report_exported",
+        actor: user,
+        targetType: "report",
+        targetId: snapshot.id,
+        targetName: snapshot.name,
+        details: { format: parsed.data.format, section: parsed.data.section, snapshot: true },
+        ipAddress: getClientIp(req),
+      });
+
+      res.set({
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+      });
+      res.send(file.body);
+    } catch (error) {
+      console.error("Error exporting report snapshot:", error);
+      res.status(500).json({ error: "Failed to export report snapshot" });
+    }
+  });
+
+  app.delete("/api/reports/snapshots/:id", async (req, res) => {
+    const user = req.user as any;
+    if (!canExportReports(user)) {
+      return res.status(403).json({ error: "Permission denied. Report export access required." });
+    }
+    try {
+      const snapshot = await storage.getReportSnapshot(req.params.id);
+      if (!snapshot) return res.status(404).json({ error: "Snapshot not found" });
+
+      await storage.deleteReportSnapshot(snapshot.id);
+
+      await logAuditEvent({
+        action: "report_snapshot_deleted",
+        actor: user,
+        targetType: "report",
+        targetId: snapshot.id,
+        targetName: snapshot.name,
+        ipAddress: getClientIp(req),
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting report snapshot:", error);
+      res.status(500).json({ error: "Failed to delete report snapshot" });
+    }
+  });
+
   // Audit Logs (requires view_audit_log permission)
   app.get("/api/audit-logs", async (req, res) => {
     const user = req.user as any;
@@ -1576,6 +3107,7 @@ export async function registerRoutes(
     }
 
     const setting = await storage.setSetting(req.params.key, value, description);
+    broadcastSettingsUpdate(req.params.key);
 
     await logAuditEvent({
       action: "setting_updated" as any,
@@ -1594,6 +3126,43 @@ export async function registerRoutes(
   app.use("/api/sms", smsRoutes);
 
   // Shift Templates CRUD
+
+  // Validate and normalize recurrence fields on a template payload, returning an error message if invalid
+  const validateTemplateRecurrence = (data: Record<string, any>): string | null => {
+    if (!data.recurrenceRule) return null;
+    const result = recurrenceRuleSchema.safeParse(data.recurrenceRule);
+    if (!result.success) {
+      return result.error.errors[0]?.message || "Invalid recurrence rule";
+    }
+    if (!data.recurrenceStartDate) {
+      return "Recurrence start date is required";
+    }
+    if (data.recurrenceEndDate && data.recurrenceEndDate < data.recurrenceStartDate) {
+      return "Recurrence end date must be on or after the start date";
+    }
+    data.recurrenceRule = result.data;
+    return null;
+  };
+
+  // Audit shifts materialized (or removed) by the recurrence generator
+  const logSeriesGenerated = async (req: any, template: { id: string; name: string }, created: { date: string }[], removed: { date: string }[] = []) => {
+    if (created.length === 0 && removed.length === 0) return;
+    await logAuditEvent({
+      action: "shift_series_generated",
+      actor: req.user as any,
+      targetType: "template",
+      targetId: template.id,
+      targetName: template.name,
+      details: {
+        createdCount: created.length,
+        createdDates: created.map(s => s.date),
+        removedCount: removed.length,
+        removedDates: removed.map(s => s.date),
+      },
+      ipAddress: getClientIp(req),
+    });
+  };
+
   app.get("/api/shift-templates", async (req, res) => {
     const templates = await storage.getShiftTemplates();
     res.json(templates);
@@ -1616,6 +3185,9 @@ export async function registerRoutes(
       ...req.body,
       createdById: user?.id || null,
     };
+
+    const recurrenceError = validateTemplateRecurrence(templateData);
+    if (recurrenceError) return res.status(400).json({ error: recurrenceError });
     
     const template = await storage.createShiftTemplate(templateData);
     
@@ -1628,8 +3200,15 @@ export async function registerRoutes(
       details: { positionId: template.positionId, areaId: template.areaId },
       ipAddress: getClientIp(req),
     });
+
+    let generatedCount = 0;
+    if (isRecurringTemplate(template)) {
+      const created = await generateTemplateShifts(template);
+      generatedCount = created.length;
+      await logSeriesGenerated(req, template, created);
+    }
     
-    res.status(201).json(template);
+    res.status(201).json({ ...template, generatedCount });
   });
 
   app.patch("/api/shift-templates/:id", async (req, res) => {
@@ -1639,6 +3218,9 @@ export async function registerRoutes(
       return res.status(403).json({ error: "Permission denied. Shift management required." });
     }
 
+    const recurrenceError = validateTemplateRecurrence(req.body);
+    if (recurrenceError) return res.status(400).json({ error: recurrenceError });
+
     const template = await storage.updateShiftTemplate(req.params.id, req.body);
     if (!template) return res.status(404).json({ error: "Template not found" });
     
@@ -1651,8 +3233,44 @@ export async function registerRoutes(
       details: req.body,
       ipAddress: getClientIp(req),
     });
+
+    // Re-align upcoming occurrences when the recurrence changed
+    let generatedCount = 0;
+    let removedCount = 0;
+    const recurrenceChanged = ["recurrenceRule", "recurrenceStartDate", "recurrenceEndDate", "recurrenceHorizonDays"]
+      .some(field => field in req.body);
+    if (recurrenceChanged && isRecurringTemplate(template)) {
+      const { created, removed } = await syncTemplateSeries(template);
+      generatedCount = created.length;
+      removedCount = removed.length;
+      await logSeriesGenerated(req, template, created, removed);
+    }
     
-    res.json(template);
+    res.json({ ...template, generatedCount, removedCount });
+  });
+
+  // Generate upcoming shifts for a recurring template now instead of waiting for the scheduler
+  app.post("/api/shift-templates/:id/generate", async (req, res) => {
+    const user = req.user as any;
+    const userPermissions = user?.permissions || [];
+    if (!userPermissions.includes("shifts:manage")) {
+      return res.status(403).json({ error: "Permission denied. Shift management required." });
+    }
+
+    const template = await storage.getShiftTemplate(req.params.id);
+    if (!template) return res.status(404).json({ error: "Template not found" });
+    if (!isRecurringTemplate(template)) {
+      return res.status(400).json({ error: "Template does not have a recurrence rule" });
+    }
+
+    try {
+      const created = await generateTemplateShifts(template);
+      await logSeriesGenerated(req, template, created);
+      res.json({ generatedCount: created.length, shifts: created });
+    } catch (error) {
+      console.error("Error generating recurring shifts:", error);
+      res.status(500).json({ error: "Failed to generate shifts" });
+    }
   });
 
   app.delete("/api/shift-templates/:id", async (req, res) => {
@@ -1681,7 +3299,7 @@ export async function registerRoutes(
   });
 
   // Setup WebSocket for real-time updates
-  setupWebSocket(httpServer);
+  setupWebSocket(httpServer, sessionMiddleware);
 
   return httpServer;
 }
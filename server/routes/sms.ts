@@ -1,4 +1,4 @@
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import { storage } from "../storage";
 import {
   smsProvider,
@@ -6,378 +6,27 @@ import {
   type DeliveryStatus,
   type SMSProviderType,
 } from "../services/sms";
+import {
+  MOCK_FROM_NUMBER,
+  getMockMessages,
+  recordMockInbound,
+  recordMockReply,
+  clearMockMessages,
+  extractResponseMessage,
+} from "../services/sms/mockProvider";
 import { logAuditEvent, getClientIp } from "../audit";
 import { randomUUID } from "crypto";
 import { processShiftReminders, getScheduledReminderCount } from "../services/shiftReminderScheduler";
 import { templateVariables, validateTemplate, previewTemplate, type TemplateCategory } from "../services/smsTemplates";
-import { insertSmsTemplateSchema, type Employee, type Shift } from "@shared/schema";
-import { broadcastShiftUpdate } from "../websocket";
-
-// ============================================================
-// Message Deduplication Cache
-// ============================================================
-// Track processed message IDs to prevent duplicate webhook processing
-// RingCentral sometimes sends the same message multiple times
-const processedMessageIds = new Set<string>();
-const MESSAGE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
-function markMessageProcessed(messageId: string): boolean {
-  if (!messageId) return false;
-  if (processedMessageIds.has(messageId)) {
-    return false; // Already processed
-  }
-  processedMessageIds.add(messageId);
-  // Auto-cleanup after TTL
-  setTimeout(() => processedMessageIds.delete(messageId), MESSAGE_CACHE_TTL);
-  return true; // First time seeing this message
-}
-
-// ============================================================
-// SMS Command Parsing Types and Functions
-// ============================================================
-
-interface ParsedCommand {
-  type: 'interest_yes' | 'interest_no' | 'confirm' | 'withdraw' | 'status' |
-        'shifts' | 'help' | 'stop' | 'start' | 'unknown';
-  shiftCode?: string; // Optional specific shift reference
-  originalMessage: string;
-}
-
-/**
- * Parse inbound SMS message to identify command
- */
-function parseInboundCommand(body: string): ParsedCommand {
-  const normalized = body.trim().toUpperCase();
-  const words = normalized.split(/\s+/);
-
-  // Check for YES/Y/INTERESTED with optional shift code
-  if (/^(YES|Y|INTERESTED|I WANT IT|CLAIM)/.test(normalized)) {
-    // Look for a shift code (6-char alphanumeric) in the message
-    const shiftCodeMatch = body.match(/\b([A-Z0-9]{6})\b/i);
-    const shiftCode = shiftCodeMatch ? shiftCodeMatch[1].toUpperCase() : undefined;
-    return { type: 'interest_yes', shiftCode, originalMessage: body };
-  }
-
-  if (/^(NO|N|PASS|CAN'?T|DECLINE|NOT INTERESTED)/.test(normalized)) {
-    return { type: 'interest_no', originalMessage: body };
-  }
-
-  if (/^CONFIRM/.test(normalized)) {
-    return { type: 'confirm', originalMessage: body };
-  }
-
-  if (/^WITHDRAW/.test(normalized)) {
-    // Look for a shift code (6-char alphanumeric) in the message
-    const shiftCodeMatch = body.match(/\b([A-Z0-9]{6})\b/i);
-    const shiftCode = shiftCodeMatch ? shiftCodeMatch[1].toUpperCase() : undefined;
-    return { type: 'withdraw', shiftCode, originalMessage: body };
-  }
-
-  if (/^STATUS/.test(normalized)) {
-    return { type: 'status', originalMessage: body };
-  }
-
-  if (/^SHIFTS?/.test(normalized)) {
-    return { type: 'shifts', originalMessage: body };
-  }
-
-  if (/^HELP/.test(normalized)) {
-    return { type: 'help', originalMessage: body };
-  }
-
-  if (/^(STOP|UNSUBSCRIBE)/.test(normalized)) {
-    return { type: 'stop', originalMessage: body };
-  }
-
-  if (/^(START|SUBSCRIBE)/.test(normalized)) {
-    return { type: 'start', originalMessage: body };
-  }
-
-  return { type: 'unknown', originalMessage: body };
-}
-
-/**
- * Format date for SMS display
- */
-function formatDateForSms(dateStr: string): string {
-  const date = new Date(dateStr + 'T00:00:00');
-  const options: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric' };
-  return date.toLocaleDateString('en-US', options);
-}
-
-/**
- * Handle YES command - express interest in a shift
- */
-async function handleInterestYes(
-  employee: Employee,
-  shiftCode?: string,
-  ipAddress?: string
-): Promise<string> {
-  console.log(`handleInterestYes called - employee: ${employee.name}, shiftCode: ${shiftCode || 'none'}`);
-  let shift: Shift | undefined;
-
-  if (shiftCode) {
-    // Look up shift by SMS code
-    shift = await storage.getShiftBySmsCode(shiftCode);
-    console.log(`Shift lookup by code ${shiftCode}: ${shift ? `found (${shift.id})` : 'NOT FOUND'}`);
-    if (!shift) {
-      return `Sorry, we couldn't find a shift with code ${shiftCode}. Reply SHIFTS to see available shifts.`;
-    }
-  } else {
-    console.log(`No shift code provided, looking up by recent notification`);
-    // Find most recent shift notification sent to this employee
-    const recentMessages = await storage.getEmployeeMessages(employee.id);
-    const lastNotification = recentMessages
-      .filter(m => m.messageType === 'shift_notification' && m.relatedShiftId)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
-
-    if (lastNotification?.relatedShiftId) {
-      shift = await storage.getShift(lastNotification.relatedShiftId);
-    }
-  }
-
-  if (!shift) {
-    return "Sorry, we couldn't find a shift to match your reply. Reply SHIFTS to see available shifts.";
-  }
-
-  if (shift.status !== 'available') {
-    return `That shift has already been ${shift.status}. Reply SHIFTS to see other available shifts.`;
-  }
-
-  // Check if already interested
-  const existingInterest = await storage.getShiftInterestByEmployeeAndShift(employee.id, shift.id);
-  if (existingInterest) {
-    return "You've already expressed interest in this shift. A supervisor will review your request soon.";
-  }
-
-  // Create interest record
-  await storage.createShiftInterest({
-    shiftId: shift.id,
-    employeeId: employee.id,
-  });
-
-  // Log audit event
-  await logAuditEvent({
-    action: "shift_interest_via_sms",
-    actor: null,
-    targetType: "shift",
-    targetId: shift.id,
-    targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
-    details: { employeeId: employee.id, employeeName: employee.name, method: "sms" },
-    ipAddress: ipAddress,
-  });
-
-  const area = await storage.getArea(shift.areaId);
-  const dateFormatted = formatDateForSms(shift.date);
-  return `Got it! You've expressed interest in the shift on ${dateFormatted} (${shift.startTime}-${shift.endTime}) at ${shift.location}${area ? ` (${area.name})` : ''}.\n\nYou'll be notified when assigned. Reply STATUS to see your requests.`;
-}
-
-/**
- * Handle NO command - decline interest in a shift
- */
-async function handleInterestNo(
-  employee: Employee,
-  ipAddress?: string
-): Promise<string> {
-  // Find most recent shift notification sent to this employee
-  const recentMessages = await storage.getEmployeeMessages(employee.id);
-  const lastNotification = recentMessages
-    .filter(m => m.messageType === 'shift_notification' && m.relatedShiftId)
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
-
-  if (lastNotification?.relatedShiftId) {
-    const shift = await storage.getShift(lastNotification.relatedShiftId);
-    if (shift) {
-      await logAuditEvent({
-        action: "shift_interest_declined_via_sms",
-        actor: null,
-        targetType: "shift",
-        targetId: shift.id,
-        targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
-        details: { employeeId: employee.id, employeeName: employee.name, method: "sms" },
-        ipAddress: ipAddress,
-      });
-    }
-  }
-
-  return "No problem! We won't consider you for this shift. You'll still receive notifications for future shifts.";
-}
-
-/**
- * Handle STATUS command - show assigned shifts and pending interests
- */
-async function handleStatus(employee: Employee): Promise<string> {
-  const shifts = await storage.getShifts(); // Already filtered to current/future
-  // Use local date for timezone-safe comparison
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString().split('T')[0];
-
-  // Get assigned shifts (only current/future)
-  const assignedShifts = shifts
-    .filter(s => s.assignedEmployeeId === employee.id && s.status === 'claimed' && s.date >= today)
-    .sort((a, b) => a.date.localeCompare(b.date))
-    .slice(0, 5);
-
-  // Get pending interests (only for current/future shifts)
-  const interests = await storage.getEmployeeShiftInterests(employee.id);
-  const pendingInterests = interests
-    .filter(i => i.shift && i.shift.status === 'available' && i.shift.date >= today)
-    .slice(0, 5);
-
-  let response = "[ShiftConnect] Your Status:\n\n";
-
-  if (assignedShifts.length > 0) {
-    response += "ASSIGNED SHIFTS:\n";
-    for (const shift of assignedShifts) {
-      const dateFormatted = formatDateForSms(shift.date);
-      response += `- ${dateFormatted} ${shift.startTime}-${shift.endTime} at ${shift.location}\n`;
-    }
-    response += "\n";
-  }
-
-  if (pendingInterests.length > 0) {
-    response += "PENDING INTERESTS:\n";
-    for (const interest of pendingInterests) {
-      const shift = interest.shift;
-      const dateFormatted = formatDateForSms(shift.date);
-      response += `- ${dateFormatted} ${shift.startTime}-${shift.endTime} at ${shift.location}\n`;
-    }
-  }
-
-  if (assignedShifts.length === 0 && pendingInterests.length === 0) {
-    response += "No upcoming shifts or pending interests.\n\nReply SHIFTS to see available shifts.";
-  }
-
-  return response;
-}
-
-/**
- * Handle SHIFTS command - show available shifts for employee's areas
- */
-async function handleShifts(employee: Employee): Promise<string> {
-  const shifts = await storage.getShifts();
-  const employeeAreas = await storage.getEmployeeAreas(employee.id);
-  const employeeAreaIds = employeeAreas.map(area => area.id);
-
-  // Get available shifts in employee's areas and matching their position
-  const availableShifts = shifts
-    .filter(s =>
-      s.status === 'available' &&
-      (employeeAreaIds.includes(s.areaId) || employeeAreaIds.length === 0) &&
-      s.positionId === employee.positionId
-    )
-    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime))
-    .slice(0, 5);
-
-  if (availableShifts.length === 0) {
-    return "[ShiftConnect] No available shifts matching your position right now.\n\nYou'll be notified when new shifts are posted.";
-  }
-
-  let response = "[ShiftConnect] Available Shifts:\n\n";
-
-  for (const shift of availableShifts) {
-    const dateFormatted = formatDateForSms(shift.date);
-    const area = await storage.getArea(shift.areaId);
-    response += `${dateFormatted} ${shift.startTime}-${shift.endTime}\n`;
-    response += `  ${shift.location}${area ? ` (${area.name})` : ''}\n`;
-    response += `  Code: ${shift.smsCode || 'N/A'}\n\n`;
-  }
-
-  response += "Reply YES <code> to express interest.";
-  return response;
-}
-
-/**
- * Handle CONFIRM command - acknowledge shift assignment
- */
-async function handleConfirm(employee: Employee, ipAddress?: string): Promise<string> {
-  const shifts = await storage.getShifts();
-
-  // Find recently assigned shifts for this employee
-  const assignedShifts = shifts
-    .filter(s => s.assignedEmployeeId === employee.id && s.status === 'claimed')
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-
-  if (assignedShifts.length === 0) {
-    return "You don't have any pending shift assignments to confirm. Reply STATUS to see your shifts.";
-  }
-
-  const shift = assignedShifts[0];
-  const dateFormatted = formatDateForSms(shift.date);
-
-  await logAuditEvent({
-    action: "shift_confirmed_via_sms",
-    actor: null,
-    targetType: "shift",
-    targetId: shift.id,
-    targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
-    details: { employeeId: employee.id, employeeName: employee.name },
-    ipAddress: ipAddress,
-  });
-
-  return `Thanks for confirming! Your shift on ${dateFormatted} (${shift.startTime}-${shift.endTime}) at ${shift.location} is confirmed.\n\nPlease arrive 10 minutes early.`;
-}
-
-/**
- * Handle WITHDRAW command - withdraw interest in a shift
- * WITHDRAW (no code) = list shifts with pending interest
- * WITHDRAW [code] = withdraw interest from specific shift
- */
-async function handleWithdraw(employee: Employee, shiftCode?: string, ipAddress?: string): Promise<string> {
-  // Get all pending interests for this employee (only current/future shifts)
-  // Use local date for timezone-safe comparison
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString().split('T')[0];
-  const interests = await storage.getEmployeeShiftInterests(employee.id);
-  const pendingInterests = interests
-    .filter(i => i.shift && i.shift.status === 'available' && i.shift.date >= today)
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-
-  if (pendingInterests.length === 0) {
-    return "You don't have any pending shift interests to withdraw. Reply STATUS to check your current status.";
-  }
-
-  // If no shift code provided, list all shifts with pending interest
-  if (!shiftCode) {
-    let message = "[ShiftConnect] Your pending interests:\n\n";
-    for (const interest of pendingInterests) {
-      const shift = interest.shift;
-      const dateFormatted = formatDateForSms(shift.date);
-      const code = shift.smsCode || 'N/A';
-      message += `${dateFormatted} ${shift.startTime}-${shift.endTime}\n`;
-      message += `Code: ${code}\n\n`;
-    }
-    message += "Reply WITHDRAW [code] to withdraw interest in a specific shift.";
-    return message;
-  }
-
-  // Find the shift by SMS code
-  const targetInterest = pendingInterests.find(i => i.shift?.smsCode === shiftCode);
-  
-  if (!targetInterest) {
-    return `No pending interest found for shift code ${shiftCode}. Reply WITHDRAW to see your pending interests.`;
-  }
-
-  // Delete the interest
-  await storage.deleteShiftInterest(targetInterest.shiftId, targetInterest.employeeId);
-  const shift = targetInterest.shift;
-  const dateFormatted = formatDateForSms(shift.date);
-
-  // Broadcast real-time update
-  broadcastShiftUpdate(shift.id, "interest_removed");
-
-  await logAuditEvent({
-    action: "shift_interest_withdrawn_via_sms",
-    actor: null,
-    targetType: "shift",
-    targetId: shift.id,
-    targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
-    details: { employeeId: employee.id, employeeName: employee.name, shiftCode },
-    ipAddress: ipAddress,
-  });
-
-  return `Your interest in the shift on ${dateFormatted} (${shift.startTime}-${shift.endTime}) has been withdrawn.`;
-}
+import { insertSmsTemplateSchema, type Employee, type MessageAttachment } from "@shared/schema";
+import { initializeSMSProvider, isProviderConfigured, getStatusCallback } from "../services/smsNotifications";
+import { enqueueSMS } from "../services/smsQueue";
+import { processInboundMessage } from "../services/smsInbound";
+import { validateUploads, saveOutboundAttachments, toOutboundMedia, getAttachmentSummaries } from "../services/smsMedia";
+import { scheduleMessage, parseScheduledFor, getScheduledSends, getPendingBatchMessages } from "../services/smsScheduled";
+import { mmsUploadsSchema } from "@shared/mms";
+import { exportConsentCsv } from "../services/smsConsent";
+import { broadcastMessageStatus, broadcastConversationRead } from "../websocket";
 
 const router = Router();
 
@@ -385,6 +34,7 @@ const router = Router();
 interface SMSSettings {
   // Provider selection
   smsProvider: SMSProviderType;
+  smsSecondaryProvider: SMSProviderType | null; // Failover target, null when failover is off
 
   // Twilio configuration
   twilioAccountSid: string;
@@ -399,6 +49,9 @@ interface SMSSettings {
   ringcentralJwt: string;
   ringcentralFromNumber: string;
 
+  // Mock provider configuration (development only)
+  mockFailureRate: number;
+
   // General settings
   smsEnabled: boolean;
   smsDailyLimit: number;
@@ -436,6 +89,7 @@ async function getSMSSettings(): Promise<SMSSettings> {
   return {
     // Provider selection
     smsProvider: provider as SMSProviderType,
+    smsSecondaryProvider: (getValue("sms_secondary_provider") || null) as SMSProviderType | null,
 
     // Twilio configuration
     twilioAccountSid: getValue("twilio_account_sid"),
@@ -450,6 +104,9 @@ async function getSMSSettings(): Promise<SMSSettings> {
     ringcentralJwt: getValue("ringcentral_jwt") || process.env.RINGCENTRAL_JWT || "",
     ringcentralFromNumber: getValue("ringcentral_from_number") || process.env.RINGCENTRAL_FROM_NUMBER || "",
 
+    // Mock provider configuration
+    mockFailureRate: parseInt(getValue("mock_sms_failure_rate", "0")) || 0,
+
     // General settings - auto-enable if RingCentral env vars are configured
     smsEnabled: getValue("sms_enabled") === "true" || hasRingCentralEnvVars,
     smsDailyLimit: parseInt(getValue("sms_daily_limit", "1000")),
@@ -465,70 +122,6 @@ async function getSMSSettings(): Promise<SMSSettings> {
   };
 }
 
-// Initialize SMS provider with current settings
-async function initializeSMSProvider(): Promise<boolean> {
-  const settings = await getSMSSettings();
-
-  if (!settings.smsEnabled) {
-    return false;
-  }
-
-  try {
-    if (settings.smsProvider === "ringcentral") {
-      // Validate RingCentral configuration
-      if (
-        !settings.ringcentralClientId ||
-        !settings.ringcentralClientSecret ||
-        !settings.ringcentralJwt ||
-        !settings.ringcentralFromNumber
-      ) {
-        return false;
-      }
-
-      const config = {
-        provider: "ringcentral" as const,
-        fromNumber: settings.ringcentralFromNumber,
-        ringcentralClientId: settings.ringcentralClientId,
-        ringcentralClientSecret: settings.ringcentralClientSecret,
-        ringcentralServerUrl: settings.ringcentralServerUrl,
-        ringcentralJwt: settings.ringcentralJwt,
-      };
-      
-      // Use async initialization that verifies authentication
-      const rcProvider = smsProvider as any;
-      if (typeof rcProvider.initializeAsync === 'function') {
-        const authenticated = await rcProvider.initializeAsync(config);
-        if (!authenticated) {
-          console.log("RingCentral authentication failed");
-          return false;
-        }
-        return true;
-      } else {
-        // Fallback to sync initialize
-        smsProvider.initialize(config);
-      }
-    } else {
-      // Default to Twilio
-      if (!settings.twilioAccountSid || !settings.twilioAuthToken || !settings.twilioFromNumber) {
-        return false;
-      }
-
-      smsProvider.initialize({
-        provider: "twilio",
-        fromNumber: settings.twilioFromNumber,
-        twilioAccountSid: settings.twilioAccountSid,
-        twilioAuthToken: settings.twilioAuthToken,
-        twilioMessagingServiceSid: settings.twilioMessagingServiceSid || undefined,
-      });
-    }
-
-    return smsProvider.isInitialized();
-  } catch (error) {
-    console.error("Failed to initialize SMS provider:", error);
-    return false;
-  }
-}
-
 // Check if current time is within quiet hours
 function isQuietHours(start: string, end: string): boolean {
   const now = new Date();
@@ -548,11 +141,12 @@ function isQuietHours(start: string, end: string): boolean {
   return currentMinutes >= startMinutes && currentMinutes < endMinutes;
 }
 
-// Get base URL for webhooks
-function getWebhookBaseUrl(req: any): string {
-  // In production, this should be set via environment variable
-  const protocol = req.secure ? "https" : "http";
-  const host = req.get("host");
+// Base URL for webhooks, links and status callbacks in outbound texts -
+// WEBHOOK_BASE_URL, else the host the request came in on (through any proxy)
+function getWebhookBaseUrl(req: Request): string {
+  const protocol = req.secure ? "https" : (req.headers["x-forwarded-proto"] as string) || "http";
+  const forwardedHost = req.headers["x-forwarded-host"] as string;
+  const host = forwardedHost || process.env.REPLIT_DEV_DOMAIN || req.get("host");
   return process.env.WEBHOOK_BASE_URL || `${protocol}://${host}`;
 }
 
@@ -562,28 +156,29 @@ router.get("/status", async (req, res) => {
   const initialized = smsProvider.isInitialized();
 
   // Check if the configured provider has valid credentials
-  let configured = false;
+  const configured = isProviderConfigured(settings, settings.smsProvider);
   let fromNumber: string | null = null;
 
-  if (settings.smsProvider === "ringcentral") {
-    configured = !!(
-      settings.ringcentralClientId &&
-      settings.ringcentralClientSecret &&
-      settings.ringcentralJwt &&
-      settings.ringcentralFromNumber
-    );
+  if (settings.smsProvider === "mock") {
+    fromNumber = MOCK_FROM_NUMBER;
+  } else if (settings.smsProvider === "ringcentral") {
     fromNumber = settings.ringcentralFromNumber;
   } else {
-    configured = !!(settings.twilioAccountSid && settings.twilioAuthToken && settings.twilioFromNumber);
     fromNumber = settings.twilioFromNumber;
   }
 
   res.json({
     enabled: settings.smsEnabled,
     provider: settings.smsProvider,
+    secondaryProvider: settings.smsSecondaryProvider,
     configured,
+    secondaryConfigured: settings.smsSecondaryProvider
+      ? isProviderConfigured(settings, settings.smsSecondaryProvider)
+      : false,
     initialized,
+    mmsSupported: smsProvider.supportsMMS(settings.smsProvider),
     fromNumber: fromNumber ? `***${fromNumber.slice(-4)}` : null,
+    failover: smsProvider.getFailoverStatus(),
   });
 });
 
@@ -1492,20 +1087,9 @@ router.post("/test", async (req, res) => {
   const settings = await getSMSSettings();
 
   // Check if provider is configured
-  let configured = false;
+  const configured = isProviderConfigured(settings, settings.smsProvider);
   let providerName = settings.smsProvider;
 
-  if (settings.smsProvider === "ringcentral") {
-    configured = !!(
-      settings.ringcentralClientId &&
-      settings.ringcentralClientSecret &&
-      settings.ringcentralJwt &&
-      settings.ringcentralFromNumber
-    );
-  } else {
-    configured = !!(settings.twilioAccountSid && settings.twilioAuthToken && settings.twilioFromNumber);
-  }
-
   if (!configured) {
     return res.status(400).json({
       success: false,
@@ -1536,6 +1120,8 @@ router.post("/test", async (req, res) => {
     // Send test message
     const testMessage = `ShiftConnect Test: Your ${providerName} SMS integration is working correctly. Sent at ${new Date().toLocaleTimeString()}.`;
     const result = await smsProvider.sendSMS(testPhoneNumber, testMessage);
+    // Report the provider that actually sent it, in case the primary failed over
+    if (result.provider) providerName = result.provider;
 
     if (result.success) {
       // Log the test
@@ -1597,13 +1183,37 @@ router.post("/send", async (req, res) => {
     return res.status(403).json({ error: "Access denied" });
   }
 
-  const { employeeId, content, messageType = "general", relatedShiftId } = req.body;
+  const { employeeId, content = "", messageType = "general", relatedShiftId } = req.body;
 
-  if (!employeeId || !content) {
+  // Pictures attached to the message (MMS)
+  const parsedUploads = mmsUploadsSchema.safeParse(req.body.attachments ?? []);
+  if (!parsedUploads.success) {
+    return res.status(400).json({ error: parsedUploads.error.errors[0]?.message || "Invalid attachments" });
+  }
+  const uploads = parsedUploads.data;
+
+  if (!employeeId || (!content && uploads.length === 0)) {
     console.log("[SMS Send] Missing required fields");
     return res.status(400).json({ error: "Employee ID and content are required" });
   }
 
+  if (uploads.length > 0) {
+    const uploadError = validateUploads(uploads);
+    if (uploadError) {
+      return res.status(400).json({ error: uploadError });
+    }
+  }
+
+  // Send later instead of now
+  let scheduledFor: Date | null = null;
+  if (req.body.scheduledFor) {
+    const parsed = parseScheduledFor(req.body.scheduledFor);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    scheduledFor = parsed.scheduledFor;
+  }
+
   console.log("[SMS Send] Processing for employee:", employeeId);
   
   const settings = await getSMSSettings();
@@ -1614,8 +1224,8 @@ router.post("/send", async (req, res) => {
     return res.status(400).json({ error: "SMS is disabled" });
   }
 
-  // Check quiet hours for non-urgent messages
-  if (settings.smsRespectQuietHours && messageType !== "shift_reminder") {
+  // Check quiet hours for non-urgent messages - scheduled ones are held by the queue instead
+  if (!scheduledFor && settings.smsRespectQuietHours && messageType !== "shift_reminder") {
     if (isQuietHours(settings.smsQuietHoursStart, settings.smsQuietHoursEnd)) {
       return res.status(400).json({ error: "Cannot send non-urgent SMS during quiet hours" });
     }
@@ -1637,6 +1247,34 @@ router.post("/send", async (req, res) => {
     return res.status(400).json({ error: "Employee has opted out of SMS" });
   }
 
+  if (uploads.length > 0 && !smsProvider.supportsMMS()) {
+    return res.status(400).json({ error: "The current SMS provider can't send pictures" });
+  }
+
+  if (scheduledFor) {
+    const batchId = await scheduleMessage({
+      employeeIds: [employeeId],
+      content,
+      messageType,
+      scheduledFor,
+      scheduledBy: user.id,
+      uploads,
+      smsProvider: settings.smsProvider,
+    });
+
+    await logAuditEvent({
+      action: "sms_scheduled",
+      actor: user,
+      targetType: "message",
+      targetId: batchId,
+      targetName: employee.name,
+      details: { scheduledFor: scheduledFor.toISOString(), recipients: 1, messageType },
+      ipAddress: getClientIp(req),
+    });
+
+    return res.json({ success: true, scheduled: true, batchId, scheduledFor });
+  }
+
   // Create message record
   const threadId = randomUUID();
   console.log("[SMS Send] Creating message record for employee:", employee.name);
@@ -1650,29 +1288,33 @@ router.post("/send", async (req, res) => {
     threadId,
   });
   console.log("[SMS Send] Message record created:", message.id);
+  const attachments = await saveOutboundAttachments(message.id, uploads);
 
   // Get status callback URL based on provider
-  const statusCallbackUrl = `${getWebhookBaseUrl(req)}/api/webhooks/${settings.smsProvider}/status`;
+  const statusCallbackUrl = getStatusCallback(getWebhookBaseUrl(req));
 
-  // Send SMS using provider abstraction
+  // Send SMS (or MMS when pictures are attached) using provider abstraction
   console.log("[SMS Send] Sending to phone:", employee.phone);
-  const result = await smsProvider.sendSMSWithRetry(
-    employee.phone,
-    content,
-    statusCallbackUrl
-  );
+  const result = attachments.length > 0
+    ? await smsProvider.sendMMS(employee.phone, content, toOutboundMedia(attachments, getWebhookBaseUrl(req)), statusCallbackUrl)
+    : await smsProvider.sendSMSWithRetry(
+      employee.phone,
+      content,
+      statusCallbackUrl
+    );
   console.log("[SMS Send] Provider result:", { success: result.success, messageId: result.messageId, error: result.errorMessage });
 
   // Update message with result
   await storage.updateMessage(message.id, {
     providerMessageId: result.messageId || result.providerMessageId || null,
-    smsProvider: settings.smsProvider,
+    smsProvider: result.provider ?? settings.smsProvider,
     status: result.success ? "sent" : "failed",
     deliveryStatus: result.status as DeliveryStatus || null,
     errorCode: result.errorCode || null,
     errorMessage: result.errorMessage || null,
     segments: result.segments || 1,
   });
+  broadcastMessageStatus({ ...message, status: result.success ? "sent" : "failed" });
 
   // Audit log
   await logAuditEvent({
@@ -1683,10 +1325,11 @@ router.post("/send", async (req, res) => {
     targetName: employee.name,
     details: {
       success: result.success,
-      provider: settings.smsProvider,
+      provider: result.provider ?? settings.smsProvider,
       messageId: result.messageId,
       errorCode: result.errorCode,
       messageType,
+      attachments: attachments.length || undefined,
     },
     ipAddress: getClientIp(req),
   });
@@ -1723,6 +1366,16 @@ router.post("/bulk", async (req, res) => {
     return res.status(400).json({ error: "Content is required" });
   }
 
+  // Send later instead of now
+  let scheduledFor: Date | null = null;
+  if (req.body.scheduledFor) {
+    const parsed = parseScheduledFor(req.body.scheduledFor);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    scheduledFor = parsed.scheduledFor;
+  }
+
   const settings = await getSMSSettings();
 
   if (!settings.smsEnabled) {
@@ -1736,7 +1389,6 @@ router.post("/bulk", async (req, res) => {
   }
 
   const results: { employeeId: string; success: boolean; error?: string }[] = [];
-  const statusCallbackUrl = `${getWebhookBaseUrl(req)}/api/webhooks/${settings.smsProvider}/status`;
 
   for (const employeeId of employeeIds) {
     const employee = await storage.getEmployee(employeeId);
@@ -1751,54 +1403,51 @@ router.post("/bulk", async (req, res) => {
       continue;
     }
 
-    // Create message record
-    const message = await storage.createMessage({
-      employeeId,
-      direction: "outbound",
-      content,
-      status: "pending",
-      messageType,
-    });
-
-    // Send SMS (with small delay to respect rate limits)
-    await new Promise(resolve => setTimeout(resolve, 100));
+    // Queue for the outbound worker, which paces sends and retries recoverable errors
+    if (!scheduledFor) {
+      await enqueueSMS({
+        employeeId,
+        content,
+        messageType,
+        smsProvider: settings.smsProvider,
+      });
+    }
 
-    const result = await smsProvider.sendSMS(employee.phone, content, statusCallbackUrl);
+    results.push({ employeeId, success: true });
+  }
 
-    await storage.updateMessage(message.id, {
-      providerMessageId: result.messageId || result.providerMessageId || null,
+  // A scheduled broadcast is one batch, so it can be edited or cancelled as a whole
+  const batchId = scheduledFor && results.some(r => r.success)
+    ? await scheduleMessage({
+      employeeIds: results.filter(r => r.success).map(r => r.employeeId),
+      content,
+      messageType,
+      scheduledFor,
+      scheduledBy: user.id,
       smsProvider: settings.smsProvider,
-      status: result.success ? "sent" : "failed",
-      deliveryStatus: result.status as DeliveryStatus || null,
-      errorCode: result.errorCode || null,
-      errorMessage: result.errorMessage || null,
-      segments: result.segments || 1,
-    });
-
-    results.push({
-      employeeId,
-      success: result.success,
-      error: result.errorMessage,
-    });
-  }
+    })
+    : undefined;
 
   // Audit log
   await logAuditEvent({
-    action: "sms_bulk_sent",
+    action: scheduledFor ? "sms_scheduled" : "sms_bulk_sent",
     actor: user,
     targetType: "message",
-    targetId: undefined,
+    targetId: batchId,
     targetName: `${employeeIds.length} recipients`,
     details: {
       totalRecipients: employeeIds.length,
       provider: settings.smsProvider,
-      successful: results.filter(r => r.success).length,
+      queued: results.filter(r => r.success).length,
       failed: results.filter(r => !r.success).length,
+      scheduledFor: scheduledFor?.toISOString(),
     },
     ipAddress: getClientIp(req),
   });
 
   res.json({
+    batchId,
+    scheduledFor,
     total: employeeIds.length,
     successful: results.filter(r => r.success).length,
     failed: results.filter(r => !r.success).length,
@@ -1806,8 +1455,243 @@ router.post("/bulk", async (req, res) => {
   });
 });
 
+// === Scheduled Sends ===
+
+// Schedule one message for one or more employees - "Send later" in the Compose SMS panel
+router.post("/scheduled", async (req, res) => {
+  const user = req.user as any;
+  if (!user || (user.role !== "admin" && user.role !== "supervisor")) {
+    return res.status(403).json({ error: "Access denied" });
+  }
+
+  const { employeeIds, content = "", messageType = "general" } = req.body;
+  if (!Array.isArray(employeeIds) || employeeIds.length === 0) {
+    return res.status(400).json({ error: "Employee IDs array is required" });
+  }
+
+  const parsedUploads = mmsUploadsSchema.safeParse(req.body.attachments ?? []);
+  if (!parsedUploads.success) {
+    return res.status(400).json({ error: parsedUploads.error.errors[0]?.message || "Invalid attachments" });
+  }
+  const uploads = parsedUploads.data;
+  if (!content && uploads.length === 0) {
+    return res.status(400).json({ error: "Content is required" });
+  }
+  const uploadError = uploads.length > 0 ? validateUploads(uploads) : null;
+  if (uploadError) {
+    return res.status(400).json({ error: uploadError });
+  }
+
+  const parsed = parseScheduledFor(req.body.scheduledFor);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  const settings = await getSMSSettings();
+  if (!settings.smsEnabled) {
+    return res.status(400).json({ error: "SMS is disabled" });
+  }
+  if (uploads.length > 0 && !smsProvider.supportsMMS(settings.smsProvider)) {
+    return res.status(400).json({ error: "The current SMS provider can't send pictures" });
+  }
+
+  const recipients: Employee[] = [];
+  const skipped: { employeeId: string; error: string }[] = [];
+  for (const employeeId of employeeIds) {
+    const employee = await storage.getEmployee(employeeId);
+    if (!employee) {
+      skipped.push({ employeeId, error: "Employee not found" });
+    } else if (!employee.smsOptIn) {
+      skipped.push({ employeeId, error: "Employee opted out" });
+    } else {
+      recipients.push(employee);
+    }
+  }
+  if (recipients.length === 0) {
+    return res.status(400).json({ error: skipped[0]?.error || "No recipients", skipped });
+  }
+
+  const batchId = await scheduleMessage({
+    employeeIds: recipients.map(e => e.id),
+    content,
+    messageType,
+    scheduledFor: parsed.scheduledFor,
+    scheduledBy: user.id,
+    uploads,
+    smsProvider: settings.smsProvider,
+  });
+
+  await logAuditEvent({
+    action: "sms_scheduled",
+    actor: user,
+    targetType: "message",
+    targetId: batchId,
+    targetName: recipients.length === 1 ? recipients[0].name : `${recipients.length} recipients`,
+    details: {
+      scheduledFor: parsed.scheduledFor.toISOString(),
+      recipients: recipients.length,
+      skipped: skipped.length || undefined,
+      messageType,
+      attachments: uploads.length || undefined,
+    },
+    ipAddress: getClientIp(req),
+  });
+
+  res.status(201).json({ batchId, scheduledFor: parsed.scheduledFor, scheduled: recipients.length, skipped });
+});
+
+// Scheduled sends that haven't gone out yet
+router.get("/scheduled", async (req, res) => {
+  const user = req.user as any;
+  if (!user || (user.role !== "admin" && user.role !== "supervisor")) {
+    return res.status(403).json({ error: "Access denied" });
+  }
+
+  res.json(await getScheduledSends());
+});
+
+// Change the text or send time of a scheduled send, for every recipient
+router.patch("/scheduled/:id", async (req, res) => {
+  const user = req.user as any;
+  if (!user || (user.role !== "admin" && user.role !== "supervisor")) {
+    return res.status(403).json({ error: "Access denied" });
+  }
+
+  const messages = await getPendingBatchMessages(req.params.id);
+  if (messages.length === 0) {
+    return res.status(404).json({ error: "Scheduled message not found or already sent" });
+  }
+
+  const updates: { content?: string; scheduledFor?: Date } = {};
+  if (req.body.content !== undefined) {
+    if (typeof req.body.content !== "string" || !req.body.content.trim()) {
+      return res.status(400).json({ error: "Content is required" });
+    }
+    updates.content = req.body.content;
+  }
+  if (req.body.scheduledFor !== undefined) {
+    const parsed = parseScheduledFor(req.body.scheduledFor);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    updates.scheduledFor = parsed.scheduledFor;
+  }
+
+  for (const message of messages) {
+    await storage.updateMessage(message.id, updates);
+  }
+
+  await logAuditEvent({
+    action: "sms_schedule_updated",
+    actor: user,
+    targetType: "message",
+    targetId: req.params.id,
+    targetName: `${messages.length} recipient${messages.length !== 1 ? "s" : ""}`,
+    details: {
+      contentChanged: updates.content !== undefined && updates.content !== messages[0].content,
+      previousScheduledFor: messages[0].scheduledFor,
+      scheduledFor: updates.scheduledFor?.toISOString(),
+    },
+    ipAddress: getClientIp(req),
+  });
+
+  res.json({ success: true, updated: messages.length });
+});
+
+// Cancel a scheduled send for every recipient that hasn't been texted yet
+router.delete("/scheduled/:id", async (req, res) => {
+  const user = req.user as any;
+  if (!user || (user.role !== "admin" && user.role !== "supervisor")) {
+    return res.status(403).json({ error: "Access denied" });
+  }
+
+  const messages = await getPendingBatchMessages(req.params.id);
+  if (messages.length === 0) {
+    return res.status(404).json({ error: "Scheduled message not found or already sent" });
+  }
+
+  for (const message of messages) {
+    await storage.updateMessage(message.id, { status: "cancelled", errorMessage: "Scheduled send cancelled" });
+  }
+
+  await logAuditEvent({
+    action: "sms_schedule_cancelled",
+    actor: user,
+    targetType: "message",
+    targetId: req.params.id,
+    targetName: `${messages.length} recipient${messages.length !== 1 ? "s" : ""}`,
+    details: { scheduledFor: messages[0].scheduledFor, content: messages[0].content.substring(0, 100) },
+    ipAddress: getClientIp(req),
+  });
+
+  res.json({ success: true, cancelled: messages.length });
+});
+
+// === SMS Consent Ledger ===
+
+/**
+ * Read the employeeId/from/to filters shared by the consent endpoints
+ */
+function parseConsentFilters(query: Record<string, unknown>): { employeeId?: string; since?: Date; until?: Date } | { error: string } {
+  const since = typeof query.from === "string" ? new Date(query.from) : undefined;
+  const until = typeof query.to === "string" ? new Date(query.to) : undefined;
+  if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+    return { error: "Invalid date range" };
+  }
+  return { employeeId: typeof query.employeeId === "string" ? query.employeeId : undefined, since, until };
+}
+
+// Consent history - every opt-in and opt-out, oldest first
+router.get("/consent", async (req, res) => {
+  const user = req.user as any;
+  if (!user || (user.role !== "admin" && user.role !== "supervisor")) {
+    return res.status(403).json({ error: "Access denied" });
+  }
+
+  const filters = parseConsentFilters(req.query);
+  if ("error" in filters) {
+    return res.status(400).json({ error: filters.error });
+  }
+
+  res.json(await storage.getSmsConsentEvents(filters));
+});
+
+// Consent history as CSV, for carrier (10DLC) and TCPA audits
+router.get("/consent/export", async (req, res) => {
+  const user = req.user as any;
+  if (!user || user.role !== "admin") {
+    return res.status(403).json({ error: "Admin access required" });
+  }
+
+  const filters = parseConsentFilters(req.query);
+  if ("error" in filters) {
+    return res.status(400).json({ error: filters.error });
+  }
+
+  const csv = await exportConsentCsv(filters);
+
+  await logAuditEvent({
+    action: "sms_consent_exported",
+    actor: user,
+    targetType: "employee",
+    targetId: filters.employeeId,
+    details: {
+      from: filters.since?.toISOString(),
+      to: filters.until?.toISOString(),
+    },
+    ipAddress: getClientIp(req),
+  });
+
+  res.set({
+    "Content-Type": "text/csv; charset=utf-8",
+    "Content-Disposition": `attachment; filename="sms-consent-${new Date().toISOString().split("T")[0]}.csv"`,
+  });
+  res.send(csv);
+});
+
 // === Twilio Status Webhook ===
-router.post("/webhooks/twilio/status", async (req, res) => {
+// The mock provider posts Twilio-format callbacks, so it shares this handler
+router.post(["/webhooks/twilio/status", "/webhooks/mock/status"], async (req, res) => {
   const { MessageSid, MessageStatus, ErrorCode, ErrorMessage } = req.body;
 
   if (!MessageSid) {
@@ -1835,6 +1719,7 @@ router.post("/webhooks/twilio/status", async (req, res) => {
       errorCode: ErrorCode || null,
       errorMessage: ErrorMessage || null,
     });
+    broadcastMessageStatus({ ...message, status });
   }
 
   // Respond with empty TwiML
@@ -1882,6 +1767,7 @@ router.post("/webhooks/ringcentral/status", async (req, res) => {
           errorCode: eventBody.errorCode || null,
           errorMessage: eventBody.errorMessage || null,
         });
+        broadcastMessageStatus({ ...message, status });
       }
     }
   } catch (error) {
@@ -1899,304 +1785,132 @@ router.post("/webhooks/ringcentral/inbound", async (req, res) => {
     return res.status(200).send();
   }
 
-  const ipAddress = getClientIp(req);
   console.log("RingCentral inbound webhook received:", JSON.stringify(req.body, null, 2));
 
   try {
-    const eventBody = req.body.body || req.body;
-    const fromNumber = eventBody.from?.phoneNumber || eventBody.from || "";
-    const messageBody = eventBody.subject || eventBody.text || "";
-    const messageId = eventBody.id || "";
-    console.log(`Processing inbound - messageId: ${messageId}, from: ${fromNumber}, body: "${messageBody}"`);
-
-    if (!fromNumber || !messageBody) {
-      return res.status(200).send("OK");
+    const inboundMessage = smsProvider.parseInboundMessage(req.body, "ringcentral");
+    if (inboundMessage) {
+      // RingCentral doesn't take a reply in the webhook response - it goes out through the queue
+      await processInboundMessage(inboundMessage, {
+        replyVia: "queue",
+        ipAddress: getClientIp(req),
+        webhookBaseUrl: getWebhookBaseUrl(req),
+      });
     }
+  } catch (error) {
+    console.error("Error processing RingCentral inbound webhook:", error);
+  }
 
-    // Deduplicate - skip if we've already processed this message
-    // First check in-memory cache (fast), then check database (persistent)
-    if (messageId) {
-      if (!markMessageProcessed(messageId)) {
-        console.log("Skipping duplicate webhook (cache hit):", messageId);
-        return res.status(200).send("OK");
-      }
-      // Also check database for duplicates (handles restarts/multi-instance)
-      try {
-        const existingMessage = await storage.getMessageByProviderMessageId(String(messageId));
-        if (existingMessage) {
-          console.log("Skipping duplicate webhook (db hit):", messageId);
-          return res.status(200).send("OK");
-        }
-      } catch (dbErr) {
-        // If DB check fails, continue processing (better to process than drop)
-        console.log("DB dedup check failed, continuing:", dbErr);
-      }
-    }
+  res.status(200).send("OK");
+});
 
-    // Find employee by phone number
-    const employees = await storage.getEmployees();
-    const employee = employees.find(e => {
-      const normalizedEmployeePhone = e.phone.replace(/[^\d+]/g, "");
-      const normalizedFrom = fromNumber.replace(/[^\d+]/g, "");
-      return normalizedEmployeePhone === normalizedFrom ||
-             normalizedEmployeePhone.endsWith(normalizedFrom.slice(-10)) ||
-             normalizedFrom.endsWith(normalizedEmployeePhone.slice(-10));
-    });
+// === Twilio Inbound Message Webhook ===
+// Also serves simulated replies from the mock provider, which uses Twilio's field names
+router.post(["/webhooks/twilio/inbound", "/webhooks/mock/inbound"], async (req, res) => {
+  // Parse with the provider that received it - it may be the failover secondary
+  const providerType: SMSProviderType = req.path.startsWith("/webhooks/mock/") ? "mock" : "twilio";
+  const inboundMessage = smsProvider.parseInboundMessage(req.body, providerType);
+  let reply: string | null = null;
 
-    if (!employee) {
-      console.log("Inbound SMS from unknown number:", fromNumber);
-      return res.status(200).send("OK");
+  try {
+    if (inboundMessage) {
+      const result = await processInboundMessage(inboundMessage, {
+        replyVia: "webhook",
+        ipAddress: getClientIp(req),
+        webhookBaseUrl: getWebhookBaseUrl(req),
+      });
+      reply = result.status === "ignored" ? null : result.reply;
     }
+  } catch (error) {
+    console.error("Error processing inbound webhook:", error);
+  }
 
-    // Parse the inbound command
-    const parsedCommand = parseInboundCommand(messageBody);
-    console.log(`Inbound SMS parsed - type: ${parsedCommand.type}, shiftCode: ${parsedCommand.shiftCode || 'none'}, message: "${messageBody}"`);
-    let responseMessage: string | null = null;
-
-    // Handle each command type (same logic as Twilio)
-    switch (parsedCommand.type) {
-      case 'stop':
-        await storage.updateEmployee(employee.id, { smsOptIn: false });
-        await logAuditEvent({
-          action: "sms_opt_out",
-          actor: null,
-          targetType: "employee",
-          targetId: employee.id,
-          targetName: employee.name,
-          details: { method: "sms_reply", provider: "ringcentral" },
-          ipAddress,
-        });
-        // RingCentral handles STOP automatically, but we still update our records
-        break;
-
-      case 'start':
-        await storage.updateEmployee(employee.id, { smsOptIn: true });
-        await logAuditEvent({
-          action: "sms_opt_in",
-          actor: null,
-          targetType: "employee",
-          targetId: employee.id,
-          targetName: employee.name,
-          details: { method: "sms_reply", provider: "ringcentral" },
-          ipAddress,
-        });
-        break;
-
-      case 'help':
-        responseMessage = "[ShiftConnect] Commands:\n" +
-          "YES - Express interest in a shift\n" +
-          "YES <code> - Interest in specific shift\n" +
-          "NO - Decline a shift\n" +
-          "CONFIRM - Confirm assigned shift\n" +
-          "WITHDRAW - List shifts you're interested in\n" +
-          "WITHDRAW <code> - Withdraw interest in shift\n" +
-          "STATUS - Your shifts & interests\n" +
-          "SHIFTS - View available shifts\n" +
-          "STOP - Unsubscribe\n" +
-          "START - Subscribe";
-        break;
-
-      case 'status':
-        responseMessage = await handleStatus(employee);
-        break;
-
-      case 'shifts':
-        responseMessage = await handleShifts(employee);
-        break;
-
-      case 'interest_yes':
-        responseMessage = await handleInterestYes(employee, parsedCommand.shiftCode, ipAddress);
-        break;
-
-      case 'interest_no':
-        responseMessage = await handleInterestNo(employee, ipAddress);
-        break;
-
-      case 'confirm':
-        responseMessage = await handleConfirm(employee, ipAddress);
-        break;
-
-      case 'withdraw':
-        responseMessage = await handleWithdraw(employee, parsedCommand.shiftCode, ipAddress);
-        break;
-
-      case 'unknown':
-      default:
-        // Store inbound message for supervisor review
-        await storage.createMessage({
-          employeeId: employee.id,
-          direction: "inbound",
-          content: messageBody,
-          status: "delivered",
-          providerMessageId: messageId,
-          smsProvider: "ringcentral",
-          messageType: "general",
-        });
+  res.type("text/xml");
+  res.send(smsProvider.generateResponse(reply ?? undefined, providerType));
+});
 
-        await logAuditEvent({
-          action: "sms_inbound",
-          actor: null,
-          targetType: "message",
-          targetId: undefined,
-          targetName: employee.name,
-          details: {
-            from: fromNumber,
-            body: messageBody.substring(0, 100),
-            provider: "ringcentral",
-          },
-          ipAddress,
-        });
+// === Mock Provider Simulator (development only) ===
+const requireMockProvider = async (req: any, res: any): Promise<boolean> => {
+  const user = req.user as any;
+  if (!user || user.role !== "admin") {
+    res.status(403).json({ error: "Admin access required" });
+    return false;
+  }
+  if (process.env.NODE_ENV === "production") {
+    res.status(404).json({ error: "Not found" });
+    return false;
+  }
+  const settings = await getSMSSettings();
+  if (settings.smsProvider !== "mock") {
+    res.status(400).json({ error: "The mock SMS provider is not selected" });
+    return false;
+  }
+  return true;
+};
 
-        responseMessage = "Message received. A supervisor will respond shortly. Reply HELP for available commands.";
-        break;
-    }
+router.get("/mock/messages", async (req, res) => {
+  if (!(await requireMockProvider(req, res))) return;
 
-    // If we have a response, send it back via the SMS provider
-    if (responseMessage && parsedCommand.type !== 'stop') {
-      await initializeSMSProvider();
-      await smsProvider.sendSMS(fromNumber, responseMessage);
-    }
-  } catch (error) {
-    console.error("Error processing RingCentral inbound webhook:", error);
-  }
+  const phone = typeof req.query.phone === "string" ? req.query.phone : undefined;
+  res.json(getMockMessages(phone));
+});
 
-  res.status(200).send("OK");
+router.delete("/mock/messages", async (req, res) => {
+  if (!(await requireMockProvider(req, res))) return;
+
+  clearMockMessages();
+  res.json({ success: true });
 });
 
-// === Twilio Inbound Message Webhook ===
-router.post("/webhooks/twilio/inbound", async (req, res) => {
-  const inboundMessage = smsProvider.parseInboundMessage(req.body);
-  const ipAddress = getClientIp(req);
+// Reply as an employee - posts to the inbound webhook over HTTP so the full handler runs
+router.post("/mock/inbound", async (req, res) => {
+  if (!(await requireMockProvider(req, res))) return;
 
-  if (!inboundMessage) {
-    res.type("text/xml");
-    res.send('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
-    return;
+  const { employeeId, body = "" } = req.body;
+  // Simulated MMS - http(s) or data: URLs the mock provider downloads like real media
+  const mediaUrls: string[] = Array.isArray(req.body.mediaUrls)
+    ? req.body.mediaUrls.filter((url: unknown) => typeof url === "string" && url)
+    : [];
+  if (!employeeId || typeof body !== "string" || (!body.trim() && mediaUrls.length === 0)) {
+    return res.status(400).json({ error: "Employee ID and message body are required" });
   }
 
-  // Find employee by phone number
-  const employees = await storage.getEmployees();
-  const employee = employees.find(e => {
-    // Normalize phone numbers for comparison
-    const normalizedEmployeePhone = e.phone.replace(/[^\d+]/g, "");
-    const normalizedFrom = inboundMessage.from.replace(/[^\d+]/g, "");
-    return normalizedEmployeePhone === normalizedFrom ||
-           normalizedEmployeePhone.endsWith(normalizedFrom.slice(-10)) ||
-           normalizedFrom.endsWith(normalizedEmployeePhone.slice(-10));
-  });
-
+  const employee = await storage.getEmployee(employeeId);
   if (!employee) {
-    // Unknown sender - log and respond
-    console.log("Inbound SMS from unknown number:", inboundMessage.from);
-    res.type("text/xml");
-    res.send(smsProvider.generateResponse("Sorry, we couldn't identify your number. Please contact your supervisor."));
-    return;
+    return res.status(404).json({ error: "Employee not found" });
   }
 
-  // Parse the inbound command
-  const parsedCommand = parseInboundCommand(inboundMessage.body);
-  let responseMessage: string;
+  const initialized = await initializeSMSProvider();
+  if (!initialized) {
+    return res.status(400).json({ error: "SMS is disabled" });
+  }
 
-  // Handle each command type
-  switch (parsedCommand.type) {
-    case 'stop':
-      await storage.updateEmployee(employee.id, { smsOptIn: false });
-      await logAuditEvent({
-        action: "sms_opt_out",
-        actor: null,
-        targetType: "employee",
-        targetId: employee.id,
-        targetName: employee.name,
-        details: { method: "sms_reply" },
-        ipAddress,
-      });
-      responseMessage = "You have been unsubscribed from SMS notifications. Reply START to re-subscribe.";
-      break;
+  const inbound = recordMockInbound(employee.phone, body.trim(), mediaUrls.length);
+  const params = new URLSearchParams({
+    MessageSid: inbound.id,
+    From: employee.phone,
+    To: MOCK_FROM_NUMBER,
+    Body: inbound.body,
+    NumMedia: String(mediaUrls.length),
+  });
+  mediaUrls.forEach((url, i) => params.set(`MediaUrl${i}`, url));
 
-    case 'start':
-      await storage.updateEmployee(employee.id, { smsOptIn: true });
-      await logAuditEvent({
-        action: "sms_opt_in",
-        actor: null,
-        targetType: "employee",
-        targetId: employee.id,
-        targetName: employee.name,
-        details: { method: "sms_reply" },
-        ipAddress,
-      });
-      responseMessage = "You have been subscribed to SMS notifications. Reply STOP to unsubscribe.";
-      break;
-
-    case 'help':
-      responseMessage = "[ShiftConnect] Commands:\n" +
-        "YES - Express interest in a shift\n" +
-        "YES <code> - Interest in specific shift\n" +
-        "NO - Decline a shift\n" +
-        "CONFIRM - Confirm assigned shift\n" +
-        "WITHDRAW - List shifts you're interested in\n" +
-        "WITHDRAW <code> - Withdraw interest in shift\n" +
-        "STATUS - Your shifts & interests\n" +
-        "SHIFTS - View available shifts\n" +
-        "STOP - Unsubscribe\n" +
-        "START - Subscribe";
-      break;
-
-    case 'status':
-      responseMessage = await handleStatus(employee);
-      break;
-
-    case 'shifts':
-      responseMessage = await handleShifts(employee);
-      break;
-
-    case 'interest_yes':
-      responseMessage = await handleInterestYes(employee, parsedCommand.shiftCode, ipAddress);
-      break;
-
-    case 'interest_no':
-      responseMessage = await handleInterestNo(employee, ipAddress);
-      break;
-
-    case 'confirm':
-      responseMessage = await handleConfirm(employee, ipAddress);
-      break;
-
-    case 'withdraw':
-      responseMessage = await handleWithdraw(employee, parsedCommand.shiftCode, ipAddress);
-      break;
-
-    case 'unknown':
-    default:
-      // Store inbound message for supervisor review
-      await storage.createMessage({
-        employeeId: employee.id,
-        direction: "inbound",
-        content: inboundMessage.body,
-        status: "delivered",
-        providerMessageId: inboundMessage.messageId,
-        smsProvider: "twilio",
-        messageType: "general",
-      });
+  const response = await fetch(`${getWebhookBaseUrl(req)}/api/webhooks/mock/inbound`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: params.toString(),
+  });
 
-      await logAuditEvent({
-        action: "sms_inbound",
-        actor: null,
-        targetType: "message",
-        targetId: undefined,
-        targetName: employee.name,
-        details: {
-          from: inboundMessage.from,
-          body: inboundMessage.body.substring(0, 100),
-        },
-        ipAddress,
-      });
+  if (!response.ok) {
+    return res.status(502).json({ error: `Inbound webhook returned ${response.status}` });
+  }
 
-      responseMessage = "Message received. A supervisor will respond shortly. Reply HELP for available commands.";
-      break;
+  const reply = extractResponseMessage(await response.text());
+  if (reply) {
+    recordMockReply(employee.phone, reply);
   }
 
-  res.type("text/xml");
-  res.send(smsProvider.generateResponse(responseMessage));
+  res.json({ success: true, reply });
 });
 
 // === Reminder Status and Manual Trigger ===
@@ -2413,6 +2127,7 @@ router.get("/analytics", async (req, res) => {
       received: inboundMessages.length,
       delivered: deliveredMessages.length,
       failed: failedMessages.length,
+      queued: outboundMessages.filter(m => m.status === "queued").length,
       segments: totalSegments,
     },
     today: {
@@ -2447,6 +2162,22 @@ router.get("/analytics", async (req, res) => {
 
 // === Conversations ===
 
+// Count unread inbound texts across all conversations, for the navigation badge
+router.get("/unread-count", async (req, res) => {
+  const user = req.user as any;
+  if (!user || (user.role !== "admin" && user.role !== "supervisor")) {
+    return res.status(403).json({ error: "Access denied" });
+  }
+
+  const [messages, employees] = await Promise.all([storage.getMessages(), storage.getEmployees()]);
+  const employeeIds = new Set(employees.map(e => e.id));
+  const unread = messages.filter(
+    m => m.direction === "inbound" && m.status !== "read" && employeeIds.has(m.employeeId)
+  ).length;
+
+  res.json({ unread });
+});
+
 // Get all conversations (grouped by employee)
 router.get("/conversations", async (req, res) => {
   const user = req.user as any;
@@ -2513,6 +2244,7 @@ router.get("/conversations/:employeeId", async (req, res) => {
   }
 
   const messages = await storage.getEmployeeMessages(employeeId);
+  const attachments = await getAttachmentSummaries(messages.map(m => m.id));
 
   // Sort messages by date (oldest first for chat view)
   const sortedMessages = messages.sort(
@@ -2521,10 +2253,50 @@ router.get("/conversations/:employeeId", async (req, res) => {
 
   res.json({
     employee,
-    messages: sortedMessages,
+    messages: sortedMessages.map(m => ({ ...m, attachments: attachments.get(m.id) ?? [] })),
   });
 });
 
+// === Message Attachments ===
+
+// Serve an attachment's file. Only pictures are shown inline - anything else an employee sent
+// is downloaded, so it can't run as a page on our origin.
+function sendAttachment(res: Response, attachment: MessageAttachment) {
+  const inline = attachment.contentType.startsWith("image/");
+  const fileName = (attachment.fileName || attachment.id).replace(/["\\\r\n]/g, "");
+  res.set({
+    "Content-Type": attachment.contentType,
+    "Content-Disposition": `${inline ? "inline" : "attachment"}; filename="${fileName}"`,
+    "X-Content-Type-Options": "nosniff",
+    "Cache-Control": "private, max-age=86400",
+  });
+  res.send(Buffer.from(attachment.data ?? "", "base64"));
+}
+
+// Attachment on a conversation message, for supervisors viewing the Messages page
+router.get("/media/:id", async (req, res) => {
+  const user = req.user as any;
+  if (!user || (user.role !== "admin" && user.role !== "supervisor")) {
+    return res.status(403).json({ error: "Access denied" });
+  }
+
+  const attachment = await storage.getMessageAttachment(req.params.id);
+  if (!attachment?.data) {
+    return res.status(404).json({ error: "Attachment not found" });
+  }
+  sendAttachment(res, attachment);
+});
+
+// Outbound attachment downloaded by the SMS provider when it sends the MMS.
+// Registered without authentication - the random token in the URL is the credential.
+router.get("/media/:id/:token", async (req, res) => {
+  const attachment = await storage.getMessageAttachment(req.params.id);
+  if (!attachment?.data || !attachment.publicToken || attachment.publicToken !== req.params.token) {
+    return res.status(404).json({ error: "Attachment not found" });
+  }
+  sendAttachment(res, attachment);
+});
+
 // Mark messages as read
 router.post("/conversations/:employeeId/read", async (req, res) => {
   const user = req.user as any;
@@ -2543,6 +2315,9 @@ router.post("/conversations/:employeeId/read", async (req, res) => {
       updatedCount++;
     }
   }
+  if (updatedCount > 0) {
+    broadcastConversationRead(employeeId, updatedCount);
+  }
 
   res.json({ success: true, updatedCount });
 });
@@ -0,0 +1,234 @@
+import { storage } from "../storage";
+import { addDays } from "@shared/recurrence";
+import type { Shift } from "@shared/schema";
+
+export type RuleMode = "off" | "warn" | "block";
+
+export type AssignmentRule = "weekly_hours_cap" | "min_rest_hours" | "max_consecutive_days";
+
+export interface AssignmentRuleSettings {
+  weeklyHoursCap: number;
+  weeklyHoursCapMode: RuleMode;
+  minRestHours: number;
+  minRestHoursMode: RuleMode;
+  maxConsecutiveDays: number;
+  maxConsecutiveDaysMode: RuleMode;
+}
+
+export interface RuleViolation {
+  rule: AssignmentRule;
+  mode: Exclude<RuleMode, "off">;
+  limit: number;
+  actual: number;
+  message: string;
+  conflictingShiftId?: string;
+}
+
+export interface RuleEvaluation {
+  violations: RuleViolation[];
+  blocked: boolean; // At least one violated rule is in block mode
+}
+
+type ShiftTiming = Pick<Shift, "date" | "startTime" | "endTime">;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function parseMode(value: string, fallback: RuleMode): RuleMode {
+  return value === "off" || value === "warn" || value === "block" ? value : fallback;
+}
+
+/**
+ * Get assignment rule settings from organization settings
+ */
+export async function getAssignmentRuleSettings(): Promise<AssignmentRuleSettings> {
+  const settings = await storage.getSettings();
+  const getValue = (key: string, defaultValue: string): string => {
+    const setting = settings.find(s => s.key === key);
+    return setting?.value ?? defaultValue;
+  };
+
+  return {
+    weeklyHoursCap: parseFloat(getValue("weekly_hours_cap", "40")),
+    weeklyHoursCapMode: parseMode(getValue("weekly_hours_cap_mode", "warn"), "warn"),
+    minRestHours: parseFloat(getValue("min_rest_hours", "8")),
+    minRestHoursMode: parseMode(getValue("min_rest_hours_mode", "warn"), "warn"),
+    maxConsecutiveDays: parseInt(getValue("max_consecutive_days", "6")),
+    maxConsecutiveDaysMode: parseMode(getValue("max_consecutive_days_mode", "off"), "off"),
+  };
+}
+
+/**
+ * Get the start and end of a shift as local Dates.
+ * Shifts whose end time is at or before the start time run overnight into the next day.
+ */
+export function getShiftWindow(shift: ShiftTiming): { start: Date; end: Date } {
+  const [year, month, day] = shift.date.split("-").map(Number);
+  const [startHours, startMinutes] = shift.startTime.split(":").map(Number);
+  const [endHours, endMinutes] = shift.endTime.split(":").map(Number);
+
+  const start = new Date(year, month - 1, day, startHours, startMinutes);
+  const end = new Date(year, month - 1, day, endHours, endMinutes);
+  if (end <= start) {
+    end.setDate(end.getDate() + 1);
+  }
+  return { start, end };
+}
+
+/**
+ * Length of a shift in hours
+ */
+export function getShiftHours(shift: ShiftTiming): number {
+  const { start, end } = getShiftWindow(shift);
+  return (end.getTime() - start.getTime()) / HOUR_MS;
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 10) / 10;
+}
+
+function describeShift(shift: ShiftTiming): string {
+  return `${shift.date} ${shift.startTime}-${shift.endTime}`;
+}
+
+function checkWeeklyHours(shift: ShiftTiming, others: Shift[], settings: AssignmentRuleSettings): RuleViolation | null {
+  if (settings.weeklyHoursCapMode === "off") return null;
+
+  const { start } = getShiftWindow(shift);
+  const weekStart = new Date(start.getFullYear(), start.getMonth(), start.getDate() - start.getDay());
+  const weekEnd = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 7);
+
+  const scheduledHours = others
+    .filter(s => {
+      const otherStart = getShiftWindow(s).start;
+      return otherStart >= weekStart && otherStart < weekEnd;
+    })
+    .reduce((total, s) => total + getShiftHours(s), 0);
+  const totalHours = roundHours(scheduledHours + getShiftHours(shift));
+
+  if (totalHours <= settings.weeklyHoursCap) return null;
+
+  return {
+    rule: "weekly_hours_cap",
+    mode: settings.weeklyHoursCapMode,
+    limit: settings.weeklyHoursCap,
+    actual: totalHours,
+    message: `${totalHours} hours scheduled for the week (cap ${settings.weeklyHoursCap})`,
+  };
+}
+
+function checkMinimumRest(shift: ShiftTiming, others: Shift[], settings: AssignmentRuleSettings): RuleViolation | null {
+  if (settings.minRestHoursMode === "off") return null;
+
+  const { start, end } = getShiftWindow(shift);
+  let shortest: { hours: number; shift: Shift } | null = null;
+
+  for (const other of others) {
+    const otherWindow = getShiftWindow(other);
+    let gapMs: number;
+    if (otherWindow.end <= start) {
+      gapMs = start.getTime() - otherWindow.end.getTime();
+    } else if (otherWindow.start >= end) {
+      gapMs = otherWindow.start.getTime() - end.getTime();
+    } else {
+      continue; // Overlapping shifts are a double booking, not a rest issue
+    }
+
+    const gapHours = gapMs / HOUR_MS;
+    if (gapHours < settings.minRestHours && (!shortest || gapHours < shortest.hours)) {
+      shortest = { hours: gapHours, shift: other };
+    }
+  }
+
+  if (!shortest) return null;
+
+  const restHours = roundHours(shortest.hours);
+  return {
+    rule: "min_rest_hours",
+    mode: settings.minRestHoursMode,
+    limit: settings.minRestHours,
+    actual: restHours,
+    message: `Only ${restHours} hours of rest next to the shift on ${describeShift(shortest.shift)} (minimum ${settings.minRestHours})`,
+    conflictingShiftId: shortest.shift.id,
+  };
+}
+
+function checkConsecutiveDays(shift: ShiftTiming, others: Shift[], settings: AssignmentRuleSettings): RuleViolation | null {
+  if (settings.maxConsecutiveDaysMode === "off") return null;
+
+  const workedDates = new Set(others.map(s => s.date));
+  workedDates.add(shift.date);
+
+  let run = 1;
+  for (let date = addDays(shift.date, -1); workedDates.has(date); date = addDays(date, -1)) run++;
+  for (let date = addDays(shift.date, 1); workedDates.has(date); date = addDays(date, 1)) run++;
+
+  if (run <= settings.maxConsecutiveDays) return null;
+
+  return {
+    rule: "max_consecutive_days",
+    mode: settings.maxConsecutiveDaysMode,
+    limit: settings.maxConsecutiveDays,
+    actual: run,
+    message: `${run} consecutive working days (maximum ${settings.maxConsecutiveDays})`,
+  };
+}
+
+/**
+ * Evaluate overtime and rest rules for assigning a shift to an employee.
+ * The shift itself is excluded from the employee's schedule, so an existing
+ * assignment can be re-checked (e.g. on SMS CONFIRM).
+ */
+export async function evaluateAssignmentRules(
+  employeeId: string,
+  shift: ShiftTiming & { id?: string }
+): Promise<RuleEvaluation> {
+  const settings = await getAssignmentRuleSettings();
+  const assignedShifts = await storage.getShiftsByAssignedEmployee(employeeId);
+  const others = assignedShifts.filter(s => s.id !== shift.id);
+
+  const violations = [
+    checkWeeklyHours(shift, others, settings),
+    checkMinimumRest(shift, others, settings),
+    checkConsecutiveDays(shift, others, settings),
+  ].filter((v): v is RuleViolation => v !== null);
+
+  return {
+    violations,
+    blocked: violations.some(v => v.mode === "block"),
+  };
+}
+
+/**
+ * Check whether two shifts overlap in time, including overnight shifts that cross midnight
+ */
+export function shiftsOverlap(a: ShiftTiming, b: ShiftTiming): boolean {
+  const first = getShiftWindow(a);
+  const second = getShiftWindow(b);
+  return first.start < second.end && second.start < first.end;
+}
+
+/**
+ * Find a shift already assigned to the employee that overlaps the given shift.
+ * Double booking is never allowed, so unlike the rules above this has no mode.
+ */
+export async function findOverlappingShift(
+  employeeId: string,
+  shift: ShiftTiming & { id?: string }
+): Promise<Shift | undefined> {
+  const assignedShifts = await storage.getShiftsByAssignedEmployee(employeeId);
+  return assignedShifts.find(s => s.id !== shift.id && shiftsOverlap(s, shift));
+}
+
+/**
+ * Short description of a conflicting shift for SMS replies and error messages
+ */
+export function describeConflict(shift: Shift): string {
+  return `${describeShift(shift)} at ${shift.location}`;
+}
+
+/**
+ * Join violation messages into a single line for SMS replies and error messages
+ */
+export function describeViolations(violations: RuleViolation[]): string {
+  return violations.map(v => v.message).join("; ");
+}
@@ -0,0 +1,163 @@
+import { storage } from "../storage";
+import { logAuditEvent } from "../audit";
+import { AUTO_AWARD_POLICY_LABELS, type AutoAwardPolicy } from "@shared/autoAward";
+import { findApprovedTimeOff } from "./timeOff";
+import { evaluateAssignmentRules, findOverlappingShift, getShiftWindow } from "./assignmentRules";
+import { getWeeklyHours } from "./fairRotation";
+import { findMissingCertifications } from "./certifications";
+import { assignShiftToEmployee } from "./shiftAssignment";
+import type { Shift, Employee, ShiftInterest } from "@shared/schema";
+
+type Candidate = ShiftInterest & { employee: Employee };
+
+/**
+ * Interested employees who can take the shift without any override - no time off,
+ * no double booking, no missing certifications and no scheduling rule warnings or blocks
+ */
+async function getEligibleCandidates(shift: Shift, interests: Candidate[]): Promise<Candidate[]> {
+  const eligible: Candidate[] = [];
+  for (const interest of interests) {
+    if (interest.employee.status !== "active") continue;
+    if (await findApprovedTimeOff(interest.employeeId, shift)) continue;
+    if (await findOverlappingShift(interest.employeeId, shift)) continue;
+    if ((await findMissingCertifications(interest.employeeId, shift)).length > 0) continue;
+    const ruleCheck = await evaluateAssignmentRules(interest.employeeId, shift);
+    if (ruleCheck.violations.length > 0) continue;
+    eligible.push(interest);
+  }
+  return eligible;
+}
+
+/**
+ * Pick the winner under the area's policy. Ties go to whoever showed interest first.
+ */
+async function pickCandidate(shift: Shift, candidates: Candidate[], policy: AutoAwardPolicy): Promise<Candidate> {
+  const weeklyHours = policy === "fewest_hours" ? await getWeeklyHours(shift) : new Map<string, number>();
+
+  const primary = (candidate: Candidate): number | string => {
+    switch (policy) {
+      case "first_come":
+        return 0;
+      case "fewest_hours":
+        return weeklyHours.get(candidate.employeeId) ?? 0;
+      case "seniority":
+        return candidate.employee.hireDate ?? "9999-12-31"; // No hire date sorts last
+    }
+  };
+
+  const sorted = [...candidates].sort((a, b) => {
+    const pa = primary(a);
+    const pb = primary(b);
+    if (pa !== pb) return pa < pb ? -1 : 1;
+    return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  });
+  return sorted[0];
+}
+
+/**
+ * Award available shifts in areas with an auto-award policy once the delay after the first interest has passed
+ */
+export async function processAutoAwards(webhookBaseUrl?: string): Promise<{
+  checked: number;
+  awarded: number;
+}> {
+  const now = new Date();
+  const areas = await storage.getAreas();
+  const areasById = new Map(areas.filter(a => a.autoAwardPolicy).map(a => [a.id, a]));
+  if (areasById.size === 0) return { checked: 0, awarded: 0 };
+
+  const shifts = await storage.getShifts();
+  const candidates = shifts.filter(s =>
+    s.status === "available" &&
+    areasById.has(s.areaId) &&
+    getShiftWindow(s).start > now
+  );
+
+  let awarded = 0;
+
+  for (const shift of candidates) {
+    const area = areasById.get(shift.areaId)!;
+    const policy = area.autoAwardPolicy!;
+
+    const interests = await storage.getShiftInterests(shift.id);
+    if (interests.length === 0) continue;
+
+    const firstInterestAt = Math.min(...interests.map(i => new Date(i.createdAt).getTime()));
+    if (now.getTime() < firstInterestAt + area.autoAwardDelayMinutes * 60 * 1000) continue;
+
+    try {
+      const eligible = await getEligibleCandidates(shift, interests);
+      if (eligible.length === 0) continue;
+
+      const winner = await pickCandidate(shift, eligible, policy);
+      // A supervisor or SMS claim may have filled the shift while the candidates were checked
+      const result = await assignShiftToEmployee(shift, winner.employeeId, {
+        sendNotification: true,
+        webhookBaseUrl,
+        onlyIfAvailable: true,
+      });
+      if (!result) continue;
+      awarded++;
+
+      await logAuditEvent({
+        action: "shift_auto_awarded",
+        actor: null,
+        targetType: "shift",
+        targetId: shift.id,
+        targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+        details: {
+          policy,
+          policyLabel: AUTO_AWARD_POLICY_LABELS[policy],
+          delayMinutes: area.autoAwardDelayMinutes,
+          employeeId: winner.employeeId,
+          employeeName: winner.employee.name,
+          interestedCount: interests.length,
+          eligibleCount: eligible.length,
+          areaId: area.id,
+        },
+        ipAddress: undefined,
+      });
+    } catch (error) {
+      console.error(`Error auto-awarding shift ${shift.id}:`, error);
+    }
+  }
+
+  return { checked: candidates.length, awarded };
+}
+
+// Interval-based checker for shifts waiting on an auto-award
+let autoAwardInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Start the periodic auto-award checker
+ * Runs every minute so short delays award close to on time
+ */
+export function startAutoAwardScheduler(webhookBaseUrl?: string, intervalMinutes = 1): void {
+  if (autoAwardInterval) {
+    clearInterval(autoAwardInterval);
+  }
+
+  autoAwardInterval = setInterval(async () => {
+    try {
+      const result = await processAutoAwards(webhookBaseUrl);
+      if (result.awarded > 0) {
+        console.log(`Auto-award check: awarded ${result.awarded} of ${result.checked} open shift(s)`);
+      }
+    } catch (error) {
+      console.error("Error in auto-award scheduler:", error);
+    }
+  }, intervalMinutes * 60 * 1000);
+
+  console.log(`Started shift auto-award scheduler (every ${intervalMinutes} minutes)`);
+}
+
+/**
+ * Stop the periodic auto-award checker
+ */
+export function stopAutoAwardScheduler(): void {
+  if (autoAwardInterval) {
+    clearInterval(autoAwardInterval);
+    autoAwardInterval = null;
+    console.log("Stopped shift auto-award scheduler");
+  }
+}
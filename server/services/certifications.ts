@@ -0,0 +1,193 @@
+import { storage } from "../storage";
+import { getLocalToday } from "@shared/recurrence";
+import { logAuditEvent } from "../audit";
+import {
+  daysBetween,
+  getCertificationStatus,
+  isCertificationValidOn,
+  type EmployeeCertificationWithStatus,
+} from "@shared/certifications";
+import { getAreaSupervisors } from "./shiftEscalation";
+import { notifyCertificationExpiring, notifySupervisorsCertificationExpiring } from "./smsNotifications";
+import type { Certification, Employee, Shift } from "@shared/schema";
+
+type CertifiedShift = Pick<Shift, "positionId" | "date">;
+
+/**
+ * Days of warning before expiry, from organization settings
+ */
+export async function getCertificationWarningDays(): Promise<number> {
+  const setting = await storage.getSetting("certification_expiry_warning_days");
+  const days = parseInt(setting?.value ?? "30", 10);
+  return isNaN(days) || days < 0 ? 30 : days;
+}
+
+/**
+ * Employee certificates with their catalog name and status as of today, soonest expiry first
+ */
+export async function getEmployeeCertificationsWithStatus(employeeId?: string): Promise<EmployeeCertificationWithStatus[]> {
+  const [records, catalog, warningDays] = await Promise.all([
+    storage.getEmployeeCertifications(employeeId ? { employeeId } : undefined),
+    storage.getCertifications(),
+    getCertificationWarningDays(),
+  ]);
+  const names = new Map(catalog.map(c => [c.id, c.name]));
+  const today = getLocalToday();
+
+  return records
+    .map(record => ({
+      ...record,
+      certificationName: names.get(record.certificationId) ?? "Unknown",
+      status: getCertificationStatus(record.expiresOn, today, warningDays),
+    }))
+    .sort((a, b) => (a.expiresOn ?? "9999-12-31").localeCompare(b.expiresOn ?? "9999-12-31"));
+}
+
+/**
+ * Certifications each employee is missing for a shift - required by the shift's position
+ * and either never recorded or expired by the shift date. Employees with none missing are left out.
+ */
+export async function getCertificationGaps(
+  shift: CertifiedShift,
+  employeeIds: string[]
+): Promise<Map<string, Certification[]>> {
+  const gaps = new Map<string, Certification[]>();
+  const required = await storage.getPositionCertifications(shift.positionId);
+  if (required.length === 0 || employeeIds.length === 0) return gaps;
+
+  const ids = new Set(employeeIds);
+  const valid = new Set(
+    (await storage.getEmployeeCertifications())
+      .filter(record => ids.has(record.employeeId) && isCertificationValidOn(record.expiresOn, shift.date))
+      .map(record => `${record.employeeId}:${record.certificationId}`)
+  );
+
+  for (const employeeId of employeeIds) {
+    const missing = required.filter(certification => !valid.has(`${employeeId}:${certification.id}`));
+    if (missing.length > 0) gaps.set(employeeId, missing);
+  }
+  return gaps;
+}
+
+/**
+ * Required certifications the employee lacks for a shift - empty when they're cleared to work it
+ */
+export async function findMissingCertifications(employeeId: string, shift: CertifiedShift): Promise<Certification[]> {
+  return (await getCertificationGaps(shift, [employeeId])).get(employeeId) ?? [];
+}
+
+/**
+ * Human-readable list, e.g. "BLS, RN License"
+ */
+export function describeMissingCertifications(missing: Certification[]): string {
+  return missing.map(certification => certification.name).join(", ");
+}
+
+/**
+ * Supervisors of every area the employee works in, without duplicates
+ */
+async function getEmployeeSupervisors(employee: Employee): Promise<Employee[]> {
+  const areas = await storage.getEmployeeAreas(employee.id);
+  const supervisors = new Map<string, Employee>();
+  for (const area of areas) {
+    for (const supervisor of await getAreaSupervisors(area.id)) {
+      supervisors.set(supervisor.id, supervisor);
+    }
+  }
+  return Array.from(supervisors.values());
+}
+
+/**
+ * Warn employees and their supervisors once about each certification entering the warning window
+ */
+export async function processCertificationExpiryWarnings(webhookBaseUrl?: string): Promise<{
+  checked: number;
+  warned: number;
+}> {
+  const today = getLocalToday();
+  const warningDays = await getCertificationWarningDays();
+  const records = (await storage.getEmployeeCertifications()).filter(record => {
+    if (!record.expiresOn || record.expiryWarningSentAt) return false;
+    const daysLeft = daysBetween(today, record.expiresOn);
+    return daysLeft >= 0 && daysLeft <= warningDays;
+  });
+
+  let warned = 0;
+
+  for (const record of records) {
+    try {
+      const employee = await storage.getEmployee(record.employeeId);
+      const certification = await storage.getCertification(record.certificationId);
+      if (!employee || employee.status !== "active" || !certification) continue;
+
+      const daysLeft = daysBetween(today, record.expiresOn!);
+      const supervisors = await getEmployeeSupervisors(employee);
+      const employeeResult = await notifyCertificationExpiring(employee, certification, record, daysLeft, webhookBaseUrl);
+      const supervisorResult = await notifySupervisorsCertificationExpiring(
+        employee, certification, record, daysLeft, supervisors, webhookBaseUrl
+      );
+
+      // Mark as warned even if SMS is off so the warning isn't retried every hour
+      await storage.updateEmployeeCertification(record.id, { expiryWarningSentAt: new Date() });
+      warned++;
+
+      await logAuditEvent({
+        action: "certification_expiry_warning",
+        actor: null,
+        targetType: "employee",
+        targetId: employee.id,
+        targetName: employee.name,
+        details: {
+          certificationId: certification.id,
+          certificationName: certification.name,
+          expiresOn: record.expiresOn,
+          daysLeft,
+          employeeNotified: employeeResult.success,
+          supervisorsNotified: supervisorResult.sent,
+        },
+        ipAddress: undefined,
+      });
+    } catch (error) {
+      console.error(`Error sending certification expiry warning ${record.id}:`, error);
+    }
+  }
+
+  return { checked: records.length, warned };
+}
+
+// Interval-based checker for expiring certifications
+let expiryInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Start the periodic certification expiry checker
+ * Runs hourly - warnings are day-granular and only sent once per certificate
+ */
+export function startCertificationExpiryChecker(webhookBaseUrl?: string, intervalMinutes = 60): void {
+  if (expiryInterval) {
+    clearInterval(expiryInterval);
+  }
+
+  expiryInterval = setInterval(async () => {
+    try {
+      const result = await processCertificationExpiryWarnings(webhookBaseUrl);
+      if (result.warned > 0) {
+        console.log(`Certification check: sent ${result.warned} expiry warning(s)`);
+      }
+    } catch (error) {
+      console.error("Error in certification expiry checker:", error);
+    }
+  }, intervalMinutes * 60 * 1000);
+
+  console.log(`Started certification expiry checker (every ${intervalMinutes} minutes)`);
+}
+
+/**
+ * Stop the periodic certification expiry checker
+ */
+export function stopCertificationExpiryChecker(): void {
+  if (expiryInterval) {
+    clearInterval(expiryInterval);
+    expiryInterval = null;
+    console.log("Stopped certification expiry checker");
+  }
+}
@@ -0,0 +1,48 @@
+import { storage } from "../storage";
+import { isAvailableForShift } from "@shared/availability";
+import { timeOffCoversShift } from "./timeOff";
+import { getCertificationGaps, describeMissingCertifications } from "./certifications";
+import type { Employee, Shift } from "@shared/schema";
+
+/**
+ * Split employees into those available for a shift and those who marked themselves
+ * unavailable, have approved time off covering it or lack a certification its position requires
+ */
+export async function partitionByAvailability(
+  shift: Pick<Shift, "date" | "startTime" | "endTime" | "positionId">,
+  employees: Employee[]
+): Promise<{ available: Employee[]; unavailable: { employee: Employee; reason: string }[] }> {
+  const availabilityByEmployee = new Map(
+    (await storage.getAllEmployeeAvailability()).map(a => [a.employeeId, a])
+  );
+  const onTimeOff = new Set(
+    (await storage.getTimeOffRequests({ status: "approved" }))
+      .filter(request => timeOffCoversShift(request, shift))
+      .map(request => request.employeeId)
+  );
+  const certificationGaps = await getCertificationGaps(shift, employees.map(e => e.id));
+
+  const available: Employee[] = [];
+  const unavailable: { employee: Employee; reason: string }[] = [];
+  for (const employee of employees) {
+    if (onTimeOff.has(employee.id)) {
+      unavailable.push({ employee, reason: "Approved time off" });
+      continue;
+    }
+
+    const missing = certificationGaps.get(employee.id);
+    if (missing) {
+      unavailable.push({ employee, reason: `Missing certification: ${describeMissingCertifications(missing)}` });
+      continue;
+    }
+
+    const result = isAvailableForShift(availabilityByEmployee.get(employee.id), shift);
+    if (result.available) {
+      available.push(employee);
+    } else {
+      unavailable.push({ employee, reason: result.reason ?? "Unavailable" });
+    }
+  }
+
+  return { available, unavailable };
+}
@@ -0,0 +1,353 @@
+import { storage } from "../storage";
+import { getShiftWindow, getShiftHours } from "./assignmentRules";
+import { notifyNewShift, canSendShiftNotifications } from "./smsNotifications";
+import type { Employee, Shift, ShiftOffer } from "@shared/schema";
+
+export type FairRotationOrder = "hours_worked" | "seniority" | "last_offered";
+
+export interface FairRotationSettings {
+  enabled: boolean;
+  order: FairRotationOrder;
+  waveSize: number;
+  waveDelayMinutes: number;
+}
+
+export interface OfferEquityRow {
+  employeeId: string;
+  name: string;
+  positionId: string;
+  offersReceived: number;
+  firstWaveOffers: number;
+  shiftsAwarded: number;
+  hoursAwarded: number;
+  lastOfferedAt: Date | null;
+}
+
+export interface OfferEquityReport {
+  since: Date;
+  employees: OfferEquityRow[];
+  summary: {
+    totalOffers: number;
+    averageOffers: number;
+    minOffers: number;
+    maxOffers: number;
+    gini: number; // 0 = offers spread evenly, 1 = one employee got every offer
+  };
+}
+
+const FAIR_ROTATION_ORDERS: FairRotationOrder[] = ["hours_worked", "seniority", "last_offered"];
+
+// How far back offer history is read when ordering by last offered time
+const OFFER_HISTORY_DAYS = 90;
+
+/**
+ * Get fair rotation settings from organization settings
+ */
+export async function getFairRotationSettings(): Promise<FairRotationSettings> {
+  const settings = await storage.getSettings();
+  const getValue = (key: string, defaultValue: string): string => {
+    const setting = settings.find(s => s.key === key);
+    return setting?.value ?? defaultValue;
+  };
+
+  const order = getValue("fair_rotation_order", "hours_worked") as FairRotationOrder;
+  return {
+    enabled: getValue("fair_rotation_enabled", "false") === "true",
+    order: FAIR_ROTATION_ORDERS.includes(order) ? order : "hours_worked",
+    waveSize: Math.max(1, parseInt(getValue("fair_rotation_wave_size", "5")) || 5),
+    waveDelayMinutes: Math.max(1, parseInt(getValue("fair_rotation_wave_delay_minutes", "15")) || 15),
+  };
+}
+
+/**
+ * Most recent time each employee was texted a shift offer
+ */
+async function getLastOfferedTimes(): Promise<Map<string, number>> {
+  const since = new Date(Date.now() - OFFER_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const offers = await storage.getShiftOffers({ status: "sent", since });
+  const lastOffered = new Map<string, number>();
+  for (const offer of offers) {
+    const time = (offer.offeredAt ?? offer.createdAt).getTime();
+    if (time > (lastOffered.get(offer.employeeId) ?? 0)) {
+      lastOffered.set(offer.employeeId, time);
+    }
+  }
+  return lastOffered;
+}
+
+/**
+ * Hours each employee is scheduled for in the shift's Sunday-Saturday week
+ */
+export async function getWeeklyHours(shift: Shift): Promise<Map<string, number>> {
+  const { start } = getShiftWindow(shift);
+  const weekStart = new Date(start.getFullYear(), start.getMonth(), start.getDate() - start.getDay());
+  const weekEnd = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 7);
+
+  const hours = new Map<string, number>();
+  const allShifts = await storage.getShifts();
+  for (const s of allShifts) {
+    if (s.status !== "claimed" || !s.assignedEmployeeId) continue;
+    const shiftStart = getShiftWindow(s).start;
+    if (shiftStart < weekStart || shiftStart >= weekEnd) continue;
+    hours.set(s.assignedEmployeeId, (hours.get(s.assignedEmployeeId) ?? 0) + getShiftHours(s));
+  }
+  return hours;
+}
+
+/**
+ * Order recipients so the people with the fewest opportunities go first.
+ * Ties fall back to whoever was offered a shift least recently, then name.
+ */
+export async function orderForRotation(shift: Shift, employees: Employee[], order: FairRotationOrder): Promise<Employee[]> {
+  const lastOffered = await getLastOfferedTimes();
+  const weeklyHours = order === "hours_worked" ? await getWeeklyHours(shift) : new Map<string, number>();
+
+  const primary = (employee: Employee): number | string => {
+    switch (order) {
+      case "hours_worked":
+        return weeklyHours.get(employee.id) ?? 0;
+      case "seniority":
+        return employee.hireDate ?? "9999-12-31"; // No hire date sorts last
+      case "last_offered":
+        return lastOffered.get(employee.id) ?? 0;
+    }
+  };
+
+  return [...employees].sort((a, b) => {
+    const pa = primary(a);
+    const pb = primary(b);
+    if (pa !== pb) return pa < pb ? -1 : 1;
+    const la = lastOffered.get(a.id) ?? 0;
+    const lb = lastOffered.get(b.id) ?? 0;
+    if (la !== lb) return la - lb;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Cancel waves that haven't gone out yet, e.g. when the shift is reposted to everyone
+ */
+export async function cancelQueuedOffers(shiftId: string): Promise<number> {
+  const queued = await storage.getShiftOffers({ shiftId, status: "queued" });
+  for (const offer of queued) {
+    await storage.updateShiftOffer(offer.id, { status: "cancelled" });
+  }
+  return queued.length;
+}
+
+/**
+ * Split new-shift recipients into waves when fair rotation is on.
+ * Returns the first wave to text now; later waves are queued for the scheduler.
+ */
+export async function planNotificationWaves(shift: Shift, recipients: Employee[]): Promise<Employee[]> {
+  const settings = await getFairRotationSettings();
+  if (!settings.enabled || recipients.length <= settings.waveSize) {
+    return recipients;
+  }
+
+  // Re-plan anyone still waiting from an earlier round so they aren't texted twice
+  const recipientIds = new Set(recipients.map(e => e.id));
+  const queued = await storage.getShiftOffers({ shiftId: shift.id, status: "queued" });
+  for (const offer of queued.filter(o => recipientIds.has(o.employeeId))) {
+    await storage.updateShiftOffer(offer.id, { status: "cancelled" });
+  }
+
+  const ordered = await orderForRotation(shift, recipients, settings.order);
+  const now = Date.now();
+  for (let i = settings.waveSize; i < ordered.length; i++) {
+    const wave = Math.floor(i / settings.waveSize) + 1;
+    await storage.createShiftOffer({
+      shiftId: shift.id,
+      employeeId: ordered[i].id,
+      wave,
+      status: "queued",
+      scheduledFor: new Date(now + (wave - 1) * settings.waveDelayMinutes * 60 * 1000),
+    });
+  }
+
+  console.log(`Fair rotation: shift ${shift.id} split into ${Math.ceil(ordered.length / settings.waveSize)} waves of ${settings.waveSize}`);
+  return ordered.slice(0, settings.waveSize);
+}
+
+/**
+ * Record that an employee was texted about a shift, completing their queued offer if there is one
+ */
+export async function recordShiftOffer(shiftId: string, employeeId: string, wave: number, success: boolean): Promise<ShiftOffer | undefined> {
+  const status = success ? "sent" : "failed";
+  const [queued] = await storage.getShiftOffers({ shiftId, employeeId, status: "queued" });
+  if (queued) {
+    return storage.updateShiftOffer(queued.id, { status, offeredAt: new Date() });
+  }
+  return storage.createShiftOffer({ shiftId, employeeId, wave, status, offeredAt: new Date() });
+}
+
+/**
+ * Mark an employee's offer as failed when their queued text couldn't be delivered
+ */
+export async function markShiftOfferFailed(shiftId: string, employeeId: string): Promise<void> {
+  const [offer] = await storage.getShiftOffers({ shiftId, employeeId, status: "sent" });
+  if (offer) await storage.updateShiftOffer(offer.id, { status: "failed" });
+}
+
+/**
+ * Send queued waves that are due. Waves stop once the shift has interest, is filled or has started.
+ */
+export async function processQueuedWaves(webhookBaseUrl?: string): Promise<{ waves: number; sent: number; cancelled: number }> {
+  const now = new Date();
+  const due = (await storage.getShiftOffers({ status: "queued" })).filter(o => o.scheduledFor <= now);
+  if (due.length === 0) return { waves: 0, sent: 0, cancelled: 0 };
+
+  // Hold everything during quiet hours or while shift texts are turned off
+  if (!(await canSendShiftNotifications())) return { waves: 0, sent: 0, cancelled: 0 };
+
+  const byShift = new Map<string, ShiftOffer[]>();
+  for (const offer of due) {
+    byShift.set(offer.shiftId, [...(byShift.get(offer.shiftId) ?? []), offer]);
+  }
+
+  let waves = 0;
+  let sent = 0;
+  let cancelled = 0;
+
+  for (const [shiftId, offers] of Array.from(byShift.entries())) {
+    const shift = await storage.getShift(shiftId);
+    const interests = shift ? await storage.getShiftInterests(shiftId) : [];
+    if (!shift || shift.status !== "available" || getShiftWindow(shift).start <= now || interests.length > 0) {
+      cancelled += await cancelQueuedOffers(shiftId);
+      continue;
+    }
+
+    // Send the earliest due wave; later ones go out on following checks
+    const wave = Math.min(...offers.map(o => o.wave));
+    const waveOffers = offers.filter(o => o.wave === wave);
+    const recipients: Employee[] = [];
+    for (const offer of waveOffers) {
+      const employee = await storage.getEmployee(offer.employeeId);
+      if (employee) recipients.push(employee);
+    }
+
+    const area = await storage.getArea(shift.areaId);
+    const result = await notifyNewShift(shift, area, recipients, webhookBaseUrl, { wave });
+    waves++;
+    sent += result.queued;
+
+    // Texted and digest offers are no longer queued, so only anyone not reached
+    // (opted out or now unavailable) is skipped rather than retried
+    for (const offer of waveOffers) {
+      const [stillQueued] = await storage.getShiftOffers({ shiftId, employeeId: offer.employeeId, status: "queued" });
+      if (stillQueued) await storage.updateShiftOffer(stillQueued.id, { status: "skipped" });
+    }
+
+    await storage.updateShift(shift.id, {
+      lastNotifiedAt: new Date(),
+      notificationCount: (shift.notificationCount ?? 0) + result.queued + result.digested,
+    });
+  }
+
+  return { waves, sent, cancelled };
+}
+
+/**
+ * Gini coefficient of a list of counts
+ */
+function gini(values: number[]): number {
+  const total = values.reduce((sum, v) => sum + v, 0);
+  if (values.length === 0 || total === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const weighted = sorted.reduce((sum, v, i) => sum + (i + 1) * v, 0);
+  return (2 * weighted) / (values.length * total) - (values.length + 1) / values.length;
+}
+
+/**
+ * How shift offers were spread across active employees since the given date
+ */
+export async function getOfferEquityReport(since: Date, areaId?: string): Promise<OfferEquityReport> {
+  const [offers, allShifts, allEmployees] = await Promise.all([
+    storage.getShiftOffers({ status: "sent", since }),
+    storage.getShifts(),
+    areaId ? storage.getAreaEmployees(areaId) : storage.getEmployees(),
+  ]);
+  const shiftsById = new Map(allShifts.map(s => [s.id, s]));
+
+  const rows = new Map<string, OfferEquityRow>();
+  for (const employee of allEmployees.filter(e => e.status === "active")) {
+    rows.set(employee.id, {
+      employeeId: employee.id,
+      name: employee.name,
+      positionId: employee.positionId,
+      offersReceived: 0,
+      firstWaveOffers: 0,
+      shiftsAwarded: 0,
+      hoursAwarded: 0,
+      lastOfferedAt: null,
+    });
+  }
+
+  for (const offer of offers) {
+    const row = rows.get(offer.employeeId);
+    const shift = shiftsById.get(offer.shiftId);
+    if (!row || !shift || (areaId && shift.areaId !== areaId)) continue;
+
+    row.offersReceived++;
+    if (offer.wave === 1) row.firstWaveOffers++;
+    const offeredAt = offer.offeredAt ?? offer.createdAt;
+    if (!row.lastOfferedAt || offeredAt > row.lastOfferedAt) row.lastOfferedAt = offeredAt;
+    if (shift.status === "claimed" && shift.assignedEmployeeId === offer.employeeId) {
+      row.shiftsAwarded++;
+      row.hoursAwarded += getShiftHours(shift);
+    }
+  }
+
+  const employees = Array.from(rows.values()).sort((a, b) => b.offersReceived - a.offersReceived || a.name.localeCompare(b.name));
+  const counts = employees.map(e => e.offersReceived);
+  const totalOffers = counts.reduce((sum, c) => sum + c, 0);
+
+  return {
+    since,
+    employees,
+    summary: {
+      totalOffers,
+      averageOffers: counts.length > 0 ? Math.round((totalOffers / counts.length) * 10) / 10 : 0,
+      minOffers: counts.length > 0 ? Math.min(...counts) : 0,
+      maxOffers: counts.length > 0 ? Math.max(...counts) : 0,
+      gini: Math.round(gini(counts) * 100) / 100,
+    },
+  };
+}
+
+// Interval-based sender for queued waves
+let waveInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Start the periodic wave sender
+ * Runs every minute so wave delays are honoured closely
+ */
+export function startWaveScheduler(webhookBaseUrl?: string, intervalMinutes = 1): void {
+  if (waveInterval) {
+    clearInterval(waveInterval);
+  }
+
+  waveInterval = setInterval(async () => {
+    try {
+      const result = await processQueuedWaves(webhookBaseUrl);
+      if (result.waves > 0 || result.cancelled > 0) {
+        console.log(`Fair rotation: sent ${result.waves} wave(s) (${result.sent} texts), cancelled ${result.cancelled} queued offer(s)`);
+      }
+    } catch (error) {
+      console.error("Error in fair rotation wave scheduler:", error);
+    }
+  }, intervalMinutes * 60 * 1000);
+
+  console.log(`Started fair rotation wave scheduler (every ${intervalMinutes} minutes)`);
+}
+
+/**
+ * Stop the periodic wave sender
+ */
+export function stopWaveScheduler(): void {
+  if (waveInterval) {
+    clearInterval(waveInterval);
+    waveInterval = null;
+    console.log("Stopped fair rotation wave scheduler");
+  }
+}
@@ -0,0 +1,271 @@
+import ExcelJS from "exceljs";
+import PDFDocument from "pdfkit";
+import {
+  REPORT_SECTIONS,
+  REPORT_SECTION_LABELS,
+  type ReportFormat,
+  type ReportSection,
+  type ShiftReport,
+} from "@shared/reports";
+
+type Cell = string | number | null;
+
+interface ReportTable {
+  title: string;
+  columns: { header: string; width: number; numeric?: boolean }[]; // Width in PDF points
+  rows: Cell[][];
+}
+
+export interface RenderedReport {
+  body: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+};
+
+function formatDollars(amount: number): string {
+  return `$${amount.toLocaleString("en-US")}`;
+}
+
+function formatOptional(value: number | null, unit: string): string {
+  return value === null ? "-" : `${value}${unit}`;
+}
+
+// Headline figures as label/value pairs
+function summaryRows(report: ShiftReport): [string, string][] {
+  const s = report.summary;
+  return [
+    ["Total Shifts", String(s.totalShifts)],
+    ["Filled", String(s.filledShifts)],
+    ["Expired Unfilled", String(s.expiredShifts)],
+    ["Still Open", String(s.openShifts)],
+    ["Fill Rate", `${s.fillRate}%`],
+    ["Hours Covered", String(s.hoursCovered)],
+    ["Staff Who Worked", String(s.activeStaff)],
+    ["Median Time to Fill", formatOptional(s.medianTimeToFillHours, " h")],
+    ["Average Time to Fill", formatOptional(s.averageTimeToFillHours, " h")],
+    ["Shift Texts Delivered", String(s.shiftTexts)],
+    ["Texts Answered", String(s.smsReplies)],
+    ["SMS Response Rate", formatOptional(s.smsResponseRate, "%")],
+    ["Median SMS Response", formatOptional(s.medianSmsResponseMinutes, " min")],
+    ["Bonus Spend", formatDollars(s.bonusSpend)],
+    ["Shifts Filled With a Bonus", String(s.bonusShifts)],
+  ];
+}
+
+function reportTables(report: ShiftReport): Record<ReportSection, ReportTable> {
+  return {
+    weekly: {
+      title: REPORT_SECTION_LABELS.weekly,
+      columns: [
+        { header: "Week", width: 110 },
+        { header: "Shifts", width: 55, numeric: true },
+        { header: "Filled", width: 55, numeric: true },
+        { header: "Expired", width: 55, numeric: true },
+        { header: "Open", width: 55, numeric: true },
+        { header: "Fill Rate %", width: 65, numeric: true },
+        { header: "Median Fill (h)", width: 75, numeric: true },
+        { header: "Bonus $", width: 62, numeric: true },
+      ],
+      rows: report.weekly.map(w => [w.label, w.total, w.filled, w.expired, w.open, w.fillRate, w.medianTimeToFillHours, w.bonusSpend]),
+    },
+    areas: {
+      title: REPORT_SECTION_LABELS.areas,
+      columns: [
+        { header: "Area", width: 100 },
+        { header: "Shifts", width: 45, numeric: true },
+        { header: "Filled", width: 45, numeric: true },
+        { header: "Expired", width: 45, numeric: true },
+        { header: "Fill Rate %", width: 55, numeric: true },
+        { header: "Hours Covered", width: 65, numeric: true },
+        { header: "Hours Uncovered", width: 70, numeric: true },
+        { header: "Median Fill (h)", width: 65, numeric: true },
+        { header: "Bonus $", width: 42, numeric: true },
+      ],
+      rows: report.areas.map(a => [a.areaName, a.total, a.filled, a.expired, a.fillRate, a.hoursCovered, a.hoursUncovered, a.medianTimeToFillHours, a.bonusSpend]),
+    },
+    employees: {
+      title: REPORT_SECTION_LABELS.employees,
+      columns: [
+        { header: "Employee", width: 105 },
+        { header: "Position", width: 85 },
+        { header: "Shifts", width: 40, numeric: true },
+        { header: "Hours", width: 40, numeric: true },
+        { header: "Texts", width: 40, numeric: true },
+        { header: "Replies", width: 45, numeric: true },
+        { header: "Response %", width: 55, numeric: true },
+        { header: "Median Reply (min)", width: 60, numeric: true },
+        { header: "Bonus $", width: 42, numeric: true },
+      ],
+      rows: report.employees.map(e => [
+        e.name, e.position, e.shiftsWorked, e.hoursWorked, e.shiftTexts, e.smsReplies, e.smsResponseRate, e.medianSmsResponseMinutes, e.bonusEarned,
+      ]),
+    },
+    time_to_fill: {
+      title: REPORT_SECTION_LABELS.time_to_fill,
+      columns: [
+        { header: "Time From Posting to Fill", width: 160 },
+        { header: "Shifts", width: 60, numeric: true },
+      ],
+      rows: report.timeToFill.map(b => [b.label, b.count]),
+    },
+  };
+}
+
+function reportTitle(report: ShiftReport): string {
+  return `Shift Coverage Report - ${report.period.areaName ?? "All Areas"}`;
+}
+
+function reportFilename(report: ShiftReport, format: ReportFormat, section?: ReportSection): string {
+  const name = section ? section.replace(/_/g, "-") : "shift-report";
+  return `${name}-${report.period.from}-to-${report.period.to}.${format}`;
+}
+
+/**
+ * Escape a value for a CSV cell
+ */
+function csvCell(value: Cell): string {
+  if (value == null) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(report: ShiftReport, section?: ReportSection): string {
+  const tables = reportTables(report);
+  const tableLines = (table: ReportTable) => [
+    table.columns.map(c => csvCell(c.header)).join(","),
+    ...table.rows.map(row => row.map(csvCell).join(",")),
+  ];
+
+  // A single section is a plain table; the full report stacks titled sections
+  if (section) return tableLines(tables[section]).join("\n") + "\n";
+
+  const lines = [
+    csvCell(reportTitle(report)),
+    `Period,${report.period.from} to ${report.period.to}`,
+    "",
+    "Metric,Value",
+    ...summaryRows(report).map(row => row.map(csvCell).join(",")),
+  ];
+  for (const key of REPORT_SECTIONS) {
+    lines.push("", csvCell(tables[key].title), ...tableLines(tables[key]));
+  }
+  return lines.join("\n") + "\n";
+}
+
+async function renderXlsx(report: ShiftReport): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date(report.generatedAt);
+
+  const summary = workbook.addWorksheet("Summary");
+  summary.columns = [{ width: 30 }, { width: 20 }];
+  summary.addRow([reportTitle(report)]).font = { bold: true, size: 14 };
+  summary.addRow(["Period", `${report.period.from} to ${report.period.to}`]);
+  summary.addRow([]);
+  summaryRows(report).forEach(row => summary.addRow(row));
+
+  for (const table of Object.values(reportTables(report))) {
+    const sheet = workbook.addWorksheet(table.title);
+    sheet.columns = table.columns.map(c => ({ header: c.header, width: Math.max(12, Math.round(c.width / 5)) }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.addRows(table.rows);
+    sheet.views = [{ state: "frozen", ySplit: 1 }];
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function renderPdf(report: ShiftReport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "LETTER", margin: 40 });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const left = doc.page.margins.left;
+    const bottom = () => doc.page.height - doc.page.margins.bottom;
+    const rowHeight = 16;
+
+    doc.font("Helvetica-Bold").fontSize(16).text(reportTitle(report));
+    doc.font("Helvetica").fontSize(10).fillColor("#555555")
+      .text(`Shifts scheduled ${report.period.from} to ${report.period.to} - generated ${new Date(report.generatedAt).toLocaleString("en-US")}`);
+    doc.fillColor("#000000").moveDown();
+
+    // Summary as two columns of label/value pairs
+    const pairs = summaryRows(report);
+    const half = Math.ceil(pairs.length / 2);
+    const top = doc.y;
+    pairs.forEach(([label, value], i) => {
+      const x = left + (i < half ? 0 : 270);
+      const y = top + (i % half) * rowHeight;
+      doc.font("Helvetica").fontSize(9).text(label, x, y, { width: 150 });
+      doc.font("Helvetica-Bold").text(value, x + 150, y, { width: 100, align: "right" });
+    });
+    doc.y = top + half * rowHeight;
+
+    const drawRow = (table: ReportTable, cells: Cell[], bold: boolean) => {
+      const y = doc.y;
+      let x = left;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+      table.columns.forEach((column, i) => {
+        const cell = cells[i];
+        doc.text(cell == null ? "-" : String(cell), x + 2, y + 4, {
+          width: column.width - 4,
+          align: column.numeric ? "right" : "left",
+          lineBreak: false,
+          ellipsis: true,
+        });
+        x += column.width;
+      });
+      doc.moveTo(left, y + rowHeight).lineTo(x, y + rowHeight).strokeColor("#dddddd").stroke();
+      doc.y = y + rowHeight;
+    };
+
+    for (const table of Object.values(reportTables(report))) {
+      // Keep a title with at least its header and first row
+      if (doc.y + rowHeight * 4 > bottom()) doc.addPage();
+      doc.moveDown();
+      doc.font("Helvetica-Bold").fontSize(12).text(table.title, left, doc.y);
+      doc.moveDown(0.3);
+      drawRow(table, table.columns.map(c => c.header), true);
+
+      if (table.rows.length === 0) {
+        doc.font("Helvetica").fontSize(9).fillColor("#555555").text("No data for this period", left, doc.y + 4);
+        doc.fillColor("#000000");
+      }
+      for (const row of table.rows) {
+        if (doc.y + rowHeight > bottom()) {
+          doc.addPage();
+          drawRow(table, table.columns.map(c => c.header), true);
+        }
+        drawRow(table, row, false);
+      }
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * Render a report for download. CSV can be narrowed to one section; XLSX and PDF hold the full report.
+ */
+export async function renderReport(report: ShiftReport, format: ReportFormat, section?: ReportSection): Promise<RenderedReport> {
+  const csvSection = format === "csv" ? section : undefined;
+  const body = format === "csv"
+    ? Buffer.from(renderCsv(report, csvSection), "utf8")
+    : format === "xlsx"
+      ? await renderXlsx(report)
+      : await renderPdf(report);
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    filename: reportFilename(report, format, csvSection),
+  };
+}
@@ -0,0 +1,374 @@
+import { storage } from "../storage";
+import { getShiftHours } from "./assignmentRules";
+import type { ShiftWithDetails } from "@shared/shiftQuery";
+import { addDays, getLocalToday } from "@shared/recurrence";
+import {
+  REPORT_SNAPSHOT_SCHEDULES,
+  type AreaCoverageRow,
+  type EmployeePerformanceRow,
+  type ReportSnapshotSchedule,
+  type ReportSnapshotSummary,
+  type ShiftReport,
+  type TimeToFillBucket,
+  type WeeklyFillRateRow,
+} from "@shared/reports";
+import type { Message, ReportSnapshot, User } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A reply counts toward SMS response latency when it arrives this long after the shift text
+const SMS_RESPONSE_WINDOW_HOURS = 24;
+
+// Outbound texts that reached the provider - queued, failed and cancelled ones were never read
+const DELIVERED_STATUSES = ["sent", "delivered"];
+
+const TIME_TO_FILL_BUCKETS: { label: string; maxHours: number }[] = [
+  { label: "Under 1 hour", maxHours: 1 },
+  { label: "1-4 hours", maxHours: 4 },
+  { label: "4-24 hours", maxHours: 24 },
+  { label: "1-3 days", maxHours: 72 },
+  { label: "Over 3 days", maxHours: Infinity },
+];
+
+export interface ShiftReportOptions {
+  weeks: number;
+  areaId?: string | null;
+  until?: string; // YYYY-MM-DD, last shift date covered. Defaults to today
+  from?: string; // YYYY-MM-DD, first shift date covered. Defaults to `weeks` back from `until`
+}
+
+// Sunday starting the week a date falls in
+function weekStartOf(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return addDays(date, -new Date(year, month - 1, day).getDay());
+}
+
+function formatDay(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function round1(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10) / 10;
+}
+
+function percent(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+// Hours from posting to first assignment, for filled shifts that recorded when they were filled
+function timeToFillHours(shift: ShiftWithDetails): number | null {
+  if (shift.status !== "claimed" || !shift.filledAt) return null;
+  return Math.max(0, new Date(shift.filledAt).getTime() - new Date(shift.createdAt).getTime()) / HOUR_MS;
+}
+
+interface SmsResponse {
+  employeeId: string;
+  latencyMinutes: number | null; // Null when the text went unanswered
+}
+
+/**
+ * Pair each delivered shift text with the employee's first inbound message inside the response window
+ */
+function matchSmsResponses(texts: Message[], inbound: Message[]): SmsResponse[] {
+  const repliesByEmployee = new Map<string, number[]>();
+  for (const message of inbound) {
+    const times = repliesByEmployee.get(message.employeeId) ?? [];
+    times.push(new Date(message.createdAt).getTime());
+    repliesByEmployee.set(message.employeeId, times);
+  }
+  repliesByEmployee.forEach(times => times.sort((a, b) => a - b));
+
+  return texts.map(text => {
+    const sentAt = new Date(text.deliveryTimestamp ?? text.createdAt).getTime();
+    const reply = repliesByEmployee.get(text.employeeId)?.find(t => t > sentAt);
+    const answered = reply !== undefined && reply - sentAt <= SMS_RESPONSE_WINDOW_HOURS * HOUR_MS;
+    return {
+      employeeId: text.employeeId,
+      latencyMinutes: answered ? (reply - sentAt) / 60000 : null,
+    };
+  });
+}
+
+function summarizeResponses(responses: SmsResponse[]) {
+  const latencies = responses.map(r => r.latencyMinutes).filter((m): m is number => m !== null);
+  const medianMinutes = median(latencies);
+  return {
+    texts: responses.length,
+    replies: latencies.length,
+    responseRate: responses.length > 0 ? percent(latencies.length, responses.length) : null,
+    medianMinutes: medianMinutes === null ? null : Math.round(medianMinutes),
+  };
+}
+
+/**
+ * Coverage report for the shifts scheduled over the given weeks (or from `from`), ending on `until`.
+ * Fill rate and bonus spend come from the shifts themselves, time to fill from when each shift
+ * was first assigned, and SMS response latency from shift texts and the replies that followed.
+ */
+export async function buildShiftReport(options: ShiftReportOptions): Promise<ShiftReport> {
+  const to = options.until ?? getLocalToday();
+  const from = options.from ?? addDays(to, -options.weeks * 7 + 1);
+  const areaId = options.areaId || null;
+
+  const [{ shifts }, areas, positions, employees] = await Promise.all([
+    storage.getShiftList({ from, to, areaId: areaId ? [areaId] : undefined, includePast: true, sort: "date-asc" }),
+    storage.getAreas(),
+    storage.getPositions(),
+    storage.getEmployees(),
+  ]);
+
+  // Shift texts are sent before the shift, so look back from the earliest posting in the period
+  const shiftIds = new Set(shifts.map(s => s.id));
+  const earliestPosting = shifts.reduce<Date | null>((earliest, s) => {
+    const created = new Date(s.createdAt);
+    return !earliest || created < earliest ? created : earliest;
+  }, null);
+  const [outbound, inbound] = earliestPosting
+    ? await Promise.all([
+        storage.getMessages({ messageType: "shift_notification", direction: "outbound", since: earliestPosting }),
+        storage.getMessages({ direction: "inbound", since: earliestPosting }),
+      ])
+    : [[], []];
+  const texts = outbound.filter(m => m.relatedShiftId && shiftIds.has(m.relatedShiftId) && DELIVERED_STATUSES.includes(m.status));
+  const responses = matchSmsResponses(texts, inbound);
+
+  const filled = shifts.filter(s => s.status === "claimed");
+  const fillTimes = filled.map(timeToFillHours).filter((h): h is number => h !== null);
+  const bonusOf = (s: ShiftWithDetails) => s.bonusAmount ?? 0;
+
+  // Weekly fill rate, with every week in the period listed even when it had no shifts
+  const weekly: WeeklyFillRateRow[] = [];
+  for (let weekStart = weekStartOf(from); weekStart <= to; weekStart = addDays(weekStart, 7)) {
+    const weekEnd = addDays(weekStart, 6);
+    const weekShifts = shifts.filter(s => s.date >= weekStart && s.date <= weekEnd);
+    const weekFilled = weekShifts.filter(s => s.status === "claimed");
+    weekly.push({
+      weekStart,
+      label: `${formatDay(weekStart)} - ${formatDay(weekEnd)}`,
+      total: weekShifts.length,
+      filled: weekFilled.length,
+      expired: weekShifts.filter(s => s.status === "expired").length,
+      open: weekShifts.filter(s => s.status === "available").length,
+      fillRate: percent(weekFilled.length, weekShifts.length),
+      medianTimeToFillHours: round1(median(weekFilled.map(timeToFillHours).filter((h): h is number => h !== null))),
+      bonusSpend: weekFilled.reduce((sum, s) => sum + bonusOf(s), 0),
+    });
+  }
+
+  // Coverage per area, busiest first
+  const areaNames = new Map(areas.map(a => [a.id, a.name]));
+  const shiftsByArea = new Map<string, ShiftWithDetails[]>();
+  for (const shift of shifts) {
+    const areaShifts = shiftsByArea.get(shift.areaId) ?? [];
+    areaShifts.push(shift);
+    shiftsByArea.set(shift.areaId, areaShifts);
+  }
+  const areaRows: AreaCoverageRow[] = Array.from(shiftsByArea.entries()).map(([id, areaShifts]) => {
+    const areaFilled = areaShifts.filter(s => s.status === "claimed");
+    const expired = areaShifts.filter(s => s.status === "expired");
+    return {
+      areaId: id,
+      areaName: areaNames.get(id) ?? "Unknown Area",
+      total: areaShifts.length,
+      filled: areaFilled.length,
+      expired: expired.length,
+      open: areaShifts.filter(s => s.status === "available").length,
+      fillRate: percent(areaFilled.length, areaShifts.length),
+      hoursCovered: round1(areaFilled.reduce((sum, s) => sum + getShiftHours(s), 0)) ?? 0,
+      hoursUncovered: round1(expired.reduce((sum, s) => sum + getShiftHours(s), 0)) ?? 0,
+      medianTimeToFillHours: round1(median(areaFilled.map(timeToFillHours).filter((h): h is number => h !== null))),
+      bonusSpend: areaFilled.reduce((sum, s) => sum + bonusOf(s), 0),
+    };
+  }).sort((a, b) => b.total - a.total || a.areaName.localeCompare(b.areaName));
+
+  // Employees who worked a shift or were texted about one
+  const positionTitles = new Map(positions.map(p => [p.id, p.title]));
+  const employeesById = new Map(employees.map(e => [e.id, e]));
+  const activity = new Map<string, { worked: ShiftWithDetails[]; responses: SmsResponse[] }>();
+  const activityFor = (employeeId: string) => {
+    const existing = activity.get(employeeId) ?? { worked: [], responses: [] };
+    activity.set(employeeId, existing);
+    return existing;
+  };
+  for (const shift of filled) {
+    if (shift.assignedEmployeeId) activityFor(shift.assignedEmployeeId).worked.push(shift);
+  }
+  for (const response of responses) {
+    activityFor(response.employeeId).responses.push(response);
+  }
+
+  const employeeRows: EmployeePerformanceRow[] = [];
+  activity.forEach(({ worked, responses: employeeResponses }, employeeId) => {
+    const employee = employeesById.get(employeeId);
+    if (!employee) return;
+    const sms = summarizeResponses(employeeResponses);
+    employeeRows.push({
+      employeeId,
+      name: employee.name,
+      position: positionTitles.get(employee.positionId) ?? "Unknown",
+      shiftsWorked: worked.length,
+      hoursWorked: round1(worked.reduce((sum, s) => sum + getShiftHours(s), 0)) ?? 0,
+      shiftTexts: sms.texts,
+      smsReplies: sms.replies,
+      smsResponseRate: sms.responseRate,
+      medianSmsResponseMinutes: sms.medianMinutes,
+      bonusEarned: worked.reduce((sum, s) => sum + bonusOf(s), 0),
+    });
+  });
+  employeeRows.sort((a, b) => b.hoursWorked - a.hoursWorked || b.shiftTexts - a.shiftTexts || a.name.localeCompare(b.name));
+
+  const timeToFill: TimeToFillBucket[] = TIME_TO_FILL_BUCKETS.map((bucket, i) => ({
+    label: bucket.label,
+    count: fillTimes.filter(h => h < bucket.maxHours && (i === 0 || h >= TIME_TO_FILL_BUCKETS[i - 1].maxHours)).length,
+  }));
+
+  const sms = summarizeResponses(responses);
+  const bonusShifts = filled.filter(s => bonusOf(s) > 0);
+
+  return {
+    period: {
+      from,
+      to,
+      weeks: options.weeks,
+      areaId,
+      areaName: areaId ? areaNames.get(areaId) ?? null : null,
+    },
+    generatedAt: new Date().toISOString(),
+    summary: {
+      totalShifts: shifts.length,
+      filledShifts: filled.length,
+      expiredShifts: shifts.filter(s => s.status === "expired").length,
+      openShifts: shifts.filter(s => s.status === "available").length,
+      fillRate: percent(filled.length, shifts.length),
+      hoursCovered: Math.round(filled.reduce((sum, s) => sum + getShiftHours(s), 0)),
+      activeStaff: employeeRows.filter(e => e.shiftsWorked > 0).length,
+      medianTimeToFillHours: round1(median(fillTimes)),
+      averageTimeToFillHours: round1(average(fillTimes)),
+      shiftTexts: sms.texts,
+      smsReplies: sms.replies,
+      smsResponseRate: sms.responseRate,
+      medianSmsResponseMinutes: sms.medianMinutes,
+      bonusSpend: bonusShifts.reduce((sum, s) => sum + bonusOf(s), 0),
+      bonusShifts: bonusShifts.length,
+    },
+    weekly,
+    areas: areaRows,
+    employees: employeeRows,
+    timeToFill,
+  };
+}
+
+// === Snapshots ===
+
+export function toSnapshotSummary(snapshot: ReportSnapshot): ReportSnapshotSummary {
+  return {
+    id: snapshot.id,
+    name: snapshot.name,
+    source: snapshot.source === "scheduled" ? "scheduled" : "manual",
+    weeks: snapshot.weeks,
+    areaId: snapshot.areaId,
+    periodFrom: snapshot.periodFrom,
+    periodTo: snapshot.periodTo,
+    createdByName: snapshot.createdByName,
+    createdAt: snapshot.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Build a report and keep a copy of it. Pass no actor for scheduled snapshots.
+ */
+export async function createReportSnapshot(options: ShiftReportOptions, actor: User | null): Promise<ReportSnapshot> {
+  const report = await buildShiftReport(options);
+  const scope = report.period.areaName ?? "All Areas";
+  return storage.createReportSnapshot({
+    name: `${scope}, ${formatDay(report.period.from)} - ${formatDay(report.period.to)}`,
+    source: actor ? "manual" : "scheduled",
+    weeks: report.period.weeks,
+    areaId: report.period.areaId,
+    periodFrom: report.period.from,
+    periodTo: report.period.to,
+    report,
+    createdById: actor?.id ?? null,
+    createdByName: actor?.username ?? "System",
+  });
+}
+
+export async function getReportSnapshotSchedule(): Promise<ReportSnapshotSchedule> {
+  const setting = await storage.getSetting("report_snapshot_schedule");
+  const value = setting?.value as ReportSnapshotSchedule | undefined;
+  return value && REPORT_SNAPSHOT_SCHEDULES.includes(value) ? value : "weekly";
+}
+
+/**
+ * Save the scheduled snapshot when one is due - each Sunday for the week just ended, or on the
+ * first of the month for the whole month before. Missed runs catch up on the next check.
+ */
+export async function processScheduledSnapshots(now: Date = new Date()): Promise<ReportSnapshot | null> {
+  const schedule = await getReportSnapshotSchedule();
+  if (schedule === "off") return null;
+
+  const today = getLocalToday(now);
+  const periodStart = schedule === "weekly" ? weekStartOf(today) : `${today.slice(0, 8)}01`;
+  const [year, month, day] = periodStart.split("-").map(Number);
+  const dueSince = new Date(year, month - 1, day);
+
+  const snapshots = await storage.getReportSnapshots();
+  if (snapshots.some(s => s.source === "scheduled" && s.createdAt >= dueSince)) return null;
+
+  const until = addDays(periodStart, -1);
+  if (schedule === "weekly") return createReportSnapshot({ weeks: 1, until }, null);
+
+  // The calendar month before, which spans parts of four to six weeks
+  const from = `${until.slice(0, 8)}01`;
+  const weeks = Math.ceil((Number(until.slice(8)) + new Date(year, month - 2, 1).getDay()) / 7);
+  return createReportSnapshot({ weeks, from, until }, null);
+}
+
+// Interval-based checker for scheduled report snapshots
+let snapshotInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Start the periodic report snapshot checker
+ * Runs every hour - snapshots are weekly or monthly, so the exact minute doesn't matter
+ */
+export function startReportSnapshotScheduler(intervalMinutes = 60): void {
+  if (snapshotInterval) {
+    clearInterval(snapshotInterval);
+  }
+
+  snapshotInterval = setInterval(async () => {
+    try {
+      const snapshot = await processScheduledSnapshots();
+      if (snapshot) {
+        console.log(`Report snapshots: saved "${snapshot.name}"`);
+      }
+    } catch (error) {
+      console.error("Error in report snapshot scheduler:", error);
+    }
+  }, intervalMinutes * 60 * 1000);
+
+  console.log(`Started report snapshot scheduler (every ${intervalMinutes} minutes)`);
+}
+
+/**
+ * Stop the periodic report snapshot checker
+ */
+export function stopReportSnapshotScheduler(): void {
+  if (snapshotInterval) {
+    clearInterval(snapshotInterval);
+    snapshotInterval = null;
+    console.log("Stopped report snapshot scheduler");
+  }
+}
@@ -0,0 +1,87 @@
+import { storage } from "../storage";
+import { cancelActiveSwap } from "./shiftSwaps";
+import { scheduleShiftReminder } from "./shiftReminderScheduler";
+import { notifyShiftAssigned, notifyShiftFilledToOthers } from "./smsNotifications";
+import { broadcastShiftUpdate } from "../websocket";
+import type { Shift, Employee, Area } from "@shared/schema";
+
+export interface AssignShiftOptions {
+  sendNotification?: boolean;
+  webhookBaseUrl?: string;
+  onlyIfAvailable?: boolean; // Leave the shift alone if someone else filled it first
+}
+
+export interface AssignShiftResult {
+  shift: Shift;
+  employee: Employee | undefined;
+  area: Area | undefined;
+}
+
+/**
+ * Hand a shift to an employee once the caller has checked time off, overlaps and rules.
+ * Confirms with the assignee, schedules their reminder and tells the other interested employees.
+ * Returns undefined if the shift no longer exists, or with onlyIfAvailable, if it's no longer open.
+ */
+export async function assignShiftToEmployee(
+  originalShift: Shift,
+  employeeId: string,
+  options: AssignShiftOptions = {}
+): Promise<AssignShiftResult | undefined> {
+  const { sendNotification, webhookBaseUrl, onlyIfAvailable } = options;
+
+  const updates = {
+    status: "claimed",
+    assignedEmployeeId: employeeId,
+    // Reassigning keeps the original fill time
+    filledAt: originalShift.filledAt ?? new Date(),
+  };
+  const shift = onlyIfAvailable
+    ? await storage.claimAvailableShift(originalShift.id, updates)
+    : await storage.updateShift(originalShift.id, updates);
+  if (!shift) return undefined;
+
+  // A supervisor reassignment supersedes any swap the previous assignee offered
+  if (originalShift.assignedEmployeeId && originalShift.assignedEmployeeId !== employeeId) {
+    await cancelActiveSwap(shift.id);
+  }
+
+  const employee = await storage.getEmployee(employeeId);
+  const area = await storage.getArea(shift.areaId);
+  broadcastShiftUpdate(shift, "shift_assigned", employeeId);
+
+  if (sendNotification && employee) {
+    // Send confirmation asynchronously
+    notifyShiftAssigned(shift, employee, area, webhookBaseUrl)
+      .then(result => {
+        if (result.success) {
+          console.log(`Shift confirmation sent to ${employee.name}`);
+        } else {
+          console.log(`Failed to send shift confirmation to ${employee.name}: ${result.errorMessage}`);
+        }
+      })
+      .catch(err => {
+        console.error("Error sending shift confirmation:", err);
+      });
+  }
+
+  // Schedule shift reminder if employee exists
+  if (employee) {
+    scheduleShiftReminder(shift, employee, area, webhookBaseUrl)
+      .catch(err => {
+        console.error("Error scheduling shift reminder:", err);
+      });
+  }
+
+  // Notify other interested employees that this shift has been filled
+  notifyShiftFilledToOthers(shift, employeeId, webhookBaseUrl)
+    .then(result => {
+      if (result.queued > 0) {
+        console.log(`Queued shift filled notice for ${result.queued} other interested employees`);
+      }
+    })
+    .catch(err => {
+      console.error("Error notifying other interested employees:", err);
+    });
+
+  return { shift, employee, area };
+}
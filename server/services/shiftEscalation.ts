@@ -0,0 +1,249 @@
+import { storage } from "../storage";
+import { logAuditEvent } from "../audit";
+import { describeEscalationStep, type EscalationPolicy, type EscalationStep } from "@shared/escalation";
+import { partitionByAvailability } from "./employeeAvailability";
+import { notifyNewShift, notifyRepostedShift, notifySupervisorsUnfilledShift } from "./smsNotifications";
+import type { Shift, Employee, Area } from "@shared/schema";
+
+/**
+ * Parse a shift's date and start time into a Date object
+ */
+function parseShiftStart(shift: Shift): Date {
+  const [year, month, day] = shift.date.split("-").map(Number);
+  const [hours, minutes] = shift.startTime.split(":").map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+/**
+ * When the current stage started - the last escalation, the last notification or the posting
+ */
+function stageStartedAt(shift: Shift): Date {
+  const times = [shift.createdAt, shift.lastNotifiedAt, shift.escalatedAt]
+    .filter((t): t is Date => !!t)
+    .map(t => new Date(t).getTime());
+  return new Date(Math.max(...times));
+}
+
+/**
+ * The policy step due to run for a shift, or null if it isn't due yet (or has none left)
+ */
+export function getDueEscalationStep(shift: Shift, now = new Date()): EscalationStep | null {
+  const steps = shift.escalationPolicy?.steps ?? [];
+  const step = steps[shift.escalationStage ?? 0];
+  if (!step) return null;
+
+  const dueAt = stageStartedAt(shift).getTime() + step.waitMinutes * 60 * 1000;
+  return now.getTime() >= dueAt ? step : null;
+}
+
+/**
+ * Drop notify_all_areas steps from a submitted policy, for users who can't reach other areas.
+ * Returns null when nothing is left to run.
+ */
+export function stripAllAreasEscalation(policy: unknown): unknown {
+  if (!policy || typeof policy !== "object" || !Array.isArray((policy as EscalationPolicy).steps)) {
+    return policy;
+  }
+  const steps = (policy as EscalationPolicy).steps.filter(step => step?.action !== "notify_all_areas");
+  return steps.length > 0 ? { ...policy, steps } : null;
+}
+
+/**
+ * Active, opted-in employees with the shift's position who can be notified
+ */
+function filterNotifiable(shift: Shift, employees: Employee[]): Employee[] {
+  return employees.filter(emp =>
+    emp.positionId === shift.positionId &&
+    emp.status === "active" &&
+    emp.smsOptIn
+  );
+}
+
+/**
+ * Employees who hold shift management permissions and work in the area.
+ * Falls back to admins when the area has no supervisor with a linked employee.
+ */
+export async function getAreaSupervisors(areaId: string): Promise<Employee[]> {
+  const [users, roles, areaEmployees] = await Promise.all([
+    storage.getUsers(),
+    storage.getRoles(),
+    storage.getAreaEmployees(areaId),
+  ]);
+  const managerRoleIds = new Set(roles.filter(r => r.permissions.includes("shifts:manage")).map(r => r.id));
+  const areaEmployeeIds = new Set(areaEmployees.map(e => e.id));
+
+  const linked = users.filter(u => u.employeeId);
+  let supervisorIds = linked
+    .filter(u => u.roleId && managerRoleIds.has(u.roleId) && areaEmployeeIds.has(u.employeeId!))
+    .map(u => u.employeeId!);
+  if (supervisorIds.length === 0) {
+    supervisorIds = linked.filter(u => u.role === "admin").map(u => u.employeeId!);
+  }
+
+  const supervisors: Employee[] = [];
+  for (const employeeId of Array.from(new Set(supervisorIds))) {
+    const employee = await storage.getEmployee(employeeId);
+    if (employee) supervisors.push(employee);
+  }
+  return supervisors;
+}
+
+/**
+ * Run one escalation step. Returns the updated shift plus details for the audit log.
+ */
+async function runEscalationStep(
+  shift: Shift,
+  step: EscalationStep,
+  area: Area | undefined,
+  webhookBaseUrl?: string
+): Promise<{ shift: Shift; details: Record<string, unknown> }> {
+  const stage = (shift.escalationStage ?? 0) + 1;
+  const escalation = { escalationStage: stage, escalatedAt: new Date() };
+
+  if (step.action === "page_supervisor") {
+    const supervisors = await getAreaSupervisors(shift.areaId);
+    const updated = await storage.updateShift(shift.id, escalation) || shift;
+    const result = await notifySupervisorsUnfilledShift(updated, area, supervisors, webhookBaseUrl);
+    return {
+      shift: updated,
+      details: { supervisors: supervisors.map(s => s.name), sent: result.sent, failed: result.failed },
+    };
+  }
+
+  if (step.action === "notify_all_areas") {
+    // Only reach employees who haven't already been told about the shift
+    const areaEmployeeIds = new Set((await storage.getAreaEmployees(shift.areaId)).map(e => e.id));
+    const alreadyNotified = shift.notifyAllAreas === true;
+    let recipients = alreadyNotified
+      ? []
+      : filterNotifiable(shift, await storage.getEmployees()).filter(e => !areaEmployeeIds.has(e.id));
+    recipients = (await partitionByAvailability(shift, recipients)).available;
+
+    const updated = await storage.updateShift(shift.id, {
+      ...escalation,
+      notifyAllAreas: true,
+      ...(recipients.length > 0 && {
+        lastNotifiedAt: new Date(),
+        notificationCount: (shift.notificationCount ?? 0) + recipients.length,
+      }),
+    }) || shift;
+    const result = recipients.length > 0
+      ? await notifyNewShift(updated, area, recipients, webhookBaseUrl)
+      : { queued: 0, failed: 0 };
+    return { shift: updated, details: { recipientCount: recipients.length, queued: result.queued, failed: result.failed } };
+  }
+
+  // add_bonus - raise the bonus and repost to everyone the shift currently reaches
+  const previousBonus = shift.bonusAmount ?? 0;
+  const bonusAmount = previousBonus + (step.bonusIncrement ?? 0);
+  const audience = shift.notifyAllAreas
+    ? await storage.getEmployees()
+    : await storage.getAreaEmployees(shift.areaId);
+  const recipients = (await partitionByAvailability(shift, filterNotifiable(shift, audience))).available;
+
+  const updated = await storage.updateShift(shift.id, {
+    ...escalation,
+    bonusAmount,
+    ...(recipients.length > 0 && {
+      lastNotifiedAt: new Date(),
+      notificationCount: recipients.length,
+    }),
+  }) || shift;
+  const result = recipients.length > 0
+    ? await notifyRepostedShift(updated, area, recipients, webhookBaseUrl)
+    : { queued: 0, failed: 0 };
+  return {
+    shift: updated,
+    details: { previousBonus, bonusAmount, recipientCount: recipients.length, queued: result.queued, failed: result.failed },
+  };
+}
+
+/**
+ * Escalate available shifts whose current stage has gone its full wait without interest
+ */
+export async function processShiftEscalations(webhookBaseUrl?: string): Promise<{
+  checked: number;
+  escalated: number;
+}> {
+  const now = new Date();
+  const shifts = await storage.getShifts();
+  const candidates = shifts.filter(s =>
+    s.status === "available" &&
+    s.escalationPolicy &&
+    parseShiftStart(s) > now
+  );
+
+  let escalated = 0;
+
+  for (const shift of candidates) {
+    const step = getDueEscalationStep(shift, now);
+    if (!step) continue;
+
+    // Any interest means the shift is being worked - stop escalating
+    const interests = await storage.getShiftInterests(shift.id);
+    if (interests.length > 0) continue;
+
+    try {
+      const area = await storage.getArea(shift.areaId);
+      const result = await runEscalationStep(shift, step, area, webhookBaseUrl);
+      escalated++;
+
+      await logAuditEvent({
+        action: "shift_escalated",
+        actor: null,
+        targetType: "shift",
+        targetId: shift.id,
+        targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+        details: {
+          stage: result.shift.escalationStage,
+          action: step.action,
+          step: describeEscalationStep(step),
+          areaId: shift.areaId,
+          ...result.details,
+        },
+        ipAddress: undefined,
+      });
+    } catch (error) {
+      console.error(`Error escalating shift ${shift.id}:`, error);
+    }
+  }
+
+  return { checked: candidates.length, escalated };
+}
+
+// Interval-based checker for unfilled shifts
+let escalationInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Start the periodic escalation checker
+ * Runs every 5 minutes so short waits fire close to on time
+ */
+export function startEscalationScheduler(webhookBaseUrl?: string, intervalMinutes = 5): void {
+  if (escalationInterval) {
+    clearInterval(escalationInterval);
+  }
+
+  escalationInterval = setInterval(async () => {
+    try {
+      const result = await processShiftEscalations(webhookBaseUrl);
+      if (result.escalated > 0) {
+        console.log(`Escalation check: escalated ${result.escalated} of ${result.checked} unfilled shift(s)`);
+      }
+    } catch (error) {
+      console.error("Error in escalation scheduler:", error);
+    }
+  }, intervalMinutes * 60 * 1000);
+
+  console.log(`Started shift escalation scheduler (every ${intervalMinutes} minutes)`);
+}
+
+/**
+ * Stop the periodic escalation checker
+ */
+export function stopEscalationScheduler(): void {
+  if (escalationInterval) {
+    clearInterval(escalationInterval);
+    escalationInterval = null;
+    console.log("Stopped shift escalation scheduler");
+  }
+}
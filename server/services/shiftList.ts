@@ -0,0 +1,43 @@
+import { storage } from "../storage";
+import type { ShiftCursor, ShiftListFilters, ShiftPage, ShiftSort } from "@shared/shiftQuery";
+
+/**
+ * Opaque page cursor. It remembers the sort it was made for so a cursor from one
+ * ordering can't be replayed against another.
+ */
+export function encodeShiftCursor(cursor: ShiftCursor, sort: ShiftSort): string {
+  return Buffer.from(JSON.stringify({ s: sort, k: cursor.key, i: cursor.id })).toString("base64url");
+}
+
+/**
+ * @returns The cursor, or null when it is malformed or was made for a different sort
+ */
+export function decodeShiftCursor(value: string, sort: ShiftSort): ShiftCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (decoded?.s !== sort || typeof decoded.k !== "string" || typeof decoded.i !== "string") return null;
+    return { key: decoded.k, id: decoded.i };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One page of the shift list. The first page also carries status counts for the whole result.
+ */
+export async function getShiftPage(filters: ShiftListFilters, limit: number, cursor?: string): Promise<ShiftPage | { error: string }> {
+  const sort = filters.sort ?? "newest";
+  const after = cursor ? decodeShiftCursor(cursor, sort) : undefined;
+  if (after === null) return { error: "Invalid cursor" };
+
+  const [{ shifts, next }, counts] = await Promise.all([
+    storage.getShiftList({ ...filters, sort, limit, after }),
+    after ? undefined : storage.countShiftsByStatus(filters),
+  ]);
+
+  return {
+    shifts,
+    nextCursor: next ? encodeShiftCursor(next, sort) : null,
+    ...(counts && { counts }),
+  };
+}
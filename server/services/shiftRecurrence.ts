@@ -0,0 +1,308 @@
+import { storage } from "../storage";
+import { cancelShiftReminder } from "./shiftReminderScheduler";
+import { notifyShiftUnassigned } from "./smsNotifications";
+import { broadcastShiftUpdate } from "../websocket";
+import { getOccurrenceDates, addDays, getLocalToday } from "@shared/recurrence";
+import type { Shift, ShiftTemplate, InsertShift } from "@shared/schema";
+
+// Shift fields that can be pushed to "this and following" occurrences of a series
+export const SERIES_EDITABLE_FIELDS = [
+  "positionId",
+  "areaId",
+  "location",
+  "startTime",
+  "endTime",
+  "requirements",
+  "bonusAmount",
+  "notifyAllAreas",
+] as const;
+
+export type SeriesShiftUpdates = Partial<Pick<InsertShift, typeof SERIES_EDITABLE_FIELDS[number]>>;
+
+/**
+ * Check if a template has an active recurrence rule
+ */
+export function isRecurringTemplate(template: ShiftTemplate): boolean {
+  return !!template.recurrenceRule && !!template.recurrenceStartDate;
+}
+
+/**
+ * Pick only the fields that may be applied across a series
+ */
+export function pickSeriesUpdates(data: Record<string, unknown>): SeriesShiftUpdates {
+  const updates: Record<string, unknown> = {};
+  for (const field of SERIES_EDITABLE_FIELDS) {
+    if (field in data) {
+      updates[field] = data[field];
+    }
+  }
+  return updates as SeriesShiftUpdates;
+}
+
+/**
+ * Resolve the name shown as "posted by" on generated shifts
+ */
+async function getSeriesPosterName(template: ShiftTemplate): Promise<string> {
+  if (template.createdById) {
+    const user = await storage.getUser(template.createdById);
+    if (user) return user.username;
+  }
+  return "Scheduler";
+}
+
+/**
+ * Materialize shifts for a recurring template up to its rolling horizon.
+ * Occurrences that already exist, or were cancelled, are skipped.
+ */
+export async function generateTemplateShifts(template: ShiftTemplate): Promise<Shift[]> {
+  if (!isRecurringTemplate(template)) {
+    return [];
+  }
+
+  const today = getLocalToday();
+  const horizonEnd = addDays(today, template.recurrenceHorizonDays ?? 28);
+  const dates = getOccurrenceDates(
+    template.recurrenceRule!,
+    template.recurrenceStartDate!,
+    today,
+    horizonEnd,
+    template.recurrenceEndDate
+  );
+  if (dates.length === 0) {
+    return [];
+  }
+
+  const existing = await storage.getShiftsByTemplate(template.id);
+  const existingDates = new Set(existing.map(s => s.occurrenceDate ?? s.date));
+  const exceptions = new Set(template.recurrenceExceptions ?? []);
+  const postedByName = await getSeriesPosterName(template);
+
+  const created: Shift[] = [];
+  for (const date of dates) {
+    if (existingDates.has(date) || exceptions.has(date)) {
+      continue;
+    }
+
+    const shift = await storage.createShift({
+      positionId: template.positionId,
+      areaId: template.areaId,
+      location: template.location,
+      date,
+      startTime: template.startTime,
+      endTime: template.endTime,
+      requirements: template.requirements,
+      postedById: template.createdById,
+      postedByName,
+      bonusAmount: template.bonusAmount,
+      notifyAllAreas: template.notifyAllAreas ?? false,
+      templateId: template.id,
+      occurrenceDate: date,
+    });
+    created.push(shift);
+  }
+
+  return created;
+}
+
+/**
+ * Re-align a series after its rule changed: remove upcoming occurrences that no longer
+ * match the rule (only if nobody is assigned or interested), then generate new ones.
+ */
+export async function syncTemplateSeries(template: ShiftTemplate): Promise<{ created: Shift[]; removed: Shift[] }> {
+  if (!isRecurringTemplate(template)) {
+    return { created: [], removed: [] };
+  }
+
+  const today = getLocalToday();
+  const existing = await storage.getShiftsByTemplate(template.id);
+  const upcoming = existing.filter(s => (s.occurrenceDate ?? s.date) >= today);
+
+  const lastUpcoming = upcoming.reduce((max, s) => {
+    const date = s.occurrenceDate ?? s.date;
+    return date > max ? date : max;
+  }, today);
+  const validDates = new Set(getOccurrenceDates(
+    template.recurrenceRule!,
+    template.recurrenceStartDate!,
+    today,
+    lastUpcoming,
+    template.recurrenceEndDate
+  ));
+
+  const removed: Shift[] = [];
+  for (const shift of upcoming) {
+    if (validDates.has(shift.occurrenceDate ?? shift.date)) continue;
+    if (shift.status !== "available") continue;
+
+    const interests = await storage.getShiftInterests(shift.id);
+    if (interests.length > 0) continue;
+
+    if (await storage.deleteShift(shift.id)) {
+      removed.push(shift);
+    }
+  }
+
+  const created = await generateTemplateShifts(template);
+  return { created, removed };
+}
+
+/**
+ * Record a single cancelled occurrence so the generator does not recreate it
+ */
+export async function excludeOccurrence(shift: Shift): Promise<void> {
+  if (!shift.templateId) return;
+
+  const template = await storage.getShiftTemplate(shift.templateId);
+  if (!template) return;
+
+  const date = shift.occurrenceDate ?? shift.date;
+  const exceptions = template.recurrenceExceptions ?? [];
+  if (!exceptions.includes(date)) {
+    await storage.updateShiftTemplate(template.id, { recurrenceExceptions: [...exceptions, date] });
+  }
+}
+
+/**
+ * Get a shift plus every later occurrence in the same series
+ */
+export async function getFollowingOccurrences(shift: Shift): Promise<Shift[]> {
+  if (!shift.templateId) return [shift];
+
+  const fromDate = shift.occurrenceDate ?? shift.date;
+  const seriesShifts = await storage.getShiftsByTemplate(shift.templateId);
+  return seriesShifts.filter(s => s.id === shift.id || (s.occurrenceDate ?? s.date) >= fromDate);
+}
+
+/**
+ * Tell the assignee of a shift that's about to be cancelled and drop their reminder.
+ * Runs before the delete so the text can still point at the shift.
+ */
+export async function releaseCancelledShift(shift: Shift, webhookBaseUrl?: string): Promise<void> {
+  if (shift.status !== "claimed" || !shift.assignedEmployeeId) return;
+
+  cancelShiftReminder(shift.id, shift.assignedEmployeeId);
+
+  const employee = await storage.getEmployee(shift.assignedEmployeeId);
+  if (!employee) return;
+  const area = await storage.getArea(shift.areaId);
+  try {
+    const result = await notifyShiftUnassigned(shift, employee, area, webhookBaseUrl);
+    if (!result.success) {
+      console.log(`Failed to send cancellation notice to ${employee.name}: ${result.errorMessage}`);
+    }
+  } catch (error) {
+    console.error("Error sending cancellation notice:", error);
+  }
+}
+
+/**
+ * Cancel a shift and every later occurrence, ending the series the day before.
+ * Employees assigned to a cancelled occurrence are told it's gone.
+ */
+export async function cancelFollowingOccurrences(shift: Shift, webhookBaseUrl?: string): Promise<Shift[]> {
+  const occurrences = await getFollowingOccurrences(shift);
+
+  if (shift.templateId) {
+    const fromDate = shift.occurrenceDate ?? shift.date;
+    await storage.updateShiftTemplate(shift.templateId, { recurrenceEndDate: addDays(fromDate, -1) });
+  }
+
+  const cancelled: Shift[] = [];
+  for (const occurrence of occurrences) {
+    await releaseCancelledShift(occurrence, webhookBaseUrl);
+    if (await storage.deleteShift(occurrence.id)) {
+      cancelled.push(occurrence);
+      broadcastShiftUpdate(occurrence, "shift_deleted", occurrence.assignedEmployeeId);
+    }
+  }
+  return cancelled;
+}
+
+/**
+ * Apply changes to a shift and every later occurrence, and to the template
+ * so occurrences generated in the future pick them up too.
+ * Occurrences someone is already assigned to are left as they are and returned as skipped -
+ * a new time, area or position could double-book the assignee or need certifications they lack.
+ */
+export async function updateFollowingOccurrences(
+  shift: Shift,
+  updates: SeriesShiftUpdates
+): Promise<{ updated: Shift[]; skipped: Shift[] }> {
+  const occurrences = await getFollowingOccurrences(shift);
+
+  const updated: Shift[] = [];
+  const skipped: Shift[] = [];
+  for (const occurrence of occurrences) {
+    if (occurrence.assignedEmployeeId) {
+      skipped.push(occurrence);
+      continue;
+    }
+    const result = await storage.updateShift(occurrence.id, updates);
+    if (result) updated.push(result);
+  }
+
+  if (shift.templateId) {
+    await storage.updateShiftTemplate(shift.templateId, updates);
+  }
+
+  return { updated, skipped };
+}
+
+/**
+ * Run the generator for every recurring template
+ */
+export async function processRecurringTemplates(): Promise<{ templates: number; created: number }> {
+  const templates = (await storage.getShiftTemplates()).filter(isRecurringTemplate);
+
+  let created = 0;
+  for (const template of templates) {
+    try {
+      const shifts = await generateTemplateShifts(template);
+      created += shifts.length;
+    } catch (error) {
+      console.error(`Error generating shifts for template ${template.id}:`, error);
+    }
+  }
+
+  return { templates: templates.length, created };
+}
+
+// Interval-based generator that keeps each series filled out to its horizon
+let recurrenceInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Start the periodic recurring shift generator
+ * Runs once immediately and then every hour by default
+ */
+export function startRecurrenceGenerator(intervalMinutes = 60): void {
+  if (recurrenceInterval) {
+    clearInterval(recurrenceInterval);
+  }
+
+  const run = async () => {
+    try {
+      const result = await processRecurringTemplates();
+      if (result.created > 0) {
+        console.log(`Recurring shifts: generated ${result.created} shift(s) from ${result.templates} template(s)`);
+      }
+    } catch (error) {
+      console.error("Error in recurring shift generator:", error);
+    }
+  };
+
+  run();
+  recurrenceInterval = setInterval(run, intervalMinutes * 60 * 1000);
+
+  console.log(`Started recurring shift generator (every ${intervalMinutes} minutes)`);
+}
+
+/**
+ * Stop the periodic recurring shift generator
+ */
+export function stopRecurrenceGenerator(): void {
+  if (recurrenceInterval) {
+    clearInterval(recurrenceInterval);
+    recurrenceInterval = null;
+    console.log("Stopped recurring shift generator");
+  }
+}
@@ -0,0 +1,183 @@
+import { storage } from "../storage";
+import { broadcastShiftUpdate } from "../websocket";
+import { findApprovedTimeOff, describeTimeOff } from "./timeOff";
+import { evaluateAssignmentRules, describeViolations, findOverlappingShift, describeConflict } from "./assignmentRules";
+import { findMissingCertifications, describeMissingCertifications } from "./certifications";
+import { scheduleShiftReminder, cancelShiftReminder } from "./shiftReminderScheduler";
+import { notifySwapDecision } from "./smsNotifications";
+import type { Employee, Shift, ShiftSwap } from "@shared/schema";
+
+// Swaps that still hold the shift - only one may exist per shift at a time
+export const ACTIVE_SWAP_STATUSES = ["open", "pending_approval"];
+
+export type SwapAcceptResult =
+  | { success: true; swap: ShiftSwap; shift: Shift; completed: boolean }
+  | { success: false; error: string };
+
+/**
+ * Whether accepted swaps wait for a supervisor before the shift changes hands
+ */
+export async function swapRequiresApproval(): Promise<boolean> {
+  const setting = await storage.getSetting("swap_requires_approval");
+  return (setting?.value ?? "true") === "true";
+}
+
+/**
+ * A coworker can take a shift when they're active, hold the shift's position and
+ * work in its area (employees without area assignments can work any area)
+ */
+export async function isSwapCoworker(shift: Shift, employee: Employee): Promise<boolean> {
+  if (employee.status !== "active" || employee.positionId !== shift.positionId) return false;
+  const employeeAreas = await storage.getEmployeeAreas(employee.id);
+  return employeeAreas.length === 0 || employeeAreas.some(area => area.id === shift.areaId);
+}
+
+/**
+ * Coworkers who could take a shift offered by the given employee
+ */
+export async function getSwapCoworkers(shift: Shift, offeredById: string): Promise<Employee[]> {
+  const employees = await storage.getEmployees();
+  const coworkers: Employee[] = [];
+  for (const employee of employees) {
+    if (employee.id !== offeredById && await isSwapCoworker(shift, employee)) {
+      coworkers.push(employee);
+    }
+  }
+  return coworkers;
+}
+
+/**
+ * Reasons a coworker can't take a shift: approved time off, double booking, a missing certification or a blocking rule.
+ * Returns null when they're clear to take it.
+ */
+export async function getSwapConflict(employeeId: string, shift: Shift): Promise<string | null> {
+  const timeOff = await findApprovedTimeOff(employeeId, shift);
+  if (timeOff) return `approved time off for ${describeTimeOff(timeOff)}`;
+
+  const conflict = await findOverlappingShift(employeeId, shift);
+  if (conflict) return `already scheduled for ${describeConflict(conflict)}`;
+
+  const missingCertifications = await findMissingCertifications(employeeId, shift);
+  if (missingCertifications.length > 0) return `missing ${describeMissingCertifications(missingCertifications)}`;
+
+  const ruleCheck = await evaluateAssignmentRules(employeeId, shift);
+  if (ruleCheck.blocked) return describeViolations(ruleCheck.violations.filter(v => v.mode === "block"));
+
+  return null;
+}
+
+/**
+ * The open or pending swap for a shift, if any
+ */
+export async function getActiveSwap(shiftId: string): Promise<ShiftSwap | undefined> {
+  const swaps = await storage.getShiftSwaps({ shiftId });
+  return swaps.find(swap => ACTIVE_SWAP_STATUSES.includes(swap.status));
+}
+
+/**
+ * Cancel any active swap when a supervisor reassigns or unassigns the shift
+ */
+export async function cancelActiveSwap(shiftId: string): Promise<ShiftSwap | undefined> {
+  const swap = await getActiveSwap(shiftId);
+  if (!swap) return undefined;
+  if (swap.acceptedById) {
+    await storage.deleteShiftInterest(shiftId, swap.acceptedById);
+  }
+  return storage.updateShiftSwap(swap.id, { status: "cancelled", resolvedAt: new Date() });
+}
+
+/**
+ * Accept an open swap on behalf of a coworker. The coworker's interest is recorded on the
+ * shift, and the shift changes hands right away when approval isn't required.
+ */
+export async function acceptSwap(swap: ShiftSwap, employee: Employee, webhookBaseUrl?: string): Promise<SwapAcceptResult> {
+  if (swap.status !== "open") {
+    return { success: false, error: "This swap is no longer open" };
+  }
+  if (swap.offeredById === employee.id) {
+    return { success: false, error: "You can't accept your own swap" };
+  }
+  if (swap.targetEmployeeId && swap.targetEmployeeId !== employee.id) {
+    return { success: false, error: "This swap was offered to another coworker" };
+  }
+
+  const shift = await storage.getShift(swap.shiftId);
+  if (!shift || shift.status !== "claimed" || shift.assignedEmployeeId !== swap.offeredById) {
+    await storage.updateShiftSwap(swap.id, { status: "cancelled", resolvedAt: new Date() });
+    return { success: false, error: "This shift is no longer available to swap" };
+  }
+  if (!(await isSwapCoworker(shift, employee))) {
+    return { success: false, error: "Only coworkers in the same position and area can take this shift" };
+  }
+
+  const conflict = await getSwapConflict(employee.id, shift);
+  if (conflict) {
+    return { success: false, error: `You can't take this shift: ${conflict}` };
+  }
+
+  await storage.createShiftInterest({ shiftId: shift.id, employeeId: employee.id });
+  broadcastShiftUpdate(shift, "interest_added", employee.id);
+
+  const accepted = await storage.updateShiftSwap(swap.id, {
+    acceptedById: employee.id,
+    acceptedAt: new Date(),
+    status: "pending_approval",
+  });
+  if (!accepted) return { success: false, error: "Swap not found" };
+
+  if (await swapRequiresApproval()) {
+    return { success: true, swap: accepted, shift, completed: false };
+  }
+
+  const completed = await completeSwap(accepted, webhookBaseUrl);
+  if (!completed) return { success: false, error: "Failed to update shift" };
+  return { success: true, swap: completed.swap, shift: completed.shift, completed: true };
+}
+
+/**
+ * Hand the shift to the coworker who accepted the swap and move the shift reminder with it
+ */
+export async function completeSwap(
+  swap: ShiftSwap,
+  webhookBaseUrl?: string,
+  review?: { reviewedById: string | null; reviewedByName: string | null; reviewNote: string | null }
+): Promise<{ swap: ShiftSwap; shift: Shift } | undefined> {
+  if (!swap.acceptedById) return undefined;
+
+  const shift = await storage.updateShift(swap.shiftId, { assignedEmployeeId: swap.acceptedById });
+  if (!shift) return undefined;
+
+  const approved = await storage.updateShiftSwap(swap.id, {
+    ...review,
+    status: "approved",
+    resolvedAt: new Date(),
+  });
+  if (!approved) return undefined;
+
+  cancelShiftReminder(shift.id, swap.offeredById);
+  const employee = await storage.getEmployee(swap.acceptedById);
+  if (employee) {
+    const area = await storage.getArea(shift.areaId);
+    scheduleShiftReminder(shift, employee, area, webhookBaseUrl).catch(err => {
+      console.error("Error scheduling shift reminder:", err);
+    });
+  }
+
+  broadcastShiftUpdate(shift, "shift_assigned", swap.acceptedById);
+  return { swap: approved, shift };
+}
+
+/**
+ * Text both sides of a swap once it's been approved or denied
+ */
+export async function notifySwapParties(shift: Shift, swap: ShiftSwap, webhookBaseUrl?: string): Promise<void> {
+  const employeeIds = [swap.offeredById, swap.acceptedById].filter((id): id is string => !!id);
+  for (const employeeId of employeeIds) {
+    const employee = await storage.getEmployee(employeeId);
+    if (!employee) continue;
+    const result = await notifySwapDecision(shift, swap, employee, webhookBaseUrl);
+    if (!result.success) {
+      console.log(`Failed to send swap decision to ${employee.name}: ${result.errorMessage}`);
+    }
+  }
+}
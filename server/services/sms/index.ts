@@ -2,7 +2,7 @@
  * SMS Provider Module
  *
  * Provides a unified interface for SMS messaging that supports
- * multiple providers (Twilio, RingCentral) based on configuration.
+ * multiple providers (Twilio, RingCentral, and a mock for development) based on configuration.
  *
  * Usage:
  * ```typescript
@@ -37,6 +37,8 @@ export type {
   SendSMSResult,
   DeliveryStatus,
   InboundMessage,
+  OutboundMedia,
+  FetchedMedia,
   DeliveryStatusUpdate,
   ErrorType,
   PhoneValidationResult,
@@ -44,11 +46,15 @@ export type {
   ISMSProvider,
   ISubscriptionSMSProvider,
   SMSProviderEvents,
+  SMSProviderRole,
+  ProviderHealth,
+  FailoverStatus,
 } from "./types";
 
 // Export provider factory (singleton)
-export { smsProvider, SMSProviderFactory } from "./provider";
+export { smsProvider, SMSProviderFactory, type StatusCallback } from "./provider";
 
 // Export individual providers for direct use if needed
 export { TwilioProvider } from "./twilioProvider";
 export { RingCentralProvider } from "./ringcentralProvider";
+export { MockProvider } from "./mockProvider";
@@ -0,0 +1,400 @@
+/**
+ * Mock (Loopback) SMS Provider Implementation
+ *
+ * Implements the ISMSProvider interface without talking to a carrier, for local
+ * development and automated tests. Sent messages are kept in memory, delivery
+ * status callbacks are posted back to our own webhook, and the webhook payloads
+ * use Twilio's field names so the existing handlers process them unchanged.
+ *
+ * Simulated failures:
+ * - Numbers ending in 0000 fail permanently (invalid number)
+ * - Numbers ending in 0001 are accepted but the callback reports them undelivered
+ * - mockFailureRate (0-100) is the percentage of sends that fail with a recoverable error
+ */
+
+import { randomUUID } from "crypto";
+import type {
+  ISMSProvider,
+  SMSProviderConfig,
+  SMSProviderType,
+  SendSMSResult,
+  InboundMessage,
+  OutboundMedia,
+  FetchedMedia,
+  DeliveryStatusUpdate,
+  DeliveryStatus,
+  PhoneValidationResult,
+  MessageStatusResult,
+  ErrorType,
+} from "./types";
+
+// Simulated error codes and their classification
+const MOCK_ERROR_CODES: Record<string, ErrorType> = {
+  MOCK_UNREACHABLE: "recoverable",
+  MOCK_RATE_LIMIT: "rate_limit",
+  MOCK_INVALID_NUMBER: "permanent",
+  MOCK_UNDELIVERED: "permanent",
+};
+
+// Number the mock provider sends from
+export const MOCK_FROM_NUMBER = "+15555550100";
+
+// How long after sending the simulated delivery callback arrives
+const DELIVERY_DELAY_MS = 2000;
+
+// Only the most recent messages are kept
+const MAX_RECORDS = 500;
+
+// A message in the simulated carrier - outbound went to the phone, inbound came from it
+export interface MockSMSRecord {
+  id: string;
+  direction: "outbound" | "inbound";
+  phone: string;
+  body: string;
+  mediaCount?: number; // Attachments on an MMS
+  status: DeliveryStatus;
+  errorCode?: string;
+  createdAt: Date;
+}
+
+// Shared across provider instances so switching providers doesn't wipe the history
+const mockMessages: MockSMSRecord[] = [];
+
+function recordMockMessage(record: Omit<MockSMSRecord, "id" | "createdAt">): MockSMSRecord {
+  const entry: MockSMSRecord = { ...record, id: `MOCK${randomUUID().replace(/-/g, "")}`, createdAt: new Date() };
+  mockMessages.push(entry);
+  if (mockMessages.length > MAX_RECORDS) {
+    mockMessages.splice(0, mockMessages.length - MAX_RECORDS);
+  }
+  return entry;
+}
+
+/**
+ * Messages in the simulated carrier, oldest first, optionally for one phone number
+ */
+export function getMockMessages(phone?: string): MockSMSRecord[] {
+  const digits = phone?.replace(/\D/g, "").slice(-10);
+  return digits
+    ? mockMessages.filter(m => m.phone.replace(/\D/g, "").endsWith(digits))
+    : [...mockMessages];
+}
+
+/**
+ * Record a reply typed on a simulated phone, before it is posted to the inbound webhook
+ */
+export function recordMockInbound(phone: string, body: string, mediaCount = 0): MockSMSRecord {
+  return recordMockMessage({ direction: "inbound", phone, body, mediaCount, status: "delivered" });
+}
+
+/**
+ * Record the reply our inbound webhook returned, as if the carrier delivered it to the phone
+ */
+export function recordMockReply(phone: string, body: string): MockSMSRecord {
+  return recordMockMessage({ direction: "outbound", phone, body, status: "delivered" });
+}
+
+/**
+ * Forget every simulated message
+ */
+export function clearMockMessages(): void {
+  mockMessages.length = 0;
+}
+
+/**
+ * Pull the reply text out of a TwiML response, or null if there is none
+ */
+export function extractResponseMessage(twiml: string): string | null {
+  const match = twiml.match(/<Message>([\s\S]*)<\/Message>/);
+  if (!match) return null;
+  return match[1]
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+export class MockProvider implements ISMSProvider {
+  readonly providerType: SMSProviderType = "mock";
+
+  private config: SMSProviderConfig | null = null;
+  private initialized = false;
+
+  /**
+   * Initialize the mock provider - no credentials required
+   */
+  initialize(config: SMSProviderConfig): void {
+    this.config = config;
+    this.initialized = true;
+  }
+
+  /**
+   * Check if the provider is initialized
+   */
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): Partial<SMSProviderConfig> | null {
+    if (!this.config) return null;
+    return {
+      provider: this.providerType,
+      fromNumber: this.config.fromNumber,
+      mockFailureRate: this.config.mockFailureRate,
+    };
+  }
+
+  /**
+   * Validate E.164 phone number format
+   */
+  validatePhoneNumber(phone: string): PhoneValidationResult {
+    let cleaned = phone.replace(/[^\d+]/g, "");
+
+    if (!cleaned.startsWith("+")) {
+      // Assume US number if 10 digits
+      cleaned = cleaned.length === 10 ? "+1" + cleaned : "+" + cleaned;
+    }
+
+    if (!/^\+[1-9]\d{1,14}$/.test(cleaned)) {
+      return {
+        valid: false,
+        error: "Phone number must be in E.164 format (e.g., +15551234567)",
+      };
+    }
+
+    return { valid: true, formatted: cleaned };
+  }
+
+  /**
+   * "Send" an SMS - record it and schedule a delivery callback
+   */
+  async sendSMS(to: string, body: string, statusCallback?: string): Promise<SendSMSResult> {
+    return this.send(to, body, 0, statusCallback);
+  }
+
+  /**
+   * "Send" an MMS - only the number of attachments is recorded
+   */
+  async sendMMS(to: string, body: string, media: OutboundMedia[], statusCallback?: string): Promise<SendSMSResult> {
+    return this.send(to, body, media.length, statusCallback);
+  }
+
+  /**
+   * Download simulated inbound media - plain http(s) or data: URLs, no credentials
+   */
+  async fetchMedia(url: string): Promise<FetchedMedia | null> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) return null;
+      return {
+        contentType: response.headers.get("content-type") || "application/octet-stream",
+        data: Buffer.from(await response.arrayBuffer()),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private async send(to: string, body: string, mediaCount: number, statusCallback?: string): Promise<SendSMSResult> {
+    if (!this.initialized) {
+      return {
+        success: false,
+        errorCode: "NOT_INITIALIZED",
+        errorMessage: "Mock provider not initialized",
+      };
+    }
+
+    const validation = this.validatePhoneNumber(to);
+    if (!validation.valid) {
+      return {
+        success: false,
+        errorCode: "INVALID_PHONE",
+        errorMessage: validation.error,
+      };
+    }
+    const phone = validation.formatted!;
+
+    if (phone.endsWith("0000")) {
+      recordMockMessage({ direction: "outbound", phone, body, mediaCount, status: "failed", errorCode: "MOCK_INVALID_NUMBER" });
+      return {
+        success: false,
+        errorCode: "MOCK_INVALID_NUMBER",
+        errorMessage: "Simulated permanent failure: invalid number",
+      };
+    }
+
+    const failureRate = this.config?.mockFailureRate ?? 0;
+    if (failureRate > 0 && Math.random() * 100 < failureRate) {
+      recordMockMessage({ direction: "outbound", phone, body, mediaCount, status: "failed", errorCode: "MOCK_UNREACHABLE" });
+      return {
+        success: false,
+        errorCode: "MOCK_UNREACHABLE",
+        errorMessage: "Simulated recoverable failure: handset unreachable",
+      };
+    }
+
+    const undeliverable = phone.endsWith("0001");
+    const record = recordMockMessage({ direction: "outbound", phone, body, mediaCount, status: "sent" });
+
+    setTimeout(() => {
+      record.status = undeliverable ? "undelivered" : "delivered";
+      record.errorCode = undeliverable ? "MOCK_UNDELIVERED" : undefined;
+      if (statusCallback) {
+        this.postStatusCallback(statusCallback, record).catch(error => {
+          console.error("Mock SMS status callback failed:", error);
+        });
+      }
+    }, DELIVERY_DELAY_MS);
+
+    return {
+      success: true,
+      messageId: record.id,
+      providerMessageId: record.id,
+      status: "sent",
+      segments: Math.max(1, Math.ceil(body.length / 160)),
+    };
+  }
+
+  /**
+   * Send SMS with retry logic for recoverable errors
+   */
+  async sendSMSWithRetry(
+    to: string,
+    body: string,
+    statusCallback?: string,
+    maxRetries = 3,
+    initialDelayMs = 1000
+  ): Promise<SendSMSResult> {
+    let lastResult: SendSMSResult | null = null;
+    let delay = initialDelayMs;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const result = await this.sendSMS(to, body, statusCallback);
+      lastResult = result;
+
+      if (result.success || !this.isRecoverableError(result.errorCode || "")) {
+        return result;
+      }
+
+      if (attempt < maxRetries) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        delay *= 2; // Exponential backoff
+      }
+    }
+
+    return lastResult!;
+  }
+
+  /**
+   * Accept every webhook - the mock endpoints are only registered outside production
+   */
+  validateWebhookSignature(): boolean {
+    return true;
+  }
+
+  /**
+   * Parse a simulated inbound message (Twilio field names)
+   */
+  parseInboundMessage(body: Record<string, string>): InboundMessage {
+    const numMedia = parseInt(body.NumMedia || "0");
+    const mediaIndexes = Array.from({ length: numMedia }, (_, i) => i).filter(i => body[`MediaUrl${i}`]);
+    return {
+      messageId: body.MessageSid,
+      from: body.From,
+      to: body.To,
+      body: body.Body || "",
+      numMedia,
+      mediaUrls: mediaIndexes.map(i => body[`MediaUrl${i}`]),
+      mediaContentTypes: mediaIndexes.map(i => body[`MediaContentType${i}`] || ""),
+      provider: this.providerType,
+      rawPayload: body,
+    };
+  }
+
+  /**
+   * Parse a simulated delivery status callback (Twilio field names)
+   */
+  parseDeliveryStatus(body: Record<string, string>): DeliveryStatusUpdate {
+    return {
+      messageId: body.MessageSid,
+      status: (body.MessageStatus as DeliveryStatus) || "failed",
+      errorCode: body.ErrorCode,
+      errorMessage: body.ErrorMessage,
+      provider: this.providerType,
+    };
+  }
+
+  /**
+   * Generate a TwiML-style response so the Twilio inbound handler can serve the mock provider too
+   */
+  generateResponse(message?: string): string {
+    if (!message) {
+      return '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+    }
+
+    const escaped = message
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;");
+
+    return `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escaped}</Message></Response>`;
+  }
+
+  /**
+   * Check if an error is recoverable
+   */
+  isRecoverableError(errorCode: string | number): boolean {
+    const type = MOCK_ERROR_CODES[String(errorCode)];
+    return type === "recoverable" || type === "rate_limit";
+  }
+
+  /**
+   * The mock provider has no credentials to reject
+   */
+  isAuthError(): boolean {
+    return false;
+  }
+
+  /**
+   * Check if an error is specific to the recipient
+   */
+  isRecipientError(errorCode: string | number): boolean {
+    const code = String(errorCode);
+    return code === "INVALID_PHONE" || code === "MOCK_INVALID_NUMBER" || code === "MOCK_UNDELIVERED";
+  }
+
+  /**
+   * Get the simulated status of a sent message
+   */
+  async getMessageStatus(messageId: string): Promise<MessageStatusResult | null> {
+    const record = mockMessages.find(m => m.id === messageId);
+    if (!record) return null;
+    return { status: record.status, errorCode: record.errorCode };
+  }
+
+  /**
+   * Post a delivery status update to our own webhook, the way a carrier would
+   */
+  private async postStatusCallback(url: string, record: MockSMSRecord): Promise<void> {
+    const params = new URLSearchParams({
+      MessageSid: record.id,
+      MessageStatus: record.status,
+      To: record.phone,
+    });
+    if (record.errorCode) {
+      params.set("ErrorCode", record.errorCode);
+      params.set("ErrorMessage", "Simulated delivery failure");
+    }
+
+    await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: params.toString(),
+    });
+  }
+}
@@ -2,7 +2,8 @@
  * SMS Provider Factory
  *
  * Creates and manages SMS providers based on configuration.
- * Allows switching between Twilio and RingCentral at runtime.
+ * Allows switching between Twilio and RingCentral at runtime, and failing over
+ * from the primary provider to a secondary one when the primary is unhealthy.
  */
 
 import type {
@@ -11,24 +12,77 @@ import type {
   SMSProviderType,
   SendSMSResult,
   InboundMessage,
+  OutboundMedia,
+  FetchedMedia,
   DeliveryStatusUpdate,
   PhoneValidationResult,
   MessageStatusResult,
+  ProviderHealth,
+  FailoverStatus,
+  SMSProviderRole,
 } from "./types";
 import { TwilioProvider } from "./twilioProvider";
 import { RingCentralProvider } from "./ringcentralProvider";
+import { MockProvider } from "./mockProvider";
+
+// Only sends within this window count toward a provider's health
+const HEALTH_WINDOW_MS = 15 * 60 * 1000;
+
+// Most recent outcomes kept per provider
+const MAX_HEALTH_SAMPLES = 20;
+
+// A provider with at least this many recent attempts is unhealthy once this share of them fail
+const MIN_HEALTH_SAMPLES = 5;
+const FAILURE_RATE_THRESHOLD = 50;
+
+// Status callbacks depend on which provider sent the message, so callers may pass a builder
+export type StatusCallback = string | ((provider: SMSProviderType) => string);
+
+interface SendOutcome {
+  at: number;
+  success: boolean;
+  authError: boolean;
+  error: string | null;
+}
+
+interface ProviderSlot {
+  type: SMSProviderType;
+  provider: ISMSProvider;
+  role: SMSProviderRole;
+}
+
+/**
+ * Create a provider instance for a provider type
+ */
+function createProvider(type: SMSProviderType): ISMSProvider {
+  if (type === "ringcentral") {
+    return new RingCentralProvider();
+  } else if (type === "mock") {
+    return new MockProvider();
+  }
+  // Default to Twilio
+  return new TwilioProvider();
+}
 
 /**
  * SMS Provider Factory
  *
  * Manages the lifecycle of SMS providers and provides a unified
  * interface for sending messages regardless of the underlying provider.
+ * Sends go to the primary provider unless it is unhealthy; a failed send
+ * that isn't the recipient's fault is retried on the other provider.
  */
 class SMSProviderFactory {
   private currentProvider: ISMSProvider | null = null;
   private currentProviderType: SMSProviderType | null = null;
   private config: SMSProviderConfig | null = null;
 
+  private secondaryProvider: ISMSProvider | null = null;
+  private secondaryProviderType: SMSProviderType | null = null;
+
+  private outcomes = new Map<SMSProviderType, SendOutcome[]>();
+  private lastFailoverAt: Date | null = null;
+
   /**
    * Initialize the SMS provider based on configuration
    * @param config Provider configuration including credentials
@@ -42,14 +96,7 @@ class SMSProviderFactory {
         this.currentProvider.dispose().catch(console.error);
       }
 
-      // Create the appropriate provider based on config
-      if (config.provider === "ringcentral") {
-        this.currentProvider = new RingCentralProvider();
-      } else {
-        // Default to Twilio
-        this.currentProvider = new TwilioProvider();
-      }
-
+      this.currentProvider = createProvider(config.provider);
       this.currentProviderType = config.provider;
     }
 
@@ -60,6 +107,58 @@ class SMSProviderFactory {
     return this.currentProvider;
   }
 
+  /**
+   * Initialize the secondary provider used for failover
+   * @param config Provider configuration, or null to turn failover off
+   */
+  initializeSecondary(config: SMSProviderConfig | null): ISMSProvider | null {
+    if (!config || config.provider === this.currentProviderType) {
+      this.clearSecondary();
+      return null;
+    }
+
+    if (this.secondaryProviderType !== config.provider || !this.secondaryProvider) {
+      if (this.secondaryProvider?.dispose) {
+        this.secondaryProvider.dispose().catch(console.error);
+      }
+
+      this.secondaryProvider = createProvider(config.provider);
+      this.secondaryProviderType = config.provider;
+    }
+
+    this.secondaryProvider.initialize(config);
+    return this.secondaryProvider;
+  }
+
+  /**
+   * Initialize the secondary provider with authentication verification (RingCentral)
+   */
+  async initializeSecondaryAsync(config: SMSProviderConfig): Promise<boolean> {
+    const provider = this.initializeSecondary(config) as any;
+    if (!provider) return false;
+
+    if (typeof provider.initializeAsync === "function") {
+      const authenticated = await provider.initializeAsync(config);
+      if (!authenticated) {
+        this.recordAuthFailure(config.provider);
+      }
+      return authenticated;
+    }
+
+    return provider.isInitialized();
+  }
+
+  /**
+   * Stop failing over - dispose of the secondary provider
+   */
+  clearSecondary(): void {
+    if (this.secondaryProvider?.dispose) {
+      this.secondaryProvider.dispose().catch(console.error);
+    }
+    this.secondaryProvider = null;
+    this.secondaryProviderType = null;
+  }
+
   /**
    * Get the current provider instance
    */
@@ -74,11 +173,18 @@ class SMSProviderFactory {
     return this.currentProviderType;
   }
 
+  /**
+   * Get the secondary (failover) provider type, if one is configured
+   */
+  getSecondaryProviderType(): SMSProviderType | null {
+    return this.secondaryProviderType;
+  }
+
   /**
    * Check if a provider is initialized and ready
    */
   isInitialized(): boolean {
-    return this.currentProvider?.isInitialized() ?? false;
+    return (this.currentProvider?.isInitialized() || this.secondaryProvider?.isInitialized()) ?? false;
   }
 
   /**
@@ -88,40 +194,228 @@ class SMSProviderFactory {
     return this.currentProvider?.getConfig() ?? null;
   }
 
-  // Convenience methods that delegate to the current provider
+  // Health tracking
 
   /**
-   * Send an SMS message using the current provider
+   * Outcomes for a provider that are still inside the health window
    */
-  async sendSMS(to: string, body: string, statusCallback?: string): Promise<SendSMSResult> {
-    if (!this.currentProvider) {
+  private getRecentOutcomes(type: SMSProviderType): SendOutcome[] {
+    const cutoff = Date.now() - HEALTH_WINDOW_MS;
+    return (this.outcomes.get(type) ?? []).filter(o => o.at >= cutoff);
+  }
+
+  private recordOutcome(type: SMSProviderType, outcome: Omit<SendOutcome, "at">): void {
+    const recent = this.getRecentOutcomes(type);
+    recent.push({ ...outcome, at: Date.now() });
+    this.outcomes.set(type, recent.slice(-MAX_HEALTH_SAMPLES));
+  }
+
+  private recordAuthFailure(type: SMSProviderType): void {
+    this.recordOutcome(type, { success: false, authError: true, error: "AUTH_FAILED" });
+  }
+
+  /**
+   * Record how a send went, unless it failed because of the recipient
+   */
+  private recordResult(slot: ProviderSlot, result: SendSMSResult): void {
+    const code = result.errorCode || "";
+    if (!result.success && code && slot.provider.isRecipientError(code)) return;
+
+    this.recordOutcome(slot.type, {
+      success: result.success,
+      authError: !result.success && !!code && slot.provider.isAuthError(code),
+      error: result.success ? null : code || result.errorMessage || "Unknown error",
+    });
+  }
+
+  /**
+   * A provider is unhealthy after an auth error with no success since,
+   * or when too many of its recent sends failed
+   */
+  private isHealthy(type: SMSProviderType): boolean {
+    const recent = this.getRecentOutcomes(type);
+    const lastAuthError = recent.filter(o => o.authError).pop();
+    const lastSuccess = recent.filter(o => o.success).pop();
+    if (lastAuthError && (!lastSuccess || lastSuccess.at < lastAuthError.at)) return false;
+
+    if (recent.length < MIN_HEALTH_SAMPLES) return true;
+    const failures = recent.filter(o => !o.success).length;
+    return (failures / recent.length) * 100 < FAILURE_RATE_THRESHOLD;
+  }
+
+  private getHealth(slot: ProviderSlot): ProviderHealth {
+    const recent = this.getRecentOutcomes(slot.type);
+    const failures = recent.filter(o => !o.success);
+    const lastAuthError = recent.filter(o => o.authError).pop();
+    const lastSuccess = recent.filter(o => o.success).pop();
+
+    return {
+      provider: slot.type,
+      role: slot.role,
+      initialized: slot.provider.isInitialized(),
+      healthy: this.isHealthy(slot.type),
+      recentAttempts: recent.length,
+      recentFailures: failures.length,
+      failureRate: recent.length > 0 ? Math.round((failures.length / recent.length) * 100) : 0,
+      lastError: failures.length > 0 ? failures[failures.length - 1].error : null,
+      lastAuthErrorAt: lastAuthError ? new Date(lastAuthError.at) : null,
+      lastSuccessAt: lastSuccess ? new Date(lastSuccess.at) : null,
+    };
+  }
+
+  /**
+   * Providers in the order sends should try them - the primary first unless
+   * it is unhealthy and the secondary isn't
+   */
+  private getSendOrder(): ProviderSlot[] {
+    const slots: ProviderSlot[] = [];
+    if (this.currentProvider && this.currentProviderType) {
+      slots.push({ type: this.currentProviderType, provider: this.currentProvider, role: "primary" });
+    }
+    if (this.secondaryProvider && this.secondaryProviderType) {
+      slots.push({ type: this.secondaryProviderType, provider: this.secondaryProvider, role: "secondary" });
+    }
+
+    if (slots.length === 2 && !this.isHealthy(slots[0].type) && this.isHealthy(slots[1].type)) {
+      slots.reverse();
+    }
+    return slots;
+  }
+
+  /**
+   * Current failover state for the status endpoint
+   */
+  getFailoverStatus(): FailoverStatus {
+    const order = this.getSendOrder();
+    const activeProvider = order[0]?.type ?? null;
+
+    return {
+      enabled: !!this.secondaryProvider,
+      activeProvider,
+      failedOver: !!activeProvider && activeProvider !== this.currentProviderType,
+      lastFailoverAt: this.lastFailoverAt,
+      providers: order
+        .slice()
+        .sort((a, b) => (a.role === "primary" ? -1 : b.role === "primary" ? 1 : 0))
+        .map(slot => this.getHealth(slot)),
+    };
+  }
+
+  /**
+   * Look up a loaded provider by type, falling back to the primary
+   */
+  private getProviderFor(type?: SMSProviderType): ISMSProvider | null {
+    if (type && type === this.secondaryProviderType) return this.secondaryProvider;
+    return this.currentProvider;
+  }
+
+  /**
+   * Run a send against each provider in turn until one succeeds or the failure is the recipient's.
+   * Providers that can't handle the send are skipped.
+   */
+  private async sendWithFailover(
+    send: (provider: ISMSProvider, statusCallback?: string) => Promise<SendSMSResult>,
+    statusCallback?: StatusCallback,
+    canSend: (provider: ISMSProvider) => boolean = () => true
+  ): Promise<SendSMSResult> {
+    const order = this.getSendOrder().filter(slot => canSend(slot.provider));
+    if (order.length === 0) {
       return {
         success: false,
         errorCode: "NO_PROVIDER",
         errorMessage: "No SMS provider initialized",
       };
     }
-    return this.currentProvider.sendSMS(to, body, statusCallback);
+
+    let result: SendSMSResult | null = null;
+
+    for (let i = 0; i < order.length; i++) {
+      const slot = order[i];
+      const callback = typeof statusCallback === "function" ? statusCallback(slot.type) : statusCallback;
+      result = {
+        ...(await send(slot.provider, callback)),
+        provider: slot.type,
+        failedOver: slot.role === "secondary",
+      };
+      this.recordResult(slot, result);
+
+      if (result.success) {
+        if (slot.role === "secondary") this.lastFailoverAt = new Date();
+        return result;
+      }
+      if (result.errorCode && slot.provider.isRecipientError(result.errorCode)) {
+        return result;
+      }
+      if (i < order.length - 1) {
+        console.log(`SMS: ${slot.type} send failed (${result.errorCode || result.errorMessage}), trying ${order[i + 1].type}`);
+      }
+    }
+
+    return result!;
+  }
+
+  // Convenience methods that delegate to the current provider
+
+  /**
+   * Send an SMS message, failing over to the secondary provider if needed
+   */
+  async sendSMS(to: string, body: string, statusCallback?: StatusCallback): Promise<SendSMSResult> {
+    return this.sendWithFailover(
+      (provider, callback) => provider.sendSMS(to, body, callback),
+      statusCallback
+    );
   }
 
   /**
-   * Send SMS with retry using the current provider
+   * Send SMS with retry, failing over to the secondary provider if the retries run out
    */
   async sendSMSWithRetry(
     to: string,
     body: string,
-    statusCallback?: string,
+    statusCallback?: StatusCallback,
     maxRetries?: number,
     initialDelayMs?: number
   ): Promise<SendSMSResult> {
-    if (!this.currentProvider) {
-      return {
-        success: false,
-        errorCode: "NO_PROVIDER",
-        errorMessage: "No SMS provider initialized",
-      };
+    return this.sendWithFailover(
+      (provider, callback) => provider.sendSMSWithRetry(to, body, callback, maxRetries, initialDelayMs),
+      statusCallback
+    );
+  }
+
+  /**
+   * Send an MMS, failing over like sendSMS. Only providers that can send MMS are tried.
+   */
+  async sendMMS(
+    to: string,
+    body: string,
+    media: OutboundMedia[],
+    statusCallback?: StatusCallback
+  ): Promise<SendSMSResult> {
+    return this.sendWithFailover(
+      (provider, callback) => provider.sendMMS!(to, body, media, callback),
+      statusCallback,
+      provider => !!provider.sendMMS
+    );
+  }
+
+  /**
+   * Whether a provider can send MMS - the current one unless a type is given. Needs no credentials.
+   */
+  supportsMMS(provider?: SMSProviderType): boolean {
+    const loaded = this.getProviderFor(provider);
+    if (provider && loaded?.providerType !== provider) {
+      return !!createProvider(provider).sendMMS;
     }
-    return this.currentProvider.sendSMSWithRetry(to, body, statusCallback, maxRetries, initialDelayMs);
+    return !!loaded?.sendMMS;
+  }
+
+  /**
+   * Download inbound media with the provider that received it
+   */
+  async fetchMedia(url: string, provider?: SMSProviderType): Promise<FetchedMedia | null> {
+    const loaded = this.getProviderFor(provider);
+    if (!loaded?.fetchMedia || (provider && loaded.providerType !== provider)) return null;
+    return loaded.fetchMedia(url);
   }
 
   /**
@@ -147,35 +441,40 @@ class SMSProviderFactory {
   }
 
   /**
-   * Parse inbound message using the current provider
+   * Parse an inbound message with the given provider's parser. Parsing needs no credentials,
+   * so a webhook for a provider that isn't loaded (e.g. after a restart) is still understood.
    */
-  parseInboundMessage(body: Record<string, string>): InboundMessage | null {
-    if (!this.currentProvider) return null;
-    return this.currentProvider.parseInboundMessage(body);
+  parseInboundMessage(body: Record<string, string>, provider?: SMSProviderType): InboundMessage | null {
+    const loaded = this.getProviderFor(provider);
+    if (provider && loaded?.providerType !== provider) {
+      return createProvider(provider).parseInboundMessage(body);
+    }
+    return loaded?.parseInboundMessage(body) ?? null;
   }
 
   /**
-   * Parse delivery status using the current provider
+   * Parse delivery status - with the given provider if it's loaded as the secondary, else the current one
    */
-  parseDeliveryStatus(body: Record<string, string>): DeliveryStatusUpdate | null {
-    if (!this.currentProvider) return null;
-    return this.currentProvider.parseDeliveryStatus(body);
+  parseDeliveryStatus(body: Record<string, string>, provider?: SMSProviderType): DeliveryStatusUpdate | null {
+    return this.getProviderFor(provider)?.parseDeliveryStatus(body) ?? null;
   }
 
   /**
-   * Generate webhook response using the current provider
+   * Generate webhook response with the given provider - like parsing, this needs no credentials
    */
-  generateResponse(message?: string): string {
-    if (!this.currentProvider) return "";
-    return this.currentProvider.generateResponse(message);
+  generateResponse(message?: string, provider?: SMSProviderType): string {
+    const loaded = this.getProviderFor(provider);
+    if (provider && loaded?.providerType !== provider) {
+      return createProvider(provider).generateResponse(message);
+    }
+    return loaded?.generateResponse(message) ?? "";
   }
 
   /**
-   * Check if error is recoverable using the current provider
+   * Check if error is recoverable, using the provider that reported it when known
    */
-  isRecoverableError(errorCode: string | number): boolean {
-    if (!this.currentProvider) return false;
-    return this.currentProvider.isRecoverableError(errorCode);
+  isRecoverableError(errorCode: string | number, provider?: SMSProviderType): boolean {
+    return this.getProviderFor(provider)?.isRecoverableError(errorCode) ?? false;
   }
 
   /**
@@ -218,11 +517,16 @@ class SMSProviderFactory {
     // Then try async initialization if supported
     const provider = this.currentProvider as any;
     if (typeof provider.initializeAsync === 'function') {
-      return provider.initializeAsync(config);
+      const authenticated = await provider.initializeAsync(config);
+      if (!authenticated) {
+        // Send straight to the secondary until the primary authenticates again
+        this.recordAuthFailure(config.provider);
+      }
+      return authenticated;
     }
     
     // Fallback: just return if initialized
-    return this.isInitialized();
+    return provider.isInitialized();
   }
 
   /**
@@ -235,6 +539,8 @@ class SMSProviderFactory {
     this.currentProvider = null;
     this.currentProviderType = null;
     this.config = null;
+    this.clearSecondary();
+    this.outcomes.clear();
   }
 }
 
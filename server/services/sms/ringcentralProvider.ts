@@ -12,6 +12,8 @@ import type {
   SMSProviderType,
   SendSMSResult,
   InboundMessage,
+  OutboundMedia,
+  FetchedMedia,
   DeliveryStatusUpdate,
   DeliveryStatus,
   PhoneValidationResult,
@@ -41,6 +43,17 @@ const RINGCENTRAL_ERROR_CODES: Record<string, ErrorType> = {
   "MSG-402": "permanent", // Message sending failed
 };
 
+// Errors caused by the recipient rather than RingCentral - these don't count against provider health
+const RINGCENTRAL_RECIPIENT_ERROR_CODES = new Set([
+  "INVALID_PHONE",
+  "MSG-242",
+  "MSG-243",
+  "MSG-244",
+  "MSG-245",
+  "MSG-246",
+  "MSG-324",
+]);
+
 // Map RingCentral message status to common DeliveryStatus
 const STATUS_MAP: Record<string, DeliveryStatus> = {
   Queued: "queued",
@@ -239,6 +252,45 @@ export class RingCentralProvider implements ISMSProvider, ISubscriptionSMSProvid
     body: string,
     _statusCallback?: string // RingCentral uses subscription-based status updates
   ): Promise<SendSMSResult> {
+    return this.sendMessage(to, body);
+  }
+
+  /**
+   * Send an MMS - the files are uploaded with the message
+   */
+  async sendMMS(
+    to: string,
+    body: string,
+    media: OutboundMedia[],
+    _statusCallback?: string // RingCentral uses subscription-based status updates
+  ): Promise<SendSMSResult> {
+    return this.sendMessage(to, body, media);
+  }
+
+  /**
+   * Download inbound media - attachment URIs are platform API resources
+   */
+  async fetchMedia(url: string): Promise<FetchedMedia | null> {
+    if (!this.platform) return null;
+
+    const isAuth = await this.ensureAuthenticated();
+    if (!isAuth) return null;
+
+    try {
+      const response = await this.platform.get(url);
+      return {
+        contentType: response.headers.get("content-type") || "application/octet-stream",
+        data: Buffer.from(await response.arrayBuffer()),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Send through the SMS endpoint, or the MMS endpoint when there are files to attach
+   */
+  private async sendMessage(to: string, body: string, media?: OutboundMedia[]): Promise<SendSMSResult> {
     if (!this.platform || !this.config) {
       return {
         success: false,
@@ -279,13 +331,27 @@ export class RingCentralProvider implements ISMSProvider, ISubscriptionSMSProvid
     }
 
     try {
-      console.log(`RingCentral: Sending SMS from ${fromValidation.formatted} to ${toValidation.formatted}`);
-      
-      const response = await this.platform.post("/restapi/v1.0/account/~/extension/~/sms", {
+      const isMMS = !!media && media.length > 0;
+      console.log(`RingCentral: Sending ${isMMS ? "MMS" : "SMS"} from ${fromValidation.formatted} to ${toValidation.formatted}`);
+
+      const request = {
         from: { phoneNumber: fromValidation.formatted },
         to: [{ phoneNumber: toValidation.formatted }],
         text: body,
-      });
+      };
+
+      let response: Response;
+      if (isMMS) {
+        // Multipart: the JSON request first, then one part per file
+        const form = new FormData();
+        form.append("request", new Blob([JSON.stringify(request)], { type: "application/json" }), "request.json");
+        for (const file of media) {
+          form.append("attachment", new Blob([file.data], { type: file.contentType }), file.fileName);
+        }
+        response = await this.platform.post("/restapi/v1.0/account/~/extension/~/mms", form);
+      } else {
+        response = await this.platform.post("/restapi/v1.0/account/~/extension/~/sms", request);
+      }
 
       const data = (await response.json()) as RCMessageResponse;
 
@@ -380,16 +446,22 @@ export class RingCentralProvider implements ISMSProvider, ISubscriptionSMSProvid
    * Parse inbound message from webhook payload
    */
   parseInboundMessage(body: Record<string, string>): InboundMessage {
-    // RingCentral webhook payload structure is different
-    const payload = body.body ? JSON.parse(body.body as string) : body;
+    // RingCentral webhook payload structure is different - the event is wrapped in "body",
+    // already parsed by express.json() or still a JSON string
+    const wrapped = (body as Record<string, unknown>).body;
+    const payload = typeof wrapped === "string" ? JSON.parse(wrapped) : wrapped || body;
+    // The message text can also arrive as a "Text" attachment - only MMS attachments are media
+    const attachments = ((payload.attachments || []) as NonNullable<RCMessageResponse["attachments"]>)
+      .filter(a => a.type !== "Text");
 
     return {
-      messageId: payload.id || payload.uuid || "",
+      messageId: String(payload.id || payload.uuid || ""),
       from: payload.from?.phoneNumber || payload.from || "",
       to: payload.to?.[0]?.phoneNumber || payload.to || "",
       body: payload.subject || payload.text || "",
-      numMedia: payload.attachments?.length || 0,
-      mediaUrls: payload.attachments?.map((a: { uri: string }) => a.uri) || [],
+      numMedia: attachments.length,
+      mediaUrls: attachments.map(a => a.uri),
+      mediaContentTypes: attachments.map(a => a.contentType || ""),
       provider: this.providerType,
       rawPayload: body,
     };
@@ -431,6 +503,21 @@ export class RingCentralProvider implements ISMSProvider, ISubscriptionSMSProvid
     return type === "recoverable" || type === "rate_limit";
   }
 
+  /**
+   * Check if an error means our credentials were rejected - including an expired JWT (OAU-* codes)
+   */
+  isAuthError(errorCode: string | number): boolean {
+    const code = String(errorCode);
+    return code === "AUTH_FAILED" || code.startsWith("OAU-");
+  }
+
+  /**
+   * Check if an error is specific to the recipient
+   */
+  isRecipientError(errorCode: string | number): boolean {
+    return RINGCENTRAL_RECIPIENT_ERROR_CODES.has(String(errorCode));
+  }
+
   /**
    * Get message status by ID
    */
@@ -12,6 +12,8 @@ import type {
   SMSProviderType,
   SendSMSResult,
   InboundMessage,
+  OutboundMedia,
+  FetchedMedia,
   DeliveryStatusUpdate,
   DeliveryStatus,
   PhoneValidationResult,
@@ -40,6 +42,15 @@ const TWILIO_ERROR_CODES: Record<number, ErrorType> = {
   30008: "permanent", // Unknown error
 };
 
+// Errors meaning our account credentials were rejected
+const TWILIO_AUTH_ERROR_CODES = new Set([
+  20003, // Authentication failed
+  20005, // Account not active
+]);
+
+// Errors caused by the recipient rather than Twilio - these don't count against provider health
+const TWILIO_RECIPIENT_ERROR_CODES = new Set([21211, 21610, 21614, 30003, 30004, 30005, 30006]);
+
 // Map Twilio status to common DeliveryStatus
 const STATUS_MAP: Record<string, DeliveryStatus> = {
   queued: "queued",
@@ -129,6 +140,49 @@ export class TwilioProvider implements ISMSProvider {
     to: string,
     body: string,
     statusCallback?: string
+  ): Promise<SendSMSResult> {
+    return this.createMessage(to, body, statusCallback);
+  }
+
+  /**
+   * Send an MMS - Twilio downloads each attachment from its URL
+   */
+  async sendMMS(
+    to: string,
+    body: string,
+    media: OutboundMedia[],
+    statusCallback?: string
+  ): Promise<SendSMSResult> {
+    return this.createMessage(to, body, statusCallback, media.map(m => m.url));
+  }
+
+  /**
+   * Download inbound media - Twilio media URLs accept our account credentials
+   */
+  async fetchMedia(url: string): Promise<FetchedMedia | null> {
+    if (!this.config?.twilioAccountSid || !this.config.twilioAuthToken) return null;
+
+    try {
+      const credentials = Buffer.from(`${this.config.twilioAccountSid}:${this.config.twilioAuthToken}`).toString("base64");
+      const response = await fetch(url, { headers: { Authorization: `Basic ${credentials}` } });
+      if (!response.ok) return null;
+      return {
+        contentType: response.headers.get("content-type") || "application/octet-stream",
+        data: Buffer.from(await response.arrayBuffer()),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create a message through the Twilio API, with media when URLs are given
+   */
+  private async createMessage(
+    to: string,
+    body: string,
+    statusCallback?: string,
+    mediaUrls?: string[]
   ): Promise<SendSMSResult> {
     if (!this.client || !this.config) {
       return {
@@ -155,11 +209,16 @@ export class TwilioProvider implements ISMSProvider {
         from?: string;
         messagingServiceSid?: string;
         statusCallback?: string;
+        mediaUrl?: string[];
       } = {
         to: validation.formatted!,
         body,
       };
 
+      if (mediaUrls && mediaUrls.length > 0) {
+        messageOptions.mediaUrl = mediaUrls;
+      }
+
       // Use messaging service if configured, otherwise use from number
       if (this.config.twilioMessagingServiceSid) {
         messageOptions.messagingServiceSid = this.config.twilioMessagingServiceSid;
@@ -266,10 +325,12 @@ export class TwilioProvider implements ISMSProvider {
     // Extract media URLs if present
     if (message.numMedia > 0) {
       message.mediaUrls = [];
+      message.mediaContentTypes = [];
       for (let i = 0; i < message.numMedia; i++) {
         const mediaUrl = body[`MediaUrl${i}`];
         if (mediaUrl) {
           message.mediaUrls.push(mediaUrl);
+          message.mediaContentTypes.push(body[`MediaContentType${i}`] || "");
         }
       }
     }
@@ -319,6 +380,23 @@ export class TwilioProvider implements ISMSProvider {
     return type === "recoverable" || type === "rate_limit";
   }
 
+  /**
+   * Check if an error means our credentials were rejected
+   */
+  isAuthError(errorCode: string | number): boolean {
+    const code = typeof errorCode === "string" ? parseInt(errorCode) : errorCode;
+    return TWILIO_AUTH_ERROR_CODES.has(code);
+  }
+
+  /**
+   * Check if an error is specific to the recipient
+   */
+  isRecipientError(errorCode: string | number): boolean {
+    if (errorCode === "INVALID_PHONE") return true;
+    const code = typeof errorCode === "string" ? parseInt(errorCode) : errorCode;
+    return TWILIO_RECIPIENT_ERROR_CODES.has(code);
+  }
+
   /**
    * Get message by SID (for checking status)
    */
@@ -6,7 +6,7 @@
  */
 
 // Supported SMS provider types
-export type SMSProviderType = "twilio" | "ringcentral";
+export type SMSProviderType = "twilio" | "ringcentral" | "mock";
 
 // Provider configuration - contains credentials for all providers
 export interface SMSProviderConfig {
@@ -23,6 +23,9 @@ export interface SMSProviderConfig {
   ringcentralClientSecret?: string;
   ringcentralServerUrl?: string;
   ringcentralJwt?: string;
+
+  // Mock-specific configuration (development only)
+  mockFailureRate?: number; // Percentage of sends that fail with a recoverable error
 }
 
 // Result of sending an SMS
@@ -34,6 +37,8 @@ export interface SendSMSResult {
   errorCode?: string;
   errorMessage?: string;
   segments?: number;
+  provider?: SMSProviderType; // Provider that actually handled the send
+  failedOver?: boolean; // True when the secondary provider sent it instead of the primary
 }
 
 // Delivery status values (common across providers)
@@ -54,10 +59,25 @@ export interface InboundMessage {
   body: string;
   numMedia: number;
   mediaUrls?: string[];
+  mediaContentTypes?: string[]; // Same order as mediaUrls, when the provider reports them
   provider: SMSProviderType;
   rawPayload?: Record<string, unknown>;
 }
 
+// A file sent with an MMS
+export interface OutboundMedia {
+  url: string; // Publicly reachable copy - Twilio downloads media from here
+  contentType: string;
+  fileName: string;
+  data: Buffer; // File contents - RingCentral uploads them with the message
+}
+
+// Media downloaded from the provider for an inbound MMS
+export interface FetchedMedia {
+  contentType: string;
+  data: Buffer;
+}
+
 // Parsed delivery status from webhook
 export interface DeliveryStatusUpdate {
   messageId: string;
@@ -140,6 +160,22 @@ export interface ISMSProvider {
     initialDelayMs?: number
   ): Promise<SendSMSResult>;
 
+  /**
+   * Send an MMS - a message with pictures or other files attached.
+   * Providers that can't send MMS leave this out.
+   * @param to Recipient phone number
+   * @param body Message content (may be empty)
+   * @param media Files to attach
+   * @param statusCallback Optional webhook URL for delivery status updates
+   */
+  sendMMS?(to: string, body: string, media: OutboundMedia[], statusCallback?: string): Promise<SendSMSResult>;
+
+  /**
+   * Download media attached to an inbound MMS - provider media URLs usually need our credentials
+   * @returns The file, or null if it couldn't be downloaded
+   */
+  fetchMedia?(url: string): Promise<FetchedMedia | null>;
+
   /**
    * Validate webhook signature/authenticity
    * @param signature Signature header from webhook request
@@ -173,6 +209,17 @@ export interface ISMSProvider {
    */
   isRecoverableError(errorCode: string | number): boolean;
 
+  /**
+   * Check if an error code means the provider rejected our credentials
+   */
+  isAuthError(errorCode: string | number): boolean;
+
+  /**
+   * Check if an error code is specific to the recipient (bad number, opted out)
+   * rather than a problem with the provider - these don't count against provider health
+   */
+  isRecipientError(errorCode: string | number): boolean;
+
   /**
    * Get message status by provider message ID
    */
@@ -184,6 +231,32 @@ export interface ISMSProvider {
   dispose?(): Promise<void>;
 }
 
+// Which slot a provider fills when failover is configured
+export type SMSProviderRole = "primary" | "secondary";
+
+// Recent send health of one provider, used to decide when to fail over
+export interface ProviderHealth {
+  provider: SMSProviderType;
+  role: SMSProviderRole;
+  initialized: boolean;
+  healthy: boolean;
+  recentAttempts: number;
+  recentFailures: number;
+  failureRate: number; // Percentage of recent attempts that failed (0-100)
+  lastError: string | null;
+  lastAuthErrorAt: Date | null;
+  lastSuccessAt: Date | null;
+}
+
+// Failover state reported on the SMS status endpoint
+export interface FailoverStatus {
+  enabled: boolean; // A secondary provider is configured
+  activeProvider: SMSProviderType | null; // Where the next message will be sent
+  failedOver: boolean; // The secondary is currently taking traffic
+  lastFailoverAt: Date | null;
+  providers: ProviderHealth[];
+}
+
 /**
  * SMS Provider Events
  * Used for subscription-based providers like RingCentral
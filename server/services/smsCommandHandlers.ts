@@ -0,0 +1,990 @@
+import { storage } from "../storage";
+import { logAuditEvent } from "../audit";
+import type { Employee, Shift, ShiftSwap } from "@shared/schema";
+import { getLocalToday } from "@shared/recurrence";
+import { broadcastShiftUpdate } from "../websocket";
+import { evaluateAssignmentRules, describeViolations, findOverlappingShift, describeConflict } from "./assignmentRules";
+import { findMissingCertifications, describeMissingCertifications } from "./certifications";
+import { parseTimeOffDates, getAssignedShiftsDuring, describeTimeOff } from "./timeOff";
+import { getActiveSwap, getSwapCoworkers, acceptSwap } from "./shiftSwaps";
+import { partitionByAvailability } from "./employeeAvailability";
+import { notifySwapOffered, notifySwapDecision } from "./smsNotifications";
+import { parseInboundCommand, type ParsedCommand } from "./smsCommands";
+import { getConversation, startConversation, endConversation, parseListSelection } from "./smsConversations";
+import { recordSmsConsent } from "./smsConsent";
+import type { InboundCommand } from "./smsInbound";
+
+// Offers older than this aren't matched by a date or "both"
+const RECENT_OFFER_DAYS = 7;
+
+// A reply matching more shifts than this gets a question back instead
+const MAX_SHIFTS_PER_REPLY = 5;
+
+/**
+ * Format date for SMS display
+ */
+function formatDateForSms(dateStr: string): string {
+  const date = new Date(dateStr + 'T00:00:00');
+  const options: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric' };
+  return date.toLocaleDateString('en-US', options);
+}
+
+/**
+ * Short description of a shift for SMS lists, e.g. "Sat, Nov 15 07:00-15:00"
+ */
+function describeShiftForSms(shift: Shift): string {
+  return `${formatDateForSms(shift.date)} ${shift.startTime}-${shift.endTime}`;
+}
+
+// What happened to one shift in a YES reply - the full message when it was the only shift,
+// the summary when it's one line of a reply covering several
+interface InterestResult {
+  message: string;
+  summary: string;
+}
+
+/**
+ * Open shifts in the employee's areas matching their position, soonest first
+ */
+async function getOpenShiftsFor(employee: Employee): Promise<Shift[]> {
+  const shifts = await storage.getShifts();
+  const employeeAreas = await storage.getEmployeeAreas(employee.id);
+  const employeeAreaIds = employeeAreas.map(area => area.id);
+
+  return shifts
+    .filter(s =>
+      s.status === 'available' &&
+      (employeeAreaIds.includes(s.areaId) || employeeAreaIds.length === 0) &&
+      s.positionId === employee.positionId
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+}
+
+/**
+ * Shifts texted to the employee in the last few days that can still be taken, newest offer first
+ */
+async function getRecentOffers(employee: Employee): Promise<Shift[]> {
+  const since = Date.now() - RECENT_OFFER_DAYS * 24 * 60 * 60 * 1000;
+  const shiftIds = (await storage.getEmployeeMessages(employee.id))
+    .filter(m =>
+      (m.messageType === 'shift_notification' || m.messageType === 'swap_offer') &&
+      m.relatedShiftId &&
+      !['queued', 'cancelled', 'failed'].includes(m.status) &&
+      new Date(m.createdAt).getTime() >= since
+    )
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .map(m => m.relatedShiftId!);
+
+  const offers: Shift[] = [];
+  for (const shiftId of Array.from(new Set(shiftIds))) {
+    const shift = await storage.getShift(shiftId);
+    if (!shift) continue;
+    if (shift.status === 'available' || (shift.status === 'claimed' && (await getActiveSwap(shift.id))?.status === 'open')) {
+      offers.push(shift);
+    }
+  }
+  return offers;
+}
+
+/**
+ * Question sent back when a reply could mean more than one shift.
+ * The options are numbered and remembered so the employee can answer with just the number.
+ */
+async function askWhichShift(employee: Employee, intro: string, shifts: Shift[], keyword: "YES" | "NO"): Promise<string> {
+  const options = shifts.slice(0, MAX_SHIFTS_PER_REPLY);
+  let message = `${intro} Which one(s) did you mean?\n\n`;
+  options.forEach((shift, index) => {
+    message += `${index + 1}) ${describeShiftForSms(shift)} at ${shift.location}\nCode: ${shift.smsCode || 'N/A'}\n\n`;
+  });
+  message += `Reply with the number(s), e.g. ${options.length > 1 ? "1 2" : "1"}.`;
+
+  await startConversation(employee.id, { flow: "shift_pick", keyword, shiftIds: options.map(s => s.id) });
+  return message;
+}
+
+/**
+ * Work out which shifts a reply refers to from its codes, dates and "both"/"all".
+ * Returns a reply instead when the message is ambiguous or a date matches nothing.
+ */
+async function resolveShiftReferences(
+  employee: Employee,
+  command: ParsedCommand,
+  keyword: "YES" | "NO"
+): Promise<{ shifts: Shift[]; unknownCodes: string[]; reply?: string }> {
+  const shifts: Shift[] = [];
+  const unknownCodes: string[] = [];
+  const add = (shift: Shift) => {
+    if (!shifts.some(s => s.id === shift.id)) shifts.push(shift);
+  };
+
+  for (const code of command.shiftCodes) {
+    const shift = await storage.getShiftBySmsCode(code);
+    if (shift) {
+      add(shift);
+    } else {
+      unknownCodes.push(code);
+    }
+  }
+
+  const offers = command.dates.length > 0 || command.quantity ? await getRecentOffers(employee) : [];
+
+  for (const date of command.dates) {
+    // Prefer shifts we texted them about, then any open shift they could take that day
+    let matches = offers.filter(s => s.date === date);
+    if (matches.length === 0) {
+      matches = (await getOpenShiftsFor(employee)).filter(s => s.date === date);
+    }
+
+    if (matches.length === 0) {
+      return {
+        shifts,
+        unknownCodes,
+        reply: `We couldn't find an open shift on ${formatDateForSms(date)} for you. Reply SHIFTS to see available shifts.`,
+      };
+    }
+    if (matches.length > 1) {
+      return {
+        shifts,
+        unknownCodes,
+        reply: await askWhichShift(employee, `There are ${matches.length} open shifts on ${formatDateForSms(date)}.`, matches, keyword),
+      };
+    }
+    add(matches[0]);
+  }
+
+  if (command.quantity) {
+    if (offers.length === 0) {
+      return {
+        shifts,
+        unknownCodes,
+        reply: "We couldn't find any open shifts we've texted you about recently. Reply SHIFTS to see available shifts.",
+      };
+    }
+    const expected = command.quantity === 'both' ? 2 : offers.length;
+    if (offers.length !== expected || offers.length > MAX_SHIFTS_PER_REPLY) {
+      return {
+        shifts,
+        unknownCodes,
+        reply: await askWhichShift(employee, `We've texted you about ${offers.length} open shift(s) recently.`, offers, keyword),
+      };
+    }
+    offers.forEach(add);
+  }
+
+  return { shifts, unknownCodes };
+}
+
+/**
+ * Express interest in one shift - or accept it, if it's a coworker's open swap
+ */
+async function expressInterest(
+  employee: Employee,
+  shift: Shift,
+  ipAddress?: string,
+  webhookBaseUrl?: string
+): Promise<InterestResult> {
+  // A claimed shift can still be taken if its assignee offered it as a swap
+  if (shift.status === 'claimed') {
+    const swap = await getActiveSwap(shift.id);
+    if (swap?.status === 'open') {
+      return handleSwapAccept(employee, swap, ipAddress, webhookBaseUrl);
+    }
+  }
+
+  if (shift.status !== 'available') {
+    return {
+      message: `That shift has already been ${shift.status}. Reply SHIFTS to see other available shifts.`,
+      summary: `already ${shift.status}`,
+    };
+  }
+
+  // Check if already interested
+  const existingInterest = await storage.getShiftInterestByEmployeeAndShift(employee.id, shift.id);
+  if (existingInterest) {
+    return {
+      message: "You've already expressed interest in this shift. A supervisor will review your request soon.",
+      summary: "already requested",
+    };
+  }
+
+  // Check for double booking
+  const conflict = await findOverlappingShift(employee.id, shift);
+  if (conflict) {
+    return {
+      message: `You're already scheduled for ${describeConflict(conflict)}, which overlaps this shift. Reply SHIFTS to see other available shifts.`,
+      summary: "overlaps a shift you're scheduled for",
+    };
+  }
+
+  // Required certifications must be current on the shift date
+  const missingCertifications = await findMissingCertifications(employee.id, shift);
+  if (missingCertifications.length > 0) {
+    const required = describeMissingCertifications(missingCertifications);
+    return {
+      message: `This shift requires a current ${required}. Please contact your supervisor to update your certifications.`,
+      summary: `requires a current ${required}`,
+    };
+  }
+
+  // Create interest record
+  await storage.createShiftInterest({
+    shiftId: shift.id,
+    employeeId: employee.id,
+  });
+  broadcastShiftUpdate(shift, "interest_added", employee.id);
+
+  // Log audit event
+  await logAuditEvent({
+    action: "shift_interest_via_sms",
+    actor: null,
+    targetType: "shift",
+    targetId: shift.id,
+    targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+    details: { employeeId: employee.id, employeeName: employee.name, method: "sms" },
+    ipAddress: ipAddress,
+  });
+
+  const area = await storage.getArea(shift.areaId);
+  const dateFormatted = formatDateForSms(shift.date);
+  return {
+    message: `Got it! You've expressed interest in the shift on ${dateFormatted} (${shift.startTime}-${shift.endTime}) at ${shift.location}${area ? ` (${area.name})` : ''}.\n\nYou'll be notified when assigned. Reply STATUS to see your requests.`,
+    summary: "interest recorded",
+  };
+}
+
+/**
+ * Handle YES command - express interest in one or more shifts.
+ * Shifts can be named by code ("YES ABC123 XYZ789"), by date ("I can do the 15th"),
+ * or as "both"/"all" of the recent offers. A bare YES answers the most recent offer.
+ */
+async function handleInterestYes(
+  employee: Employee,
+  command: ParsedCommand,
+  ipAddress?: string,
+  webhookBaseUrl?: string
+): Promise<string> {
+  console.log(`handleInterestYes called - employee: ${employee.name}, codes: ${command.shiftCodes.join(",") || 'none'}, dates: ${command.dates.join(",") || 'none'}`);
+
+  if (command.shiftCodes.length === 0 && command.dates.length === 0 && !command.quantity) {
+    // Find most recent shift notification sent to this employee
+    const recentMessages = await storage.getEmployeeMessages(employee.id);
+    const lastNotification = recentMessages
+      .filter(m => (m.messageType === 'shift_notification' || m.messageType === 'swap_offer') && m.relatedShiftId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+
+    const shift = lastNotification?.relatedShiftId ? await storage.getShift(lastNotification.relatedShiftId) : undefined;
+    if (!shift) {
+      return "Sorry, we couldn't find a shift to match your reply. Reply SHIFTS to see available shifts.";
+    }
+    return (await expressInterest(employee, shift, ipAddress, webhookBaseUrl)).message;
+  }
+
+  const { shifts, unknownCodes, reply } = await resolveShiftReferences(employee, command, "YES");
+  if (reply) return reply;
+
+  // Letters-only "codes" that match nothing are probably just words - only mention them if nothing else matched
+  const missingCodes = shifts.length === 0 ? unknownCodes : unknownCodes.filter(code => /\d/.test(code));
+
+  if (shifts.length === 0) {
+    return missingCodes.length > 0
+      ? `Sorry, we couldn't find a shift with code ${missingCodes.join(" or ")}. Reply SHIFTS to see available shifts.`
+      : "Sorry, we couldn't find a shift to match your reply. Reply SHIFTS to see available shifts.";
+  }
+  if (shifts.length > MAX_SHIFTS_PER_REPLY) {
+    return askWhichShift(employee, `Your reply matches ${shifts.length} shifts.`, shifts, "YES");
+  }
+  return expressInterestInShifts(employee, shifts, missingCodes, ipAddress, webhookBaseUrl);
+}
+
+/**
+ * Express interest in each shift, replying with one line per shift when there's more than one
+ */
+async function expressInterestInShifts(
+  employee: Employee,
+  shifts: Shift[],
+  missingCodes: string[],
+  ipAddress?: string,
+  webhookBaseUrl?: string
+): Promise<string> {
+  if (shifts.length === 1 && missingCodes.length === 0) {
+    return (await expressInterest(employee, shifts[0], ipAddress, webhookBaseUrl)).message;
+  }
+
+  let response = "[ShiftConnect] Got your reply:\n";
+  for (const shift of shifts) {
+    const result = await expressInterest(employee, shift, ipAddress, webhookBaseUrl);
+    response += `- ${describeShiftForSms(shift)}: ${result.summary}\n`;
+  }
+  for (const code of missingCodes) {
+    response += `- ${code}: no shift with that code\n`;
+  }
+  response += "\nYou'll be notified when assigned. Reply STATUS to see your requests.";
+  return response;
+}
+
+/**
+ * Handle NO command - decline interest in a shift.
+ * Accepts the same codes and dates as YES; a bare NO answers the most recent offer.
+ */
+async function handleInterestNo(
+  employee: Employee,
+  command: ParsedCommand,
+  ipAddress?: string
+): Promise<string> {
+  let declined: Shift[] = [];
+
+  if (command.shiftCodes.length > 0 || command.dates.length > 0 || command.quantity) {
+    const { shifts, reply } = await resolveShiftReferences(employee, command, "NO");
+    if (reply) return reply;
+    declined = shifts;
+  } else {
+    // Find most recent shift notification sent to this employee
+    const recentMessages = await storage.getEmployeeMessages(employee.id);
+    const lastNotification = recentMessages
+      .filter(m => m.messageType === 'shift_notification' && m.relatedShiftId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+
+    const shift = lastNotification?.relatedShiftId ? await storage.getShift(lastNotification.relatedShiftId) : undefined;
+    if (shift) declined = [shift];
+  }
+
+  return declineShifts(employee, declined, ipAddress);
+}
+
+/**
+ * Record that the employee turned these shifts down
+ */
+async function declineShifts(employee: Employee, declined: Shift[], ipAddress?: string): Promise<string> {
+  for (const shift of declined) {
+    await logAuditEvent({
+      action: "shift_interest_declined_via_sms",
+      actor: null,
+      targetType: "shift",
+      targetId: shift.id,
+      targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+      details: { employeeId: employee.id, employeeName: employee.name, method: "sms" },
+      ipAddress: ipAddress,
+    });
+  }
+
+  return `No problem! We won't consider you for ${declined.length > 1 ? "those shifts" : "this shift"}. You'll still receive notifications for future shifts.`;
+}
+
+/**
+ * Handle STATUS command - show assigned shifts and pending interests
+ */
+async function handleStatus(employee: Employee): Promise<string> {
+  const shifts = await storage.getShifts(); // Already filtered to current/future
+  // Use local date for timezone-safe comparison
+  const today = getLocalToday();
+
+  // Get assigned shifts (only current/future)
+  const assignedShifts = shifts
+    .filter(s => s.assignedEmployeeId === employee.id && s.status === 'claimed' && s.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(0, 5);
+
+  // Get pending interests (only for current/future shifts)
+  const interests = await storage.getEmployeeShiftInterests(employee.id);
+  const pendingInterests = interests
+    .filter(i => i.shift && i.shift.status === 'available' && i.shift.date >= today)
+    .slice(0, 5);
+
+  let response = "[ShiftConnect] Your Status:\n\n";
+
+  if (assignedShifts.length > 0) {
+    response += "ASSIGNED SHIFTS:\n";
+    for (const shift of assignedShifts) {
+      const dateFormatted = formatDateForSms(shift.date);
+      response += `- ${dateFormatted} ${shift.startTime}-${shift.endTime} at ${shift.location}\n`;
+    }
+    response += "\n";
+  }
+
+  if (pendingInterests.length > 0) {
+    response += "PENDING INTERESTS:\n";
+    for (const interest of pendingInterests) {
+      const shift = interest.shift;
+      const dateFormatted = formatDateForSms(shift.date);
+      response += `- ${dateFormatted} ${shift.startTime}-${shift.endTime} at ${shift.location}\n`;
+    }
+  }
+
+  if (assignedShifts.length === 0 && pendingInterests.length === 0) {
+    response += "No upcoming shifts or pending interests.\n\nReply SHIFTS to see available shifts.";
+  }
+
+  return response;
+}
+
+/**
+ * Handle SHIFTS command - show available shifts for employee's areas
+ */
+async function handleShifts(employee: Employee): Promise<string> {
+  const availableShifts = (await getOpenShiftsFor(employee)).slice(0, 5);
+
+  if (availableShifts.length === 0) {
+    return "[ShiftConnect] No available shifts matching your position right now.\n\nYou'll be notified when new shifts are posted.";
+  }
+
+  let response = "[ShiftConnect] Available Shifts:\n\n";
+
+  for (let index = 0; index < availableShifts.length; index++) {
+    const shift = availableShifts[index];
+    const dateFormatted = formatDateForSms(shift.date);
+    const area = await storage.getArea(shift.areaId);
+    response += `${index + 1}) ${dateFormatted} ${shift.startTime}-${shift.endTime}\n`;
+    response += `  ${shift.location}${area ? ` (${area.name})` : ''}\n`;
+    response += `  Code: ${shift.smsCode || 'N/A'}\n\n`;
+  }
+
+  // Remember the list so "2" or "1 3" picks from it
+  await startConversation(employee.id, { flow: "shift_pick", keyword: "YES", shiftIds: availableShifts.map(s => s.id) });
+
+  response += "Reply with the number(s) of the shifts you want, or YES <code>.";
+  return response;
+}
+
+/**
+ * Handle CONFIRM command - acknowledge shift assignment
+ */
+async function handleConfirm(employee: Employee, ipAddress?: string): Promise<string> {
+  const shifts = await storage.getShifts();
+
+  // Find recently assigned shifts for this employee
+  const assignedShifts = shifts
+    .filter(s => s.assignedEmployeeId === employee.id && s.status === 'claimed')
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  if (assignedShifts.length === 0) {
+    return "You don't have any pending shift assignments to confirm. Reply STATUS to see your shifts.";
+  }
+
+  const shift = assignedShifts[0];
+  const dateFormatted = formatDateForSms(shift.date);
+
+  // Re-check overtime and rest rules against the employee's current schedule
+  const ruleCheck = await evaluateAssignmentRules(employee.id, shift);
+  const ruleViolations = ruleCheck.violations.map(v => ({ rule: v.rule, mode: v.mode, message: v.message }));
+  // A certification may have lapsed since the shift was assigned
+  const missingCertifications = await findMissingCertifications(employee.id, shift);
+
+  if (ruleCheck.blocked || missingCertifications.length > 0) {
+    await logAuditEvent({
+      action: "shift_confirmation_blocked",
+      actor: null,
+      targetType: "shift",
+      targetId: shift.id,
+      targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+      details: {
+        employeeId: employee.id,
+        employeeName: employee.name,
+        ruleViolations,
+        ...(missingCertifications.length > 0 && { missingCertifications: missingCertifications.map(c => c.name) }),
+      },
+      ipAddress: ipAddress,
+    });
+
+    const reason = missingCertifications.length > 0
+      ? `your ${describeMissingCertifications(missingCertifications)} isn't current for that date`
+      : describeViolations(ruleCheck.violations);
+    return `We couldn't confirm your shift on ${dateFormatted} (${shift.startTime}-${shift.endTime}): ${reason}.\n\nA supervisor will follow up with you.`;
+  }
+
+  await logAuditEvent({
+    action: "shift_confirmed_via_sms",
+    actor: null,
+    targetType: "shift",
+    targetId: shift.id,
+    targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+    details: {
+      employeeId: employee.id,
+      employeeName: employee.name,
+      ...(ruleViolations.length > 0 && { ruleViolations }),
+    },
+    ipAddress: ipAddress,
+  });
+
+  const warning = ruleCheck.violations.length > 0
+    ? `\n\nHeads up: ${describeViolations(ruleCheck.violations)}.`
+    : "";
+  return `Thanks for confirming! Your shift on ${dateFormatted} (${shift.startTime}-${shift.endTime}) at ${shift.location} is confirmed.${warning}\n\nPlease arrive 10 minutes early.`;
+}
+
+/**
+ * Shifts the employee has expressed interest in that are still open, newest interest first
+ */
+async function getPendingInterestShifts(employee: Employee): Promise<Shift[]> {
+  // Use local date for timezone-safe comparison
+  const today = getLocalToday();
+  const interests = await storage.getEmployeeShiftInterests(employee.id);
+  return interests
+    .filter(i => i.shift && i.shift.status === 'available' && i.shift.date >= today)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .map(i => i.shift);
+}
+
+/**
+ * Handle WITHDRAW command - withdraw interest in a shift
+ * WITHDRAW (no code) = numbered list of shifts with pending interest
+ * WITHDRAW [code] = ask to confirm withdrawing from that shift
+ */
+async function handleWithdraw(employee: Employee, shiftCode?: string): Promise<string> {
+  const pendingShifts = await getPendingInterestShifts(employee);
+
+  if (pendingShifts.length === 0) {
+    return "You don't have any pending shift interests to withdraw. Reply STATUS to check your current status.";
+  }
+
+  // If no shift code provided, list all shifts with pending interest
+  if (!shiftCode) {
+    let message = "[ShiftConnect] Your pending interests:\n\n";
+    pendingShifts.forEach((shift, index) => {
+      message += `${index + 1}) ${formatDateForSms(shift.date)} ${shift.startTime}-${shift.endTime}\n`;
+      message += `Code: ${shift.smsCode || 'N/A'}\n\n`;
+    });
+    message += "Reply with the number of the shift to withdraw from, or WITHDRAW [code].";
+
+    await startConversation(employee.id, { flow: "withdraw_pick", shiftIds: pendingShifts.map(s => s.id) });
+    return message;
+  }
+
+  // Find the shift by SMS code
+  const shift = pendingShifts.find(s => s.smsCode === shiftCode);
+  if (!shift) {
+    return `No pending interest found for shift code ${shiftCode}. Reply WITHDRAW to see your pending interests.`;
+  }
+
+  return askToConfirmWithdraw(employee, shift);
+}
+
+/**
+ * Ask the employee to confirm before withdrawing - a stray reply shouldn't drop them from a shift
+ */
+async function askToConfirmWithdraw(employee: Employee, shift: Shift): Promise<string> {
+  await startConversation(employee.id, { flow: "withdraw_confirm", shiftId: shift.id });
+  return `Withdraw your interest in the shift on ${formatDateForSms(shift.date)} (${shift.startTime}-${shift.endTime}) at ${shift.location}?\n\nReply YES to withdraw or NO to keep it.`;
+}
+
+/**
+ * Withdraw the employee's interest in a shift once they've confirmed
+ */
+async function withdrawInterest(employee: Employee, shiftId: string, ipAddress?: string): Promise<string> {
+  const shift = await storage.getShift(shiftId);
+  const interest = shift ? await storage.getShiftInterestByEmployeeAndShift(employee.id, shift.id) : undefined;
+  if (!shift || !interest || shift.status !== 'available') {
+    return "That interest is no longer pending, so there's nothing to withdraw. Reply STATUS to check your current status.";
+  }
+
+  // Delete the interest
+  await storage.deleteShiftInterest(shift.id, employee.id);
+  const dateFormatted = formatDateForSms(shift.date);
+
+  // Broadcast real-time update
+  broadcastShiftUpdate(shift, "interest_removed", employee.id);
+
+  await logAuditEvent({
+    action: "shift_interest_withdrawn_via_sms",
+    actor: null,
+    targetType: "shift",
+    targetId: shift.id,
+    targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+    details: { employeeId: employee.id, employeeName: employee.name, shiftCode: shift.smsCode },
+    ipAddress: ipAddress,
+  });
+
+  return `Your interest in the shift on ${dateFormatted} (${shift.startTime}-${shift.endTime}) has been withdrawn.`;
+}
+
+/**
+ * Handle OFF command - request time off
+ * OFF 2026-11-03 = single day
+ * OFF 2026-11-03 2026-11-05 (or "to", or M/D dates) = date range
+ */
+async function handleTimeOff(employee: Employee, message: string, ipAddress?: string): Promise<string> {
+  const today = getLocalToday();
+  const dates = parseTimeOffDates(message, today);
+
+  if (!dates) {
+    return "To request time off, reply OFF followed by the date, e.g. OFF 2026-11-03 or OFF 11/3 - 11/5.";
+  }
+  if (dates.startDate < today) {
+    return "Time off can only be requested for today or later. Please check the date and try again.";
+  }
+
+  const request = await storage.createTimeOffRequest({
+    employeeId: employee.id,
+    startDate: dates.startDate,
+    endDate: dates.endDate,
+    status: "pending",
+    source: "sms",
+  });
+
+  await logAuditEvent({
+    action: "time_off_requested",
+    actor: null,
+    targetType: "time_off",
+    targetId: request.id,
+    targetName: `${employee.name}: ${describeTimeOff(request)}`,
+    details: { employeeId: employee.id, startDate: request.startDate, endDate: request.endDate, source: "sms" },
+    ipAddress: ipAddress,
+  });
+
+  const assignedShifts = await getAssignedShiftsDuring(employee.id, request);
+  const shiftNote = assignedShifts.length > 0
+    ? `\n\nNote: you're still assigned to ${assignedShifts.length} shift(s) during this time. Your supervisor will follow up.`
+    : "";
+  return `Got it! Your time-off request for ${describeTimeOff(request)} has been sent to your supervisor. You'll get a text once it's reviewed.${shiftNote}`;
+}
+
+/**
+ * Accept a coworker's swap offer by replying YES to it
+ */
+async function handleSwapAccept(
+  employee: Employee,
+  swap: ShiftSwap,
+  ipAddress?: string,
+  webhookBaseUrl?: string
+): Promise<InterestResult> {
+  const result = await acceptSwap(swap, employee, webhookBaseUrl);
+  if (!result.success) {
+    const reason = `${result.error.charAt(0).toLowerCase()}${result.error.slice(1)}`;
+    return {
+      message: `Sorry, ${reason}. Reply SHIFTS to see available shifts.`,
+      summary: `couldn't take the swap - ${reason}`,
+    };
+  }
+
+  const { shift } = result;
+  await logAuditEvent({
+    action: "shift_swap_accepted",
+    actor: null,
+    targetType: "shift",
+    targetId: shift.id,
+    targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+    details: { swapId: swap.id, offeredById: swap.offeredById, acceptedById: employee.id, acceptedByName: employee.name, method: "sms" },
+    ipAddress: ipAddress,
+  });
+
+  const dateFormatted = formatDateForSms(shift.date);
+  if (!result.completed) {
+    return {
+      message: `Got it! You've accepted the shift on ${dateFormatted} (${shift.startTime}-${shift.endTime}) at ${shift.location}. A supervisor will approve the swap and you'll get a text once it's final.`,
+      summary: "swap accepted, waiting for supervisor approval",
+    };
+  }
+
+  await logAuditEvent({
+    action: "shift_swap_approved",
+    actor: null,
+    targetType: "shift",
+    targetId: shift.id,
+    targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+    details: { swapId: swap.id, offeredById: swap.offeredById, acceptedById: employee.id, autoApproved: true },
+    ipAddress: ipAddress,
+  });
+
+  // Only the employee giving the shift away needs a separate text
+  const offeredBy = await storage.getEmployee(swap.offeredById);
+  if (offeredBy) {
+    notifySwapDecision(shift, result.swap, offeredBy, webhookBaseUrl).catch(err => {
+      console.error("Error sending swap decision:", err);
+    });
+  }
+
+  return {
+    message: `You're all set! You're now scheduled for the shift on ${dateFormatted} (${shift.startTime}-${shift.endTime}) at ${shift.location}.`,
+    summary: "swap accepted - you're scheduled",
+  };
+}
+
+/**
+ * Handle SWAP command - offer an assigned shift to coworkers
+ * SWAP (no code) = list upcoming assigned shifts
+ * SWAP [code] = offer that shift to eligible coworkers
+ */
+async function handleSwap(
+  employee: Employee,
+  shiftCode?: string,
+  ipAddress?: string,
+  webhookBaseUrl?: string
+): Promise<string> {
+  const today = getLocalToday();
+  const assignedShifts = (await storage.getShiftsByAssignedEmployee(employee.id))
+    .filter(s => s.status === 'claimed' && s.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+
+  if (assignedShifts.length === 0) {
+    return "You don't have any upcoming shifts to swap. Reply STATUS to see your shifts.";
+  }
+
+  if (!shiftCode) {
+    let message = "[ShiftConnect] Your upcoming shifts:\n\n";
+    for (const shift of assignedShifts.slice(0, 5)) {
+      const dateFormatted = formatDateForSms(shift.date);
+      message += `${dateFormatted} ${shift.startTime}-${shift.endTime}\n`;
+      message += `Code: ${shift.smsCode || 'N/A'}\n\n`;
+    }
+    message += "Reply SWAP [code] to offer a shift to your coworkers.";
+    return message;
+  }
+
+  const shift = assignedShifts.find(s => s.smsCode === shiftCode);
+  if (!shift) {
+    return `You're not scheduled for a shift with code ${shiftCode}. Reply SWAP to see your upcoming shifts.`;
+  }
+  if (await getActiveSwap(shift.id)) {
+    return "This shift already has a swap in progress. Your supervisor can help if you need to change it.";
+  }
+
+  const swap = await storage.createShiftSwap({
+    shiftId: shift.id,
+    offeredById: employee.id,
+    status: "open",
+  });
+
+  await logAuditEvent({
+    action: "shift_swap_requested",
+    actor: null,
+    targetType: "shift",
+    targetId: shift.id,
+    targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+    details: { swapId: swap.id, offeredById: employee.id, offeredByName: employee.name, method: "sms" },
+    ipAddress: ipAddress,
+  });
+
+  broadcastShiftUpdate(shift, "shift_updated", employee.id);
+
+  const { available } = await partitionByAvailability(shift, await getSwapCoworkers(shift, employee.id));
+  notifySwapOffered(shift, swap, employee, available, webhookBaseUrl).catch(err => {
+    console.error("Error sending swap offers:", err);
+  });
+
+  const dateFormatted = formatDateForSms(shift.date);
+  return `Got it! Your shift on ${dateFormatted} (${shift.startTime}-${shift.endTime}) has been offered to ${available.length} coworker(s). You're still scheduled until someone takes it${available.length > 0 ? " and the swap is final" : ""}.`;
+}
+
+/**
+ * Pick shifts from a numbered list by their 1-based numbers, or null if a number is out of range
+ */
+async function pickShifts(shiftIds: string[], selection: number[]): Promise<Shift[] | null> {
+  if (selection.some(n => n < 1 || n > shiftIds.length)) return null;
+  const shifts: Shift[] = [];
+  for (const n of selection) {
+    const shift = await storage.getShift(shiftIds[n - 1]);
+    if (shift) shifts.push(shift);
+  }
+  return shifts;
+}
+
+/**
+ * Record an employee's answer to a callout poll - 1/YES to cover the shift, 2/NO to pass
+ */
+async function answerCalloutPoll(
+  employee: Employee,
+  shiftId: string,
+  canCover: boolean,
+  ipAddress?: string,
+  webhookBaseUrl?: string
+): Promise<string> {
+  const shift = await storage.getShift(shiftId);
+  if (!shift) {
+    return "That shift is no longer available. Reply SHIFTS to see other available shifts.";
+  }
+
+  await logAuditEvent({
+    action: "callout_poll_answered",
+    actor: null,
+    targetType: "shift",
+    targetId: shift.id,
+    targetName: `${shift.date} ${shift.startTime}-${shift.endTime}`,
+    details: { employeeId: employee.id, employeeName: employee.name, canCover },
+    ipAddress: ipAddress,
+  });
+
+  if (!canCover) {
+    return "Thanks for letting us know! We won't count on you for this one.";
+  }
+  return (await expressInterest(employee, shift, ipAddress, webhookBaseUrl)).message;
+}
+
+/**
+ * Answer the question the employee was last asked (a numbered list, a withdrawal to confirm,
+ * a callout poll). Returns null when nothing is open or the reply doesn't answer it - the
+ * reply is then handled as a normal command and the open question is dropped.
+ */
+export async function handleConversationReply(
+  employee: Employee,
+  messageBody: string,
+  ipAddress?: string,
+  webhookBaseUrl?: string
+): Promise<string | null> {
+  const conversation = await getConversation(employee.id);
+  if (!conversation) return null;
+
+  const selection = parseListSelection(messageBody);
+  const command = parseInboundCommand(messageBody);
+  // A plain YES or NO, not pointing at some other shift
+  const isPlainAnswer = command.shiftCodes.length === 0 && command.dates.length === 0 && !command.quantity;
+
+  switch (conversation.flow) {
+    case "shift_pick": {
+      if (!selection) break;
+      const shifts = await pickShifts(conversation.shiftIds, selection);
+      if (!shifts) {
+        return `Please reply with a number from 1 to ${conversation.shiftIds.length}.`;
+      }
+      await endConversation(employee.id);
+      return conversation.keyword === "YES"
+        ? expressInterestInShifts(employee, shifts, [], ipAddress, webhookBaseUrl)
+        : declineShifts(employee, shifts, ipAddress);
+    }
+
+    case "withdraw_pick": {
+      if (!selection) break;
+      const shifts = await pickShifts(conversation.shiftIds, selection);
+      if (!shifts || shifts.length !== 1) {
+        return `Please reply with one number from 1 to ${conversation.shiftIds.length}.`;
+      }
+      return askToConfirmWithdraw(employee, shifts[0]);
+    }
+
+    case "withdraw_confirm": {
+      if (!isPlainAnswer) break;
+      if (command.type === "interest_yes") {
+        await endConversation(employee.id);
+        return withdrawInterest(employee, conversation.shiftId, ipAddress);
+      }
+      if (command.type === "interest_no") {
+        await endConversation(employee.id);
+        return "OK, your interest stays in. A supervisor will review your request soon.";
+      }
+      break;
+    }
+
+    case "callout_poll": {
+      // 1 = yes, 2 = no, or the words
+      const yes = (selection?.length === 1 && selection[0] === 1) || (isPlainAnswer && command.type === "interest_yes");
+      const no = (selection?.length === 1 && selection[0] === 2) || (isPlainAnswer && command.type === "interest_no");
+      if (!yes && !no) break;
+      await endConversation(employee.id);
+      return answerCalloutPoll(employee, conversation.shiftId, yes, ipAddress, webhookBaseUrl);
+    }
+  }
+
+  // Not an answer - treat it as a new command
+  await endConversation(employee.id);
+  return null;
+}
+
+/**
+ * Handle STOP command - opt out of SMS notifications, recorded in the consent ledger
+ */
+async function handleStop(employee: Employee, provider: string, keyword: string, messageId: string, ipAddress?: string): Promise<string> {
+  await storage.updateEmployee(employee.id, { smsOptIn: false });
+  await recordSmsConsent(employee, false, { source: "sms_keyword", keyword, provider, messageId, ipAddress });
+  await logAuditEvent({
+    action: "sms_opt_out",
+    actor: null,
+    targetType: "employee",
+    targetId: employee.id,
+    targetName: employee.name,
+    details: { method: "sms_reply", provider },
+    ipAddress,
+  });
+  return "You have been unsubscribed from SMS notifications. Reply START to re-subscribe.";
+}
+
+/**
+ * Handle START command - opt back in to SMS notifications, recorded in the consent ledger
+ */
+async function handleStart(employee: Employee, provider: string, keyword: string, messageId: string, ipAddress?: string): Promise<string> {
+  await storage.updateEmployee(employee.id, { smsOptIn: true });
+  await recordSmsConsent(employee, true, { source: "sms_keyword", keyword, provider, messageId, ipAddress });
+  await logAuditEvent({
+    action: "sms_opt_in",
+    actor: null,
+    targetType: "employee",
+    targetId: employee.id,
+    targetName: employee.name,
+    details: { method: "sms_reply", provider },
+    ipAddress,
+  });
+  return "You have been subscribed to SMS notifications. Reply STOP to unsubscribe.";
+}
+
+/**
+ * Handle HELP command - list every registered command
+ */
+function handleHelp(): string {
+  return "[ShiftConnect] Commands:\n" + inboundCommands.flatMap(c => c.help).join("\n");
+}
+
+// Every inbound SMS command, in the order HELP lists them.
+// A new command only needs an entry here (and a keyword in parseInboundCommand).
+export const inboundCommands: InboundCommand[] = [
+  {
+    type: "interest_yes",
+    help: [
+      "YES - Express interest in a shift",
+      "YES <code> - Interest in specific shift",
+      "YES <code> <code> - Interest in several shifts",
+      "YES <date> - Shift on that date, e.g. YES the 15th",
+    ],
+    handle: ({ employee, command, ipAddress, webhookBaseUrl }) =>
+      handleInterestYes(employee, command, ipAddress, webhookBaseUrl),
+  },
+  {
+    type: "interest_no",
+    help: ["NO - Decline a shift"],
+    handle: ({ employee, command, ipAddress }) => handleInterestNo(employee, command, ipAddress),
+  },
+  {
+    type: "confirm",
+    help: ["CONFIRM - Confirm assigned shift"],
+    handle: ({ employee, ipAddress }) => handleConfirm(employee, ipAddress),
+  },
+  {
+    type: "withdraw",
+    help: ["WITHDRAW - List shifts you're interested in", "WITHDRAW <code> - Withdraw interest in shift"],
+    handle: ({ employee, command }) => handleWithdraw(employee, command.shiftCode),
+  },
+  {
+    type: "time_off",
+    help: ["OFF <date> - Request time off (e.g. OFF 2026-11-03)"],
+    handle: ({ employee, command, ipAddress }) => handleTimeOff(employee, command.originalMessage, ipAddress),
+  },
+  {
+    type: "swap",
+    help: ["SWAP - Offer one of your shifts to coworkers"],
+    handle: ({ employee, command, ipAddress, webhookBaseUrl }) =>
+      handleSwap(employee, command.shiftCode, ipAddress, webhookBaseUrl),
+  },
+  {
+    type: "status",
+    help: ["STATUS - Your shifts & interests"],
+    handle: ({ employee }) => handleStatus(employee),
+  },
+  {
+    type: "shifts",
+    help: ["SHIFTS - View available shifts"],
+    handle: ({ employee }) => handleShifts(employee),
+  },
+  {
+    type: "stop",
+    help: ["STOP - Unsubscribe"],
+    handle: ({ employee, message, inbound, ipAddress }) =>
+      handleStop(employee, message.provider, message.body, inbound.id, ipAddress),
+  },
+  {
+    type: "start",
+    help: ["START - Subscribe"],
+    handle: ({ employee, message, inbound, ipAddress }) =>
+      handleStart(employee, message.provider, message.body, inbound.id, ipAddress),
+  },
+  {
+    type: "help",
+    help: [],
+    handle: async () => handleHelp(),
+  },
+];
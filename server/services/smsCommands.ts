@@ -0,0 +1,181 @@
+import { addDays, getLocalToday } from "@shared/recurrence";
+import { parseSmsDate } from "./timeOff";
+
+export type SmsCommandType =
+  | "interest_yes"
+  | "interest_no"
+  | "confirm"
+  | "withdraw"
+  | "status"
+  | "shifts"
+  | "help"
+  | "stop"
+  | "start"
+  | "time_off"
+  | "swap"
+  | "unknown";
+
+export interface ParsedCommand {
+  type: SmsCommandType;
+  shiftCode?: string; // First shift code in the message
+  shiftCodes: string[]; // Every shift code in the message, in order
+  dates: string[]; // Dates the message refers to (YYYY-MM-DD), e.g. "the 15th" or "friday"
+  quantity?: "both" | "all"; // "yes to both", "all of them" - the shifts recently offered
+  originalMessage: string;
+}
+
+// Replies meaning yes. Checked after the no patterns so "I can't" isn't read as "I can".
+const YES_PATTERN =
+  /^(YES|YEAH|YEA|YEP|YUP|YA|YAS|Y|SURE|OK|OKAY|K|ACCEPT|ABSOLUTELY|DEFINITELY|INTERESTED|CLAIM|COUNT ME IN|SIGN ME UP|PUT ME DOWN|I WANT IT|I'?LL TAKE|I CAN|I COULD|CAN DO)\b/;
+
+const NO_PATTERN =
+  /^(NO|N|NOPE|NAH|PASS|DECLINE|NOT INTERESTED|NOT AVAILABLE|UNAVAILABLE|UNABLE|CAN'?T|CANNOT|I CAN'?T|I CANNOT|I'?M BUSY)\b/;
+
+// Shift codes use this alphabet (no I, O, 0 or 1) - see generateSmsCode in storage
+const SHIFT_CODE_PATTERN = /^[A-HJ-NP-Z2-9]{6}$/;
+
+// Six-letter words that fit the code alphabet but show up in ordinary replies
+const NOT_SHIFT_CODES = new Set(["ACCEPT", "AGREED", "BEFORE", "CLAIMS", "PLEASE", "THANKS", "TRADES", "WANTED"]);
+
+const WEEKDAYS: Record<string, number> = {
+  SUN: 0, SUNDAY: 0,
+  MON: 1, MONDAY: 1,
+  TUE: 2, TUES: 2, TUESDAY: 2,
+  WED: 3, WEDNESDAY: 3,
+  THU: 4, THUR: 4, THURS: 4, THURSDAY: 4,
+  FRI: 5, FRIDAY: 5,
+  SAT: 6, SATURDAY: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  JAN: 1, JANUARY: 1, FEB: 2, FEBRUARY: 2, MAR: 3, MARCH: 3, APR: 4, APRIL: 4, MAY: 5,
+  JUN: 6, JUNE: 6, JUL: 7, JULY: 7, AUG: 8, AUGUST: 8, SEP: 9, SEPT: 9, SEPTEMBER: 9,
+  OCT: 10, OCTOBER: 10, NOV: 11, NOVEMBER: 11, DEC: 12, DECEMBER: 12,
+};
+
+const MONTH_NAMES = Object.keys(MONTHS).join("|");
+const WEEKDAY_NAMES = Object.keys(WEEKDAYS).join("|");
+
+/**
+ * Next date on or after today falling on the given day of the month, e.g. "the 15th"
+ */
+function nextDayOfMonth(day: number, today: string): string | null {
+  let year = Number(today.slice(0, 4));
+  let month = Number(today.slice(5, 7));
+  // Try this month and the next two - the 31st may skip a short month
+  for (let i = 0; i < 3; i++) {
+    const date = parseSmsDate(`${month}/${day}/${year}`, today);
+    if (date && date >= today) return date;
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return null;
+}
+
+/**
+ * Next date on or after today falling on the given weekday (0 = Sunday)
+ */
+function nextWeekday(weekday: number, today: string): string {
+  const current = new Date(`${today}T00:00:00Z`).getUTCDay();
+  return addDays(today, (weekday - current + 7) % 7);
+}
+
+/**
+ * Pull date references out of a normalized message. Matched text is blanked out
+ * so "Nov 15th" isn't also read as "the 15th".
+ */
+function extractDates(text: string, today: string): { dates: string[]; rest: string } {
+  const dates: string[] = [];
+  const add = (date: string | null) => {
+    if (date && !dates.includes(date)) dates.push(date);
+  };
+  let rest = text;
+  const take = (pattern: RegExp, resolve: (match: RegExpMatchArray) => string | null) => {
+    rest = rest.replace(pattern, (...args) => {
+      add(resolve(args.slice(0, -2) as unknown as RegExpMatchArray));
+      return " ";
+    });
+  };
+
+  take(/\b\d{4}-\d{1,2}-\d{1,2}\b|\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/g, m => parseSmsDate(m[0], today));
+  take(new RegExp(`\\b(${MONTH_NAMES})\\.? (\\d{1,2})(?:ST|ND|RD|TH)?\\b`, "g"), m =>
+    parseSmsDate(`${MONTHS[m[1]]}/${m[2]}`, today)
+  );
+  take(new RegExp(`\\b(\\d{1,2})(?:ST|ND|RD|TH)? (?:OF )?(${MONTH_NAMES})\\b`, "g"), m =>
+    parseSmsDate(`${MONTHS[m[2]]}/${m[1]}`, today)
+  );
+  take(/\b(?:THE )?(\d{1,2})(?:ST|ND|RD|TH)\b|\bTHE (\d{1,2})\b(?! SHIFTS?\b| OF\b)/g, m => nextDayOfMonth(Number(m[1] ?? m[2]), today));
+  take(/\b(TODAY|TONIGHT)\b/g, () => today);
+  take(/\bTOMORROW\b/g, () => addDays(today, 1));
+  take(new RegExp(`\\b(?:THIS |NEXT )?(${WEEKDAY_NAMES})\\b`, "g"), m => nextWeekday(WEEKDAYS[m[1]], today));
+
+  return { dates, rest: rest.replace(/\s+/g, " ").trim() };
+}
+
+/**
+ * Six-character shift codes in the message, skipping ordinary words that happen to fit
+ */
+function extractShiftCodes(text: string): string[] {
+  const codes: string[] = [];
+  for (const token of text.match(/\b[A-Z0-9]{6}\b/g) ?? []) {
+    const isCode = /\d/.test(token) || (SHIFT_CODE_PATTERN.test(token) && !NOT_SHIFT_CODES.has(token));
+    if (isCode && !codes.includes(token)) codes.push(token);
+  }
+  return codes;
+}
+
+/**
+ * Parse an inbound SMS into a command. Besides the keywords (YES, NO, CONFIRM...) this
+ * understands common synonyms ("yep", "I can do"), several shift codes in one reply,
+ * date references ("the 15th", "friday", "11/15") and "both"/"all of them".
+ * @param today YYYY-MM-DD that relative dates resolve against (defaults to today)
+ */
+export function parseInboundCommand(body: string, today: string = getLocalToday()): ParsedCommand {
+  const normalized = body
+    .trim()
+    .toUpperCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[.,!?;:()"]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const { dates, rest } = extractDates(normalized, today);
+  const shiftCodes = extractShiftCodes(rest);
+  const quantity = /\b(BOTH|EITHER)\b/.test(rest)
+    ? "both"
+    : /\b(ALL|EVERY ?ONE|ANY OF THEM)\b/.test(rest)
+      ? "all"
+      : undefined;
+  const command = (type: SmsCommandType): ParsedCommand => ({
+    type,
+    shiftCode: shiftCodes[0],
+    shiftCodes,
+    dates,
+    quantity,
+    originalMessage: body,
+  });
+
+  // Keyword commands first so "STOP" or "SHIFTS" is never read as a reply to an offer
+  if (/^(STOP|STOPALL|UNSUBSCRIBE|CANCEL|END|QUIT)\b/.test(normalized)) return command("stop");
+  if (/^(START|SUBSCRIBE|UNSTOP)\b/.test(normalized)) return command("start");
+  if (/^(HELP|INFO|COMMANDS)\b/.test(normalized)) return command("help");
+  if (/^CONFIRM/.test(normalized)) return command("confirm");
+  if (/^WITHDRAW/.test(normalized)) return command("withdraw");
+  if (/^STATUS/.test(normalized)) return command("status");
+  if (/^(SHIFTS?|OPENINGS|AVAILABLE)\b/.test(normalized)) return command("shifts");
+  if (/^(OFF|TIME OFF|PTO)\b/.test(normalized)) return command("time_off");
+  if (/^(SWAP|GIVE ?AWAY)\b/.test(normalized)) return command("swap");
+
+  if (NO_PATTERN.test(normalized)) return command("interest_no");
+  if (YES_PATTERN.test(normalized)) return command("interest_yes");
+
+  // A bare shift code, date or "both" ("ABC123", "the 15th works", "both please") is a yes
+  if (shiftCodes.length > 0 && shiftCodes.join(" ") === rest) return command("interest_yes");
+  if (dates.length > 0 && /^(WORKS|IS GOOD|IS FINE|PLEASE)?$/.test(rest)) return command("interest_yes");
+  if (/^(BOTH|EITHER|ALL|ALL OF THEM|EVERY ?ONE)( PLEASE| WORK| WORKS)?$/.test(rest)) return command("interest_yes");
+
+  return command("unknown");
+}
@@ -0,0 +1,78 @@
+import { storage } from "../storage";
+import type { Employee, SmsConsentEvent } from "@shared/schema";
+
+// How an opt-in or opt-out was captured
+export type ConsentSource = "sms_keyword" | "admin" | "employee_created";
+
+export interface ConsentDetails {
+  source: ConsentSource;
+  keyword?: string;
+  provider?: string;
+  messageId?: string;
+  actor?: { id: string; username: string } | null;
+  note?: string | null;
+  ipAddress?: string;
+}
+
+/**
+ * Add a row to the consent ledger for an employee's new opt-in state.
+ * The caller updates employees.smsOptIn; this records when and how it changed.
+ */
+export async function recordSmsConsent(employee: Employee, optedIn: boolean, details: ConsentDetails): Promise<SmsConsentEvent> {
+  return storage.createSmsConsentEvent({
+    employeeId: employee.id,
+    phone: employee.phone,
+    optedIn,
+    source: details.source,
+    keyword: details.keyword ?? null,
+    provider: details.provider ?? null,
+    messageId: details.messageId ?? null,
+    actorId: details.actor?.id ?? null,
+    actorName: details.actor?.username ?? null,
+    note: details.note ?? null,
+    ipAddress: details.ipAddress ?? null,
+  });
+}
+
+/**
+ * Whether the employee's current opt-out came from them texting STOP.
+ * Only the employee can undo that, or an admin who records how they consented again.
+ */
+export async function isOptedOutByReply(employeeId: string): Promise<boolean> {
+  const events = await storage.getSmsConsentEvents({ employeeId });
+  const latest = events[events.length - 1];
+  return !!latest && !latest.optedIn && latest.source === "sms_keyword";
+}
+
+/**
+ * Escape a value for a CSV cell
+ */
+function csvCell(value: string | null | undefined): string {
+  if (value == null) return "";
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * The consent ledger as CSV, oldest first, for carrier and TCPA audits
+ */
+export async function exportConsentCsv(filters: { employeeId?: string; since?: Date; until?: Date }): Promise<string> {
+  const [events, employees] = await Promise.all([storage.getSmsConsentEvents(filters), storage.getEmployees()]);
+  const names = new Map(employees.map(e => [e.id, e.name]));
+
+  const header = ["Timestamp", "Employee ID", "Employee", "Phone", "Status", "Source", "Keyword", "Provider", "Message ID", "Changed By", "Note", "IP Address"];
+  const rows = events.map(e => [
+    e.createdAt.toISOString(),
+    e.employeeId,
+    names.get(e.employeeId) ?? "",
+    e.phone,
+    e.optedIn ? "opted_in" : "opted_out",
+    e.source,
+    e.keyword,
+    e.provider,
+    e.messageId,
+    e.actorName,
+    e.note,
+    e.ipAddress,
+  ].map(csvCell).join(","));
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,67 @@
+import { storage } from "../storage";
+
+// The question an employee was last asked by text, and what their answer refers to
+export type ConversationState =
+  | { flow: "shift_pick"; keyword: "YES" | "NO"; shiftIds: string[] } // Numbered list of shifts - after SHIFTS or "which one did you mean?"
+  | { flow: "withdraw_pick"; shiftIds: string[] } // Numbered list of shifts with pending interest
+  | { flow: "withdraw_confirm"; shiftId: string } // "Withdraw your interest? Reply YES or NO"
+  | { flow: "callout_poll"; shiftId: string }; // "Can you cover this shift? Reply 1 or 2"
+
+export type ConversationFlow = ConversationState["flow"];
+
+// How long each question stays open before replies are treated as new commands again
+const FLOW_TTL_MINUTES: Record<ConversationFlow, number> = {
+  shift_pick: 30,
+  withdraw_pick: 30,
+  withdraw_confirm: 10,
+  callout_poll: 4 * 60,
+};
+
+/**
+ * The employee's open conversation, or null if there is none or it has expired
+ */
+export async function getConversation(employeeId: string): Promise<ConversationState | null> {
+  const conversation = await storage.getSmsConversation(employeeId);
+  if (!conversation) return null;
+
+  if (new Date(conversation.expiresAt).getTime() <= Date.now()) {
+    await storage.deleteSmsConversation(employeeId);
+    return null;
+  }
+
+  return { ...conversation.data, flow: conversation.flow } as ConversationState;
+}
+
+/**
+ * Ask the employee a question - replaces any conversation already open.
+ * Expires after the flow's default time unless an expiry is given.
+ */
+export async function startConversation(
+  employeeId: string,
+  state: ConversationState,
+  expiresAt?: Date
+): Promise<void> {
+  const { flow, ...data } = state;
+  await storage.setSmsConversation(employeeId, {
+    flow,
+    data,
+    expiresAt: expiresAt ?? new Date(Date.now() + FLOW_TTL_MINUTES[flow] * 60 * 1000),
+  });
+}
+
+/**
+ * Close the employee's open conversation, if any
+ */
+export async function endConversation(employeeId: string): Promise<void> {
+  await storage.deleteSmsConversation(employeeId);
+}
+
+/**
+ * Numbers picked from a numbered list, e.g. "2", "1 and 3", "#1, #4".
+ * Returns null unless the reply is only numbers.
+ */
+export function parseListSelection(body: string): number[] | null {
+  const normalized = body.trim().toUpperCase().replace(/[#.,&+!]/g, " ").replace(/\bAND\b/g, " ").trim();
+  if (!/^\d{1,2}( +\d{1,2})*$/.test(normalized)) return null;
+  return Array.from(new Set(normalized.split(/ +/).map(Number)));
+}
@@ -0,0 +1,167 @@
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import { getShiftWindow } from "./assignmentRules";
+import { canSendShiftNotifications, getSMSSettings } from "./smsNotifications";
+import { enqueueSMS } from "./smsQueue";
+import type { Employee, Shift, ShiftOffer } from "@shared/schema";
+
+// How a new-shift offer reaches an employee - its own text, or a line in their next digest
+export type OfferDelivery = "text" | "digest";
+
+// Texts that count toward an employee's limits - everything sent or about to be
+const COUNTED_STATUSES = ["queued", "pending", "sent", "delivered", "undelivered"];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Whether the employee has had as many texts as their hourly or daily limit allows
+ */
+export async function isOverTextLimit(employee: Employee, now: Date = new Date()): Promise<boolean> {
+  if (!employee.smsMaxPerHour && !employee.smsMaxPerDay) return false;
+
+  const texts = (await storage.getEmployeeMessages(employee.id))
+    .filter(m => m.direction === "outbound" && COUNTED_STATUSES.includes(m.status))
+    .map(m => new Date(m.createdAt).getTime());
+  const since = (ms: number) => texts.filter(t => t > now.getTime() - ms).length;
+
+  return (
+    (!!employee.smsMaxPerHour && since(HOUR_MS) >= employee.smsMaxPerHour) ||
+    (!!employee.smsMaxPerDay && since(24 * HOUR_MS) >= employee.smsMaxPerDay)
+  );
+}
+
+/**
+ * Digest subscribers get new shifts in their summary, as does anyone at their text limit -
+ * their offers wait for the next summary the limit allows rather than being dropped
+ */
+export async function getOfferDelivery(employee: Employee): Promise<OfferDelivery> {
+  if (employee.smsDigestMinutes) return "digest";
+  return (await isOverTextLimit(employee)) ? "digest" : "text";
+}
+
+/**
+ * Hold a shift offer for the employee's next digest, taking over their queued wave offer if there is one.
+ * The held offer is marked sent when the digest goes out, so it counts like a text in the offer report.
+ */
+export async function holdForDigest(shiftId: string, employeeId: string, wave: number): Promise<ShiftOffer | undefined> {
+  const [held] = await storage.getShiftOffers({ shiftId, employeeId, status: "digest" });
+  const [queued] = await storage.getShiftOffers({ shiftId, employeeId, status: "queued" });
+  if (held) {
+    // The shift is already in their next digest - close the wave offer so it isn't counted as skipped
+    if (queued) await storage.updateShiftOffer(queued.id, { status: "cancelled" });
+    return held;
+  }
+  if (queued) {
+    return storage.updateShiftOffer(queued.id, { status: "digest", scheduledFor: new Date() });
+  }
+  return storage.createShiftOffer({ shiftId, employeeId, wave, status: "digest", scheduledFor: new Date() });
+}
+
+/**
+ * The summary text listing each open shift's code
+ */
+function buildDigestMessage(shifts: Shift[]): string {
+  const lines = shifts.map(s => `${s.date} ${s.startTime}-${s.endTime} ${s.location} - ${s.smsCode}`);
+  const heading = shifts.length === 1 ? "1 open shift" : `${shifts.length} open shifts`;
+  return `[ShiftConnect] ${heading} for you:\n${lines.join("\n")}\n\nReply YES and a code to claim`;
+}
+
+/**
+ * Send digests that are due. A digest goes out once the oldest offer in it has waited the employee's
+ * digest interval - or, for an employee who was only over their limit, as soon as the limit allows.
+ * Offers for shifts that were filled or have started are dropped.
+ */
+export async function processDigests(): Promise<{ sent: number; offers: number; cancelled: number }> {
+  const held = await storage.getShiftOffers({ status: "digest" });
+  if (held.length === 0) return { sent: 0, offers: 0, cancelled: 0 };
+
+  // Hold everything during quiet hours or while shift texts are turned off
+  if (!(await canSendShiftNotifications())) return { sent: 0, offers: 0, cancelled: 0 };
+
+  const byEmployee = new Map<string, ShiftOffer[]>();
+  for (const offer of held) {
+    byEmployee.set(offer.employeeId, [...(byEmployee.get(offer.employeeId) ?? []), offer]);
+  }
+
+  const settings = await getSMSSettings();
+  const now = new Date();
+  let sent = 0;
+  let offers = 0;
+  let cancelled = 0;
+
+  for (const [employeeId, employeeOffers] of Array.from(byEmployee.entries())) {
+    const employee = await storage.getEmployee(employeeId);
+    const open: { offer: ShiftOffer; shift: Shift }[] = [];
+    for (const offer of employeeOffers) {
+      const shift = await storage.getShift(offer.shiftId);
+      if (employee && employee.status === "active" && employee.smsOptIn &&
+          shift && shift.status === "available" && getShiftWindow(shift).start > now) {
+        open.push({ offer, shift });
+      } else {
+        await storage.updateShiftOffer(offer.id, { status: "cancelled" });
+        cancelled++;
+      }
+    }
+    if (!employee || open.length === 0) continue;
+
+    if (employee.smsDigestMinutes) {
+      const oldest = Math.min(...open.map(o => new Date(o.offer.scheduledFor).getTime()));
+      if (oldest + employee.smsDigestMinutes * 60 * 1000 > now.getTime()) continue;
+    }
+    if (await isOverTextLimit(employee, now)) continue;
+
+    open.sort((a, b) => getShiftWindow(a.shift).start.getTime() - getShiftWindow(b.shift).start.getTime());
+    await enqueueSMS({
+      employeeId,
+      content: buildDigestMessage(open.map(o => o.shift)),
+      messageType: "shift_digest",
+      threadId: randomUUID(),
+      smsProvider: settings.smsProvider,
+      respectQuietHours: true,
+    });
+    for (const { offer } of open) {
+      await storage.updateShiftOffer(offer.id, { status: "sent", offeredAt: now });
+    }
+    sent++;
+    offers += open.length;
+  }
+
+  return { sent, offers, cancelled };
+}
+
+// Interval-based digest sender
+let digestInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Start the periodic digest sender
+ * Runs every minute so digest intervals and text limits are honoured closely
+ */
+export function startDigestScheduler(intervalMinutes = 1): void {
+  if (digestInterval) {
+    clearInterval(digestInterval);
+  }
+
+  digestInterval = setInterval(async () => {
+    try {
+      const result = await processDigests();
+      if (result.sent > 0 || result.cancelled > 0) {
+        console.log(`SMS digests: sent ${result.sent} digest(s) covering ${result.offers} shift(s), dropped ${result.cancelled} stale offer(s)`);
+      }
+    } catch (error) {
+      console.error("Error in SMS digest scheduler:", error);
+    }
+  }, intervalMinutes * 60 * 1000);
+
+  console.log(`Started SMS digest scheduler (every ${intervalMinutes} minutes)`);
+}
+
+/**
+ * Stop the periodic digest sender
+ */
+export function stopDigestScheduler(): void {
+  if (digestInterval) {
+    clearInterval(digestInterval);
+    digestInterval = null;
+    console.log("Stopped SMS digest scheduler");
+  }
+}
@@ -0,0 +1,208 @@
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import { logAuditEvent } from "../audit";
+import type { InboundMessage } from "./sms";
+import type { Employee, Message } from "@shared/schema";
+import { parseInboundCommand, type ParsedCommand, type SmsCommandType } from "./smsCommands";
+import { inboundCommands, handleConversationReply } from "./smsCommandHandlers";
+import { enqueueSMS } from "./smsQueue";
+import { saveInboundMedia } from "./smsMedia";
+import { broadcastMessageReceived } from "../websocket";
+
+// Everything a command handler gets to work with
+export interface InboundContext {
+  employee: Employee;
+  command: ParsedCommand;
+  message: InboundMessage;
+  inbound: Message; // The message as stored
+  ipAddress?: string;
+  webhookBaseUrl?: string;
+}
+
+// An SMS command employees can text in. Registered once in inboundCommands, served for every provider.
+export interface InboundCommand {
+  type: SmsCommandType;
+  help: string[]; // Lines for the HELP reply
+  handle(context: InboundContext): Promise<string | null>; // The auto-reply, or null for none
+}
+
+export type InboundResult =
+  | { status: "ignored" } // Empty message (no text or media) or a webhook we've already processed
+  | { status: "unknown_sender"; reply: string }
+  | { status: "handled"; employee: Employee; command: ParsedCommand; reply: string | null };
+
+const UNKNOWN_SENDER_REPLY = "Sorry, we couldn't identify your number. Please contact your supervisor.";
+const UNRECOGNIZED_REPLY = "Message received. A supervisor will respond shortly. Reply HELP for available commands.";
+
+// ============================================================
+// Message Deduplication Cache
+// ============================================================
+// Track processed message IDs to prevent duplicate webhook processing
+// RingCentral sometimes sends the same message multiple times
+const processedMessageIds = new Set<string>();
+const MESSAGE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+function markMessageProcessed(messageId: string): boolean {
+  if (!messageId) return false;
+  if (processedMessageIds.has(messageId)) {
+    return false; // Already processed
+  }
+  processedMessageIds.add(messageId);
+  // Auto-cleanup after TTL
+  setTimeout(() => processedMessageIds.delete(messageId), MESSAGE_CACHE_TTL);
+  return true; // First time seeing this message
+}
+
+/**
+ * Whether this webhook delivery was already processed.
+ * Checks the in-memory cache first (fast), then the database (survives restarts and multiple instances).
+ */
+async function isDuplicate(message: InboundMessage): Promise<boolean> {
+  if (!message.messageId) return false;
+
+  if (!markMessageProcessed(message.messageId)) {
+    console.log("Skipping duplicate inbound SMS (cache hit):", message.messageId);
+    return true;
+  }
+
+  try {
+    const existing = await storage.getMessageByProviderMessageId(String(message.messageId));
+    if (existing) {
+      console.log("Skipping duplicate inbound SMS (db hit):", message.messageId);
+      return true;
+    }
+  } catch (error) {
+    // If DB check fails, continue processing (better to process than drop)
+    console.log("DB dedup check failed, continuing:", error);
+  }
+  return false;
+}
+
+/**
+ * Find the employee a phone number belongs to, tolerating formatting and country code differences
+ */
+export async function findEmployeeByPhone(phone: string): Promise<Employee | undefined> {
+  const normalizedFrom = phone.replace(/[^\d+]/g, "");
+  const employees = await storage.getEmployees();
+  return employees.find(e => {
+    const normalizedEmployeePhone = e.phone.replace(/[^\d+]/g, "");
+    return normalizedEmployeePhone === normalizedFrom ||
+           normalizedEmployeePhone.endsWith(normalizedFrom.slice(-10)) ||
+           normalizedFrom.endsWith(normalizedEmployeePhone.slice(-10));
+  });
+}
+
+/**
+ * A text that isn't a command - keep it unread for a supervisor to answer
+ */
+async function handleUnrecognized({ employee, message, ipAddress }: InboundContext): Promise<string> {
+  await logAuditEvent({
+    action: "sms_inbound",
+    actor: null,
+    targetType: "message",
+    targetId: undefined,
+    targetName: employee.name,
+    details: {
+      from: message.from,
+      body: message.body.substring(0, 100),
+      provider: message.provider,
+    },
+    ipAddress,
+  });
+  return UNRECOGNIZED_REPLY;
+}
+
+/**
+ * Record the auto-reply. "webhook" replies go back in the webhook response (Twilio, mock),
+ * "queue" replies are sent by the outbound queue (RingCentral).
+ */
+async function deliverReply(
+  employee: Employee,
+  inbound: Message,
+  reply: string,
+  replyVia: "webhook" | "queue"
+): Promise<void> {
+  const record = {
+    employeeId: employee.id,
+    content: reply,
+    messageType: "auto_reply",
+    smsProvider: inbound.smsProvider,
+    threadId: inbound.threadId,
+    inReplyTo: inbound.id,
+  };
+
+  if (replyVia === "queue") {
+    await enqueueSMS(record);
+  } else {
+    await storage.createMessage({ ...record, direction: "outbound", status: "sent" });
+  }
+}
+
+/**
+ * Handle an inbound SMS or MMS from any provider: skip duplicates, find the employee, store the
+ * message and its media, answer an open conversation or dispatch the command, and record the auto-reply.
+ * The caller only parses the provider's payload and, for "webhook" replies, returns the reply text.
+ */
+export async function processInboundMessage(
+  message: InboundMessage,
+  options: { replyVia: "webhook" | "queue"; ipAddress?: string; webhookBaseUrl?: string }
+): Promise<InboundResult> {
+  if (!message.from || (!message.body && !message.mediaUrls?.length)) {
+    return { status: "ignored" };
+  }
+  if (await isDuplicate(message)) {
+    return { status: "ignored" };
+  }
+
+  const employee = await findEmployeeByPhone(message.from);
+  if (!employee) {
+    console.log("Inbound SMS from unknown number:", message.from);
+    return { status: "unknown_sender", reply: UNKNOWN_SENDER_REPLY };
+  }
+
+  // Stored before handling so a redelivery while we're busy is caught as a duplicate
+  const inbound = await storage.createMessage({
+    employeeId: employee.id,
+    direction: "inbound",
+    content: message.body,
+    status: "delivered",
+    providerMessageId: message.messageId || null,
+    smsProvider: message.provider,
+    messageType: "general",
+    threadId: randomUUID(),
+  });
+  await saveInboundMedia(inbound, message);
+
+  const command = parseInboundCommand(message.body);
+  console.log(`Inbound SMS parsed - type: ${command.type}, shiftCode: ${command.shiftCode || 'none'}, provider: ${message.provider}`);
+  const context: InboundContext = {
+    employee,
+    command,
+    message,
+    inbound,
+    ipAddress: options.ipAddress,
+    webhookBaseUrl: options.webhookBaseUrl,
+  };
+
+  // A reply to the question we last asked is answered first, otherwise it's a new command
+  let reply = await handleConversationReply(employee, message.body, options.ipAddress, options.webhookBaseUrl);
+  const handler = inboundCommands.find(c => c.type === command.type);
+  const recognized = reply !== null || !!handler;
+  if (reply === null) {
+    reply = handler ? await handler.handle(context) : await handleUnrecognized(context);
+  }
+
+  // Texts we answered need no supervisor attention - only unrecognized ones stay unread
+  if (recognized) {
+    await storage.updateMessage(inbound.id, { status: "read", messageType: "sms_command" });
+  }
+  broadcastMessageReceived({ ...inbound, status: recognized ? "read" : inbound.status });
+
+  // The queue won't text an opted-out employee, so STOP is only confirmed in a webhook response
+  const skipReply = options.replyVia === "queue" && command.type === "stop";
+  if (reply && !skipReply) {
+    await deliverReply(employee, inbound, reply, options.replyVia);
+  }
+
+  return { status: "handled", employee, command, reply: skipReply ? null : reply };
+}
@@ -0,0 +1,100 @@
+import { randomBytes } from "crypto";
+import { storage } from "../storage";
+import { smsProvider, type InboundMessage, type OutboundMedia } from "./sms";
+import { initializeSMSProvider } from "./smsNotifications";
+import type { Message, MessageAttachment } from "@shared/schema";
+import { MAX_MMS_BYTES, base64Size, type MessageAttachmentSummary, type MmsUpload } from "@shared/mms";
+
+/**
+ * Why uploads can't be sent, or null if they can
+ */
+export function validateUploads(uploads: MmsUpload[]): string | null {
+  const total = uploads.reduce((sum, upload) => sum + base64Size(upload.data), 0);
+  if (total > MAX_MMS_BYTES) {
+    return `Pictures are limited to ${(MAX_MMS_BYTES / 1024 / 1024).toFixed(1)} MB per message`;
+  }
+  return null;
+}
+
+/**
+ * Store the files a supervisor attached to an outbound message.
+ * Each gets a random token so the provider can download it without a session.
+ */
+export async function saveOutboundAttachments(messageId: string, uploads: MmsUpload[]): Promise<MessageAttachment[]> {
+  const attachments: MessageAttachment[] = [];
+  for (const upload of uploads) {
+    attachments.push(await storage.createMessageAttachment({
+      messageId,
+      contentType: upload.contentType,
+      fileName: upload.fileName,
+      size: base64Size(upload.data),
+      data: upload.data,
+      publicToken: randomBytes(24).toString("hex"),
+    }));
+  }
+  return attachments;
+}
+
+/**
+ * The files to hand to the provider, with public URLs under webhookBaseUrl
+ */
+export function toOutboundMedia(attachments: MessageAttachment[], webhookBaseUrl: string): OutboundMedia[] {
+  return attachments.map(attachment => ({
+    url: `${webhookBaseUrl}/api/sms/media/${attachment.id}/${attachment.publicToken}`,
+    contentType: attachment.contentType,
+    fileName: attachment.fileName || attachment.id,
+    data: Buffer.from(attachment.data ?? "", "base64"),
+  }));
+}
+
+/**
+ * Download the media on an inbound MMS and store it with the message.
+ * Media that can't be downloaded is still recorded, without its contents.
+ * @returns Number of attachments stored
+ */
+export async function saveInboundMedia(message: Message, inbound: InboundMessage): Promise<number> {
+  const urls = inbound.mediaUrls ?? [];
+  if (urls.length === 0) return 0;
+
+  await initializeSMSProvider();
+
+  let saved = 0;
+  for (let i = 0; i < urls.length; i++) {
+    try {
+      const fetched = await smsProvider.fetchMedia(urls[i], inbound.provider);
+      if (!fetched) {
+        console.log(`Could not download inbound media for message ${message.id}:`, urls[i]);
+      }
+      await storage.createMessageAttachment({
+        messageId: message.id,
+        contentType: fetched?.contentType || inbound.mediaContentTypes?.[i] || "application/octet-stream",
+        size: fetched?.data.length ?? 0,
+        data: fetched ? fetched.data.toString("base64") : null,
+        sourceUrl: urls[i],
+      });
+      saved++;
+    } catch (error) {
+      console.error(`Error saving inbound media for message ${message.id}:`, error);
+    }
+  }
+  return saved;
+}
+
+/**
+ * Attachments for each message, without the file contents, keyed by message ID
+ */
+export async function getAttachmentSummaries(messageIds: string[]): Promise<Map<string, MessageAttachmentSummary[]>> {
+  const byMessage = new Map<string, MessageAttachmentSummary[]>();
+  for (const attachment of await storage.getMessageAttachments(messageIds)) {
+    const summaries = byMessage.get(attachment.messageId) ?? [];
+    summaries.push({
+      id: attachment.id,
+      contentType: attachment.contentType,
+      fileName: attachment.fileName,
+      size: attachment.size,
+      url: attachment.data ? `/api/sms/media/${attachment.id}` : null,
+    });
+    byMessage.set(attachment.messageId, summaries);
+  }
+  return byMessage;
+}
@@ -1,14 +1,28 @@
 import { storage } from "../storage";
-import { smsProvider, type SendSMSResult, type SMSProviderType } from "./sms";
+import {
+  smsProvider,
+  type SendSMSResult,
+  type SMSProviderConfig,
+  type SMSProviderType,
+  type StatusCallback,
+} from "./sms";
+import { MOCK_FROM_NUMBER } from "./sms/mockProvider";
 import { logAuditEvent } from "../audit";
 import { randomUUID } from "crypto";
-import type { Shift, Employee, Area } from "@shared/schema";
+import type { Shift, Employee, Area, TimeOffRequest, ShiftSwap, Certification, EmployeeCertification } from "@shared/schema";
 import { getRenderedTemplate } from "./smsTemplates";
+import { partitionByAvailability } from "./employeeAvailability";
+import { describeTimeOff } from "./timeOff";
+import { planNotificationWaves, recordShiftOffer, cancelQueuedOffers } from "./fairRotation";
+import { enqueueSMS } from "./smsQueue";
+import { getOfferDelivery, holdForDigest } from "./smsDigest";
+import { startConversation } from "./smsConversations";
 
 // Types for SMS operations
-interface SMSSettings {
+export interface SMSSettings {
   // Provider selection
   smsProvider: SMSProviderType;
+  smsSecondaryProvider: SMSProviderType | null; // Failover target, null when failover is off
 
   // Twilio configuration
   twilioAccountSid: string;
@@ -23,6 +37,9 @@ interface SMSSettings {
   ringcentralJwt: string;
   ringcentralFromNumber: string;
 
+  // Mock provider configuration (development only)
+  mockFailureRate: number;
+
   // General SMS settings
   smsEnabled: boolean;
   smsDailyLimit: number;
@@ -58,6 +75,7 @@ async function getSMSSettings(): Promise<SMSSettings> {
   return {
     // Provider selection
     smsProvider: smsProvider as SMSProviderType,
+    smsSecondaryProvider: (getValue("sms_secondary_provider") || null) as SMSProviderType | null,
 
     // Twilio configuration
     twilioAccountSid: getValue("twilio_account_sid"),
@@ -72,6 +90,9 @@ async function getSMSSettings(): Promise<SMSSettings> {
     ringcentralJwt: getValue("ringcentral_jwt") || process.env.RINGCENTRAL_JWT || "",
     ringcentralFromNumber: getValue("ringcentral_from_number") || process.env.RINGCENTRAL_FROM_NUMBER || "",
 
+    // Mock provider configuration
+    mockFailureRate: parseInt(getValue("mock_sms_failure_rate", "0")) || 0,
+
     // General SMS settings - auto-enable if RingCentral env vars are configured
     smsEnabled: getValue("sms_enabled") === "true" || hasRingCentralEnvVars,
     smsDailyLimit: parseInt(getValue("sms_daily_limit", "1000")),
@@ -85,7 +106,79 @@ async function getSMSSettings(): Promise<SMSSettings> {
   };
 }
 
-// Initialize SMS provider with current settings
+/**
+ * Provider configuration for a provider type from settings, or null when its credentials are incomplete
+ */
+function buildProviderConfig(settings: SMSSettings, provider: SMSProviderType): SMSProviderConfig | null {
+  if (provider === "mock") {
+    // The mock provider never reaches real phones, so it is refused in production
+    if (process.env.NODE_ENV === "production") {
+      console.log("Mock SMS provider is disabled in production");
+      return null;
+    }
+
+    return {
+      provider: "mock",
+      fromNumber: MOCK_FROM_NUMBER,
+      mockFailureRate: settings.mockFailureRate,
+    };
+  }
+
+  if (provider === "ringcentral") {
+    // Validate RingCentral configuration
+    if (
+      !settings.ringcentralClientId ||
+      !settings.ringcentralClientSecret ||
+      !settings.ringcentralJwt ||
+      !settings.ringcentralFromNumber
+    ) {
+      console.log("RingCentral configuration incomplete");
+      return null;
+    }
+
+    return {
+      provider: "ringcentral",
+      fromNumber: settings.ringcentralFromNumber,
+      ringcentralClientId: settings.ringcentralClientId,
+      ringcentralClientSecret: settings.ringcentralClientSecret,
+      ringcentralServerUrl: settings.ringcentralServerUrl,
+      ringcentralJwt: settings.ringcentralJwt,
+    };
+  }
+
+  // Default to Twilio
+  if (!settings.twilioAccountSid || !settings.twilioAuthToken || !settings.twilioFromNumber) {
+    console.log("Twilio configuration incomplete");
+    return null;
+  }
+
+  return {
+    provider: "twilio",
+    fromNumber: settings.twilioFromNumber,
+    twilioAccountSid: settings.twilioAccountSid,
+    twilioAuthToken: settings.twilioAuthToken,
+    twilioMessagingServiceSid: settings.twilioMessagingServiceSid || undefined,
+  };
+}
+
+/**
+ * Check whether settings hold complete credentials for a provider
+ */
+function isProviderConfigured(settings: SMSSettings, provider: SMSProviderType): boolean {
+  if (provider === "mock") return process.env.NODE_ENV !== "production";
+  if (provider === "ringcentral") {
+    return !!(
+      settings.ringcentralClientId &&
+      settings.ringcentralClientSecret &&
+      settings.ringcentralJwt &&
+      settings.ringcentralFromNumber
+    );
+  }
+  return !!(settings.twilioAccountSid && settings.twilioAuthToken && settings.twilioFromNumber);
+}
+
+// Initialize the primary and, when configured, secondary SMS providers with current settings.
+// Succeeds if either one is usable, so an expired primary credential doesn't stop SMS.
 async function initializeSMSProvider(): Promise<boolean> {
   const settings = await getSMSSettings();
 
@@ -93,68 +186,50 @@ async function initializeSMSProvider(): Promise<boolean> {
     return false;
   }
 
+  let primaryReady = false;
+  let secondaryReady = false;
+
   try {
-    if (settings.smsProvider === "ringcentral") {
-      // Validate RingCentral configuration
-      if (
-        !settings.ringcentralClientId ||
-        !settings.ringcentralClientSecret ||
-        !settings.ringcentralJwt ||
-        !settings.ringcentralFromNumber
-      ) {
-        console.log("RingCentral configuration incomplete");
-        return false;
+    const primaryConfig = buildProviderConfig(settings, settings.smsProvider);
+    if (primaryConfig) {
+      // Async initialization verifies RingCentral authentication
+      primaryReady = await smsProvider.initializeAsync(primaryConfig);
+      if (!primaryReady) {
+        console.log(`${settings.smsProvider} provider failed to initialize`);
       }
+    }
+  } catch (error) {
+    console.error("Failed to initialize SMS provider:", error);
+  }
 
-      const config = {
-        provider: "ringcentral" as const,
-        fromNumber: settings.ringcentralFromNumber,
-        ringcentralClientId: settings.ringcentralClientId,
-        ringcentralClientSecret: settings.ringcentralClientSecret,
-        ringcentralServerUrl: settings.ringcentralServerUrl,
-        ringcentralJwt: settings.ringcentralJwt,
-      };
-      
-      // Use async initialization that verifies authentication
-      const rcProvider = smsProvider as any;
-      if (typeof rcProvider.initializeAsync === 'function') {
-        const authenticated = await rcProvider.initializeAsync(config);
-        if (!authenticated) {
-          console.log("RingCentral authentication failed");
-          return false;
-        }
-        return true;
-      } else {
-        // Fallback to sync initialize
-        smsProvider.initialize(config);
-      }
+  try {
+    const secondary = settings.smsSecondaryProvider;
+    const secondaryConfig =
+      secondary && secondary !== settings.smsProvider ? buildProviderConfig(settings, secondary) : null;
+    if (secondaryConfig) {
+      secondaryReady = await smsProvider.initializeSecondaryAsync(secondaryConfig);
     } else {
-      // Default to Twilio
-      if (!settings.twilioAccountSid || !settings.twilioAuthToken || !settings.twilioFromNumber) {
-        console.log("Twilio configuration incomplete");
-        return false;
-      }
-
-      smsProvider.initialize({
-        provider: "twilio",
-        fromNumber: settings.twilioFromNumber,
-        twilioAccountSid: settings.twilioAccountSid,
-        twilioAuthToken: settings.twilioAuthToken,
-        twilioMessagingServiceSid: settings.twilioMessagingServiceSid || undefined,
-      });
+      smsProvider.clearSecondary();
     }
-
-    return smsProvider.isInitialized();
   } catch (error) {
-    console.error("Failed to initialize SMS provider:", error);
-    return false;
+    console.error("Failed to initialize secondary SMS provider:", error);
   }
+
+  return primaryReady || secondaryReady;
+}
+
+/**
+ * Status callback builder - the URL depends on which provider ends up sending
+ */
+function getStatusCallback(webhookBaseUrl?: string): StatusCallback | undefined {
+  return webhookBaseUrl
+    ? (provider: SMSProviderType) => `${webhookBaseUrl}/api/webhooks/${provider}/status`
+    : undefined;
 }
 
-// Check if current time is within quiet hours
-function isQuietHours(start: string, end: string): boolean {
-  const now = new Date();
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
+// Check if a time (default now) is within quiet hours
+function isQuietHours(start: string, end: string, at: Date = new Date()): boolean {
+  const currentMinutes = at.getHours() * 60 + at.getMinutes();
 
   const [startHour, startMin] = start.split(":").map(Number);
   const [endHour, endMin] = end.split(":").map(Number);
@@ -176,41 +251,60 @@ function formatShiftDetails(shift: Shift, area?: Area | null): string {
 }
 
 /**
- * Send notification to eligible employees when a new shift is posted
+ * Whether new-shift texts can go out right now (SMS on, new shift notifications on, outside quiet hours)
+ */
+export async function canSendShiftNotifications(): Promise<boolean> {
+  const settings = await getSMSSettings();
+  if (!settings.smsEnabled || !settings.notifyOnNewShift) return false;
+  return !(
+    settings.smsRespectQuietHours &&
+    isQuietHours(settings.smsQuietHoursStart, settings.smsQuietHoursEnd)
+  );
+}
+
+/**
+ * Queue notifications to eligible employees when a new shift is posted.
+ * Texts queued during quiet hours go out when the window opens. Employees on digest mode, or at
+ * their own text limit, get the shift in their next digest instead.
+ * With fair rotation on, only the first wave is queued now and later waves wait for the wave scheduler;
+ * pass a wave number to queue a waiting wave directly.
  */
 export async function notifyNewShift(
   shift: Shift,
   area: Area | undefined,
   recipients: Employee[],
-  webhookBaseUrl?: string
-): Promise<{ sent: number; failed: number }> {
+  webhookBaseUrl?: string,
+  options: { wave?: number } = {}
+): Promise<{ queued: number; digested: number; failed: number }> {
   const settings = await getSMSSettings();
 
   // Check if notifications are enabled
   if (!settings.smsEnabled || !settings.notifyOnNewShift) {
-    return { sent: 0, failed: 0 };
-  }
-
-  // Check quiet hours
-  if (
-    settings.smsRespectQuietHours &&
-    isQuietHours(settings.smsQuietHoursStart, settings.smsQuietHoursEnd)
-  ) {
-    console.log("Skipping new shift notification during quiet hours");
-    return { sent: 0, failed: 0 };
+    return { queued: 0, digested: 0, failed: 0 };
   }
 
   // Initialize SMS provider
   const initialized = await initializeSMSProvider();
   if (!initialized) {
     console.log("SMS provider not initialized, skipping notifications");
-    return { sent: 0, failed: 0 };
+    return { queued: 0, digested: 0, failed: 0 };
   }
 
-  // Filter to only active, opted-in employees
-  const eligibleRecipients = recipients.filter((e) => e.status === "active" && e.smsOptIn);
+  // Filter to only active, opted-in employees who haven't marked themselves unavailable
+  const optedIn = recipients.filter((e) => e.status === "active" && e.smsOptIn);
+  const { available, unavailable } = await partitionByAvailability(shift, optedIn);
+  if (unavailable.length > 0) {
+    console.log(`Skipping ${unavailable.length} unavailable employee(s) for shift ${shift.id}`);
+  }
 
-  let sent = 0;
+  // Fair rotation - text the first wave now and queue the rest
+  const wave = options.wave ?? 1;
+  const eligibleRecipients = options.wave === undefined
+    ? await planNotificationWaves(shift, available)
+    : available;
+
+  let queued = 0;
+  let digested = 0;
   let failed = 0;
 
   // Look up position for template
@@ -220,13 +314,14 @@ export async function notifyNewShift(
     ? `https://${process.env.REPLIT_DEV_DOMAIN}`
     : process.env.APP_URL || "";
 
-  // Build status callback URL based on provider
-  const statusCallback = webhookBaseUrl
-    ? `${webhookBaseUrl}/api/webhooks/${settings.smsProvider}/status`
-    : undefined;
-
   for (const employee of eligibleRecipients) {
     try {
+      if ((await getOfferDelivery(employee)) === "digest") {
+        await holdForDigest(shift.id, employee.id, wave);
+        digested++;
+        continue;
+      }
+
       // Render template with employee context for personalized claimLink with phone number
       const templateMessage = await getRenderedTemplate("shift_notification", {
         shift,
@@ -245,41 +340,20 @@ export async function notifyNewShift(
         templateMessage ||
         `[ShiftConnect] New shift available!\n${formatShiftDetails(shift, area)}\nCode: ${shift.smsCode}\n\nTap to claim: ${personalizedLink}\n\nOr reply YES ${shift.smsCode}`;
 
-      // Create message record
-      const messageRecord = await storage.createMessage({
+      // Queue for the outbound worker - held until quiet hours end
+      await enqueueSMS({
         employeeId: employee.id,
-        direction: "outbound",
         content: message,
-        status: "pending",
         messageType: "shift_notification",
         relatedShiftId: shift.id,
         threadId: randomUUID(),
-      });
-
-      // Send SMS using provider abstraction
-      const result = await smsProvider.sendSMS(employee.phone, message, statusCallback);
-
-      // Update message with result
-      await storage.updateMessage(messageRecord.id, {
-        providerMessageId: result.messageId || result.providerMessageId || null,
         smsProvider: settings.smsProvider,
-        status: result.success ? "sent" : "failed",
-        deliveryStatus: result.status || null,
-        errorCode: result.errorCode || null,
-        errorMessage: result.errorMessage || null,
-        segments: result.segments || 1,
+        respectQuietHours: true,
       });
-
-      if (result.success) {
-        sent++;
-      } else {
-        failed++;
-      }
-
-      // Small delay to respect rate limits
-      await new Promise((resolve) => setTimeout(resolve, 50));
+      await recordShiftOffer(shift.id, employee.id, wave, true);
+      queued++;
     } catch (error) {
-      console.error(`Failed to send notification to ${employee.name}:`, error);
+      console.error(`Failed to queue notification for ${employee.name}:`, error);
       failed++;
     }
   }
@@ -295,52 +369,55 @@ export async function notifyNewShift(
       type: "shift_notification",
       provider: settings.smsProvider,
       recipientCount: eligibleRecipients.length,
-      sent,
+      laterWaveCount: available.length - eligibleRecipients.length,
+      wave,
+      queued,
+      digested,
       failed,
     },
     ipAddress: undefined,
   });
 
-  return { sent, failed };
+  return { queued, digested, failed };
 }
 
 /**
  * Send repost notification to eligible employees
- * Uses the shift_repost template which conditionally includes bonus info
+ * Uses the shift_repost template which conditionally includes bonus info.
+ * Like new shifts, reposts go in the digest for employees on digest mode or at their text limit.
  */
 export async function notifyRepostedShift(
   shift: Shift,
   area: Area | undefined,
   recipients: Employee[],
   webhookBaseUrl?: string
-): Promise<{ sent: number; failed: number }> {
+): Promise<{ queued: number; digested: number; failed: number }> {
   const settings = await getSMSSettings();
 
   // Check if notifications are enabled
   if (!settings.smsEnabled || !settings.notifyOnNewShift) {
-    return { sent: 0, failed: 0 };
-  }
-
-  // Check quiet hours
-  if (
-    settings.smsRespectQuietHours &&
-    isQuietHours(settings.smsQuietHoursStart, settings.smsQuietHoursEnd)
-  ) {
-    console.log("Skipping shift repost notification during quiet hours");
-    return { sent: 0, failed: 0 };
+    return { queued: 0, digested: 0, failed: 0 };
   }
 
   // Initialize SMS provider
   const initialized = await initializeSMSProvider();
   if (!initialized) {
     console.log("SMS provider not initialized, skipping notifications");
-    return { sent: 0, failed: 0 };
+    return { queued: 0, digested: 0, failed: 0 };
+  }
+
+  // Filter to only active, opted-in employees who haven't marked themselves unavailable
+  const optedIn = recipients.filter((e) => e.status === "active" && e.smsOptIn);
+  const { available: eligibleRecipients, unavailable } = await partitionByAvailability(shift, optedIn);
+  if (unavailable.length > 0) {
+    console.log(`Skipping ${unavailable.length} unavailable employee(s) for reposted shift ${shift.id}`);
   }
 
-  // Filter to only active, opted-in employees
-  const eligibleRecipients = recipients.filter((e) => e.status === "active" && e.smsOptIn);
+  // A repost reaches everyone at once, so drop any fair rotation waves still waiting
+  await cancelQueuedOffers(shift.id);
 
-  let sent = 0;
+  let queued = 0;
+  let digested = 0;
   let failed = 0;
 
   // Look up position for template
@@ -350,13 +427,14 @@ export async function notifyRepostedShift(
     ? `https://${process.env.REPLIT_DEV_DOMAIN}`
     : process.env.APP_URL || "";
 
-  // Build status callback URL based on provider
-  const statusCallback = webhookBaseUrl
-    ? `${webhookBaseUrl}/api/webhooks/${settings.smsProvider}/status`
-    : undefined;
-
   for (const employee of eligibleRecipients) {
     try {
+      if ((await getOfferDelivery(employee)) === "digest") {
+        await holdForDigest(shift.id, employee.id, 1);
+        digested++;
+        continue;
+      }
+
       // Render template with employee context for personalized claimLink with phone number
       // Try shift_repost template first, fall back to shift_notification
       let templateMessage = await getRenderedTemplate("shift_repost", {
@@ -385,41 +463,20 @@ export async function notifyRepostedShift(
         templateMessage ||
         `[ShiftConnect] Shift available!\n${formatShiftDetails(shift, area)}${shift.bonusAmount ? ` - $${shift.bonusAmount} bonus!` : ''}\n\nTap to claim: ${personalizedLink}\n\nOr reply YES ${shift.smsCode}`;
 
-      // Create message record
-      const messageRecord = await storage.createMessage({
+      // Queue for the outbound worker - held until quiet hours end
+      await enqueueSMS({
         employeeId: employee.id,
-        direction: "outbound",
         content: message,
-        status: "pending",
         messageType: "shift_notification",
         relatedShiftId: shift.id,
         threadId: randomUUID(),
-      });
-
-      // Send SMS using provider abstraction
-      const result = await smsProvider.sendSMS(employee.phone, message, statusCallback);
-
-      // Update message with result
-      await storage.updateMessage(messageRecord.id, {
-        providerMessageId: result.messageId || result.providerMessageId || null,
         smsProvider: settings.smsProvider,
-        status: result.success ? "sent" : "failed",
-        deliveryStatus: result.status || null,
-        errorCode: result.errorCode || null,
-        errorMessage: result.errorMessage || null,
-        segments: result.segments || 1,
+        respectQuietHours: true,
       });
-
-      if (result.success) {
-        sent++;
-      } else {
-        failed++;
-      }
-
-      // Small delay to respect rate limits
-      await new Promise((resolve) => setTimeout(resolve, 50));
+      await recordShiftOffer(shift.id, employee.id, 1, true);
+      queued++;
     } catch (error) {
-      console.error(`Failed to send repost notification to ${employee.name}:`, error);
+      console.error(`Failed to queue repost notification for ${employee.name}:`, error);
       failed++;
     }
   }
@@ -435,14 +492,15 @@ export async function notifyRepostedShift(
       type: "shift_repost",
       provider: settings.smsProvider,
       recipientCount: eligibleRecipients.length,
-      sent,
+      queued,
+      digested,
       failed,
       bonusAmount: shift.bonusAmount,
     },
     ipAddress: undefined,
   });
 
-  return { sent, failed };
+  return { queued, digested, failed };
 }
 
 /**
@@ -486,9 +544,7 @@ export async function notifyShiftAssigned(
     templateMessage ||
     `[ShiftConnect] Shift Confirmed!\nYou're scheduled for:\n${formatShiftDetails(shift, area)}\nQuestions? Contact your supervisor.`;
 
-  const statusCallback = webhookBaseUrl
-    ? `${webhookBaseUrl}/api/webhooks/${settings.smsProvider}/status`
-    : undefined;
+  const statusCallback = getStatusCallback(webhookBaseUrl);
 
   try {
     // Create message record
@@ -508,7 +564,7 @@ export async function notifyShiftAssigned(
     // Update message with result
     await storage.updateMessage(messageRecord.id, {
       providerMessageId: result.messageId || result.providerMessageId || null,
-      smsProvider: settings.smsProvider,
+      smsProvider: result.provider ?? settings.smsProvider,
       status: result.success ? "sent" : "failed",
       deliveryStatus: result.status || null,
       errorCode: result.errorCode || null,
@@ -525,7 +581,7 @@ export async function notifyShiftAssigned(
       targetName: employee.name,
       details: {
         type: "shift_confirmation",
-        provider: settings.smsProvider,
+        provider: result.provider ?? settings.smsProvider,
         shiftId: shift.id,
         messageId: result.messageId,
         errorCode: result.errorCode,
@@ -581,9 +637,7 @@ export async function notifyShiftUnassigned(
     templateMessage ||
     `[ShiftConnect] Shift Update\nYou have been unassigned from the shift on ${shift.date} at ${shift.location} (${shift.startTime}-${shift.endTime}).\nPlease contact your supervisor if you have questions.`;
 
-  const statusCallback = webhookBaseUrl
-    ? `${webhookBaseUrl}/api/webhooks/${settings.smsProvider}/status`
-    : undefined;
+  const statusCallback = getStatusCallback(webhookBaseUrl);
 
   try {
     // Create message record
@@ -603,7 +657,7 @@ export async function notifyShiftUnassigned(
     // Update message with result
     await storage.updateMessage(messageRecord.id, {
       providerMessageId: result.messageId || result.providerMessageId || null,
-      smsProvider: settings.smsProvider,
+      smsProvider: result.provider ?? settings.smsProvider,
       status: result.success ? "sent" : "failed",
       deliveryStatus: result.status || null,
       errorCode: result.errorCode || null,
@@ -620,7 +674,7 @@ export async function notifyShiftUnassigned(
       targetName: employee.name,
       details: {
         type: "shift_unassigned",
-        provider: settings.smsProvider,
+        provider: result.provider ?? settings.smsProvider,
         shiftId: shift.id,
         messageId: result.messageId,
         errorCode: result.errorCode,
@@ -636,19 +690,18 @@ export async function notifyShiftUnassigned(
 }
 
 /**
- * Send shift reminder (typically called by a scheduled job)
+ * Notify an employee that their time-off request was approved or denied
  */
-export async function sendShiftReminder(
-  shift: Shift,
+export async function notifyTimeOffDecision(
+  request: TimeOffRequest,
   employee: Employee,
-  area?: Area | null,
   webhookBaseUrl?: string
 ): Promise<SendSMSResult> {
   const settings = await getSMSSettings();
 
-  // Check if reminders are enabled
-  if (!settings.smsEnabled || !settings.shiftReminderEnabled) {
-    return { success: false, errorMessage: "Reminders disabled" };
+  // Check if notifications are enabled
+  if (!settings.smsEnabled) {
+    return { success: false, errorMessage: "Notifications disabled" };
   }
 
   // Check if employee has opted in
@@ -662,23 +715,12 @@ export async function sendShiftReminder(
     return { success: false, errorMessage: "SMS provider not initialized" };
   }
 
-  // Look up position for template
-  const position = await storage.getPosition(shift.positionId);
-  
-  // Try to get template, fall back to hardcoded message
-  const templateMessage = await getRenderedTemplate("shift_reminder", {
-    shift,
-    employee,
-    area,
-    position: position ? { title: position.title } : undefined,
-  });
-  const message =
-    templateMessage ||
-    `[ShiftConnect] Reminder: Your shift starts soon!\n${formatShiftDetails(shift, area)}\nPlease arrive on time.`;
+  const dates = describeTimeOff(request);
+  const message = request.status === "approved"
+    ? `[ShiftConnect] Your time off for ${dates} has been approved.${request.reviewNote ? `\nNote: ${request.reviewNote}` : ""}`
+    : `[ShiftConnect] Your time-off request for ${dates} was not approved.${request.reviewNote ? `\nNote: ${request.reviewNote}` : ""}\nPlease contact your supervisor if you have questions.`;
 
-  const statusCallback = webhookBaseUrl
-    ? `${webhookBaseUrl}/api/webhooks/${settings.smsProvider}/status`
-    : undefined;
+  const statusCallback = getStatusCallback(webhookBaseUrl);
 
   try {
     // Create message record
@@ -687,8 +729,7 @@ export async function sendShiftReminder(
       direction: "outbound",
       content: message,
       status: "pending",
-      messageType: "shift_reminder",
-      relatedShiftId: shift.id,
+      messageType: "time_off_decision",
       threadId: randomUUID(),
     });
 
@@ -698,7 +739,7 @@ export async function sendShiftReminder(
     // Update message with result
     await storage.updateMessage(messageRecord.id, {
       providerMessageId: result.messageId || result.providerMessageId || null,
-      smsProvider: settings.smsProvider,
+      smsProvider: result.provider ?? settings.smsProvider,
       status: result.success ? "sent" : "failed",
       deliveryStatus: result.status || null,
       errorCode: result.errorCode || null,
@@ -706,68 +747,428 @@ export async function sendShiftReminder(
       segments: result.segments || 1,
     });
 
+    // Log audit event
+    await logAuditEvent({
+      action: result.success ? "sms_sent" : "sms_failed",
+      actor: null,
+      targetType: "message",
+      targetId: messageRecord.id,
+      targetName: employee.name,
+      details: {
+        type: "time_off_decision",
+        provider: result.provider ?? settings.smsProvider,
+        timeOffRequestId: request.id,
+        messageId: result.messageId,
+        errorCode: result.errorCode,
+      },
+      ipAddress: undefined,
+    });
+
     return result;
   } catch (error) {
-    console.error(`Failed to send reminder to ${employee.name}:`, error);
+    console.error(`Failed to send time-off decision to ${employee.name}:`, error);
     return { success: false, errorMessage: "Send failed" };
   }
 }
 
 /**
- * Notify other interested employees when a shift they expressed interest in is filled
+ * Template variables shared by the employee and supervisor certification expiry warnings
  */
-export async function notifyShiftFilledToOthers(
-  shift: Shift,
-  assignedEmployeeId: string,
+function certificationExpiryVariables(
+  certification: Certification,
+  record: EmployeeCertification,
+  daysLeft: number
+): Record<string, string> {
+  return {
+    certificationName: certification.name,
+    expiresOn: record.expiresOn ?? "",
+    daysLeft: String(daysLeft),
+  };
+}
+
+/**
+ * Warn an employee that one of their certifications is about to expire
+ */
+export async function notifyCertificationExpiring(
+  employee: Employee,
+  certification: Certification,
+  record: EmployeeCertification,
+  daysLeft: number,
   webhookBaseUrl?: string
-): Promise<{ sent: number; failed: number }> {
+): Promise<SendSMSResult> {
   const settings = await getSMSSettings();
 
   // Check if notifications are enabled
   if (!settings.smsEnabled) {
-    return { sent: 0, failed: 0 };
+    return { success: false, errorMessage: "Notifications disabled" };
+  }
+
+  // Check if employee has opted in
+  if (!employee.smsOptIn) {
+    return { success: false, errorMessage: "Employee opted out of SMS" };
   }
 
   // Initialize SMS provider
   const initialized = await initializeSMSProvider();
   if (!initialized) {
-    console.log("SMS provider not initialized, skipping shift filled notifications");
-    return { sent: 0, failed: 0 };
+    return { success: false, errorMessage: "SMS provider not initialized" };
   }
 
-  // Get all employees who expressed interest but weren't assigned
-  const interests = await storage.getShiftInterests(shift.id);
-  const area = await storage.getArea(shift.areaId);
-
-  // Filter out the assigned employee and get employee objects
-  const otherInterestedIds = interests
-    .filter((i) => i.employeeId !== assignedEmployeeId)
-    .map((i) => i.employeeId);
-
-  if (otherInterestedIds.length === 0) {
-    return { sent: 0, failed: 0 };
-  }
+  // Try to get template, fall back to hardcoded message
+  const templateMessage = await getRenderedTemplate("certification_expiry", {
+    employee,
+    custom: certificationExpiryVariables(certification, record, daysLeft),
+  });
+  const message =
+    templateMessage ||
+    `[ShiftConnect] Your ${certification.name} expires on ${record.expiresOn} (${daysLeft} days). Please renew it and send the new certificate to your supervisor so you can keep picking up shifts.`;
 
-  const employees = await storage.getEmployees();
-  const otherInterested = employees.filter(
-    (e) => otherInterestedIds.includes(e.id) && e.smsOptIn && e.status === "active"
-  );
+  const statusCallback = getStatusCallback(webhookBaseUrl);
 
-  if (otherInterested.length === 0) {
-    return { sent: 0, failed: 0 };
-  }
+  try {
+    // Create message record
+    const messageRecord = await storage.createMessage({
+      employeeId: employee.id,
+      direction: "outbound",
+      content: message,
+      status: "pending",
+      messageType: "certification_expiry",
+      threadId: randomUUID(),
+    });
 
-  let sent = 0;
-  let failed = 0;
+    // Send SMS using provider abstraction with retry
+    const result = await smsProvider.sendSMSWithRetry(employee.phone, message, statusCallback);
 
-  const statusCallback = webhookBaseUrl
-    ? `${webhookBaseUrl}/api/webhooks/${settings.smsProvider}/status`
-    : undefined;
+    // Update message with result
+    await storage.updateMessage(messageRecord.id, {
+      providerMessageId: result.messageId || result.providerMessageId || null,
+      smsProvider: result.provider ?? settings.smsProvider,
+      status: result.success ? "sent" : "failed",
+      deliveryStatus: result.status || null,
+      errorCode: result.errorCode || null,
+      errorMessage: result.errorMessage || null,
+      segments: result.segments || 1,
+    });
 
-  for (const employee of otherInterested) {
-    // Compose message - no template needed, this is a system notification
-    const message = `[ShiftConnect] Update: The shift on ${shift.date} (${shift.startTime}-${shift.endTime}) at ${shift.location}${area ? ` (${area.name})` : ""} has been filled.\n\nYou'll be notified of new available shifts. Reply SHIFTS to see current openings.`;
+    // Log audit event
+    await logAuditEvent({
+      action: result.success ? "sms_sent" : "sms_failed",
+      actor: null,
+      targetType: "message",
+      targetId: messageRecord.id,
+      targetName: employee.name,
+      details: {
+        type: "certification_expiry",
+        provider: result.provider ?? settings.smsProvider,
+        employeeCertificationId: record.id,
+        messageId: result.messageId,
+        errorCode: result.errorCode,
+      },
+      ipAddress: undefined,
+    });
+
+    return result;
+  } catch (error) {
+    console.error(`Failed to send certification expiry warning to ${employee.name}:`, error);
+    return { success: false, errorMessage: "Send failed" };
+  }
+}
+
+/**
+ * Let an employee's supervisors know one of their certifications is about to expire
+ */
+export async function notifySupervisorsCertificationExpiring(
+  employee: Employee,
+  certification: Certification,
+  record: EmployeeCertification,
+  daysLeft: number,
+  supervisors: Employee[],
+  webhookBaseUrl?: string
+): Promise<{ sent: number; failed: number }> {
+  const settings = await getSMSSettings();
+
+  // Check if notifications are enabled
+  if (!settings.smsEnabled) {
+    return { sent: 0, failed: 0 };
+  }
+
+  const optedIn = supervisors.filter(e => e.smsOptIn && e.status === "active" && e.id !== employee.id);
+  if (optedIn.length === 0) {
+    return { sent: 0, failed: 0 };
+  }
+
+  // Initialize SMS provider
+  const initialized = await initializeSMSProvider();
+  if (!initialized) {
+    console.log("SMS provider not initialized, skipping supervisor certification warning");
+    return { sent: 0, failed: 0 };
+  }
+
+  // Try to get template, fall back to hardcoded message
+  const templateMessage = await getRenderedTemplate("certification_expiry_supervisor", {
+    employee,
+    custom: certificationExpiryVariables(certification, record, daysLeft),
+  });
+  const message =
+    templateMessage ||
+    `[ShiftConnect] ${employee.name}'s ${certification.name} expires on ${record.expiresOn} (${daysLeft} days). They won't be offered or assigned shifts that require it once it lapses.`;
+
+  const statusCallback = getStatusCallback(webhookBaseUrl);
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const supervisor of optedIn) {
+    try {
+      // Create message record
+      const messageRecord = await storage.createMessage({
+        employeeId: supervisor.id,
+        direction: "outbound",
+        content: message,
+        status: "pending",
+        messageType: "certification_expiry",
+        threadId: randomUUID(),
+      });
+
+      // Send SMS using provider abstraction with retry
+      const result = await smsProvider.sendSMSWithRetry(supervisor.phone, message, statusCallback);
+
+      // Update message with result
+      await storage.updateMessage(messageRecord.id, {
+        providerMessageId: result.messageId || result.providerMessageId || null,
+        smsProvider: result.provider ?? settings.smsProvider,
+        status: result.success ? "sent" : "failed",
+        deliveryStatus: result.status || null,
+        errorCode: result.errorCode || null,
+        errorMessage: result.errorMessage || null,
+        segments: result.segments || 1,
+      });
+
+      if (result.success) {
+        sent++;
+      } else {
+        failed++;
+      }
+    } catch (error) {
+      console.error(`Failed to send certification warning to supervisor ${supervisor.name}:`, error);
+      failed++;
+    }
+  }
+
+  // Log audit event
+  await logAuditEvent({
+    action: "sms_sent",
+    actor: null,
+    targetType: "employee",
+    targetId: employee.id,
+    targetName: employee.name,
+    details: {
+      type: "certification_expiry_supervisor",
+      provider: settings.smsProvider,
+      employeeCertificationId: record.id,
+      recipientCount: optedIn.length,
+      sent,
+      failed,
+    },
+    ipAddress: undefined,
+  });
+
+  return { sent, failed };
+}
+
+/**
+ * Offer a shift swap to coworkers - either the one coworker it was offered to, or everyone eligible
+ */
+export async function notifySwapOffered(
+  shift: Shift,
+  swap: ShiftSwap,
+  offeredBy: Employee,
+  recipients: Employee[],
+  webhookBaseUrl?: string
+): Promise<{ queued: number; failed: number }> {
+  const settings = await getSMSSettings();
+
+  // Check if notifications are enabled
+  if (!settings.smsEnabled) {
+    return { queued: 0, failed: 0 };
+  }
+
+  const optedIn = recipients.filter(e => e.smsOptIn && e.status === "active");
+  if (optedIn.length === 0) {
+    return { queued: 0, failed: 0 };
+  }
+
+  // Initialize SMS provider
+  const initialized = await initializeSMSProvider();
+  if (!initialized) {
+    console.log("SMS provider not initialized, skipping swap offer notifications");
+    return { queued: 0, failed: 0 };
+  }
+
+  const area = await storage.getArea(shift.areaId);
+  const details = formatShiftDetails(shift, area);
+  const message = swap.targetEmployeeId
+    ? `[ShiftConnect] ${offeredBy.name} asked if you can take their shift: ${details}.${swap.note ? `\nNote: ${swap.note}` : ""}\n\nReply YES ${shift.smsCode} to take it.`
+    : `[ShiftConnect] ${offeredBy.name} is giving away a shift: ${details}.${swap.note ? `\nNote: ${swap.note}` : ""}\n\nReply YES ${shift.smsCode} to take it.`;
+
+  let queued = 0;
+  let failed = 0;
+
+  for (const employee of optedIn) {
+    try {
+      await enqueueSMS({
+        employeeId: employee.id,
+        content: message,
+        messageType: "swap_offer",
+        relatedShiftId: shift.id,
+        threadId: randomUUID(),
+        smsProvider: settings.smsProvider,
+      });
+      queued++;
+    } catch (error) {
+      console.error(`Failed to queue swap offer for ${employee.name}:`, error);
+      failed++;
+    }
+  }
+
+  // Log audit event
+  await logAuditEvent({
+    action: "sms_sent",
+    actor: null,
+    targetType: "shift",
+    targetId: shift.id,
+    targetName: details,
+    details: {
+      type: "swap_offer",
+      provider: settings.smsProvider,
+      swapId: swap.id,
+      recipientCount: optedIn.length,
+      queued,
+      failed,
+    },
+    ipAddress: undefined,
+  });
+
+  return { queued, failed };
+}
+
+/**
+ * Poll employees to cover a shift on short notice, e.g. after someone calls out.
+ * Each recipient's next reply (1 or YES, 2 or NO) is read as their answer until the shift starts.
+ */
+export async function notifyCalloutPoll(
+  shift: Shift,
+  area: Area | undefined,
+  recipients: Employee[]
+): Promise<{ queued: number; failed: number }> {
+  const settings = await getSMSSettings();
+
+  // Check if notifications are enabled
+  if (!settings.smsEnabled) {
+    return { queued: 0, failed: 0 };
+  }
+
+  const optedIn = recipients.filter(e => e.smsOptIn && e.status === "active");
+  if (optedIn.length === 0) {
+    return { queued: 0, failed: 0 };
+  }
+
+  // Initialize SMS provider
+  const initialized = await initializeSMSProvider();
+  if (!initialized) {
+    console.log("SMS provider not initialized, skipping callout poll");
+    return { queued: 0, failed: 0 };
+  }
+
+  const details = formatShiftDetails(shift, area);
+  const bonus = shift.bonusAmount ? `\nBonus: $${shift.bonusAmount}` : "";
+  const message = `[ShiftConnect] Can you cover a shift on short notice?\n${details}${bonus}\n\nReply 1 - Yes, I can work it\nReply 2 - No`;
+
+  // The poll stays open until the shift starts
+  const shiftStart = new Date(`${shift.date}T${shift.startTime}:00`);
+  const expiresAt = shiftStart.getTime() > Date.now() ? shiftStart : undefined;
+
+  let queued = 0;
+  let failed = 0;
+
+  for (const employee of optedIn) {
+    try {
+      await enqueueSMS({
+        employeeId: employee.id,
+        content: message,
+        messageType: "callout_poll",
+        relatedShiftId: shift.id,
+        threadId: randomUUID(),
+        smsProvider: settings.smsProvider,
+      });
+      await startConversation(employee.id, { flow: "callout_poll", shiftId: shift.id }, expiresAt);
+      queued++;
+    } catch (error) {
+      console.error(`Failed to queue callout poll for ${employee.name}:`, error);
+      failed++;
+    }
+  }
+
+  // Log audit event
+  await logAuditEvent({
+    action: "sms_sent",
+    actor: null,
+    targetType: "shift",
+    targetId: shift.id,
+    targetName: details,
+    details: {
+      type: "callout_poll",
+      provider: settings.smsProvider,
+      recipientCount: optedIn.length,
+      queued,
+      failed,
+    },
+    ipAddress: undefined,
+  });
+
+  return { queued, failed };
+}
+
+/**
+ * Page area supervisors when a shift is still unfilled after every other escalation step.
+ * Sent regardless of quiet hours - this is the last step before the shift goes uncovered.
+ */
+export async function notifySupervisorsUnfilledShift(
+  shift: Shift,
+  area: Area | undefined,
+  supervisors: Employee[],
+  webhookBaseUrl?: string
+): Promise<{ sent: number; failed: number }> {
+  const settings = await getSMSSettings();
 
+  // Check if notifications are enabled
+  if (!settings.smsEnabled) {
+    return { sent: 0, failed: 0 };
+  }
+
+  const optedIn = supervisors.filter(e => e.smsOptIn && e.status === "active");
+  if (optedIn.length === 0) {
+    return { sent: 0, failed: 0 };
+  }
+
+  // Initialize SMS provider
+  const initialized = await initializeSMSProvider();
+  if (!initialized) {
+    console.log("SMS provider not initialized, skipping supervisor page");
+    return { sent: 0, failed: 0 };
+  }
+
+  const details = formatShiftDetails(shift, area);
+  const notified = shift.notificationCount ? ` ${shift.notificationCount} employee(s) were notified.` : "";
+  const bonus = shift.bonusAmount ? ` Current bonus: $${shift.bonusAmount}.` : "";
+  const message = `[ShiftConnect] Unfilled shift needs attention: ${details} (code ${shift.smsCode}).${notified}${bonus} No one has responded yet.`;
+
+  const statusCallback = getStatusCallback(webhookBaseUrl);
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const employee of optedIn) {
     try {
       // Create message record
       const messageRecord = await storage.createMessage({
@@ -775,18 +1176,18 @@ export async function notifyShiftFilledToOthers(
         direction: "outbound",
         content: message,
         status: "pending",
-        messageType: "general",
+        messageType: "escalation_page",
         relatedShiftId: shift.id,
         threadId: randomUUID(),
       });
 
-      // Send SMS using provider abstraction
-      const result = await smsProvider.sendSMS(employee.phone, message, statusCallback);
+      // Send SMS using provider abstraction with retry
+      const result = await smsProvider.sendSMSWithRetry(employee.phone, message, statusCallback);
 
       // Update message with result
       await storage.updateMessage(messageRecord.id, {
         providerMessageId: result.messageId || result.providerMessageId || null,
-        smsProvider: settings.smsProvider,
+        smsProvider: result.provider ?? settings.smsProvider,
         status: result.success ? "sent" : "failed",
         deliveryStatus: result.status || null,
         errorCode: result.errorCode || null,
@@ -799,17 +1200,272 @@ export async function notifyShiftFilledToOthers(
       } else {
         failed++;
       }
+    } catch (error) {
+      console.error(`Failed to page supervisor ${employee.name}:`, error);
+      failed++;
+    }
+  }
 
-      // Small delay to respect rate limits
-      await new Promise((resolve) => setTimeout(resolve, 50));
+  // Log audit event
+  await logAuditEvent({
+    action: "sms_sent",
+    actor: null,
+    targetType: "shift",
+    targetId: shift.id,
+    targetName: details,
+    details: {
+      type: "escalation_page",
+      provider: settings.smsProvider,
+      recipientCount: optedIn.length,
+      sent,
+      failed,
+    },
+    ipAddress: undefined,
+  });
+
+  return { sent, failed };
+}
+
+/**
+ * Tell one side of a swap that a supervisor approved or denied it
+ */
+export async function notifySwapDecision(
+  shift: Shift,
+  swap: ShiftSwap,
+  employee: Employee,
+  webhookBaseUrl?: string
+): Promise<SendSMSResult> {
+  const settings = await getSMSSettings();
+
+  // Check if notifications are enabled
+  if (!settings.smsEnabled) {
+    return { success: false, errorMessage: "Notifications disabled" };
+  }
+
+  // Check if employee has opted in
+  if (!employee.smsOptIn) {
+    return { success: false, errorMessage: "Employee opted out of SMS" };
+  }
+
+  // Initialize SMS provider
+  const initialized = await initializeSMSProvider();
+  if (!initialized) {
+    return { success: false, errorMessage: "SMS provider not initialized" };
+  }
+
+  const area = await storage.getArea(shift.areaId);
+  const details = formatShiftDetails(shift, area);
+  const note = swap.reviewNote ? `\nNote: ${swap.reviewNote}` : "";
+  const isOfferer = employee.id === swap.offeredById;
+  let message: string;
+  if (swap.status === "approved") {
+    message = isOfferer
+      ? `[ShiftConnect] Your shift swap was approved. You're no longer scheduled for ${details}.${note}`
+      : `[ShiftConnect] Your shift swap was approved. You're now scheduled for ${details}.${note}\n\nReply CONFIRM to confirm.`;
+  } else {
+    message = isOfferer
+      ? `[ShiftConnect] Your shift swap for ${details} was not approved. You're still scheduled for this shift.${note}`
+      : `[ShiftConnect] The shift swap for ${details} was not approved. You're not scheduled for this shift.${note}`;
+  }
+
+  const statusCallback = getStatusCallback(webhookBaseUrl);
+
+  try {
+    // Create message record
+    const messageRecord = await storage.createMessage({
+      employeeId: employee.id,
+      direction: "outbound",
+      content: message,
+      status: "pending",
+      messageType: "swap_decision",
+      relatedShiftId: shift.id,
+      threadId: randomUUID(),
+    });
+
+    // Send SMS using provider abstraction with retry
+    const result = await smsProvider.sendSMSWithRetry(employee.phone, message, statusCallback);
+
+    // Update message with result
+    await storage.updateMessage(messageRecord.id, {
+      providerMessageId: result.messageId || result.providerMessageId || null,
+      smsProvider: result.provider ?? settings.smsProvider,
+      status: result.success ? "sent" : "failed",
+      deliveryStatus: result.status || null,
+      errorCode: result.errorCode || null,
+      errorMessage: result.errorMessage || null,
+      segments: result.segments || 1,
+    });
+
+    // Log audit event
+    await logAuditEvent({
+      action: result.success ? "sms_sent" : "sms_failed",
+      actor: null,
+      targetType: "message",
+      targetId: messageRecord.id,
+      targetName: employee.name,
+      details: {
+        type: "swap_decision",
+        provider: result.provider ?? settings.smsProvider,
+        shiftId: shift.id,
+        swapId: swap.id,
+        messageId: result.messageId,
+        errorCode: result.errorCode,
+      },
+      ipAddress: undefined,
+    });
+
+    return result;
+  } catch (error) {
+    console.error(`Failed to send swap decision to ${employee.name}:`, error);
+    return { success: false, errorMessage: "Send failed" };
+  }
+}
+
+/**
+ * Send shift reminder (typically called by a scheduled job)
+ */
+export async function sendShiftReminder(
+  shift: Shift,
+  employee: Employee,
+  area?: Area | null,
+  webhookBaseUrl?: string
+): Promise<SendSMSResult> {
+  const settings = await getSMSSettings();
+
+  // Check if reminders are enabled
+  if (!settings.smsEnabled || !settings.shiftReminderEnabled) {
+    return { success: false, errorMessage: "Reminders disabled" };
+  }
+
+  // Check if employee has opted in
+  if (!employee.smsOptIn) {
+    return { success: false, errorMessage: "Employee opted out of SMS" };
+  }
+
+  // Initialize SMS provider
+  const initialized = await initializeSMSProvider();
+  if (!initialized) {
+    return { success: false, errorMessage: "SMS provider not initialized" };
+  }
+
+  // Look up position for template
+  const position = await storage.getPosition(shift.positionId);
+  
+  // Try to get template, fall back to hardcoded message
+  const templateMessage = await getRenderedTemplate("shift_reminder", {
+    shift,
+    employee,
+    area,
+    position: position ? { title: position.title } : undefined,
+  });
+  const message =
+    templateMessage ||
+    `[ShiftConnect] Reminder: Your shift starts soon!\n${formatShiftDetails(shift, area)}\nPlease arrive on time.`;
+
+  const statusCallback = getStatusCallback(webhookBaseUrl);
+
+  try {
+    // Create message record
+    const messageRecord = await storage.createMessage({
+      employeeId: employee.id,
+      direction: "outbound",
+      content: message,
+      status: "pending",
+      messageType: "shift_reminder",
+      relatedShiftId: shift.id,
+      threadId: randomUUID(),
+    });
+
+    // Send SMS using provider abstraction with retry
+    const result = await smsProvider.sendSMSWithRetry(employee.phone, message, statusCallback);
+
+    // Update message with result
+    await storage.updateMessage(messageRecord.id, {
+      providerMessageId: result.messageId || result.providerMessageId || null,
+      smsProvider: result.provider ?? settings.smsProvider,
+      status: result.success ? "sent" : "failed",
+      deliveryStatus: result.status || null,
+      errorCode: result.errorCode || null,
+      errorMessage: result.errorMessage || null,
+      segments: result.segments || 1,
+    });
+
+    return result;
+  } catch (error) {
+    console.error(`Failed to send reminder to ${employee.name}:`, error);
+    return { success: false, errorMessage: "Send failed" };
+  }
+}
+
+/**
+ * Notify other interested employees when a shift they expressed interest in is filled
+ */
+export async function notifyShiftFilledToOthers(
+  shift: Shift,
+  assignedEmployeeId: string,
+  webhookBaseUrl?: string
+): Promise<{ queued: number; failed: number }> {
+  const settings = await getSMSSettings();
+
+  // Check if notifications are enabled
+  if (!settings.smsEnabled) {
+    return { queued: 0, failed: 0 };
+  }
+
+  // Initialize SMS provider
+  const initialized = await initializeSMSProvider();
+  if (!initialized) {
+    console.log("SMS provider not initialized, skipping shift filled notifications");
+    return { queued: 0, failed: 0 };
+  }
+
+  // Get all employees who expressed interest but weren't assigned
+  const interests = await storage.getShiftInterests(shift.id);
+  const area = await storage.getArea(shift.areaId);
+
+  // Filter out the assigned employee and get employee objects
+  const otherInterestedIds = interests
+    .filter((i) => i.employeeId !== assignedEmployeeId)
+    .map((i) => i.employeeId);
+
+  if (otherInterestedIds.length === 0) {
+    return { queued: 0, failed: 0 };
+  }
+
+  const employees = await storage.getEmployees();
+  const otherInterested = employees.filter(
+    (e) => otherInterestedIds.includes(e.id) && e.smsOptIn && e.status === "active"
+  );
+
+  if (otherInterested.length === 0) {
+    return { queued: 0, failed: 0 };
+  }
+
+  let queued = 0;
+  let failed = 0;
+
+  for (const employee of otherInterested) {
+    // Compose message - no template needed, this is a system notification
+    const message = `[ShiftConnect] Update: The shift on ${shift.date} (${shift.startTime}-${shift.endTime}) at ${shift.location}${area ? ` (${area.name})` : ""} has been filled.\n\nYou'll be notified of new available shifts. Reply SHIFTS to see current openings.`;
+
+    try {
+      await enqueueSMS({
+        employeeId: employee.id,
+        content: message,
+        messageType: "general",
+        relatedShiftId: shift.id,
+        threadId: randomUUID(),
+        smsProvider: settings.smsProvider,
+      });
+      queued++;
     } catch (error) {
-      console.error(`Failed to send shift filled notification to ${employee.name}:`, error);
+      console.error(`Failed to queue shift filled notification for ${employee.name}:`, error);
       failed++;
     }
   }
 
   // Log audit event
-  if (sent > 0 || failed > 0) {
+  if (queued > 0 || failed > 0) {
     await logAuditEvent({
       action: "sms_sent",
       actor: null,
@@ -820,14 +1476,14 @@ export async function notifyShiftFilledToOthers(
         type: "shift_filled_notification",
         provider: settings.smsProvider,
         recipientCount: otherInterested.length,
-        sent,
+        queued,
         failed,
       },
       ipAddress: undefined,
     });
   }
 
-  return { sent, failed };
+  return { queued, failed };
 }
 
 /**
@@ -846,17 +1502,10 @@ export async function isSMSConfigured(): Promise<boolean> {
   const settings = await getSMSSettings();
   if (!settings.smsEnabled) return false;
 
-  if (settings.smsProvider === "ringcentral") {
-    return !!(
-      settings.ringcentralClientId &&
-      settings.ringcentralClientSecret &&
-      settings.ringcentralJwt &&
-      settings.ringcentralFromNumber
-    );
-  }
-
-  // Twilio
-  return !!(settings.twilioAccountSid && settings.twilioAuthToken && settings.twilioFromNumber);
+  return (
+    isProviderConfigured(settings, settings.smsProvider) ||
+    (!!settings.smsSecondaryProvider && isProviderConfigured(settings, settings.smsSecondaryProvider))
+  );
 }
 
 /**
@@ -900,9 +1549,7 @@ export async function notifyShiftInterestConfirmation(
     templateMessage ||
     `[ShiftConnect] Interest Received!\nWe got your interest for:\n${formatShiftDetails(shift, area)}\nYou'll be notified if assigned.`;
 
-  const statusCallback = webhookBaseUrl
-    ? `${webhookBaseUrl}/api/webhooks/${settings.smsProvider}/status`
-    : undefined;
+  const statusCallback = getStatusCallback(webhookBaseUrl);
 
   try {
     // Create message record
@@ -922,7 +1569,7 @@ export async function notifyShiftInterestConfirmation(
     // Update message with result
     await storage.updateMessage(messageRecord.id, {
       providerMessageId: result.messageId || result.providerMessageId || null,
-      smsProvider: settings.smsProvider,
+      smsProvider: result.provider ?? settings.smsProvider,
       status: result.success ? "sent" : "failed",
       deliveryStatus: result.status || null,
       errorCode: result.errorCode || null,
@@ -939,7 +1586,7 @@ export async function notifyShiftInterestConfirmation(
       targetName: employee.name,
       details: {
         type: "shift_interest_confirmation",
-        provider: settings.smsProvider,
+        provider: result.provider ?? settings.smsProvider,
         shiftId: shift.id,
         messageId: result.messageId,
         errorCode: result.errorCode,
@@ -954,4 +1601,4 @@ export async function notifyShiftInterestConfirmation(
   }
 }
 
-export { getSMSSettings, initializeSMSProvider, isQuietHours };
+export { getSMSSettings, initializeSMSProvider, isProviderConfigured, getStatusCallback, isQuietHours };
@@ -0,0 +1,315 @@
+import { storage } from "../storage";
+import { smsProvider, type StatusCallback } from "./sms";
+import { getSMSSettings, getStatusCallback, initializeSMSProvider, isQuietHours } from "./smsNotifications";
+import { markShiftOfferFailed } from "./fairRotation";
+import { toOutboundMedia } from "./smsMedia";
+import { broadcastMessageStatus } from "../websocket";
+import type { InsertMessage, Message } from "@shared/schema";
+
+// Give up on recoverable errors after this many attempts
+const MAX_ATTEMPTS = 5;
+
+// First retry waits 30 seconds, doubling each time (30s, 1m, 2m, 4m)
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+// Statuses meaning the provider accepted the message - these count toward the daily limit
+const SENT_STATUSES = ["sent", "delivered", "undelivered"];
+
+export type QueuedSMS = Omit<InsertMessage, "direction" | "status" | "attempts" | "nextAttemptAt">;
+
+type SendOutcome = "sent" | "retried" | "failed" | "cancelled";
+
+/**
+ * Add an outbound SMS to the persisted queue. The worker sends it, retrying recoverable errors,
+ * so it survives a restart between being queued and going out.
+ */
+export async function enqueueSMS(message: QueuedSMS): Promise<Message> {
+  const record = await storage.createMessage({
+    ...message,
+    direction: "outbound",
+    status: "queued",
+  });
+  broadcastMessageStatus(record);
+  requestDrain();
+  return record;
+}
+
+/**
+ * Midnight today in server local time
+ */
+function startOfToday(): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+/**
+ * A queued new-shift text or callout poll is pointless once the shift has been filled, cancelled or deleted
+ */
+async function isStaleShiftNotification(message: Message): Promise<boolean> {
+  if ((message.messageType !== "shift_notification" && message.messageType !== "callout_poll") || !message.relatedShiftId) return false;
+  const shift = await storage.getShift(message.relatedShiftId);
+  return !shift || shift.status !== "available";
+}
+
+/**
+ * When a message that has been tried this many times goes back in the queue
+ */
+function nextRetryAt(attempts: number): Date {
+  return new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+}
+
+/**
+ * Record that a queued message will never reach the employee
+ */
+async function handleUndeliverable(message: Message): Promise<void> {
+  if (message.messageType === "shift_notification" && message.relatedShiftId) {
+    await markShiftOfferFailed(message.relatedShiftId, message.employeeId);
+  }
+}
+
+/**
+ * Send one queued message, requeueing it with backoff if the provider reports a recoverable error.
+ * Messages with attachments go out as MMS.
+ */
+async function sendQueuedMessage(
+  message: Message,
+  provider: string,
+  webhookBaseUrl: string | undefined,
+  statusCallback: StatusCallback | undefined
+): Promise<SendOutcome> {
+  if (await isStaleShiftNotification(message)) {
+    await storage.updateMessage(message.id, { status: "cancelled", errorMessage: "Shift no longer available" });
+    await handleUndeliverable(message);
+    return "cancelled";
+  }
+
+  const employee = await storage.getEmployee(message.employeeId);
+  if (!employee || !employee.smsOptIn) {
+    await storage.updateMessage(message.id, {
+      status: "cancelled",
+      errorMessage: employee ? "Employee opted out" : "Employee not found",
+    });
+    await handleUndeliverable(message);
+    return "cancelled";
+  }
+
+  // Mark in flight so a restart mid-send puts it back in the queue
+  const attempts = message.attempts + 1;
+  await storage.updateMessage(message.id, { status: "pending", attempts });
+
+  let result: Awaited<ReturnType<typeof smsProvider.sendSMS>>;
+  try {
+    const attachments = await storage.getMessageAttachments([message.id]);
+    result = attachments.length > 0
+      ? await smsProvider.sendMMS(employee.phone, message.content, toOutboundMedia(attachments, webhookBaseUrl ?? ""), statusCallback)
+      : await smsProvider.sendSMS(employee.phone, message.content, statusCallback);
+  } catch (error) {
+    // Don't leave the message stuck as pending - retry it like a recoverable error until attempts run out
+    console.error(`Error sending queued message ${message.id}:`, error);
+    const retry = attempts < MAX_ATTEMPTS;
+    await storage.updateMessage(message.id, {
+      status: retry ? "queued" : "failed",
+      errorMessage: error instanceof Error ? error.message : String(error),
+      nextAttemptAt: retry ? nextRetryAt(attempts) : null,
+    });
+
+    if (!retry) {
+      await handleUndeliverable(message);
+      return "failed";
+    }
+    return "retried";
+  }
+
+  if (result.success) {
+    await storage.updateMessage(message.id, {
+      providerMessageId: result.messageId || result.providerMessageId || null,
+      smsProvider: result.provider ?? provider,
+      status: "sent",
+      deliveryStatus: result.status || null,
+      errorCode: null,
+      errorMessage: null,
+      segments: result.segments || 1,
+      nextAttemptAt: null,
+    });
+    return "sent";
+  }
+
+  const retry =
+    attempts < MAX_ATTEMPTS && !!result.errorCode && smsProvider.isRecoverableError(result.errorCode, result.provider);
+  await storage.updateMessage(message.id, {
+    smsProvider: result.provider ?? provider,
+    status: retry ? "queued" : "failed",
+    errorCode: result.errorCode || null,
+    errorMessage: result.errorMessage || null,
+    nextAttemptAt: retry ? nextRetryAt(attempts) : null,
+  });
+
+  if (!retry) {
+    await handleUndeliverable(message);
+    return "failed";
+  }
+  return "retried";
+}
+
+/**
+ * Send queued messages that are due - not waiting on a retry backoff or a scheduled time.
+ * Quiet-hours messages wait for the window to open, and nothing goes out once today's SMS limit is used up.
+ */
+export async function processOutboundQueue(webhookBaseUrl?: string): Promise<{
+  sent: number;
+  retried: number;
+  failed: number;
+  cancelled: number;
+  deferred: number;
+}> {
+  const counts = { sent: 0, retried: 0, failed: 0, cancelled: 0, deferred: 0 };
+  const now = new Date();
+  const due = (await storage.getOutboundMessagesByStatus("queued"))
+    .filter(m => !m.nextAttemptAt || new Date(m.nextAttemptAt) <= now)
+    .filter(m => !m.scheduledFor || new Date(m.scheduledFor) <= now);
+  if (due.length === 0) return counts;
+
+  // Hold everything while SMS is turned off
+  const settings = await getSMSSettings();
+  if (!settings.smsEnabled) {
+    counts.deferred = due.length;
+    return counts;
+  }
+
+  const quietHours =
+    settings.smsRespectQuietHours &&
+    isQuietHours(settings.smsQuietHoursStart, settings.smsQuietHoursEnd);
+  const ready = due.filter(m => !(quietHours && m.respectQuietHours));
+  counts.deferred = due.length - ready.length;
+  if (ready.length === 0) return counts;
+
+  const sentToday = await storage.countOutboundMessagesSince(startOfToday(), SENT_STATUSES);
+  const allowance = Math.max(0, settings.smsDailyLimit - sentToday);
+  if (allowance < ready.length) {
+    console.log(`SMS daily limit of ${settings.smsDailyLimit} reached, holding ${ready.length - allowance} queued message(s) until tomorrow`);
+  }
+  const batch = ready.slice(0, allowance);
+  counts.deferred += ready.length - batch.length;
+  if (batch.length === 0) return counts;
+
+  const initialized = await initializeSMSProvider();
+  if (!initialized) {
+    console.log("SMS provider not initialized, leaving messages queued");
+    counts.deferred += batch.length;
+    return counts;
+  }
+
+  const statusCallback = getStatusCallback(webhookBaseUrl);
+
+  for (const message of batch) {
+    try {
+      const outcome = await sendQueuedMessage(message, settings.smsProvider, webhookBaseUrl, statusCallback);
+      counts[outcome]++;
+      broadcastMessageStatus({ ...message, status: outcome === "retried" ? "queued" : outcome });
+    } catch (error) {
+      console.error(`Error sending queued message ${message.id}:`, error);
+      counts.failed++;
+    }
+
+    // Small delay to respect rate limits
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+
+  return counts;
+}
+
+/**
+ * Put messages that were mid-send when the process stopped back in the queue.
+ * Only queue-owned messages (attempts > 0) are recovered - an interrupted send may go out twice.
+ */
+async function recoverInterruptedSends(): Promise<number> {
+  const interrupted = (await storage.getOutboundMessagesByStatus("pending")).filter(m => m.attempts > 0);
+  for (const message of interrupted) {
+    await storage.updateMessage(message.id, { status: "queued", nextAttemptAt: null });
+  }
+  return interrupted.length;
+}
+
+// Interval-based worker that drains the outbound queue
+let queueInterval: NodeJS.Timeout | null = null;
+let queueWebhookBaseUrl: string | undefined;
+let draining = false;
+let drainRequested = false;
+
+/**
+ * Drain the queue, running again if more messages were queued while it was busy
+ */
+async function drainQueue(): Promise<void> {
+  if (draining) {
+    drainRequested = true;
+    return;
+  }
+
+  draining = true;
+  try {
+    do {
+      drainRequested = false;
+      const result = await processOutboundQueue(queueWebhookBaseUrl);
+      if (result.sent + result.retried + result.failed + result.cancelled > 0) {
+        console.log(
+          `SMS queue: sent ${result.sent}, retrying ${result.retried}, failed ${result.failed}, cancelled ${result.cancelled}, deferred ${result.deferred}`
+        );
+      }
+    } while (drainRequested);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Start draining right away instead of waiting for the next tick. No-op until the worker is started.
+ */
+function requestDrain(): void {
+  if (!queueInterval) return;
+  setImmediate(() => {
+    drainQueue().catch(error => {
+      console.error("Error draining SMS queue:", error);
+    });
+  });
+}
+
+/**
+ * Start the outbound SMS queue worker
+ * Ticks every few seconds to pick up retries, scheduled sends and messages held for quiet hours or the daily limit
+ */
+export function startSMSQueueWorker(webhookBaseUrl?: string, intervalSeconds = 15): void {
+  if (queueInterval) {
+    clearInterval(queueInterval);
+  }
+
+  queueWebhookBaseUrl = webhookBaseUrl;
+  queueInterval = setInterval(() => {
+    drainQueue().catch(error => {
+      console.error("Error in SMS queue worker:", error);
+    });
+  }, intervalSeconds * 1000);
+
+  recoverInterruptedSends()
+    .then(recovered => {
+      if (recovered > 0) {
+        console.log(`SMS queue: requeued ${recovered} message(s) interrupted by a restart`);
+      }
+      requestDrain();
+    })
+    .catch(error => {
+      console.error("Error recovering interrupted SMS sends:", error);
+    });
+
+  console.log(`Started SMS queue worker (every ${intervalSeconds} seconds)`);
+}
+
+/**
+ * Stop the outbound SMS queue worker
+ */
+export function stopSMSQueueWorker(): void {
+  if (queueInterval) {
+    clearInterval(queueInterval);
+    queueInterval = null;
+    console.log("Stopped SMS queue worker");
+  }
+}
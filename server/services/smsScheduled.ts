@@ -0,0 +1,133 @@
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import { enqueueSMS } from "./smsQueue";
+import { saveOutboundAttachments } from "./smsMedia";
+import { getSMSSettings, isQuietHours } from "./smsNotifications";
+import type { Message } from "@shared/schema";
+import type { MmsUpload } from "@shared/mms";
+
+// How far ahead a message can be scheduled
+export const MAX_SCHEDULE_DAYS = 90;
+
+// A message written once and scheduled for one or more employees
+export interface ScheduledSend {
+  id: string; // Batch ID shared by the recipients' messages
+  content: string;
+  messageType: string;
+  scheduledFor: Date;
+  scheduledBy: string | null;
+  scheduledByName: string | null;
+  createdAt: Date;
+  heldForQuietHours: boolean; // Scheduled inside quiet hours - goes out when they end
+  attachmentCount: number;
+  recipients: { messageId: string; employeeId: string; name: string; phone: string }[];
+}
+
+/**
+ * Parse a requested send time, or explain why it can't be used
+ */
+export function parseScheduledFor(value: unknown): { scheduledFor: Date } | { error: string } {
+  const scheduledFor = typeof value === "string" || typeof value === "number" ? new Date(value) : null;
+  if (!scheduledFor || isNaN(scheduledFor.getTime())) {
+    return { error: "Invalid scheduled time" };
+  }
+  if (scheduledFor.getTime() <= Date.now()) {
+    return { error: "Scheduled time must be in the future" };
+  }
+  if (scheduledFor.getTime() > Date.now() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+    return { error: `Messages can be scheduled at most ${MAX_SCHEDULE_DAYS} days ahead` };
+  }
+  return { scheduledFor };
+}
+
+/**
+ * Queue a message for each employee, held until scheduledFor. Quiet hours apply when it comes due,
+ * except to shift reminders, same as immediate sends.
+ * @returns The batch ID of the scheduled send
+ */
+export async function scheduleMessage(options: {
+  employeeIds: string[];
+  content: string;
+  messageType: string;
+  scheduledFor: Date;
+  scheduledBy: string | null;
+  uploads?: MmsUpload[];
+  smsProvider?: string;
+}): Promise<string> {
+  const batchId = randomUUID();
+  for (const employeeId of options.employeeIds) {
+    const message = await enqueueSMS({
+      employeeId,
+      content: options.content,
+      messageType: options.messageType,
+      smsProvider: options.smsProvider,
+      threadId: randomUUID(),
+      respectQuietHours: options.messageType !== "shift_reminder",
+      scheduledFor: options.scheduledFor,
+      scheduledBy: options.scheduledBy,
+      batchId,
+    });
+    if (options.uploads && options.uploads.length > 0) {
+      await saveOutboundAttachments(message.id, options.uploads);
+    }
+  }
+  return batchId;
+}
+
+/**
+ * Messages of a scheduled send that haven't started sending yet
+ */
+export async function getPendingBatchMessages(batchId: string): Promise<Message[]> {
+  const queued = await storage.getOutboundMessagesByStatus("queued");
+  return queued.filter(m => m.batchId === batchId && m.scheduledFor);
+}
+
+/**
+ * Scheduled sends still waiting to go out, soonest first
+ */
+export async function getScheduledSends(): Promise<ScheduledSend[]> {
+  const queued = (await storage.getOutboundMessagesByStatus("queued")).filter(m => m.scheduledFor && m.batchId);
+  if (queued.length === 0) return [];
+
+  const [employees, users, attachments, settings] = await Promise.all([
+    storage.getEmployees(),
+    storage.getUsers(),
+    storage.getMessageAttachments(queued.map(m => m.id)),
+    getSMSSettings(),
+  ]);
+
+  const sends = new Map<string, ScheduledSend>();
+  for (const message of queued) {
+    const scheduledFor = new Date(message.scheduledFor!);
+    let send = sends.get(message.batchId!);
+    if (!send) {
+      const scheduler = users.find(u => u.id === message.scheduledBy);
+      send = {
+        id: message.batchId!,
+        content: message.content,
+        messageType: message.messageType ?? "general",
+        scheduledFor,
+        scheduledBy: message.scheduledBy,
+        scheduledByName: scheduler?.username ?? null,
+        createdAt: message.createdAt,
+        heldForQuietHours:
+          settings.smsRespectQuietHours &&
+          message.respectQuietHours &&
+          isQuietHours(settings.smsQuietHoursStart, settings.smsQuietHoursEnd, scheduledFor),
+        attachmentCount: attachments.filter(a => a.messageId === message.id).length,
+        recipients: [],
+      };
+      sends.set(message.batchId!, send);
+    }
+
+    const employee = employees.find(e => e.id === message.employeeId);
+    send.recipients.push({
+      messageId: message.id,
+      employeeId: message.employeeId,
+      name: employee?.name ?? "Unknown employee",
+      phone: employee?.phone ?? "",
+    });
+  }
+
+  return Array.from(sends.values()).sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+}
@@ -89,6 +89,18 @@ export const TEMPLATE_VARIABLES: Record<string, Array<{ name: string; descriptio
     { name: "location", description: "Training location" },
     { name: "employeeName", description: "Employee's name" },
   ],
+  certification_expiry: [
+    { name: "employeeName", description: "Employee's name" },
+    { name: "certificationName", description: "Certification name (e.g., BLS)" },
+    { name: "expiresOn", description: "Expiration date" },
+    { name: "daysLeft", description: "Days until the certification expires" },
+  ],
+  certification_expiry_supervisor: [
+    { name: "employeeName", description: "Name of the employee whose certification is expiring" },
+    { name: "certificationName", description: "Certification name (e.g., BLS)" },
+    { name: "expiresOn", description: "Expiration date" },
+    { name: "daysLeft", description: "Days until the certification expires" },
+  ],
   welcome: [
     { name: "employeeName", description: "Employee's name" },
     { name: "appUrl", description: "Application URL" },
@@ -279,12 +291,18 @@ export function previewTemplate(template: string, category: TemplateCategory): s
       postedByName: "Admin",
       status: "available",
       assignedEmployeeId: null,
+      filledAt: null,
       smsCode: "ABC123",
       bonusAmount: 50,
       createdAt: new Date(),
       notifyAllAreas: false,
       lastNotifiedAt: null,
       notificationCount: 0,
+      templateId: null,
+      occurrenceDate: null,
+      escalationPolicy: null,
+      escalationStage: 0,
+      escalatedAt: null,
     },
     employee: {
       id: "emp-sample",
@@ -298,17 +316,28 @@ export function previewTemplate(template: string, category: TemplateCategory): s
       smsOptIn: true,
       username: null,
       webAccessEnabled: false,
+      hireDate: null,
+      smsMaxPerHour: null,
+      smsMaxPerDay: null,
+      smsDigestMinutes: null,
     },
     area: {
       id: "area-1",
       name: "Emergency",
       description: "Emergency Department",
       smsEnabled: true,
+      autoAwardPolicy: null,
+      autoAwardDelayMinutes: 0,
     },
     position: {
       title: "DSP",
     },
     message: "This is a sample message.",
+    custom: {
+      certificationName: "BLS",
+      expiresOn: "2024-02-14",
+      daysLeft: "30",
+    },
   };
 
   return renderTemplate(template, sampleContext);
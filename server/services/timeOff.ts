@@ -0,0 +1,94 @@
+import { storage } from "../storage";
+import { addDays, formatDate } from "@shared/recurrence";
+import type { Shift, TimeOffRequest } from "@shared/schema";
+
+type ShiftTiming = Pick<Shift, "date" | "startTime" | "endTime">;
+type TimeOffRange = Pick<TimeOffRequest, "startDate" | "endDate">;
+
+/**
+ * Dates a shift touches - overnight shifts also touch the following day
+ */
+export function getShiftDates(shift: ShiftTiming): string[] {
+  return shift.endTime <= shift.startTime ? [shift.date, addDays(shift.date, 1)] : [shift.date];
+}
+
+/**
+ * Check whether a time-off range covers any part of a shift
+ */
+export function timeOffCoversShift(request: TimeOffRange, shift: ShiftTiming): boolean {
+  return getShiftDates(shift).some(date => date >= request.startDate && date <= request.endDate);
+}
+
+/**
+ * Find approved time off for an employee that overlaps the given shift
+ */
+export async function findApprovedTimeOff(employeeId: string, shift: ShiftTiming): Promise<TimeOffRequest | undefined> {
+  const approved = await storage.getTimeOffRequests({ employeeId, status: "approved" });
+  return approved.find(request => timeOffCoversShift(request, shift));
+}
+
+/**
+ * Shifts already assigned to the employee during a time-off range
+ */
+export async function getAssignedShiftsDuring(employeeId: string, request: TimeOffRange): Promise<Shift[]> {
+  const assigned = await storage.getShiftsByAssignedEmployee(employeeId);
+  return assigned.filter(shift => timeOffCoversShift(request, shift));
+}
+
+/**
+ * Human-readable range, e.g. "2026-11-03" or "2026-11-03 to 2026-11-05"
+ */
+export function describeTimeOff(request: TimeOffRange): string {
+  return request.startDate === request.endDate
+    ? request.startDate
+    : `${request.startDate} to ${request.endDate}`;
+}
+
+/**
+ * Parse a single date from an SMS: YYYY-MM-DD or M/D with an optional year.
+ * Dates without a year resolve to the next occurrence on or after today.
+ */
+export function parseSmsDate(value: string, today: string): string | null {
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const slashed = value.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (slashed) {
+    month = Number(slashed[1]);
+    day = Number(slashed[2]);
+    if (slashed[3]) {
+      year = Number(slashed[3]) + (slashed[3].length === 2 ? 2000 : 0);
+    } else {
+      year = Number(today.slice(0, 4));
+      const candidate = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+      if (candidate < today) year++;
+    }
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null; // e.g. 2026-02-30
+  }
+  return formatDate(date);
+}
+
+/**
+ * Parse the dates of an SMS time-off request such as "OFF 2026-11-03",
+ * "OFF 11/3 - 11/5" or "OFF 2026-11-03 to 2026-11-05"
+ */
+export function parseTimeOffDates(text: string, today: string): { startDate: string; endDate: string } | null {
+  const matches = text.match(/\d{4}-\d{1,2}-\d{1,2}|\d{1,2}\/\d{1,2}(?:\/\d{2,4})?/g);
+  if (!matches || matches.length === 0) return null;
+
+  const startDate = parseSmsDate(matches[0], today);
+  const endDate = matches.length > 1 ? parseSmsDate(matches[1], today) : startDate;
+  if (!startDate || !endDate || endDate < startDate) return null;
+
+  return { startDate, endDate };
+}
@@ -0,0 +1,355 @@
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import { getLocalToday } from "@shared/recurrence";
+import { logAuditEvent } from "../audit";
+import { enqueueSMS } from "./smsQueue";
+import { getRenderedTemplate } from "./smsTemplates";
+import { getSMSSettings, type SMSSettings } from "./smsNotifications";
+import {
+  getSessionStart,
+  type TrainingAssignmentWithEmployee,
+  type TrainingRsvpStatus,
+  type TrainingSessionSummary,
+  type TrainingSummary,
+} from "@shared/training";
+import type { Employee, Training, TrainingAssignment, TrainingRsvp, TrainingSession, User } from "@shared/schema";
+
+// RSVPs that take up a seat
+const SEAT_STATUSES: TrainingRsvpStatus[] = ["attending", "attended"];
+
+/**
+ * Hours before a session that attendees are reminded, from organization settings
+ */
+export async function getTrainingReminderHours(): Promise<number> {
+  const setting = await storage.getSetting("training_reminder_hours");
+  const hours = parseInt(setting?.value ?? "24", 10);
+  return isNaN(hours) || hours < 1 ? 24 : hours;
+}
+
+function summarizeSession(session: TrainingSession, rsvps: TrainingRsvp[], employeeId: string | null): TrainingSessionSummary {
+  const sessionRsvps = rsvps.filter(r => r.sessionId === session.id);
+  const attending = sessionRsvps.filter(r => SEAT_STATUSES.includes(r.status as TrainingRsvpStatus)).length;
+  const mine = employeeId ? sessionRsvps.find(r => r.employeeId === employeeId) : undefined;
+  return {
+    ...session,
+    attending,
+    spotsLeft: Math.max(0, session.maxAttendees - attending),
+    myRsvp: (mine?.status as TrainingRsvpStatus | undefined) ?? null,
+  };
+}
+
+/**
+ * Trainings with their sessions, seat counts and completion progress.
+ * Pass the signed-in user's employee ID to include their own assignment and RSVPs.
+ */
+export async function getTrainingSummaries(employeeId: string | null, trainingId?: string): Promise<TrainingSummary[]> {
+  const [trainings, sessions, assignments, rsvps] = await Promise.all([
+    trainingId ? storage.getTraining(trainingId).then(t => (t ? [t] : [])) : storage.getTrainings(),
+    storage.getTrainingSessions(trainingId),
+    storage.getTrainingAssignments(trainingId ? { trainingId } : undefined),
+    storage.getTrainingRsvps(),
+  ]);
+
+  return trainings.map(training => {
+    const trainingAssignments = assignments.filter(a => a.trainingId === training.id);
+    return {
+      ...training,
+      sessions: sessions
+        .filter(s => s.trainingId === training.id)
+        .map(s => summarizeSession(s, rsvps, employeeId)),
+      totalAssigned: trainingAssignments.length,
+      completedCount: trainingAssignments.filter(a => a.completedAt).length,
+      myAssignment: (employeeId && trainingAssignments.find(a => a.employeeId === employeeId)) || null,
+    };
+  }).sort((a, b) => {
+    // Soonest upcoming session or due date first; trainings with neither go last
+    const today = getLocalToday();
+    const next = (t: TrainingSummary) => t.sessions.find(s => s.date >= today)?.date ?? t.dueDate ?? "9999-12-31";
+    return next(a).localeCompare(next(b));
+  });
+}
+
+/**
+ * A training's assignments with employee names, outstanding ones first
+ */
+export async function getAssignmentsWithEmployees(training: Training): Promise<TrainingAssignmentWithEmployee[]> {
+  const [assignments, employees] = await Promise.all([
+    storage.getTrainingAssignments({ trainingId: training.id }),
+    storage.getEmployees(),
+  ]);
+  const names = new Map(employees.map(e => [e.id, e.name]));
+  const today = getLocalToday();
+
+  return assignments
+    .map(assignment => ({
+      ...assignment,
+      employeeName: names.get(assignment.employeeId) ?? "Unknown employee",
+      overdue: !assignment.completedAt && !!training.dueDate && training.dueDate < today,
+    }))
+    .sort((a, b) => Number(!!a.completedAt) - Number(!!b.completedAt) || a.employeeName.localeCompare(b.employeeName));
+}
+
+/**
+ * Assign a training to employees who don't already have it
+ * @returns The new assignments
+ */
+export async function assignTraining(training: Training, employeeIds: string[], actor: User | null): Promise<TrainingAssignment[]> {
+  const existing = new Set((await storage.getTrainingAssignments({ trainingId: training.id })).map(a => a.employeeId));
+  const created: TrainingAssignment[] = [];
+
+  for (const employeeId of Array.from(new Set(employeeIds))) {
+    if (existing.has(employeeId)) continue;
+    const employee = await storage.getEmployee(employeeId);
+    if (!employee || employee.status === "deleted") continue;
+    created.push(await storage.createTrainingAssignment({
+      trainingId: training.id,
+      employeeId,
+      assignedById: actor?.id ?? null,
+    }));
+  }
+  return created;
+}
+
+/**
+ * Record an employee's answer for a session. A seat is only taken while one is free,
+ * and answers close once the session starts.
+ */
+export async function respondToSession(
+  session: TrainingSession,
+  employeeId: string,
+  status: "attending" | "declined"
+): Promise<{ rsvp: TrainingRsvp } | { error: string }> {
+  if (getSessionStart(session) <= new Date()) {
+    return { error: "This session has already started" };
+  }
+
+  const rsvps = await storage.getTrainingRsvps({ sessionId: session.id });
+  const existing = rsvps.find(r => r.employeeId === employeeId);
+  if (existing?.status === "attended") {
+    return { error: "Attendance has already been recorded for this session" };
+  }
+
+  if (status === "attending" && existing?.status !== "attending") {
+    const taken = rsvps.filter(r => r.employeeId !== employeeId && SEAT_STATUSES.includes(r.status as TrainingRsvpStatus)).length;
+    if (taken >= session.maxAttendees) {
+      return { error: "This session is full" };
+    }
+  }
+
+  const rsvp = existing
+    ? await storage.updateTrainingRsvp(existing.id, { status, respondedAt: new Date() })
+    : await storage.createTrainingRsvp({ sessionId: session.id, employeeId, status });
+  return { rsvp: rsvp! };
+}
+
+/**
+ * Mark an employee's assignment complete or outstanding again. Completing a training the
+ * employee wasn't assigned - an optional session they attended - adds an assignment for the record.
+ */
+export async function setTrainingCompleted(
+  trainingId: string,
+  employeeId: string,
+  completed: boolean,
+  actor: User | null,
+  sessionId: string | null = null
+): Promise<TrainingAssignment> {
+  const [assignment] = await storage.getTrainingAssignments({ trainingId, employeeId });
+  const updates = completed
+    ? { completedAt: new Date(), completedById: actor?.id ?? null, sessionId }
+    : { completedAt: null, completedById: null, sessionId: null };
+
+  if (assignment) {
+    return (await storage.updateTrainingAssignment(assignment.id, updates))!;
+  }
+  return storage.createTrainingAssignment({ trainingId, employeeId, assignedById: null, ...updates });
+}
+
+/**
+ * Record that an employee attended a session, which completes the training for them
+ */
+export async function recordAttendance(session: TrainingSession, employeeId: string, actor: User | null): Promise<TrainingAssignment> {
+  const [existing] = await storage.getTrainingRsvps({ sessionId: session.id, employeeId });
+  if (existing) {
+    await storage.updateTrainingRsvp(existing.id, { status: "attended", respondedAt: new Date() });
+  } else {
+    await storage.createTrainingRsvp({ sessionId: session.id, employeeId, status: "attended" });
+  }
+  return setTrainingCompleted(session.trainingId, employeeId, true, actor, session.id);
+}
+
+/**
+ * Queue a reminder text. With a session it uses the training_reminder template; without one the
+ * employee is reminded of the due date and pointed at the next session with room, if any.
+ * @returns Whether a text was queued - employees who are inactive or opted out are skipped
+ */
+async function queueTrainingReminder(
+  employee: Employee,
+  training: Training,
+  session: TrainingSession | null,
+  nextOpenSession: TrainingSession | null,
+  settings: SMSSettings
+): Promise<boolean> {
+  if (!settings.smsEnabled || employee.status !== "active" || !employee.smsOptIn) return false;
+
+  let content: string;
+  if (session) {
+    const rendered = await getRenderedTemplate("training_reminder", {
+      employee,
+      custom: {
+        trainingTitle: training.title,
+        date: session.date,
+        time: session.startTime,
+        location: session.location ?? "",
+      },
+    });
+    content = rendered ||
+      `ShiftConnect: Reminder - You have ${training.title} training scheduled for ${session.date} at ${session.startTime}.${session.location ? ` Location: ${session.location}.` : ""}`;
+  } else {
+    const due = training.dueDate ? ` by ${training.dueDate}` : "";
+    const next = nextOpenSession ? ` Next session: ${nextOpenSession.date} at ${nextOpenSession.startTime} - sign up in the app.` : "";
+    content = `ShiftConnect: Reminder - please complete ${training.title}${due}.${next}`;
+  }
+
+  await enqueueSMS({
+    employeeId: employee.id,
+    content,
+    messageType: "training_reminder",
+    threadId: randomUUID(),
+    smsProvider: settings.smsProvider,
+    respectQuietHours: true,
+  });
+  return true;
+}
+
+/**
+ * Remind everyone with outstanding work on a training - employees who haven't completed their
+ * assignment, and anyone signed up for an upcoming session
+ */
+export async function sendTrainingReminders(training: Training): Promise<{ queued: number; skipped: number }> {
+  const now = new Date();
+  const [assignments, sessions, settings] = await Promise.all([
+    storage.getTrainingAssignments({ trainingId: training.id }),
+    storage.getTrainingSessions(training.id),
+    getSMSSettings(),
+  ]);
+  const upcoming = sessions.filter(s => getSessionStart(s) > now);
+  const rsvps = (await Promise.all(upcoming.map(s => storage.getTrainingRsvps({ sessionId: s.id })))).flat();
+  const nextOpenSession = upcoming.find(s =>
+    rsvps.filter(r => r.sessionId === s.id && SEAT_STATUSES.includes(r.status as TrainingRsvpStatus)).length < s.maxAttendees
+  ) ?? null;
+
+  // Each employee's session is the first upcoming one they're attending
+  const recipients = new Map<string, TrainingSession | null>();
+  for (const assignment of assignments) {
+    if (!assignment.completedAt) recipients.set(assignment.employeeId, null);
+  }
+  for (const rsvp of rsvps) {
+    if (rsvp.status === "attending" && !recipients.get(rsvp.employeeId)) {
+      recipients.set(rsvp.employeeId, upcoming.find(s => s.id === rsvp.sessionId) ?? null);
+    }
+  }
+
+  let queued = 0;
+  let skipped = 0;
+  for (const [employeeId, session] of Array.from(recipients.entries())) {
+    const employee = await storage.getEmployee(employeeId);
+    if (employee && await queueTrainingReminder(employee, training, session, nextOpenSession, settings)) {
+      queued++;
+    } else {
+      skipped++;
+    }
+  }
+  return { queued, skipped };
+}
+
+/**
+ * Remind attendees of sessions starting within the reminder window, once per session
+ */
+export async function processTrainingReminders(): Promise<{ sessions: number; queued: number }> {
+  const now = new Date();
+  const windowEnd = now.getTime() + (await getTrainingReminderHours()) * 60 * 60 * 1000;
+  const due = (await storage.getTrainingSessions()).filter(session => {
+    if (session.reminderSentAt) return false;
+    const start = getSessionStart(session).getTime();
+    return start > now.getTime() && start <= windowEnd;
+  });
+  if (due.length === 0) return { sessions: 0, queued: 0 };
+
+  // Left for the next run while texting is switched off
+  const settings = await getSMSSettings();
+  if (!settings.smsEnabled) return { sessions: 0, queued: 0 };
+  let queued = 0;
+
+  for (const session of due) {
+    try {
+      const training = await storage.getTraining(session.trainingId);
+      if (!training) continue;
+
+      const attending = (await storage.getTrainingRsvps({ sessionId: session.id })).filter(r => r.status === "attending");
+      let sessionQueued = 0;
+      for (const rsvp of attending) {
+        const employee = await storage.getEmployee(rsvp.employeeId);
+        if (employee && await queueTrainingReminder(employee, training, session, null, settings)) {
+          sessionQueued++;
+        }
+      }
+
+      // Marked even when nobody is attending so the session isn't checked again
+      await storage.updateTrainingSession(session.id, { reminderSentAt: now });
+      queued += sessionQueued;
+
+      if (attending.length > 0) {
+        await logAuditEvent({
+          action: "training_reminder_sent",
+          actor: null,
+          targetType: "training",
+          targetId: training.id,
+          targetName: training.title,
+          details: { sessionId: session.id, date: session.date, startTime: session.startTime, queued: sessionQueued, automatic: true },
+          ipAddress: undefined,
+        });
+      }
+    } catch (error) {
+      console.error(`Error sending training reminders for session ${session.id}:`, error);
+    }
+  }
+
+  return { sessions: due.length, queued };
+}
+
+// Interval-based checker for upcoming training sessions
+let trainingReminderInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Start the periodic training reminder checker
+ * Runs every 15 minutes - reminders go out once per session, hours ahead
+ */
+export function startTrainingReminderScheduler(intervalMinutes = 15): void {
+  if (trainingReminderInterval) {
+    clearInterval(trainingReminderInterval);
+  }
+
+  trainingReminderInterval = setInterval(async () => {
+    try {
+      const result = await processTrainingReminders();
+      if (result.queued > 0) {
+        console.log(`Training reminders: queued ${result.queued} reminder(s) for ${result.sessions} session(s)`);
+      }
+    } catch (error) {
+      console.error("Error in training reminder scheduler:", error);
+    }
+  }, intervalMinutes * 60 * 1000);
+
+  console.log(`Started training reminder scheduler (every ${intervalMinutes} minutes)`);
+}
+
+/**
+ * Stop the periodic training reminder checker
+ */
+export function stopTrainingReminderScheduler(): void {
+  if (trainingReminderInterval) {
+    clearInterval(trainingReminderInterval);
+    trainingReminderInterval = null;
+    console.log("Stopped training reminder scheduler");
+  }
+}
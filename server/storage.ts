@@ -5,15 +5,39 @@ import {
   type Position, type InsertPosition,
   type Employee, type InsertEmployee,
   type EmployeeArea, type InsertEmployeeArea,
+  type Certification, type InsertCertification,
+  type PositionCertification,
+  type EmployeeCertification, type InsertEmployeeCertification,
+  type EmployeeAvailability, type InsertEmployeeAvailability,
+  type TimeOffRequest, type InsertTimeOffRequest,
   type Shift, type InsertShift,
   type ShiftInterest, type InsertShiftInterest,
+  type ShiftSwap, type InsertShiftSwap,
+  type ShiftOffer, type InsertShiftOffer,
   type Message, type InsertMessage,
+  type MessageAttachment, type InsertMessageAttachment,
+  type SmsConversation, type InsertSmsConversation,
+  type SmsConsentEvent, type InsertSmsConsentEvent,
   type Training, type InsertTraining,
+  type TrainingSession, type InsertTrainingSession,
+  type TrainingAssignment, type InsertTrainingAssignment,
+  type TrainingRsvp, type InsertTrainingRsvp,
+  type ReportSnapshot, type InsertReportSnapshot,
   type AuditLog, type InsertAuditLog,
   type OrganizationSetting,
   type SmsTemplate, type InsertSmsTemplate,
   type ShiftTemplate, type InsertShiftTemplate,
 } from "@shared/schema";
+import {
+  getShiftClock,
+  hasShiftEnded,
+  type ShiftCursor,
+  type ShiftListFilters,
+  type ShiftListStatus,
+  type ShiftStatusCounts,
+  type ShiftWithDetails,
+} from "@shared/shiftQuery";
+import { getLocalToday } from "@shared/recurrence";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import { randomUUID, scryptSync, randomBytes } from "crypto";
@@ -67,13 +91,51 @@ export interface IStorage {
   removeEmployeeFromArea(employeeId: string, areaId: string): Promise<boolean>;
   setEmployeeAreas(employeeId: string, areaIds: string[]): Promise<void>;
 
+  // Certifications
+  getCertifications(): Promise<Certification[]>;
+  getCertification(id: string): Promise<Certification | undefined>;
+  createCertification(certification: InsertCertification): Promise<Certification>;
+  updateCertification(id: string, certification: Partial<InsertCertification>): Promise<Certification | undefined>;
+  deleteCertification(id: string): Promise<boolean>;
+
+  // Position certification requirements
+  getPositionCertifications(positionId: string): Promise<Certification[]>;
+  getAllPositionCertifications(): Promise<PositionCertification[]>;
+  setPositionCertifications(positionId: string, certificationIds: string[]): Promise<void>;
+
+  // Employee certifications
+  getEmployeeCertifications(filters?: { employeeId?: string; certificationId?: string }): Promise<EmployeeCertification[]>;
+  getEmployeeCertification(id: string): Promise<EmployeeCertification | undefined>;
+  createEmployeeCertification(record: InsertEmployeeCertification): Promise<EmployeeCertification>;
+  updateEmployeeCertification(id: string, updates: Partial<EmployeeCertification>): Promise<EmployeeCertification | undefined>;
+  deleteEmployeeCertification(id: string): Promise<boolean>;
+
+  // Employee availability
+  getEmployeeAvailability(employeeId: string): Promise<EmployeeAvailability | undefined>;
+  getAllEmployeeAvailability(): Promise<EmployeeAvailability[]>;
+  setEmployeeAvailability(employeeId: string, availability: Omit<InsertEmployeeAvailability, "employeeId">): Promise<EmployeeAvailability>;
+
+  // Time-off requests
+  getTimeOffRequests(filters?: { employeeId?: string; status?: string }): Promise<TimeOffRequest[]>;
+  getTimeOffRequest(id: string): Promise<TimeOffRequest | undefined>;
+  createTimeOffRequest(request: InsertTimeOffRequest): Promise<TimeOffRequest>;
+  updateTimeOffRequest(id: string, updates: Partial<TimeOffRequest>): Promise<TimeOffRequest | undefined>;
+
   // Shifts
   getShifts(includePast?: boolean): Promise<Shift[]>;
   getShift(id: string): Promise<Shift | undefined>;
   getShiftBySmsCode(smsCode: string): Promise<Shift | undefined>;
   getShiftsByArea(areaId: string): Promise<Shift[]>;
+  getShiftsByTemplate(templateId: string): Promise<Shift[]>;
+  getShiftsByAssignedEmployee(employeeId: string): Promise<Shift[]>;
+  // Filtered, sorted shifts with area, position, assignee and interest count joined in;
+  // next is where the following page starts when a limit cut the list short
+  getShiftList(filters: ShiftListFilters): Promise<{ shifts: ShiftWithDetails[]; next: ShiftCursor | null }>;
+  countShiftsByStatus(filters: ShiftListFilters): Promise<ShiftStatusCounts>;
   createShift(shift: InsertShift): Promise<Shift>;
   updateShift(id: string, shift: Partial<InsertShift>): Promise<Shift | undefined>;
+  // Applies the update only while the shift is still available and unassigned
+  claimAvailableShift(id: string, shift: Partial<InsertShift>): Promise<Shift | undefined>;
   deleteShift(id: string): Promise<boolean>;
 
   // Shift interests
@@ -83,14 +145,41 @@ export interface IStorage {
   createShiftInterest(interest: InsertShiftInterest): Promise<ShiftInterest>;
   deleteShiftInterest(shiftId: string, employeeId: string): Promise<boolean>;
 
+  // Shift swaps
+  getShiftSwaps(filters?: { shiftId?: string; status?: string }): Promise<ShiftSwap[]>;
+  getShiftSwap(id: string): Promise<ShiftSwap | undefined>;
+  createShiftSwap(swap: InsertShiftSwap): Promise<ShiftSwap>;
+  updateShiftSwap(id: string, updates: Partial<ShiftSwap>): Promise<ShiftSwap | undefined>;
+
+  // Shift offers
+  getShiftOffers(filters?: { shiftId?: string; employeeId?: string; status?: string; since?: Date }): Promise<ShiftOffer[]>;
+  createShiftOffer(offer: InsertShiftOffer): Promise<ShiftOffer>;
+  updateShiftOffer(id: string, updates: Partial<ShiftOffer>): Promise<ShiftOffer | undefined>;
+
   // Messages
-  getMessages(filters?: { employeeId?: string; messageType?: string; relatedShiftId?: string }): Promise<Message[]>;
+  getMessages(filters?: { employeeId?: string; messageType?: string; relatedShiftId?: string; direction?: string; since?: Date }): Promise<Message[]>;
   getEmployeeMessages(employeeId: string): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
   updateMessage(id: string, updates: Partial<Message>): Promise<Message | undefined>;
   getMessageByTwilioSid(twilioSid: string): Promise<Message | undefined>;
   getMessageByProviderMessageId(providerMessageId: string): Promise<Message | undefined>;
   getMessageThread(threadId: string): Promise<Message[]>;
+  getOutboundMessagesByStatus(status: string): Promise<Message[]>;
+  countOutboundMessagesSince(since: Date, statuses: string[]): Promise<number>;
+
+  // Message attachments
+  getMessageAttachments(messageIds: string[]): Promise<MessageAttachment[]>;
+  getMessageAttachment(id: string): Promise<MessageAttachment | undefined>;
+  createMessageAttachment(attachment: InsertMessageAttachment): Promise<MessageAttachment>;
+
+  // SMS conversations
+  getSmsConversation(employeeId: string): Promise<SmsConversation | undefined>;
+  setSmsConversation(employeeId: string, conversation: Omit<InsertSmsConversation, "employeeId">): Promise<SmsConversation>;
+  deleteSmsConversation(employeeId: string): Promise<boolean>;
+
+  // SMS consent ledger
+  getSmsConsentEvents(filters?: { employeeId?: string; since?: Date; until?: Date }): Promise<SmsConsentEvent[]>;
+  createSmsConsentEvent(event: InsertSmsConsentEvent): Promise<SmsConsentEvent>;
 
   // Trainings
   getTrainings(): Promise<Training[]>;
@@ -99,6 +188,31 @@ export interface IStorage {
   updateTraining(id: string, training: Partial<InsertTraining>): Promise<Training | undefined>;
   deleteTraining(id: string): Promise<boolean>;
 
+  // Training sessions
+  getTrainingSessions(trainingId?: string): Promise<TrainingSession[]>;
+  getTrainingSession(id: string): Promise<TrainingSession | undefined>;
+  createTrainingSession(session: InsertTrainingSession): Promise<TrainingSession>;
+  updateTrainingSession(id: string, updates: Partial<TrainingSession>): Promise<TrainingSession | undefined>;
+  deleteTrainingSession(id: string): Promise<boolean>;
+
+  // Training assignments
+  getTrainingAssignments(filters?: { trainingId?: string; employeeId?: string }): Promise<TrainingAssignment[]>;
+  getTrainingAssignment(id: string): Promise<TrainingAssignment | undefined>;
+  createTrainingAssignment(assignment: InsertTrainingAssignment): Promise<TrainingAssignment>;
+  updateTrainingAssignment(id: string, updates: Partial<TrainingAssignment>): Promise<TrainingAssignment | undefined>;
+  deleteTrainingAssignment(id: string): Promise<boolean>;
+
+  // Training RSVPs
+  getTrainingRsvps(filters?: { sessionId?: string; employeeId?: string }): Promise<TrainingRsvp[]>;
+  createTrainingRsvp(rsvp: InsertTrainingRsvp): Promise<TrainingRsvp>;
+  updateTrainingRsvp(id: string, updates: Partial<TrainingRsvp>): Promise<TrainingRsvp | undefined>;
+
+  // Report snapshots
+  getReportSnapshots(): Promise<ReportSnapshot[]>;
+  getReportSnapshot(id: string): Promise<ReportSnapshot | undefined>;
+  createReportSnapshot(snapshot: InsertReportSnapshot): Promise<ReportSnapshot>;
+  deleteReportSnapshot(id: string): Promise<boolean>;
+
   // Audit Logs
   getAuditLogs(options?: { limit?: number; offset?: number; action?: string; actorId?: string; targetType?: string }): Promise<AuditLog[]>;
   getAuditLog(id: string): Promise<AuditLog | undefined>;
@@ -132,10 +246,24 @@ export class MemStorage implements IStorage {
   private positions: Map<string, Position>;
   private employees: Map<string, Employee>;
   private employeeAreas: Map<string, EmployeeArea>;
+  private employeeAvailability: Map<string, EmployeeAvailability>; // Keyed by employeeId
+  private certifications: Map<string, Certification>;
+  private positionCertifications: Map<string, PositionCertification>;
+  private employeeCertifications: Map<string, EmployeeCertification>;
+  private timeOffRequests: Map<string, TimeOffRequest>;
   private shifts: Map<string, Shift>;
   private shiftInterests: Map<string, ShiftInterest>;
+  private shiftSwaps: Map<string, ShiftSwap>;
+  private shiftOffers: Map<string, ShiftOffer>;
   private messages: Map<string, Message>;
+  private messageAttachments: Map<string, MessageAttachment>;
+  private smsConversations: Map<string, SmsConversation>; // Keyed by employeeId
+  private smsConsentEvents: Map<string, SmsConsentEvent>;
   private trainings: Map<string, Training>;
+  private trainingSessions: Map<string, TrainingSession>;
+  private trainingAssignments: Map<string, TrainingAssignment>;
+  private trainingRsvps: Map<string, TrainingRsvp>;
+  private reportSnapshots: Map<string, ReportSnapshot>;
   private auditLogs: Map<string, AuditLog>;
   private organizationSettings: Map<string, OrganizationSetting>;
   private smsTemplates: Map<string, SmsTemplate>;
@@ -149,10 +277,24 @@ export class MemStorage implements IStorage {
     this.positions = new Map();
     this.employees = new Map();
     this.employeeAreas = new Map();
+    this.employeeAvailability = new Map();
+    this.certifications = new Map();
+    this.positionCertifications = new Map();
+    this.employeeCertifications = new Map();
+    this.timeOffRequests = new Map();
     this.shifts = new Map();
     this.shiftInterests = new Map();
+    this.shiftSwaps = new Map();
+    this.shiftOffers = new Map();
     this.messages = new Map();
+    this.messageAttachments = new Map();
+    this.smsConversations = new Map();
+    this.smsConsentEvents = new Map();
     this.trainings = new Map();
+    this.trainingSessions = new Map();
+    this.trainingAssignments = new Map();
+    this.trainingRsvps = new Map();
+    this.reportSnapshots = new Map();
     this.auditLogs = new Map();
     this.organizationSettings = new Map();
     this.smsTemplates = new Map();
@@ -192,6 +334,10 @@ export class MemStorage implements IStorage {
       smsOptIn: true,
       webAccessEnabled: true,
       username: "pmorrison",
+      hireDate: null,
+      smsMaxPerHour: null,
+      smsMaxPerDay: null,
+      smsDigestMinutes: null,
     };
     this.employees.set(adminEmployee.id, adminEmployee);
 
@@ -228,8 +374,8 @@ export class MemStorage implements IStorage {
   private initializeSeedData(): void {
     // === AREAS (2 programs: ICF with 5 homes, Waiver with 15 homes) ===
     const sampleAreas: Area[] = [
-      { id: "area-icf", name: "ICF", description: "Intermediate Care Facility - 5 homes serving individuals with developmental disabilities", smsEnabled: true },
-      { id: "area-waiver", name: "Waiver", description: "Home and Community Based Waiver Services - 15 homes", smsEnabled: true },
+      { id: "area-icf", name: "ICF", description: "Intermediate Care Facility - 5 homes serving individuals with developmental disabilities", smsEnabled: true, autoAwardPolicy: null, autoAwardDelayMinutes: 0 },
+      { id: "area-waiver", name: "Waiver", description: "Home and Community Based Waiver Services - 15 homes", smsEnabled: true, autoAwardPolicy: null, autoAwardDelayMinutes: 0 },
     ];
     sampleAreas.forEach(a => this.areas.set(a.id, a));
 
@@ -500,11 +646,17 @@ export class MemStorage implements IStorage {
             postedByName: postedBy,
             status,
             assignedEmployeeId,
+            filledAt: assignedEmployeeId ? new Date(createdAt.getTime() + (Math.floor(Math.random() * 36) + 1) * 60 * 60 * 1000) : null,
             smsCode: this.generateSeedSmsCode(usedSmsCodes),
             bonusAmount: null,
             notifyAllAreas: false,
             lastNotifiedAt: null,
             notificationCount: 0,
+            templateId: null,
+            occurrenceDate: null,
+            escalationPolicy: null,
+            escalationStage: 0,
+            escalatedAt: null,
             createdAt,
           });
         }
@@ -551,11 +703,17 @@ export class MemStorage implements IStorage {
             postedByName: postedBy,
             status,
             assignedEmployeeId,
+            filledAt: assignedEmployeeId ? new Date(createdAt.getTime() + (Math.floor(Math.random() * 36) + 1) * 60 * 60 * 1000) : null,
             smsCode: this.generateSeedSmsCode(usedSmsCodes),
             bonusAmount: null,
             notifyAllAreas: false,
             lastNotifiedAt: null,
             notificationCount: 0,
+            templateId: null,
+            occurrenceDate: null,
+            escalationPolicy: null,
+            escalationStage: 0,
+            escalatedAt: null,
             createdAt,
           });
         }
@@ -640,6 +798,8 @@ export class MemStorage implements IStorage {
       { key: "sms_enabled", value: "false", description: "Master toggle for SMS functionality" },
       { key: "sms_daily_limit", value: "1000", description: "Maximum SMS messages per day" },
       { key: "sms_rate_limit_per_minute", value: "60", description: "Maximum SMS messages per minute" },
+      { key: "sms_secondary_provider", value: "", description: "Provider to fail over to when the primary is unhealthy (empty = no failover)" },
+      { key: "mock_sms_failure_rate", value: "0", description: "Percentage of mock provider sends that fail (development only)" },
       // SMS notification settings
       { key: "notify_on_new_shift", value: "true", description: "Send SMS when new shifts are posted" },
       { key: "notify_on_shift_claimed", value: "true", description: "Send confirmation when shift is claimed" },
@@ -655,6 +815,21 @@ export class MemStorage implements IStorage {
       { key: "sms_quiet_hours_start", value: "22:00", description: "Start of quiet hours (no SMS)" },
       { key: "sms_quiet_hours_end", value: "07:00", description: "End of quiet hours" },
       { key: "sms_respect_quiet_hours", value: "true", description: "Respect quiet hours for non-urgent messages" },
+      // Assignment rules (mode: off, warn, block)
+      { key: "weekly_hours_cap", value: "40", description: "Maximum scheduled hours per week (Sunday-Saturday)" },
+      { key: "weekly_hours_cap_mode", value: "warn", description: "Enforcement for the weekly hours cap: off, warn or block" },
+      { key: "min_rest_hours", value: "8", description: "Minimum hours of rest between an employee's shifts" },
+      { key: "min_rest_hours_mode", value: "warn", description: "Enforcement for minimum rest: off, warn or block" },
+      { key: "max_consecutive_days", value: "6", description: "Maximum consecutive days an employee can work" },
+      { key: "max_consecutive_days_mode", value: "off", description: "Enforcement for consecutive days: off, warn or block" },
+      // Shift swaps
+      { key: "swap_requires_approval", value: "true", description: "Require supervisor approval before an accepted shift swap takes effect" },
+      // Fair rotation
+      { key: "fair_rotation_enabled", value: "false", description: "Notify employees about new shifts in waves instead of all at once" },
+      { key: "fair_rotation_order", value: "hours_worked", description: "Wave order: hours_worked, seniority or last_offered" },
+      { key: "fair_rotation_wave_size", value: "5", description: "Number of employees notified in each wave" },
+      { key: "fair_rotation_wave_delay_minutes", value: "15", description: "Minutes between notification waves" },
+      { key: "certification_expiry_warning_days", value: "30", description: "Days before a certification expires to warn the employee and their supervisors" },
     ];
     defaultSettings.forEach(s => {
       const id = randomUUID();
@@ -710,6 +885,20 @@ export class MemStorage implements IStorage {
         content: "[ShiftConnect] Announcement\n\n{{message}}\n\nThis message was sent to all team members.\n\nReply STOP to unsubscribe.",
         isSystem: true,
       },
+      {
+        name: "Certification Expiring",
+        description: "Warning sent to an employee before one of their certifications expires.",
+        category: "certification_expiry",
+        content: "[ShiftConnect] Certification Expiring\n\nHi {{employeeName}},\n\nYour {{certificationName}} expires on {{expiresOn}} ({{daysLeft}} days). Please renew it and send the new certificate to your supervisor so you can keep picking up shifts.",
+        isSystem: true,
+      },
+      {
+        name: "Certification Expiring (Supervisor)",
+        description: "Heads-up sent to area supervisors when an employee's certification is about to expire.",
+        category: "certification_expiry_supervisor",
+        content: "[ShiftConnect] {{employeeName}}'s {{certificationName}} expires on {{expiresOn}} ({{daysLeft}} days). They won't be offered or assigned shifts that require it once it lapses.",
+        isSystem: true,
+      },
     ];
     const now = new Date();
     defaultTemplates.forEach(t => {
@@ -799,6 +988,8 @@ export class MemStorage implements IStorage {
       name: insertArea.name,
       description: insertArea.description ?? null,
       smsEnabled: insertArea.smsEnabled ?? true,
+      autoAwardPolicy: insertArea.autoAwardPolicy ?? null,
+      autoAwardDelayMinutes: insertArea.autoAwardDelayMinutes ?? 0,
     };
     this.areas.set(id, area);
     return area;
@@ -941,6 +1132,9 @@ export class MemStorage implements IStorage {
           this.shifts.set(s.id, { ...s, positionId: reassignToId });
         });
     }
+    Array.from(this.positionCertifications.entries())
+      .filter(([_, pc]) => pc.positionId === id)
+      .forEach(([key]) => this.positionCertifications.delete(key));
     return this.positions.delete(id);
   }
 
@@ -968,6 +1162,10 @@ export class MemStorage implements IStorage {
       smsOptIn: insertEmployee.smsOptIn ?? true,
       webAccessEnabled: insertEmployee.webAccessEnabled ?? false,
       username: insertEmployee.username ?? null,
+      hireDate: insertEmployee.hireDate ?? null,
+      smsMaxPerHour: insertEmployee.smsMaxPerHour ?? null,
+      smsMaxPerDay: insertEmployee.smsMaxPerDay ?? null,
+      smsDigestMinutes: insertEmployee.smsDigestMinutes ?? null,
     };
     this.employees.set(id, employee);
     return employee;
@@ -1045,13 +1243,186 @@ export class MemStorage implements IStorage {
     }
   }
 
+  // Certifications
+  async getCertifications(): Promise<Certification[]> {
+    return Array.from(this.certifications.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCertification(id: string): Promise<Certification | undefined> {
+    return this.certifications.get(id);
+  }
+
+  async createCertification(insertCertification: InsertCertification): Promise<Certification> {
+    const id = randomUUID();
+    const certification: Certification = {
+      id,
+      name: insertCertification.name,
+      description: insertCertification.description ?? null,
+    };
+    this.certifications.set(id, certification);
+    return certification;
+  }
+
+  async updateCertification(id: string, updates: Partial<InsertCertification>): Promise<Certification | undefined> {
+    const certification = this.certifications.get(id);
+    if (!certification) return undefined;
+    const updated = { ...certification, ...updates };
+    this.certifications.set(id, updated);
+    return updated;
+  }
+
+  async deleteCertification(id: string): Promise<boolean> {
+    // Drop the requirements and employee records that point at it
+    Array.from(this.positionCertifications.entries())
+      .filter(([_, pc]) => pc.certificationId === id)
+      .forEach(([key]) => this.positionCertifications.delete(key));
+    Array.from(this.employeeCertifications.entries())
+      .filter(([_, ec]) => ec.certificationId === id)
+      .forEach(([key]) => this.employeeCertifications.delete(key));
+    return this.certifications.delete(id);
+  }
+
+  // Position certification requirements
+  async getPositionCertifications(positionId: string): Promise<Certification[]> {
+    const certificationIds = Array.from(this.positionCertifications.values())
+      .filter(pc => pc.positionId === positionId)
+      .map(pc => pc.certificationId);
+    return Array.from(this.certifications.values()).filter(c => certificationIds.includes(c.id));
+  }
+
+  async getAllPositionCertifications(): Promise<PositionCertification[]> {
+    return Array.from(this.positionCertifications.values());
+  }
+
+  async setPositionCertifications(positionId: string, certificationIds: string[]): Promise<void> {
+    Array.from(this.positionCertifications.entries())
+      .filter(([_, pc]) => pc.positionId === positionId)
+      .forEach(([key]) => this.positionCertifications.delete(key));
+    for (const certificationId of Array.from(new Set(certificationIds))) {
+      const id = randomUUID();
+      this.positionCertifications.set(id, { id, positionId, certificationId });
+    }
+  }
+
+  // Employee certifications
+  async getEmployeeCertifications(filters?: { employeeId?: string; certificationId?: string }): Promise<EmployeeCertification[]> {
+    let result = Array.from(this.employeeCertifications.values());
+    if (filters?.employeeId) {
+      result = result.filter(ec => ec.employeeId === filters.employeeId);
+    }
+    if (filters?.certificationId) {
+      result = result.filter(ec => ec.certificationId === filters.certificationId);
+    }
+    return result.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getEmployeeCertification(id: string): Promise<EmployeeCertification | undefined> {
+    return this.employeeCertifications.get(id);
+  }
+
+  async createEmployeeCertification(record: InsertEmployeeCertification): Promise<EmployeeCertification> {
+    const id = randomUUID();
+    const employeeCertification: EmployeeCertification = {
+      id,
+      employeeId: record.employeeId,
+      certificationId: record.certificationId,
+      credentialNumber: record.credentialNumber ?? null,
+      issuedOn: record.issuedOn ?? null,
+      expiresOn: record.expiresOn ?? null,
+      expiryWarningSentAt: null,
+      createdAt: new Date(),
+    };
+    this.employeeCertifications.set(id, employeeCertification);
+    return employeeCertification;
+  }
+
+  async updateEmployeeCertification(id: string, updates: Partial<EmployeeCertification>): Promise<EmployeeCertification | undefined> {
+    const existing = this.employeeCertifications.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...updates, id };
+    this.employeeCertifications.set(id, updated);
+    return updated;
+  }
+
+  async deleteEmployeeCertification(id: string): Promise<boolean> {
+    return this.employeeCertifications.delete(id);
+  }
+
+  // Employee availability
+  async getEmployeeAvailability(employeeId: string): Promise<EmployeeAvailability | undefined> {
+    return this.employeeAvailability.get(employeeId);
+  }
+
+  async getAllEmployeeAvailability(): Promise<EmployeeAvailability[]> {
+    return Array.from(this.employeeAvailability.values());
+  }
+
+  async setEmployeeAvailability(
+    employeeId: string,
+    availability: Omit<InsertEmployeeAvailability, "employeeId">
+  ): Promise<EmployeeAvailability> {
+    const existing = this.employeeAvailability.get(employeeId);
+    const record: EmployeeAvailability = {
+      id: existing?.id ?? randomUUID(),
+      employeeId,
+      weeklyAvailability: availability.weeklyAvailability ?? existing?.weeklyAvailability ?? [],
+      blackoutDates: availability.blackoutDates ?? existing?.blackoutDates ?? [],
+      preferredShiftTypes: availability.preferredShiftTypes ?? existing?.preferredShiftTypes ?? [],
+      updatedAt: new Date(),
+    };
+    this.employeeAvailability.set(employeeId, record);
+    return record;
+  }
+
+  // Time-off requests
+  async getTimeOffRequests(filters?: { employeeId?: string; status?: string }): Promise<TimeOffRequest[]> {
+    let result = Array.from(this.timeOffRequests.values());
+    if (filters?.employeeId) {
+      result = result.filter(r => r.employeeId === filters.employeeId);
+    }
+    if (filters?.status) {
+      result = result.filter(r => r.status === filters.status);
+    }
+    return result.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getTimeOffRequest(id: string): Promise<TimeOffRequest | undefined> {
+    return this.timeOffRequests.get(id);
+  }
+
+  async createTimeOffRequest(request: InsertTimeOffRequest): Promise<TimeOffRequest> {
+    const id = randomUUID();
+    const newRequest: TimeOffRequest = {
+      id,
+      employeeId: request.employeeId,
+      startDate: request.startDate,
+      endDate: request.endDate,
+      reason: request.reason ?? null,
+      status: request.status ?? "pending",
+      source: request.source ?? "web",
+      reviewedById: request.reviewedById ?? null,
+      reviewedByName: request.reviewedByName ?? null,
+      reviewNote: request.reviewNote ?? null,
+      reviewedAt: request.reviewedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.timeOffRequests.set(id, newRequest);
+    return newRequest;
+  }
+
+  async updateTimeOffRequest(id: string, updates: Partial<TimeOffRequest>): Promise<TimeOffRequest | undefined> {
+    const existing = this.timeOffRequests.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...updates, id };
+    this.timeOffRequests.set(id, updated);
+    return updated;
+  }
+
   // Shifts
   async getShifts(includePast: boolean = false): Promise<Shift[]> {
     let result = Array.from(this.shifts.values());
     if (!includePast) {
-      // Use local date for timezone-safe comparison
-      const now = new Date();
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString().split('T')[0];
+      const today = getLocalToday();
       result = result.filter(s => s.date >= today);
     }
     return result.sort((a, b) =>
@@ -1063,6 +1434,81 @@ export class MemStorage implements IStorage {
     return this.shifts.get(id);
   }
 
+  private getListStatus(shift: Shift, clock: { today: string; time: string }): string {
+    return shift.status === "available" && hasShiftEnded(shift, clock) ? "expired" : shift.status;
+  }
+
+  private filterShiftList(filters: ShiftListFilters): { shift: Shift; status: string }[] {
+    const clock = getShiftClock();
+    const search = filters.search?.toLowerCase();
+    return Array.from(this.shifts.values())
+      .map(shift => ({ shift, status: this.getListStatus(shift, clock) }))
+      .filter(({ shift, status }) => {
+        if (!filters.includePast && shift.date < clock.today) return false;
+        if (filters.from && shift.date < filters.from) return false;
+        if (filters.to && shift.date > filters.to) return false;
+        if (filters.postedFrom && shift.createdAt < new Date(filters.postedFrom)) return false;
+        if (filters.postedTo && shift.createdAt >= new Date(filters.postedTo)) return false;
+        if (filters.areaId?.length && !filters.areaId.includes(shift.areaId)) return false;
+        if (filters.positionId?.length && !filters.positionId.includes(shift.positionId)) return false;
+        if (filters.status?.length && !filters.status.includes(status as ShiftListStatus)) return false;
+        if (filters.assignedEmployeeId && shift.assignedEmployeeId !== filters.assignedEmployeeId) return false;
+        if (search) {
+          const haystack = [this.positions.get(shift.positionId)?.title, this.areas.get(shift.areaId)?.name, shift.location];
+          if (!haystack.some(text => text?.toLowerCase().includes(search))) return false;
+        }
+        return true;
+      });
+  }
+
+  async getShiftList(filters: ShiftListFilters): Promise<{ shifts: ShiftWithDetails[]; next: ShiftCursor | null }> {
+    const sort = filters.sort ?? "newest";
+    const descending = sort === "date-desc" || sort === "newest";
+    const sortKey = (shift: Shift) =>
+      sort === "newest" || sort === "oldest" ? shift.createdAt.toISOString() : `${shift.date} ${shift.startTime}`;
+    const compare = (a: { key: string; id: string }, b: { key: string; id: string }) =>
+      a.key.localeCompare(b.key) || a.id.localeCompare(b.id);
+
+    let rows = this.filterShiftList(filters)
+      .map(row => ({ ...row, key: sortKey(row.shift), id: row.shift.id }))
+      .sort((a, b) => (descending ? -1 : 1) * compare(a, b));
+    if (filters.after) {
+      const after = filters.after;
+      rows = rows.filter(row => (descending ? -1 : 1) * compare(row, after) > 0);
+    }
+
+    const page = filters.limit !== undefined ? rows.slice(0, filters.limit) : rows;
+    const last = page[page.length - 1];
+    const next = filters.limit !== undefined && rows.length > filters.limit ? { key: last.key, id: last.id } : null;
+
+    const interestCounts = new Map<string, number>();
+    for (const interest of Array.from(this.shiftInterests.values())) {
+      if (!this.employees.has(interest.employeeId)) continue;
+      interestCounts.set(interest.shiftId, (interestCounts.get(interest.shiftId) ?? 0) + 1);
+    }
+
+    return {
+      shifts: page.map(({ shift, status }) => ({
+        ...shift,
+        status,
+        area: this.areas.get(shift.areaId) ?? null,
+        position: this.positions.get(shift.positionId)?.title || "Unknown Position",
+        interestedCount: interestCounts.get(shift.id) ?? 0,
+        assignedEmployee: (shift.assignedEmployeeId && this.employees.get(shift.assignedEmployeeId)) || null,
+      })),
+      next,
+    };
+  }
+
+  async countShiftsByStatus(filters: ShiftListFilters): Promise<ShiftStatusCounts> {
+    const counts: ShiftStatusCounts = { available: 0, claimed: 0, expired: 0, total: 0 };
+    for (const { status } of this.filterShiftList(filters)) {
+      if (status in counts) counts[status as ShiftListStatus]++;
+      counts.total++;
+    }
+    return counts;
+  }
+
   async getShiftBySmsCode(smsCode: string): Promise<Shift | undefined> {
     return Array.from(this.shifts.values()).find(s => s.smsCode === smsCode);
   }
@@ -1071,6 +1517,18 @@ export class MemStorage implements IStorage {
     return Array.from(this.shifts.values()).filter(s => s.areaId === areaId);
   }
 
+  async getShiftsByAssignedEmployee(employeeId: string): Promise<Shift[]> {
+    return Array.from(this.shifts.values())
+      .filter(s => s.assignedEmployeeId === employeeId && s.status === "claimed")
+      .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+  }
+
+  async getShiftsByTemplate(templateId: string): Promise<Shift[]> {
+    return Array.from(this.shifts.values())
+      .filter(s => s.templateId === templateId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
   // Generate unique 6-character SMS code
   private generateSmsCode(): string {
     const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Exclude confusing chars O/0/I/1/L
@@ -1106,11 +1564,17 @@ export class MemStorage implements IStorage {
       postedByName: insertShift.postedByName,
       status: insertShift.status ?? "available",
       assignedEmployeeId: insertShift.assignedEmployeeId ?? null,
+      filledAt: insertShift.filledAt ?? null,
       smsCode,
       bonusAmount: insertShift.bonusAmount ?? null,
       notifyAllAreas: insertShift.notifyAllAreas ?? false,
       lastNotifiedAt: insertShift.lastNotifiedAt ?? null,
       notificationCount: insertShift.notificationCount ?? 0,
+      templateId: insertShift.templateId ?? null,
+      occurrenceDate: insertShift.occurrenceDate ?? null,
+      escalationPolicy: insertShift.escalationPolicy ?? null,
+      escalationStage: insertShift.escalationStage ?? 0,
+      escalatedAt: insertShift.escalatedAt ?? null,
       createdAt: new Date(),
     };
     this.shifts.set(id, shift);
@@ -1125,11 +1589,24 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async claimAvailableShift(id: string, updates: Partial<InsertShift>): Promise<Shift | undefined> {
+    const shift = this.shifts.get(id);
+    if (!shift || shift.status !== "available" || shift.assignedEmployeeId) return undefined;
+    return this.updateShift(id, updates);
+  }
+
   async deleteShift(id: string): Promise<boolean> {
     // Also remove interests
     Array.from(this.shiftInterests.values())
       .filter(si => si.shiftId === id)
       .forEach(si => this.shiftInterests.delete(si.id));
+    // And the swap and offer history that points at the shift
+    Array.from(this.shiftSwaps.values())
+      .filter(s => s.shiftId === id)
+      .forEach(s => this.shiftSwaps.delete(s.id));
+    Array.from(this.shiftOffers.values())
+      .filter(o => o.shiftId === id)
+      .forEach(o => this.shiftOffers.delete(o.id));
     return this.shifts.delete(id);
   }
 
@@ -1177,8 +1654,95 @@ export class MemStorage implements IStorage {
     return false;
   }
 
+  // Shift swaps
+  async getShiftSwaps(filters?: { shiftId?: string; status?: string }): Promise<ShiftSwap[]> {
+    let result = Array.from(this.shiftSwaps.values());
+    if (filters?.shiftId) {
+      result = result.filter(s => s.shiftId === filters.shiftId);
+    }
+    if (filters?.status) {
+      result = result.filter(s => s.status === filters.status);
+    }
+    return result.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getShiftSwap(id: string): Promise<ShiftSwap | undefined> {
+    return this.shiftSwaps.get(id);
+  }
+
+  async createShiftSwap(swap: InsertShiftSwap): Promise<ShiftSwap> {
+    const id = randomUUID();
+    const newSwap: ShiftSwap = {
+      id,
+      shiftId: swap.shiftId,
+      offeredById: swap.offeredById,
+      targetEmployeeId: swap.targetEmployeeId ?? null,
+      acceptedById: swap.acceptedById ?? null,
+      status: swap.status ?? "open",
+      note: swap.note ?? null,
+      reviewedById: swap.reviewedById ?? null,
+      reviewedByName: swap.reviewedByName ?? null,
+      reviewNote: swap.reviewNote ?? null,
+      acceptedAt: swap.acceptedAt ?? null,
+      resolvedAt: swap.resolvedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.shiftSwaps.set(id, newSwap);
+    return newSwap;
+  }
+
+  async updateShiftSwap(id: string, updates: Partial<ShiftSwap>): Promise<ShiftSwap | undefined> {
+    const existing = this.shiftSwaps.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...updates, id };
+    this.shiftSwaps.set(id, updated);
+    return updated;
+  }
+
+  // Shift offers
+  async getShiftOffers(filters?: { shiftId?: string; employeeId?: string; status?: string; since?: Date }): Promise<ShiftOffer[]> {
+    let result = Array.from(this.shiftOffers.values());
+    if (filters?.shiftId) {
+      result = result.filter(o => o.shiftId === filters.shiftId);
+    }
+    if (filters?.employeeId) {
+      result = result.filter(o => o.employeeId === filters.employeeId);
+    }
+    if (filters?.status) {
+      result = result.filter(o => o.status === filters.status);
+    }
+    if (filters?.since) {
+      result = result.filter(o => o.createdAt >= filters.since!);
+    }
+    return result.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createShiftOffer(offer: InsertShiftOffer): Promise<ShiftOffer> {
+    const id = randomUUID();
+    const newOffer: ShiftOffer = {
+      id,
+      shiftId: offer.shiftId,
+      employeeId: offer.employeeId,
+      wave: offer.wave ?? 1,
+      status: offer.status ?? "queued",
+      scheduledFor: offer.scheduledFor ?? new Date(),
+      offeredAt: offer.offeredAt ?? null,
+      createdAt: new Date(),
+    };
+    this.shiftOffers.set(id, newOffer);
+    return newOffer;
+  }
+
+  async updateShiftOffer(id: string, updates: Partial<ShiftOffer>): Promise<ShiftOffer | undefined> {
+    const existing = this.shiftOffers.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...updates, id };
+    this.shiftOffers.set(id, updated);
+    return updated;
+  }
+
   // Messages
-  async getMessages(filters?: { employeeId?: string; messageType?: string; relatedShiftId?: string }): Promise<Message[]> {
+  async getMessages(filters?: { employeeId?: string; messageType?: string; relatedShiftId?: string; direction?: string; since?: Date }): Promise<Message[]> {
     let messages = Array.from(this.messages.values());
 
     if (filters) {
@@ -1191,6 +1755,13 @@ export class MemStorage implements IStorage {
       if (filters.relatedShiftId) {
         messages = messages.filter(m => m.relatedShiftId === filters.relatedShiftId);
       }
+      if (filters.direction) {
+        messages = messages.filter(m => m.direction === filters.direction);
+      }
+      if (filters.since) {
+        const since = filters.since;
+        messages = messages.filter(m => new Date(m.createdAt) >= since);
+      }
     }
 
     return messages.sort((a, b) =>
@@ -1229,6 +1800,14 @@ export class MemStorage implements IStorage {
       // Categorization
       messageType: insertMessage.messageType ?? "general",
       relatedShiftId: insertMessage.relatedShiftId ?? null,
+      // Outbound queue
+      attempts: insertMessage.attempts ?? 0,
+      nextAttemptAt: insertMessage.nextAttemptAt ?? null,
+      respectQuietHours: insertMessage.respectQuietHours ?? false,
+      // Scheduled sends
+      scheduledFor: insertMessage.scheduledFor ?? null,
+      scheduledBy: insertMessage.scheduledBy ?? null,
+      batchId: insertMessage.batchId ?? null,
       createdAt: new Date(),
     };
     this.messages.set(id, message);
@@ -1260,6 +1839,102 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   }
 
+  async getOutboundMessagesByStatus(status: string): Promise<Message[]> {
+    return Array.from(this.messages.values())
+      .filter(m => m.direction === "outbound" && m.status === status)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async countOutboundMessagesSince(since: Date, statuses: string[]): Promise<number> {
+    return Array.from(this.messages.values()).filter(m =>
+      m.direction === "outbound" && statuses.includes(m.status) && new Date(m.createdAt) >= since
+    ).length;
+  }
+
+  // Message attachments
+  async getMessageAttachments(messageIds: string[]): Promise<MessageAttachment[]> {
+    return Array.from(this.messageAttachments.values())
+      .filter(a => messageIds.includes(a.messageId))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getMessageAttachment(id: string): Promise<MessageAttachment | undefined> {
+    return this.messageAttachments.get(id);
+  }
+
+  async createMessageAttachment(insertAttachment: InsertMessageAttachment): Promise<MessageAttachment> {
+    const id = randomUUID();
+    const attachment: MessageAttachment = {
+      id,
+      messageId: insertAttachment.messageId,
+      contentType: insertAttachment.contentType,
+      fileName: insertAttachment.fileName ?? null,
+      size: insertAttachment.size ?? 0,
+      data: insertAttachment.data ?? null,
+      sourceUrl: insertAttachment.sourceUrl ?? null,
+      publicToken: insertAttachment.publicToken ?? null,
+      createdAt: new Date(),
+    };
+    this.messageAttachments.set(id, attachment);
+    return attachment;
+  }
+
+  // SMS conversations
+  async getSmsConversation(employeeId: string): Promise<SmsConversation | undefined> {
+    return this.smsConversations.get(employeeId);
+  }
+
+  async setSmsConversation(
+    employeeId: string,
+    conversation: Omit<InsertSmsConversation, "employeeId">
+  ): Promise<SmsConversation> {
+    const existing = this.smsConversations.get(employeeId);
+    const record: SmsConversation = {
+      id: existing?.id ?? randomUUID(),
+      employeeId,
+      flow: conversation.flow,
+      data: conversation.data ?? {},
+      expiresAt: conversation.expiresAt,
+      updatedAt: new Date(),
+    };
+    this.smsConversations.set(employeeId, record);
+    return record;
+  }
+
+  async deleteSmsConversation(employeeId: string): Promise<boolean> {
+    return this.smsConversations.delete(employeeId);
+  }
+
+  // SMS consent ledger
+  async getSmsConsentEvents(filters?: { employeeId?: string; since?: Date; until?: Date }): Promise<SmsConsentEvent[]> {
+    return Array.from(this.smsConsentEvents.values())
+      .filter(e => !filters?.employeeId || e.employeeId === filters.employeeId)
+      .filter(e => !filters?.since || e.createdAt >= filters.since)
+      .filter(e => !filters?.until || e.createdAt <= filters.until)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createSmsConsentEvent(insertEvent: InsertSmsConsentEvent): Promise<SmsConsentEvent> {
+    const id = randomUUID();
+    const event: SmsConsentEvent = {
+      id,
+      employeeId: insertEvent.employeeId,
+      phone: insertEvent.phone,
+      optedIn: insertEvent.optedIn,
+      source: insertEvent.source,
+      keyword: insertEvent.keyword ?? null,
+      provider: insertEvent.provider ?? null,
+      messageId: insertEvent.messageId ?? null,
+      actorId: insertEvent.actorId ?? null,
+      actorName: insertEvent.actorName ?? null,
+      note: insertEvent.note ?? null,
+      ipAddress: insertEvent.ipAddress ?? null,
+      createdAt: new Date(),
+    };
+    this.smsConsentEvents.set(id, event);
+    return event;
+  }
+
   // Trainings
   async getTrainings(): Promise<Training[]> {
     return Array.from(this.trainings.values());
@@ -1278,8 +1953,6 @@ export class MemStorage implements IStorage {
       type: insertTraining.type,
       dueDate: insertTraining.dueDate ?? null,
       required: insertTraining.required ?? false,
-      completedCount: insertTraining.completedCount ?? 0,
-      totalAssigned: insertTraining.totalAssigned ?? 0,
       createdAt: new Date(),
     };
     this.trainings.set(id, training);
@@ -1295,9 +1968,181 @@ export class MemStorage implements IStorage {
   }
 
   async deleteTraining(id: string): Promise<boolean> {
+    // Drop its sessions, their RSVPs and the assignments
+    const sessionIds = Array.from(this.trainingSessions.values())
+      .filter(s => s.trainingId === id)
+      .map(s => s.id);
+    sessionIds.forEach(sessionId => this.deleteSessionRsvps(sessionId));
+    sessionIds.forEach(sessionId => this.trainingSessions.delete(sessionId));
+    Array.from(this.trainingAssignments.entries())
+      .filter(([_, a]) => a.trainingId === id)
+      .forEach(([key]) => this.trainingAssignments.delete(key));
     return this.trainings.delete(id);
   }
 
+  // Training sessions
+  async getTrainingSessions(trainingId?: string): Promise<TrainingSession[]> {
+    let result = Array.from(this.trainingSessions.values());
+    if (trainingId) {
+      result = result.filter(s => s.trainingId === trainingId);
+    }
+    return result.sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+  }
+
+  async getTrainingSession(id: string): Promise<TrainingSession | undefined> {
+    return this.trainingSessions.get(id);
+  }
+
+  async createTrainingSession(insertSession: InsertTrainingSession): Promise<TrainingSession> {
+    const id = randomUUID();
+    const session: TrainingSession = {
+      id,
+      trainingId: insertSession.trainingId,
+      date: insertSession.date,
+      startTime: insertSession.startTime,
+      durationMinutes: insertSession.durationMinutes ?? 60,
+      location: insertSession.location ?? null,
+      maxAttendees: insertSession.maxAttendees,
+      reminderSentAt: null,
+      createdAt: new Date(),
+    };
+    this.trainingSessions.set(id, session);
+    return session;
+  }
+
+  async updateTrainingSession(id: string, updates: Partial<TrainingSession>): Promise<TrainingSession | undefined> {
+    const existing = this.trainingSessions.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...updates, id };
+    this.trainingSessions.set(id, updated);
+    return updated;
+  }
+
+  async deleteTrainingSession(id: string): Promise<boolean> {
+    this.deleteSessionRsvps(id);
+    // Completions keep their date but no longer point at the session
+    Array.from(this.trainingAssignments.values())
+      .filter(a => a.sessionId === id)
+      .forEach(a => this.trainingAssignments.set(a.id, { ...a, sessionId: null }));
+    return this.trainingSessions.delete(id);
+  }
+
+  private deleteSessionRsvps(sessionId: string): void {
+    Array.from(this.trainingRsvps.entries())
+      .filter(([_, r]) => r.sessionId === sessionId)
+      .forEach(([key]) => this.trainingRsvps.delete(key));
+  }
+
+  // Training assignments
+  async getTrainingAssignments(filters?: { trainingId?: string; employeeId?: string }): Promise<TrainingAssignment[]> {
+    let result = Array.from(this.trainingAssignments.values());
+    if (filters?.trainingId) {
+      result = result.filter(a => a.trainingId === filters.trainingId);
+    }
+    if (filters?.employeeId) {
+      result = result.filter(a => a.employeeId === filters.employeeId);
+    }
+    return result.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getTrainingAssignment(id: string): Promise<TrainingAssignment | undefined> {
+    return this.trainingAssignments.get(id);
+  }
+
+  async createTrainingAssignment(insertAssignment: InsertTrainingAssignment): Promise<TrainingAssignment> {
+    const id = randomUUID();
+    const assignment: TrainingAssignment = {
+      id,
+      trainingId: insertAssignment.trainingId,
+      employeeId: insertAssignment.employeeId,
+      assignedById: insertAssignment.assignedById ?? null,
+      completedAt: insertAssignment.completedAt ?? null,
+      completedById: insertAssignment.completedById ?? null,
+      sessionId: insertAssignment.sessionId ?? null,
+      createdAt: new Date(),
+    };
+    this.trainingAssignments.set(id, assignment);
+    return assignment;
+  }
+
+  async updateTrainingAssignment(id: string, updates: Partial<TrainingAssignment>): Promise<TrainingAssignment | undefined> {
+    const existing = this.trainingAssignments.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...updates, id };
+    this.trainingAssignments.set(id, updated);
+    return updated;
+  }
+
+  async deleteTrainingAssignment(id: string): Promise<boolean> {
+    return this.trainingAssignments.delete(id);
+  }
+
+  // Training RSVPs
+  async getTrainingRsvps(filters?: { sessionId?: string; employeeId?: string }): Promise<TrainingRsvp[]> {
+    let result = Array.from(this.trainingRsvps.values());
+    if (filters?.sessionId) {
+      result = result.filter(r => r.sessionId === filters.sessionId);
+    }
+    if (filters?.employeeId) {
+      result = result.filter(r => r.employeeId === filters.employeeId);
+    }
+    return result.sort((a, b) => a.respondedAt.getTime() - b.respondedAt.getTime());
+  }
+
+  async createTrainingRsvp(insertRsvp: InsertTrainingRsvp): Promise<TrainingRsvp> {
+    const id = randomUUID();
+    const rsvp: TrainingRsvp = {
+      id,
+      sessionId: insertRsvp.sessionId,
+      employeeId: insertRsvp.employeeId,
+      status: insertRsvp.status,
+      respondedAt: new Date(),
+    };
+    this.trainingRsvps.set(id, rsvp);
+    return rsvp;
+  }
+
+  async updateTrainingRsvp(id: string, updates: Partial<TrainingRsvp>): Promise<TrainingRsvp | undefined> {
+    const existing = this.trainingRsvps.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...updates, id };
+    this.trainingRsvps.set(id, updated);
+    return updated;
+  }
+
+  // Report snapshots
+  async getReportSnapshots(): Promise<ReportSnapshot[]> {
+    return Array.from(this.reportSnapshots.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getReportSnapshot(id: string): Promise<ReportSnapshot | undefined> {
+    return this.reportSnapshots.get(id);
+  }
+
+  async createReportSnapshot(insertSnapshot: InsertReportSnapshot): Promise<ReportSnapshot> {
+    const id = randomUUID();
+    const snapshot: ReportSnapshot = {
+      id,
+      name: insertSnapshot.name,
+      source: insertSnapshot.source ?? "manual",
+      weeks: insertSnapshot.weeks,
+      areaId: insertSnapshot.areaId ?? null,
+      periodFrom: insertSnapshot.periodFrom,
+      periodTo: insertSnapshot.periodTo,
+      report: insertSnapshot.report,
+      createdById: insertSnapshot.createdById ?? null,
+      createdByName: insertSnapshot.createdByName,
+      createdAt: new Date(),
+    };
+    this.reportSnapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  async deleteReportSnapshot(id: string): Promise<boolean> {
+    return this.reportSnapshots.delete(id);
+  }
+
   // Audit Logs
   async getAuditLogs(options?: { limit?: number; offset?: number; action?: string; actorId?: string; targetType?: string }): Promise<AuditLog[]> {
     let logs = Array.from(this.auditLogs.values())
@@ -1453,6 +2298,11 @@ export class MemStorage implements IStorage {
       requirements: template.requirements ?? null,
       bonusAmount: template.bonusAmount ?? null,
       notifyAllAreas: template.notifyAllAreas ?? false,
+      recurrenceRule: template.recurrenceRule ?? null,
+      recurrenceStartDate: template.recurrenceStartDate ?? null,
+      recurrenceEndDate: template.recurrenceEndDate ?? null,
+      recurrenceHorizonDays: template.recurrenceHorizonDays ?? 28,
+      recurrenceExceptions: template.recurrenceExceptions ?? [],
       createdById: template.createdById ?? null,
       createdAt: now,
       updatedAt: now,
@@ -1475,6 +2325,10 @@ export class MemStorage implements IStorage {
   }
 
   async deleteShiftTemplate(id: string): Promise<boolean> {
+    // Detach generated shifts so they survive the template
+    Array.from(this.shifts.values())
+      .filter(s => s.templateId === id)
+      .forEach(s => this.shifts.set(s.id, { ...s, templateId: null }));
     return this.shiftTemplates.delete(id);
   }
 }
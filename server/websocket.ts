@@ -1,23 +1,202 @@
 import { WebSocketServer, WebSocket } from "ws";
-import type { Server } from "http";
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { storage } from "./storage";
+import { loadAuthUser, type AuthUser } from "./auth";
+import { PERMISSIONS, hasPermission } from "@shared/permissions";
+import {
+  realtimeClientMessageSchema,
+  type MessageStatusChangedEvent,
+  type RealtimeChannel,
+  type RealtimeEvent,
+  type ShiftUpdateType,
+} from "@shared/realtime";
+import type { Message, Shift } from "@shared/schema";
+
+// A signed-in connection and the channels it has joined
+interface RealtimeClient {
+  user: AuthUser;
+  channels: Set<RealtimeChannel>;
+}
 
 let wss: WebSocketServer | null = null;
 let initialized = false;
+const clients = new Map<WebSocket, RealtimeClient>();
+
+// Channel access follows the role's permissions, the same ones the matching REST routes check
+
+// The staff inbox - gated like the Messages page
+function canSeeAllMessages(user: AuthUser): boolean {
+  return hasPermission(user.permissions, PERMISSIONS.EMPLOYEES_MANAGE);
+}
+
+// Any employee's updates - gated like the employee detail routes
+function canSeeAllEmployees(user: AuthUser): boolean {
+  return hasPermission(user.permissions, PERMISSIONS.EMPLOYEES_VIEW);
+}
+
+function canSeeAllAreas(user: AuthUser): boolean {
+  return hasPermission(user.permissions, PERMISSIONS.SHIFTS_ALL_AREAS);
+}
+
+/**
+ * Whether the user may join a channel
+ */
+function canJoin(user: AuthUser, channel: RealtimeChannel): boolean {
+  if (channel === "areas") return canSeeAllAreas(user);
+  if (channel === "messages") return canSeeAllMessages(user);
+  if (channel.startsWith("area:")) {
+    return canSeeAllAreas(user) || user.areaIds.includes(channel.slice("area:".length));
+  }
+  if (channel.startsWith("employee:")) {
+    return canSeeAllEmployees(user) || user.employeeId === channel.slice("employee:".length);
+  }
+  return false;
+}
+
+/**
+ * The channels a connection starts in - everything the user can see without asking for a specific employee
+ */
+function defaultChannels(user: AuthUser): RealtimeChannel[] {
+  const channels: RealtimeChannel[] = canSeeAllAreas(user)
+    ? ["areas"]
+    : user.areaIds.map((id): RealtimeChannel => `area:${id}`);
+  if (user.employeeId) channels.push(`employee:${user.employeeId}`);
+  if (canSeeAllMessages(user)) channels.push("messages");
+  return channels;
+}
+
+function send(ws: WebSocket, event: RealtimeEvent): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(event));
+  }
+}
+
+function sendSubscriptions(ws: WebSocket, client: RealtimeClient, rejected: string[] = []): void {
+  send(ws, {
+    type: "subscriptions",
+    channels: Array.from(client.channels),
+    rejected,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Send an event to every connection in at least one of the channels
+ */
+function publish(channels: RealtimeChannel[], event: RealtimeEvent): void {
+  const message = JSON.stringify(event);
+  clients.forEach((client, ws) => {
+    if (ws.readyState === WebSocket.OPEN && channels.some(c => client.channels.has(c))) {
+      ws.send(message);
+    }
+  });
+}
+
+/**
+ * The user signed in to the upgrade request's session, read with the same middleware as HTTP requests
+ */
+function authenticateUpgrade(req: IncomingMessage, sessionMiddleware: RequestHandler): Promise<AuthUser | null> {
+  return new Promise((resolve) => {
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      try {
+        // Passport keeps the signed-in user's ID on the session
+        const session = (req as Request).session as unknown as { passport?: { user?: string } } | undefined;
+        const userId = session?.passport?.user;
+        resolve(userId ? await loadAuthUser(userId) : null);
+      } catch (error) {
+        console.error("WebSocket authentication error:", error);
+        resolve(null);
+      }
+    });
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Apply a subscribe or unsubscribe from the client. The user is reloaded first so
+ * area and role changes since they connected are honoured.
+ */
+async function handleClientMessage(ws: WebSocket, client: RealtimeClient, data: string): Promise<void> {
+  let parsed;
+  try {
+    parsed = realtimeClientMessageSchema.safeParse(JSON.parse(data));
+  } catch {
+    parsed = null;
+  }
+  if (!parsed?.success) {
+    send(ws, { type: "error", error: "Invalid message", timestamp: new Date().toISOString() });
+    return;
+  }
 
-export function setupWebSocket(server: Server): WebSocketServer {
+  const user = await loadAuthUser(client.user.id);
+  if (!user) {
+    ws.close(4401, "Session ended");
+    return;
+  }
+  client.user = user;
+
+  // Drop channels the user has lost access to
+  client.channels.forEach(channel => {
+    if (!canJoin(user, channel)) client.channels.delete(channel);
+  });
+
+  const rejected: string[] = [];
+  for (const channel of parsed.data.channels) {
+    if (parsed.data.type === "unsubscribe") {
+      client.channels.delete(channel);
+    } else if (canJoin(user, channel)) {
+      client.channels.add(channel);
+    } else {
+      rejected.push(channel);
+    }
+  }
+  sendSubscriptions(ws, client, rejected);
+}
+
+export function setupWebSocket(server: Server, sessionMiddleware: RequestHandler): WebSocketServer {
   // Guard against re-initialization (hot reload safety)
   if (initialized && wss) {
     return wss;
   }
 
-  wss = new WebSocketServer({ server, path: "/ws" });
+  wss = new WebSocketServer({ noServer: true });
   initialized = true;
 
-  wss.on("connection", (ws) => {
-    console.log("WebSocket client connected");
+  // Only signed-in users get a connection; other upgrade paths (such as Vite's HMR) are left alone
+  server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== "/ws") return;
+
+    const user = await authenticateUpgrade(req, sessionMiddleware);
+    if (!user) {
+      rejectUpgrade(socket, 401, "Unauthorized");
+      return;
+    }
+
+    wss!.handleUpgrade(req, socket, head, (ws) => {
+      wss!.emit("connection", ws, req, user);
+    });
+  });
+
+  wss.on("connection", (ws: WebSocket, _req: IncomingMessage, user: AuthUser) => {
+    const client: RealtimeClient = { user, channels: new Set(defaultChannels(user)) };
+    clients.set(ws, client);
+    sendSubscriptions(ws, client);
+
+    ws.on("message", (data) => {
+      handleClientMessage(ws, client, data.toString()).catch((error) => {
+        console.error("WebSocket message error:", error);
+      });
+    });
 
     ws.on("close", () => {
-      console.log("WebSocket client disconnected");
+      clients.delete(ws);
     });
 
     ws.on("error", (error) => {
@@ -28,19 +207,88 @@ export function setupWebSocket(server: Server): WebSocketServer {
   return wss;
 }
 
-export function broadcastShiftUpdate(shiftId: string, type: "interest_added" | "interest_removed" | "shift_assigned" | "shift_updated") {
-  if (!wss) return;
+/**
+ * Tell clients that can see the shift's area about a change to it. Interest and assignment
+ * changes also go to the employee they're about.
+ */
+export function broadcastShiftUpdate(
+  shift: string | Pick<Shift, "id" | "areaId">,
+  type: ShiftUpdateType,
+  employeeId?: string | null
+): void {
+  if (!wss || clients.size === 0) return;
 
-  const message = JSON.stringify({
-    type: "shift_update",
-    shiftId,
-    updateType: type,
+  // Callers only have the ID for most updates, so look up the area without holding them up
+  const resolve = typeof shift === "string" ? storage.getShift(shift) : Promise.resolve(shift);
+  resolve.then((found) => {
+    if (!found) return;
+    const channels: RealtimeChannel[] = ["areas", `area:${found.areaId}`];
+    if (employeeId) channels.push(`employee:${employeeId}`);
+    publish(channels, {
+      type: "shift_update",
+      shiftId: found.id,
+      areaId: found.areaId,
+      updateType: type,
+      employeeId: employeeId ?? null,
+      timestamp: new Date().toISOString(),
+    });
+  }).catch((error) => {
+    console.error("Error broadcasting shift update:", error);
+  });
+}
+
+/**
+ * Tell staff, and the employee, about a text that came in.
+ * Only IDs go out - clients refetch the conversation to see the content.
+ */
+export function broadcastMessageReceived(message: Pick<Message, "id" | "employeeId" | "status">): void {
+  if (!wss || clients.size === 0) return;
+
+  publish(["messages", `employee:${message.employeeId}`], {
+    type: "message_received",
+    messageId: message.id,
+    employeeId: message.employeeId,
+    status: message.status,
     timestamp: new Date().toISOString(),
   });
+}
 
-  wss.clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(message);
-    }
+/**
+ * Tell staff, and the employee, that a text's status changed
+ */
+export function broadcastMessageStatus(message: Pick<Message, "id" | "employeeId" | "direction" | "status">): void {
+  if (!wss || clients.size === 0) return;
+
+  publish(["messages", `employee:${message.employeeId}`], {
+    type: "message_status_changed",
+    messageId: message.id,
+    employeeId: message.employeeId,
+    direction: message.direction as MessageStatusChangedEvent["direction"],
+    status: message.status,
+    timestamp: new Date().toISOString(),
   });
 }
+
+/**
+ * Tell staff an employee's conversation was read, so unread counts drop everywhere
+ */
+export function broadcastConversationRead(employeeId: string, updatedCount: number): void {
+  if (!wss || clients.size === 0) return;
+
+  publish(["messages"], {
+    type: "conversation_read",
+    employeeId,
+    updatedCount,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Tell every signed-in client an organization setting changed
+ */
+export function broadcastSettingsUpdate(key: string): void {
+  if (!wss) return;
+
+  const event: RealtimeEvent = { type: "settings_updated", key, timestamp: new Date().toISOString() };
+  clients.forEach((_client, ws) => send(ws, event));
+}
@@ -0,0 +1,17 @@
+// Auto-award - per-area policies that pick an interested employee without a manager stepping in
+import { z } from "zod";
+
+export const AUTO_AWARD_POLICIES = ["first_come", "fewest_hours", "seniority"] as const;
+
+export type AutoAwardPolicy = typeof AUTO_AWARD_POLICIES[number];
+
+export const AUTO_AWARD_POLICY_LABELS: Record<AutoAwardPolicy, string> = {
+  first_come: "First come, first served",
+  fewest_hours: "Fewest hours this week",
+  seniority: "Seniority",
+};
+
+export const autoAwardPolicySchema = z.enum(AUTO_AWARD_POLICIES);
+
+// Minutes to wait after the first interest before awarding, so others get a chance to respond
+export const autoAwardDelaySchema = z.number().int().min(0).max(24 * 60);
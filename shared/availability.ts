@@ -0,0 +1,117 @@
+// Employee availability - weekly recurring windows, blackout dates and preferred shift types
+import { z } from "zod";
+import { DAY_LABELS, addDays } from "./recurrence";
+
+export const SHIFT_TYPES = ["day", "evening", "night"] as const;
+
+export type ShiftType = typeof SHIFT_TYPES[number];
+
+export const SHIFT_TYPE_LABELS: Record<ShiftType, string> = {
+  day: "Day",
+  evening: "Evening",
+  night: "Night",
+};
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM");
+
+// A window whose end is at or before its start runs overnight into the next day
+export const availabilityWindowSchema = z.object({
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: timeSchema,
+  endTime: timeSchema,
+});
+
+export type AvailabilityWindow = z.infer<typeof availabilityWindowSchema>;
+
+export const blackoutDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+export const shiftTypeSchema = z.enum(SHIFT_TYPES);
+
+export interface AvailabilityPreferences {
+  weeklyAvailability: AvailabilityWindow[];
+  blackoutDates: string[];
+  preferredShiftTypes: ShiftType[];
+}
+
+type ShiftTiming = { date: string; startTime: string; endTime: string };
+
+const DAY_MINUTES = 24 * 60;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Start and end minutes from midnight, with overnight ends pushed past 24:00
+function toRange(startTime: string, endTime: string): { start: number; end: number } {
+  const start = toMinutes(startTime);
+  let end = toMinutes(endTime);
+  if (end <= start) end += DAY_MINUTES;
+  return { start, end };
+}
+
+function getDayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Classify a shift by its start time: day (05:00-11:59), evening (12:00-17:59) or night
+ */
+export function getShiftType(startTime: string): ShiftType {
+  const hour = Math.floor(toMinutes(startTime) / 60);
+  if (hour >= 5 && hour < 12) return "day";
+  if (hour >= 12 && hour < 18) return "evening";
+  return "night";
+}
+
+/**
+ * Check whether an employee is available for a shift.
+ * No weekly windows means no recurring restriction; blackout dates always apply,
+ * including the next day for overnight shifts.
+ */
+export function isAvailableForShift(
+  availability: AvailabilityPreferences | null | undefined,
+  shift: ShiftTiming
+): { available: boolean; reason?: string } {
+  if (!availability) return { available: true };
+
+  const shiftRange = toRange(shift.startTime, shift.endTime);
+  const blackouts = new Set(availability.blackoutDates);
+  if (blackouts.has(shift.date)) {
+    return { available: false, reason: `Blacked out on ${shift.date}` };
+  }
+  const nextDate = addDays(shift.date, 1);
+  if (shiftRange.end > DAY_MINUTES && blackouts.has(nextDate)) {
+    return { available: false, reason: `Blacked out on ${nextDate}` };
+  }
+
+  if (availability.weeklyAvailability.length === 0) return { available: true };
+
+  // Windows are matched on the shift's day, or the previous day for windows running overnight
+  const dayOfWeek = getDayOfWeek(shift.date);
+  const previousDay = (dayOfWeek + 6) % 7;
+  const covered = availability.weeklyAvailability.some(window => {
+    const range = toRange(window.startTime, window.endTime);
+    if (window.dayOfWeek === dayOfWeek && range.start <= shiftRange.start && range.end >= shiftRange.end) {
+      return true;
+    }
+    return window.dayOfWeek === previousDay
+      && range.start - DAY_MINUTES <= shiftRange.start
+      && range.end - DAY_MINUTES >= shiftRange.end;
+  });
+
+  return covered
+    ? { available: true }
+    : { available: false, reason: `Not available ${DAY_LABELS[dayOfWeek]} ${shift.startTime}-${shift.endTime}` };
+}
+
+/**
+ * Human-readable summary of weekly windows, e.g. "Mon 07:00-19:00, Tue 07:00-19:00"
+ */
+export function describeWeeklyAvailability(windows: AvailabilityWindow[]): string {
+  if (windows.length === 0) return "Any time";
+  return [...windows]
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime))
+    .map(w => `${DAY_LABELS[w.dayOfWeek]} ${w.startTime}-${w.endTime}`)
+    .join(", ");
+}
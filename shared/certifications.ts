@@ -0,0 +1,42 @@
+// Certifications - licenses and credentials (RN license, BLS, ACLS...) with optional expiry dates
+import type { EmployeeCertification } from "./schema";
+
+export type CertificationStatus = "current" | "expiring" | "expired";
+
+export const CERTIFICATION_STATUS_LABELS: Record<CertificationStatus, string> = {
+  current: "Current",
+  expiring: "Expiring soon",
+  expired: "Expired",
+};
+
+// An employee's certificate as returned by the API, with its catalog name and current status
+export type EmployeeCertificationWithStatus = EmployeeCertification & {
+  certificationName: string;
+  status: CertificationStatus;
+};
+
+/**
+ * Whole days from one YYYY-MM-DD date to another (negative when `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = to.split("-").map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Whether a certificate is still valid on a date. No expiry date means it never lapses.
+ */
+export function isCertificationValidOn(expiresOn: string | null, date: string): boolean {
+  return !expiresOn || expiresOn >= date;
+}
+
+/**
+ * Status of a certificate as of today, flagging it once it is within warningDays of expiring
+ */
+export function getCertificationStatus(expiresOn: string | null, today: string, warningDays: number): CertificationStatus {
+  if (!expiresOn) return "current";
+  const daysLeft = daysBetween(today, expiresOn);
+  if (daysLeft < 0) return "expired";
+  return daysLeft <= warningDays ? "expiring" : "current";
+}
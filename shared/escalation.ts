@@ -0,0 +1,47 @@
+// Shift escalation - stages that widen the search when a shift stays unfilled
+import { z } from "zod";
+
+export const ESCALATION_ACTIONS = ["notify_all_areas", "add_bonus", "page_supervisor"] as const;
+
+export type EscalationAction = typeof ESCALATION_ACTIONS[number];
+
+export const ESCALATION_ACTION_LABELS: Record<EscalationAction, string> = {
+  notify_all_areas: "Notify all areas",
+  add_bonus: "Add bonus and repost",
+  page_supervisor: "Page area supervisor",
+};
+
+// Each step runs once the shift has gone waitMinutes without interest since the previous stage
+export const escalationStepSchema = z.object({
+  action: z.enum(ESCALATION_ACTIONS),
+  waitMinutes: z.number().int().min(5).max(7 * 24 * 60),
+  bonusIncrement: z.number().int().min(1).max(1000).optional(), // add_bonus only - dollars added to the current bonus
+}).refine(step => step.action !== "add_bonus" || step.bonusIncrement !== undefined, {
+  message: "Bonus steps need a bonus amount",
+  path: ["bonusIncrement"],
+});
+
+export type EscalationStep = z.infer<typeof escalationStepSchema>;
+
+export const escalationPolicySchema = z.object({
+  steps: z.array(escalationStepSchema).min(1).max(10),
+});
+
+export type EscalationPolicy = z.infer<typeof escalationPolicySchema>;
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  steps: [
+    { action: "notify_all_areas", waitMinutes: 30 },
+    { action: "add_bonus", waitMinutes: 60, bonusIncrement: 25 },
+    { action: "page_supervisor", waitMinutes: 60 },
+  ],
+};
+
+/**
+ * Human-readable step, e.g. "After 30 min: Notify all areas"
+ */
+export function describeEscalationStep(step: EscalationStep): string {
+  const wait = step.waitMinutes % 60 === 0 ? `${step.waitMinutes / 60} hr` : `${step.waitMinutes} min`;
+  const bonus = step.action === "add_bonus" && step.bonusIncrement ? ` (+$${step.bonusIncrement})` : "";
+  return `After ${wait}: ${ESCALATION_ACTION_LABELS[step.action]}${bonus}`;
+}
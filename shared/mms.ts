@@ -0,0 +1,42 @@
+// MMS attachments - pictures supervisors send with a text
+import { z } from "zod";
+
+// Picture types every MMS provider accepts
+export const MMS_CONTENT_TYPES = ["image/jpeg", "image/png", "image/gif"] as const;
+
+export const MAX_MMS_ATTACHMENTS = 5;
+
+// Total size of a message's attachments - RingCentral's limit, the lowest of our providers
+export const MAX_MMS_BYTES = 1.5 * 1024 * 1024;
+
+// An attachment as uploaded with a message - the file is base64 encoded
+export const mmsUploadSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  contentType: z.enum(MMS_CONTENT_TYPES, {
+    errorMap: () => ({ message: "Only JPEG, PNG and GIF pictures can be sent" }),
+  }),
+  data: z.string().min(1),
+});
+
+export type MmsUpload = z.infer<typeof mmsUploadSchema>;
+
+export const mmsUploadsSchema = z.array(mmsUploadSchema).max(MAX_MMS_ATTACHMENTS, {
+  message: `At most ${MAX_MMS_ATTACHMENTS} pictures can be sent at once`,
+});
+
+// An attachment as the Messages page shows it - the file itself is downloaded from url
+export interface MessageAttachmentSummary {
+  id: string;
+  contentType: string;
+  fileName: string | null;
+  size: number;
+  url: string | null; // Null if inbound media couldn't be downloaded from the provider
+}
+
+/**
+ * Decoded size of a base64 string in bytes
+ */
+export function base64Size(data: string): number {
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
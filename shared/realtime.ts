@@ -0,0 +1,96 @@
+// Real-time events pushed over the /ws WebSocket, and the channels clients subscribe to
+import { z } from "zod";
+
+export type ShiftUpdateType =
+  | "shift_created"
+  | "shift_updated"
+  | "shift_assigned"
+  | "shift_deleted"
+  | "interest_added"
+  | "interest_removed";
+
+// Channels a client can join. Staff can join any employee's channel and the message feed;
+// everyone else only their own employee channel and the areas they work in.
+//   areas          - shifts in every area (admins and shifts:all_areas)
+//   area:<id>      - shifts in one area
+//   employee:<id>  - events about one employee - their interests, assignments and texts
+//   messages       - every text sent or received (admins and supervisors)
+export type RealtimeChannel = "areas" | "messages" | `area:${string}` | `employee:${string}`;
+
+export const realtimeChannelSchema = z
+  .string()
+  .regex(/^(areas|messages|area:[\w-]+|employee:[\w-]+)$/, "Unknown channel") as z.ZodType<RealtimeChannel>;
+
+// What a client sends to change its channels
+export const realtimeClientMessageSchema = z.object({
+  type: z.enum(["subscribe", "unsubscribe"]),
+  channels: z.array(realtimeChannelSchema).max(100),
+});
+
+export type RealtimeClientMessage = z.infer<typeof realtimeClientMessageSchema>;
+
+export interface ShiftUpdateEvent {
+  type: "shift_update";
+  shiftId: string;
+  areaId: string;
+  updateType: ShiftUpdateType;
+  employeeId: string | null; // The employee the update is about, for interest and assignment changes
+  timestamp: string;
+}
+
+// An employee texted in. Status is "read" if the text was a command we answered, so it needs no attention
+export interface MessageReceivedEvent {
+  type: "message_received";
+  messageId: string;
+  employeeId: string;
+  status: string;
+  timestamp: string;
+}
+
+// A text was queued, sent or failed, or the provider reported delivery
+export interface MessageStatusChangedEvent {
+  type: "message_status_changed";
+  messageId: string;
+  employeeId: string;
+  direction: "inbound" | "outbound";
+  status: string;
+  timestamp: string;
+}
+
+// A supervisor opened an employee's conversation, marking their texts read
+export interface ConversationReadEvent {
+  type: "conversation_read";
+  employeeId: string;
+  updatedCount: number;
+  timestamp: string;
+}
+
+export interface SettingsUpdatedEvent {
+  type: "settings_updated";
+  key: string;
+  timestamp: string;
+}
+
+// Sent on connect and in answer to each subscribe or unsubscribe
+export interface SubscriptionsEvent {
+  type: "subscriptions";
+  channels: RealtimeChannel[];
+  rejected: string[]; // Channels asked for that this user isn't allowed to join
+  timestamp: string;
+}
+
+// Sent when a client message can't be understood
+export interface RealtimeErrorEvent {
+  type: "error";
+  error: string;
+  timestamp: string;
+}
+
+export type RealtimeEvent =
+  | ShiftUpdateEvent
+  | MessageReceivedEvent
+  | MessageStatusChangedEvent
+  | ConversationReadEvent
+  | SettingsUpdatedEvent
+  | SubscriptionsEvent
+  | RealtimeErrorEvent;
@@ -0,0 +1,100 @@
+// Recurrence rules for shift templates (recurring shift series)
+import { z } from "zod";
+
+export const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
+
+const ORDINAL_LABELS: Record<number, string> = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th", [-1]: "Last" };
+
+// weekly: every `interval` weeks on `daysOfWeek` (e.g. every Mon/Wed/Fri)
+// monthly: the `weekOfMonth`-th weekday of every month (e.g. every 2nd Saturday)
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(["weekly", "monthly"]),
+  interval: z.number().int().min(1).max(12).default(1),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1, "Select at least one day"),
+  weekOfMonth: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(-1)]).optional(),
+}).refine(rule => rule.frequency !== "monthly" || rule.weekOfMonth !== undefined, {
+  message: "Monthly recurrence requires a week of the month",
+  path: ["weekOfMonth"],
+});
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+export type SeriesScope = "this" | "following";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are handled as UTC midnights so DST changes never shift a day
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export function addDays(date: string, days: number): string {
+  return formatDate(new Date(parseDate(date).getTime() + days * DAY_MS));
+}
+
+// Today's calendar date where the server runs, as YYYY-MM-DD (how shift dates are stored)
+export function getLocalToday(now: Date = new Date()): string {
+  return formatDate(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+}
+
+function matchesRule(rule: RecurrenceRule, date: Date, seriesStart: Date): boolean {
+  if (!rule.daysOfWeek.includes(date.getUTCDay())) return false;
+
+  if (rule.frequency === "weekly") {
+    // Count weeks from the Sunday of the series start week
+    const anchorWeekStart = seriesStart.getTime() - seriesStart.getUTCDay() * DAY_MS;
+    const weekIndex = Math.floor((date.getTime() - anchorWeekStart) / (7 * DAY_MS));
+    return weekIndex % rule.interval === 0;
+  }
+
+  const dayOfMonth = date.getUTCDate();
+  if (rule.weekOfMonth === -1) {
+    const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    return dayOfMonth + 7 > daysInMonth;
+  }
+  return Math.ceil(dayOfMonth / 7) === rule.weekOfMonth;
+}
+
+/**
+ * List the occurrence dates (YYYY-MM-DD) of a rule between two dates, inclusive.
+ * Dates before the series start or after the series end are never returned.
+ */
+export function getOccurrenceDates(
+  rule: RecurrenceRule,
+  seriesStartDate: string,
+  fromDate: string,
+  toDate: string,
+  seriesEndDate?: string | null
+): string[] {
+  const seriesStart = parseDate(seriesStartDate);
+  const from = Math.max(parseDate(fromDate).getTime(), seriesStart.getTime());
+  let to = parseDate(toDate).getTime();
+  if (seriesEndDate) {
+    to = Math.min(to, parseDate(seriesEndDate).getTime());
+  }
+
+  const dates: string[] = [];
+  for (let time = from; time <= to; time += DAY_MS) {
+    const date = new Date(time);
+    if (matchesRule(rule, date, seriesStart)) {
+      dates.push(formatDate(date));
+    }
+  }
+  return dates;
+}
+
+/**
+ * Human-readable summary of a rule, e.g. "Every Mon, Wed, Fri" or "2nd Sat of every month"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const days = [...rule.daysOfWeek].sort((a, b) => a - b).map(d => DAY_LABELS[d]).join(", ");
+  if (rule.frequency === "monthly") {
+    return `${ORDINAL_LABELS[rule.weekOfMonth ?? 1]} ${days} of every month`;
+  }
+  return rule.interval > 1 ? `Every ${rule.interval} weeks on ${days}` : `Every ${days}`;
+}
@@ -0,0 +1,137 @@
+// Reports - shift coverage metrics computed on the server, their exports and saved snapshots
+import { z } from "zod";
+
+export const REPORT_FORMATS = ["csv", "xlsx", "pdf"] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  pdf: "PDF",
+};
+
+// Sections a CSV export can hold - XLSX and PDF exports carry every section
+export const REPORT_SECTIONS = ["weekly", "areas", "employees", "time_to_fill"] as const;
+export type ReportSection = typeof REPORT_SECTIONS[number];
+
+export const REPORT_SECTION_LABELS: Record<ReportSection, string> = {
+  weekly: "Weekly Fill Rate",
+  areas: "Area Coverage",
+  employees: "Employee Performance",
+  time_to_fill: "Time to Fill",
+};
+
+// How often the scheduler saves a snapshot of the default report
+export const REPORT_SNAPSHOT_SCHEDULES = ["off", "weekly", "monthly"] as const;
+export type ReportSnapshotSchedule = typeof REPORT_SNAPSHOT_SCHEDULES[number];
+
+export const reportQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(52).default(4),
+  areaId: z.string().optional().transform(value => (value && value !== "all" ? value : undefined)),
+});
+
+export const reportExportQuerySchema = reportQuerySchema.extend({
+  format: z.enum(REPORT_FORMATS),
+  section: z.enum(REPORT_SECTIONS).optional(),
+});
+
+export const reportSnapshotRequestSchema = z.object({
+  weeks: z.number().int().min(1).max(52).default(4),
+  areaId: z.string().nullable().optional(),
+});
+
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+
+// The shifts a report covers - those scheduled from `from` through `to`
+export interface ReportPeriod {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  weeks: number;
+  areaId: string | null;
+  areaName: string | null;
+}
+
+export interface ReportSummary {
+  totalShifts: number;
+  filledShifts: number;
+  expiredShifts: number;
+  openShifts: number;
+  fillRate: number; // Percent of shifts filled
+  hoursCovered: number;
+  activeStaff: number; // Employees who worked at least one shift
+  medianTimeToFillHours: number | null; // Posting to first assignment
+  averageTimeToFillHours: number | null;
+  shiftTexts: number; // Shift notification texts delivered
+  smsReplies: number; // Texts answered within the response window
+  smsResponseRate: number | null; // Percent of shift texts answered
+  medianSmsResponseMinutes: number | null;
+  bonusSpend: number; // Dollars of bonus on filled shifts
+  bonusShifts: number;
+}
+
+export interface WeeklyFillRateRow {
+  weekStart: string; // YYYY-MM-DD, a Sunday
+  label: string; // e.g. "Mar 2 - Mar 8"
+  total: number;
+  filled: number;
+  expired: number;
+  open: number;
+  fillRate: number;
+  medianTimeToFillHours: number | null;
+  bonusSpend: number;
+}
+
+export interface AreaCoverageRow {
+  areaId: string;
+  areaName: string;
+  total: number;
+  filled: number;
+  expired: number;
+  open: number;
+  fillRate: number;
+  hoursCovered: number;
+  hoursUncovered: number; // Hours on expired shifts
+  medianTimeToFillHours: number | null;
+  bonusSpend: number;
+}
+
+export interface EmployeePerformanceRow {
+  employeeId: string;
+  name: string;
+  position: string;
+  shiftsWorked: number;
+  hoursWorked: number;
+  shiftTexts: number;
+  smsReplies: number;
+  smsResponseRate: number | null;
+  medianSmsResponseMinutes: number | null;
+  bonusEarned: number;
+}
+
+export interface TimeToFillBucket {
+  label: string;
+  count: number;
+}
+
+export interface ShiftReport {
+  period: ReportPeriod;
+  generatedAt: string; // ISO timestamp
+  summary: ReportSummary;
+  weekly: WeeklyFillRateRow[];
+  areas: AreaCoverageRow[];
+  employees: EmployeePerformanceRow[];
+  timeToFill: TimeToFillBucket[];
+}
+
+// A saved report as the snapshot list shows it, without the report body
+export interface ReportSnapshotSummary {
+  id: string;
+  name: string;
+  source: "manual" | "scheduled";
+  weeks: number;
+  areaId: string | null;
+  periodFrom: string;
+  periodTo: string;
+  createdByName: string;
+  createdAt: string;
+}
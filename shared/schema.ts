@@ -2,6 +2,17 @@ import { sql } from "drizzle-orm";
 import { pgTable, text, varchar, boolean, timestamp, integer, json } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { recurrenceRuleSchema, type RecurrenceRule } from "./recurrence";
+import {
+  availabilityWindowSchema,
+  blackoutDateSchema,
+  shiftTypeSchema,
+  type AvailabilityWindow,
+  type ShiftType,
+} from "./availability";
+import { escalationPolicySchema, type EscalationPolicy } from "./escalation";
+import { autoAwardPolicySchema, autoAwardDelaySchema, type AutoAwardPolicy } from "./autoAward";
+import type { ShiftReport } from "./reports";
 
 // Roles - granular access control
 export const roles = pgTable("roles", {
@@ -42,9 +53,14 @@ export const areas = pgTable("areas", {
   name: text("name").notNull(),
   description: text("description"),
   smsEnabled: boolean("sms_enabled").default(true).notNull(),
+  autoAwardPolicy: text("auto_award_policy").$type<AutoAwardPolicy>(), // null = managers assign by hand
+  autoAwardDelayMinutes: integer("auto_award_delay_minutes").default(0).notNull(),
 });
 
-export const insertAreaSchema = createInsertSchema(areas).omit({ id: true });
+export const insertAreaSchema = createInsertSchema(areas).omit({ id: true }).extend({
+  autoAwardPolicy: autoAwardPolicySchema.nullable().optional(),
+  autoAwardDelayMinutes: autoAwardDelaySchema.optional(),
+});
 export type InsertArea = z.infer<typeof insertAreaSchema>;
 export type Area = typeof areas.$inferSelect;
 
@@ -59,6 +75,26 @@ export const insertPositionSchema = createInsertSchema(positions).omit({ id: tru
 export type InsertPosition = z.infer<typeof insertPositionSchema>;
 export type Position = typeof positions.$inferSelect;
 
+// Certifications - licenses and credentials employees can hold, e.g. RN License, BLS, ACLS
+export const certifications = pgTable("certifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+});
+
+export const insertCertificationSchema = createInsertSchema(certifications).omit({ id: true });
+export type InsertCertification = z.infer<typeof insertCertificationSchema>;
+export type Certification = typeof certifications.$inferSelect;
+
+// Position requirements - certifications an employee must hold to work shifts for a position
+export const positionCertifications = pgTable("position_certifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  positionId: varchar("position_id").notNull().references(() => positions.id),
+  certificationId: varchar("certification_id").notNull().references(() => certifications.id),
+});
+
+export type PositionCertification = typeof positionCertifications.$inferSelect;
+
 // Employees
 export const employees = pgTable("employees", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -73,9 +109,19 @@ export const employees = pgTable("employees", {
   // Web access fields
   webAccessEnabled: boolean("web_access_enabled").default(false).notNull(),
   username: text("username"),
+  hireDate: text("hire_date"), // YYYY-MM-DD, used for seniority ordering
+  // SMS notification preferences - apply to new-shift offers
+  smsMaxPerHour: integer("sms_max_per_hour"), // Most texts in any hour; null = no limit
+  smsMaxPerDay: integer("sms_max_per_day"), // Most texts in any 24 hours; null = no limit
+  smsDigestMinutes: integer("sms_digest_minutes"), // Offers go out as one summary this often; null = text each shift
 });
 
-export const insertEmployeeSchema = createInsertSchema(employees).omit({ id: true });
+export const insertEmployeeSchema = createInsertSchema(employees, {
+  hireDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().optional(),
+  smsMaxPerHour: z.number().int().min(1, "Hourly limit must be at least 1").nullable().optional(),
+  smsMaxPerDay: z.number().int().min(1, "Daily limit must be at least 1").nullable().optional(),
+  smsDigestMinutes: z.number().int().min(15, "Digests can go out at most every 15 minutes").nullable().optional(),
+}).omit({ id: true });
 export type InsertEmployee = z.infer<typeof insertEmployeeSchema>;
 export type Employee = typeof employees.$inferSelect;
 
@@ -90,6 +136,66 @@ export const insertEmployeeAreaSchema = createInsertSchema(employeeAreas).omit({
 export type InsertEmployeeArea = z.infer<typeof insertEmployeeAreaSchema>;
 export type EmployeeArea = typeof employeeAreas.$inferSelect;
 
+// Employee certifications - the credentials each employee holds
+export const employeeCertifications = pgTable("employee_certifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").notNull().references(() => employees.id),
+  certificationId: varchar("certification_id").notNull().references(() => certifications.id),
+  credentialNumber: text("credential_number"), // License or card number
+  issuedOn: text("issued_on"), // YYYY-MM-DD
+  expiresOn: text("expires_on"), // YYYY-MM-DD, last valid day - null = never expires
+  expiryWarningSentAt: timestamp("expiry_warning_sent_at"), // Cleared when the expiry date changes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertEmployeeCertificationSchema = createInsertSchema(employeeCertifications, {
+  issuedOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().optional(),
+  expiresOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().optional(),
+}).omit({ id: true, createdAt: true, expiryWarningSentAt: true });
+export type InsertEmployeeCertification = z.infer<typeof insertEmployeeCertificationSchema>;
+export type EmployeeCertification = typeof employeeCertifications.$inferSelect;
+
+// Employee availability - one row per employee, used to skip people when notifying
+export const employeeAvailability = pgTable("employee_availability", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").notNull().unique().references(() => employees.id),
+  weeklyAvailability: json("weekly_availability").$type<AvailabilityWindow[]>().default([]).notNull(), // Empty = available any time
+  blackoutDates: json("blackout_dates").$type<string[]>().default([]).notNull(), // YYYY-MM-DD dates the employee can't work
+  preferredShiftTypes: json("preferred_shift_types").$type<ShiftType[]>().default([]).notNull(), // day, evening, night
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertEmployeeAvailabilitySchema = createInsertSchema(employeeAvailability, {
+  weeklyAvailability: z.array(availabilityWindowSchema).optional(),
+  blackoutDates: z.array(blackoutDateSchema).optional(),
+  preferredShiftTypes: z.array(shiftTypeSchema).optional(),
+}).omit({ id: true, updatedAt: true });
+export type InsertEmployeeAvailability = z.infer<typeof insertEmployeeAvailabilitySchema>;
+export type EmployeeAvailability = typeof employeeAvailability.$inferSelect;
+
+// Time-off requests - approved time off blocks assignment and notifications
+export const timeOffRequests = pgTable("time_off_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").notNull().references(() => employees.id),
+  startDate: text("start_date").notNull(), // YYYY-MM-DD, first day off
+  endDate: text("end_date").notNull(), // YYYY-MM-DD, last day off (inclusive)
+  reason: text("reason"),
+  status: text("status").notNull().default("pending"), // pending, approved, denied, cancelled
+  source: text("source").notNull().default("web"), // web, sms
+  reviewedById: varchar("reviewed_by_id").references(() => users.id),
+  reviewedByName: text("reviewed_by_name"),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertTimeOffRequestSchema = createInsertSchema(timeOffRequests, {
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+}).omit({ id: true, createdAt: true });
+export type InsertTimeOffRequest = z.infer<typeof insertTimeOffRequestSchema>;
+export type TimeOffRequest = typeof timeOffRequests.$inferSelect;
+
 // Shifts - work shifts that need to be filled
 export const shifts = pgTable("shifts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -104,15 +210,24 @@ export const shifts = pgTable("shifts", {
   postedByName: text("posted_by_name").notNull(),
   status: text("status").notNull().default("available"), // available, claimed, expired
   assignedEmployeeId: varchar("assigned_employee_id").references(() => employees.id),
+  filledAt: timestamp("filled_at"), // When the shift was first assigned, for time-to-fill reporting
   smsCode: text("sms_code"), // Short 6-char code for SMS replies (e.g., "ABC123")
   bonusAmount: integer("bonus_amount"), // Optional bonus amount in dollars (e.g., 50 for $50 bonus)
   notifyAllAreas: boolean("notify_all_areas").default(false), // When true, notify employees from all areas
   lastNotifiedAt: timestamp("last_notified_at"), // When SMS notifications were last sent for this shift
   notificationCount: integer("notification_count").default(0), // Number of employees notified in last notification
+  templateId: varchar("template_id").references(() => shiftTemplates.id), // Recurring series this shift was generated from
+  occurrenceDate: text("occurrence_date"), // Series date this shift was generated for (kept if the shift is moved)
+  // Escalation - stages run by the scheduler while the shift stays unfilled
+  escalationPolicy: json("escalation_policy").$type<EscalationPolicy>(),
+  escalationStage: integer("escalation_stage").default(0), // Number of policy steps already run
+  escalatedAt: timestamp("escalated_at"), // When the last step ran
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertShiftSchema = createInsertSchema(shifts).omit({ id: true, createdAt: true });
+export const insertShiftSchema = createInsertSchema(shifts, {
+  escalationPolicy: escalationPolicySchema.nullable().optional(),
+}).omit({ id: true, createdAt: true });
 export type InsertShift = z.infer<typeof insertShiftSchema>;
 export type Shift = typeof shifts.$inferSelect;
 
@@ -128,6 +243,44 @@ export const insertShiftInterestSchema = createInsertSchema(shiftInterests).omit
 export type InsertShiftInterest = z.infer<typeof insertShiftInterestSchema>;
 export type ShiftInterest = typeof shiftInterests.$inferSelect;
 
+// Shift swaps - an assigned employee offers their shift to the pool or to a specific coworker
+export const shiftSwaps = pgTable("shift_swaps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shiftId: varchar("shift_id").notNull().references(() => shifts.id),
+  offeredById: varchar("offered_by_id").notNull().references(() => employees.id), // Employee giving the shift away
+  targetEmployeeId: varchar("target_employee_id").references(() => employees.id), // Null = offered to the pool
+  acceptedById: varchar("accepted_by_id").references(() => employees.id), // Coworker taking the shift
+  status: text("status").notNull().default("open"), // open, pending_approval, approved, denied, cancelled
+  note: text("note"),
+  reviewedById: varchar("reviewed_by_id").references(() => users.id),
+  reviewedByName: text("reviewed_by_name"),
+  reviewNote: text("review_note"),
+  acceptedAt: timestamp("accepted_at"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertShiftSwapSchema = createInsertSchema(shiftSwaps).omit({ id: true, createdAt: true });
+export type InsertShiftSwap = z.infer<typeof insertShiftSwapSchema>;
+export type ShiftSwap = typeof shiftSwaps.$inferSelect;
+
+// Shift offers - who was texted about each shift and in which wave, kept for fair rotation and equity reporting.
+// Offers held for an employee's digest stay in "digest" until the summary goes out.
+export const shiftOffers = pgTable("shift_offers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shiftId: varchar("shift_id").notNull().references(() => shifts.id),
+  employeeId: varchar("employee_id").notNull().references(() => employees.id),
+  wave: integer("wave").notNull().default(1), // 1 = first group notified
+  status: text("status").notNull().default("queued"), // queued, digest, sent, failed, skipped, cancelled
+  scheduledFor: timestamp("scheduled_for").defaultNow().notNull(), // When a queued wave goes out
+  offeredAt: timestamp("offered_at"), // When the text was actually sent
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertShiftOfferSchema = createInsertSchema(shiftOffers).omit({ id: true, createdAt: true });
+export type InsertShiftOffer = z.infer<typeof insertShiftOfferSchema>;
+export type ShiftOffer = typeof shiftOffers.$inferSelect;
+
 // Shift Templates - reusable shift configurations
 export const shiftTemplates = pgTable("shift_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -140,12 +293,21 @@ export const shiftTemplates = pgTable("shift_templates", {
   requirements: text("requirements"),
   bonusAmount: integer("bonus_amount"),
   notifyAllAreas: boolean("notify_all_areas").default(false),
+  // Recurrence - when a rule is set, the generator materializes shifts from this template
+  recurrenceRule: json("recurrence_rule").$type<RecurrenceRule>(),
+  recurrenceStartDate: text("recurrence_start_date"), // YYYY-MM-DD, first possible occurrence
+  recurrenceEndDate: text("recurrence_end_date"), // YYYY-MM-DD, last possible occurrence (null = no end)
+  recurrenceHorizonDays: integer("recurrence_horizon_days").default(28), // How many days ahead to generate shifts
+  recurrenceExceptions: json("recurrence_exceptions").$type<string[]>().default([]), // Cancelled occurrence dates
   createdById: varchar("created_by_id").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const insertShiftTemplateSchema = createInsertSchema(shiftTemplates).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertShiftTemplateSchema = createInsertSchema(shiftTemplates, {
+  recurrenceRule: recurrenceRuleSchema.nullable().optional(),
+  recurrenceExceptions: z.array(z.string()).optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
 export type InsertShiftTemplate = z.infer<typeof insertShiftTemplateSchema>;
 export type ShiftTemplate = typeof shiftTemplates.$inferSelect;
 
@@ -155,7 +317,7 @@ export const messages = pgTable("messages", {
   employeeId: varchar("employee_id").notNull().references(() => employees.id),
   direction: text("direction").notNull(), // inbound, outbound
   content: text("content").notNull(),
-  status: text("status").notNull().default("pending"), // pending, queued, sent, delivered, undelivered, failed
+  status: text("status").notNull().default("pending"), // queued, pending (sending), sent, delivered, undelivered, failed, cancelled
   // Provider-agnostic message tracking
   providerMessageId: text("provider_message_id"), // Message ID from provider (Twilio SID, RingCentral ID, etc.)
   smsProvider: text("sms_provider").default("twilio"), // twilio, ringcentral
@@ -171,9 +333,17 @@ export const messages = pgTable("messages", {
   threadId: varchar("thread_id"),
   inReplyTo: varchar("in_reply_to"),
   // Message type for categorization
-  messageType: text("message_type").default("general"), // general, shift_notification, shift_reminder, shift_confirmation, bulk, system
+  messageType: text("message_type").default("general"), // general, shift_notification, shift_reminder, shift_confirmation, bulk, system, callout_poll, sms_command, auto_reply, shift_digest, training_reminder
   // Related entity (for shift notifications)
   relatedShiftId: varchar("related_shift_id").references(() => shifts.id),
+  // Outbound queue - "queued" messages are drained by the SMS queue worker
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at"), // Retry backoff; null means send as soon as possible
+  respectQuietHours: boolean("respect_quiet_hours").default(false).notNull(), // Hold until quiet hours end
+  // Scheduled sends - the queue holds the message until scheduledFor
+  scheduledFor: timestamp("scheduled_for"),
+  scheduledBy: varchar("scheduled_by").references(() => users.id),
+  batchId: varchar("batch_id"), // Shared by the messages of one scheduled send, one per recipient
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -181,23 +351,129 @@ export const insertMessageSchema = createInsertSchema(messages).omit({ id: true,
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
 
-// Trainings - training materials/announcements
+// Message attachments - MMS media sent with a message (photos of doctor's notes, schedules...)
+export const messageAttachments = pgTable("message_attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id").notNull().references(() => messages.id),
+  contentType: text("content_type").notNull(), // image/jpeg, image/png, application/pdf...
+  fileName: text("file_name"),
+  size: integer("size").default(0).notNull(), // Bytes
+  data: text("data"), // Base64 file contents; null if inbound media couldn't be downloaded
+  sourceUrl: text("source_url"), // Provider's URL for inbound media
+  publicToken: varchar("public_token"), // Outbound only - lets the provider fetch the file without a session
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMessageAttachmentSchema = createInsertSchema(messageAttachments).omit({ id: true, createdAt: true });
+export type InsertMessageAttachment = z.infer<typeof insertMessageAttachmentSchema>;
+export type MessageAttachment = typeof messageAttachments.$inferSelect;
+
+// SMS conversations - where an employee is in a multi-step text exchange, one row per employee.
+// The next reply is read as an answer to the open question until the conversation expires.
+export const smsConversations = pgTable("sms_conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").notNull().unique().references(() => employees.id),
+  flow: text("flow").notNull(), // shift_pick, withdraw_pick, withdraw_confirm, callout_poll
+  data: json("data").$type<Record<string, unknown>>().default({}).notNull(), // Flow-specific, e.g. the shift IDs in a numbered list
+  expiresAt: timestamp("expires_at").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertSmsConversationSchema = createInsertSchema(smsConversations).omit({ id: true, updatedAt: true });
+export type InsertSmsConversation = z.infer<typeof insertSmsConversationSchema>;
+export type SmsConversation = typeof smsConversations.$inferSelect;
+
+// SMS consent ledger - every change to an employee's SMS opt-in, kept for TCPA/10DLC audits.
+// Rows are only ever added; the latest row matches employees.smsOptIn.
+export const smsConsentEvents = pgTable("sms_consent_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  employeeId: varchar("employee_id").notNull().references(() => employees.id),
+  phone: text("phone").notNull(), // Number the consent applies to, as it was at the time
+  optedIn: boolean("opted_in").notNull(), // State after the change
+  source: text("source").notNull(), // sms_keyword, admin, employee_created
+  keyword: text("keyword"), // Raw text of the STOP/START reply
+  provider: text("provider"), // SMS provider that received the reply
+  messageId: varchar("message_id").references(() => messages.id), // Inbound reply, for sms_keyword
+  actorId: varchar("actor_id").references(() => users.id), // Admin who made the change
+  actorName: text("actor_name"),
+  note: text("note"), // How consent was obtained, for an admin re-enabling SMS
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSmsConsentEventSchema = createInsertSchema(smsConsentEvents).omit({ id: true, createdAt: true });
+export type InsertSmsConsentEvent = z.infer<typeof insertSmsConsentEventSchema>;
+export type SmsConsentEvent = typeof smsConsentEvents.$inferSelect;
+
+// Trainings - courses employees are assigned and complete, optionally at scheduled sessions
 export const trainings = pgTable("trainings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
   description: text("description"),
-  type: text("type").notNull(), // video, document, quiz
-  dueDate: text("due_date"),
+  type: text("type").notNull(), // in_person, video, document, quiz
+  dueDate: text("due_date"), // YYYY-MM-DD - assignments must be completed by then
   required: boolean("required").default(false).notNull(),
-  completedCount: integer("completed_count").default(0).notNull(),
-  totalAssigned: integer("total_assigned").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertTrainingSchema = createInsertSchema(trainings).omit({ id: true, createdAt: true });
+export const insertTrainingSchema = createInsertSchema(trainings, {
+  title: z.string().trim().min(1, "Title is required"),
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").nullable().optional(),
+}).omit({ id: true, createdAt: true });
 export type InsertTraining = z.infer<typeof insertTrainingSchema>;
 export type Training = typeof trainings.$inferSelect;
 
+// Training sessions - a scheduled time employees RSVP to, up to maxAttendees
+export const trainingSessions = pgTable("training_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trainingId: varchar("training_id").notNull().references(() => trainings.id),
+  date: text("date").notNull(), // YYYY-MM-DD
+  startTime: text("start_time").notNull(), // HH:MM, server local time like shifts
+  durationMinutes: integer("duration_minutes").default(60).notNull(),
+  location: text("location"),
+  maxAttendees: integer("max_attendees").notNull(),
+  reminderSentAt: timestamp("reminder_sent_at"), // Cleared when the session is rescheduled
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertTrainingSessionSchema = createInsertSchema(trainingSessions, {
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, "Time must be HH:MM"),
+  durationMinutes: z.number().int().min(15, "Sessions are at least 15 minutes").optional(),
+  maxAttendees: z.number().int().min(1, "At least one attendee is required"),
+}).omit({ id: true, createdAt: true, reminderSentAt: true });
+export type InsertTrainingSession = z.infer<typeof insertTrainingSessionSchema>;
+export type TrainingSession = typeof trainingSessions.$inferSelect;
+
+// Training assignments - one per employee per training, completed once they finish it
+export const trainingAssignments = pgTable("training_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trainingId: varchar("training_id").notNull().references(() => trainings.id),
+  employeeId: varchar("employee_id").notNull().references(() => employees.id),
+  assignedById: varchar("assigned_by_id").references(() => users.id), // Null when added by attending a session
+  completedAt: timestamp("completed_at"),
+  completedById: varchar("completed_by_id").references(() => users.id), // Who recorded the completion
+  sessionId: varchar("session_id").references(() => trainingSessions.id), // Session it was completed at, if any
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertTrainingAssignmentSchema = createInsertSchema(trainingAssignments).omit({ id: true, createdAt: true });
+export type InsertTrainingAssignment = z.infer<typeof insertTrainingAssignmentSchema>;
+export type TrainingAssignment = typeof trainingAssignments.$inferSelect;
+
+// Training RSVPs - an employee's answer for a session
+export const trainingRsvps = pgTable("training_rsvps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => trainingSessions.id),
+  employeeId: varchar("employee_id").notNull().references(() => employees.id),
+  status: text("status").notNull(), // attending, declined, attended
+  respondedAt: timestamp("responded_at").defaultNow().notNull(),
+});
+
+export const insertTrainingRsvpSchema = createInsertSchema(trainingRsvps).omit({ id: true, respondedAt: true });
+export type InsertTrainingRsvp = z.infer<typeof insertTrainingRsvpSchema>;
+export type TrainingRsvp = typeof trainingRsvps.$inferSelect;
+
 // Audit Logs - track critical actions
 export const auditLogs = pgTable("audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -216,6 +492,27 @@ export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: tru
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 
+// Report snapshots - saved copies of a shift report, made on demand or by the snapshot scheduler
+export const reportSnapshots = pgTable("report_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  source: text("source").notNull().default("manual"), // manual, scheduled
+  weeks: integer("weeks").notNull(),
+  areaId: varchar("area_id"), // Null = all areas. Not a reference so snapshots outlive deleted areas
+  periodFrom: text("period_from").notNull(), // YYYY-MM-DD
+  periodTo: text("period_to").notNull(), // YYYY-MM-DD
+  report: json("report").$type<ShiftReport>().notNull(),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdByName: text("created_by_name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertReportSnapshotSchema = createInsertSchema(reportSnapshots, {
+  report: z.custom<ShiftReport>(),
+}).omit({ id: true, createdAt: true });
+export type InsertReportSnapshot = z.infer<typeof insertReportSnapshotSchema>;
+export type ReportSnapshot = typeof reportSnapshots.$inferSelect;
+
 // Organization Settings - configurable system settings
 export const organizationSettings = pgTable("organization_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -0,0 +1,94 @@
+// Shift list queries - filters, sort order and cursor pagination for GET /api/shifts
+import { z } from "zod";
+import type { Area, Employee, Shift } from "./schema";
+import { addDays, getLocalToday } from "./recurrence";
+
+export const SHIFT_LIST_STATUSES = ["available", "claimed", "expired"] as const;
+export type ShiftListStatus = typeof SHIFT_LIST_STATUSES[number];
+
+export const SHIFT_SORTS = ["date-asc", "date-desc", "newest", "oldest"] as const;
+export type ShiftSort = typeof SHIFT_SORTS[number];
+
+export const MAX_SHIFT_PAGE_SIZE = 200;
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+// Query strings carry lists as comma-separated values, e.g. ?areaId=a,b
+const idList = z.string().transform(value => value.split(",").map(id => id.trim()).filter(Boolean));
+
+export const shiftQuerySchema = z.object({
+  from: dateString.optional(), // Shift date on or after
+  to: dateString.optional(), // Shift date on or before
+  postedFrom: z.string().datetime({ offset: true }).or(dateString).optional(), // Created at or after
+  postedTo: z.string().datetime({ offset: true }).or(dateString).optional(), // Created before
+  areaId: idList.optional(),
+  positionId: idList.optional(),
+  status: z.string()
+    .transform(value => value.split(",").filter(Boolean))
+    .pipe(z.array(z.enum(SHIFT_LIST_STATUSES)))
+    .optional(),
+  assignedEmployeeId: z.string().optional(),
+  search: z.string().trim().max(100).optional(), // Position title, area name or location
+  includePast: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  sort: z.enum(SHIFT_SORTS).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_SHIFT_PAGE_SIZE).optional(), // Paginates the response when set
+  cursor: z.string().optional(),
+});
+
+export type ShiftQuery = z.infer<typeof shiftQuerySchema>;
+
+// A shift as the list shows it, with its area, position title, interest count and assignee joined in
+export type ShiftWithDetails = Shift & {
+  area: Area | null;
+  interestedCount: number;
+  assignedEmployee: Employee | null;
+  position: string;
+};
+
+export type ShiftStatusCounts = Record<ShiftListStatus, number> & { total: number };
+
+// One page of shifts - counts cover every page and are only sent with the first
+export interface ShiftPage {
+  shifts: ShiftWithDetails[];
+  nextCursor: string | null;
+  counts?: ShiftStatusCounts;
+}
+
+/**
+ * Where a page ends - the sort key of its last shift. Paging on the key instead of an offset
+ * keeps pages stable while shifts are posted and filled.
+ */
+export interface ShiftCursor {
+  key: string; // Date and start time for coverage sorts, created-at timestamp for posted sorts
+  id: string;
+}
+
+// What storage filters and pages on - the parsed query with its cursor decoded
+export type ShiftListFilters = Omit<ShiftQuery, "limit" | "cursor"> & {
+  limit?: number;
+  after?: ShiftCursor;
+};
+
+/**
+ * Today's date and the current time in server local time, which shift dates and times use.
+ * A shift still available after its end time on its date is reported as expired.
+ */
+export function getShiftClock(now: Date = new Date()): { today: string; time: string } {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return {
+    today: getLocalToday(now),
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+  };
+}
+
+/**
+ * Whether a shift's end time has passed. Shifts whose end time is at or before the start time
+ * run overnight and end the next day, as in getShiftWindow.
+ */
+export function hasShiftEnded(
+  shift: Pick<Shift, "date" | "startTime" | "endTime">,
+  clock: { today: string; time: string }
+): boolean {
+  const endDate = shift.endTime <= shift.startTime ? addDays(shift.date, 1) : shift.date;
+  return endDate < clock.today || (endDate === clock.today && shift.endTime <= clock.time);
+}
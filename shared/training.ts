@@ -0,0 +1,57 @@
+// Training - courses, scheduled sessions with RSVP, and per-employee completion
+import type { Training, TrainingAssignment, TrainingSession } from "./schema";
+
+export const TRAINING_TYPES = ["in_person", "video", "document", "quiz"] as const;
+export type TrainingType = typeof TRAINING_TYPES[number];
+
+export const TRAINING_TYPE_LABELS: Record<TrainingType, string> = {
+  in_person: "In person",
+  video: "Video",
+  document: "Document",
+  quiz: "Quiz",
+};
+
+export const TRAINING_RSVP_STATUSES = ["attending", "declined", "attended"] as const;
+export type TrainingRsvpStatus = typeof TRAINING_RSVP_STATUSES[number];
+
+// A session as the Training page shows it
+export type TrainingSessionSummary = TrainingSession & {
+  attending: number; // RSVPs holding a seat - attending or attended
+  spotsLeft: number;
+  myRsvp: TrainingRsvpStatus | null; // The signed-in employee's answer
+};
+
+// A training with its sessions and completion progress
+export type TrainingSummary = Training & {
+  sessions: TrainingSessionSummary[]; // Soonest first
+  totalAssigned: number;
+  completedCount: number;
+  myAssignment: TrainingAssignment | null; // The signed-in employee's assignment
+};
+
+// An assignment with the employee's name and their RSVPs, for the training detail view
+export type TrainingAssignmentWithEmployee = TrainingAssignment & {
+  employeeName: string;
+  overdue: boolean;
+};
+
+/**
+ * When a session starts, in server local time like shift dates and times
+ */
+export function getSessionStart(session: Pick<TrainingSession, "date" | "startTime">): Date {
+  const [year, month, day] = session.date.split("-").map(Number);
+  const [hours, minutes] = session.startTime.split(":").map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+/**
+ * Human-readable length, e.g. "1 hour 30 min"
+ */
+export function formatTrainingDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  const parts: string[] = [];
+  if (hours > 0) parts.push(hours === 1 ? "1 hour" : `${hours} hours`);
+  if (rest > 0) parts.push(`${rest} min`);
+  return parts.join(" ") || "0 min";
+}